@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "ToolCallApproval" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "toolCallId" TEXT NOT NULL,
+    "toolName" TEXT NOT NULL,
+    "arguments" TEXT NOT NULL,
+    "decision" TEXT NOT NULL,
+    "reason" TEXT,
+    "userId" TEXT,
+    "userEmail" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ToolCallApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ToolCallApproval_conversationId_toolCallId_key" ON "ToolCallApproval"("conversationId", "toolCallId");
+
+-- CreateIndex
+CREATE INDEX "ToolCallApproval_organizationId_createdAt_idx" ON "ToolCallApproval"("organizationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ToolCallApproval" ADD CONSTRAINT "ToolCallApproval_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ToolCallApproval" ADD CONSTRAINT "ToolCallApproval_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ToolCallApproval" ADD CONSTRAINT "ToolCallApproval_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "createdById" TEXT,
+ADD COLUMN     "shareExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "shareToken" TEXT,
+ADD COLUMN     "sharedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Conversation_shareToken_key" ON "Conversation"("shareToken");
+
+-- CreateIndex
+CREATE INDEX "Conversation_organizationId_createdById_idx" ON "Conversation"("organizationId", "createdById");
+
+-- AddForeignKey
+ALTER TABLE "Conversation" ADD CONSTRAINT "Conversation_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
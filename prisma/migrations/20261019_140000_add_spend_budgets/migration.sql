@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "SpendBudget" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "clusterName" TEXT,
+    "agentName" TEXT,
+    "period" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "pauseScheduledAgents" BOOLEAN NOT NULL DEFAULT false,
+    "alertedThreshold" INTEGER,
+    "alertedPeriodStart" TIMESTAMP(3),
+    "alertedAt" TIMESTAMP(3),
+    "pausedAgents" TEXT[],
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SpendBudget_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SpendBudget_organizationId_idx" ON "SpendBudget"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "SpendBudget" ADD CONSTRAINT "SpendBudget_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SpendBudget" ADD CONSTRAINT "SpendBudget_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ModelPriceVersion" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "modelName" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL,
+    "inputTokenCost" DOUBLE PRECISION NOT NULL,
+    "outputTokenCost" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ModelPriceVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ModelPriceVersion_organizationId_modelName_effectiveFrom_idx" ON "ModelPriceVersion"("organizationId", "modelName", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "ModelPriceVersion" ADD CONSTRAINT "ModelPriceVersion_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ModelPriceVersion" ADD CONSTRAINT "ModelPriceVersion_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "CostReport" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "scheduleId" TEXT,
+    "format" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "recordCount" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CostReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CostReportSchedule" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "lastPeriodEnd" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CostReportSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CostReport_organizationId_createdAt_idx" ON "CostReport"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CostReportSchedule_organizationId_idx" ON "CostReportSchedule"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "CostReport" ADD CONSTRAINT "CostReport_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CostReport" ADD CONSTRAINT "CostReport_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "CostReportSchedule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CostReport" ADD CONSTRAINT "CostReport_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CostReportSchedule" ADD CONSTRAINT "CostReportSchedule_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CostReportSchedule" ADD CONSTRAINT "CostReportSchedule_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
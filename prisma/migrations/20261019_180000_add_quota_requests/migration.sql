@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "QuotaRequest" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "plan" TEXT,
+    "quotas" JSONB,
+    "message" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "requestedById" TEXT,
+    "reviewedById" TEXT,
+    "reviewNote" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QuotaRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuotaRequest_organizationId_createdAt_idx" ON "QuotaRequest"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "QuotaRequest_status_createdAt_idx" ON "QuotaRequest"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "QuotaRequest" ADD CONSTRAINT "QuotaRequest_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuotaRequest" ADD CONSTRAINT "QuotaRequest_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuotaRequest" ADD CONSTRAINT "QuotaRequest_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "QuotaUsageSnapshot" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "quota" JSONB NOT NULL,
+    "used" JSONB NOT NULL,
+    "takenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuotaUsageSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuotaUsageSnapshot_organizationId_takenAt_idx" ON "QuotaUsageSnapshot"("organizationId", "takenAt");
+
+-- CreateIndex
+CREATE INDEX "QuotaUsageSnapshot_takenAt_idx" ON "QuotaUsageSnapshot"("takenAt");
+
+-- AddForeignKey
+ALTER TABLE "QuotaUsageSnapshot" ADD CONSTRAINT "QuotaUsageSnapshot_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
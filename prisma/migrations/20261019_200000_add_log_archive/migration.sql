@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "LogArchiveEntry" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "resourceKind" TEXT NOT NULL,
+    "resourceName" TEXT NOT NULL,
+    "podName" TEXT NOT NULL,
+    "container" TEXT NOT NULL,
+    "executionId" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "level" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+
+    CONSTRAINT "LogArchiveEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LogArchiveEntry_resource_timestamp_idx" ON "LogArchiveEntry"("organizationId", "resourceKind", "resourceName", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "LogArchiveEntry_pod_timestamp_idx" ON "LogArchiveEntry"("organizationId", "podName", "container", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "LogArchiveEntry_timestamp_idx" ON "LogArchiveEntry"("timestamp");
+
+-- AddForeignKey
+ALTER TABLE "LogArchiveEntry" ADD CONSTRAINT "LogArchiveEntry_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
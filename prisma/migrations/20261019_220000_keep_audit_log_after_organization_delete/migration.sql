@@ -0,0 +1,2 @@
+-- DropForeignKey
+ALTER TABLE "AuditLog" DROP CONSTRAINT "AuditLog_organizationId_fkey";
@@ -34,6 +34,7 @@ import { LanguageAgentFormData, LanguageAgent } from '@/types/agent'
 import { useToast } from '@/hooks/use-toast'
 import { kubernetesNameValidation } from '@/lib/validation'
 import { useOrganization } from '@/components/organization-provider'
+import { AgentCostEstimator } from '@/components/agents/agent-cost-estimator'
 
 // Form validation schema
 const agentFormSchema = z.object({
@@ -397,6 +398,13 @@ export default function EditClusterAgentPage() {
                       />
                     </CardContent>
                   </Card>
+
+                  <AgentCostEstimator
+                    clusterName={clusterName}
+                    models={watchedValues.selectedModels}
+                    agentName={agentName}
+                    executionMode={agent.spec.executionMode}
+                  />
                 </TabsContent>
 
 
@@ -1,15 +1,29 @@
 'use client'
 
-import { useParams } from 'next/navigation'
+import { useMemo } from 'react'
+import { useParams, useSearchParams } from 'next/navigation'
 import { useAgent } from '@/hooks/use-agents'
 import { AgentLogs } from '@/components/agents/agent-logs'
 import { Card, CardContent } from '@/components/ui/card'
 
 export default function AgentLogsPage() {
   const params = useParams()
+  const searchParams = useSearchParams()
   const clusterName = params.name as string
   const agentName = params.agentName as string
 
+  // `from`, `to` and `podName` open the archived logs, as linked from a trace span
+  const from = searchParams.get('from')
+  const to = searchParams.get('to')
+  const podName = searchParams.get('podName')
+  const archiveFilters = useMemo(() => {
+    const range = { from: new Date(from || ''), to: new Date(to || '') }
+    if (Number.isNaN(range.from.getTime()) || Number.isNaN(range.to.getTime())) {
+      return undefined
+    }
+    return { ...range, podName: podName || undefined }
+  }, [from, to, podName])
+
   const { data: agentResponse, isLoading } = useAgent(agentName, clusterName)
   const agent = agentResponse?.data
 
@@ -32,5 +46,5 @@ export default function AgentLogsPage() {
     return null // Layout handles error state
   }
 
-  return <AgentLogs agent={agent} clusterName={clusterName} />
+  return <AgentLogs agent={agent} clusterName={clusterName} archiveFilters={archiveFilters} />
 }
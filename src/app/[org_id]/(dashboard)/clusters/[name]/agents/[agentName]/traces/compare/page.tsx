@@ -0,0 +1,53 @@
+'use client'
+
+import { useParams, useSearchParams } from 'next/navigation'
+import { useOrganization } from '@/components/organization-provider'
+import { ExecutionComparisonView } from '@/components/agents/execution-comparison'
+
+export default function CompareExecutionsPage() {
+  const params = useParams()
+  const searchParams = useSearchParams()
+  const { getOrgUrl } = useOrganization()
+
+  const clusterName = params.name as string
+  const agentName = params.agentName as string
+  const base = searchParams.get('base')
+  const target = searchParams.get('target')
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="mb-6">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+          <a href={getOrgUrl(`/clusters/${clusterName}/agents`)} className="hover:text-foreground">
+            Agents
+          </a>
+          <span>/</span>
+          <a href={getOrgUrl(`/clusters/${clusterName}/agents/${agentName}`)} className="hover:text-foreground">
+            {agentName}
+          </a>
+          <span>/</span>
+          <a href={getOrgUrl(`/clusters/${clusterName}/agents/${agentName}/traces`)} className="hover:text-foreground">
+            Traces
+          </a>
+          <span>/</span>
+          <span>Compare</span>
+        </div>
+        <h1 className="text-2xl font-bold">Compare Executions</h1>
+        <p className="text-muted-foreground">
+          Differences in duration, tokens, cost, errors and tool calls, task by task
+        </p>
+      </div>
+
+      {base && target ? (
+        <ExecutionComparisonView
+          clusterName={clusterName}
+          agentName={agentName}
+          base={base}
+          target={target}
+        />
+      ) : (
+        <p className="text-muted-foreground">Select two executions from the traces page to compare them.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import { useState } from 'react'
+import { useParams } from 'next/navigation'
+import { FileUp, XCircle } from 'lucide-react'
+import { useOrganization } from '@/components/organization-provider'
+import { AgentTraceViewer } from '@/components/agents/agent-trace-viewer'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { getOtlpSpans, parseOtlpFile, type OtlpDocument } from '@/lib/otlp'
+
+interface ImportedTrace {
+  fileName: string
+  document: OtlpDocument
+}
+
+// Execution summary for the viewer, taken from the spans in the file
+function describeTrace(document: OtlpDocument) {
+  const spans = getOtlpSpans(document)
+    .sort((a, b) => parseInt(a.startTimeUnixNano) - parseInt(b.startTimeUnixNano))
+  const startTime = new Date(parseInt(spans[0].startTimeUnixNano) / 1000000)
+  const endTime = new Date(Math.max(...spans.map(span => parseInt(span.endTimeUnixNano) / 1000000)))
+
+  return {
+    traceId: spans[0].traceId,
+    executionId: `exec_${spans[0].traceId.substring(0, 8)}`,
+    startTime,
+    endTime,
+    duration: endTime.getTime() - startTime.getTime(),
+    status: spans.some(span => span.status.code === 'STATUS_CODE_ERROR') ? 'error' as const : 'success' as const,
+    rootSpanName: spans[0].name,
+    spanCount: spans.length
+  }
+}
+
+export default function ImportTracePage() {
+  const params = useParams()
+  const { getOrgUrl } = useOrganization()
+  const [trace, setTrace] = useState<ImportedTrace | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const clusterName = params.name as string
+  const agentName = params.agentName as string
+
+  // Files are read in the browser; nothing is uploaded to the server
+  const handleFile = async (file?: File) => {
+    if (!file) return
+
+    try {
+      setTrace({ fileName: file.name, document: parseOtlpFile(await file.text()) })
+      setError(null)
+    } catch (err) {
+      setTrace(null)
+      setError(err instanceof Error ? err.message : 'Failed to read trace file')
+    }
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="mb-6">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+          <a href={getOrgUrl(`/clusters/${clusterName}/agents`)} className="hover:text-foreground">
+            Agents
+          </a>
+          <span>/</span>
+          <a href={getOrgUrl(`/clusters/${clusterName}/agents/${agentName}`)} className="hover:text-foreground">
+            {agentName}
+          </a>
+          <span>/</span>
+          <a href={getOrgUrl(`/clusters/${clusterName}/agents/${agentName}/traces`)} className="hover:text-foreground">
+            Traces
+          </a>
+          <span>/</span>
+          <span>Import</span>
+        </div>
+        <h1 className="text-2xl font-bold">Import Trace</h1>
+        <p className="text-muted-foreground">
+          Open an OTLP/JSON trace file, such as one downloaded from the trace viewer or exported by an OpenTelemetry collector
+        </p>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="flex items-center gap-4 py-6">
+          <FileUp className="h-8 w-8 text-muted-foreground shrink-0" />
+          <Input
+            type="file"
+            accept=".json,.jsonl,application/json"
+            onChange={(e) => handleFile(e.currentTarget.files?.[0])}
+            className="max-w-sm"
+          />
+          {trace && (
+            <span className="text-sm text-muted-foreground truncate">{trace.fileName}</span>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Card>
+          <CardContent className="flex items-center justify-center py-16">
+            <div className="text-center">
+              <XCircle className="h-12 w-12 text-red-600 mx-auto mb-4" />
+              <p className="text-muted-foreground">Failed to import trace</p>
+              <p className="text-sm text-muted-foreground mt-2">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {trace && (
+        <AgentTraceViewer
+          execution={describeTrace(trace.document)}
+          clusterName={clusterName}
+          agentName={agentName}
+          traceDocument={trace.document}
+        />
+      )}
+    </div>
+  )
+}
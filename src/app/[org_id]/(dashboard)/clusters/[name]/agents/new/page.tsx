@@ -35,6 +35,9 @@ import { LanguageAgentFormData, LanguageAgent } from '@/types/agent'
 import { useToast } from '@/hooks/use-toast'
 import { kubernetesNameValidation } from '@/lib/validation'
 import { useOrganization } from '@/components/organization-provider'
+import { AgentCostEstimator } from '@/components/agents/agent-cost-estimator'
+import { QuotaExceededAlert } from '@/components/usage/quota-exceeded-alert'
+import { QuotaExceededResponseError } from '@/lib/api-client'
 
 // Simplified form validation schema - only 5 essential fields
 const agentFormSchema = z.object({
@@ -142,6 +145,10 @@ export default function CreateClusterAgentPage() {
       router.push(getOrgUrl(`/clusters/${clusterName}/agents`))
     } catch (error) {
       console.error('Failed to create agent:', error)
+      // Shown inline next to the submit button
+      if (error instanceof QuotaExceededResponseError) {
+        return
+      }
       toast({
         title: 'Failed to create agent',
         description: error instanceof Error ? error.message : 'An unexpected error occurred.',
@@ -358,6 +365,10 @@ export default function CreateClusterAgentPage() {
                   {/* Form Actions */}
                 </Card>
 
+                <AgentCostEstimator clusterName={clusterName} models={form.watch('selectedModels')} />
+
+                <QuotaExceededAlert error={createAgent.error} />
+
                 {/* Form Actions */}
                 <div className="flex items-center justify-between">
                   <Button 
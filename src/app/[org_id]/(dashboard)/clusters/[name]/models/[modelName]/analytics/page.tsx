@@ -0,0 +1,36 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import { useModel } from '@/hooks/use-models'
+import { ModelAnalytics } from '@/components/models/model-analytics'
+import { Card, CardContent } from '@/components/ui/card'
+
+export default function ModelAnalyticsPage() {
+  const params = useParams()
+  const clusterName = params.name as string
+  const modelName = params.modelName as string
+
+  const { data: modelResponse, isLoading } = useModel(modelName, clusterName)
+  const model = modelResponse?.data
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="flex items-center justify-center py-16">
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto mb-4"></div>
+              <p className="text-gray-600">Loading analytics...</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!model) {
+    return null // Layout handles error state
+  }
+
+  return <ModelAnalytics model={model} clusterName={clusterName} />
+}
\ No newline at end of file
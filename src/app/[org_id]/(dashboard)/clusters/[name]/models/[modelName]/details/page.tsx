@@ -1,19 +1,74 @@
 'use client'
 
 import { useParams } from 'next/navigation'
-import { useModel } from '@/hooks/use-models'
+import { useModel, useModelPriceHistory } from '@/hooks/use-models'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Settings, Database, Shield, RefreshCw } from 'lucide-react'
+import { Settings, Database, Shield, RefreshCw, History } from 'lucide-react'
 import { LanguageModel } from '@/types/model'
 import { formatCurrencyAutoPrecision } from '@/lib/currency'
 
 interface ModelDetailsProps {
   model: LanguageModel
+  clusterName: string
 }
 
+function ModelPriceHistory({ modelName, clusterName }: { modelName: string; clusterName: string }) {
+  const { data: versions, isLoading } = useModelPriceHistory(modelName, clusterName)
 
-function ModelDetails({ model }: ModelDetailsProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Price History
+        </CardTitle>
+        <CardDescription>
+          Usage is costed at the price in effect when it happened
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading price history...</p>
+        ) : !versions?.length ? (
+          <p className="text-sm text-muted-foreground italic">No price changes yet. The current price applies to all usage.</p>
+        ) : (
+          <div className="space-y-3">
+            {versions.map((version, index) => (
+              <div key={version.effectiveFrom} className="flex items-start justify-between gap-4 border-b pb-3 last:border-0 last:pb-0">
+                <div>
+                  <p className="text-sm font-medium">
+                    {new Date(version.effectiveFrom).getTime() === 0
+                      ? 'Original price'
+                      : `From ${new Date(version.effectiveFrom).toLocaleString()}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {version.changedBy ? `Changed by ${version.changedBy}` : 'Price before tracking began'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 text-right">
+                  {version.pricing ? (
+                    <p className="text-sm">
+                      {formatCurrencyAutoPrecision(version.pricing.inputTokenCost, version.pricing.currency)} in
+                      {' / '}
+                      {formatCurrencyAutoPrecision(version.pricing.outputTokenCost, version.pricing.currency)} out
+                      <span className="text-muted-foreground"> per 1,000 tokens</span>
+                    </p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Cost tracking off</p>
+                  )}
+                  {index === 0 && <Badge variant="secondary">Current</Badge>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function ModelDetails({ model, clusterName }: ModelDetailsProps) {
   return (
     <div className="space-y-6">
       {/* Model Configuration */}
@@ -219,6 +274,8 @@ function ModelDetails({ model }: ModelDetailsProps) {
         </Card>
       )}
 
+      <ModelPriceHistory modelName={model.metadata.name!} clusterName={clusterName} />
+
     </div>
   )
 }
@@ -250,5 +307,5 @@ export default function ModelDetailsPage() {
     return null // Layout handles error state
   }
 
-  return <ModelDetails model={model} />
+  return <ModelDetails model={model} clusterName={clusterName} />
 }
\ No newline at end of file
@@ -3,7 +3,7 @@
 import { useState } from 'react'
 import { useRouter, useParams, usePathname } from 'next/navigation'
 import Link from 'next/link'
-import { Cpu, Edit, MoreVertical, FileCode, Trash2, Home, Info, Globe, ScrollText, Copy, Check } from 'lucide-react'
+import { Cpu, Edit, MoreVertical, FileCode, Trash2, Home, Info, Globe, ScrollText, Copy, Check, BarChart3 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
@@ -27,6 +27,7 @@ function getCurrentTabValue(pathname: string, clusterName: string, modelName: st
   for (const path of paths) {
     if (path === orgBasePath || path === `/clusters/${clusterName}/models/${modelName}`) return 'overview'
     if (path.endsWith('/details')) return 'details'
+    if (path.endsWith('/analytics')) return 'analytics'
     if (path.endsWith('/network')) return 'network'
     if (path.endsWith('/logs')) return 'logs'
   }
@@ -231,6 +232,12 @@ export default function ModelDetailLayout({ children }: ModelDetailLayoutProps)
                 Details
               </Link>
             </TabsTrigger>
+            <TabsTrigger value="analytics" asChild>
+              <Link href={getOrgUrl(`/clusters/${clusterName}/models/${modelName}/analytics`)}>
+                <BarChart3 className="w-4 h-4 mr-2" />
+                Analytics
+              </Link>
+            </TabsTrigger>
             <TabsTrigger value="network" asChild>
               <Link href={getOrgUrl(`/clusters/${clusterName}/models/${modelName}/network`)}>
                 <Globe className="w-4 h-4 mr-2" />
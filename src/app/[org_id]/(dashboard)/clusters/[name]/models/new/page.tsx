@@ -6,7 +6,8 @@ import { Button } from '@/components/ui/button'
 import { ModelForm, ModelFormData } from '@/components/forms/model-form'
 import { ResourceHeader } from '@/components/ui/resource-header'
 import { Cpu } from 'lucide-react'
-import { fetchWithOrganization } from '@/lib/api-client'
+import { fetchWithOrganization, QuotaExceededResponseError, toResponseError } from '@/lib/api-client'
+import { QuotaExceededAlert } from '@/components/usage/quota-exceeded-alert'
 import { useOrganization } from '@/components/organization-provider'
 
 export default function CreateClusterModelPage() {
@@ -16,10 +17,12 @@ export default function CreateClusterModelPage() {
   const { getOrgUrl } = useOrganization()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
+  const [quotaError, setQuotaError] = useState<QuotaExceededResponseError | null>(null)
 
   const handleSubmit = async (formData: ModelFormData) => {
     setIsLoading(true)
     setError('')
+    setQuotaError(null)
 
     try {
       const payload = {
@@ -56,7 +59,7 @@ export default function CreateClusterModelPage() {
           throw new Error(`${errorData.error || 'Validation failed'}: ${detailMessages}`)
         }
         
-        throw new Error(errorData.error || 'Failed to create model')
+        throw toResponseError(errorData, 'Failed to create model')
       }
 
       const result = await response.json()
@@ -66,7 +69,11 @@ export default function CreateClusterModelPage() {
       router.push(getOrgUrl(`/clusters/${clusterName}/models`))
     } catch (err: any) {
       console.error('Error creating model:', err)
-      setError(err.message || 'Failed to create model')
+      if (err instanceof QuotaExceededResponseError) {
+        setQuotaError(err)
+      } else {
+        setError(err.message || 'Failed to create model')
+      }
     } finally {
       setIsLoading(false)
     }
@@ -89,6 +96,7 @@ export default function CreateClusterModelPage() {
 
       {/* Form */}
       <div className="max-w-2xl">
+        <QuotaExceededAlert error={quotaError} className="mb-4" />
         <ModelForm
           isLoading={isLoading}
           error={error}
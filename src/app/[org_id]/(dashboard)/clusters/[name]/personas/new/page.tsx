@@ -4,7 +4,8 @@ import { useState } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import { useOrganization } from '@/components/organization-provider'
 import { PersonaFormSimple, PersonaFormData } from '@/components/forms/persona-form-simple'
-import { fetchWithOrganization } from '@/lib/api-client'
+import { fetchWithOrganization, QuotaExceededResponseError, toResponseError } from '@/lib/api-client'
+import { QuotaExceededAlert } from '@/components/usage/quota-exceeded-alert'
 import { ResourceHeader } from '@/components/ui/resource-header'
 import { Button } from '@/components/ui/button'
 import { Users, Sparkles } from 'lucide-react'
@@ -17,12 +18,14 @@ export default function CreateClusterPersonaPage() {
   const clusterName = params?.name as string
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
+  const [quotaError, setQuotaError] = useState<QuotaExceededResponseError | null>(null)
   const [autofillOpen, setAutofillOpen] = useState(false)
   const [generatedData, setGeneratedData] = useState<Partial<PersonaFormData> | null>(null)
 
   const handleSubmit = async (formData: PersonaFormData) => {
     setIsLoading(true)
     setError('')
+    setQuotaError(null)
 
     try {
       const payload = {
@@ -54,7 +57,7 @@ export default function CreateClusterPersonaPage() {
           throw new Error(`${errorData.error || 'Validation failed'}: ${detailMessages}`)
         }
         
-        throw new Error(errorData.error || 'Failed to create persona')
+        throw toResponseError(errorData, 'Failed to create persona')
       }
 
       const result = await response.json()
@@ -64,7 +67,11 @@ export default function CreateClusterPersonaPage() {
       router.push(getOrgUrl(`/clusters/${clusterName}/personas`))
     } catch (err: any) {
       console.error('Error creating persona:', err)
-      setError(err.message || 'Failed to create persona')
+      if (err instanceof QuotaExceededResponseError) {
+        setQuotaError(err)
+      } else {
+        setError(err.message || 'Failed to create persona')
+      }
     } finally {
       setIsLoading(false)
     }
@@ -105,6 +112,7 @@ export default function CreateClusterPersonaPage() {
             <p className="text-sm text-red-800">{error}</p>
           </div>
         )}
+        <QuotaExceededAlert error={quotaError} />
         <PersonaFormSimple
           onSubmit={handleSubmit}
           onCancel={handleCancel}
@@ -21,7 +21,8 @@ import { useOrganization } from '@/components/organization-provider'
 import { ToolCatalogEntry } from '@/types/tool-catalog'
 import { ResourceHeader } from '@/components/ui/resource-header'
 import { Wrench } from 'lucide-react'
-import { fetchWithOrganization } from '@/lib/api-client'
+import { fetchWithOrganization, QuotaExceededResponseError, toResponseError } from '@/lib/api-client'
+import { QuotaExceededAlert } from '@/components/usage/quota-exceeded-alert'
 
 export default function InstallToolPage() {
   const params = useParams()
@@ -34,6 +35,7 @@ export default function InstallToolPage() {
   const [loading, setLoading] = useState(true)
   const [installing, setInstalling] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [quotaError, setQuotaError] = useState<QuotaExceededResponseError | null>(null)
   const [success, setSuccess] = useState(false)
 
   useEffect(() => {
@@ -72,6 +74,7 @@ export default function InstallToolPage() {
     try {
       setInstalling(true)
       setError(null)
+      setQuotaError(null)
 
       const response = await fetchWithOrganization('/api/tools/install', {
         method: 'POST',
@@ -86,7 +89,7 @@ export default function InstallToolPage() {
 
       if (!response.ok) {
         const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to install tool')
+        throw toResponseError(errorData, 'Failed to install tool')
       }
 
       setSuccess(true)
@@ -97,7 +100,11 @@ export default function InstallToolPage() {
       }, 2000)
     } catch (err) {
       console.error('Error installing tool:', err)
-      setError(err instanceof Error ? err.message : 'Failed to install tool')
+      if (err instanceof QuotaExceededResponseError) {
+        setQuotaError(err)
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to install tool')
+      }
     } finally {
       setInstalling(false)
     }
@@ -162,6 +169,7 @@ export default function InstallToolPage() {
       )}
 
       {/* Error Message */}
+      <QuotaExceededAlert error={quotaError} />
       {error && (
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
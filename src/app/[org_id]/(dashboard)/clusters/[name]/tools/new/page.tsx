@@ -4,7 +4,8 @@ import { useState } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import { useOrganization } from '@/components/organization-provider'
 import { ToolForm, ToolFormData } from '@/components/forms/tool-form'
-import { fetchWithOrganization } from '@/lib/api-client'
+import { fetchWithOrganization, QuotaExceededResponseError, toResponseError } from '@/lib/api-client'
+import { QuotaExceededAlert } from '@/components/usage/quota-exceeded-alert'
 
 export default function CreateClusterToolPage() {
   const router = useRouter()
@@ -13,10 +14,12 @@ export default function CreateClusterToolPage() {
   const clusterName = params?.name as string
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
+  const [quotaError, setQuotaError] = useState<QuotaExceededResponseError | null>(null)
 
   const handleSubmit = async (formData: ToolFormData) => {
     setIsLoading(true)
     setError('')
+    setQuotaError(null)
 
     try {
       const payload = {
@@ -55,7 +58,7 @@ export default function CreateClusterToolPage() {
           throw new Error(`${errorData.error || 'Validation failed'}: ${detailMessages}`)
         }
         
-        throw new Error(errorData.error || 'Failed to create tool')
+        throw toResponseError(errorData, 'Failed to create tool')
       }
 
       const result = await response.json()
@@ -65,7 +68,11 @@ export default function CreateClusterToolPage() {
       router.push(getOrgUrl(`/clusters/${clusterName}/tools`))
     } catch (err: any) {
       console.error('Error creating tool:', err)
-      setError(err.message || 'Failed to create tool')
+      if (err instanceof QuotaExceededResponseError) {
+        setQuotaError(err)
+      } else {
+        setError(err.message || 'Failed to create tool')
+      }
     } finally {
       setIsLoading(false)
     }
@@ -87,6 +94,7 @@ export default function CreateClusterToolPage() {
 
         {/* Form */}
         <div className="max-w-4xl">
+          <QuotaExceededAlert error={quotaError} className="mb-4" />
           <ToolForm
             isLoading={isLoading}
             error={error}
@@ -6,7 +6,8 @@ import { Button } from '@/components/ui/button'
 import { ClusterForm, ClusterFormData } from '@/components/forms/cluster-form'
 import { ResourceHeader } from '@/components/ui/resource-header'
 import { Boxes } from 'lucide-react'
-import { useApiClient } from '@/lib/api-client'
+import { useApiClient, QuotaExceededResponseError, toResponseError } from '@/lib/api-client'
+import { QuotaExceededAlert } from '@/components/usage/quota-exceeded-alert'
 import { useOrganization } from '@/components/organization-provider'
 
 export default function CreateClusterPage() {
@@ -14,11 +15,13 @@ export default function CreateClusterPage() {
   const { getOrgUrl } = useOrganization()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
+  const [quotaError, setQuotaError] = useState<QuotaExceededResponseError | null>(null)
   const apiClient = useApiClient()
 
   const handleSubmit = async (formData: ClusterFormData) => {
     setIsLoading(true)
     setError('')
+    setQuotaError(null)
 
     try {
       const response = await apiClient.post('/clusters', {
@@ -31,7 +34,7 @@ export default function CreateClusterPage() {
 
       if (!response.ok) {
         const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to create cluster')
+        throw toResponseError(errorData, 'Failed to create cluster')
       }
 
       const result = await response.json()
@@ -43,7 +46,11 @@ export default function CreateClusterPage() {
       router.push(getOrgUrl(`/clusters/${clusterName}`))
     } catch (err: any) {
       console.error('Error creating cluster:', err)
-      setError(err.message || 'Failed to create cluster')
+      if (err instanceof QuotaExceededResponseError) {
+        setQuotaError(err)
+      } else {
+        setError(err.message || 'Failed to create cluster')
+      }
     } finally {
       setIsLoading(false)
     }
@@ -66,6 +73,7 @@ export default function CreateClusterPage() {
 
       {/* Form */}
       <div className="max-w-2xl">
+        <QuotaExceededAlert error={quotaError} className="mb-4" />
         <ClusterForm
           isLoading={isLoading}
           error={error}
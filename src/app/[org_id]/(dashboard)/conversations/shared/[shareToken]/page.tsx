@@ -0,0 +1,111 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { Link2Off, Loader2, MessageSquare } from 'lucide-react'
+import { ChatBubble } from '@/components/agents/agent-chat-bubble'
+import { ResourceHeader } from '@/components/ui/resource-header'
+import { Card, CardContent } from '@/components/ui/card'
+import { fetchWithOrganization } from '@/lib/api-client'
+import { ChatMessage } from '@/types/chat'
+
+interface SharedConversation {
+  id: string
+  title: string | null
+  agentName: string
+  clusterName: string
+  createdAt: string
+  sharedAt: string | null
+  expiresAt: string | null
+  sharedBy: { name: string | null; email: string } | null
+}
+
+export default function SharedConversationPage() {
+  const params = useParams()
+  const shareToken = params.shareToken as string
+
+  const [conversation, setConversation] = useState<SharedConversation | null>(null)
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchSharedConversation = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const response = await fetchWithOrganization(`/api/conversations/shared/${shareToken}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load shared conversation')
+        }
+
+        setConversation(data.conversation)
+        setMessages(data.messages)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load shared conversation')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchSharedConversation()
+  }, [shareToken])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin text-stone-400" />
+      </div>
+    )
+  }
+
+  if (error || !conversation) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-16">
+          <Link2Off className="w-16 h-16 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium mb-2">Conversation Unavailable</h3>
+          <p className="text-muted-foreground text-center max-w-md">
+            {error || 'This shared conversation could not be found.'}
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const sharedBy = conversation.sharedBy?.name || conversation.sharedBy?.email
+
+  return (
+    <div className="space-y-6">
+      <ResourceHeader
+        icon={MessageSquare}
+        title={conversation.title || `Conversation with ${conversation.agentName}`}
+        subtitle={[
+          `${conversation.agentName} on ${conversation.clusterName}`,
+          sharedBy && `shared by ${sharedBy}`,
+          conversation.sharedAt && formatDistanceToNow(new Date(conversation.sharedAt), { addSuffix: true }),
+          conversation.expiresAt && `link expires ${formatDistanceToNow(new Date(conversation.expiresAt), { addSuffix: true })}`,
+        ].filter(Boolean).join(' · ')}
+      />
+
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          {messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              This conversation has no messages.
+            </p>
+          ) : (
+            // Tool call cards render read-only without a decision handler
+            messages.map((message) => (
+              <ChatBubble key={message.id} message={message} />
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+'use client'
+
+import { DollarSign } from 'lucide-react'
+import { CostDashboard } from '@/components/usage/cost-dashboard'
+import { CostReports } from '@/components/usage/cost-reports'
+import { SpendBudgets } from '@/components/usage/spend-budgets'
+import { ResourceHeader } from '@/components/ui/resource-header'
+
+export default function CostPage() {
+  return (
+    <div className="space-y-6">
+      <ResourceHeader
+        icon={DollarSign}
+        title="Cost"
+        subtitle="LLM spend across all of your organization's clusters, agents and models"
+      />
+
+      <SpendBudgets />
+
+      <CostDashboard />
+
+      <CostReports />
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+'use client'
+
+import { Activity } from 'lucide-react'
+import { EventFeed } from '@/components/events/event-feed'
+import { ResourceHeader } from '@/components/ui/resource-header'
+
+export default function EventsPage() {
+  return (
+    <div className="space-y-6">
+      <ResourceHeader
+        icon={Activity}
+        title="Events"
+        subtitle="What Kubernetes reports about your organization's resources across all clusters"
+      />
+
+      <EventFeed />
+    </div>
+  )
+}
@@ -0,0 +1,293 @@
+'use client'
+
+import { useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { AlertCircle, ChevronDown, ChevronLeft, ChevronRight, Download, Loader2, ScrollText } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useOrganization } from '@/components/organization-provider'
+import { downloadAuditLogExport, useAuditLog } from '@/hooks/use-audit-log'
+import { AUDIT_ACTIONS, AUDIT_RESOURCE_TYPES, type AuditAction, type AuditChange, type AuditLogEntry, type AuditResourceType } from '@/types/audit'
+
+const PAGE_SIZE = 50
+const ALL = '__all__'
+
+const rangeOptions = [
+  { value: '1', label: 'Last 24 hours' },
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+]
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—'
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function ChangeList({ changes }: { changes: AuditChange[] }) {
+  return (
+    <div className="space-y-1 font-mono text-xs">
+      {changes.map((change) => (
+        <div key={change.path} className="grid grid-cols-[minmax(8rem,auto)_1fr] gap-3">
+          <span className="text-stone-600 dark:text-stone-400">{change.path}</span>
+          <span className="break-all">
+            {'before' in change && (
+              <span className="text-red-600 dark:text-red-400 line-through">{formatValue(change.before)}</span>
+            )}
+            {'before' in change && 'after' in change && ' → '}
+            {'after' in change && (
+              <span className="text-green-700 dark:text-green-400">{formatValue(change.after)}</span>
+            )}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function AuditRow({ entry, expanded, onToggle }: { entry: AuditLogEntry; expanded: boolean; onToggle: () => void }) {
+  const hasDetails = entry.changes.length > 0 || !!entry.metadata
+
+  return (
+    <>
+      <TableRow>
+        <TableCell className="text-sm whitespace-nowrap" title={new Date(entry.createdAt).toLocaleString()}>
+          {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+        </TableCell>
+        <TableCell className="text-sm">{entry.actor.email || 'Unknown'}</TableCell>
+        <TableCell>
+          <Badge variant={entry.action === 'delete' ? 'destructive' : 'outline'} className="text-xs capitalize">
+            {entry.action}
+          </Badge>
+        </TableCell>
+        <TableCell className="text-sm">
+          <span className="capitalize text-muted-foreground">{entry.resourceType}</span>{' '}
+          <span className="font-mono">{entry.resourceName}</span>
+          {entry.clusterName && entry.resourceType !== 'cluster' && (
+            <div className="text-xs text-muted-foreground">in {entry.clusterName}</div>
+          )}
+        </TableCell>
+        <TableCell className="text-right">
+          {hasDetails && (
+            <Button variant="ghost" size="sm" onClick={onToggle} aria-label={expanded ? 'Hide changes' : 'Show changes'}>
+              {entry.changes.length > 0 && <span className="text-xs">{entry.changes.length}</span>}
+              <ChevronDown className={`h-4 w-4 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+            </Button>
+          )}
+        </TableCell>
+      </TableRow>
+      {expanded && (
+        <TableRow className="bg-stone-50 dark:bg-stone-900/50 hover:bg-stone-50 dark:hover:bg-stone-900/50">
+          <TableCell colSpan={5} className="space-y-2">
+            {entry.changes.length > 0 && <ChangeList changes={entry.changes} />}
+            {entry.metadata && (
+              <div className="text-xs text-muted-foreground font-mono">
+                {Object.entries(entry.metadata).map(([key, value]) => `${key}: ${formatValue(value)}`).join(' · ')}
+              </div>
+            )}
+          </TableCell>
+        </TableRow>
+      )}
+    </>
+  )
+}
+
+export default function AuditLogSettingsPage() {
+  const { isAdmin } = useOrganization()
+  const [days, setDays] = useState('30')
+  const [resourceType, setResourceType] = useState<string>(ALL)
+  const [action, setAction] = useState<string>(ALL)
+  const [actor, setActor] = useState('')
+  const [resourceName, setResourceName] = useState('')
+  const [page, setPage] = useState(1)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const filters = {
+    days: parseInt(days),
+    resourceType: resourceType === ALL ? undefined : resourceType as AuditResourceType,
+    action: action === ALL ? undefined : action as AuditAction,
+    actor: actor.trim() || undefined,
+    resourceName: resourceName.trim() || undefined,
+  }
+  const { data, isLoading, error } = useAuditLog({ ...filters, page, limit: PAGE_SIZE, enabled: isAdmin })
+
+  if (!isAdmin) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-3 text-amber-600 dark:text-amber-400">
+          <AlertCircle className="h-5 w-5" />
+          <span>Access denied. Admin privileges required to view the audit log.</span>
+        </div>
+      </div>
+    )
+  }
+
+  const entries = data?.entries || []
+  const total = data?.total || 0
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  // Filters change what's on each page, so start again from the first
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value)
+    setPage(1)
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      await downloadAuditLogExport(filters)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export audit log')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Audit Log</h1>
+        <p className="text-stone-600 dark:text-stone-400">
+          Changes made to this organization through the dashboard, and who made them
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <ScrollText className="h-5 w-5" />
+                Changes
+              </CardTitle>
+              <CardDescription>
+                Expand an entry to see the fields it changed
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting || total === 0}>
+              {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              Export JSONL
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 pt-2">
+            <Select value={days} onValueChange={updateFilter(setDays)}>
+              <SelectTrigger className="w-[150px]" aria-label="Time range">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {rangeOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={resourceType} onValueChange={updateFilter(setResourceType)}>
+              <SelectTrigger className="w-[150px]" aria-label="Resource type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All resources</SelectItem>
+                {AUDIT_RESOURCE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={action} onValueChange={updateFilter(setAction)}>
+              <SelectTrigger className="w-[150px]" aria-label="Action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                {AUDIT_ACTIONS.map((value) => (
+                  <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={actor}
+              onChange={(e) => updateFilter(setActor)(e.target.value)}
+              placeholder="Filter by user"
+              aria-label="User"
+              className="w-[180px]"
+            />
+            <Input
+              value={resourceName}
+              onChange={(e) => updateFilter(setResourceName)(e.target.value)}
+              placeholder="Filter by resource name"
+              aria-label="Resource name"
+              className="w-[200px]"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[140px]">When</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead className="w-[100px]">Action</TableHead>
+                <TableHead>Resource</TableHead>
+                <TableHead className="w-[80px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8">
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : error ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-destructive">{error.message}</TableCell>
+                </TableRow>
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    No changes in this period
+                  </TableCell>
+                </TableRow>
+              ) : entries.map((entry) => (
+                <AuditRow
+                  key={entry.id}
+                  entry={entry}
+                  expanded={expanded === entry.id}
+                  onToggle={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                />
+              ))}
+            </TableBody>
+          </Table>
+          {total > 0 && (
+            <div className="flex items-center justify-between pt-4">
+              <p className="text-xs text-muted-foreground">
+                {total.toLocaleString()} changes • Page {page} of {pageCount}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,205 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertCircle, ArrowRightLeft, Coins, Loader2, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useOrganization } from '@/components/organization-provider'
+import {
+  useCurrencySettings,
+  useDeleteExchangeRate,
+  useSaveExchangeRate,
+  useUpdateReportingCurrency,
+} from '@/hooks/use-currency-settings'
+import { SUPPORTED_CURRENCIES } from '@/lib/currency'
+
+function CurrencySelect({ value, onChange, id }: { value: string; onChange: (value: string) => void; id?: string }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="w-full">
+        <SelectValue placeholder="Currency" />
+      </SelectTrigger>
+      <SelectContent>
+        {SUPPORTED_CURRENCIES.map((currency) => (
+          <SelectItem key={currency.code} value={currency.code}>
+            {currency.code} - {currency.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export default function CurrencySettingsPage() {
+  const { isAdmin } = useOrganization()
+  const { data: settings, isLoading } = useCurrencySettings()
+  const updateReportingCurrency = useUpdateReportingCurrency()
+  const saveRate = useSaveExchangeRate()
+  const deleteRate = useDeleteExchangeRate()
+
+  const [fromCurrency, setFromCurrency] = useState('')
+  const [rate, setRate] = useState('')
+
+  if (!isAdmin) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-3 text-amber-600 dark:text-amber-400">
+          <AlertCircle className="h-5 w-5" />
+          <span>Access denied. Admin privileges required to manage currency settings.</span>
+        </div>
+      </div>
+    )
+  }
+
+  const reportingCurrency = settings?.reportingCurrency || 'USD'
+  const parsedRate = parseFloat(rate)
+  const canAddRate = fromCurrency && fromCurrency !== reportingCurrency && parsedRate > 0
+
+  const handleReportingCurrencyChange = async (currency: string) => {
+    try {
+      await updateReportingCurrency.mutateAsync(currency)
+      toast.success(`Costs are now reported in ${currency}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update reporting currency')
+    }
+  }
+
+  const handleAddRate = async () => {
+    try {
+      await saveRate.mutateAsync({ fromCurrency, toCurrency: reportingCurrency, rate: parsedRate })
+      toast.success('Exchange rate saved')
+      setFromCurrency('')
+      setRate('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save exchange rate')
+    }
+  }
+
+  const handleDeleteRate = async (rateId: string) => {
+    try {
+      await deleteRate.mutateAsync(rateId)
+      toast.success('Exchange rate removed')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove exchange rate')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Currency</h1>
+        <p className="text-stone-600 dark:text-stone-400">
+          Model costs are converted into one currency before they are added up
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5" />
+            Reporting Currency
+          </CardTitle>
+          <CardDescription>
+            Cost dashboards, charts and budgets are shown in this currency
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : (
+            <div className="max-w-xs">
+              <CurrencySelect value={reportingCurrency} onChange={handleReportingCurrencyChange} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="h-5 w-5" />
+            Exchange Rates
+          </CardTitle>
+          <CardDescription>
+            Needed for every currency models are priced in other than {reportingCurrency}. Usage without a rate is left out of spend.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="rate-from">From</Label>
+              <CurrencySelect id="rate-from" value={fromCurrency} onChange={setFromCurrency} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-value">1 {fromCurrency || 'unit'} equals ({reportingCurrency})</Label>
+              <Input
+                id="rate-value"
+                type="number"
+                min="0"
+                step="0.0001"
+                placeholder="1.00"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleAddRate} disabled={!canAddRate || saveRate.isPending}>
+              {saveRate.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Save Rate
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Conversion</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead className="w-[70px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!settings?.rates.length ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">
+                    No exchange rates yet
+                  </TableCell>
+                </TableRow>
+              ) : settings.rates.map((exchangeRate) => (
+                <TableRow key={exchangeRate.id}>
+                  <TableCell className="font-mono text-sm">
+                    1 {exchangeRate.fromCurrency} = {exchangeRate.rate} {exchangeRate.toCurrency}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(exchangeRate.updatedAt).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteRate(exchangeRate.id)}
+                      disabled={deleteRate.isPending}
+                      aria-label="Remove exchange rate"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
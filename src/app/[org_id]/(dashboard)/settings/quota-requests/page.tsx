@@ -0,0 +1,200 @@
+'use client'
+
+import { useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { AlertCircle, Check, Gauge, Loader2, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useAdminQuotaRequests, usePlans, useReviewQuotaRequest } from '@/hooks/use-plans'
+import { QUOTA_LABELS } from '@/types/quota'
+import type { QuotaRequestSummary } from '@/lib/plans'
+
+const statusOptions = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'cancelled', label: 'Withdrawn' },
+]
+
+function RequestedChange({ request }: { request: QuotaRequestSummary }) {
+  const { data: plans } = usePlans()
+
+  if (request.plan) {
+    const plan = plans?.find(definition => definition.id === request.plan)
+    return <span>Plan: {plan?.name || request.plan}</span>
+  }
+
+  return (
+    <div className="space-y-0.5">
+      <span>Custom quota</span>
+      {Object.entries(request.quotas || {}).map(([resource, limit]) => (
+        <div key={resource} className="text-xs text-muted-foreground">
+          {QUOTA_LABELS[resource] || resource}: {limit}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default function QuotaRequestsSettingsPage() {
+  const { data: session } = useSession()
+  const [status, setStatus] = useState('pending')
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const { data: requests, isLoading, error } = useAdminQuotaRequests(status)
+  const reviewRequest = useReviewQuotaRequest()
+
+  if (!session?.user?.isPlatformAdmin) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-3 text-amber-600 dark:text-amber-400">
+          <AlertCircle className="h-5 w-5" />
+          <span>Access denied. Platform admin privileges required to review quota requests.</span>
+        </div>
+      </div>
+    )
+  }
+
+  const handleReview = async (requestId: string, decision: 'approve' | 'reject') => {
+    try {
+      await reviewRequest.mutateAsync({ requestId, decision, note: notes[requestId] || undefined })
+      toast.success(decision === 'approve' ? 'Request approved and quota applied' : 'Request rejected')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to review request')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Quota Requests</h1>
+        <p className="text-stone-600 dark:text-stone-400">
+          Plan upgrades and custom quotas requested by organization owners
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Gauge className="h-5 w-5" />
+                Requests
+              </CardTitle>
+              <CardDescription>
+                Approving a request changes the organization&apos;s plan and ResourceQuota
+              </CardDescription>
+            </div>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-[140px]" aria-label="Request status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statusOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Organization</TableHead>
+                <TableHead>Requested</TableHead>
+                <TableHead>Message</TableHead>
+                <TableHead>{status === 'pending' ? 'Note' : 'Review'}</TableHead>
+                {status === 'pending' && <TableHead className="w-[100px]"></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8">
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : error ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-destructive">{error.message}</TableCell>
+                </TableRow>
+              ) : !requests?.length ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    No {statusOptions.find(option => option.value === status)?.label.toLowerCase()} requests
+                  </TableCell>
+                </TableRow>
+              ) : requests.map((request) => (
+                <TableRow key={request.id}>
+                  <TableCell className="text-sm">
+                    <div className="font-medium">{request.organization.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      On <Badge variant="outline" className="text-xs capitalize">{request.organization.plan}</Badge>
+                      {' · '}
+                      {request.requestedBy || 'Unknown'}, {new Date(request.createdAt).toLocaleDateString()}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <RequestedChange request={request} />
+                  </TableCell>
+                  <TableCell className="text-sm max-w-xs whitespace-pre-wrap">{request.message || '—'}</TableCell>
+                  <TableCell className="text-sm">
+                    {request.status === 'pending' ? (
+                      <Input
+                        value={notes[request.id] || ''}
+                        onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+                        placeholder="Optional note to the owner"
+                        aria-label="Review note"
+                      />
+                    ) : (
+                      <div className="space-y-0.5">
+                        <div>{request.reviewedBy || '—'}{request.reviewedAt && `, ${new Date(request.reviewedAt).toLocaleDateString()}`}</div>
+                        {request.reviewNote && <div className="text-xs text-muted-foreground">{request.reviewNote}</div>}
+                      </div>
+                    )}
+                  </TableCell>
+                  {request.status === 'pending' && (
+                    <TableCell>
+                      <div className="flex justify-end">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleReview(request.id, 'approve')}
+                          disabled={reviewRequest.isPending}
+                          aria-label="Approve request"
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleReview(request.id, 'reject')}
+                          disabled={reviewRequest.isPending}
+                          aria-label="Reject request"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -3,12 +3,14 @@
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { cn } from '@/lib/utils'
-import { Users, Building2, UserCircle, Package } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { Users, Building2, UserCircle, Package, Coins, Gauge, ScrollText } from 'lucide-react'
 import { useOrganization } from '@/components/organization-provider'
 
 export function SettingsNav() {
   const pathname = usePathname()
   const { getOrgUrl, isAdmin } = useOrganization()
+  const { data: session } = useSession()
 
   const settingsNavigation = [
     {
@@ -34,6 +36,23 @@ export function SettingsNav() {
       name: 'Registries',
       href: getOrgUrl('/settings/registries'),
       icon: Package
+    }, {
+      name: 'Currency',
+      href: getOrgUrl('/settings/currency'),
+      icon: Coins
+    }, {
+      name: 'Audit',
+      href: getOrgUrl('/settings/audit'),
+      icon: ScrollText
+    })
+  }
+
+  // Quota requests from every organization are reviewed by platform admins
+  if (session?.user?.isPlatformAdmin) {
+    settingsNavigation.splice(-1, 0, {
+      name: 'Quotas',
+      href: getOrgUrl('/settings/quota-requests'),
+      icon: Gauge
     })
   }
 
@@ -58,6 +58,9 @@ describe('/api/[org_id]/clusters Integration Tests', () => {
     mockK8sClient.listByOrganization.mockResolvedValue({
       body: { items: [] }
     })
+    mockK8sClient.getResourceQuotaUsage.mockResolvedValue({
+      quota: {}, used: {}, available: {}, percentUsed: {}
+    })
   })
 
   describe('GET /api/[org_id]/clusters', () => {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getOrganizationContext } from '@/lib/organization-utils'
 import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
+import { assertQuotaAvailable } from '@/lib/quota-guard'
 import { LanguageCluster, LanguageClusterListParams, LanguageClusterFormData } from '@/types/cluster'
 import { 
   validateOrganizationContext, 
@@ -227,6 +228,8 @@ export const POST = withOrganizationErrorHandler(async function(
       },
     }
 
+    await assertQuotaAvailable(organization.namespace, { count: 'count/languageclusters' })
+
     const response = await k8sClient.createLanguageCluster(organization.namespace, cluster)
     
     console.log(`User ${user.email} created LanguageCluster ${formData.name} in organization ${organization.name}`)
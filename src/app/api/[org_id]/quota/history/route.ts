@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { getOrganizationContext } from '@/lib/organization-utils'
+import { getQuotaUsageHistory } from '@/lib/quota-usage-snapshot-service'
+import { isUsageHistoryRange, USAGE_HISTORY_RANGES } from '@/types/usage'
+import {
+  validateOrganizationContext,
+  withOrganizationErrorHandler,
+  createSuccessResponse,
+  ValidationError
+} from '@/lib/api-error-handler'
+
+// GET /api/[org_id]/quota/history?days=30 - Daily ResourceQuota usage with forecasts
+export const GET = withOrganizationErrorHandler(async function(
+  request: NextRequest,
+  { params }: { params: Promise<{ org_id: string }> }
+) {
+  // Extract organization context from middleware
+  const context = await getOrganizationContext()
+  const resolvedParams = await params
+
+  validateOrganizationContext(resolvedParams.org_id, context?.organizationId, context?.userId)
+
+  const days = Number(request.nextUrl.searchParams.get('days') || 30)
+  if (!isUsageHistoryRange(days)) {
+    throw new ValidationError(`days must be one of ${USAGE_HISTORY_RANGES.join(', ')}`)
+  }
+
+  return createSuccessResponse(await getQuotaUsageHistory(context!.organizationId, days))
+})
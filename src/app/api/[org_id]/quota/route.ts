@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getOrganizationContext } from '@/lib/organization-utils'
 import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
+import { isPlanId } from '@/lib/plans'
 import { 
   validateOrganizationContext, 
   OrganizationNotFoundError,
@@ -180,7 +181,7 @@ export const PUT = withOrganizationErrorHandler(async function(
       }
     } else {
       // Plan-based (legacy approach)
-      if (!['free', 'pro', 'enterprise'].includes(plan)) {
+      if (!isPlanId(plan)) {
         return NextResponse.json({ error: 'Invalid plan' }, { status: 400 })
       }
       newPlan = plan
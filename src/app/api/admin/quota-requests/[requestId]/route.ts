@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { isPlatformAdmin } from '@/lib/permissions'
+import { reviewQuotaRequest } from '@/lib/quota-request-service'
+
+interface RouteParams {
+  params: Promise<{ requestId: string }>
+}
+
+// Validation schema for POST request
+const reviewSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  note: z.string().max(2000).optional(),
+})
+
+// POST /api/admin/quota-requests/[requestId] - Approve and apply, or reject, a pending quota request
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id || !isPlatformAdmin(session.user.email)) {
+      return NextResponse.json(
+        { success: false, error: 'Platform admin privileges required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = reviewSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { requestId } = await params
+    const { decision, note } = validation.data
+
+    let reviewed
+    try {
+      reviewed = await reviewQuotaRequest(requestId, session.user.id, decision, note)
+    } catch (error) {
+      console.error('Failed to apply quota request:', error)
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to update Kubernetes quotas',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 500 }
+      )
+    }
+
+    if (!reviewed) {
+      return NextResponse.json({ success: false, error: 'Pending quota request not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: reviewed })
+  } catch (error) {
+    console.error('Error reviewing quota request:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to review quota request' },
+      { status: 500 }
+    )
+  }
+}
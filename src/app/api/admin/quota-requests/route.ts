@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { isPlatformAdmin } from '@/lib/permissions'
+import { QUOTA_REQUEST_STATUSES, type QuotaRequestStatus } from '@/lib/plans'
+import { listQuotaRequests } from '@/lib/quota-request-service'
+
+// GET /api/admin/quota-requests?status=pending - Quota requests across organizations, for platform admins
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!isPlatformAdmin(session?.user?.email)) {
+      return NextResponse.json(
+        { success: false, error: 'Platform admin privileges required' },
+        { status: 403 }
+      )
+    }
+
+    const status = new URL(request.url).searchParams.get('status')
+    if (status && !(QUOTA_REQUEST_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json({ success: false, error: 'Invalid status' }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await listQuotaRequests((status as QuotaRequestStatus | null) || undefined),
+    })
+  } catch (error) {
+    console.error('Error fetching quota requests:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch quota requests' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,15 +3,17 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
 import { k8sClient } from '@/lib/k8s-client'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 const OPERATOR_NAMESPACE = process.env.OPERATOR_NAMESPACE || 'language-operator'
 const CONFIG_MAP_NAME = 'language-operator-config'
 const REGISTRIES_KEY = 'allowed-registries'
 
 
-async function validateAdminAccess(session: any): Promise<boolean> {
+// The user's membership of an organization they administer, or null if they administer none
+async function getAdminMembership(session: any) {
   if (!session?.user?.id) {
-    return false
+    return null
   }
 
   // Check if user has admin access to any organization
@@ -22,14 +24,14 @@ async function validateAdminAccess(session: any): Promise<boolean> {
     }
   })
 
-  return !!membership
+  return membership
 }
 
 export async function GET() {
   try {
     const session = await getServerSession(authOptions)
     
-    if (!await validateAdminAccess(session)) {
+    if (!await getAdminMembership(session)) {
       return NextResponse.json(
         { error: 'Admin privileges required' }, 
         { status: 403 }
@@ -76,8 +78,9 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
+    const membership = await getAdminMembership(session)
     
-    if (!await validateAdminAccess(session)) {
+    if (!membership) {
       return NextResponse.json(
         { error: 'Admin privileges required' }, 
         { status: 403 }
@@ -155,6 +158,18 @@ export async function POST(request: NextRequest) {
         await k8sClient.createConfigMap(OPERATOR_NAMESPACE, newConfigMap)
       }
 
+      // Registries apply to every organization; the change is recorded with the admin's own
+      const previousRegistries: string = existingConfigMap?.data?.[REGISTRIES_KEY] || ''
+      await recordAuditEvent({
+        organizationId: membership.organizationId,
+        actor: { id: membership.userId, email: session?.user?.email },
+        action: 'update',
+        resourceType: 'registry',
+        resourceName: REGISTRIES_KEY,
+        before: { registries: previousRegistries.split('\n').filter(line => line.trim().length > 0) },
+        after: { registries },
+      })
+
       return NextResponse.json({ 
         success: true, 
         message: 'Registry configuration updated successfully' 
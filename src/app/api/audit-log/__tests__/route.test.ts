@@ -0,0 +1,133 @@
+/**
+ * Test suite for the audit log route
+ *
+ * Checks that the log is limited to admins and to the organization, and how
+ * filters and pagination reach the query.
+ */
+
+import type { NextRequest } from 'next/server'
+import { GET } from '../route'
+import { getUserOrganization } from '@/lib/organization-context'
+import { requirePermission } from '@/lib/permissions'
+import { db } from '@/lib/db'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({ status: init?.status ?? 200, json: async () => body }),
+  },
+}))
+jest.mock('@/lib/organization-context', () => ({
+  getUserOrganization: jest.fn(),
+}))
+jest.mock('@/lib/permissions', () => ({
+  requirePermission: jest.fn(),
+}))
+jest.mock('@/lib/db', () => ({
+  db: {
+    auditLog: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+  },
+}))
+
+const mockGetUserOrganization = getUserOrganization as jest.MockedFunction<typeof getUserOrganization>
+const mockRequirePermission = requirePermission as jest.MockedFunction<typeof requirePermission>
+const mockFindMany = db.auditLog.findMany as jest.Mock
+const mockCount = db.auditLog.count as jest.Mock
+
+function createRequest(query = '') {
+  return { url: `http://localhost/api/audit-log?${query}` } as NextRequest
+}
+
+describe('/api/audit-log', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetUserOrganization.mockResolvedValue({
+      user: { id: 'user-1', email: 'ana@example.com' },
+      organization: { id: 'org-1', namespace: 'org-ns-1', slug: 'acme' },
+      userRole: 'admin',
+    } as unknown as Awaited<ReturnType<typeof getUserOrganization>>)
+    mockRequirePermission.mockResolvedValue(true)
+    mockFindMany.mockResolvedValue([
+      {
+        id: 'log-1',
+        actorId: 'user-1',
+        actorEmail: 'ana@example.com',
+        action: 'update',
+        resourceType: 'agent',
+        resourceName: 'writer',
+        clusterName: 'prod',
+        changes: [{ path: 'replicas', before: 1, after: 2 }],
+        metadata: null,
+        createdAt: new Date('2026-01-10T12:00:00Z'),
+      },
+    ])
+    mockCount.mockResolvedValue(51)
+  })
+
+  it('should return a page of the organization\'s entries', async () => {
+    const response = await GET(createRequest('from=2026-01-01T00:00:00Z&to=2026-01-31T00:00:00Z&page=2'))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.data).toEqual([
+      {
+        id: 'log-1',
+        actor: { id: 'user-1', email: 'ana@example.com' },
+        action: 'update',
+        resourceType: 'agent',
+        resourceName: 'writer',
+        clusterName: 'prod',
+        changes: [{ path: 'replicas', before: 1, after: 2 }],
+        metadata: null,
+        createdAt: '2026-01-10T12:00:00.000Z',
+      },
+    ])
+    expect(body).toMatchObject({ total: 51, page: 2, limit: 50 })
+    expect(mockFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        organizationId: 'org-1',
+        createdAt: { gte: new Date('2026-01-01T00:00:00Z'), lte: new Date('2026-01-31T00:00:00Z') },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: 50,
+      take: 50,
+    }))
+  })
+
+  it('should filter by resource type, action, actor and resource name', async () => {
+    await GET(createRequest('resourceType=model&action=delete&actor=ana&resourceName=gpt'))
+
+    expect(mockFindMany.mock.calls[0][0].where).toMatchObject({
+      organizationId: 'org-1',
+      resourceType: 'model',
+      action: 'delete',
+      actorEmail: { contains: 'ana', mode: 'insensitive' },
+      resourceName: { contains: 'gpt', mode: 'insensitive' },
+    })
+  })
+
+  it('should refuse members who can\'t manage the organization', async () => {
+    mockRequirePermission.mockResolvedValue(false)
+
+    const response = await GET(createRequest())
+
+    expect(response.status).toBe(403)
+    expect(mockRequirePermission).toHaveBeenCalledWith('user-1', 'org-1', 'manage_settings')
+    expect(mockFindMany).not.toHaveBeenCalled()
+  })
+
+  it('should reject an unknown action', async () => {
+    const response = await GET(createRequest('action=launch'))
+
+    expect(response.status).toBe(400)
+    expect(mockFindMany).not.toHaveBeenCalled()
+  })
+
+  it('should reject a range that ends before it starts', async () => {
+    const response = await GET(createRequest('from=2026-02-01T00:00:00Z&to=2026-01-01T00:00:00Z'))
+
+    expect(response.status).toBe(400)
+  })
+})
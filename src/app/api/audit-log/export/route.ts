@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import {
+  createAuthenticationRequiredError,
+  createErrorResponse,
+  createPermissionDeniedError,
+} from '@/lib/api-error-handler'
+import { exportAuditLog, parseAuditLogFilters } from '@/lib/audit-log-service'
+import { formatAuditLogJsonl, getAuditLogExportFilename } from '@/lib/audit-log'
+
+// GET /api/audit-log/export - Download the audit log as JSON Lines, with the audit page's filters
+export async function GET(request: NextRequest) {
+  try {
+    const { user, organization, userRole } = await getUserOrganization(request)
+
+    if (!user?.id) {
+      throw createAuthenticationRequiredError()
+    }
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'manage_settings')
+    if (!hasPermission) {
+      throw createPermissionDeniedError('export the audit log', 'of the organization', userRole)
+    }
+
+    const query = parseAuditLogFilters(new URL(request.url).searchParams)
+    const entries = await exportAuditLog({ organizationId: organization.id, ...query })
+
+    return new NextResponse(formatAuditLogJsonl(entries), {
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Content-Disposition': `attachment; filename="${getAuditLogExportFilename(organization.slug, query.from, query.to)}"`,
+      },
+    })
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to export audit log')
+  }
+}
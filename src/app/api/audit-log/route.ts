@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import {
+  createAuthenticationRequiredError,
+  createErrorResponse,
+  createPermissionDeniedError,
+  createSuccessResponse,
+} from '@/lib/api-error-handler'
+import { parseAuditLogParams, searchAuditLog } from '@/lib/audit-log-service'
+
+// GET /api/audit-log - Changes made through the dashboard, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const { user, organization, userRole } = await getUserOrganization(request)
+
+    if (!user?.id) {
+      throw createAuthenticationRequiredError()
+    }
+
+    // Who did what is for those who manage the organization
+    const hasPermission = await requirePermission(user.id, organization.id, 'manage_settings')
+    if (!hasPermission) {
+      throw createPermissionDeniedError('view the audit log', 'of the organization', userRole)
+    }
+
+    const query = parseAuditLogParams(new URL(request.url).searchParams)
+    const { entries, total } = await searchAuditLog({ organizationId: organization.id, ...query })
+
+    return createSuccessResponse(entries, undefined, {
+      total,
+      page: query.page,
+      limit: query.limit,
+    })
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch audit log')
+  }
+}
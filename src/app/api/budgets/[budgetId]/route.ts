@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { deleteSpendBudget } from '@/lib/spend-budget-service'
+import { BUDGET_PERIODS } from '@/lib/spend-budgets'
+
+interface RouteParams {
+  params: Promise<{ budgetId: string }>
+}
+
+// Validation schema for PATCH request; a budget's scope is fixed once created
+const updateBudgetSchema = z.object({
+  period: z.enum(BUDGET_PERIODS).optional(),
+  amount: z.number().positive().optional(),
+  pauseScheduledAgents: z.boolean().optional(),
+})
+
+async function authorize(request: NextRequest) {
+  const { user, organization } = await getUserOrganization(request)
+  const hasPermission = await requirePermission(user.id, organization.id, 'edit')
+  return { organization, hasPermission }
+}
+
+// PATCH /api/budgets/[budgetId] - Change a budget's amount, period or pausing
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { organization, hasPermission } = await authorize(request)
+    if (!hasPermission) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to manage budgets' },
+        { status: 403 }
+      )
+    }
+
+    const { budgetId } = await params
+
+    const body = await request.json()
+    const validation = updateBudgetSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { period, amount } = validation.data
+    const updated = await db.spendBudget.updateMany({
+      where: { id: budgetId, organizationId: organization.id },
+      data: {
+        ...validation.data,
+        // A new amount or period re-alerts at whichever threshold spend is now past
+        ...((period !== undefined || amount !== undefined) && { alertedThreshold: null }),
+      },
+    })
+    if (updated.count === 0) {
+      return NextResponse.json({ success: false, error: 'Budget not found' }, { status: 404 })
+    }
+
+    const budget = await db.spendBudget.findUnique({ where: { id: budgetId } })
+    return NextResponse.json({ success: true, data: budget })
+  } catch (error) {
+    console.error('Error updating spend budget:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update spend budget' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/budgets/[budgetId] - Remove a budget, resuming agents it paused
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { organization, hasPermission } = await authorize(request)
+    if (!hasPermission) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to manage budgets' },
+        { status: 403 }
+      )
+    }
+
+    const { budgetId } = await params
+
+    if (!await deleteSpendBudget(organization, budgetId)) {
+      return NextResponse.json({ success: false, error: 'Budget not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting spend budget:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete spend budget' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { getSpendBudgetStatuses } from '@/lib/spend-budget-service'
+import { BUDGET_PERIODS, BUDGET_SCOPES, type SpendBudgetStatus } from '@/lib/spend-budgets'
+
+export interface SpendBudgetsResponse {
+  success: boolean
+  data: SpendBudgetStatus[]
+}
+
+// Validation schema for POST request
+const createBudgetSchema = z.object({
+  scope: z.enum(BUDGET_SCOPES),
+  clusterName: z.string().min(1).optional(),
+  agentName: z.string().min(1).optional(),
+  period: z.enum(BUDGET_PERIODS),
+  amount: z.number().positive(),
+  pauseScheduledAgents: z.boolean().default(false),
+})
+  .refine(budget => budget.scope !== 'cluster' || budget.clusterName, {
+    message: 'clusterName is required for cluster budgets',
+    path: ['clusterName'],
+  })
+  .refine(budget => budget.scope !== 'agent' || budget.agentName, {
+    message: 'agentName is required for agent budgets',
+    path: ['agentName'],
+  })
+
+// GET /api/budgets - The organization's budgets with spend so far this period
+export async function GET(request: NextRequest) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const response: SpendBudgetsResponse = {
+      success: true,
+      data: await getSpendBudgetStatuses(organization),
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error fetching spend budgets:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch spend budgets' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/budgets - Create a budget
+export async function POST(request: NextRequest) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'edit')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to manage budgets' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = createBudgetSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { scope, clusterName, agentName, period, amount, pauseScheduledAgents } = validation.data
+    const budget = await db.spendBudget.create({
+      data: {
+        organizationId: organization.id,
+        scope,
+        clusterName: scope === 'organization' ? null : clusterName ?? null,
+        agentName: scope === 'agent' ? agentName : null,
+        period,
+        amount,
+        pauseScheduledAgents,
+        createdById: user.id,
+      },
+    })
+
+    return NextResponse.json({ success: true, data: budget }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating spend budget:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create spend budget' },
+      { status: 500 }
+    )
+  }
+}
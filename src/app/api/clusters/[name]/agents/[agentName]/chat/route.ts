@@ -4,9 +4,29 @@ import { authOptions } from '@/lib/auth'
 import { k8sClient } from '@/lib/k8s-client'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
-import { parseAgentMessage } from '@/lib/message-parser'
-import { ChatMessage } from '@/types/chat'
+import { ChatMessage, ChatMessageMetadata, ChatStreamEvent } from '@/types/chat'
 import { serviceResolver } from '@/lib/service-resolver'
+import {
+  CompletionToolCall,
+  createSSEParser,
+  encodeChatStreamEvent,
+  extractCompletionMetadata,
+  parseCompletionChunk
+} from '@/lib/chat-stream'
+import {
+  appendConversationMessage,
+  getConversationHistory,
+  getUserConversation
+} from '@/lib/conversation-service'
+import {
+  CHAT_COMPLETION_OPTIONS,
+  CHAT_TIMEOUT_MS,
+  FALLBACK_ASSISTANT_MESSAGE,
+  buildAgentSystemMessage,
+  completeAssistantMessage,
+  resolveAgentChatEndpoint
+} from '@/lib/agent-chat'
+import { accumulateToolCallDeltas, normalizeToolCalls } from '@/lib/tool-calls'
 
 interface RouteParams {
   params: Promise<{
@@ -25,8 +45,20 @@ interface RouteParams {
 interface ChatRequest {
   message: string
   conversation?: ChatMessage[]
+  stream?: boolean
+  conversationId?: string
 }
 
+// Streaming requests are only aborted when the agent goes quiet for this long
+const CHAT_STREAM_IDLE_TIMEOUT_MS = 60000
+
+// Called with the full reply once the agent has finished responding
+type CompleteReply = (
+  content: string,
+  metadata: ChatMessageMetadata,
+  toolCalls: CompletionToolCall[]
+) => Promise<ChatMessage>
+
 // POST - Send a message to the agent
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
@@ -40,12 +72,35 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     const { name: clusterName, agentName } = await params
-    const { message, conversation = [] }: ChatRequest = await request.json()
+    const { message, conversation = [], stream = false, conversationId }: ChatRequest = await request.json()
 
     if (!message?.trim()) {
       return NextResponse.json({ error: 'Message is required' }, { status: 400 })
     }
 
+    // Persisted conversations are rebuilt from the database instead of client state
+    let history: Array<{ role: string; content: string }> = conversation
+    if (conversationId) {
+      const canPersist = await requirePermission(user.id, organization.id, 'create')
+      if (!canPersist) {
+        return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+      }
+
+      const storedConversation = await getUserConversation(conversationId, organization.id, user.id, userRole)
+      if (!storedConversation) {
+        return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+      }
+
+      if (storedConversation.agentName !== agentName || storedConversation.clusterName !== clusterName) {
+        return NextResponse.json({
+          error: 'Conversation mismatch',
+          message: `Conversation belongs to agent "${storedConversation.agentName}" in cluster "${storedConversation.clusterName}"`
+        }, { status: 400 })
+      }
+
+      history = await getConversationHistory(conversationId)
+    }
+
     console.log(`Chat message for agent ${agentName} in cluster ${clusterName}, namespace ${organization.namespace}`)
 
     // Get the agent to validate it exists and get its configuration
@@ -76,28 +131,61 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       }, { status: 503 })
     }
 
-    // Get agent's networking configuration to find chat endpoint
-    const networking = agentData.spec?.networking
-    const port = networking?.port || 8080 // Service port for agent communication
-    const serviceName = `${agentName}` // Service name matches agent name
-    
-    // Resolve agent endpoint based on environment (K8s vs Docker Compose)
-    const agentEndpoint = serviceResolver.resolveAgentChatUrl(serviceName, organization.namespace, port)
+    // Resolve agent endpoint from its networking configuration
+    const agentEndpoint = resolveAgentChatEndpoint(agentName, organization.namespace, agentData.spec?.networking)
     
     console.log(`Environment: ${JSON.stringify(serviceResolver.getEnvironmentInfo())}`)
     console.log(`Resolved agent endpoint: ${agentEndpoint}`)
 
     // Prepare the chat completion request
-    const systemMessage = agentData.spec?.instructions 
-      ? `You are ${agentName}. ${agentData.spec.instructions}`
-      : `You are ${agentName}, a helpful AI assistant.`
+    const systemMessage = buildAgentSystemMessage(agentName, agentData.spec?.instructions)
 
     const messages = [
       { role: 'system', content: systemMessage },
-      ...conversation,
+      ...history,
       { role: 'user', content: message }
     ]
 
+    // Store the user's turn before contacting the agent so it survives agent failures
+    const storedUserMessage = conversationId
+      ? await appendConversationMessage(conversationId, { role: 'user', content: message })
+      : null
+
+    const agentInfo = {
+      executionMode: agentData.spec?.executionMode,
+      modelRefs: agentData.spec?.modelRefs || [],
+      toolRefs: agentData.spec?.toolRefs || [],
+      personaRefs: agentData.spec?.personaRefs || []
+    }
+
+    const startedAt = Date.now()
+    const completeReply: CompleteReply = (content, metadata, rawToolCalls) => {
+      // A turn that ends on tool calls is waiting for approval decisions
+      const toolCalls = normalizeToolCalls(
+        rawToolCalls,
+        agentInfo.toolRefs,
+        metadata.finishReason === 'tool_calls'
+      )
+
+      return completeAssistantMessage(
+        content || (toolCalls.length > 0 ? '' : FALLBACK_ASSISTANT_MESSAGE),
+        { ...metadata, durationMs: Date.now() - startedAt, streamed: stream },
+        { conversationId, toolCalls }
+      )
+    }
+
+    const responseMeta = {
+      conversationId,
+      userMessageId: storedUserMessage?.id,
+      agentName,
+      agentStatus: agentData.status?.phase,
+      agentInfo
+    }
+
+    if (stream) {
+      return streamAgentResponse(request, agentEndpoint, messages, responseMeta, completeReply)
+    }
+
     // Make the request to the agent's chat completion endpoint
     const agentResponse = await fetch(agentEndpoint, {
       method: 'POST',
@@ -107,12 +195,11 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       },
       body: JSON.stringify({
         messages,
-        max_tokens: 1000,
-        temperature: 0.7,
+        ...CHAT_COMPLETION_OPTIONS,
         stream: false
       }),
       // Add timeout for agent responses
-      signal: AbortSignal.timeout(60000) // 60 second timeout
+      signal: AbortSignal.timeout(CHAT_TIMEOUT_MS)
     })
 
     if (!agentResponse.ok) {
@@ -128,36 +215,21 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Extract the assistant's response
     const assistantMessage = agentData_response.choices?.[0]?.message?.content || 
                              agentData_response.message || 
-                             'I apologize, but I was unable to generate a response.'
+                             ''
 
-    // Parse the response to separate thinking content from actual response
-    const parsed = parseAgentMessage(assistantMessage)
-
-    // Create the response message
-    const responseMessage: ChatMessage = {
-      id: (Date.now() + 1).toString(), // Generate unique ID
-      role: 'assistant',
-      content: assistantMessage, // Keep original content for backward compatibility
-      timestamp: new Date().toISOString(),
-      // Add parsed content for UI separation
-      thinkingContent: parsed.thinkingContent,
-      responseContent: parsed.responseContent,
-      hasThinking: parsed.hasThinking
-    }
+    // Create (and persist) the response message
+    const responseMessage = await completeReply(
+      assistantMessage,
+      extractCompletionMetadata(agentData_response),
+      agentData_response.choices?.[0]?.message?.tool_calls || []
+    )
 
     // Return the chat response
     return NextResponse.json({
       success: true,
       message: responseMessage,
-      agentName,
-      agentStatus: agentData.status?.phase,
-      // Include agent metadata for UI
-      agentInfo: {
-        executionMode: agentData.spec?.executionMode,
-        modelRefs: agentData.spec?.modelRefs || [],
-        toolRefs: agentData.spec?.toolRefs || [],
-        personaRefs: agentData.spec?.personaRefs || []
-      }
+      // Include conversation and agent metadata for UI
+      ...responseMeta
     })
 
   } catch (error) {
@@ -180,6 +252,151 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   }
 }
 
+// Proxy the agent's streaming chat completion to the client as ChatStreamEvents.
+// Errors before the first byte are returned as JSON so clients can handle them
+// exactly like the blocking variant; later failures arrive as an `error` event.
+async function streamAgentResponse(
+  request: NextRequest,
+  agentEndpoint: string,
+  messages: Array<{ role: string; content: string }>,
+  meta: Omit<Extract<ChatStreamEvent, { type: 'done' }>, 'type' | 'message'>,
+  completeReply: CompleteReply
+): Promise<Response> {
+  const abortController = new AbortController()
+  let idleTimer: ReturnType<typeof setTimeout> | undefined
+
+  const resetIdleTimer = () => {
+    if (idleTimer) clearTimeout(idleTimer)
+    idleTimer = setTimeout(() => abortController.abort(), CHAT_STREAM_IDLE_TIMEOUT_MS)
+  }
+
+  // Stop talking to the agent when the browser goes away
+  request.signal.addEventListener('abort', () => abortController.abort())
+  resetIdleTimer()
+
+  let agentResponse: Response
+  try {
+    agentResponse = await fetch(agentEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream'
+      },
+      body: JSON.stringify({
+        messages,
+        ...CHAT_COMPLETION_OPTIONS,
+        stream: true,
+        // Ask for a final usage chunk so token counts can be recorded
+        stream_options: { include_usage: true }
+      }),
+      signal: abortController.signal
+    })
+  } catch (error) {
+    clearTimeout(idleTimer)
+    if (abortController.signal.aborted) {
+      return NextResponse.json({
+        error: 'Request timeout',
+        message: 'The agent took too long to respond. Please try again.'
+      }, { status: 408 })
+    }
+    throw error
+  }
+
+  if (!agentResponse.ok || !agentResponse.body) {
+    clearTimeout(idleTimer)
+    console.error(`Agent endpoint error: ${agentResponse.status} ${agentResponse.statusText}`)
+    return NextResponse.json({
+      error: 'Agent communication failed',
+      message: `Failed to communicate with agent "${meta.agentName}". The agent may be starting up or experiencing issues.`
+    }, { status: 502 })
+  }
+
+  const isEventStream = agentResponse.headers.get('content-type')?.includes('text/event-stream')
+  const agentBody = agentResponse.body
+  const encoder = new TextEncoder()
+
+  const responseStream = new ReadableStream({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        controller.enqueue(encoder.encode(encodeChatStreamEvent(event)))
+      }
+
+      let fullContent = ''
+      const metadata: ChatMessageMetadata = {}
+      const toolCalls: CompletionToolCall[] = []
+      const appendContent = (delta: string) => {
+        fullContent += delta
+        send({ type: 'delta', content: delta })
+      }
+
+      try {
+        if (isEventStream) {
+          const parser = createSSEParser((data) => {
+            if (data === '[DONE]') return
+            const chunk = parseCompletionChunk(data)
+            if (!chunk) return
+            Object.assign(metadata, chunk.metadata)
+            accumulateToolCallDeltas(toolCalls, chunk.toolCalls)
+            if (chunk.content) appendContent(chunk.content)
+          })
+
+          const reader = agentBody.getReader()
+          const decoder = new TextDecoder()
+          while (true) {
+            const { done, value } = await reader.read()
+            if (done) break
+            resetIdleTimer()
+            parser.push(decoder.decode(value, { stream: true }))
+          }
+          parser.push(decoder.decode())
+          parser.flush()
+        } else {
+          // Agent ignored `stream: true` and answered with a single completion
+          const body = await new Response(agentBody).json()
+          const content = body.choices?.[0]?.message?.content || body.message
+          Object.assign(metadata, extractCompletionMetadata(body))
+          accumulateToolCallDeltas(toolCalls, body.choices?.[0]?.message?.tool_calls || [])
+          if (content) appendContent(content)
+        }
+
+        send({
+          type: 'done',
+          message: await completeReply(fullContent, metadata, toolCalls),
+          ...meta
+        })
+      } catch (error) {
+        console.error('Error streaming agent response:', error)
+        send({
+          type: 'error',
+          error: abortController.signal.aborted ? 'Request timeout' : 'Agent communication failed',
+          message: abortController.signal.aborted
+            ? 'The agent stopped responding. Please try again.'
+            : error instanceof Error ? error.message : 'Unknown error occurred'
+        })
+      } finally {
+        clearTimeout(idleTimer)
+        try {
+          controller.close()
+        } catch {
+          // Client already disconnected
+        }
+      }
+    },
+    cancel() {
+      clearTimeout(idleTimer)
+      abortController.abort()
+    }
+  })
+
+  return new Response(responseStream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  })
+}
+
 // GET - Get agent chat status and capabilities
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth/next'
-import { authOptions } from '@/lib/auth'
 import { z } from 'zod'
-import { createClickHouseClient } from '@/lib/clickhouse-config'
-import { k8sClient } from '@/lib/k8s-client'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { getTelemetryRepository, type TelemetryScope } from '@/lib/telemetry-repository'
+import { calculateTokenCost, getPriceChangeTimes, getPricingAt, getReportingPriceHistory } from '@/lib/model-pricing'
 
 // Validation schema for query parameters
 const UsageQuerySchema = z.object({
@@ -52,55 +52,6 @@ interface UsageResponse {
   currency?: string
 }
 
-// ClickHouse client
-const clickhouse = createClickHouseClient()
-
-// Cache for model pricing data
-const modelPricingCache = new Map<string, { inputTokenCost: number; outputTokenCost: number; currency: string; timestamp: number }>()
-
-// Helper function to normalize model names for Kubernetes resource lookup
-function normalizeModelName(telemetryModelName: string): string {
-  // Convert colons to dashes for Kubernetes resource names
-  // e.g., "qwen3-coder:30b" -> "qwen3-coder-30b"
-  return telemetryModelName.replace(/:/g, '-')
-}
-
-// Helper function to get model pricing
-async function getModelPricing(telemetryModelName: string, namespace: string): Promise<{ inputTokenCost: number; outputTokenCost: number; currency: string }> {
-  const k8sModelName = normalizeModelName(telemetryModelName)
-  const cacheKey = `${namespace}:${k8sModelName}`
-  const cached = modelPricingCache.get(cacheKey)
-  
-  // Cache for 5 minutes
-  if (cached && Date.now() - cached.timestamp < 5 * 60 * 1000) {
-    return { inputTokenCost: cached.inputTokenCost, outputTokenCost: cached.outputTokenCost, currency: cached.currency }
-  }
-  
-  const model = await k8sClient.getLanguageModel(namespace, k8sModelName)
-  
-  if (!model) {
-    throw new Error(`LanguageModel '${k8sModelName}' (telemetry: '${telemetryModelName}') not found in namespace '${namespace}'`)
-  }
-  
-  if (!model.spec.costTracking?.enabled) {
-    throw new Error(`Cost tracking not enabled for model '${k8sModelName}'`)
-  }
-  
-  const pricing = {
-    inputTokenCost: model.spec.costTracking.inputTokenCost,
-    outputTokenCost: model.spec.costTracking.outputTokenCost,
-    currency: model.spec.costTracking.currency || 'USD'
-  }
-  
-  // Cache the result
-  modelPricingCache.set(cacheKey, {
-    ...pricing,
-    timestamp: Date.now()
-  })
-  
-  return pricing
-}
-
 // Helper function to generate complete time intervals for padding
 function generateTimeIntervals(from: Date, to: Date, granularity: string): Date[] {
   const intervals: Date[] = []
@@ -179,170 +130,48 @@ function padTaskBreakdown(data: TaskCostDataPoint[], taskNames: string[], from:
   return { data: paddedData, taskNames }
 }
 
-// Real ClickHouse query functions
-async function queryUsageTimeSeries(agentName: string, from: Date, to: Date, granularity: string, namespace: string): Promise<{ data: UsageDataPoint[]; currency: string }> {
-  const intervalFunc = granularity === 'hour' ? 'toStartOfHour' : 'toStartOfDay'
-  
-  const sql = `
-    SELECT 
-      ${intervalFunc}(Timestamp) as timeInterval,
-      count() as tasks,
-      countIf(StatusCode = 'STATUS_CODE_ERROR') as errors,
-      avg(Duration) / 1000000 as avgResponseTime,
-      sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.input_tokens'])) as inputTokens,
-      sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.output_tokens'])) as outputTokens,
-      SpanAttributes['gen_ai.request.model'] as modelName
-    FROM langop.otel_traces
-    WHERE Timestamp >= {from:DateTime64(9)}
-      AND Timestamp <= {to:DateTime64(9)}
-      AND SpanAttributes['agent.name'] = {agentName:String}
-      AND SpanName != 'agent.reconcile'
-      AND (length(SpanAttributes['gen_ai.usage.input_tokens']) > 0 OR length(SpanAttributes['gen_ai.usage.output_tokens']) > 0)
-    GROUP BY timeInterval, modelName
-    ORDER BY timeInterval ASC, modelName ASC
-  `
-
+// Telemetry query functions
+async function queryUsageTimeSeries(scope: TelemetryScope, agentName: string, from: Date, to: Date, granularity: string): Promise<{ data: UsageDataPoint[]; currency: string }> {
   try {
-    // Handle kubectl-proxy vs direct ClickHouse access
-    if (process.env.KUBERNETES_SERVER_URL?.includes('kubectl-proxy') && process.env.CLICKHOUSE_DIRECT_ACCESS !== 'true') {
-      const baseUrl = `${process.env.KUBERNETES_SERVER_URL}/api/v1/namespaces/language-operator/services/language-operator-clickhouse:8123/proxy`
-      
-      const sqlWithParams = sql
-        .replace('{from:DateTime64(9)}', `fromUnixTimestamp64Nano(${from.getTime() * 1000000})`)
-        .replace('{to:DateTime64(9)}', `fromUnixTimestamp64Nano(${to.getTime() * 1000000})`)
-        .replace('{agentName:String}', `'${agentName}'`)
+    const rows = await getTelemetryRepository().getModelUsage({
+      scope,
+      agentName,
+      from,
+      to,
+      granularity: granularity === 'hour' ? 'hour' : 'day',
+      priceChanges: await getPriceChangeTimes(scope.organizationId, from, to),
+    })
 
-      console.log('Generated SQL query:', sqlWithParams)
+    // Rows are split where a price changed, so each is priced at one rate, in the reporting currency
+    const { pricing, currency } = await getReportingPriceHistory(rows.map(row => row.modelName), { id: scope.organizationId, namespace: scope.namespace })
 
-      const response = await fetch(`${baseUrl}?database=${process.env.CLICKHOUSE_DATABASE || 'langop'}&query=${encodeURIComponent(sqlWithParams)}`, {
-        headers: {
-          'Authorization': `Basic ${Buffer.from(`${process.env.CLICKHOUSE_USERNAME || 'langop'}:${process.env.CLICKHOUSE_PASSWORD || 'langop'}`).toString('base64')}`
-        }
-      })
-      
-      if (!response.ok) {
-        console.error('ClickHouse query failed:', response.status, response.statusText)
-        return { data: [], currency: 'USD' }
-      }
-      
-      const text = await response.text()
-      const lines = text.trim().split('\n')
-      
-      if (lines.length === 0 || (lines.length === 1 && lines[0] === '')) {
-        return { data: [], currency: 'USD' }
-      }
-      
-      // Group by timeInterval and calculate costs with real pricing
-      const dataByInterval = new Map<string, { tasks: number; errors: number; avgResponseTime: number; cost: number; tokens: number }>()
-      let currency = 'USD' // Default fallback
-      
-      for (const line of lines) {
-        const fields = line.split('\t')
-        const timeInterval = fields[0]
-        const tasks = parseInt(fields[1]) || 0
-        const errors = parseInt(fields[2]) || 0 
-        const avgResponseTime = parseFloat(fields[3]) || 0
-        const inputTokens = parseInt(fields[4]) || 0
-        const outputTokens = parseInt(fields[5]) || 0
-        const modelName = fields[6]
-        
-        if (!modelName) continue
-        
-        try {
-          const pricing = await getModelPricing(modelName, namespace)
-          const cost = (inputTokens * pricing.inputTokenCost / 1000) + (outputTokens * pricing.outputTokenCost / 1000)
-          
-          const existing = dataByInterval.get(timeInterval) || { tasks: 0, errors: 0, avgResponseTime: 0, cost: 0, tokens: 0 }
-          dataByInterval.set(timeInterval, {
-            tasks: existing.tasks + tasks,
-            errors: existing.errors + errors,
-            avgResponseTime: ((existing.avgResponseTime * existing.tasks) + (avgResponseTime * tasks)) / (existing.tasks + tasks),
-            cost: existing.cost + cost,
-            tokens: existing.tokens + inputTokens + outputTokens
-          })
-        } catch (error) {
-          console.warn(`Skipping cost calculation for model ${modelName}:`, error instanceof Error ? error.message : String(error))
-          // Still include the data but with 0 cost
-          const existing = dataByInterval.get(timeInterval) || { tasks: 0, errors: 0, avgResponseTime: 0, cost: 0, tokens: 0 }
-          dataByInterval.set(timeInterval, {
-            tasks: existing.tasks + tasks,
-            errors: existing.errors + errors,
-            avgResponseTime: ((existing.avgResponseTime * existing.tasks) + (avgResponseTime * tasks)) / (existing.tasks + tasks),
-            cost: existing.cost,
-            tokens: existing.tokens + inputTokens + outputTokens
-          })
-        }
-      }
-      
-      return {
-        data: Array.from(dataByInterval.entries()).map(([timeInterval, data]) => ({
-          timestamp: new Date(timeInterval).toISOString(),
-          ...data
-        })),
-        currency
-      }
-    } else {
-      const resultSet = await clickhouse.query({
-        query: sql,
-        query_params: {
-          from: from.getTime() * 1000000,
-          to: to.getTime() * 1000000,
-          agentName,
-        },
+    // Group by interval and calculate costs with real pricing
+    const dataByInterval = new Map<string, { tasks: number; errors: number; avgResponseTime: number; cost: number; tokens: number }>()
+
+    for (const row of rows) {
+      if (!row.modelName) continue
+
+      const timestamp = row.interval.toISOString()
+      // Unpriced models still count towards usage, with 0 cost
+      const modelPricing = getPricingAt(pricing, row.modelName, row.pricedAt)
+      const cost = modelPricing ? calculateTokenCost(modelPricing, row.inputTokens, row.outputTokens) : 0
+
+      const existing = dataByInterval.get(timestamp) || { tasks: 0, errors: 0, avgResponseTime: 0, cost: 0, tokens: 0 }
+      dataByInterval.set(timestamp, {
+        tasks: existing.tasks + row.spanCount,
+        errors: existing.errors + row.errorCount,
+        avgResponseTime: ((existing.avgResponseTime * existing.tasks) + (row.avgDurationMs * row.spanCount)) / (existing.tasks + row.spanCount),
+        cost: existing.cost + cost,
+        tokens: existing.tokens + row.inputTokens + row.outputTokens
       })
-      const result = await resultSet.json()
-      const data = result.data || []
-      
-      // Group by timeInterval and calculate costs with real pricing
-      const dataByInterval = new Map<string, { tasks: number; errors: number; avgResponseTime: number; cost: number; tokens: number }>()
-      let currency = 'USD' // Default fallback
-      
-      for (const row of data) {
-        const rowData = row as any // Cast to any to access properties from ClickHouse result
-        const timeInterval = rowData.timeInterval
-        const tasks = parseInt(rowData.tasks) || 0
-        const errors = parseInt(rowData.errors) || 0
-        const avgResponseTime = parseFloat(rowData.avgResponseTime) || 0
-        const inputTokens = parseInt(rowData.inputTokens) || 0
-        const outputTokens = parseInt(rowData.outputTokens) || 0
-        const modelName = rowData.modelName
-        
-        if (!modelName) continue
-        
-        try {
-          const pricing = await getModelPricing(modelName, namespace)
-          const cost = (inputTokens * pricing.inputTokenCost / 1000) + (outputTokens * pricing.outputTokenCost / 1000)
-          currency = pricing.currency // Use the currency from the model
-          
-          const existing = dataByInterval.get(timeInterval) || { tasks: 0, errors: 0, avgResponseTime: 0, cost: 0, tokens: 0 }
-          dataByInterval.set(timeInterval, {
-            tasks: existing.tasks + tasks,
-            errors: existing.errors + errors,
-            avgResponseTime: ((existing.avgResponseTime * existing.tasks) + (avgResponseTime * tasks)) / (existing.tasks + tasks),
-            cost: existing.cost + cost,
-            tokens: existing.tokens + inputTokens + outputTokens
-          })
-        } catch (error) {
-          console.warn(`Skipping cost calculation for model ${modelName}:`, error instanceof Error ? error.message : String(error))
-          // Still include the data but with 0 cost
-          const existing = dataByInterval.get(timeInterval) || { tasks: 0, errors: 0, avgResponseTime: 0, cost: 0, tokens: 0 }
-          dataByInterval.set(timeInterval, {
-            tasks: existing.tasks + tasks,
-            errors: existing.errors + errors,
-            avgResponseTime: ((existing.avgResponseTime * existing.tasks) + (avgResponseTime * tasks)) / (existing.tasks + tasks),
-            cost: existing.cost,
-            tokens: existing.tokens + inputTokens + outputTokens
-          })
-        }
-      }
-      
-      return {
-        data: Array.from(dataByInterval.entries()).map(([timeInterval, data]) => ({
-          timestamp: new Date(timeInterval).toISOString(),
-          ...data
-        })),
-        currency
-      }
+    }
+
+    return {
+      data: Array.from(dataByInterval.entries()).map(([timestamp, data]) => ({
+        timestamp,
+        ...data
+      })),
+      currency
     }
   } catch (error) {
     console.error('Error querying ClickHouse usage data:', error)
@@ -350,151 +179,46 @@ async function queryUsageTimeSeries(agentName: string, from: Date, to: Date, gra
   }
 }
 
-async function queryTaskCostBreakdown(agentName: string, from: Date, to: Date, granularity: string, namespace: string) {
-  const intervalFunc = granularity === 'hour' ? 'toStartOfHour' : 'toStartOfDay'
-  
-  const sql = `
-    SELECT 
-      ${intervalFunc}(Timestamp) as timeInterval,
-      SpanAttributes['task.name'] as taskName,
-      count() as taskCount,
-      sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.input_tokens'])) as inputTokens,
-      sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.output_tokens'])) as outputTokens,
-      SpanAttributes['gen_ai.request.model'] as modelName
-    FROM langop.otel_traces
-    WHERE Timestamp >= {from:DateTime64(9)}
-      AND Timestamp <= {to:DateTime64(9)}
-      AND SpanAttributes['agent.name'] = {agentName:String}
-      AND SpanName != 'agent.reconcile'
-      AND (length(SpanAttributes['gen_ai.usage.input_tokens']) > 0 OR length(SpanAttributes['gen_ai.usage.output_tokens']) > 0)
-      AND length(SpanAttributes['task.name']) > 0
-    GROUP BY timeInterval, taskName, modelName
-    ORDER BY timeInterval ASC, taskName ASC, modelName ASC
-  `
-
+async function queryTaskCostBreakdown(scope: TelemetryScope, agentName: string, from: Date, to: Date, granularity: string) {
   try {
-    let rawData: any[] = []
-    
-    if (process.env.KUBERNETES_SERVER_URL?.includes('kubectl-proxy') && process.env.CLICKHOUSE_DIRECT_ACCESS !== 'true') {
-      const baseUrl = `${process.env.KUBERNETES_SERVER_URL}/api/v1/namespaces/language-operator/services/language-operator-clickhouse:8123/proxy`
-      
-      const sqlWithParams = sql
-        .replace('{from:DateTime64(9)}', `fromUnixTimestamp64Nano(${from.getTime() * 1000000})`)
-        .replace('{to:DateTime64(9)}', `fromUnixTimestamp64Nano(${to.getTime() * 1000000})`)
-        .replace('{agentName:String}', `'${agentName}'`)
-
-      const response = await fetch(`${baseUrl}?database=${process.env.CLICKHOUSE_DATABASE || 'langop'}&query=${encodeURIComponent(sqlWithParams)}`, {
-        headers: {
-          'Authorization': `Basic ${Buffer.from(`${process.env.CLICKHOUSE_USERNAME || 'langop'}:${process.env.CLICKHOUSE_PASSWORD || 'langop'}`).toString('base64')}`
-        }
-      })
-      
-      if (!response.ok) {
-        console.error('ClickHouse task breakdown query failed:', response.status, response.statusText)
-        return { data: [], taskNames: [] }
-      }
-      
-      const text = await response.text()
-      const lines = text.trim().split('\n')
-      
-      if (lines.length === 0 || (lines.length === 1 && lines[0] === '')) {
-        return { data: [], taskNames: [] }
-      }
-      
-      rawData = []
-      for (const line of lines) {
-        const fields = line.split('\t')
-        const timeInterval = fields[0]
-        const taskName = fields[1]
-        const taskCount = parseInt(fields[2]) || 0
-        const inputTokens = parseInt(fields[3]) || 0
-        const outputTokens = parseInt(fields[4]) || 0
-        const modelName = fields[5]
-        
-        if (!modelName || !taskName) continue
-        
-        try {
-          const pricing = await getModelPricing(modelName, namespace)
-          const cost = (inputTokens * pricing.inputTokenCost / 1000) + (outputTokens * pricing.outputTokenCost / 1000)
-          
-          rawData.push({
-            timeInterval,
-            taskName,
-            taskCount,
-            cost,
-          })
-        } catch (error) {
-          console.warn(`Skipping task cost calculation for model ${modelName}:`, error instanceof Error ? error.message : String(error))
-          rawData.push({
-            timeInterval,
-            taskName,
-            taskCount,
-            cost: 0,
-          })
-        }
-      }
-    } else {
-      const resultSet = await clickhouse.query({
-        query: sql,
-        query_params: {
-          from: from.getTime() * 1000000,
-          to: to.getTime() * 1000000,
-          agentName,
-        },
+    const rows = await getTelemetryRepository().getTaskUsage({
+      scope,
+      agentName,
+      from,
+      to,
+      granularity: granularity === 'hour' ? 'hour' : 'day',
+      priceChanges: await getPriceChangeTimes(scope.organizationId, from, to),
+    })
+
+    const { pricing } = await getReportingPriceHistory(rows.map(row => row.modelName), { id: scope.organizationId, namespace: scope.namespace })
+
+    const rawData: { timestamp: string; taskName: string; cost: number }[] = []
+    for (const row of rows) {
+      if (!row.modelName || !row.taskName) continue
+
+      const modelPricing = getPricingAt(pricing, row.modelName, row.pricedAt)
+      const cost = modelPricing ? calculateTokenCost(modelPricing, row.inputTokens, row.outputTokens) : 0
+
+      rawData.push({
+        timestamp: row.interval.toISOString(),
+        taskName: row.taskName,
+        cost,
       })
-      const result = await resultSet.json()
-      const data = result.data || []
-      
-      rawData = []
-      for (const row of data) {
-        const rowData = row as any // Cast to any to access properties from ClickHouse result
-        const timeInterval = rowData.timeInterval
-        const taskName = rowData.taskName
-        const taskCount = parseInt(rowData.taskCount) || 0
-        const inputTokens = parseInt(rowData.inputTokens) || 0
-        const outputTokens = parseInt(rowData.outputTokens) || 0
-        const modelName = rowData.modelName
-        
-        if (!modelName || !taskName) continue
-        
-        try {
-          const pricing = await getModelPricing(modelName, namespace)
-          const cost = (inputTokens * pricing.inputTokenCost / 1000) + (outputTokens * pricing.outputTokenCost / 1000)
-          
-          rawData.push({
-            timeInterval,
-            taskName,
-            taskCount,
-            cost,
-          })
-        } catch (error) {
-          console.warn(`Skipping task cost calculation for model ${modelName}:`, error instanceof Error ? error.message : String(error))
-          rawData.push({
-            timeInterval,
-            taskName,
-            taskCount,
-            cost: 0,
-          })
-        }
-      }
     }
 
     // Get unique task names
-    const taskNames = [...new Set(rawData.map(row => row.taskName))].filter(name => name).sort()
+    const taskNames = [...new Set(rawData.map(row => row.taskName))].sort()
     
-    // Group by time interval and pivot by task name
-    const timeIntervals = [...new Set(rawData.map(row => row.timeInterval))]
-    const data: TaskCostDataPoint[] = timeIntervals.map(interval => {
-      const point: TaskCostDataPoint = {
-        timestamp: new Date(interval).toISOString()
-      }
+    // Group by time interval and pivot by task name, summing across models
+    const timestamps = [...new Set(rawData.map(row => row.timestamp))]
+    const data: TaskCostDataPoint[] = timestamps.map(timestamp => {
+      const point: TaskCostDataPoint = { timestamp }
       
       // Add cost for each task
       taskNames.forEach(taskName => {
-        const taskData = rawData.find(row => 
-          (row.timeInterval === interval) && (row.taskName === taskName)
-        )
-        point[taskName] = taskData ? (taskData.cost || 0) : 0
+        point[taskName] = rawData
+          .filter(row => row.timestamp === timestamp && row.taskName === taskName)
+          .reduce((sum, row) => sum + row.cost, 0)
       })
       
       return point
@@ -535,15 +259,16 @@ export async function GET(
   { params }: { params: Promise<{ name: string; agentName: string }> }
 ) {
   try {
-    // Await params in Next.js 15
-    const { name, agentName } = await params
-    
-    // Verify authentication
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
     }
 
+    // Await params in Next.js 15
+    const { agentName } = await params
+
     // Extract and validate query parameters
     const { searchParams } = new URL(request.url)
     const rawParams = {
@@ -591,16 +316,12 @@ export async function GET(
     const rangeDays = (to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000)
     const autoGranularity = granularity || (rangeDays <= 7 ? 'hour' : 'day')
 
-    // We need to determine the namespace for the agent to fetch model pricing
-    // For now, we'll try to find the agent in multiple namespaces
-    // TODO: Make this more robust by tracking agent->namespace mapping
-    const possibleNamespaces = ['org-hdzkdwbv', 'default', 'language-operator']
-    let agentNamespace = 'org-hdzkdwbv' // Default fallback
-    
-    // Query real ClickHouse data
+    // Model pricing lives in the organization's namespace
+    const scope: TelemetryScope = { organizationId: organization.id, namespace: organization.namespace }
+
     const [usageResult, rawTaskBreakdown] = await Promise.all([
-      queryUsageTimeSeries(agentName, from, to, autoGranularity, agentNamespace),
-      queryTaskCostBreakdown(agentName, from, to, autoGranularity, agentNamespace)
+      queryUsageTimeSeries(scope, agentName, from, to, autoGranularity),
+      queryTaskCostBreakdown(scope, agentName, from, to, autoGranularity)
     ])
     
     // Pad both datasets to ensure consistent X-axis ranges
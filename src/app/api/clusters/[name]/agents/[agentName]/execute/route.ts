@@ -5,6 +5,7 @@ import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 interface RouteParams {
   params: Promise<{
@@ -64,6 +65,15 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     const createdJob = await k8sClient.createJobFromCronJob(organization.namespace, agentName, jobName)
     
     console.log(`Manual execution Job created: ${jobName}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'execute',
+      resourceType: 'agent',
+      resourceName: agentName,
+      clusterName,
+      metadata: { jobName },
+    })
 
     // Return job information
     return NextResponse.json({
@@ -0,0 +1,141 @@
+/**
+ * Test suite for the agent executions route
+ *
+ * Runs the route against an in-memory telemetry repository to check
+ * permissions, organization scoping, filters, paging and facets.
+ */
+
+import type { NextRequest } from 'next/server'
+import { GET } from '../route'
+import { getUserOrganization } from '@/lib/organization-context'
+import { requirePermission } from '@/lib/permissions'
+import { setTelemetryRepository } from '@/lib/telemetry-repository'
+import { createInMemoryTelemetryRepository } from '@/lib/in-memory-telemetry-repository'
+
+// jest.setup replaces the global Response, which NextResponse extends
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({
+      status: init?.status ?? 200,
+      json: async () => body,
+    }),
+  },
+}))
+jest.mock('@/lib/organization-context', () => ({
+  getUserOrganization: jest.fn(),
+}))
+jest.mock('@/lib/permissions', () => ({
+  requirePermission: jest.fn(),
+}))
+
+const mockGetUserOrganization = getUserOrganization as jest.MockedFunction<typeof getUserOrganization>
+const mockRequirePermission = requirePermission as jest.MockedFunction<typeof requirePermission>
+
+const params = Promise.resolve({ name: 'cluster-1', agentName: 'agent' })
+
+function createRequest(query = 'limit=10&timeRange=3600000') {
+  return { url: `http://localhost/api/clusters/cluster-1/agents/agent/executions?${query}` } as NextRequest
+}
+
+describe('/api/clusters/[name]/agents/[agentName]/executions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetUserOrganization.mockResolvedValue({
+      user: { id: 'user-1' },
+      organization: { id: 'org-1', namespace: 'org-ns-1' },
+    } as unknown as Awaited<ReturnType<typeof getUserOrganization>>)
+    mockRequirePermission.mockResolvedValue(true)
+
+    const now = Date.now()
+    setTelemetryRepository(createInMemoryTelemetryRepository([
+      {
+        traceId: 'aaaa1111bbbb2222',
+        spanId: 'span-1',
+        spanName: 'agent.run',
+        timestamp: new Date(now - 60 * 1000),
+        durationNs: 2400000,
+        statusCode: 'STATUS_CODE_OK',
+        resourceAttributes: { 'k8s.namespace.name': 'org-ns-1' },
+        spanAttributes: { 'agent.name': 'agent', 'gen_ai.request.model': 'gpt-4o' },
+      },
+      {
+        traceId: 'eeee5555ffff6666',
+        spanId: 'span-3',
+        spanName: 'agent.run',
+        timestamp: new Date(now - 90 * 1000),
+        durationNs: 5000000,
+        statusCode: 'STATUS_CODE_ERROR',
+        resourceAttributes: { 'k8s.namespace.name': 'org-ns-1' },
+        spanAttributes: { 'agent.name': 'agent' },
+      },
+      {
+        traceId: 'cccc3333dddd4444',
+        spanId: 'span-2',
+        spanName: 'agent.run',
+        timestamp: new Date(now - 30 * 1000),
+        durationNs: 1000000,
+        resourceAttributes: { 'k8s.namespace.name': 'other-ns' },
+        spanAttributes: { 'agent.name': 'agent' },
+      },
+    ]))
+  })
+
+  afterAll(() => {
+    setTelemetryRepository(null)
+  })
+
+  it('should return executions from the organization', async () => {
+    const response = await GET(createRequest(), { params })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data).toHaveLength(2)
+    expect(data.data[0]).toEqual(expect.objectContaining({
+      traceId: 'aaaa1111bbbb2222',
+      executionId: 'exec_aaaa1111',
+      duration: 2,
+      status: 'success',
+      rootSpanName: 'agent.run',
+      spanCount: 1,
+      models: ['gpt-4o'],
+    }))
+    expect(data.nextCursor).toBeNull()
+    expect(data.facets.status).toEqual([
+      { value: 'error', count: 1 },
+      { value: 'success', count: 1 },
+    ])
+  })
+
+  it('should page with a cursor', async () => {
+    const first = await (await GET(createRequest('limit=1&timeRange=3600000'), { params })).json()
+    expect(first.data.map((execution: { traceId: string }) => execution.traceId)).toEqual(['aaaa1111bbbb2222'])
+    expect(first.nextCursor).toEqual(expect.any(String))
+
+    const second = await (await GET(createRequest(`limit=1&timeRange=3600000&cursor=${first.nextCursor}`), { params })).json()
+    expect(second.data.map((execution: { traceId: string }) => execution.traceId)).toEqual(['eeee5555ffff6666'])
+    expect(second.nextCursor).toBeNull()
+    expect(second.facets).toBeUndefined()
+  })
+
+  it('should filter by status and minimum duration', async () => {
+    const byStatus = await (await GET(createRequest('timeRange=3600000&status=error'), { params })).json()
+    expect(byStatus.data.map((execution: { traceId: string }) => execution.traceId)).toEqual(['eeee5555ffff6666'])
+
+    const byDuration = await (await GET(createRequest('timeRange=3600000&minDuration=3'), { params })).json()
+    expect(byDuration.data.map((execution: { traceId: string }) => execution.traceId)).toEqual(['eeee5555ffff6666'])
+  })
+
+  it('should reject invalid cursors and ranges', async () => {
+    expect((await GET(createRequest('cursor=bogus'), { params })).status).toBe(400)
+    expect((await GET(createRequest('from=2026-01-02T00:00:00Z&to=2026-01-01T00:00:00Z'), { params })).status).toBe(400)
+  })
+
+  it('should require view permission', async () => {
+    mockRequirePermission.mockResolvedValue(false)
+
+    const response = await GET(createRequest(), { params })
+
+    expect(response.status).toBe(403)
+    expect(mockRequirePermission).toHaveBeenCalledWith('user-1', 'org-1', 'view')
+  })
+})
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { getTelemetryRepository, parseExecutionTraceId } from '@/lib/telemetry-repository'
+import { getReportingPriceHistory } from '@/lib/model-pricing'
+import { compareExecutions, getSpanModel, type ExecutionComparison } from '@/lib/execution-comparison'
+
+export interface ExecutionComparisonResponse {
+  success: boolean
+  data: ExecutionComparison
+}
+
+// Compare two executions of an agent: ?base=<execution or trace ID>&target=<execution or trace ID>
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; agentName: string }> }
+) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { agentName } = await params
+    const { searchParams } = new URL(request.url)
+
+    const baseTraceId = parseExecutionTraceId(searchParams.get('base') || '')
+    const targetTraceId = parseExecutionTraceId(searchParams.get('target') || '')
+    if (!baseTraceId || !targetTraceId) {
+      return NextResponse.json({ success: false, error: 'Invalid execution ID' }, { status: 400 })
+    }
+
+    const scope = { organizationId: organization.id, namespace: organization.namespace }
+    const repository = getTelemetryRepository()
+    const [baseSpans, targetSpans] = await Promise.all([
+      repository.getTraceSpans({ scope, agentName, traceIdPrefix: baseTraceId, excludeReconcile: true }),
+      repository.getTraceSpans({ scope, agentName, traceIdPrefix: targetTraceId, excludeReconcile: true }),
+    ])
+
+    if (baseSpans.length === 0 || targetSpans.length === 0) {
+      return NextResponse.json({ success: false, error: 'Execution not found' }, { status: 404 })
+    }
+
+    // Models without pricing are reported as unpriced rather than failing the comparison
+    const models = [...baseSpans, ...targetSpans].map(getSpanModel).filter((model): model is string => !!model)
+    const prices = await getReportingPriceHistory(models, organization)
+
+    return NextResponse.json({
+      success: true,
+      data: compareExecutions(baseSpans, targetSpans, prices.pricing, prices.currency)
+    })
+
+  } catch (error) {
+    console.error('Error comparing executions:', error)
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to compare executions' },
+      { status: 500 }
+    )
+  }
+}
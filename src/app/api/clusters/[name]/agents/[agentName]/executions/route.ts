@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { createClickHouseClient } from '@/lib/clickhouse-config'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import {
+  decodeExecutionCursor,
+  encodeExecutionCursor,
+  getTelemetryRepository,
+  type ExecutionFacets,
+} from '@/lib/telemetry-repository'
 
 // Types for API responses
 export interface AgentExecution {
@@ -12,130 +19,116 @@ export interface AgentExecution {
   status: 'success' | 'error' | 'running'
   rootSpanName: string
   spanCount: number
+  errorSpanCount: number
+  models: string[]
+}
+
+export interface AgentExecutionsResponse {
+  success: boolean
+  data: AgentExecution[]
+  // Pass back as `cursor` for the next page; null on the last page
+  nextCursor: string | null
+  // Only on the first page
+  facets?: ExecutionFacets
 }
 
 // Query parameters schema
 const QuerySchema = z.object({
   limit: z.coerce.number().int().positive().max(1000).default(50),
-  timeRange: z.coerce.number().int().positive().default(24 * 60 * 60 * 1000), // 24h in ms
+  timeRange: z.coerce.number().int().positive().default(24 * 60 * 60 * 1000), // 24h in ms, when from/to aren't given
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  status: z.enum(['success', 'error']).optional(),
+  minDuration: z.coerce.number().nonnegative().optional(), // ms
+  rootSpanName: z.string().min(1).max(200).optional(),
+  model: z.string().min(1).max(200).optional(),
+  cursor: z.string().max(200).optional(),
 })
 
-// ClickHouse client
-const clickhouse = createClickHouseClient()
-
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ name: string; agentName: string }> }
 ) {
   try {
-    const { name: clusterName, agentName } = await params
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { agentName } = await params
     const { searchParams } = new URL(request.url)
     
-    // Validate query parameters
+    // Validate query parameters (absent ones fall back to their defaults)
     const query = QuerySchema.parse({
-      limit: searchParams.get('limit'),
-      timeRange: searchParams.get('timeRange'),
+      limit: searchParams.get('limit') ?? undefined,
+      timeRange: searchParams.get('timeRange') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      status: searchParams.get('status') ?? undefined,
+      minDuration: searchParams.get('minDuration') ?? undefined,
+      rootSpanName: searchParams.get('rootSpanName') ?? undefined,
+      model: searchParams.get('model') ?? undefined,
+      cursor: searchParams.get('cursor') ?? undefined,
     })
 
-    const startTime = new Date(Date.now() - query.timeRange)
-    const endTime = new Date()
-
-    // Query ClickHouse for agent executions (grouped by TraceId)
-    const sql = `
-      SELECT 
-        TraceId as traceId,
-        min(Timestamp) as startTime,
-        max(addNanoseconds(Timestamp, Duration)) as endTime,
-        max(Duration) / 1000000 as duration,
-        count() as spanCount,
-        any(SpanName) as rootSpanName,
-        countIf(StatusCode = 'STATUS_CODE_ERROR') > 0 ? 'error' : 'success' as status
-      FROM langop.otel_traces
-      WHERE Timestamp >= {startTime:DateTime64(9)}
-        AND Timestamp <= {endTime:DateTime64(9)}
-        AND SpanAttributes['agent.name'] = {agentName:String}
-        AND SpanName != 'agent.reconcile'
-      GROUP BY TraceId
-      ORDER BY startTime DESC
-      LIMIT {limit:UInt32}
-    `
-
-
-    // For kubectl-proxy, use direct HTTP request instead of the ClickHouse client
-    // because the client library doesn't work well with the proxy format
-    let rows: any
-    if (process.env.KUBERNETES_SERVER_URL?.includes('kubectl-proxy') && process.env.CLICKHOUSE_DIRECT_ACCESS !== 'true') {
-      const baseUrl = `${process.env.KUBERNETES_SERVER_URL}/api/v1/namespaces/language-operator/services/language-operator-clickhouse:8123/proxy`
-      
-      // Build the SQL query with parameters substituted directly
-      const sqlWithParams = sql
-        .replace('{startTime:DateTime64(9)}', `fromUnixTimestamp64Nano(${startTime.getTime() * 1000000})`)
-        .replace('{endTime:DateTime64(9)}', `fromUnixTimestamp64Nano(${endTime.getTime() * 1000000})`)
-        .replace('{agentName:String}', `'${agentName}'`)
-        .replace('{limit:UInt32}', query.limit.toString())
+    const endTime = query.to ? new Date(query.to) : new Date()
+    const startTime = query.from ? new Date(query.from) : new Date(endTime.getTime() - query.timeRange)
+    if (startTime >= endTime) {
+      return NextResponse.json({ success: false, error: 'Invalid date range: from must be before to' }, { status: 400 })
+    }
 
-      const response = await fetch(`${baseUrl}?database=${process.env.CLICKHOUSE_DATABASE || 'langop'}&query=${encodeURIComponent(sqlWithParams)}`, {
-        headers: {
-          'Authorization': `Basic ${Buffer.from(`${process.env.CLICKHOUSE_USERNAME || 'langop'}:${process.env.CLICKHOUSE_PASSWORD || 'langop'}`).toString('base64')}`
-        }
-      })
-      if (!response.ok) {
-        throw new Error(`ClickHouse query failed: ${response.status} ${response.statusText}`)
-      }
-      
-      const text = await response.text()
-      
-      // Parse tab-separated values response
-      const lines = text.trim().split('\n')
-      const data = lines.map(line => {
-        const fields = line.split('\t')
-        return {
-          traceId: fields[0],
-          startTime: new Date(fields[1]),
-          endTime: new Date(fields[2]),
-          duration: parseFloat(fields[3]),
-          spanCount: parseInt(fields[4]),
-          rootSpanName: fields[5],
-          status: fields[6]
-        }
-      })
-      
-      rows = { data }
-    } else {
-      const resultSet = await clickhouse.query({
-        query: sql,
-        query_params: {
-          startTime: startTime.getTime() * 1000000, // Convert to nanoseconds
-          endTime: endTime.getTime() * 1000000, // Convert to nanoseconds
-          agentName,
-          limit: query.limit,
-        },
-      })
-      rows = await resultSet.json()
+    const cursor = query.cursor ? decodeExecutionCursor(query.cursor) : null
+    if (query.cursor && !cursor) {
+      return NextResponse.json({ success: false, error: 'Invalid cursor' }, { status: 400 })
     }
 
-    
-    // Handle different response formats from ClickHouse
-    const data = rows.data || rows
-    if (!Array.isArray(data)) {
-      return NextResponse.json({ data: [] })
+    const executionQuery = {
+      scope: { organizationId: organization.id, namespace: organization.namespace },
+      agentName,
+      from: startTime,
+      to: endTime,
+      filters: {
+        status: query.status,
+        minDurationMs: query.minDuration,
+        rootSpanName: query.rootSpanName,
+        model: query.model,
+      },
     }
-    
-    const executions: AgentExecution[] = data.map((row: any) => ({
+
+    // Agent executions (one per trace), plus one to tell whether there's another page
+    const repository = getTelemetryRepository()
+    const [rows, facets] = await Promise.all([
+      repository.listExecutions({ ...executionQuery, limit: query.limit + 1, cursor: cursor || undefined }),
+      cursor ? undefined : repository.getExecutionFacets(executionQuery),
+    ])
+    const page = rows.slice(0, query.limit)
+    const last = page[page.length - 1]
+
+    const executions: AgentExecution[] = page.map((row) => ({
       traceId: row.traceId,
       executionId: `exec_${row.traceId.substring(0, 8)}`,
-      startTime: new Date(row.startTime),
-      endTime: new Date(row.endTime), 
-      duration: Math.round(row.duration),
+      startTime: row.startTime,
+      endTime: row.endTime,
+      duration: Math.round(row.durationMs),
       status: row.status,
       rootSpanName: row.rootSpanName,
       spanCount: row.spanCount,
+      errorSpanCount: row.errorSpanCount,
+      models: row.models,
     }))
 
-    return NextResponse.json({
+    const response: AgentExecutionsResponse = {
       success: true,
-      data: executions
-    })
+      data: executions,
+      nextCursor: rows.length > query.limit && last
+        ? encodeExecutionCursor({ startTimeUnixNano: last.startTimeUnixNano, traceId: last.traceId })
+        : null,
+      ...(facets && { facets }),
+    }
+
+    return NextResponse.json(response)
 
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -5,6 +5,7 @@ import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 interface RouteParams {
   params: Promise<{
@@ -92,6 +93,16 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     try {
       const updateResponse = await k8sClient.updateLanguageAgent(organization.namespace, agentName, updatedAgent)
       
+      await recordAuditEvent({
+        organizationId: organization.id,
+        actor: user,
+        action: lock ? 'lock' : 'unlock',
+        resourceType: 'agent',
+        resourceName: agentName,
+        clusterName,
+        metadata: { versionName: agent.spec.agentVersionRef.name },
+      })
+
       let updatedAgentResult: any = null
       if ((updateResponse as any)?.body) {
         updatedAgentResult = (updateResponse as any).body
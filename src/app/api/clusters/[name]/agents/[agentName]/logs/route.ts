@@ -5,6 +5,7 @@ import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { mergePodLogs, readPodLogs } from '@/lib/pod-logs'
 
 interface RouteParams {
   params: Promise<{
@@ -26,6 +27,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const { name: clusterName, agentName } = await params
     const searchParams = new URL(request.url).searchParams
     const podName = searchParams.get('podName')
+    const allPods = searchParams.get('allPods') === 'true'
 
     console.log(`Fetching logs for agent ${agentName} in cluster ${clusterName}, namespace ${organization.namespace}${podName ? `, pod ${podName}` : ''}`)
 
@@ -55,6 +57,20 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       })
     }
 
+    // Interleave the output of every replica
+    if (allPods) {
+      const outputs = await readPodLogs(
+        organization.namespace,
+        podList.map(p => ({ podName: p.metadata.name })),
+        { tailLines: 500 }
+      )
+      return NextResponse.json({
+        lines: mergePodLogs(outputs),
+        podNames: outputs.map(output => output.podName),
+        message: 'Logs retrieved successfully'
+      })
+    }
+
     // Select the appropriate pod
     let pod
     if (podName) {
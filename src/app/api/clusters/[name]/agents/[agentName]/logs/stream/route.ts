@@ -5,6 +5,7 @@ import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { createMergedLogStream } from '@/lib/pod-logs'
 
 interface RouteParams {
   params: Promise<{
@@ -26,6 +27,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const { name: clusterName, agentName } = await params
     const url = new URL(request.url)
     const podName = url.searchParams.get('podName')
+    const allPods = url.searchParams.get('allPods') === 'true'
 
     console.log(`Starting log stream for agent ${agentName} in cluster ${clusterName}${podName ? `, pod ${podName}` : ''}`)
 
@@ -50,6 +52,22 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return new Response('No pods found for this agent', { status: 404 })
     }
 
+    // Interleave the output of every replica; each event is a JSON line tagged with its pod
+    if (allPods) {
+      const stream = createMergedLogStream(
+        organization.namespace,
+        podList.map(p => ({ podName: p.metadata.name })),
+        request.signal
+      )
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive'
+        }
+      })
+    }
+
     // Select the appropriate pod
     let pod
     if (podName) {
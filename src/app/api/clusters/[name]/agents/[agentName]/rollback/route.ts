@@ -5,6 +5,7 @@ import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 interface RouteParams {
   params: Promise<{
@@ -123,6 +124,18 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     try {
       const updateResponse = await k8sClient.updateLanguageAgent(organization.namespace, agentName, updatedAgent)
       
+      await recordAuditEvent({
+        organizationId: organization.id,
+        actor: user,
+        action: 'rollback',
+        resourceType: 'agent',
+        resourceName: agentName,
+        clusterName,
+        before: agent.spec,
+        after: updatedAgent.spec,
+        metadata: { versionName, lock },
+      })
+
       let updatedAgentResult: any = null
       if ((updateResponse as any)?.body) {
         updatedAgentResult = (updateResponse as any).body
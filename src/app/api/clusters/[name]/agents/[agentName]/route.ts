@@ -6,6 +6,7 @@ import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
 import { LanguageAgent, LanguageAgentFormData } from '@/types/agent'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 // GET /api/clusters/[name]/agents/[agentName] - Get specific agent details
 export async function GET(
@@ -214,6 +215,16 @@ export async function PATCH(
       const response = await k8sClient.updateLanguageAgent(organization.namespace, agentName, updatedAgent)
       
       console.log(`User ${user.email} updated LanguageAgent ${agentName} in cluster ${clusterName} in organization ${organization.name}`)
+      await recordAuditEvent({
+        organizationId: organization.id,
+        actor: user,
+        action: 'update',
+        resourceType: 'agent',
+        resourceName: agentName,
+        clusterName,
+        before: currentAgent.spec,
+        after: updatedSpec,
+      })
       
       return NextResponse.json({
         success: true,
@@ -259,6 +270,14 @@ export async function DELETE(
       const response = await k8sClient.deleteLanguageAgent(organization.namespace, agentName)
       
       console.log(`User ${user.email} deleted LanguageAgent ${agentName} from cluster ${clusterName} in organization ${organization.name}`)
+      await recordAuditEvent({
+        organizationId: organization.id,
+        actor: user,
+        action: 'delete',
+        resourceType: 'agent',
+        resourceName: agentName,
+        clusterName,
+      })
       
       return NextResponse.json({
         success: true,
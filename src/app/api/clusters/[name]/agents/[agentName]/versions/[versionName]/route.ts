@@ -5,6 +5,7 @@ import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 interface RouteParams {
   params: Promise<{
@@ -215,6 +216,17 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       throw deleteError
     }
 
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'delete',
+      resourceType: 'version',
+      resourceName: versionName,
+      clusterName,
+      before: targetVersion.spec,
+      metadata: { agentName, rolledBackTo: rollbackVersionName },
+    })
+
     const successMessage = rollbackVersionName 
       ? `Successfully deleted version "${versionName}" and rolled back agent "${agentName}" to previous version`
       : `Successfully deleted version "${versionName}"`
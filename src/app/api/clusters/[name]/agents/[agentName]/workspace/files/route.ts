@@ -5,6 +5,7 @@ import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
 import { workspaceClient } from '@/lib/workspace-client'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 import { WorkspaceError } from '@/types/workspace'
 
 // GET /api/clusters/[name]/agents/[agentName]/workspace/files?path=/ - List directory contents
@@ -87,6 +88,16 @@ export async function POST(
         fileBuffer,
         file.name
       )
+
+      await recordAuditEvent({
+        organizationId: organization.id,
+        actor: user,
+        action: 'create',
+        resourceType: 'file',
+        resourceName: filePath,
+        clusterName,
+        metadata: { agentName, size: fileBuffer.length },
+      })
       
       return NextResponse.json({ 
         message: 'File uploaded successfully',
@@ -141,6 +152,16 @@ export async function DELETE(
         agentName,
         path
       )
+
+      await recordAuditEvent({
+        organizationId: organization.id,
+        actor: user,
+        action: 'delete',
+        resourceType: 'file',
+        resourceName: path,
+        clusterName,
+        metadata: { agentName },
+      })
       
       return NextResponse.json({ 
         message: 'File deleted successfully',
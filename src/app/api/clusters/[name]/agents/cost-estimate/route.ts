@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { estimateAgentCost, type AgentCostEstimate } from '@/lib/agent-cost-estimate'
+
+export interface AgentCostEstimateResponse {
+  success: boolean
+  data: AgentCostEstimate
+}
+
+// Validation schema for query parameters
+const EstimateQuerySchema = z.object({
+  models: z.array(z.string().min(1)).min(1, 'At least one model is required').max(20),
+  agent: z.string().min(1).optional(),
+})
+
+// Estimate an agent's cost per execution: ?models=<model>&models=<model>[&agent=<name being edited>]
+export async function GET(request: NextRequest) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const queryResult = EstimateQuerySchema.safeParse({
+      models: searchParams.getAll('models'),
+      agent: searchParams.get('agent') || undefined,
+    })
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query parameters', details: queryResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const response: AgentCostEstimateResponse = {
+      success: true,
+      data: await estimateAgentCost(organization, {
+        models: queryResult.data.models,
+        agentName: queryResult.data.agent,
+      }),
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error estimating agent cost:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to estimate agent cost' },
+      { status: 500 }
+    )
+  }
+}
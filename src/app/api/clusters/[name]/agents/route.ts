@@ -5,11 +5,13 @@ import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { assertQuotaAvailable } from '@/lib/quota-guard'
 import { filterByClusterRef } from '@/lib/cluster-utils'
 import { validateClusterForResourceCreation, validateClusterExists, validateResourceBelongsToCluster } from '@/lib/cluster-validation'
 import { createErrorResponse, createSuccessResponse, handleKubernetesOperation, validateClusterNameFormat, ApiError, createAuthenticationRequiredError, createPermissionDeniedError } from '@/lib/api-error-handler'
 import { validateClusterName, safeValidateLanguageAgent } from '@/lib/validation'
 import { LanguageAgent, LanguageAgentListParams } from '@/types/agent'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 // GET /api/clusters/[name]/agents - List all agents for specific cluster
 export async function GET(
@@ -239,12 +241,28 @@ export async function POST(
       )
     }
 
+    await assertQuotaAvailable(organization.namespace, {
+      count: 'count/languageagents',
+      resources: agentCrd.spec.resources,
+      replicas: agentCrd.spec.replicas,
+    })
+
     // Create the agent using k8s client with proper error handling
     const result = await handleKubernetesOperation(
       'create agent',
       k8sClient.createLanguageAgent(organization.namespace, agentCrd)
     )
 
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'create',
+      resourceType: 'agent',
+      resourceName: agentData.name,
+      clusterName,
+      after: agentCrd.spec,
+    })
+
     return createSuccessResponse(
       result,
       `Agent "${agentData.name}" created successfully in cluster "${clusterName}"`
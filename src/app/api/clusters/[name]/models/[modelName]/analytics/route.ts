@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { k8sClient } from '@/lib/k8s-client'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { validateClusterExists } from '@/lib/cluster-validation'
+import { getModelAnalytics } from '@/lib/model-analytics'
+import type { LanguageModel } from '@/types/model'
+import { createErrorResponse, createSuccessResponse, handleKubernetesOperation, validateClusterNameFormat, createAuthenticationRequiredError, createPermissionDeniedError, ValidationError } from '@/lib/api-error-handler'
+
+// Validation schema for query parameters
+const analyticsQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+})
+
+// Longest range that can be queried at once
+const MAX_RANGE_MS = 90 * 24 * 60 * 60 * 1000
+
+// GET /api/clusters/[name]/models/[modelName]/analytics - Request, token, latency and error analytics from telemetry
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; modelName: string }> }
+) {
+  try {
+    const { user, organization, userRole } = await getUserOrganization(request)
+
+    if (!user?.id) {
+      throw createAuthenticationRequiredError()
+    }
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      throw createPermissionDeniedError('view model analytics', 'cluster-scoped models', userRole)
+    }
+
+    const { name: clusterName, modelName } = await params
+
+    validateClusterNameFormat(clusterName)
+    await validateClusterExists(organization.namespace, clusterName, { validateAccess: true })
+
+    const { searchParams } = new URL(request.url)
+    const query = analyticsQuerySchema.safeParse({
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+    })
+    if (!query.success) {
+      throw new ValidationError('Invalid query parameters', query.error)
+    }
+
+    // Default to the last 7 days
+    const to = query.data.to ? new Date(query.data.to) : new Date()
+    const from = query.data.from ? new Date(query.data.from) : new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000)
+    if (from >= to) {
+      throw new ValidationError('from must be before to')
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_MS) {
+      throw new ValidationError('Date range too large. Maximum 90 days allowed.')
+    }
+
+    // Requests are matched on the names in the model's spec
+    const model: LanguageModel = await handleKubernetesOperation(
+      'get model',
+      k8sClient.getLanguageModel(organization.namespace, modelName)
+    )
+
+    const analytics = await getModelAnalytics(
+      { organizationId: organization.id, namespace: organization.namespace },
+      model,
+      from,
+      to
+    )
+
+    return createSuccessResponse(analytics, undefined, {
+      cluster: clusterName,
+    })
+  } catch (error) {
+    console.error('Error fetching model analytics:', error)
+    return createErrorResponse(error, 'Failed to fetch model analytics')
+  }
+}
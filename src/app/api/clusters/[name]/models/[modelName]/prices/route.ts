@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { validateClusterExists } from '@/lib/cluster-validation'
+import { getModelPriceTimeline } from '@/lib/model-pricing'
+import { createErrorResponse, createSuccessResponse, validateClusterNameFormat, createAuthenticationRequiredError, createPermissionDeniedError } from '@/lib/api-error-handler'
+
+// GET /api/clusters/[name]/models/[modelName]/prices - Get the model's price history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; modelName: string }> }
+) {
+  try {
+    const { user, organization, userRole } = await getUserOrganization(request)
+
+    if (!user?.id) {
+      throw createAuthenticationRequiredError()
+    }
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      throw createPermissionDeniedError('view model prices', 'cluster-scoped models', userRole)
+    }
+
+    const { name: clusterName, modelName } = await params
+
+    validateClusterNameFormat(clusterName)
+    await validateClusterExists(organization.namespace, clusterName, { validateAccess: true })
+
+    // Newest first; empty until the model's price is first changed
+    const versions = await getModelPriceTimeline(organization.id, modelName)
+
+    return createSuccessResponse(versions, undefined, {
+      cluster: clusterName,
+    })
+  } catch (error) {
+    console.error('Error fetching model price history:', error)
+    return createErrorResponse(error, 'Failed to fetch model price history')
+  }
+}
@@ -5,8 +5,10 @@ import { k8sClient } from '@/lib/k8s-client'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
 import { validateClusterExists } from '@/lib/cluster-validation'
+import { recordModelPriceChange } from '@/lib/model-pricing'
 import { createErrorResponse, createSuccessResponse, handleKubernetesOperation, validateClusterNameFormat, createAuthenticationRequiredError, createPermissionDeniedError } from '@/lib/api-error-handler'
 import { z } from 'zod'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 // Validation schema for model updates
 const updateModelSchema = z.object({
@@ -227,6 +229,9 @@ export async function PUT(
       )
     }
 
+    const previousCostTracking = existingModel.spec?.costTracking
+    const modelCreatedAt = existingModel.metadata?.creationTimestamp
+
     // Merge the updates with existing model spec
     const updatedModel = {
       ...existingModel,
@@ -251,6 +256,30 @@ export async function PUT(
     )
     
     console.log(`Successfully updated model ${modelName} for cluster ${clusterName}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'update',
+      resourceType: 'model',
+      resourceName: modelName,
+      clusterName,
+      before: existingModel.spec,
+      after: updatedModel.spec,
+    })
+
+    // Keep the old price for usage from before this edit
+    try {
+      await recordModelPriceChange({
+        organizationId: organization.id,
+        modelName,
+        previous: previousCostTracking,
+        current: updatedModel.spec.costTracking,
+        modelCreatedAt: modelCreatedAt ? new Date(modelCreatedAt) : undefined,
+        userId: user.id,
+      })
+    } catch (error) {
+      console.error(`Failed to record price change for model ${modelName}:`, error)
+    }
 
     return createSuccessResponse(response, 'Model updated successfully')
 
@@ -326,6 +355,15 @@ export async function DELETE(
     )
     
     console.log(`Successfully deleted model ${modelName} for cluster ${clusterName}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'delete',
+      resourceType: 'model',
+      resourceName: modelName,
+      clusterName,
+      before: existingModel.spec,
+    })
 
     return createSuccessResponse(response, 'Model deleted successfully')
 
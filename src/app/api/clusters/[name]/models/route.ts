@@ -5,10 +5,12 @@ import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { assertQuotaAvailable } from '@/lib/quota-guard'
 import { filterByClusterRef } from '@/lib/cluster-utils'
 import { validateClusterExists, validateResourceBelongsToCluster } from '@/lib/cluster-validation'
 import { createErrorResponse, createSuccessResponse, handleKubernetesOperation, validateClusterNameFormat, createAuthenticationRequiredError, createPermissionDeniedError, KubernetesError } from '@/lib/api-error-handler'
 import { LanguageModel, LanguageModelListParams } from '@/types/model'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 // GET /api/clusters/[name]/models - List models for a specific cluster
 export async function GET(
@@ -262,6 +264,8 @@ export async function POST(
     console.log(`Creating model ${body.name} for cluster ${clusterName} in namespace:`, organization.namespace)
     console.log('Model spec being sent to Kubernetes:', JSON.stringify(modelSpec, null, 2))
     
+    await assertQuotaAvailable(organization.namespace, { count: 'count/languagemodels' })
+
     // Create the model in Kubernetes
     const response = await handleKubernetesOperation(
       'create model',
@@ -270,6 +274,16 @@ export async function POST(
     
     console.log(`Model ${body.name} created successfully for cluster ${clusterName}`)
 
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'create',
+      resourceType: 'model',
+      resourceName: body.name,
+      clusterName,
+      after: modelSpec.spec,
+    })
+
     return createSuccessResponse(response, 'Model created successfully')
 
   } catch (error) {
@@ -14,6 +14,7 @@ import {
   createAuthenticationRequiredError,
   createPermissionDeniedError
 } from '@/lib/api-error-handler'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 // GET /api/clusters/[name]/personas/[personaName] - Get a specific persona in a cluster
 export async function GET(
@@ -171,6 +172,16 @@ export async function PATCH(
     )
 
     console.log(`Successfully updated persona ${personaName} for cluster ${clusterName}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'update',
+      resourceType: 'persona',
+      resourceName: personaName,
+      clusterName,
+      before: existingPersona.spec,
+      after: updatedPersona.spec,
+    })
 
     return createSuccessResponse(response, 'Persona updated successfully')
 
@@ -246,6 +257,15 @@ export async function DELETE(
     )
 
     console.log(`Successfully deleted persona ${personaName} for cluster ${clusterName}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'delete',
+      resourceType: 'persona',
+      resourceName: personaName,
+      clusterName,
+      before: existingPersona.spec,
+    })
 
     return createSuccessResponse(response, 'Persona deleted successfully')
 
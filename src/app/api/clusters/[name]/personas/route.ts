@@ -5,11 +5,13 @@ import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { assertQuotaAvailable } from '@/lib/quota-guard'
 import { filterByClusterRef } from '@/lib/cluster-utils'
 import { validateClusterForResourceCreation, validateClusterExists, validateResourceBelongsToCluster } from '@/lib/cluster-validation'
 import { createErrorResponse, createSuccessResponse, handleKubernetesOperation, validateClusterNameFormat, ApiError, createAuthenticationRequiredError, createPermissionDeniedError } from '@/lib/api-error-handler'
 import { safeValidateLanguagePersona } from '@/lib/validation'
 import { LanguagePersona, LanguagePersonaListParams, LanguagePersonaFormData } from '@/types/persona'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 // GET /api/clusters/[name]/personas - List personas for a specific cluster
 export async function GET(
@@ -202,12 +204,24 @@ export async function POST(
       )
     }
 
+    await assertQuotaAvailable(organization.namespace, { count: 'count/languagepersonas' })
+
     // Create the persona using k8s client with proper error handling
     const result = await handleKubernetesOperation(
       'create persona',
       k8sClient.createLanguagePersona(organization.namespace, persona)
     )
 
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'create',
+      resourceType: 'persona',
+      resourceName: formData.name,
+      clusterName,
+      after: persona.spec,
+    })
+
     return createSuccessResponse(
       result,
       `Persona "${formData.name}" created successfully in cluster "${clusterName}"`
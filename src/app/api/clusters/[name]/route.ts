@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth'
 import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { getUserOrganization } from '@/lib/organization-context'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 import { z } from 'zod'
 
 const updateClusterSchema = z.object({
@@ -105,6 +106,12 @@ export async function PATCH(
       return NextResponse.json({ error: 'Cluster not found' }, { status: 404 })
     }
 
+    const spec = {
+      ...existingCluster.spec,
+      ...validatedData.spec,
+      domain: validatedData.domain || validatedData.spec?.domain
+    }
+
     // Update the cluster
     const updatedCluster = await k8sClient.updateLanguageCluster(namespace, name, {
       metadata: {
@@ -115,15 +122,21 @@ export async function PATCH(
           'langop.io/updated-by': session.user.email || 'unknown'
         }
       },
-      spec: {
-        ...existingCluster.spec,
-        ...validatedData.spec,
-        domain: validatedData.domain || validatedData.spec?.domain
-      }
+      spec
     })
 
     // Log the update for audit trail
     console.log(`Cluster updated: ${name} by ${session.user.email} in ${namespace}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'update',
+      resourceType: 'cluster',
+      resourceName: name,
+      clusterName: name,
+      before: existingCluster.spec,
+      after: spec,
+    })
 
     return NextResponse.json({ cluster: updatedCluster })
   } catch (error) {
@@ -171,6 +184,15 @@ export async function DELETE(
 
     // Log the deletion for audit trail
     console.log(`Cluster deleted: ${name} by ${session.user.email} in ${namespace}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'delete',
+      resourceType: 'cluster',
+      resourceName: name,
+      clusterName: name,
+      before: existingCluster.spec,
+    })
 
     return NextResponse.json({ success: true })
   } catch (error) {
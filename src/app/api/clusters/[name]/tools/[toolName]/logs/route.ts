@@ -5,6 +5,7 @@ import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { mergePodLogs, readPodLogs, selectToolContainer } from '@/lib/pod-logs'
 
 interface RouteParams {
   params: Promise<{
@@ -27,6 +28,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const searchParams = new URL(request.url).searchParams
     const podName = searchParams.get('podName')
     const containerName = searchParams.get('containerName')
+    const allPods = searchParams.get('allPods') === 'true'
 
     console.log(`Fetching logs for tool ${toolName} in cluster ${clusterName}, namespace ${organization.namespace}${podName ? `, pod ${podName}` : ''}${containerName ? `, container ${containerName}` : ''}`)
 
@@ -95,6 +97,21 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       })
     }
 
+    // Interleave the output of every pod running the tool
+    if (allPods) {
+      const outputs = await readPodLogs(
+        organization.namespace,
+        podList.map(p => ({ podName: p.metadata.name, container: selectToolContainer(p, toolName, deploymentMode) })),
+        { tailLines: 500 }
+      )
+      return NextResponse.json({
+        lines: mergePodLogs(outputs),
+        podNames: outputs.map(output => output.podName),
+        deploymentMode,
+        message: 'Logs retrieved successfully'
+      })
+    }
+
     // Select the appropriate pod
     let pod
     if (podName) {
@@ -125,38 +142,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     console.log(`Getting logs from pod: ${pod.metadata.name}`)
 
     // Determine which container to get logs from
-    let targetContainer = containerName
-    if (!targetContainer) {
-      // Auto-select the appropriate container
-      const containers = pod.spec?.containers || []
-      const initContainers = pod.spec?.initContainers || []
-      
-      
-      if (deploymentMode === 'sidecar') {
-        // For sidecar mode, prefer the tool container (check both regular and init containers)
-        const allContainers = [...containers, ...initContainers]
-        
-        // Try different matching strategies for tool containers
-        let toolContainer = allContainers.find((c: any) => 
-          c.name?.includes(toolName) || c.image?.includes(toolName)
-        )
-        
-        // If not found with exact tool name, try common sidecar container naming patterns
-        if (!toolContainer) {
-          toolContainer = allContainers.find((c: any) => 
-            c.name?.includes(`tool-${toolName}`) || 
-            c.name?.startsWith('tool-') ||
-            c.name?.endsWith(`-${toolName}`)
-          )
-        }
-        
-        
-        targetContainer = toolContainer?.name || containers[0]?.name
-      } else {
-        // For service mode, prefer the main container (usually the first one)
-        targetContainer = containers[0]?.name
-      }
-    }
+    const targetContainer = containerName || selectToolContainer(pod, toolName, deploymentMode)
 
     console.log(`Getting logs from container: ${targetContainer}`)
 
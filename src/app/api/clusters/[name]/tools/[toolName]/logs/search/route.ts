@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { validateClusterExists } from '@/lib/cluster-validation'
+import { parseLogSearchParams, searchArchivedLogs } from '@/lib/log-archive-service'
+import { createErrorResponse, createSuccessResponse, validateClusterNameFormat, createAuthenticationRequiredError, createPermissionDeniedError } from '@/lib/api-error-handler'
+
+// GET /api/clusters/[name]/tools/[toolName]/logs/search - Search the tool's archived logs, including pods that no longer exist
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; toolName: string }> }
+) {
+  try {
+    const { user, organization, userRole } = await getUserOrganization(request)
+
+    if (!user?.id) {
+      throw createAuthenticationRequiredError()
+    }
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      throw createPermissionDeniedError('view tool logs', 'cluster-scoped tools', userRole)
+    }
+
+    const { name: clusterName, toolName } = await params
+
+    validateClusterNameFormat(clusterName)
+    await validateClusterExists(organization.namespace, clusterName, { validateAccess: true })
+
+    const query = parseLogSearchParams(new URL(request.url).searchParams)
+
+    // The tool itself may have been deleted since; its archive is kept until retention
+    const result = await searchArchivedLogs({
+      organizationId: organization.id,
+      kind: 'tool',
+      resourceName: toolName,
+      ...query,
+    })
+
+    return createSuccessResponse(result, undefined, {
+      cluster: clusterName,
+    })
+  } catch (error) {
+    console.error('Error searching tool logs:', error)
+    return createErrorResponse(error, 'Failed to search tool logs')
+  }
+}
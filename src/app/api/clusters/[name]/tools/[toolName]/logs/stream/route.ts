@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server'
+import { k8sClient } from '@/lib/k8s-client'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { createMergedLogStream, selectToolContainer } from '@/lib/pod-logs'
+
+interface RouteParams {
+  params: Promise<{
+    name: string
+    toolName: string
+  }>
+}
+
+// GET /api/clusters/[name]/tools/[toolName]/logs/stream - Stream the output of one of the tool's pods, or of all of them merged
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      return new Response('Insufficient permissions', { status: 403 })
+    }
+
+    const { name: clusterName, toolName } = await params
+    const url = new URL(request.url)
+    const podName = url.searchParams.get('podName')
+    const allPods = url.searchParams.get('allPods') === 'true'
+
+    console.log(`Starting log stream for tool ${toolName} in cluster ${clusterName}${podName ? `, pod ${podName}` : ''}`)
+
+    const tool = await k8sClient.getLanguageTool(organization.namespace, toolName)
+    if (!tool) {
+      return new Response('Tool not found', { status: 404 })
+    }
+    const deploymentMode = tool.spec?.deploymentMode || 'service'
+
+    // Sidecar tools run in the pods of the agents that use them
+    const pods = await k8sClient.listPods(organization.namespace, {
+      labelSelector: deploymentMode === 'sidecar' ? 'langop.io/kind=LanguageAgent' : `app.kubernetes.io/name=${toolName}`
+    })
+    let podList = pods.items
+    if (deploymentMode === 'sidecar') {
+      podList = podList.filter(pod =>
+        [...(pod.spec?.containers || []), ...(pod.spec?.initContainers || [])]
+          .some(c => c.name?.includes(toolName) || c.image?.includes(toolName))
+      )
+    }
+
+    if (!allPods) {
+      if (!podName) {
+        return new Response('podName or allPods=true is required', { status: 400 })
+      }
+      podList = podList.filter(pod => pod.metadata?.name === podName)
+    }
+
+    if (podList.length === 0) {
+      return new Response(podName ? `Pod "${podName}" not found for tool ${toolName}` : 'No pods found for this tool', { status: 404 })
+    }
+
+    // Each event is a JSON line tagged with its pod
+    const stream = createMergedLogStream(
+      organization.namespace,
+      podList.map(pod => ({ podName: pod.metadata?.name || '', container: selectToolContainer(pod, toolName, deploymentMode) })),
+      request.signal
+    )
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      }
+    })
+
+  } catch (error) {
+    console.error('Error setting up tool log stream:', error)
+    return new Response(
+      `Error setting up log stream: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { status: 500 }
+    )
+  }
+}
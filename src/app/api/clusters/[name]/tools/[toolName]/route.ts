@@ -4,6 +4,7 @@ import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
 import { createErrorResponse, createSuccessResponse, handleKubernetesOperation, validateClusterNameFormat, createAuthenticationRequiredError, createPermissionDeniedError } from '@/lib/api-error-handler'
 import { validateClusterExists } from '@/lib/cluster-validation'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 // GET /api/clusters/[name]/tools/[toolName] - Get a specific tool in a cluster
 export async function GET(
@@ -168,6 +169,16 @@ export async function PUT(
 
     // Log the update for audit trail
     console.log(`Tool updated: ${toolName} in cluster ${clusterName} by ${user.email} in namespace ${organization.namespace}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'update',
+      resourceType: 'tool',
+      resourceName: toolName,
+      clusterName,
+      before: existingTool.spec,
+      after: updatedTool.spec,
+    })
 
     return createSuccessResponse(updatedResult, undefined, { cluster: clusterName })
     
@@ -219,6 +230,15 @@ export async function DELETE(
 
     // Log the deletion for audit trail
     console.log(`Tool deleted: ${toolName} in cluster ${clusterName} by ${user.email} in namespace ${organization.namespace}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'delete',
+      resourceType: 'tool',
+      resourceName: toolName,
+      clusterName,
+      before: existingTool.spec,
+    })
 
     return createSuccessResponse(null, undefined, { cluster: clusterName })
     
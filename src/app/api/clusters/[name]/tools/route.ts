@@ -5,10 +5,12 @@ import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { assertQuotaAvailable } from '@/lib/quota-guard'
 import { filterByClusterRef } from '@/lib/cluster-utils'
 import { validateClusterExists, validateResourceBelongsToCluster, validateClusterForResourceCreation } from '@/lib/cluster-validation'
 import { createErrorResponse, createSuccessResponse, handleKubernetesOperation, validateClusterNameFormat, createAuthenticationRequiredError, createPermissionDeniedError } from '@/lib/api-error-handler'
 import { LanguageTool, LanguageToolListParams, LanguageToolFormData } from '@/types/tool'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 // GET /api/clusters/[name]/tools - List all tools for specific cluster
 export async function GET(
@@ -232,12 +234,27 @@ export async function POST(
       },
     }
 
+    await assertQuotaAvailable(organization.namespace, {
+      count: 'count/languagetools',
+      resources: tool.spec.resources,
+    })
+
     // Create the tool using k8s client with proper error handling
     const result = await handleKubernetesOperation(
       'create tool',
       k8sClient.createLanguageTool(organization.namespace, tool)
     )
 
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'create',
+      resourceType: 'tool',
+      resourceName: formData.name,
+      clusterName,
+      after: tool.spec,
+    })
+
     return createSuccessResponse(
       result,
       `Tool "${formData.name}" created successfully in cluster "${clusterName}"`
@@ -5,8 +5,11 @@ import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { assertQuotaAvailable } from '@/lib/quota-guard'
+import { createErrorResponse, QuotaExceededError } from '@/lib/api-error-handler'
 import { LanguageCluster, LanguageClusterListParams, LanguageClusterFormData } from '@/types/cluster'
 import { safeValidateLanguageCluster } from '@/lib/validation'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 // GET /api/clusters - List all clusters for user's organization
 export async function GET(request: NextRequest) {
@@ -195,9 +198,20 @@ export async function POST(request: NextRequest) {
       },
     }
 
+    await assertQuotaAvailable(organization.namespace, { count: 'count/languageclusters' })
+
     const response = await k8sClient.createLanguageCluster(organization.namespace, cluster)
     
     console.log(`User ${user.email} created LanguageCluster ${formData.name} in organization ${organization.name}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'create',
+      resourceType: 'cluster',
+      resourceName: formData.name,
+      clusterName: formData.name,
+      after: cluster.spec,
+    })
     console.log('K8s API response structure:', JSON.stringify(response, null, 2))
 
     return NextResponse.json({
@@ -206,6 +220,9 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return createErrorResponse(error)
+    }
     console.error('Error creating cluster:', error)
     return NextResponse.json({ error: 'Failed to create cluster' }, { status: 500 })
   }
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { getUserConversation } from '@/lib/conversation-service'
+import {
+  ExportableMessage,
+  buildConversationExport,
+  formatConversationMarkdown,
+  getConversationExportFilename,
+} from '@/lib/conversation-export'
+
+// GET /api/conversations/[conversationId]/export?format=markdown|json - Download a conversation transcript
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> }
+) {
+  try {
+    const { user, organization, userRole } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(
+      user.id,
+      organization.id,
+      'view'
+    )
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { conversationId } = await params
+
+    const url = new URL(request.url)
+    const format = url.searchParams.get('format') || 'markdown'
+    if (format !== 'markdown' && format !== 'json') {
+      return NextResponse.json(
+        { error: 'Unsupported export format. Use "markdown" or "json".' },
+        { status: 400 }
+      )
+    }
+
+    const conversation = await getUserConversation(conversationId, organization.id, user.id, userRole)
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    const messages: ExportableMessage[] = await db.conversationMessage.findMany({
+      where: {
+        conversationId,
+      },
+      orderBy: {
+        timestamp: 'asc',
+      },
+    })
+
+    const data = buildConversationExport(conversation, messages)
+    const body = format === 'json'
+      ? JSON.stringify(data, null, 2)
+      : formatConversationMarkdown(data)
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'json' ? 'application/json' : 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${getConversationExportFilename(conversation, format)}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting conversation:', error)
+    return NextResponse.json(
+      { error: 'Failed to export conversation' },
+      { status: 500 }
+    )
+  }
+}
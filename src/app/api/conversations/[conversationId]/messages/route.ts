@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { parseAgentMessage } from '@/lib/message-parser'
+import { getUserConversation } from '@/lib/conversation-service'
 
 // GET /api/conversations/[conversationId]/messages - Get all messages for a conversation
 export async function GET(
@@ -9,7 +11,7 @@ export async function GET(
   { params }: { params: Promise<{ conversationId: string }> }
 ) {
   try {
-    const { user, organization } = await getUserOrganization(request)
+    const { user, organization, userRole } = await getUserOrganization(request)
 
     const hasPermission = await requirePermission(
       user.id,
@@ -25,13 +27,8 @@ export async function GET(
 
     const { conversationId } = await params
 
-    // Verify conversation belongs to user's organization
-    const conversation = await db.conversation.findFirst({
-      where: {
-        id: conversationId,
-        organizationId: organization.id,
-      },
-    })
+    // Verify the user owns the conversation in their organization
+    const conversation = await getUserConversation(conversationId, organization.id, user.id, userRole)
 
     if (!conversation) {
       return NextResponse.json(
@@ -59,6 +56,8 @@ export async function GET(
         toolCalls: msg.toolCalls,
         metadata: msg.metadata,
         timestamp: msg.timestamp.toISOString(),
+        // Assistant replies are stored raw, so separate thinking content for the UI
+        ...(msg.role === 'assistant' && parseAgentMessage(msg.content)),
       })),
     })
   } catch (error) {
@@ -76,7 +75,7 @@ export async function POST(
   { params }: { params: Promise<{ conversationId: string }> }
 ) {
   try {
-    const { user, organization } = await getUserOrganization(request)
+    const { user, organization, userRole } = await getUserOrganization(request)
 
     const hasPermission = await requirePermission(
       user.id,
@@ -100,13 +99,8 @@ export async function POST(
       )
     }
 
-    // Verify conversation belongs to user's organization
-    const conversation = await db.conversation.findFirst({
-      where: {
-        id: conversationId,
-        organizationId: organization.id,
-      },
-    })
+    // Only the owner can add to a conversation
+    const conversation = await getUserConversation(conversationId, organization.id, user.id, userRole)
 
     if (!conversation) {
       return NextResponse.json(
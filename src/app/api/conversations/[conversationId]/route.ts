@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { canAccessConversation } from '@/lib/conversation-service'
 import { z } from 'zod'
 
 // Validation schema for PATCH request
@@ -15,7 +16,7 @@ export async function PATCH(
   { params }: { params: Promise<{ conversationId: string }> }
 ) {
   try {
-    const { user, organization } = await getUserOrganization(request)
+    const { user, organization, userRole } = await getUserOrganization(request)
 
     const hasPermission = await requirePermission(
       user.id,
@@ -59,6 +60,7 @@ export async function PATCH(
       select: {
         id: true,
         organizationId: true,
+        createdById: true,
         agentName: true,
         title: true,
       },
@@ -78,6 +80,13 @@ export async function PATCH(
       )
     }
 
+    if (!canAccessConversation(conversation, user.id, userRole)) {
+      return NextResponse.json(
+        { error: 'Only the creator can update this conversation' },
+        { status: 403 }
+      )
+    }
+
     // Update the conversation title
     const updatedConversation = await db.conversation.update({
       where: {
@@ -116,7 +125,7 @@ export async function DELETE(
   { params }: { params: Promise<{ conversationId: string }> }
 ) {
   try {
-    const { user, organization } = await getUserOrganization(request)
+    const { user, organization, userRole } = await getUserOrganization(request)
 
     const hasPermission = await requirePermission(
       user.id,
@@ -147,6 +156,7 @@ export async function DELETE(
       select: {
         id: true,
         organizationId: true,
+        createdById: true,
         agentName: true,
         title: true,
       },
@@ -166,6 +176,13 @@ export async function DELETE(
       )
     }
 
+    if (!canAccessConversation(conversation, user.id, userRole)) {
+      return NextResponse.json(
+        { error: 'Only the creator can delete this conversation' },
+        { status: 403 }
+      )
+    }
+
     // Delete the conversation (messages will be cascade deleted due to foreign key constraints)
     await db.conversation.delete({
       where: {
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { generateShareToken, getUserConversation } from '@/lib/conversation-service'
+import {
+  getShareExpiry,
+  isShareActive,
+  serializeShareState,
+} from '@/lib/conversation-sharing'
+
+// Validation schema for POST request
+const shareConversationSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+})
+
+// GET /api/conversations/[conversationId]/share - Get the conversation's share link state
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> }
+) {
+  try {
+    const { user, organization, userRole } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(
+      user.id,
+      organization.id,
+      'view'
+    )
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { conversationId } = await params
+
+    const conversation = await getUserConversation(conversationId, organization.id, user.id, userRole)
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      share: serializeShareState(conversation),
+    })
+  } catch (error) {
+    console.error('Error fetching conversation share:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation share' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/conversations/[conversationId]/share - Publish a read-only link, or update its expiry
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> }
+) {
+  try {
+    const { user, organization, userRole } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(
+      user.id,
+      organization.id,
+      'create'
+    )
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to share conversations' },
+        { status: 403 }
+      )
+    }
+
+    const { conversationId } = await params
+
+    const body = await request.json()
+    const validation = shareConversationSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const conversation = await getUserConversation(conversationId, organization.id, user.id, userRole)
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    // Keep an active link stable so already-shared URLs keep working
+    const isActive = isShareActive(conversation)
+
+    const updatedConversation = await db.conversation.update({
+      where: {
+        id: conversationId,
+      },
+      data: {
+        shareToken: isActive ? conversation.shareToken : generateShareToken(),
+        sharedAt: isActive ? conversation.sharedAt : new Date(),
+        shareExpiresAt: getShareExpiry(validation.data.expiresInDays),
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      share: serializeShareState(updatedConversation),
+    })
+  } catch (error) {
+    console.error('Error sharing conversation:', error)
+    return NextResponse.json(
+      { error: 'Failed to share conversation' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/conversations/[conversationId]/share - Revoke the read-only link
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> }
+) {
+  try {
+    const { user, organization, userRole } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(
+      user.id,
+      organization.id,
+      'create'
+    )
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to share conversations' },
+        { status: 403 }
+      )
+    }
+
+    const { conversationId } = await params
+
+    const conversation = await getUserConversation(conversationId, organization.id, user.id, userRole)
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    const updatedConversation = await db.conversation.update({
+      where: {
+        id: conversationId,
+      },
+      data: {
+        shareToken: null,
+        sharedAt: null,
+        shareExpiresAt: null,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      share: serializeShareState(updatedConversation),
+    })
+  } catch (error) {
+    console.error('Error revoking conversation share:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke conversation share' },
+      { status: 500 }
+    )
+  }
+}
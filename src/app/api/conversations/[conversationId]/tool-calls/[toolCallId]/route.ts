@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { k8sClient } from '@/lib/k8s-client'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { extractCompletionMetadata } from '@/lib/chat-stream'
+import {
+  findConversationToolCall,
+  getConversationHistory,
+  getUserConversation,
+  recordToolCallDecision,
+} from '@/lib/conversation-service'
+import {
+  CHAT_COMPLETION_OPTIONS,
+  CHAT_TIMEOUT_MS,
+  FALLBACK_ASSISTANT_MESSAGE,
+  buildAgentSystemMessage,
+  completeAssistantMessage,
+  resolveAgentChatEndpoint,
+  unwrapLanguageAgent,
+} from '@/lib/agent-chat'
+import { normalizeToolCalls } from '@/lib/tool-calls'
+
+// Validation schema for POST request
+const toolCallDecisionSchema = z.object({
+  decision: z.enum(['approved', 'rejected']),
+  reason: z.string().max(500, 'Reason must be less than 500 characters').trim().optional(),
+})
+
+// POST /api/conversations/[conversationId]/tool-calls/[toolCallId] - Approve or reject a pending tool call
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string; toolCallId: string }> }
+) {
+  try {
+    const { user, organization, userRole } = await getUserOrganization(request)
+
+    // Approving a tool call lets the agent act, so it needs more than chat access
+    const hasPermission = await requirePermission(
+      user.id,
+      organization.id,
+      'edit'
+    )
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to approve tool calls' },
+        { status: 403 }
+      )
+    }
+
+    const { conversationId, toolCallId } = await params
+
+    const body = await request.json()
+    const validation = toolCallDecisionSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { decision, reason } = validation.data
+
+    const conversation = await getUserConversation(conversationId, organization.id, user.id, userRole)
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    const found = await findConversationToolCall(conversationId, toolCallId)
+    if (!found) {
+      return NextResponse.json(
+        { error: 'Tool call not found' },
+        { status: 404 }
+      )
+    }
+
+    if (found.toolCall.status !== 'pending_approval') {
+      return NextResponse.json(
+        { error: 'Tool call is not awaiting approval', toolCall: found.toolCall },
+        { status: 409 }
+      )
+    }
+
+    const toolCall = await recordToolCallDecision({
+      organizationId: organization.id,
+      conversationId,
+      messageId: found.messageId,
+      toolCalls: found.toolCalls,
+      toolCall: found.toolCall,
+      approval: {
+        decision,
+        decidedBy: { id: user.id, name: user.name, email: user.email },
+        decidedAt: new Date().toISOString(),
+        ...(reason && { reason }),
+      },
+    })
+
+    // Decided by a concurrent request since it was read
+    if (!toolCall) {
+      return NextResponse.json(
+        { error: 'Tool call is not awaiting approval' },
+        { status: 409 }
+      )
+    }
+
+    // The agent continues once every call it stopped for is decided
+    const toolCalls = found.toolCalls.map(call => call.id === toolCall.id ? toolCall : call)
+    const pendingCount = toolCalls.filter(call => call.status === 'pending_approval').length
+    if (pendingCount > 0) {
+      return NextResponse.json({ success: true, toolCall, pendingCount })
+    }
+
+    // Send the decisions back to the agent so it can continue its turn
+    const agentData = unwrapLanguageAgent(
+      await k8sClient.getLanguageAgent(organization.namespace, conversation.agentName)
+    )
+
+    if (!agentData) {
+      return NextResponse.json(
+        { error: `Agent "${conversation.agentName}" not found`, toolCall },
+        { status: 404 }
+      )
+    }
+
+    const agentEndpoint = resolveAgentChatEndpoint(
+      conversation.agentName,
+      organization.namespace,
+      agentData.spec?.networking
+    )
+
+    // History now ends with the assistant's tool calls and tool messages carrying the decisions
+    const messages = [
+      { role: 'system', content: buildAgentSystemMessage(conversation.agentName, agentData.spec?.instructions) },
+      ...(await getConversationHistory(conversationId)),
+    ]
+
+    const startedAt = Date.now()
+    const agentResponse = await fetch(agentEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({
+        messages,
+        ...CHAT_COMPLETION_OPTIONS,
+        stream: false,
+        // Explicit decision list for agents that gate tools outside the message history
+        tool_approvals: toolCalls
+          .filter(call => call.approval)
+          .map(call => ({
+            tool_call_id: call.id,
+            approved: call.approval!.decision === 'approved',
+            reason: call.approval!.reason,
+          })),
+      }),
+      signal: AbortSignal.timeout(CHAT_TIMEOUT_MS),
+    })
+
+    if (!agentResponse.ok) {
+      console.error(`Agent endpoint error: ${agentResponse.status} ${agentResponse.statusText}`)
+      return NextResponse.json(
+        {
+          error: 'Agent communication failed',
+          message: `The decision was recorded, but agent "${conversation.agentName}" could not be reached to continue.`,
+          toolCall,
+        },
+        { status: 502 }
+      )
+    }
+
+    const completion = await agentResponse.json()
+    const metadata = extractCompletionMetadata(completion)
+    const nextToolCalls = normalizeToolCalls(
+      completion.choices?.[0]?.message?.tool_calls || [],
+      agentData.spec?.toolRefs || [],
+      metadata.finishReason === 'tool_calls'
+    )
+    const content = completion.choices?.[0]?.message?.content || completion.message || ''
+
+    const message = await completeAssistantMessage(
+      content || (nextToolCalls.length > 0 ? '' : FALLBACK_ASSISTANT_MESSAGE),
+      { ...metadata, durationMs: Date.now() - startedAt, streamed: false },
+      { conversationId, toolCalls: nextToolCalls }
+    )
+
+    return NextResponse.json({
+      success: true,
+      toolCall,
+      message: { ...message, agentName: conversation.agentName },
+    })
+  } catch (error) {
+    console.error('Error deciding tool call:', error)
+    return NextResponse.json(
+      { error: 'Failed to process tool call decision' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,11 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { ownedConversationFilter } from '@/lib/conversation-service'
+import { isShareActive } from '@/lib/conversation-sharing'
 
-// GET /api/conversations - List all conversations for user's organization
+// GET /api/conversations - List the user's conversations in their organization
 export async function GET(request: NextRequest) {
   try {
-    const { user, organization } = await getUserOrganization(request)
+    const { user, organization, userRole } = await getUserOrganization(request)
 
     const hasPermission = await requirePermission(
       user.id,
@@ -24,6 +26,7 @@ export async function GET(request: NextRequest) {
     const conversations = await db.conversation.findMany({
       where: {
         organizationId: organization.id,
+        ...ownedConversationFilter(user.id, userRole),
       },
       orderBy: {
         updatedAt: 'desc',
@@ -46,6 +49,7 @@ export async function GET(request: NextRequest) {
       createdAt: conv.createdAt.toISOString(),
       updatedAt: conv.updatedAt.toISOString(),
       messageCount: conv._count.messages,
+      isShared: isShareActive(conv),
     }))
 
     return NextResponse.json({
@@ -94,6 +98,7 @@ export async function POST(request: NextRequest) {
         agentName,
         clusterName,
         title,
+        createdById: user.id,
       },
     })
 
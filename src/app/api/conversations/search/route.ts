@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { ownedConversationFilter } from '@/lib/conversation-service'
+import {
+  ConversationSearchResult,
+  MESSAGE_SEARCH_ROLES,
+  buildSearchSnippet,
+} from '@/lib/conversation-search'
+
+// Validation schema for search query parameters
+const conversationSearchSchema = z.object({
+  q: z.string().trim().min(2, 'Search query must be at least 2 characters').max(200, 'Search query must be less than 200 characters'),
+  agentName: z.string().optional(),
+  clusterName: z.string().optional(),
+  role: z.enum(MESSAGE_SEARCH_ROLES).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+
+// GET /api/conversations/search - Search message content across the user's conversations
+export async function GET(request: NextRequest) {
+  try {
+    const { user, organization, userRole } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(
+      user.id,
+      organization.id,
+      'view'
+    )
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const url = new URL(request.url)
+    // Drop empty params so optional filters stay unset
+    const query = Object.fromEntries(
+      [...url.searchParams.entries()].filter(([, value]) => value !== '')
+    )
+    const validation = conversationSearchSchema.safeParse(query)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { q, agentName, clusterName, role, from, to, limit } = validation.data
+
+    const messages: Array<{
+      id: string
+      conversationId: string
+      role: string
+      content: string
+      timestamp: Date
+      conversation: { title: string | null; agentName: string; clusterName: string }
+    }> = await db.conversationMessage.findMany({
+      where: {
+        content: { contains: q, mode: 'insensitive' },
+        ...(role && { role }),
+        ...((from || to) && {
+          timestamp: {
+            ...(from && { gte: from }),
+            ...(to && { lte: to }),
+          },
+        }),
+        conversation: {
+          organizationId: organization.id,
+          ...ownedConversationFilter(user.id, userRole),
+          ...(agentName && { agentName }),
+          ...(clusterName && { clusterName }),
+        },
+      },
+      orderBy: {
+        timestamp: 'desc',
+      },
+      take: limit,
+      include: {
+        conversation: {
+          select: {
+            title: true,
+            agentName: true,
+            clusterName: true,
+          },
+        },
+      },
+    })
+
+    const results: ConversationSearchResult[] = messages.map((msg) => ({
+      messageId: msg.id,
+      conversationId: msg.conversationId,
+      conversationTitle: msg.conversation.title,
+      agentName: msg.conversation.agentName,
+      clusterName: msg.conversation.clusterName,
+      role: msg.role,
+      snippet: buildSearchSnippet(msg.content, q),
+      timestamp: msg.timestamp.toISOString(),
+    }))
+
+    return NextResponse.json({
+      success: true,
+      results,
+    })
+  } catch (error) {
+    console.error('Error searching conversations:', error)
+    return NextResponse.json(
+      { error: 'Failed to search conversations' },
+      { status: 500 }
+    )
+  }
+}
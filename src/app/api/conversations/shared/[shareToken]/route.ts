@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { parseAgentMessage } from '@/lib/message-parser'
+import { isShareActive } from '@/lib/conversation-sharing'
+
+// GET /api/conversations/shared/[shareToken] - Read-only transcript of a shared conversation
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ shareToken: string }> }
+) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    // Viewing a shared transcript needs no chat access to the agent
+    const hasPermission = await requirePermission(
+      user.id,
+      organization.id,
+      'view'
+    )
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { shareToken } = await params
+
+    // Links only resolve for members of the conversation's organization
+    const conversation = await db.conversation.findFirst({
+      where: {
+        shareToken,
+        organizationId: organization.id,
+      },
+      include: {
+        createdBy: {
+          select: {
+            name: true,
+            email: true,
+          },
+        },
+      },
+    })
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Shared conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!isShareActive(conversation)) {
+      return NextResponse.json(
+        { error: 'This shared link has expired' },
+        { status: 410 }
+      )
+    }
+
+    const messages: Array<{
+      id: string
+      role: string
+      content: string
+      toolCalls: unknown
+      metadata: unknown
+      timestamp: Date
+    }> = await db.conversationMessage.findMany({
+      where: {
+        conversationId: conversation.id,
+      },
+      orderBy: {
+        timestamp: 'asc',
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      conversation: {
+        id: conversation.id,
+        title: conversation.title,
+        agentName: conversation.agentName,
+        clusterName: conversation.clusterName,
+        createdAt: conversation.createdAt.toISOString(),
+        sharedAt: conversation.sharedAt?.toISOString() ?? null,
+        expiresAt: conversation.shareExpiresAt?.toISOString() ?? null,
+        sharedBy: conversation.createdBy,
+        isOwner: conversation.createdById === user.id,
+      },
+      messages: messages.map((msg) => ({
+        id: msg.id,
+        role: msg.role,
+        content: msg.content,
+        toolCalls: msg.toolCalls,
+        metadata: msg.metadata,
+        timestamp: msg.timestamp.toISOString(),
+        ...(msg.role === 'assistant' && parseAgentMessage(msg.content)),
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching shared conversation:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch shared conversation' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Test suite for the organization cost route
+ *
+ * Runs the route against an in-memory telemetry repository to check
+ * permissions, organization scoping, pricing and cluster attribution.
+ */
+
+import type { NextRequest } from 'next/server'
+import { GET } from '../route'
+import { getUserOrganization } from '@/lib/organization-context'
+import { requirePermission } from '@/lib/permissions'
+import { k8sClient } from '@/lib/k8s-client'
+import { db } from '@/lib/db'
+import { setTelemetryRepository } from '@/lib/telemetry-repository'
+import { createInMemoryTelemetryRepository, type TelemetrySpanRecord } from '@/lib/in-memory-telemetry-repository'
+
+// jest.setup replaces the global Response, which NextResponse extends
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({
+      status: init?.status ?? 200,
+      json: async () => body,
+    }),
+  },
+}))
+jest.mock('@/lib/organization-context', () => ({
+  getUserOrganization: jest.fn(),
+}))
+jest.mock('@/lib/permissions', () => ({
+  requirePermission: jest.fn(),
+}))
+jest.mock('@/lib/k8s-client', () => ({
+  k8sClient: { listLanguageAgents: jest.fn(), getLanguageModel: jest.fn() },
+}))
+// No recorded price changes, so models are priced from their current spec
+jest.mock('@/lib/db', () => ({
+  db: {
+    modelPriceVersion: { findMany: jest.fn().mockResolvedValue([]) },
+    organization: { findUnique: jest.fn() },
+    exchangeRate: { findMany: jest.fn() },
+  },
+}))
+
+const mockGetUserOrganization = getUserOrganization as jest.MockedFunction<typeof getUserOrganization>
+const mockRequirePermission = requirePermission as jest.MockedFunction<typeof requirePermission>
+const mockListLanguageAgents = k8sClient.listLanguageAgents as jest.Mock
+const mockGetLanguageModel = k8sClient.getLanguageModel as jest.Mock
+const mockDb = db as unknown as {
+  modelPriceVersion: { findMany: jest.Mock }
+  organization: { findUnique: jest.Mock }
+  exchangeRate: { findMany: jest.Mock }
+}
+
+function createRequest(query = 'from=2026-01-01T00:00:00Z&to=2026-01-03T00:00:00Z&granularity=day') {
+  return { url: `http://localhost/api/cost?${query}` } as NextRequest
+}
+
+function usageSpan(spanId: string, agentName: string, model: string, inputTokens: number, overrides: Partial<TelemetrySpanRecord> = {}): TelemetrySpanRecord {
+  return {
+    traceId: `trace-${spanId}`,
+    spanId,
+    spanName: 'llm.call',
+    timestamp: new Date('2026-01-01T10:00:00Z'),
+    durationNs: 1000000,
+    resourceAttributes: { 'k8s.namespace.name': 'org-ns-1' },
+    spanAttributes: {
+      'agent.name': agentName,
+      'task.name': 'summarize',
+      'gen_ai.request.model': model,
+      'gen_ai.usage.input_tokens': String(inputTokens),
+      'gen_ai.usage.output_tokens': '0',
+    },
+    ...overrides,
+  }
+}
+
+describe('/api/cost', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetUserOrganization.mockResolvedValue({
+      user: { id: 'user-1' },
+      organization: { id: 'org-1', namespace: 'org-ns-1' },
+    } as unknown as Awaited<ReturnType<typeof getUserOrganization>>)
+    mockRequirePermission.mockResolvedValue(true)
+    mockListLanguageAgents.mockResolvedValue({
+      items: [
+        { metadata: { name: 'writer' }, spec: { clusterRef: 'prod' } },
+        { metadata: { name: 'reviewer' }, spec: { clusterRef: 'staging' } },
+      ],
+    })
+    mockGetLanguageModel.mockImplementation(async (namespace: string, name: string) => ({
+      spec: { costTracking: { enabled: name === 'gpt-4o', inputTokenCost: 0.01, outputTokenCost: 0.03, currency: 'USD' } },
+    }))
+    mockDb.modelPriceVersion.findMany.mockResolvedValue([])
+    mockDb.organization.findUnique.mockResolvedValue({ reportingCurrency: 'USD' })
+    mockDb.exchangeRate.findMany.mockResolvedValue([])
+
+    setTelemetryRepository(createInMemoryTelemetryRepository([
+      usageSpan('1', 'writer', 'gpt-4o', 3000),
+      usageSpan('2', 'reviewer', 'gpt-4o', 1000, { timestamp: new Date('2026-01-02T10:00:00Z') }),
+      usageSpan('3', 'reviewer', 'llama', 5000),
+      usageSpan('4', 'retired', 'gpt-4o', 1000),
+      usageSpan('5', 'writer', 'gpt-4o', 9000, { resourceAttributes: { 'k8s.namespace.name': 'other-ns' } }),
+    ]))
+  })
+
+  afterEach(() => {
+    setTelemetryRepository(null)
+  })
+
+  it('should require view permission', async () => {
+    mockRequirePermission.mockResolvedValue(false)
+
+    const response = await GET(createRequest())
+
+    expect(response.status).toBe(403)
+  })
+
+  it('should roll up spend by cluster, agent, model and task', async () => {
+    const response = await GET(createRequest())
+    const { data } = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.totals).toEqual({ cost: 0.05, inputTokens: 10000, outputTokens: 0, requests: 4, errors: 0 })
+    expect(data.byCluster.map((entry: { name: string }) => entry.name)).toEqual(['prod', 'staging', '(unassigned)'])
+    expect(data.byAgent[0]).toEqual(expect.objectContaining({ name: 'writer', clusterName: 'prod', share: 0.6 }))
+    expect(data.byModel.map((entry: { name: string }) => entry.name)).toEqual(['gpt-4o', 'llama'])
+    expect(data.byTask).toHaveLength(3)
+    expect(data.unpricedModels).toEqual(['llama'])
+    expect(data.timeSeries.map((point: { timestamp: string }) => point.timestamp)).toEqual([
+      '2026-01-01T00:00:00.000Z',
+      '2026-01-02T00:00:00.000Z',
+      '2026-01-03T00:00:00.000Z',
+    ])
+  })
+
+  it('should convert each model into the reporting currency before summing', async () => {
+    // Only the price history lookup, not the price changes in the range, finds the version
+    mockDb.modelPriceVersion.findMany.mockImplementation(async ({ where }: { where: { modelName?: unknown } }) => where.modelName ? [
+      { modelName: 'llama', enabled: true, inputTokenCost: 0.02, outputTokenCost: 0.02, currency: 'GBP', effectiveFrom: new Date(0) },
+    ] : [])
+    mockDb.organization.findUnique.mockResolvedValue({ reportingCurrency: 'EUR' })
+    mockDb.exchangeRate.findMany.mockResolvedValue([
+      { fromCurrency: 'USD', toCurrency: 'EUR', rate: 0.5 },
+      { fromCurrency: 'EUR', toCurrency: 'GBP', rate: 0.5 },
+    ])
+
+    const response = await GET(createRequest())
+    const { data } = await response.json()
+
+    expect(data.currency).toBe('EUR')
+    // 5,000 gpt-4o tokens at 0.005 EUR and 5,000 llama tokens at 0.04 EUR per 1,000
+    expect(data.totals.cost).toBeCloseTo(0.225)
+    expect(data.byModel.map((entry: { name: string; cost: number }) => [entry.name, entry.cost])).toEqual([
+      ['llama', expect.closeTo(0.2)],
+      ['gpt-4o', expect.closeTo(0.025)],
+    ])
+    expect(data.missingExchangeRates).toEqual([])
+  })
+
+  it('should price usage on either side of a price change at its own rate', async () => {
+    const change = new Date('2026-01-01T12:00:00Z')
+    const gpt = { modelName: 'gpt-4o', enabled: true, outputTokenCost: 0.03, currency: 'USD' }
+    mockDb.modelPriceVersion.findMany.mockImplementation(async ({ where }: { where: { modelName?: unknown } }) => where.modelName ? [
+      { ...gpt, inputTokenCost: 0.01, effectiveFrom: new Date(0) },
+      { ...gpt, inputTokenCost: 0.02, effectiveFrom: change },
+    ] : [{ effectiveFrom: change }])
+    setTelemetryRepository(createInMemoryTelemetryRepository([
+      usageSpan('1', 'writer', 'gpt-4o', 1000),
+      usageSpan('2', 'writer', 'gpt-4o', 1000, { timestamp: new Date('2026-01-01T14:00:00Z') }),
+    ]))
+
+    const response = await GET(createRequest())
+    const { data } = await response.json()
+
+    expect(data.totals.cost).toBeCloseTo(0.03)
+    expect(data.timeSeries[0]).toEqual(expect.objectContaining({ timestamp: '2026-01-01T00:00:00.000Z', cost: expect.closeTo(0.03), requests: 2 }))
+  })
+
+  it('should leave out usage priced in a currency without an exchange rate', async () => {
+    mockDb.organization.findUnique.mockResolvedValue({ reportingCurrency: 'EUR' })
+
+    const response = await GET(createRequest())
+    const { data } = await response.json()
+
+    expect(data.totals.cost).toBe(0)
+    expect(data.missingExchangeRates).toEqual(['USD'])
+    expect(data.unpricedModels).toEqual(['gpt-4o', 'llama'])
+  })
+
+  it('should limit the top spenders', async () => {
+    const response = await GET(createRequest('from=2026-01-01T00:00:00Z&to=2026-01-03T00:00:00Z&top=1'))
+    const { data } = await response.json()
+
+    expect(data.topAgents.map((entry: { name: string }) => entry.name)).toEqual(['writer'])
+    expect(data.period.granularity).toBe('hour')
+  })
+
+  it('should report costs without clusters when agents cannot be listed', async () => {
+    mockListLanguageAgents.mockRejectedValue(new Error('Kubernetes API not available'))
+
+    const response = await GET(createRequest())
+    const { data } = await response.json()
+
+    expect(data.byCluster).toEqual([expect.objectContaining({ name: '(unassigned)', share: 1 })])
+  })
+
+  it('should reject invalid ranges', async () => {
+    const response = await GET(createRequest('from=2026-01-03T00:00:00Z&to=2026-01-01T00:00:00Z'))
+
+    expect(response.status).toBe(400)
+  })
+})
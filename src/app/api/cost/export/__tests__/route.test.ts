@@ -0,0 +1,136 @@
+/**
+ * Test suite for the organization cost export route
+ *
+ * Runs the route against an in-memory telemetry repository to check
+ * permissions, organization scoping and the CSV and JSON Lines downloads.
+ */
+
+import type { NextRequest } from 'next/server'
+import { GET } from '../route'
+import { getUserOrganization } from '@/lib/organization-context'
+import { requirePermission } from '@/lib/permissions'
+import { k8sClient } from '@/lib/k8s-client'
+import { setTelemetryRepository } from '@/lib/telemetry-repository'
+import { createInMemoryTelemetryRepository, type TelemetrySpanRecord } from '@/lib/in-memory-telemetry-repository'
+
+// jest.setup replaces the global Response, which NextResponse extends
+jest.mock('next/server', () => ({
+  NextResponse: class {
+    status: number
+    headers: Map<string, string>
+    constructor(public body: string, init?: { status?: number; headers?: Record<string, string> }) {
+      this.status = init?.status ?? 200
+      this.headers = new Map(Object.entries(init?.headers || {}))
+    }
+    text = async () => this.body
+    static json(body: unknown, init?: { status?: number }) {
+      return { status: init?.status ?? 200, json: async () => body }
+    }
+  },
+}))
+jest.mock('@/lib/organization-context', () => ({
+  getUserOrganization: jest.fn(),
+}))
+jest.mock('@/lib/permissions', () => ({
+  requirePermission: jest.fn(),
+}))
+jest.mock('@/lib/k8s-client', () => ({
+  k8sClient: { listLanguageAgents: jest.fn(), getLanguageModel: jest.fn() },
+}))
+// No recorded price changes, so models are priced from their current spec
+jest.mock('@/lib/db', () => ({
+  db: {
+    modelPriceVersion: { findMany: jest.fn().mockResolvedValue([]) },
+    organization: { findUnique: jest.fn().mockResolvedValue({ reportingCurrency: 'USD' }) },
+    exchangeRate: { findMany: jest.fn().mockResolvedValue([]) },
+  },
+}))
+
+const mockGetUserOrganization = getUserOrganization as jest.MockedFunction<typeof getUserOrganization>
+const mockRequirePermission = requirePermission as jest.MockedFunction<typeof requirePermission>
+const mockListLanguageAgents = k8sClient.listLanguageAgents as jest.Mock
+const mockGetLanguageModel = k8sClient.getLanguageModel as jest.Mock
+
+function createRequest(query: string) {
+  return { url: `http://localhost/api/cost/export?from=2026-01-01T00:00:00Z&to=2026-01-03T00:00:00Z&${query}` } as NextRequest
+}
+
+function usageSpan(traceId: string, agentName: string, inputTokens: number, overrides: Partial<TelemetrySpanRecord> = {}): TelemetrySpanRecord {
+  return {
+    traceId,
+    spanId: `${traceId}-llm`,
+    spanName: 'llm.call',
+    timestamp: new Date('2026-01-01T10:00:00Z'),
+    durationNs: 1000000,
+    resourceAttributes: { 'k8s.namespace.name': 'org-ns-1' },
+    spanAttributes: {
+      'agent.name': agentName,
+      'task.name': 'summarize',
+      'gen_ai.request.model': 'gpt-4o',
+      'gen_ai.usage.input_tokens': String(inputTokens),
+      'gen_ai.usage.output_tokens': '0',
+    },
+    ...overrides,
+  }
+}
+
+describe('/api/cost/export', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetUserOrganization.mockResolvedValue({
+      user: { id: 'user-1' },
+      organization: { id: 'org-1', namespace: 'org-ns-1', slug: 'acme' },
+    } as unknown as Awaited<ReturnType<typeof getUserOrganization>>)
+    mockRequirePermission.mockResolvedValue(true)
+    mockListLanguageAgents.mockResolvedValue({
+      items: [{ metadata: { name: 'writer' }, spec: { clusterRef: 'prod' } }],
+    })
+    mockGetLanguageModel.mockResolvedValue({
+      spec: { costTracking: { enabled: true, inputTokenCost: 0.01, outputTokenCost: 0.03, currency: 'USD' } },
+    })
+
+    setTelemetryRepository(createInMemoryTelemetryRepository([
+      usageSpan('aaaa1111', 'writer', 3000),
+      usageSpan('bbbb2222', 'retired', 1000, { timestamp: new Date('2026-01-02T10:00:00Z') }),
+      usageSpan('cccc3333', 'writer', 9000, { resourceAttributes: { 'k8s.namespace.name': 'other-ns' } }),
+    ]))
+  })
+
+  afterEach(() => {
+    setTelemetryRepository(null)
+  })
+
+  it('should require view permission', async () => {
+    mockRequirePermission.mockResolvedValue(false)
+
+    const response = await GET(createRequest('format=csv'))
+
+    expect(response.status).toBe(403)
+  })
+
+  it('should download the organization\'s executions as CSV', async () => {
+    const response = await GET(createRequest('format=csv')) as unknown as { headers: Map<string, string>; text: () => Promise<string> }
+    const rows = (await response.text()).trimEnd().split('\r\n')
+
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="acme-cost-2026-01-01-to-2026-01-03.csv"')
+    expect(rows).toEqual([
+      'timestamp,organization,cluster,agent,task,executionId,model,inputTokens,outputTokens,cost,currency',
+      '2026-01-01T10:00:00.000Z,acme,prod,writer,summarize,exec_aaaa1111,gpt-4o,3000,0,0.03,USD',
+      '2026-01-02T10:00:00.000Z,acme,(unassigned),retired,summarize,exec_bbbb2222,gpt-4o,1000,0,0.01,USD',
+    ])
+  })
+
+  it('should download JSON Lines', async () => {
+    const response = await GET(createRequest('format=jsonl')) as unknown as { headers: Map<string, string>; text: () => Promise<string> }
+    const records = (await response.text()).trimEnd().split('\n').map(line => JSON.parse(line))
+
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson')
+    expect(records.map(record => record.executionId)).toEqual(['exec_aaaa1111', 'exec_bbbb2222'])
+  })
+
+  it('should reject unknown formats', async () => {
+    const response = await GET(createRequest('format=xlsx'))
+
+    expect(response.status).toBe(400)
+  })
+})
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { getOrganizationCostRecords } from '@/lib/organization-cost-service'
+import {
+  COST_EXPORT_FORMATS,
+  formatCostExport,
+  getCostExportContentType,
+  getCostExportFilename,
+} from '@/lib/cost-export'
+
+// Query parameters schema
+const QuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  format: z.enum(COST_EXPORT_FORMATS).default('csv'),
+})
+
+// Limit range to prevent excessive data
+const MAX_RANGE_MS = 90 * 24 * 60 * 60 * 1000
+
+// GET /api/cost/export?format=csv|jsonl - Download per-execution cost records for chargeback
+export async function GET(request: NextRequest) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    // Validate query parameters (absent ones fall back to their defaults)
+    const query = QuerySchema.parse({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      format: searchParams.get('format') ?? undefined,
+    })
+
+    // Default to the last 30 days
+    const to = query.to ? new Date(query.to) : new Date()
+    const from = query.from ? new Date(query.from) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000)
+    if (from >= to) {
+      return NextResponse.json({ success: false, error: 'Invalid date range: from must be before to' }, { status: 400 })
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_MS) {
+      return NextResponse.json({ success: false, error: 'Date range too large. Maximum 90 days allowed.' }, { status: 400 })
+    }
+
+    const { records } = await getOrganizationCostRecords(organization, { from, to })
+
+    return new NextResponse(formatCostExport(records, query.format), {
+      headers: {
+        'Content-Type': getCostExportContentType(query.format),
+        'Content-Disposition': `attachment; filename="${getCostExportFilename(organization.slug, from, to, query.format)}"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error exporting organization cost:', error)
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to export organization cost' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { getCostExportContentType, getCostExportFilename, type CostExportFormat } from '@/lib/cost-export'
+
+interface RouteParams {
+  params: Promise<{ reportId: string }>
+}
+
+// GET /api/cost/reports/[reportId] - Download a stored cost report
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { reportId } = await params
+
+    const report = await db.costReport.findFirst({
+      where: { id: reportId, organizationId: organization.id },
+    })
+    if (!report) {
+      return NextResponse.json({ success: false, error: 'Report not found' }, { status: 404 })
+    }
+
+    const format = report.format as CostExportFormat
+    return new NextResponse(report.content, {
+      headers: {
+        'Content-Type': getCostExportContentType(format),
+        'Content-Disposition': `attachment; filename="${getCostExportFilename(organization.slug, report.periodStart, report.periodEnd, format)}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error downloading cost report:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to download cost report' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/cost/reports/[reportId] - Remove a stored cost report
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'edit')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to manage cost reports' },
+        { status: 403 }
+      )
+    }
+
+    const { reportId } = await params
+
+    const deleted = await db.costReport.deleteMany({
+      where: { id: reportId, organizationId: organization.id },
+    })
+    if (deleted.count === 0) {
+      return NextResponse.json({ success: false, error: 'Report not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting cost report:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete cost report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { createCostReport, listCostReports } from '@/lib/cost-report-service'
+import { COST_EXPORT_FORMATS, type CostReportScheduleSummary, type CostReportSummary } from '@/lib/cost-export'
+
+export interface CostReportsResponse {
+  success: boolean
+  data: {
+    reports: CostReportSummary[]
+    schedules: CostReportScheduleSummary[]
+  }
+}
+
+// Limit range to prevent excessive data
+const MAX_RANGE_MS = 90 * 24 * 60 * 60 * 1000
+
+// Validation schema for POST request
+const createReportSchema = z.object({
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+  format: z.enum(COST_EXPORT_FORMATS),
+})
+  .refine(report => new Date(report.from) < new Date(report.to), {
+    message: 'from must be before to',
+    path: ['from'],
+  })
+  .refine(report => new Date(report.to).getTime() - new Date(report.from).getTime() <= MAX_RANGE_MS, {
+    message: 'Date range too large. Maximum 90 days allowed.',
+    path: ['to'],
+  })
+
+// GET /api/cost/reports - Stored cost reports and report schedules
+export async function GET(request: NextRequest) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const response: CostReportsResponse = {
+      success: true,
+      data: await listCostReports(organization),
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error fetching cost reports:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch cost reports' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/cost/reports - Export a date range's cost records and store them for download
+export async function POST(request: NextRequest) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'edit')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to manage cost reports' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = createReportSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { from, to, format } = validation.data
+    const report = await createCostReport(organization, {
+      from: new Date(from),
+      to: new Date(to),
+      format,
+      userId: user.id,
+    })
+
+    return NextResponse.json({ success: true, data: report }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating cost report:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create cost report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+
+interface RouteParams {
+  params: Promise<{ scheduleId: string }>
+}
+
+// DELETE /api/cost/reports/schedules/[scheduleId] - Stop a report schedule, keeping the reports it generated
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'edit')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to manage cost reports' },
+        { status: 403 }
+      )
+    }
+
+    const { scheduleId } = await params
+
+    const deleted = await db.costReportSchedule.deleteMany({
+      where: { id: scheduleId, organizationId: organization.id },
+    })
+    if (deleted.count === 0) {
+      return NextResponse.json({ success: false, error: 'Schedule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting cost report schedule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete cost report schedule' },
+      { status: 500 }
+    )
+  }
+}
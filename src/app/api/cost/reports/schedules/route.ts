@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { COST_EXPORT_FORMATS, COST_REPORT_FREQUENCIES } from '@/lib/cost-export'
+
+// Validation schema for POST request
+const createScheduleSchema = z.object({
+  frequency: z.enum(COST_REPORT_FREQUENCIES),
+  format: z.enum(COST_EXPORT_FORMATS),
+})
+
+// POST /api/cost/reports/schedules - Generate a cost report after every day, week or month
+export async function POST(request: NextRequest) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'edit')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to manage cost reports' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = createScheduleSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const schedule = await db.costReportSchedule.create({
+      data: {
+        organizationId: organization.id,
+        frequency: validation.data.frequency,
+        format: validation.data.format,
+        createdById: user.id,
+      },
+    })
+
+    return NextResponse.json({ success: true, data: schedule }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating cost report schedule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create cost report schedule' },
+      { status: 500 }
+    )
+  }
+}
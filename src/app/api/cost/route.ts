@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { getOrganizationCostReport } from '@/lib/organization-cost-service'
+import type { OrganizationCostReport } from '@/lib/organization-cost'
+
+export interface OrganizationCostResponse {
+  success: boolean
+  data: OrganizationCostReport & {
+    period: {
+      from: string
+      to: string
+      granularity: 'hour' | 'day'
+    }
+  }
+}
+
+// Query parameters schema
+const QuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  granularity: z.enum(['hour', 'day']).optional(),
+  top: z.coerce.number().int().positive().max(50).default(10),
+})
+
+// Limit range to prevent excessive data
+const MAX_RANGE_MS = 90 * 24 * 60 * 60 * 1000
+
+// GET /api/cost - LLM spend across all of the organization's agents
+export async function GET(request: NextRequest) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    // Validate query parameters (absent ones fall back to their defaults)
+    const query = QuerySchema.parse({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      granularity: searchParams.get('granularity') ?? undefined,
+      top: searchParams.get('top') ?? undefined,
+    })
+
+    // Default to the last 30 days
+    const to = query.to ? new Date(query.to) : new Date()
+    const from = query.from ? new Date(query.from) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000)
+    if (from >= to) {
+      return NextResponse.json({ success: false, error: 'Invalid date range: from must be before to' }, { status: 400 })
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_MS) {
+      return NextResponse.json({ success: false, error: 'Date range too large. Maximum 90 days allowed.' }, { status: 400 })
+    }
+
+    const rangeDays = (to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000)
+    const granularity = query.granularity || (rangeDays <= 7 ? 'hour' : 'day')
+
+    const report = await getOrganizationCostReport(organization, { from, to, granularity, top: query.top })
+
+    const response: OrganizationCostResponse = {
+      success: true,
+      data: {
+        ...report,
+        period: {
+          from: from.toISOString(),
+          to: to.toISOString(),
+          granularity,
+        },
+      },
+    }
+
+    return NextResponse.json(response)
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error fetching organization cost:', error)
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch organization cost' },
+      { status: 500 }
+    )
+  }
+}
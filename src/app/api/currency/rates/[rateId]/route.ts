@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+
+interface RouteParams {
+  params: Promise<{ rateId: string }>
+}
+
+// DELETE /api/currency/rates/[rateId] - Remove an exchange rate
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'manage_settings')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to manage exchange rates' },
+        { status: 403 }
+      )
+    }
+
+    const { rateId } = await params
+
+    const { count } = await db.exchangeRate.deleteMany({
+      where: { id: rateId, organizationId: organization.id },
+    })
+    if (count === 0) {
+      return NextResponse.json({ success: false, error: 'Exchange rate not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete exchange rate' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+
+const currencyCode = z.string().regex(/^[A-Z]{3}$/, 'Must be a 3-letter ISO 4217 currency code')
+
+// Validation schema for PUT request
+const saveRateSchema = z.object({
+  fromCurrency: currencyCode,
+  toCurrency: currencyCode,
+  rate: z.number().positive(),
+}).refine(rate => rate.fromCurrency !== rate.toCurrency, {
+  message: 'Currencies must differ',
+  path: ['toCurrency'],
+})
+
+// PUT /api/currency/rates - Add an exchange rate, or replace the rate for the same currencies
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'manage_settings')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to manage exchange rates' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = saveRateSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { fromCurrency, toCurrency, rate } = validation.data
+    const [saved] = await db.$transaction([
+      db.exchangeRate.upsert({
+        where: { organizationId_fromCurrency_toCurrency: { organizationId: organization.id, fromCurrency, toCurrency } },
+        create: { organizationId: organization.id, fromCurrency, toCurrency, rate, updatedById: user.id },
+        update: { rate, updatedById: user.id },
+      }),
+      // A pair has one rate; drop the opposite direction so they can't disagree
+      db.exchangeRate.deleteMany({
+        where: { organizationId: organization.id, fromCurrency: toCurrency, toCurrency: fromCurrency },
+      }),
+    ])
+
+    return NextResponse.json({ success: true, data: saved })
+  } catch (error) {
+    console.error('Error saving exchange rate:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save exchange rate' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import type { CurrencySettings } from '@/lib/currency'
+
+// Validation schema for PATCH request
+const updateCurrencySchema = z.object({
+  reportingCurrency: z.string().regex(/^[A-Z]{3}$/, 'Must be a 3-letter ISO 4217 currency code'),
+})
+
+// GET /api/currency - The organization's reporting currency and exchange rates
+export async function GET(request: NextRequest) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const [settings, rates] = await Promise.all([
+      db.organization.findUnique({ where: { id: organization.id }, select: { reportingCurrency: true } }),
+      db.exchangeRate.findMany({
+        where: { organizationId: organization.id },
+        orderBy: [{ fromCurrency: 'asc' }, { toCurrency: 'asc' }],
+      }),
+    ])
+
+    const data: CurrencySettings = {
+      reportingCurrency: settings?.reportingCurrency || 'USD',
+      rates: rates.map((rate: { id: string; fromCurrency: string; toCurrency: string; rate: number; updatedAt: Date }) => ({
+        id: rate.id,
+        fromCurrency: rate.fromCurrency,
+        toCurrency: rate.toCurrency,
+        rate: rate.rate,
+        updatedAt: rate.updatedAt.toISOString(),
+      })),
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error('Error fetching currency settings:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch currency settings' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/currency - Change the currency costs are reported in
+export async function PATCH(request: NextRequest) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'manage_settings')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions to manage currency settings' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = updateCurrencySchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    await db.organization.update({
+      where: { id: organization.id },
+      data: { reportingCurrency: validation.data.reportingCurrency },
+    })
+
+    return NextResponse.json({ success: true, data: validation.data })
+  } catch (error) {
+    console.error('Error updating reporting currency:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update reporting currency' },
+      { status: 500 }
+    )
+  }
+}
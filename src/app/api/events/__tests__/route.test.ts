@@ -0,0 +1,110 @@
+/**
+ * Test suite for the events route
+ *
+ * Checks that events are only read from the organization's namespace or its
+ * clusters', and never from a namespace named by the caller.
+ */
+
+import type { NextRequest } from 'next/server'
+import { GET } from '../route'
+import { getUserOrganization } from '@/lib/organization-context'
+import { requirePermission } from '@/lib/permissions'
+import { k8sClient } from '@/lib/k8s-client'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({ status: init?.status ?? 200, json: async () => body }),
+  },
+}))
+jest.mock('@/lib/organization-context', () => ({
+  getUserOrganization: jest.fn(),
+}))
+jest.mock('@/lib/permissions', () => ({
+  requirePermission: jest.fn(),
+}))
+jest.mock('@/lib/k8s-client', () => ({
+  k8sClient: {
+    listEvents: jest.fn(),
+    listLanguageClusters: jest.fn(),
+    getLanguageCluster: jest.fn(),
+  },
+}))
+
+const mockGetUserOrganization = getUserOrganization as jest.MockedFunction<typeof getUserOrganization>
+const mockRequirePermission = requirePermission as jest.MockedFunction<typeof requirePermission>
+const mockListEvents = k8sClient.listEvents as jest.Mock
+const mockListLanguageClusters = k8sClient.listLanguageClusters as jest.Mock
+const mockGetLanguageCluster = k8sClient.getLanguageCluster as jest.Mock
+
+function createRequest(query = '') {
+  return { url: `http://localhost/api/events?${query}` } as NextRequest
+}
+
+const agentEvent = {
+  metadata: { uid: 'event-1', name: 'writer.1' },
+  involvedObject: { apiVersion: 'langop.io/v1alpha1', kind: 'LanguageAgent', name: 'writer' },
+  reason: 'Reconciled',
+  message: 'Agent is ready',
+  type: 'Normal',
+  lastTimestamp: '2026-01-01T00:00:00Z',
+}
+
+describe('/api/events', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetUserOrganization.mockResolvedValue({
+      user: { id: 'user-1' },
+      organization: { id: 'org-1', namespace: 'org-ns-1' },
+      userRole: 'viewer',
+    } as unknown as Awaited<ReturnType<typeof getUserOrganization>>)
+    mockRequirePermission.mockResolvedValue(true)
+    mockListEvents.mockResolvedValue({ items: [agentEvent] })
+    mockListLanguageClusters.mockResolvedValue({ items: [{ metadata: { name: 'prod', namespace: 'org-ns-1' } }] })
+  })
+
+  it('should read events from the organization namespace by default', async () => {
+    const response = await GET(createRequest())
+    const body = await response.json()
+
+    expect(mockListEvents).toHaveBeenCalledWith('org-ns-1', expect.anything())
+    expect(body.data).toEqual([expect.objectContaining({ resourceName: 'writer', message: 'Agent is ready' })])
+  })
+
+  it('should refuse a namespace the organization does not own', async () => {
+    const response = await GET(createRequest('namespace=kube-system'))
+
+    expect(response.status).toBe(403)
+    expect(mockListEvents).not.toHaveBeenCalled()
+  })
+
+  it('should accept the organization namespace when named', async () => {
+    const response = await GET(createRequest('namespace=org-ns-1'))
+
+    expect(response.status).toBe(200)
+    expect(mockListEvents).toHaveBeenCalledWith('org-ns-1', expect.anything())
+  })
+
+  it('should refuse a namespace that differs from the cluster requested', async () => {
+    mockGetLanguageCluster.mockResolvedValue({ metadata: { name: 'prod', namespace: 'org-ns-1' } })
+
+    const response = await GET(createRequest('clusterName=prod&namespace=other-org'))
+
+    expect(response.status).toBe(403)
+    expect(mockListEvents).not.toHaveBeenCalled()
+  })
+
+  it('should reject a resource name that would add field selector terms', async () => {
+    const response = await GET(createRequest(`resourceType=agent&resourceName=${encodeURIComponent('writer,type!=Normal')}`))
+
+    expect(response.status).toBe(400)
+    expect(mockListEvents).not.toHaveBeenCalled()
+  })
+
+  it('should select events by resource kind and name', async () => {
+    await GET(createRequest('resourceType=agent&resourceName=writer'))
+
+    expect(mockListEvents).toHaveBeenCalledWith('org-ns-1', expect.objectContaining({
+      fieldSelector: 'involvedObject.kind=LanguageAgent,involvedObject.name=writer',
+    }))
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * Test suite for the event feed route
+ *
+ * Checks pagination, warning-only filtering, grouping of repeated events and
+ * that the feed stays within the organization's namespaces.
+ */
+
+import type { NextRequest } from 'next/server'
+import { GET } from '../route'
+import { getUserOrganization } from '@/lib/organization-context'
+import { requirePermission } from '@/lib/permissions'
+import { k8sClient } from '@/lib/k8s-client'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({ status: init?.status ?? 200, json: async () => body }),
+  },
+}))
+jest.mock('@/lib/organization-context', () => ({
+  getUserOrganization: jest.fn(),
+}))
+jest.mock('@/lib/permissions', () => ({
+  requirePermission: jest.fn(),
+}))
+jest.mock('@/lib/k8s-client', () => ({
+  k8sClient: {
+    listEvents: jest.fn(),
+    listLanguageClusters: jest.fn(),
+  },
+}))
+
+const mockGetUserOrganization = getUserOrganization as jest.MockedFunction<typeof getUserOrganization>
+const mockRequirePermission = requirePermission as jest.MockedFunction<typeof requirePermission>
+const mockListEvents = k8sClient.listEvents as jest.Mock
+const mockListLanguageClusters = k8sClient.listLanguageClusters as jest.Mock
+
+function createRequest(query = '') {
+  return { url: `http://localhost/api/events/feed?${query}` } as NextRequest
+}
+
+function event(uid: string, reason: string, name: string, type: string, lastTimestamp: string, count = 1) {
+  return {
+    metadata: { uid, name: `${name}.${uid}` },
+    involvedObject: { apiVersion: 'langop.io/v1alpha1', kind: 'LanguageAgent', name },
+    reason,
+    message: `${reason} ${uid}`,
+    type,
+    count,
+    firstTimestamp: lastTimestamp,
+    lastTimestamp,
+  }
+}
+
+describe('/api/events/feed', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetUserOrganization.mockResolvedValue({
+      user: { id: 'user-1' },
+      organization: { id: 'org-1', namespace: 'org-ns-1' },
+      userRole: 'viewer',
+    } as unknown as Awaited<ReturnType<typeof getUserOrganization>>)
+    mockRequirePermission.mockResolvedValue(true)
+    mockListLanguageClusters.mockResolvedValue({ items: [] })
+    mockListEvents.mockResolvedValue({
+      items: [
+        event('a', 'BackOff', 'writer', 'Warning', '2026-01-01T00:01:00Z', 3),
+        event('b', 'Reconciled', 'writer', 'Normal', '2026-01-01T00:02:00Z'),
+        event('c', 'BackOff', 'writer', 'Warning', '2026-01-01T00:03:00Z', 2),
+        event('d', 'BackOff', 'reader', 'Warning', '2026-01-01T00:04:00Z'),
+      ],
+    })
+  })
+
+  it('should page through events newest first', async () => {
+    const response = await GET(createRequest('limit=3&page=2'))
+    const body = await response.json()
+
+    expect(body.data.map((entry: { id: string }) => entry.id)).toEqual(['a'])
+    expect(body).toMatchObject({ total: 4, page: 2, limit: 3, namespace: 'org-ns-1' })
+  })
+
+  it('should read every page of events before sorting them', async () => {
+    mockListEvents
+      .mockResolvedValueOnce({
+        metadata: { _continue: 'next' },
+        items: [event('a', 'BackOff', 'writer', 'Warning', '2026-01-01T00:01:00Z')],
+      })
+      .mockResolvedValueOnce({
+        metadata: {},
+        items: [event('e', 'BackOff', 'writer', 'Warning', '2026-01-01T00:05:00Z')],
+      })
+
+    const response = await GET(createRequest())
+    const body = await response.json()
+
+    expect(mockListEvents).toHaveBeenCalledTimes(2)
+    expect(mockListEvents).toHaveBeenLastCalledWith('org-ns-1', expect.objectContaining({ continueToken: 'next' }))
+    expect(body.data.map((entry: { id: string }) => entry.id)).toEqual(['e', 'a'])
+    expect(body.total).toBe(2)
+  })
+
+  it('should group repeated warnings by reason and object', async () => {
+    const response = await GET(createRequest('warningsOnly=true&group=true'))
+    const body = await response.json()
+
+    expect(body.data).toEqual([
+      expect.objectContaining({ id: 'd', resourceName: 'reader', groupSize: 1, count: 1 }),
+      expect.objectContaining({
+        id: 'c',
+        resourceName: 'writer',
+        groupSize: 2,
+        count: 5,
+        firstTimestamp: '2026-01-01T00:01:00.000Z',
+        lastTimestamp: '2026-01-01T00:03:00.000Z',
+      }),
+    ])
+  })
+
+  it('should refuse another namespace', async () => {
+    const response = await GET(createRequest('namespace=kube-system'))
+
+    expect(response.status).toBe(403)
+    expect(mockListEvents).not.toHaveBeenCalled()
+  })
+
+  it('should reject invalid parameters', async () => {
+    const response = await GET(createRequest('limit=1000'))
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should reject a resource type or name that isn\'t a Kubernetes name', async () => {
+    expect((await GET(createRequest(`resourceType=${encodeURIComponent('agent,reason=x')}`))).status).toBe(400)
+    expect((await GET(createRequest('resourceType=agent&resourceName=Writer!'))).status).toBe(400)
+    expect(mockListEvents).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import {
+  createAuthenticationRequiredError,
+  createErrorResponse,
+  createPermissionDeniedError,
+  createSuccessResponse,
+} from '@/lib/api-error-handler'
+import { getEventFeed, parseEventFeedParams } from '@/lib/event-feed-service'
+
+// GET /api/events/feed - Page through the organization's events, optionally
+// warnings only and with repeated events grouped by reason and object
+export async function GET(request: NextRequest) {
+  try {
+    const { user, organization, userRole } = await getUserOrganization(request)
+
+    if (!user?.id) {
+      throw createAuthenticationRequiredError()
+    }
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      throw createPermissionDeniedError('view events', 'the organization', userRole)
+    }
+
+    const params = parseEventFeedParams(new URL(request.url).searchParams)
+    const feed = await getEventFeed(organization, params, userRole)
+
+    return createSuccessResponse(feed.entries, undefined, {
+      total: feed.total,
+      page: params.page,
+      limit: params.limit,
+      namespace: feed.namespace,
+    })
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch event feed')
+  }
+}
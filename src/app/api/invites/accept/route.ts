@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 import { z } from 'zod'
 
 const acceptInviteSchema = z.object({
@@ -102,6 +103,15 @@ export async function POST(request: NextRequest) {
       })
     ])
 
+    await recordAuditEvent({
+      organizationId: invite.organizationId,
+      actor: user,
+      action: 'accept',
+      resourceType: 'invite',
+      resourceName: invite.email,
+      after: { role: invite.role },
+    })
+
     return NextResponse.json({
       message: 'Successfully joined organization',
       member,
@@ -5,6 +5,7 @@ import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 import { z } from 'zod'
 
 const updateModelSchema = z.object({
@@ -115,6 +116,16 @@ export async function PATCH(
 
     // Log the update for audit trail
     console.log(`Model updated: ${name} by ${user.email} in ${namespace}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'update',
+      resourceType: 'model',
+      resourceName: name,
+      clusterName: existingModel.spec.clusterRef,
+      before: existingModel.spec,
+      after: updatedModel.spec,
+    })
 
     return NextResponse.json({ data: updatedModel })
   } catch (error) {
@@ -182,6 +193,16 @@ export async function PUT(
 
     // Log the update for audit trail
     console.log(`Model updated via PUT: ${name} by ${user.email} in ${namespace}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'update',
+      resourceType: 'model',
+      resourceName: name,
+      clusterName: existingModel.spec.clusterRef,
+      before: existingModel.spec,
+      after: updatedModel.spec,
+    })
 
     return NextResponse.json({ data: updatedModel })
   } catch (error) {
@@ -224,6 +245,15 @@ export async function DELETE(
 
     // Log the deletion for audit trail
     console.log(`Model deleted: ${name} by ${user.email} in ${namespace}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'delete',
+      resourceType: 'model',
+      resourceName: name,
+      clusterName: existingModel.spec.clusterRef,
+      before: existingModel.spec,
+    })
 
     return NextResponse.json({ success: true })
   } catch (error) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 interface RouteParams {
   params: Promise<{ id: string; inviteId: string }>
@@ -38,8 +39,8 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
 
     const { id, inviteId } = await params
 
-    const { hasAccess } = await checkOrganizationAccess(id, session.user.email, 'admin')
-    if (!hasAccess) {
+    const { hasAccess, membership } = await checkOrganizationAccess(id, session.user.email, 'admin')
+    if (!hasAccess || !membership) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -56,6 +57,15 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       where: { id: inviteId }
     })
 
+    await recordAuditEvent({
+      organizationId: id,
+      actor: { id: membership.userId, email: session.user.email },
+      action: 'delete',
+      resourceType: 'invite',
+      resourceName: invite.email,
+      before: { role: invite.role },
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Error deleting organization invite:', error)
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 import { config } from '@/lib/config'
 import { z } from 'zod'
 import crypto from 'crypto'
@@ -82,8 +83,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     const { id } = await params
 
-    const { hasAccess } = await checkOrganizationAccess(id, session.user.email, 'admin')
-    if (!hasAccess) {
+    const { hasAccess, membership } = await checkOrganizationAccess(id, session.user.email, 'admin')
+    if (!hasAccess || !membership) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -143,6 +144,15 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // TODO: Send invitation email here
     // You can integrate with your email service (SendGrid, SES, etc.)
 
+    await recordAuditEvent({
+      organizationId: id,
+      actor: { id: membership.userId, email: session.user.email },
+      action: 'create',
+      resourceType: 'invite',
+      resourceName: invite.email,
+      after: { role: invite.role },
+    })
+
     // Generate invitation URL
     const invitationUrl = `${config.dashboardUrl}/invites/${token}`
 
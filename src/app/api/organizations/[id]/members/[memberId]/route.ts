@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 import { z } from 'zod'
 
 const updateMemberSchema = z.object({
@@ -109,6 +110,16 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       }
     })
 
+    await recordAuditEvent({
+      organizationId: id,
+      actor: { id: membership.userId, email: session.user.email },
+      action: 'update',
+      resourceType: 'member',
+      resourceName: targetMember.user.email,
+      before: { role: targetMember.role },
+      after: { role: validatedData.role },
+    })
+
     return NextResponse.json({ member: updatedMember })
   } catch (error) {
     console.error('Error updating organization member:', error)
@@ -188,6 +199,15 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       where: { id: memberId }
     })
 
+    await recordAuditEvent({
+      organizationId: id,
+      actor: { id: membership.userId, email: session.user.email },
+      action: 'delete',
+      resourceType: 'member',
+      resourceName: targetMember.user.email,
+      before: { role: targetMember.role },
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Error removing organization member:', error)
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 import { z } from 'zod'
 
 const addMemberSchema = z.object({
@@ -91,8 +92,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     const { id } = await params
 
-    const { hasAccess } = await checkOrganizationAccess(id, session.user.email, 'admin')
-    if (!hasAccess) {
+    const { hasAccess, membership } = await checkOrganizationAccess(id, session.user.email, 'admin')
+    if (!hasAccess || !membership) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -144,6 +145,15 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       }
     })
 
+    await recordAuditEvent({
+      organizationId: id,
+      actor: { id: membership.userId, email: session.user.email },
+      action: 'create',
+      resourceType: 'member',
+      resourceName: user.email,
+      after: { role: validatedData.role },
+    })
+
     return NextResponse.json({ member }, { status: 201 })
   } catch (error) {
     console.error('Error adding organization member:', error)
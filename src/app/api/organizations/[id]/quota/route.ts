@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
 import { k8sClient } from '@/lib/k8s-client'
 import { requirePermission } from '@/lib/permissions'
+import { isPlanId } from '@/lib/plans'
 
 // GET /api/organizations/[id]/quota - Get organization ResourceQuota usage
 export async function GET(
@@ -215,7 +216,7 @@ export async function PUT(
       }
     } else {
       // Plan-based (legacy approach)
-      if (!['free', 'pro', 'enterprise'].includes(plan)) {
+      if (!isPlanId(plan)) {
         return NextResponse.json({ error: 'Invalid plan' }, { status: 400 })
       }
       newPlan = plan
@@ -4,14 +4,22 @@ import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { k8sClient } from '@/lib/k8s-client'
 import { z } from 'zod'
+import { PLAN_IDS } from '@/lib/plans'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 
 const updateOrganizationSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   slug: z.string().min(1).max(50).regex(/^[a-z0-9-]+$/).optional(),
   namespace: z.string().min(1).max(63).regex(/^[a-z0-9-]+$/).optional(),
-  plan: z.enum(['free', 'pro', 'enterprise']).optional()
+  plan: z.enum(PLAN_IDS).optional()
 })
 
+// The organization's settings as recorded in the audit log
+function auditedSettings(organization: { name: string; slug: string; namespace: string; plan: string }) {
+  const { name, slug, namespace, plan } = organization
+  return { name, slug, namespace, plan }
+}
+
 interface RouteParams {
   params: Promise<{ id: string }>
 }
@@ -121,8 +129,8 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     const { id } = await params
 
-    const { hasAccess } = await checkOrganizationAccess(id, session.user.email, 'admin')
-    if (!hasAccess) {
+    const { hasAccess, membership } = await checkOrganizationAccess(id, session.user.email, 'admin')
+    if (!hasAccess || !membership) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -172,6 +180,16 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       }
     })
 
+    await recordAuditEvent({
+      organizationId: id,
+      actor: { id: membership.userId, email: session.user.email },
+      action: 'update',
+      resourceType: 'organization',
+      resourceName: organization.name,
+      before: auditedSettings(membership.organization),
+      after: auditedSettings(organization),
+    })
+
     return NextResponse.json({ organization })
   } catch (error) {
     console.error('Error updating organization:', error)
@@ -199,8 +217,8 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
 
     const { id } = await params
 
-    const { hasAccess } = await checkOrganizationAccess(id, session.user.email, 'owner')
-    if (!hasAccess) {
+    const { hasAccess, membership } = await checkOrganizationAccess(id, session.user.email, 'owner')
+    if (!hasAccess || !membership) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -218,6 +236,15 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       where: { id }
     })
 
+    await recordAuditEvent({
+      organizationId: id,
+      actor: { id: membership.userId, email: session.user.email },
+      action: 'delete',
+      resourceType: 'organization',
+      resourceName: organization.name,
+      before: auditedSettings(organization),
+    })
+
     // Clean up Kubernetes namespace
     try {
       await k8sClient.deleteOrganizationNamespace(organization.namespace)
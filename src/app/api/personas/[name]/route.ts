@@ -5,6 +5,7 @@ import { k8sClient } from '@/lib/k8s-client'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 import { z } from 'zod'
 
 const updatePersonaSchema = z.object({
@@ -108,6 +109,16 @@ export async function PATCH(
 
     // Log the update for audit trail
     console.log(`Persona updated: ${name} by ${user.email} in ${namespace}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'update',
+      resourceType: 'persona',
+      resourceName: name,
+      clusterName: existingPersona.spec.clusterRef,
+      before: existingPersona.spec,
+      after: updatePayload.spec,
+    })
 
     return NextResponse.json({ persona: updatedPersona })
   } catch (error) {
@@ -149,6 +160,15 @@ export async function DELETE(
 
     // Log the deletion for audit trail
     console.log(`Persona deleted: ${name} by ${user.email} in ${namespace}`)
+    await recordAuditEvent({
+      organizationId: organization.id,
+      actor: user,
+      action: 'delete',
+      resourceType: 'persona',
+      resourceName: name,
+      clusterName: existingPersona.spec.clusterRef,
+      before: existingPersona.spec,
+    })
 
     return NextResponse.json({ success: true })
   } catch (error) {
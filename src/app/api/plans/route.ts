@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { PLANS } from '@/lib/plans'
+
+// GET /api/plans - Plans organizations can be on, with their quotas
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({ success: true, data: PLANS })
+  } catch (error) {
+    console.error('Error fetching plans:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch plans' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { cancelQuotaRequest } from '@/lib/quota-request-service'
+
+interface RouteParams {
+  params: Promise<{ requestId: string }>
+}
+
+// DELETE /api/quota-requests/[requestId] - Withdraw a pending quota request
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'manage_billing')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { success: false, error: 'Billing/quota management permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const { requestId } = await params
+
+    const cancelled = await cancelQuotaRequest(organization.id, requestId)
+    if (!cancelled) {
+      return NextResponse.json({ success: false, error: 'Pending quota request not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error cancelling quota request:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to cancel quota request' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Test suite for the organization quota request route
+ *
+ * Checks that only owners can request changes, that plan requests are
+ * upgrades, and that an organization has one pending request at a time.
+ */
+
+import type { NextRequest } from 'next/server'
+import { POST } from '../route'
+import { getUserOrganization } from '@/lib/organization-context'
+import { requirePermission } from '@/lib/permissions'
+import { db } from '@/lib/db'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({ status: init?.status ?? 200, json: async () => body }),
+  },
+}))
+jest.mock('@/lib/organization-context', () => ({
+  getUserOrganization: jest.fn(),
+}))
+jest.mock('@/lib/permissions', () => ({
+  requirePermission: jest.fn(),
+}))
+jest.mock('@/lib/k8s-client', () => ({ k8sClient: {} }))
+jest.mock('@/lib/db', () => ({
+  db: {
+    quotaRequest: { count: jest.fn(), create: jest.fn() },
+  },
+}))
+
+const mockGetUserOrganization = getUserOrganization as jest.MockedFunction<typeof getUserOrganization>
+const mockRequirePermission = requirePermission as jest.MockedFunction<typeof requirePermission>
+const mockCount = db.quotaRequest.count as jest.Mock
+const mockCreate = db.quotaRequest.create as jest.Mock
+
+function createRequest(body: unknown) {
+  return { json: async () => body } as unknown as NextRequest
+}
+
+describe('/api/quota-requests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetUserOrganization.mockResolvedValue({
+      user: { id: 'user-1' },
+      organization: { id: 'org-1', namespace: 'org-ns-1', plan: 'free' },
+    } as unknown as Awaited<ReturnType<typeof getUserOrganization>>)
+    mockRequirePermission.mockResolvedValue(true)
+    mockCount.mockResolvedValue(0)
+    mockCreate.mockImplementation(async ({ data }) => ({
+      id: 'request-1',
+      ...data,
+      status: 'pending',
+      reviewNote: null,
+      reviewedAt: null,
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      organization: { id: 'org-1', name: 'Acme', plan: 'free' },
+      requestedBy: { name: 'Ada', email: 'ada@example.com' },
+      reviewedBy: null,
+    }))
+  })
+
+  it('should require billing permission', async () => {
+    mockRequirePermission.mockResolvedValue(false)
+
+    const response = await POST(createRequest({ plan: 'pro' }))
+
+    expect(mockRequirePermission).toHaveBeenCalledWith('user-1', 'org-1', 'manage_billing')
+    expect(response.status).toBe(403)
+  })
+
+  it('should record a plan upgrade request', async () => {
+    const response = await POST(createRequest({ plan: 'pro', message: 'Launching next week' }))
+    const body = await response.json()
+
+    expect(response.status).toBe(201)
+    expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ organizationId: 'org-1', plan: 'pro', requestedById: 'user-1' }),
+    }))
+    expect(body.data).toMatchObject({ plan: 'pro', status: 'pending', requestedBy: 'Ada' })
+  })
+
+  it('should only accept upgrades', async () => {
+    const response = await POST(createRequest({ plan: 'free' }))
+
+    expect(response.status).toBe(400)
+    expect(mockCreate).not.toHaveBeenCalled()
+  })
+
+  it('should require a reason for custom quotas', async () => {
+    const quotas = {
+      'count/languageagents': '50',
+      'count/languagemodels': '10',
+      'count/languagetools': '50',
+      'count/languagepersonas': '20',
+      'count/languageclusters': '5',
+      'requests.cpu': '10000m',
+      'requests.memory': '20Gi',
+      'limits.cpu': '20000m',
+      'limits.memory': '40Gi',
+    }
+
+    expect((await POST(createRequest({ quotas }))).status).toBe(400)
+    expect((await POST(createRequest({ quotas, message: 'Batch workloads' }))).status).toBe(201)
+  })
+
+  it('should allow one pending request at a time', async () => {
+    mockCount.mockResolvedValue(1)
+
+    const response = await POST(createRequest({ plan: 'enterprise' }))
+
+    expect(response.status).toBe(409)
+    expect(mockCreate).not.toHaveBeenCalled()
+  })
+})
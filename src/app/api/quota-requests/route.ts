@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/permissions'
+import { getUserOrganization } from '@/lib/organization-context'
+import { QuotaSchema } from '@/lib/validation'
+import { PLAN_IDS, PLANS } from '@/lib/plans'
+import { createQuotaRequest, listOrganizationQuotaRequests } from '@/lib/quota-request-service'
+
+// Validation schema for POST request
+const createQuotaRequestSchema = z.union([
+  z.object({
+    plan: z.enum(PLAN_IDS),
+    message: z.string().max(2000).optional(),
+  }),
+  z.object({
+    quotas: QuotaSchema,
+    message: z.string().min(1, 'Describe what the custom quota is for').max(2000),
+  }),
+])
+
+// GET /api/quota-requests - The organization's plan and quota change requests
+export async function GET(request: NextRequest) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'view')
+    if (!hasPermission) {
+      return NextResponse.json({ success: false, error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await listOrganizationQuotaRequests(organization.id),
+    })
+  } catch (error) {
+    console.error('Error fetching quota requests:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch quota requests' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/quota-requests - Ask platform admins for another plan or a custom quota
+export async function POST(request: NextRequest) {
+  try {
+    const { user, organization } = await getUserOrganization(request)
+
+    const hasPermission = await requirePermission(user.id, organization.id, 'manage_billing')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { success: false, error: 'Billing/quota management permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = createQuotaRequestSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { message, ...change } = validation.data
+    if ('plan' in change) {
+      const planIndex = PLANS.findIndex(plan => plan.id === change.plan)
+      const currentIndex = PLANS.findIndex(plan => plan.id === organization.plan)
+      if (planIndex <= currentIndex) {
+        return NextResponse.json(
+          { success: false, error: 'Only upgrades to a higher plan can be requested' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const quotaRequest = await createQuotaRequest(organization.id, user.id, change, message)
+    if (!quotaRequest) {
+      return NextResponse.json(
+        { success: false, error: 'A quota request is already pending review' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: quotaRequest }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating quota request:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create quota request' },
+      { status: 500 }
+    )
+  }
+}
@@ -6,6 +6,9 @@ import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
 import { requirePermission } from '@/lib/permissions'
 import { getUserOrganization } from '@/lib/organization-context'
+import { recordAuditEvent } from '@/lib/audit-log-service'
+import { assertQuotaAvailable } from '@/lib/quota-guard'
+import { createErrorResponse, QuotaExceededError } from '@/lib/api-error-handler'
 
 export async function POST(request: NextRequest) {
   try {
@@ -60,10 +63,25 @@ export async function POST(request: NextRequest) {
     languageTool.metadata.annotations['langop.io/created-by-email'] = user.email!
     languageTool.metadata.annotations['langop.io/created-at'] = new Date().toISOString()
 
+    await assertQuotaAvailable(namespace, {
+      count: 'count/languagetools',
+      resources: languageTool.spec?.resources,
+    })
+
     try {
       // Apply the LanguageTool CRD to Kubernetes
       const response = await k8sClient.createLanguageTool(namespace, languageTool)
 
+      await recordAuditEvent({
+        organizationId: organization.id,
+        actor: user,
+        action: 'create',
+        resourceType: 'tool',
+        resourceName: languageTool.metadata.name || toolId,
+        clusterName,
+        after: languageTool.spec,
+      })
+
       return NextResponse.json({
         success: true,
         message: 'Tool installed successfully',
@@ -88,6 +106,9 @@ export async function POST(request: NextRequest) {
       )
     }
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return createErrorResponse(error)
+    }
     console.error('Error installing tool:', error)
     
     return NextResponse.json(
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 import { z } from 'zod'
 
 const updateUserSchema = z.object({
@@ -15,6 +16,38 @@ const updateUserSchema = z.object({
   updateMemberships: z.boolean().optional()
 })
 
+type MembershipRoles = Map<string, string>
+
+/**
+ * Record the user's memberships that were added, removed or changed role,
+ * each in the organization it belongs to
+ */
+async function auditMembershipChanges(
+  actor: { id: string; email: string },
+  memberEmail: string,
+  before: MembershipRoles,
+  after: MembershipRoles
+) {
+  const organizationIds = new Set([...Array.from(before.keys()), ...Array.from(after.keys())])
+  for (const organizationId of Array.from(organizationIds)) {
+    const previousRole = before.get(organizationId)
+    const role = after.get(organizationId)
+    if (previousRole === role) {
+      continue
+    }
+
+    await recordAuditEvent({
+      organizationId,
+      actor,
+      action: !previousRole ? 'create' : !role ? 'delete' : 'update',
+      resourceType: 'member',
+      resourceName: memberEmail,
+      before: previousRole ? { role: previousRole } : undefined,
+      after: role ? { role } : undefined,
+    })
+  }
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> | { id: string } }
@@ -147,6 +180,11 @@ export async function PATCH(
       // Handle memberships only if explicitly requested
       if (validatedData.updateMemberships && validatedData.memberships !== undefined) {
         console.log('Processing memberships:', validatedData.memberships.length)
+
+        const previousMemberships = await tx.organizationMember.findMany({
+          where: { userId: userId },
+          select: { organizationId: true, role: true }
+        })
         
         // Remove all existing memberships
         const deleteResult = await tx.organizationMember.deleteMany({
@@ -168,13 +206,24 @@ export async function PATCH(
           })
           console.log('New memberships created successfully')
         }
+
+        return { updatedUser, previousMemberships }
       } else {
         console.log('Skipping membership updates - only updating basic user info')
       }
 
-      return updatedUser
+      return { updatedUser, previousMemberships: null }
     })
 
+    if (result.previousMemberships && validatedData.memberships) {
+      await auditMembershipChanges(
+        { id: session.user.id, email: session.user.email },
+        result.updatedUser.email,
+        new Map(result.previousMemberships.map((membership: { organizationId: string; role: string }) => [membership.organizationId, membership.role])),
+        new Map(validatedData.memberships.map(membership => [membership.organizationId, membership.role]))
+      )
+    }
+
     // Fetch updated user with memberships
     const fullUser = await prisma.user.findUnique({
       where: { id: userId },
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { recordAuditEvent } from '@/lib/audit-log-service'
 import { z } from 'zod'
 import bcrypt from 'bcryptjs'
 
@@ -185,6 +186,15 @@ export async function POST(request: NextRequest) {
       return newUser
     })
 
+    await recordAuditEvent({
+      organizationId: currentUserMembership.organizationId,
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'create',
+      resourceType: 'member',
+      resourceName: result.email,
+      after: { role: 'viewer' },
+    })
+
     // Return the created user with membership info
     const userWithMembership = await prisma.user.findUnique({
       where: { id: result.id },
@@ -1,15 +1,18 @@
 'use client'
 
 import { forwardRef } from 'react'
-import { ChatMessage } from '@/types/chat'
+import { ChatMessage, ToolCallDecision } from '@/types/chat'
 import { Bot, User, AlertCircle, Clock, Check, CheckCheck } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { ThinkingSection } from './thinking-section'
+import { ToolCallCard } from './tool-call-card'
 import { MarkdownContent } from '@/components/ui/markdown-content'
 
 interface ChatBubbleProps {
   message: ChatMessage
   className?: string
+  // Enables Approve/Reject on tool calls awaiting approval
+  onToolCallDecision?: (toolCallId: string, decision: ToolCallDecision) => Promise<void>
 }
 
 function formatTime(timestamp: string) {
@@ -35,10 +38,21 @@ function getStatusIcon(status?: string) {
 }
 
 export const ChatBubble = forwardRef<HTMLDivElement, ChatBubbleProps>(
-  ({ message, className }, ref) => {
+  ({ message, className, onToolCallDecision }, ref) => {
     const isUser = message.role === 'user'
     const isAssistant = message.role === 'assistant'
     const isSystem = message.role === 'system'
+    // While streaming, raw content may still hold an unclosed [THINK] section
+    const assistantContent = message.isStreaming
+      ? message.responseContent || ''
+      : message.responseContent || message.content
+
+    const hasToolCalls = !!message.toolCalls?.length
+
+    // A stream that failed before producing any content leaves nothing to show
+    if (isAssistant && !message.isStreaming && !message.content && !hasToolCalls) {
+      return null
+    }
 
     if (isSystem) {
       return (
@@ -87,29 +101,49 @@ export const ChatBubble = forwardRef<HTMLDivElement, ChatBubbleProps>(
 
           {/* Thinking Section (for assistant messages with thinking content) */}
           {isAssistant && message.hasThinking && message.thinkingContent && (
-            <ThinkingSection thinkingContent={message.thinkingContent} />
+            <ThinkingSection
+              thinkingContent={message.thinkingContent}
+              isStreaming={message.isStreaming && !message.responseContent}
+            />
           )}
 
           {/* Message Bubble */}
-          <div
-            className={cn(
-              "px-4 py-3 text-sm leading-relaxed break-words",
-              isUser
-                ? "bg-amber-600 text-white rounded-2xl rounded-tr-md"
-                : "bg-white border border-stone-200 text-stone-900 rounded-2xl rounded-tl-md dark:bg-stone-800 dark:border-stone-700 dark:text-stone-100",
-              message.status === 'error' && isUser && "bg-red-500"
-            )}
-          >
-            {/* Render markdown for assistant messages, plain text for user messages */}
-            {isAssistant ? (
-              <MarkdownContent 
-                content={message.responseContent || message.content} 
-                className="prose-sm [&>*]:text-stone-900 dark:[&>*]:text-stone-100"
-              />
-            ) : (
-              message.content
-            )}
-          </div>
+          {(!isAssistant || assistantContent || message.isStreaming) && (
+            <div
+              className={cn(
+                "px-4 py-3 text-sm leading-relaxed break-words",
+                isUser
+                  ? "bg-amber-600 text-white rounded-2xl rounded-tr-md"
+                  : "bg-white border border-stone-200 text-stone-900 rounded-2xl rounded-tl-md dark:bg-stone-800 dark:border-stone-700 dark:text-stone-100",
+                message.status === 'error' && isUser && "bg-red-500"
+              )}
+            >
+              {/* Render markdown for assistant messages, plain text for user messages */}
+              {isAssistant && !assistantContent && message.isStreaming ? (
+                <TypingDots />
+              ) : isAssistant ? (
+                <MarkdownContent 
+                  content={assistantContent} 
+                  className="prose-sm [&>*]:text-stone-900 dark:[&>*]:text-stone-100"
+                />
+              ) : (
+                message.content
+              )}
+            </div>
+          )}
+
+          {/* Tool Calls (for assistant messages that invoked tools) */}
+          {isAssistant && hasToolCalls && (
+            <div className="flex flex-col gap-2 w-full min-w-[320px]">
+              {message.toolCalls!.map((toolCall) => (
+                <ToolCallCard
+                  key={toolCall.id}
+                  toolCall={toolCall}
+                  onDecision={onToolCallDecision}
+                />
+              ))}
+            </div>
+          )}
 
           {/* Status and Timestamp */}
           <div className={cn(
@@ -127,6 +161,18 @@ export const ChatBubble = forwardRef<HTMLDivElement, ChatBubbleProps>(
 
 ChatBubble.displayName = 'ChatBubble'
 
+function TypingDots() {
+  return (
+    <div className="flex items-center gap-1">
+      <div className="flex space-x-1">
+        <div className="w-2 h-2 bg-stone-400 rounded-full animate-pulse" style={{ animationDelay: '0ms' }} />
+        <div className="w-2 h-2 bg-stone-400 rounded-full animate-pulse" style={{ animationDelay: '150ms' }} />
+        <div className="w-2 h-2 bg-stone-400 rounded-full animate-pulse" style={{ animationDelay: '300ms' }} />
+      </div>
+    </div>
+  )
+}
+
 // Typing indicator component for when agent is responding
 export function TypingIndicator({ agentName }: { agentName?: string }) {
   return (
@@ -144,13 +190,7 @@ export function TypingIndicator({ agentName }: { agentName?: string }) {
         )}
         
         <div className="bg-white border border-stone-200 dark:bg-stone-800 dark:border-stone-700 px-4 py-3 rounded-2xl rounded-tl-md">
-          <div className="flex items-center gap-1">
-            <div className="flex space-x-1">
-              <div className="w-2 h-2 bg-stone-400 rounded-full animate-pulse" style={{ animationDelay: '0ms' }} />
-              <div className="w-2 h-2 bg-stone-400 rounded-full animate-pulse" style={{ animationDelay: '150ms' }} />
-              <div className="w-2 h-2 bg-stone-400 rounded-full animate-pulse" style={{ animationDelay: '300ms' }} />
-            </div>
-          </div>
+          <TypingDots />
         </div>
       </div>
     </div>
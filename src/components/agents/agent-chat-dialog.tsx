@@ -74,16 +74,21 @@ export function AgentChatDialog({
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
 
+  // The streaming response bubble shows its own progress once it appears
+  const isStreaming = messages.some(message => message.isStreaming)
+
   // Show typing indicator when sending message
   useEffect(() => {
-    if (isLoading) {
+    if (isStreaming) {
+      setShowTyping(false)
+    } else if (isLoading) {
       setShowTyping(true)
     } else {
       // Delay hiding typing to make it feel more natural
       const timer = setTimeout(() => setShowTyping(false), 500)
       return () => clearTimeout(timer)
     }
-  }, [isLoading])
+  }, [isLoading, isStreaming])
 
   // Auto-introduce agent when first opening chat
   useEffect(() => {
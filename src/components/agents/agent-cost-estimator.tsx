@@ -0,0 +1,184 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, Calculator, Loader2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useAgentCostEstimate } from '@/hooks/use-agent-cost-estimate'
+import { formatCurrencyAutoPrecision } from '@/lib/currency'
+import type { AgentCostEstimate } from '@/lib/agent-cost-estimate'
+import type { LanguageAgentSpec } from '@/types/agent'
+
+type ExecutionMode = NonNullable<LanguageAgentSpec['executionMode']>
+
+const DAYS_PER_MONTH = 30
+
+const executionModes: Array<{ value: ExecutionMode; label: string }> = [
+  { value: 'scheduled', label: 'Scheduled' },
+  { value: 'interactive', label: 'Interactive' },
+  { value: 'autonomous', label: 'Autonomous' },
+  { value: 'event-driven', label: 'Event-driven' },
+]
+
+// Runs per day of common schedules
+const schedules = [
+  { value: '96', label: 'Every 15 minutes' },
+  { value: '24', label: 'Hourly' },
+  { value: '4', label: 'Every 6 hours' },
+  { value: '1', label: 'Daily' },
+  { value: String(1 / 7), label: 'Weekly' },
+]
+
+function describeBasis(estimate: AgentCostEstimate): string {
+  const executions = `${estimate.sampleExecutions.toLocaleString()} execution${estimate.sampleExecutions === 1 ? '' : 's'}`
+  switch (estimate.basis) {
+    case 'agent':
+      return `Based on this agent's last ${executions}`
+    case 'similar':
+      return `Based on ${executions} of ${estimate.sampleAgents.length} agent${estimate.sampleAgents.length === 1 ? '' : 's'} using the same models`
+    default:
+      return 'No agents have run with these models yet, so there is no token history to estimate from'
+  }
+}
+
+interface AgentCostEstimatorProps {
+  clusterName: string
+  models: string[]
+  // The agent being edited, whose own history is preferred
+  agentName?: string
+  executionMode?: ExecutionMode
+}
+
+/**
+ * Projected spend of an agent from its selected models and how often it runs
+ */
+export function AgentCostEstimator({ clusterName, models, agentName, executionMode }: AgentCostEstimatorProps) {
+  const [mode, setMode] = useState<ExecutionMode>(executionMode || 'scheduled')
+  const [schedule, setSchedule] = useState('24')
+  // Left empty to use the historical rate
+  const [executionsPerDay, setExecutionsPerDay] = useState('')
+
+  const { data: estimate, isLoading, error } = useAgentCostEstimate(clusterName, models, agentName)
+
+  const historicalRate = estimate && estimate.executionsPerDay > 0 ? Math.max(1, Math.round(estimate.executionsPerDay)) : 1
+  const runsPerDay = mode === 'scheduled'
+    ? parseFloat(schedule)
+    : parseFloat(executionsPerDay) || historicalRate
+
+  const [primary, ...fallbacks] = estimate?.models || []
+  const costPerExecution = primary?.costPerExecution ?? null
+  const unpriced = estimate?.models.filter(model => model.costPerExecution === null).map(model => model.name) || []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          Cost Estimate
+        </CardTitle>
+        <CardDescription>
+          Projected LLM spend, from the selected models&apos; prices and recent token usage
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="estimate-mode">Runs as</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as ExecutionMode)}>
+              <SelectTrigger id="estimate-mode" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {executionModes.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {mode === 'scheduled' ? (
+            <div className="space-y-2">
+              <Label htmlFor="estimate-schedule">Schedule</Label>
+              <Select value={schedule} onValueChange={setSchedule}>
+                <SelectTrigger id="estimate-schedule" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {schedules.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="estimate-executions">Executions per day</Label>
+              <Input
+                id="estimate-executions"
+                type="number"
+                min="0"
+                placeholder={String(historicalRate)}
+                value={executionsPerDay}
+                onChange={(e) => setExecutionsPerDay(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        {models.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Select a model to see an estimate</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : estimate && (
+          <>
+            {estimate.basis !== 'none' && costPerExecution !== null && (
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <p className="text-sm font-medium text-stone-600 dark:text-stone-400">Per execution</p>
+                  <p className="text-lg font-semibold">{formatCurrencyAutoPrecision(costPerExecution, estimate.currency)}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-stone-600 dark:text-stone-400">Per day</p>
+                  <p className="text-lg font-semibold">{formatCurrencyAutoPrecision(costPerExecution * runsPerDay, estimate.currency)}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-stone-600 dark:text-stone-400">Per month</p>
+                  <p className="text-lg font-semibold">{formatCurrencyAutoPrecision(costPerExecution * runsPerDay * DAYS_PER_MONTH, estimate.currency)}</p>
+                </div>
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              {describeBasis(estimate)}
+              {estimate.basis !== 'none' && (
+                <> · about {Math.round(estimate.avgInputTokens).toLocaleString()} input and {Math.round(estimate.avgOutputTokens).toLocaleString()} output tokens per execution on {primary.name}</>
+              )}
+            </p>
+
+            {estimate.basis !== 'none' && fallbacks.some(model => model.costPerExecution !== null) && (
+              <p className="text-xs text-muted-foreground">
+                On other selected models:{' '}
+                {fallbacks
+                  .filter(model => model.costPerExecution !== null)
+                  .map(model => `${model.name} ${formatCurrencyAutoPrecision(model.costPerExecution! * runsPerDay * DAYS_PER_MONTH, estimate.currency)}/month`)
+                  .join(', ')}
+              </p>
+            )}
+
+            {unpriced.length > 0 && (
+              <p className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                <AlertTriangle className="h-3 w-3" />
+                No pricing for {unpriced.join(', ')}. Enable cost tracking on {unpriced.length === 1 ? 'this model' : 'these models'} to include it.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,17 +5,22 @@ import { fetchWithOrganization } from '@/lib/api-client'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { LanguageAgent } from '@/types/agent'
-import { useLogViewer } from '@/hooks/useLogViewer'
+import { useLogViewer, type LogViewerEntry } from '@/hooks/useLogViewer'
 import { PodLogViewer } from '@/components/ui/pod-log-viewer'
-import { PodSelector, type PodInfo } from '@/components/ui/pod-selector'
+import { PodSelector, ALL_PODS, type PodInfo } from '@/components/ui/pod-selector'
+import type { ArchivedLogViewerFilters } from '@/components/ui/archived-log-viewer'
+import { useOrganization } from '@/components/organization-provider'
 
 interface AgentLogsProps {
   agent: LanguageAgent
   clusterName: string
+  // Open the archived logs with these filters, e.g. a trace span's time window and pod
+  archiveFilters?: ArchivedLogViewerFilters
 }
 
-export function AgentLogs({ agent, clusterName }: AgentLogsProps) {
+export function AgentLogs({ agent, clusterName, archiveFilters }: AgentLogsProps) {
   const logs = useLogViewer()
+  const { getOrgUrl } = useOrganization()
   const [isStreaming, setIsStreaming] = useState(false)
   const [pods, setPods] = useState<PodInfo[]>([])
   const [selectedPod, setSelectedPod] = useState<string>('')
@@ -70,9 +75,11 @@ export function AgentLogs({ agent, clusterName }: AgentLogsProps) {
       logs.setLoading(true)
       logs.setError(null)
 
-      const url = selectedPod
-        ? `/api/clusters/${clusterName}/agents/${agent.metadata.name}/logs?podName=${selectedPod}`
-        : `/api/clusters/${clusterName}/agents/${agent.metadata.name}/logs`
+      const url = selectedPod === ALL_PODS
+        ? `/api/clusters/${clusterName}/agents/${agent.metadata.name}/logs?allPods=true`
+        : selectedPod
+          ? `/api/clusters/${clusterName}/agents/${agent.metadata.name}/logs?podName=${selectedPod}`
+          : `/api/clusters/${clusterName}/agents/${agent.metadata.name}/logs`
 
       const response = await fetch(url)
       if (!response.ok) {
@@ -80,8 +87,13 @@ export function AgentLogs({ agent, clusterName }: AgentLogsProps) {
       }
 
       const data = await response.json()
-      const logLines = data.logs ? data.logs.split('\n').filter((line: string) => line.trim()) : []
-      logs.setLogs(logLines)
+      if (data.lines) {
+        // Merged output of every pod, tagged with the pod
+        logs.setLogs(data.lines)
+      } else {
+        const logLines = data.logs ? data.logs.split('\n').filter((line: string) => line.trim()) : []
+        logs.setLogs(logLines)
+      }
     } catch (err) {
       console.error('Error fetching initial logs:', err)
       logs.setError(err instanceof Error ? err.message : 'Failed to load logs')
@@ -98,9 +110,12 @@ export function AgentLogs({ agent, clusterName }: AgentLogsProps) {
     setIsStreaming(true)
     logs.setError(null)
 
-    const url = selectedPod
-      ? `/api/clusters/${clusterName}/agents/${agent.metadata.name}/logs/stream?podName=${selectedPod}`
-      : `/api/clusters/${clusterName}/agents/${agent.metadata.name}/logs/stream`
+    const merged = selectedPod === ALL_PODS
+    const url = merged
+      ? `/api/clusters/${clusterName}/agents/${agent.metadata.name}/logs/stream?allPods=true`
+      : selectedPod
+        ? `/api/clusters/${clusterName}/agents/${agent.metadata.name}/logs/stream?podName=${selectedPod}`
+        : `/api/clusters/${clusterName}/agents/${agent.metadata.name}/logs/stream`
 
     const eventSource = new EventSource(url)
     eventSourceRef.current = eventSource
@@ -108,7 +123,9 @@ export function AgentLogs({ agent, clusterName }: AgentLogsProps) {
     eventSource.onmessage = (event) => {
       const newLog = event.data
       if (newLog && newLog.trim()) {
-        logs.setLogs(prev => [...prev, newLog])
+        // Merged streams send each line as JSON tagged with its pod
+        const entry: LogViewerEntry = merged ? JSON.parse(newLog) : newLog
+        logs.setLogs(prev => [...prev, entry])
       }
     }
 
@@ -133,30 +150,6 @@ export function AgentLogs({ agent, clusterName }: AgentLogsProps) {
 
   return (
     <div className="space-y-6">
-      {/* Pod Selection */}
-      <PodSelector
-        pods={pods.map(pod => ({
-          ...pod,
-          isRunning: pod.status === 'Running'
-        }))}
-        selectedPod={selectedPod}
-        selectedContainer={null}
-        podType="agent"
-        onPodChange={(value) => {
-          setSelectedPod(value)
-          // Stop streaming when switching pods
-          if (isStreaming) {
-            stopStreaming()
-          }
-          // Clear existing logs
-          logs.clearLogs()
-        }}
-        onContainerChange={() => {}} // Agent logs don't use container selection
-        onRefresh={fetchPods}
-        loading={podsLoading}
-        layout="horizontal"
-      />
-
       {/* Log Viewer with Streaming Controls */}
       <PodLogViewer
         logs={logs}
@@ -166,6 +159,35 @@ export function AgentLogs({ agent, clusterName }: AgentLogsProps) {
         onStartStreaming={startStreaming}
         onStopStreaming={stopStreaming}
         streamingDisabled={!selectedPod}
+        archiveUrl={`/api/clusters/${clusterName}/agents/${agent.metadata.name}/logs/search`}
+        downloadName={agent.metadata.name}
+        traceUrl={(traceId) => getOrgUrl(`/clusters/${clusterName}/agents/${agent.metadata.name}/traces/${traceId}`)}
+        initialArchiveFilters={archiveFilters}
+        podSelector={
+          <PodSelector
+            pods={pods.map(pod => ({
+              ...pod,
+              isRunning: pod.status === 'Running'
+            }))}
+            selectedPod={selectedPod}
+            selectedContainer={null}
+            podType="agent"
+            allowAllPods
+            onPodChange={(value) => {
+              setSelectedPod(value)
+              // Stop streaming when switching pods
+              if (isStreaming) {
+                stopStreaming()
+              }
+              // Clear existing logs
+              logs.clearLogs()
+            }}
+            onContainerChange={() => {}} // Agent logs don't use container selection
+            onRefresh={fetchPods}
+            loading={podsLoading}
+            layout="horizontal"
+          />
+        }
       />
 
       {/* Streaming Status */}
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Activity, AlertCircle, ChevronDown, ChevronRight, Clock, Database } from 'lucide-react'
+import { fetchWithOrganization } from '@/lib/api-client'
 // TODO: Fix AgentPrism package imports
 // import { openTelemetrySpanAdapter } from '@evilmartians/agent-prism-data'
 // import type { TraceRecord, TraceSpan } from '@evilmartians/agent-prism-types'
@@ -259,7 +260,7 @@ export function AgentPrismTraceViewer({
     async function fetchOtlpData() {
       try {
         setLoading(true)
-        const response = await fetch(
+        const response = await fetchWithOrganization(
           `/api/clusters/${clusterName}/agents/${agentName}/executions/${execution.executionId}/otlp`
         )
         
@@ -1,14 +1,17 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useRouter, usePathname, useSearchParams } from 'next/navigation'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { ExecutionDropdown } from './execution-dropdown'
+import { Button } from '@/components/ui/button'
+import { useOrganization } from '@/components/organization-provider'
+import { ExecutionBrowser } from './execution-browser'
 import { AgentTraceViewer } from './agent-trace-viewer' 
 import { ExecutionMetadata } from './execution-metadata'
-import { useAgentExecutions } from '@/hooks/use-agent-executions'
-import { Activity, Clock, CheckCircle, XCircle, AlertCircle } from 'lucide-react'
+import { useAgentExecutions, type ExecutionFilterValues } from '@/hooks/use-agent-executions'
+import { Activity, Clock, CheckCircle, XCircle, AlertCircle, FileUp } from 'lucide-react'
+import Link from 'next/link'
 // Local type definitions
 interface AgentExecution {
   traceId: string
@@ -19,6 +22,8 @@ interface AgentExecution {
   status: 'success' | 'error' | 'running'
   rootSpanName: string
   spanCount: number
+  errorSpanCount: number
+  models: string[]
 }
 
 interface AgentTelemetryPanelProps {
@@ -28,37 +33,49 @@ interface AgentTelemetryPanelProps {
 
 export function AgentTelemetryPanel({ agent, clusterName }: AgentTelemetryPanelProps) {
   const [selectedExecution, setSelectedExecution] = useState<AgentExecution | null>(null)
+  const [filters, setFilters] = useState<ExecutionFilterValues>(() => ({
+    from: new Date(Date.now() - 24 * 60 * 60 * 1000),
+    to: new Date(),
+  }))
   const router = useRouter()
   const pathname = usePathname()
   const searchParams = useSearchParams()
+  const { getOrgUrl } = useOrganization()
   
   const { 
-    data: executions, 
+    data, 
     isLoading, 
-    error 
-  } = useAgentExecutions(agent.metadata.name, clusterName)
+    error,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useAgentExecutions(agent.metadata.name, clusterName, filters)
+
+  const executionList = useMemo(() => data?.pages.flatMap(page => page.data) || [], [data])
+  // Facets come with the first page
+  const facets = data?.pages[0]?.facets
 
   // Handle URL-based trace selection and auto-select most recent execution
   useEffect(() => {
-    if (!executions?.data || executions.data.length === 0) return
+    if (executionList.length === 0) return
 
     const urlTraceId = searchParams.get('traceId')
     
     if (urlTraceId) {
       // If there's a trace ID in the URL, try to find and select that execution
-      const foundExecution = executions.data.find(exec => exec.traceId === urlTraceId)
-      if (foundExecution && foundExecution !== selectedExecution) {
+      const foundExecution = executionList.find(exec => exec.traceId === urlTraceId)
+      if (foundExecution && foundExecution.traceId !== selectedExecution?.traceId) {
         setSelectedExecution(foundExecution)
       }
     } else if (!selectedExecution) {
       // No trace ID in URL and no execution selected, auto-select most recent
-      const mostRecent = executions.data[0]
+      const mostRecent = executionList[0]
       setSelectedExecution(mostRecent)
       // Update URL to reflect the selected trace
       const newUrl = `${window.location.pathname}?traceId=${mostRecent.traceId}`
       window.history.pushState(null, '', newUrl)
     }
-  }, [executions?.data, selectedExecution, searchParams])
+  }, [executionList, selectedExecution, searchParams])
 
   // Handle execution selection with URL update (but stay on same page)
   const handleExecutionSelect = (execution: AgentExecution) => {
@@ -104,21 +121,6 @@ export function AgentTelemetryPanel({ agent, clusterName }: AgentTelemetryPanelP
     return `${minutes}m ${remainingSeconds}s`
   }
 
-  if (isLoading) {
-    return (
-      <div className="space-y-6">
-        <Card>
-          <CardContent className="flex items-center justify-center py-16">
-            <div className="text-center">
-              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-foreground mx-auto mb-4"></div>
-              <p className="text-muted-foreground">Loading execution data...</p>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-    )
-  }
-
   if (error) {
     return (
       <Card>
@@ -133,39 +135,36 @@ export function AgentTelemetryPanel({ agent, clusterName }: AgentTelemetryPanelP
     )
   }
 
-  const executionList = executions?.data || []
-
-  if (executionList.length === 0) {
-    return (
-      <Card>
-        <CardContent className="flex items-center justify-center py-16">
-          <div className="text-center">
-            <Activity className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-            <p className="text-foreground">No execution traces found</p>
-            <p className="text-sm text-muted-foreground mt-2">
-              Executions will appear here once the agent runs
-            </p>
-          </div>
-        </CardContent>
-      </Card>
-    )
-  }
-
   return (
     <div className="space-y-6">
       {/* Execution Selection */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Activity className="h-5 w-5" />
-            Executions
-          </CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Activity className="h-5 w-5" />
+              Executions
+            </CardTitle>
+            <Button variant="outline" size="sm" className="gap-2" asChild>
+              <Link href={getOrgUrl(`/clusters/${clusterName}/agents/${agent.metadata.name}/traces/import`)}>
+                <FileUp className="h-4 w-4" />
+                Import trace
+              </Link>
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
-          <ExecutionDropdown
+          <ExecutionBrowser
             executions={executionList}
+            facets={facets}
+            filters={filters}
+            onFiltersChange={setFilters}
             selectedExecution={selectedExecution}
             onExecutionSelect={handleExecutionSelect}
+            isLoading={isLoading}
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            onLoadMore={() => fetchNextPage()}
             clusterName={clusterName}
             agentName={agent.metadata.name}
           />
@@ -190,7 +189,7 @@ export function AgentTelemetryPanel({ agent, clusterName }: AgentTelemetryPanelP
               <Activity className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <p className="text-foreground">Select an execution to view trace details</p>
               <p className="text-sm text-muted-foreground mt-2">
-                Choose from {executionList.length} recent executions above
+                Choose from the executions above
               </p>
             </div>
           </CardContent>
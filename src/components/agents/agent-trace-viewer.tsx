@@ -1,10 +1,17 @@
 'use client'
 
 import { useState, useEffect, useMemo } from 'react'
+import NextLink from 'next/link'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { Activity, Clock, AlertTriangle, ChevronDown, ChevronRight, Share, Link } from 'lucide-react'
+import { Activity, Clock, AlertTriangle, ChevronDown, ChevronRight, Download, Link, ScrollText } from 'lucide-react'
+import { fromOtlpAttributes, getOtlpSpanPods, getOtlpSpans, type OtlpDocument } from '@/lib/otlp'
+import { useOrganization } from '@/components/organization-provider'
+
+// Logs shown for a span start this long before it and end this long after,
+// since log timestamps and span clocks don't line up exactly
+const SPAN_LOGS_PADDING_MS = 5000
 
 // Enhanced span interface with computed properties
 interface EnhancedSpan {
@@ -21,6 +28,8 @@ interface EnhancedSpan {
     name: string
     attributes: Record<string, any>
   }>
+  // Pod that recorded the span, when its resource names one
+  podName?: string
   // Computed properties
   children: EnhancedSpan[]
   depth: number
@@ -44,6 +53,8 @@ interface AgentTraceViewerProps {
   execution: AgentExecution
   clusterName: string
   agentName: string
+  // Trace loaded from an OTLP/JSON file instead of the API
+  traceDocument?: OtlpDocument
 }
 
 // Utility functions
@@ -75,6 +86,7 @@ function buildSpanHierarchy(spans: any[]): EnhancedSpan[] {
         name: span.eventNames?.[idx] || 'Unknown Event',
         attributes: span.eventAttributes?.[idx] || {}
       })) || [],
+      podName: span.podName,
       children: [],
       depth: 0,
       relativeStartTime: startTime - traceStartTime,
@@ -255,7 +267,7 @@ function SpanTimeline({
   )
 }
 
-function SpanDetailsPanel({ span }: { span: EnhancedSpan }) {
+function SpanDetailsPanel({ span, logsUrl }: { span: EnhancedSpan; logsUrl?: string }) {
 
   return (
     <div className="space-y-6 max-h-[600px] overflow-y-auto">
@@ -286,7 +298,21 @@ function SpanDetailsPanel({ span }: { span: EnhancedSpan }) {
               <span className="ml-2 font-mono text-xs">{span.parentId}</span>
             </div>
           )}
+          {span.podName && (
+            <div className="col-span-2">
+              <span className="text-muted-foreground">Pod:</span>
+              <span className="ml-2 font-mono text-xs">{span.podName}</span>
+            </div>
+          )}
         </div>
+        {logsUrl && (
+          <Button asChild variant="outline" size="sm" className="gap-2 mt-3">
+            <NextLink href={logsUrl}>
+              <ScrollText className="h-4 w-4" />
+              Show logs
+            </NextLink>
+          </Button>
+        )}
       </div>
 
       {/* Special Attributes - Input/Output */}
@@ -439,62 +465,54 @@ function SpanDetailsPanel({ span }: { span: EnhancedSpan }) {
   )
 }
 
-export function AgentTraceViewer({ execution, clusterName, agentName }: AgentTraceViewerProps) {
-  const [rawData, setRawData] = useState<any>(null)
+export function AgentTraceViewer({ execution, clusterName, agentName, traceDocument }: AgentTraceViewerProps) {
+  const [rawData, setRawData] = useState<OtlpDocument | null>(null)
   const [spans, setSpans] = useState<EnhancedSpan[]>([])
   const [selectedSpan, setSelectedSpan] = useState<EnhancedSpan | null>(null)
   const [expandedSpanIds, setExpandedSpanIds] = useState<Set<string>>(new Set())
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const { getOrgUrl } = useOrganization()
 
   useEffect(() => {
     async function fetchTraceData() {
       try {
         setLoading(true)
-        const response = await fetch(
-          `/api/clusters/${clusterName}/agents/${agentName}/executions/${execution.executionId}/otlp`
-        )
-        
-        if (!response.ok) {
-          throw new Error('Failed to fetch trace data')
-        }
+        let otlpData: OtlpDocument
+        if (traceDocument) {
+          otlpData = traceDocument
+        } else {
+          const response = await fetch(
+            `/api/clusters/${clusterName}/agents/${agentName}/executions/${execution.executionId}/otlp`
+          )
+
+          if (!response.ok) {
+            throw new Error('Failed to fetch trace data')
+          }
 
-        const result = await response.json()
-        if (!result.success) {
-          throw new Error(result.error || 'Failed to fetch trace data')
+          const result = await response.json()
+          if (!result.success) {
+            throw new Error(result.error || 'Failed to fetch trace data')
+          }
+          otlpData = result.data
         }
-
-        const otlpData = result.data
         setRawData(otlpData)
 
         // Extract spans from OTLP format
-        const flatSpans = []
-        for (const resourceSpan of otlpData.resourceSpans || []) {
-          for (const scopeSpan of resourceSpan.scopeSpans || []) {
-            for (const span of scopeSpan.spans || []) {
-              flatSpans.push({
-                spanId: span.spanId,
-                parentSpanId: span.parentSpanId,
-                spanName: span.name,
-                startTime: new Date(parseInt(span.startTimeUnixNano) / 1000000),
-                endTime: new Date(parseInt(span.endTimeUnixNano) / 1000000),
-                statusCode: span.status?.code || 'STATUS_CODE_UNSET',
-                attributes: span.attributes?.reduce((acc: any, attr: any) => {
-                  acc[attr.key] = attr.value?.stringValue || attr.value?.intValue || attr.value?.boolValue
-                  return acc
-                }, {}) || {},
-                eventTimestamps: span.events?.map((e: any) => new Date(parseInt(e.timeUnixNano) / 1000000)),
-                eventNames: span.events?.map((e: any) => e.name),
-                eventAttributes: span.events?.map((e: any) => 
-                  e.attributes?.reduce((acc: any, attr: any) => {
-                    acc[attr.key] = attr.value?.stringValue || attr.value?.intValue || attr.value?.boolValue
-                    return acc
-                  }, {})
-                )
-              })
-            }
-          }
-        }
+        const spanPods = getOtlpSpanPods(otlpData)
+        const flatSpans = getOtlpSpans(otlpData).map((span) => ({
+          spanId: span.spanId,
+          parentSpanId: span.parentSpanId,
+          spanName: span.name,
+          startTime: new Date(parseInt(span.startTimeUnixNano) / 1000000),
+          endTime: new Date(parseInt(span.endTimeUnixNano) / 1000000),
+          statusCode: span.status?.code || 'STATUS_CODE_UNSET',
+          attributes: fromOtlpAttributes(span.attributes || []),
+          eventTimestamps: span.events?.map((e) => new Date(parseInt(e.timeUnixNano) / 1000000)),
+          eventNames: span.events?.map((e) => e.name),
+          eventAttributes: span.events?.map((e) => fromOtlpAttributes(e.attributes || [])),
+          podName: spanPods.get(span.spanId)
+        }))
 
         const hierarchicalSpans = buildSpanHierarchy(flatSpans)
         setSpans(hierarchicalSpans)
@@ -521,7 +539,7 @@ export function AgentTraceViewer({ execution, clusterName, agentName }: AgentTra
     }
 
     fetchTraceData()
-  }, [execution.executionId, clusterName, agentName])
+  }, [execution.executionId, clusterName, agentName, traceDocument])
 
   const totalDuration = useMemo(() => {
     if (!spans.length) return 0
@@ -539,6 +557,37 @@ export function AgentTraceViewer({ execution, clusterName, agentName }: AgentTra
     return maxEnd - minStart
   }, [spans])
 
+  // The agent's archived logs over the span's time window, from its pod when known.
+  // Imported traces may come from another cluster, so they aren't linked.
+  const getSpanLogsUrl = (span: EnhancedSpan): string | undefined => {
+    if (traceDocument) {
+      return undefined
+    }
+    const params = new URLSearchParams({
+      from: new Date(span.startTime - SPAN_LOGS_PADDING_MS).toISOString(),
+      to: new Date(span.endTime + SPAN_LOGS_PADDING_MS).toISOString(),
+    })
+    if (span.podName) {
+      params.set('podName', span.podName)
+    }
+    return getOrgUrl(`/clusters/${clusterName}/agents/${agentName}/logs?${params}`)
+  }
+
+  // Save the trace as OTLP/JSON, which can be imported again or sent to any OTLP tool
+  const handleDownload = () => {
+    if (!rawData) return
+
+    const blob = new Blob([JSON.stringify(rawData, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `trace-${execution.traceId}.otlp.json`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
   const handleToggleExpand = (spanId: string) => {
     setExpandedSpanIds(prev => {
       const newSet = new Set(prev)
@@ -595,20 +644,35 @@ export function AgentTraceViewer({ execution, clusterName, agentName }: AgentTra
                 return `${minutes}m ${remainingSeconds}s`
               })()})
             </CardTitle>
-            <Button
-              variant="outline"
-              size="sm"
-              className="gap-2"
-              onClick={() => {
-                const url = `/clusters/${clusterName}/agents/${agentName}/traces?traceId=${execution.traceId}`
-                const fullUrl = window.location.origin + url
-                navigator.clipboard.writeText(fullUrl)
-                // Could add a toast notification here
-              }}
-            >
-              <Link className="h-4 w-4" />
-              Share
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                disabled={!rawData}
+                onClick={handleDownload}
+              >
+                <Download className="h-4 w-4" />
+                Download OTLP
+              </Button>
+              {/* Imported traces have no link to share */}
+              {!traceDocument && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => {
+                    const url = `/clusters/${clusterName}/agents/${agentName}/traces?traceId=${execution.traceId}`
+                    const fullUrl = window.location.origin + url
+                    navigator.clipboard.writeText(fullUrl)
+                    // Could add a toast notification here
+                  }}
+                >
+                  <Link className="h-4 w-4" />
+                  Share
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -699,7 +763,7 @@ export function AgentTraceViewer({ execution, clusterName, agentName }: AgentTra
                   </button>
                 </div>
                 <div className="border rounded-lg p-4 bg-background min-h-[600px]">
-                  <SpanDetailsPanel span={selectedSpan} />
+                  <SpanDetailsPanel span={selectedSpan} logsUrl={getSpanLogsUrl(selectedSpan)} />
                 </div>
               </div>
             )}
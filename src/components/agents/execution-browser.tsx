@@ -0,0 +1,328 @@
+'use client'
+
+import { useState } from 'react'
+import { Clock, CheckCircle, XCircle, AlertCircle, ExternalLink, GitCompare, Loader2, SearchX } from 'lucide-react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AdvancedDateRangePicker } from '@/components/ui/advanced-date-range-picker'
+import { useOrganization } from '@/components/organization-provider'
+import type { ExecutionFacets, ExecutionFilterValues } from '@/hooks/use-agent-executions'
+import { cn } from '@/lib/utils'
+// Local type definitions
+interface AgentExecution {
+  traceId: string
+  executionId: string
+  startTime: Date
+  endTime: Date
+  duration: number
+  status: 'success' | 'error' | 'running'
+  rootSpanName: string
+  spanCount: number
+  errorSpanCount: number
+  models: string[]
+}
+
+interface FacetCount {
+  value: string
+  count: number
+}
+
+interface ExecutionBrowserProps {
+  executions: AgentExecution[]
+  facets?: ExecutionFacets
+  filters: ExecutionFilterValues
+  onFiltersChange: (filters: ExecutionFilterValues) => void
+  selectedExecution: AgentExecution | null
+  onExecutionSelect: (execution: AgentExecution) => void
+  isLoading: boolean
+  hasNextPage: boolean
+  isFetchingNextPage: boolean
+  onLoadMore: () => void
+  clusterName: string
+  agentName: string
+}
+
+interface FacetSelectProps {
+  label: string
+  value?: string
+  counts: FacetCount[]
+  onChange: (value?: string) => void
+}
+
+// Select over facet values with their execution counts; 'all' clears the filter
+function FacetSelect({ label, value, counts, onChange }: FacetSelectProps) {
+  // Keep the current value selectable even when nothing matches it any more
+  const options = value && !counts.some(count => count.value === value)
+    ? [...counts, { value, count: 0 }]
+    : counts
+  const total = counts.reduce((sum, count) => sum + count.count, 0)
+
+  return (
+    <Select value={value ?? 'all'} onValueChange={(next) => onChange(next === 'all' ? undefined : next)}>
+      <SelectTrigger className="w-[180px] text-sm">
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All {label.toLowerCase()} ({total})</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.value} ({option.count})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export function ExecutionBrowser({
+  executions,
+  facets,
+  filters,
+  onFiltersChange,
+  selectedExecution,
+  onExecutionSelect,
+  isLoading,
+  hasNextPage,
+  isFetchingNextPage,
+  onLoadMore,
+  clusterName,
+  agentName
+}: ExecutionBrowserProps) {
+  const { getOrgUrl } = useOrganization()
+  // Up to two executions picked for comparison
+  const [compareSelection, setCompareSelection] = useState<AgentExecution[]>([])
+
+  const toggleCompare = (execution: AgentExecution) => {
+    setCompareSelection((selection) => selection.some(selected => selected.traceId === execution.traceId)
+      ? selection.filter(selected => selected.traceId !== execution.traceId)
+      : [...selection, execution].slice(-2))
+  }
+
+  // The older execution is the base of the comparison
+  const [compareBase, compareTarget] = [...compareSelection].sort(
+    (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+  )
+
+  // Minimum duration is typed in seconds and applied on blur or Enter
+  const applyMinDuration = (input: string) => {
+    const seconds = parseFloat(input)
+    const minDuration = Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined
+    if (minDuration !== filters.minDuration) {
+      onFiltersChange({ ...filters, minDuration })
+    }
+  }
+
+  const hasActiveFilters = !!(filters.status || filters.rootSpanName || filters.model || filters.minDuration !== undefined)
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'success':
+        return <CheckCircle className="h-4 w-4 text-green-600" />
+      case 'error':
+        return <XCircle className="h-4 w-4 text-red-600" />
+      case 'running':
+        return <AlertCircle className="h-4 w-4 text-yellow-600" />
+      default:
+        return <Clock className="h-4 w-4 text-gray-600" />
+    }
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'success':
+        return 'bg-green-100 text-green-800 border-green-200'
+      case 'error':
+        return 'bg-red-100 text-red-800 border-red-200'
+      case 'running':
+        return 'bg-yellow-100 text-yellow-800 border-yellow-200'
+      default:
+        return 'bg-gray-100 text-gray-800 border-gray-200'
+    }
+  }
+
+  const formatTimestamp = (date: Date) => {
+    const now = new Date()
+    const diffMs = now.getTime() - new Date(date).getTime()
+    const diffMins = Math.floor(diffMs / (1000 * 60))
+    const diffHours = Math.floor(diffMins / 60)
+    const diffDays = Math.floor(diffHours / 24)
+
+    if (diffMins < 1) {
+      return 'Just now'
+    } else if (diffMins < 60) {
+      return `${diffMins}m ago`
+    } else if (diffHours < 24) {
+      return `${diffHours}h ago`
+    } else {
+      return `${diffDays}d ago`
+    }
+  }
+
+  const formatDuration = (ms: number) => {
+    const seconds = Math.floor(ms / 1000)
+    if (seconds < 60) {
+      return `${seconds}s`
+    }
+    const minutes = Math.floor(seconds / 60)
+    const remainingSeconds = seconds % 60
+    return `${minutes}m ${remainingSeconds}s`
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <AdvancedDateRangePicker
+          date={{ from: filters.from, to: filters.to }}
+          onDateChange={(range) => onFiltersChange({ ...filters, from: range.from, to: range.to })}
+        />
+        <FacetSelect
+          label="Statuses"
+          value={filters.status}
+          counts={facets?.status || []}
+          onChange={(status) => onFiltersChange({ ...filters, status: status as ExecutionFilterValues['status'] })}
+        />
+        <FacetSelect
+          label="Root spans"
+          value={filters.rootSpanName}
+          counts={facets?.rootSpanName || []}
+          onChange={(rootSpanName) => onFiltersChange({ ...filters, rootSpanName })}
+        />
+        <FacetSelect
+          label="Models"
+          value={filters.model}
+          counts={facets?.model || []}
+          onChange={(model) => onFiltersChange({ ...filters, model })}
+        />
+        <Input
+          // Remount to show the applied value when filters change elsewhere
+          key={filters.minDuration ?? 'none'}
+          type="number"
+          min={0}
+          step="any"
+          placeholder="Min duration (s)"
+          defaultValue={filters.minDuration !== undefined ? filters.minDuration / 1000 : ''}
+          onBlur={(e) => applyMinDuration(e.currentTarget.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') applyMinDuration(e.currentTarget.value)
+          }}
+          className="w-[160px] text-sm"
+        />
+        {hasActiveFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onFiltersChange({ from: filters.from, to: filters.to })}
+          >
+            Clear filters
+          </Button>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {compareSelection.length > 0 && (
+            <span className="text-sm text-muted-foreground">
+              {compareSelection.length} of 2 selected
+            </span>
+          )}
+          {compareTarget ? (
+            <Button variant="outline" size="sm" asChild>
+              <Link href={getOrgUrl(`/clusters/${clusterName}/agents/${agentName}/traces/compare?base=${compareBase.traceId}&target=${compareTarget.traceId}`)}>
+                <GitCompare className="h-4 w-4 mr-2" />
+                Compare
+              </Link>
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" disabled>
+              <GitCompare className="h-4 w-4 mr-2" />
+              Compare
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Execution list */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : executions.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12">
+          <SearchX className="h-10 w-10 text-muted-foreground mb-3" />
+          <p className="text-sm text-muted-foreground">
+            {hasActiveFilters ? 'No executions match these filters' : 'No executions in this time range'}
+          </p>
+        </div>
+      ) : (
+        <div className="border rounded-md divide-y max-h-[420px] overflow-y-auto">
+          {executions.map((execution) => (
+            <div
+              key={execution.traceId}
+              role="button"
+              tabIndex={0}
+              onClick={() => onExecutionSelect(execution)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') onExecutionSelect(execution)
+              }}
+              className={cn(
+                'flex items-center justify-between gap-4 p-3 cursor-pointer hover:bg-accent',
+                selectedExecution?.traceId === execution.traceId && 'bg-accent'
+              )}
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <Checkbox
+                  aria-label="Select for comparison"
+                  checked={compareSelection.some(selected => selected.traceId === execution.traceId)}
+                  onCheckedChange={() => toggleCompare(execution)}
+                  onClick={(e) => e.stopPropagation()}
+                />
+                {getStatusIcon(execution.status)}
+                <div className="min-w-0">
+                  <div className="font-mono text-sm truncate">
+                    {execution.traceId}
+                  </div>
+                  <div className="text-sm text-muted-foreground truncate">
+                    {execution.rootSpanName} • {formatTimestamp(execution.startTime)} • {formatDuration(execution.duration)} • {execution.spanCount} spans
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {execution.models.map((model) => (
+                  <Badge key={model} variant="outline" className="font-mono text-xs">
+                    {model}
+                  </Badge>
+                ))}
+                {execution.status === 'success' && execution.errorSpanCount > 0 && (
+                  <Badge variant="outline" className="text-xs text-red-600">
+                    {execution.errorSpanCount} span {execution.errorSpanCount === 1 ? 'error' : 'errors'}
+                  </Badge>
+                )}
+                <Badge className={getStatusColor(execution.status)}>
+                  {execution.status}
+                </Badge>
+                <Link
+                  href={getOrgUrl(`/clusters/${clusterName}/agents/${agentName}/traces/${execution.traceId}`)}
+                  className="p-1 hover:bg-accent rounded"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <ExternalLink className="h-3 w-3" />
+                </Link>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button variant="outline" size="sm" onClick={onLoadMore} disabled={isFetchingNextPage}>
+            {isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Load more
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+'use client'
+
+import { AlertCircle, ArrowRight, GitCompare, Loader2, XCircle } from 'lucide-react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useOrganization } from '@/components/organization-provider'
+import { useExecutionComparison } from '@/hooks/use-execution-comparison'
+import type { ExecutionSide, ExecutionStats } from '@/lib/execution-comparison'
+import { cn } from '@/lib/utils'
+
+interface ExecutionComparisonViewProps {
+  clusterName: string
+  agentName: string
+  base: string
+  target: string
+}
+
+type Metric = {
+  label: string
+  key: keyof ExecutionStats
+  format: (value: number) => string
+}
+
+const formatDuration = (ms: number) => {
+  if (ms < 1000) {
+    return `${Math.round(ms)}ms`
+  }
+  const seconds = ms / 1000
+  if (seconds < 60) {
+    return `${seconds.toFixed(1)}s`
+  }
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}m ${Math.round(seconds % 60)}s`
+}
+
+const formatCount = (value: number) => value.toLocaleString()
+
+// Every metric compared here is better when it goes down
+function Delta({ base, target, format }: { base: number; target: number; format: (value: number) => string }) {
+  const difference = target - base
+  if (difference === 0) {
+    return <span className="text-muted-foreground">—</span>
+  }
+
+  const percent = base !== 0 ? ` (${difference > 0 ? '+' : ''}${Math.round(difference / base * 100)}%)` : ''
+  return (
+    <span className={cn('whitespace-nowrap', difference < 0 ? 'text-green-600' : 'text-red-600')}>
+      {difference > 0 ? '+' : '-'}{format(Math.abs(difference))}{percent}
+    </span>
+  )
+}
+
+function ExecutionHeader({ label, execution, clusterName, agentName }: {
+  label: string
+  execution: ExecutionSide
+  clusterName: string
+  agentName: string
+}) {
+  const { getOrgUrl } = useOrganization()
+
+  return (
+    <div className="min-w-0">
+      <div className="text-xs uppercase text-muted-foreground">{label}</div>
+      <Link
+        href={getOrgUrl(`/clusters/${clusterName}/agents/${agentName}/traces/${execution.traceId}`)}
+        className="font-mono text-sm hover:underline truncate block"
+      >
+        {execution.traceId}
+      </Link>
+      <div className="text-sm text-muted-foreground">
+        {execution.rootSpanName} • {new Date(execution.startTime).toLocaleString()}
+      </div>
+      <div className="flex flex-wrap gap-1 mt-1">
+        {execution.agentVersion && (
+          <Badge variant="secondary" className="text-xs">{execution.agentVersion}</Badge>
+        )}
+        {execution.models.map((model) => (
+          <Badge key={model} variant="outline" className="font-mono text-xs">{model}</Badge>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function ExecutionComparisonView({ clusterName, agentName, base, target }: ExecutionComparisonViewProps) {
+  const { data: comparison, isLoading, error } = useExecutionComparison(agentName, clusterName, base, target)
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (error || !comparison) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-16">
+          <div className="text-center">
+            <XCircle className="h-12 w-12 text-red-600 mx-auto mb-4" />
+            <p className="text-muted-foreground">Failed to compare executions</p>
+            {error && <p className="text-sm text-muted-foreground mt-2">{error.message}</p>}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const formatCost = (value: number) => `${value.toFixed(4)} ${comparison.currency}`
+  const metrics: Metric[] = [
+    { label: 'Duration', key: 'durationMs', format: formatDuration },
+    { label: 'Input tokens', key: 'inputTokens', format: formatCount },
+    { label: 'Output tokens', key: 'outputTokens', format: formatCount },
+    { label: 'Cost', key: 'cost', format: formatCost },
+    { label: 'Errors', key: 'errorCount', format: formatCount },
+    { label: 'Tool calls', key: 'toolCalls', format: formatCount },
+    { label: 'Spans', key: 'spanCount', format: formatCount },
+  ]
+
+  return (
+    <div className="space-y-6">
+      {comparison.unpricedModels.length > 0 && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No pricing for {comparison.unpricedModels.join(', ')}; their tokens are not included in costs.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Summary */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            Summary
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-4">
+            <ExecutionHeader label="Base" execution={comparison.base} clusterName={clusterName} agentName={agentName} />
+            <ArrowRight className="h-4 w-4 text-muted-foreground" />
+            <ExecutionHeader label="Target" execution={comparison.target} clusterName={clusterName} agentName={agentName} />
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Metric</TableHead>
+                <TableHead className="text-right">Base</TableHead>
+                <TableHead className="text-right">Target</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {metrics.map((metric) => (
+                <TableRow key={metric.key}>
+                  <TableCell>{metric.label}</TableCell>
+                  <TableCell className="text-right">{metric.format(comparison.base[metric.key])}</TableCell>
+                  <TableCell className="text-right">{metric.format(comparison.target[metric.key])}</TableCell>
+                  <TableCell className="text-right">
+                    <Delta base={comparison.base[metric.key]} target={comparison.target[metric.key]} format={metric.format} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Tasks */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Tasks</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {comparison.tasks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Neither execution recorded task spans</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Task</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                  <TableHead className="text-right">Tokens (in / out)</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Errors</TableHead>
+                  <TableHead className="text-right">Tool calls</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparison.tasks.map((task) => {
+                  const { base: before, target: after } = task
+                  const stat = (key: keyof ExecutionStats, format: (value: number) => string) => (
+                    before && after ? (
+                      <div className="flex flex-col items-end">
+                        <span>{format(after[key])}</span>
+                        <Delta base={before[key]} target={after[key]} format={format} />
+                      </div>
+                    ) : format((before || after)![key])
+                  )
+
+                  return (
+                    <TableRow key={task.name}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{task.name}</span>
+                          {!after && <Badge variant="outline" className="text-xs">base only</Badge>}
+                          {!before && <Badge variant="outline" className="text-xs">target only</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{stat('durationMs', formatDuration)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          {stat('inputTokens', formatCount)} / {stat('outputTokens', formatCount)}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{stat('cost', formatCost)}</TableCell>
+                      <TableCell className="text-right">{stat('errorCount', formatCount)}</TableCell>
+                      <TableCell className="text-right">{stat('toolCalls', formatCount)}</TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Tool calls */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Tool Calls</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {comparison.tools.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Neither execution called any tools</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tool</TableHead>
+                  <TableHead className="text-right">Base</TableHead>
+                  <TableHead className="text-right">Target</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparison.tools.map((tool) => (
+                  <TableRow key={tool.name}>
+                    <TableCell className="font-mono text-sm">{tool.name}</TableCell>
+                    <TableCell className="text-right">{tool.base}</TableCell>
+                    <TableCell className="text-right">{tool.target}</TableCell>
+                    <TableCell className="text-right">
+                      <Delta base={tool.base} target={tool.target} format={formatCount} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -8,9 +8,11 @@ import { formatThinkingContent } from '@/lib/message-parser'
 interface ThinkingSectionProps {
   thinkingContent: string[]
   className?: string
+  // The agent is still producing thinking content
+  isStreaming?: boolean
 }
 
-export function ThinkingSection({ thinkingContent, className }: ThinkingSectionProps) {
+export function ThinkingSection({ thinkingContent, className, isStreaming = false }: ThinkingSectionProps) {
   const [isExpanded, setIsExpanded] = useState(false)
 
   if (!thinkingContent || thinkingContent.length === 0) {
@@ -26,8 +28,8 @@ export function ThinkingSection({ thinkingContent, className }: ThinkingSectionP
         className="flex items-center gap-2 px-3 py-2 text-xs text-stone-500 dark:text-stone-400 hover:text-stone-600 dark:hover:text-stone-300 transition-colors border-2 border-dashed border-stone-200 dark:border-stone-700 bg-stone-50 dark:bg-stone-800/30 rounded-lg w-full text-left group"
         type="button"
       >
-        <Brain className="h-3 w-3 shrink-0" />
-        <span className="font-medium">Thinking</span>
+        <Brain className={cn("h-3 w-3 shrink-0", isStreaming && "animate-pulse")} />
+        <span className="font-medium">{isStreaming ? 'Thinking…' : 'Thinking'}</span>
         <span className="text-stone-400 dark:text-stone-500">
           ({thinkingContent.length} section{thinkingContent.length > 1 ? 's' : ''})
         </span>
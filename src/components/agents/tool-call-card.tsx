@@ -0,0 +1,136 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, Wrench, ShieldAlert, Check, X, Loader2 } from 'lucide-react'
+import { ChatToolCall, ToolCallDecision, ToolCallStatus } from '@/types/chat'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+
+interface ToolCallCardProps {
+  toolCall: ChatToolCall
+  // Omit to render the card read-only
+  onDecision?: (toolCallId: string, decision: ToolCallDecision) => Promise<void>
+  className?: string
+}
+
+const STATUS_LABELS: Record<ToolCallStatus, string> = {
+  pending_approval: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  completed: 'Completed',
+  failed: 'Failed',
+}
+
+function formatArguments(args: string): string {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2)
+  } catch {
+    return args
+  }
+}
+
+export function ToolCallCard({ toolCall, onDecision, className }: ToolCallCardProps) {
+  const isPending = toolCall.status === 'pending_approval'
+  const [isExpanded, setIsExpanded] = useState(isPending)
+  const [submitting, setSubmitting] = useState<ToolCallDecision | null>(null)
+
+  const handleDecision = async (decision: ToolCallDecision) => {
+    if (!onDecision) return
+    setSubmitting(decision)
+    try {
+      await onDecision(toolCall.id, decision)
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <div
+      className={cn(
+        'w-full border text-xs rounded-lg bg-stone-50/50 dark:bg-stone-800/20',
+        isPending
+          ? 'border-amber-400 dark:border-amber-600'
+          : 'border-stone-200 dark:border-stone-700',
+        className
+      )}
+    >
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center gap-2 px-3 py-2 w-full text-left text-stone-600 dark:text-stone-400"
+        type="button"
+      >
+        {toolCall.requiresApproval ? (
+          <ShieldAlert className="h-3 w-3 shrink-0 text-amber-600 dark:text-amber-400" />
+        ) : (
+          <Wrench className="h-3 w-3 shrink-0" />
+        )}
+        <span className="font-mono font-medium text-stone-800 dark:text-stone-200 truncate">
+          {toolCall.name}
+        </span>
+        <Badge
+          variant={toolCall.status === 'rejected' || toolCall.status === 'failed' ? 'destructive' : 'secondary'}
+          className="ml-auto"
+        >
+          {STATUS_LABELS[toolCall.status]}
+        </Badge>
+        {isExpanded ? (
+          <ChevronDown className="h-3 w-3 shrink-0" />
+        ) : (
+          <ChevronRight className="h-3 w-3 shrink-0" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-2">
+          <div>
+            <div className="text-stone-500 dark:text-stone-400 mb-1">Arguments</div>
+            <pre className="whitespace-pre-wrap break-all font-mono text-[11px] p-2 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded">
+              {formatArguments(toolCall.arguments)}
+            </pre>
+          </div>
+
+          {toolCall.result !== undefined && (
+            <div>
+              <div className="text-stone-500 dark:text-stone-400 mb-1">Result</div>
+              <pre className="whitespace-pre-wrap break-all font-mono text-[11px] p-2 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded max-h-60 overflow-auto">
+                {toolCall.result}
+              </pre>
+            </div>
+          )}
+
+          {toolCall.approval && (
+            <div className="text-stone-500 dark:text-stone-400">
+              {toolCall.approval.decision === 'approved' ? 'Approved' : 'Rejected'} by{' '}
+              {toolCall.approval.decidedBy.name || toolCall.approval.decidedBy.email} on{' '}
+              {new Date(toolCall.approval.decidedAt).toLocaleString()}
+              {toolCall.approval.reason && <> — {toolCall.approval.reason}</>}
+            </div>
+          )}
+
+          {isPending && onDecision && (
+            <div className="flex gap-2 pt-1">
+              <Button
+                size="sm"
+                onClick={() => handleDecision('approved')}
+                disabled={submitting !== null}
+              >
+                {submitting === 'approved' ? <Loader2 className="animate-spin" /> : <Check />}
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleDecision('rejected')}
+                disabled={submitting !== null}
+              >
+                {submitting === 'rejected' ? <Loader2 className="animate-spin" /> : <X />}
+                Reject
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
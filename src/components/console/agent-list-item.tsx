@@ -3,7 +3,7 @@
 import { useState } from 'react'
 import { useConsole } from '@/contexts/console-context'
 import { cn } from '@/lib/utils'
-import { MessageSquare, MoreVertical, ExternalLink, Trash2, Edit3, AlertTriangle } from 'lucide-react'
+import { MessageSquare, MoreVertical, ExternalLink, Trash2, Edit3, AlertTriangle, Link2 } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 import { DeleteConversationDialog } from './delete-conversation-dialog'
 import { RenameConversationDialog } from './rename-conversation-dialog'
@@ -25,6 +25,7 @@ interface Conversation {
   createdAt: string
   updatedAt: string
   messageCount?: number
+  isShared?: boolean
 }
 
 interface AgentListItemProps {
@@ -105,8 +106,13 @@ export function AgentListItem({ conversation, isOrphaned = false }: AgentListIte
 
           <div className="flex-1 min-w-0">
             <div className="flex items-center justify-between gap-2 mb-1">
-              <h3 className="text-sm font-light text-stone-900 dark:text-stone-300 truncate">
-                {displayTitle}
+              <h3 className="text-sm font-light text-stone-900 dark:text-stone-300 truncate flex items-center gap-1.5">
+                <span className="truncate">{displayTitle}</span>
+                {conversation.isShared && (
+                  <span title="Shared with your organization">
+                    <Link2 className="h-3 w-3 shrink-0 text-stone-500 dark:text-stone-400" />
+                  </span>
+                )}
               </h3>
               {/* Dropdown menu */}
               <DropdownMenu>
@@ -16,6 +16,7 @@ interface Conversation {
   createdAt: string
   updatedAt: string
   messageCount?: number
+  isShared?: boolean
 }
 
 interface AgentListProps {
@@ -0,0 +1,188 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatDistanceToNow, subDays } from 'date-fns'
+import { Loader2, SearchX } from 'lucide-react'
+import { toast } from 'sonner'
+import { useConsole } from '@/contexts/console-context'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { fetchWithOrganization } from '@/lib/api-client'
+import { ConversationSearchResult, splitSearchMatches } from '@/lib/conversation-search'
+import { cn } from '@/lib/utils'
+
+// Wait for typing to pause before querying
+const SEARCH_DEBOUNCE_MS = 300
+
+const DATE_RANGE_DAYS: Record<string, number | undefined> = {
+  any: undefined,
+  '1d': 1,
+  '7d': 7,
+  '30d': 30,
+}
+
+interface ConversationSearchResultsProps {
+  query: string
+  agentFilter: string
+}
+
+export function ConversationSearchResults({ query, agentFilter }: ConversationSearchResultsProps) {
+  const { conversationDbId, loadConversation, setHighlightedMessageId } = useConsole()
+  const [roleFilter, setRoleFilter] = useState('all')
+  const [dateRange, setDateRange] = useState('any')
+  const [results, setResults] = useState<ConversationSearchResult[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (trimmed.length < 2) {
+      setResults([])
+      return
+    }
+
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      setIsLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams({ q: trimmed })
+      if (agentFilter !== 'all') params.set('agentName', agentFilter)
+      if (roleFilter !== 'all') params.set('role', roleFilter)
+      const days = DATE_RANGE_DAYS[dateRange]
+      if (days) params.set('from', subDays(new Date(), days).toISOString())
+
+      try {
+        const response = await fetchWithOrganization(`/api/conversations/search?${params}`, {
+          signal: controller.signal,
+        })
+
+        if (!response.ok) {
+          throw new Error('Failed to search conversations')
+        }
+
+        const data = await response.json()
+        setResults(data.results || [])
+      } catch (err) {
+        if (controller.signal.aborted) return
+        setError(err instanceof Error ? err.message : 'Failed to search conversations')
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [query, agentFilter, roleFilter, dateRange])
+
+  const handleResultClick = async (result: ConversationSearchResult) => {
+    setHighlightedMessageId(result.messageId)
+    if (result.conversationId === conversationDbId) return
+
+    try {
+      await loadConversation(result.conversationId, result.agentName, result.clusterName)
+    } catch (err) {
+      setHighlightedMessageId(null)
+      toast.error(err instanceof Error ? err.message : 'Failed to load conversation')
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Search Filters */}
+      <div className="p-4 border-b border-stone-800/80 dark:border-stone-600/80 flex gap-2">
+        <Select value={roleFilter} onValueChange={setRoleFilter}>
+          <SelectTrigger className="flex-1 text-sm">
+            <SelectValue placeholder="Role" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All roles</SelectItem>
+            <SelectItem value="user">User</SelectItem>
+            <SelectItem value="assistant">Agent</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={dateRange} onValueChange={setDateRange}>
+          <SelectTrigger className="flex-1 text-sm">
+            <SelectValue placeholder="Date" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any time</SelectItem>
+            <SelectItem value="1d">Past day</SelectItem>
+            <SelectItem value="7d">Past 7 days</SelectItem>
+            <SelectItem value="30d">Past 30 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-y-auto">
+        {query.trim().length < 2 ? (
+          <p className="text-[11px] font-light text-stone-500 dark:text-stone-400 text-center py-12 px-4">
+            Type at least 2 characters to search
+          </p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-stone-400" />
+          </div>
+        ) : error ? (
+          <div className="p-4 text-center">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        ) : results.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 px-4">
+            <SearchX className="h-12 w-12 text-stone-400 dark:text-stone-500 mb-3" />
+            <p className="text-[11px] font-light text-stone-600 dark:text-stone-400 text-center">
+              No messages match &ldquo;{query.trim()}&rdquo;
+            </p>
+          </div>
+        ) : (
+          <div className="py-2">
+            {results.map((result) => (
+              <button
+                key={result.messageId}
+                type="button"
+                onClick={() => handleResultClick(result)}
+                className={cn(
+                  'w-full px-4 py-3 text-left transition-colors border-l-2 border-b border-b-stone-200 dark:border-b-stone-700',
+                  result.conversationId === conversationDbId
+                    ? 'bg-stone-100 border-stone-900 dark:bg-stone-800/70 dark:border-l-amber-400'
+                    : 'border-l-transparent hover:bg-stone-50 dark:hover:bg-stone-800/30'
+                )}
+              >
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <h3 className="text-sm font-light text-stone-900 dark:text-stone-300 truncate">
+                    {result.conversationTitle || result.agentName}
+                  </h3>
+                  <span className="text-[10px] tracking-wider uppercase text-stone-500 dark:text-stone-400 shrink-0">
+                    {result.role === 'assistant' ? 'Agent' : result.role}
+                  </span>
+                </div>
+
+                <p className="text-xs text-stone-600 dark:text-stone-400 line-clamp-3 break-words">
+                  {splitSearchMatches(result.snippet, query).map((part, index) =>
+                    part.match ? (
+                      <mark key={index} className="bg-amber-200 dark:bg-amber-500/30 text-inherit rounded-sm">
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{part.text}</span>
+                    )
+                  )}
+                </p>
+
+                <div className="flex items-center gap-2 text-[10px] text-stone-500 dark:text-stone-400 mt-1">
+                  <span className="tracking-wider uppercase">{result.agentName}</span>
+                  <span className="text-stone-400">•</span>
+                  <span>
+                    {formatDistanceToNow(new Date(result.timestamp), { addSuffix: true })}
+                  </span>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,14 +2,17 @@
 
 import { useState } from 'react'
 import { AgentList } from './agent-list'
-import { ChevronLeft } from 'lucide-react'
+import { ConversationSearchResults } from './conversation-search-results'
+import { ChevronLeft, Search, X } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { useConsole } from '@/contexts/console-context'
 import { useAgentFilter } from '@/hooks/use-agent-filter'
 
 export function ConversationSidebar() {
   const [selectedAgentFilter, setSelectedAgentFilter] = useState('all')
+  const [searchQuery, setSearchQuery] = useState('')
   const { conversationListRefreshTrigger, toggleConversationSidebar, selectedCluster } = useConsole()
 
   return (
@@ -30,13 +33,45 @@ export function ConversationSidebar() {
         </Button>
       </div>
 
+      {/* Message Search */}
+      <div className="px-4 pt-4">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-stone-400" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
+            placeholder="Search messages..."
+            className="pl-8 pr-8 text-sm"
+          />
+          {searchQuery && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSearchQuery('')}
+              className="absolute right-1 top-1/2 -translate-y-1/2 h-6 w-6 p-0 text-stone-500"
+              title="Clear search"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+
       {/* Conversation List */}
       <div className="flex-1 overflow-y-auto">
-        <AgentList 
-          selectedAgentFilter={selectedAgentFilter} 
-          onAgentFilterChange={setSelectedAgentFilter}
-          refreshTrigger={conversationListRefreshTrigger} 
-        />
+        {searchQuery ? (
+          <ConversationSearchResults
+            query={searchQuery}
+            agentFilter={selectedAgentFilter}
+          />
+        ) : (
+          <AgentList 
+            selectedAgentFilter={selectedAgentFilter} 
+            onAgentFilterChange={setSelectedAgentFilter}
+            refreshTrigger={conversationListRefreshTrigger} 
+          />
+        )}
       </div>
     </div>
   )
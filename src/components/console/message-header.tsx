@@ -3,12 +3,21 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { Plus, Trash2 } from 'lucide-react'
+import { Download, FileJson, FileText, Plus, Share2, Trash2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { useConsole } from '@/contexts/console-context'
 import { DeleteConversationDialog } from './delete-conversation-dialog'
+import { ShareConversationDialog } from './share-conversation-dialog'
 import { useToast } from '@/hooks/use-toast'
 import { useOrganization } from '@/components/organization-provider'
+import { fetchWithOrganization } from '@/lib/api-client'
+import { ConversationExportFormat } from '@/lib/conversation-export'
 
 export function MessageHeader() {
   const { 
@@ -23,6 +32,7 @@ export function MessageHeader() {
   const router = useRouter()
   const { toast } = useToast()
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [shareDialogOpen, setShareDialogOpen] = useState(false)
 
   if (!selectedAgent) return null
 
@@ -61,6 +71,40 @@ export function MessageHeader() {
     }
   }
 
+  const handleExportConversation = async (format: ConversationExportFormat) => {
+    if (!conversationDbId) return
+
+    try {
+      const response = await fetchWithOrganization(
+        `/api/conversations/${conversationDbId}/export?format=${format}`
+      )
+      if (!response.ok) {
+        throw new Error('Failed to export conversation')
+      }
+
+      // Use the server's file name from Content-Disposition
+      const disposition = response.headers.get('Content-Disposition')
+      const filename = disposition?.match(/filename="([^"]+)"/)?.[1] ||
+        `${selectedAgent}-conversation.${format === 'markdown' ? 'md' : 'json'}`
+
+      const blob = await response.blob()
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = filename
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      toast({
+        title: 'Failed to export conversation',
+        description: error instanceof Error ? error.message : 'An error occurred while exporting the conversation.',
+        variant: 'destructive',
+      })
+    }
+  }
+
   const currentConversation = conversationDbId ? {
     id: conversationDbId,
     agentName: selectedAgent,
@@ -88,16 +132,53 @@ export function MessageHeader() {
           {selectedAgent}
         </Link>
 
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={() => setDeleteDialogOpen(true)}
-          disabled={!conversationDbId}
-          className="h-8 w-8 p-0 text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-950"
-          title="Delete conversation"
-        >
-          <Trash2 className="h-4 w-4" />
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShareDialogOpen(true)}
+            disabled={!conversationDbId}
+            className="h-8 w-8 p-0"
+            title="Share conversation"
+          >
+            <Share2 className="h-4 w-4" />
+          </Button>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={!conversationDbId}
+                className="h-8 w-8 p-0"
+                title="Export conversation"
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-48">
+              <DropdownMenuItem onClick={() => handleExportConversation('markdown')}>
+                <FileText className="mr-2 h-4 w-4" />
+                Export as Markdown
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExportConversation('json')}>
+                <FileJson className="mr-2 h-4 w-4" />
+                Export as JSON
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setDeleteDialogOpen(true)}
+            disabled={!conversationDbId}
+            className="h-8 w-8 p-0 text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-950"
+            title="Delete conversation"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
       </div>
 
       <DeleteConversationDialog
@@ -106,6 +187,12 @@ export function MessageHeader() {
         onOpenChange={setDeleteDialogOpen}
         onConfirm={handleDeleteConversation}
       />
+
+      <ShareConversationDialog
+        conversationId={conversationDbId}
+        open={shareDialogOpen}
+        onOpenChange={setShareDialogOpen}
+      />
     </>
   )
 }
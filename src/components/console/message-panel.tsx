@@ -6,7 +6,10 @@ import { MessageStream } from './message-stream'
 import { WelcomeMessage } from './welcome-message'
 import { ChatMessageInput } from '@/components/agents/chat-message-input'
 import { useCallback } from 'react'
+import { ToolCallDecision } from '@/types/chat'
 import { fetchWithOrganization } from '@/lib/api-client'
+import { readChatStream } from '@/lib/chat-stream'
+import { parsePartialAgentMessage } from '@/lib/message-parser'
 
 export function MessagePanel() {
   const {
@@ -67,24 +70,7 @@ export function MessagePanel() {
           refreshConversationList()
         }
 
-        // Save user message to database
-        const saveUserResponse = await fetchWithOrganization(
-          `/api/conversations/${dbConversationId}/messages`,
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              role: 'user',
-              content,
-            }),
-          }
-        )
-
-        if (!saveUserResponse.ok) {
-          throw new Error('Failed to save message')
-        }
-
-        // Send message to agent
+        // Send message to agent - the route loads history from and saves both turns to the conversation
         const chatResponse = await fetchWithOrganization(
           `/api/clusters/${selectedCluster}/agents/${selectedAgent}/chat`,
           {
@@ -92,51 +78,69 @@ export function MessagePanel() {
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
               message: content,
-              conversation: conversation.messages.filter(msg => msg.role !== 'system')
+              conversationId: dbConversationId,
+              stream: true
             }),
           }
         )
 
         if (!chatResponse.ok) {
-          throw new Error('Failed to send message to agent')
+          const errorData = await chatResponse.json().catch(() => ({}))
+          throw new Error(errorData.message || errorData.error || 'Failed to send message to agent')
         }
 
-        const response = await chatResponse.json()
-
         // Update user message to delivered
         updateMessage(selectedAgent, userMessage.id, {
           status: 'delivered',
         })
 
-        // Add assistant response and save to database
-        if (response.message) {
-          const assistantMessage = {
-            id: (Date.now() + 1).toString(),
-            role: 'assistant' as const,
-            content: response.message.content,
-            timestamp: new Date().toISOString(),
-            agentName: response.agentName,
-            // Include parsed thinking content fields
-            thinkingContent: response.message.thinkingContent,
-            responseContent: response.message.responseContent,
-            hasThinking: response.message.hasThinking,
-          }
+        // Add a placeholder assistant message that fills in as tokens arrive
+        const assistantMessageId = (Date.now() + 1).toString()
+        let streamedContent = ''
+        addMessage(selectedAgent, {
+          id: assistantMessageId,
+          role: 'assistant',
+          content: '',
+          timestamp: new Date().toISOString(),
+          agentName: selectedAgent,
+          isStreaming: true,
+        })
+
+        let response
+        try {
+          response = await readChatStream(chatResponse, (event) => {
+            if (event.type !== 'delta') return
+            streamedContent += event.content
+            updateMessage(selectedAgent, assistantMessageId, {
+              content: streamedContent,
+              ...parsePartialAgentMessage(streamedContent),
+            })
+          })
+        } finally {
+          updateMessage(selectedAgent, assistantMessageId, { isStreaming: false })
+        }
 
-          addMessage(selectedAgent, assistantMessage)
-
-          // Save assistant message to database
-          await fetchWithOrganization(
-            `/api/conversations/${dbConversationId}/messages`,
-            {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                role: 'assistant',
-                content: response.message.content,
-              }),
-            }
-          )
+        // Adopt the stored message IDs so local state matches the database
+        if (response.userMessageId) {
+          updateMessage(selectedAgent, userMessage.id, { id: response.userMessageId })
         }
+
+        // Replace the streamed content with the final parsed response
+        updateMessage(selectedAgent, assistantMessageId, {
+          id: response.message.id,
+          content: response.message.content,
+          timestamp: response.message.timestamp,
+          agentName: response.agentName,
+          // Include parsed thinking content fields
+          thinkingContent: response.message.thinkingContent,
+          responseContent: response.message.responseContent,
+          hasThinking: response.message.hasThinking,
+          metadata: response.message.metadata,
+          toolCalls: response.message.toolCalls,
+        })
+
+        // Pick up the title generated from the first message
+        refreshConversationList()
       } catch (err) {
         const errorMessage =
           err instanceof Error ? err.message : 'Failed to send message'
@@ -164,6 +168,58 @@ export function MessagePanel() {
     ]
   )
 
+  const handleToolCallDecision = useCallback(
+    async (toolCallId: string, decision: ToolCallDecision) => {
+      if (!selectedAgent || !conversationDbId || !conversation) return
+
+      const toolMessage = conversation.messages.find(msg =>
+        msg.toolCalls?.some(call => call.id === toolCallId)
+      )
+      if (!toolMessage) return
+
+      setLoading(selectedAgent, true)
+      setError(selectedAgent, null)
+
+      try {
+        const decisionResponse = await fetchWithOrganization(
+          `/api/conversations/${conversationDbId}/tool-calls/${encodeURIComponent(toolCallId)}`,
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ decision }),
+          }
+        )
+
+        const data = await decisionResponse.json()
+
+        // The decision may be recorded even if the agent could not be reached afterwards
+        if (data.toolCall) {
+          updateMessage(selectedAgent, toolMessage.id, {
+            toolCalls: toolMessage.toolCalls!.map(call =>
+              call.id === toolCallId ? data.toolCall : call
+            ),
+          })
+        }
+
+        if (!decisionResponse.ok) {
+          throw new Error(data.message || data.error || 'Failed to submit tool call decision')
+        }
+
+        if (data.message) {
+          addMessage(selectedAgent, data.message)
+        }
+      } catch (err) {
+        setError(
+          selectedAgent,
+          err instanceof Error ? err.message : 'Failed to submit tool call decision'
+        )
+      } finally {
+        setLoading(selectedAgent, false)
+      }
+    },
+    [selectedAgent, conversationDbId, conversation, addMessage, updateMessage, setLoading, setError]
+  )
+
   if (!selectedAgent || !selectedCluster) {
     return <WelcomeMessage />
   }
@@ -173,7 +229,7 @@ export function MessagePanel() {
       <MessageHeader />
 
       <div className="flex-1 overflow-hidden">
-        <MessageStream />
+        <MessageStream onToolCallDecision={handleToolCallDecision} />
       </div>
 
       <div className="border-t border-stone-800/80 dark:border-stone-600/80">
@@ -4,29 +4,68 @@ import { useConsole } from '@/contexts/console-context'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { ChatBubble, TypingIndicator } from '@/components/agents/agent-chat-bubble'
 import { useEffect, useRef } from 'react'
+import { ToolCallDecision } from '@/types/chat'
+import { cn } from '@/lib/utils'
 
-export function MessageStream() {
-  const { getActiveConversation } = useConsole()
+// How long a jumped-to message stays highlighted
+const HIGHLIGHT_DURATION_MS = 4000
+
+interface MessageStreamProps {
+  onToolCallDecision?: (toolCallId: string, decision: ToolCallDecision) => Promise<void>
+}
+
+export function MessageStream({ onToolCallDecision }: MessageStreamProps) {
+  const { getActiveConversation, highlightedMessageId, setHighlightedMessageId } = useConsole()
   const conversation = getActiveConversation()
   const scrollRef = useRef<HTMLDivElement>(null)
+  const lastMessage = conversation?.messages[conversation.messages.length - 1]
+  const hasHighlightedMessage = !!highlightedMessageId &&
+    !!conversation?.messages.some((message) => message.id === highlightedMessageId)
 
-  // Auto-scroll to bottom when new messages arrive
+  // Auto-scroll to bottom when new messages or streamed tokens arrive
   useEffect(() => {
-    if (scrollRef.current) {
+    if (scrollRef.current && !highlightedMessageId) {
       scrollRef.current.scrollIntoView({ behavior: 'smooth' })
     }
-  }, [conversation?.messages.length])
+  }, [conversation?.messages.length, lastMessage?.content.length, highlightedMessageId])
+
+  // Jump to a highlighted message (e.g. a search result) once the conversation has loaded it
+  useEffect(() => {
+    if (!highlightedMessageId || !hasHighlightedMessage) return
+
+    document
+      .getElementById(`message-${highlightedMessageId}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+
+    const timeout = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION_MS)
+    return () => clearTimeout(timeout)
+  }, [highlightedMessageId, hasHighlightedMessage, setHighlightedMessageId])
 
   if (!conversation) return null
 
+  // The streaming message renders its own progress, so only show the indicator before it appears
+  const isStreaming = lastMessage?.role === 'assistant' && lastMessage.isStreaming
+
   return (
     <ScrollArea className="h-full">
       <div className="p-6 space-y-4">
         {conversation.messages.map((message) => (
-          <ChatBubble key={message.id} message={message} />
+          <div
+            key={message.id}
+            id={`message-${message.id}`}
+            className={cn(
+              'rounded-lg transition-shadow duration-500',
+              message.id === highlightedMessageId && 'ring-2 ring-amber-400 ring-offset-4 dark:ring-offset-stone-950'
+            )}
+          >
+            <ChatBubble
+              message={message}
+              onToolCallDecision={onToolCallDecision}
+            />
+          </div>
         ))}
 
-        {conversation.isLoading && <TypingIndicator />}
+        {conversation.isLoading && !isStreaming && <TypingIndicator />}
 
         {conversation.error && (
           <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-600 dark:text-red-400">
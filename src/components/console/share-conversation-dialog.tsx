@@ -0,0 +1,180 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Check, Copy, Link2, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useOrganization } from '@/components/organization-provider'
+import { fetchWithOrganization } from '@/lib/api-client'
+import { SHARE_EXPIRY_OPTIONS } from '@/lib/conversation-sharing'
+
+interface ShareState {
+  isShared: boolean
+  shareToken: string | null
+  sharedAt: string | null
+  expiresAt: string | null
+}
+
+interface ShareConversationDialogProps {
+  conversationId: string | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function ShareConversationDialog({
+  conversationId,
+  open,
+  onOpenChange,
+}: ShareConversationDialogProps) {
+  const { getOrgUrl } = useOrganization()
+  const [share, setShare] = useState<ShareState | null>(null)
+  const [expiry, setExpiry] = useState('never')
+  const [isLoading, setIsLoading] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    if (!open || !conversationId) return
+
+    const fetchShare = async () => {
+      setIsLoading(true)
+      try {
+        const response = await fetchWithOrganization(`/api/conversations/${conversationId}/share`)
+        if (!response.ok) {
+          throw new Error('Failed to load share settings')
+        }
+        const data = await response.json()
+        setShare(data.share)
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to load share settings')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    setCopied(false)
+    fetchShare()
+  }, [open, conversationId])
+
+  const updateShare = async (method: 'POST' | 'DELETE') => {
+    if (!conversationId) return
+
+    setIsLoading(true)
+    try {
+      const days = SHARE_EXPIRY_OPTIONS.find((option) => String(option.days ?? 'never') === expiry)?.days ?? null
+      const response = await fetchWithOrganization(`/api/conversations/${conversationId}/share`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        ...(method === 'POST' && { body: JSON.stringify({ expiresInDays: days }) }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to update share link')
+      }
+
+      const data = await response.json()
+      setShare(data.share)
+      toast.success(method === 'POST' ? 'Share link is active' : 'Share link revoked')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update share link')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const shareUrl = share?.isShared && share.shareToken
+    ? `${window.location.origin}${getOrgUrl(`/conversations/shared/${share.shareToken}`)}`
+    : null
+
+  const handleCopy = async () => {
+    if (!shareUrl) return
+    await navigator.clipboard.writeText(shareUrl)
+    setCopied(true)
+    toast.success('Link copied to clipboard')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share Conversation</DialogTitle>
+          <DialogDescription>
+            Conversations are private by default. A shared link gives members of this organization a read-only view of the transcript.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4">
+          {shareUrl && (
+            <div>
+              <Label htmlFor="share-url" className="text-sm font-medium">
+                Read-only link
+              </Label>
+              <div className="flex gap-2 mt-2">
+                <Input id="share-url" value={shareUrl} readOnly className="font-mono text-xs" />
+                <Button type="button" variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                {share?.expiresAt
+                  ? `Expires ${new Date(share.expiresAt).toLocaleString()}`
+                  : 'This link does not expire.'}
+              </p>
+            </div>
+          )}
+
+          <div>
+            <Label className="text-sm font-medium">Link expires after</Label>
+            <Select value={expiry} onValueChange={setExpiry} disabled={isLoading}>
+              <SelectTrigger className="w-full mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.label} value={String(option.days ?? 'never')}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          {shareUrl && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => updateShare('DELETE')}
+              disabled={isLoading}
+              className="text-red-500 hover:text-red-600"
+            >
+              Revoke link
+            </Button>
+          )}
+          <Button
+            type="button"
+            onClick={() => updateShare('POST')}
+            disabled={isLoading || !conversationId}
+          >
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+            {shareUrl ? 'Update expiry' : 'Create link'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
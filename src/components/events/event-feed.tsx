@@ -0,0 +1,172 @@
+'use client'
+
+import { useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { AlertCircle, AlertTriangle, CheckCircle, ChevronLeft, ChevronRight, Clock } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useClusters } from '@/hooks/use-clusters'
+import { useEventFeed } from '@/hooks/use-event-feed'
+import type { LanguageCluster } from '@/types/cluster'
+import type { EventFeedEntry } from '@/types/events'
+
+const PAGE_SIZE = 25
+const ALL_CLUSTERS = '__all__'
+
+function EventRow({ entry }: { entry: EventFeedEntry }) {
+  const isWarning = entry.eventType === 'Warning'
+
+  return (
+    <div className="flex items-start gap-3 py-3">
+      {isWarning ? (
+        <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0 text-red-500" />
+      ) : (
+        <CheckCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-stone-600 dark:text-stone-400" />
+      )}
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-stone-900 dark:text-stone-300 leading-tight break-words">
+          {entry.message}
+        </p>
+        <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-stone-600 dark:text-stone-400">
+          <span>{formatDistanceToNow(new Date(entry.timestamp), { addSuffix: true })}</span>
+          <span>•</span>
+          <span className="font-mono">{entry.involvedObject.kind}/{entry.involvedObject.name}</span>
+          {entry.reason && (
+            <>
+              <span>•</span>
+              <span>{entry.reason}</span>
+            </>
+          )}
+          {entry.count && entry.count > 1 && (
+            <>
+              <span>•</span>
+              <span>
+                {entry.count}x
+                {entry.firstTimestamp && ` since ${formatDistanceToNow(new Date(entry.firstTimestamp), { addSuffix: true })}`}
+              </span>
+            </>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-shrink-0 items-center gap-2">
+        {entry.groupSize > 1 && (
+          <Badge variant="outline" className="text-xs">{entry.groupSize} events</Badge>
+        )}
+        {isWarning && <Badge variant="destructive" className="text-xs">Warning</Badge>}
+      </div>
+    </div>
+  )
+}
+
+export function EventFeed() {
+  const [clusterName, setClusterName] = useState<string>(ALL_CLUSTERS)
+  const [warningsOnly, setWarningsOnly] = useState(false)
+  const [group, setGroup] = useState(true)
+  const [page, setPage] = useState(1)
+
+  const { data: clustersResponse } = useClusters({ limit: 100 })
+  const clusters: LanguageCluster[] = clustersResponse?.data || []
+
+  const { data, isLoading, error, refetch } = useEventFeed({
+    clusterName: clusterName === ALL_CLUSTERS ? undefined : clusterName,
+    warningsOnly,
+    group,
+    page,
+    limit: PAGE_SIZE,
+  })
+
+  const entries = data?.entries || []
+  const total = data?.total || 0
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  // Filters change what's on each page, so start again from the first
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value)
+    setPage(1)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle>Events</CardTitle>
+            <CardDescription>
+              Kubernetes events of your agents, models, tools and their pods. Events expire after about an hour.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <Select value={clusterName} onValueChange={updateFilter(setClusterName)}>
+              <SelectTrigger className="w-[180px]" aria-label="Cluster">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CLUSTERS}>All clusters</SelectItem>
+                {clusters.map((cluster) => (
+                  <SelectItem key={cluster.metadata.name} value={cluster.metadata.name!}>
+                    {cluster.metadata.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <label htmlFor="warnings-only" className="text-sm font-medium">Warnings only</label>
+              <Switch id="warnings-only" checked={warningsOnly} onCheckedChange={updateFilter(setWarningsOnly)} />
+            </div>
+            <div className="flex items-center gap-2">
+              <label htmlFor="group-events" className="text-sm font-medium">Group repeated</label>
+              <Switch id="group-events" checked={group} onCheckedChange={updateFilter(setGroup)} />
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-500 mr-2"></div>
+            Loading events...
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <AlertCircle className="h-8 w-8 text-red-500 mx-auto mb-2" />
+            <p className="text-sm text-red-600">{error instanceof Error ? error.message : 'Failed to load events'}</p>
+            <button onClick={() => refetch()} className="text-xs text-blue-600 hover:text-blue-800 mt-1">
+              Try again
+            </button>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12">
+            <Clock className="h-8 w-8 text-stone-500 dark:text-stone-400 mx-auto mb-2" />
+            <p className="text-sm text-stone-600 dark:text-stone-400">
+              {warningsOnly ? 'No recent warnings' : 'No recent events'}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="divide-y divide-stone-200 dark:divide-stone-700">
+              {entries.map((entry) => <EventRow key={entry.id} entry={entry} />)}
+            </div>
+            <div className="flex items-center justify-between pt-4 border-t border-stone-200 dark:border-stone-700">
+              <p className="text-xs text-muted-foreground">
+                {total.toLocaleString()} {group ? 'entries' : 'events'} • Page {page} of {pageCount}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
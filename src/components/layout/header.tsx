@@ -14,6 +14,7 @@ import { LogOut, Settings, Building2, Copy } from 'lucide-react'
 import { OrganizationSwitcher } from '@/components/organization/organization-switcher'
 import { ThemeToggle } from '@/components/theme-toggle'
 import { ConnectionStatus } from '@/components/ui/connection-status'
+import { useBudgetNotifications } from '@/components/ui/resource-notifications'
 import { useWatchClusters } from '@/hooks/use-watch'
 import { useActiveOrganization } from '@/hooks/use-organizations'
 import { toast } from 'sonner'
@@ -33,6 +34,9 @@ export function Header() {
     }
   })
 
+  // Spend budget threshold alerts, on every page
+  useBudgetNotifications()
+
   const getInitials = (name: string | null | undefined) => {
     if (!name) return '?'
     return name
@@ -21,11 +21,15 @@ import {
   ChevronLeft,
   Gauge,
   Server,
+  DollarSign,
+  Activity,
 } from 'lucide-react'
 
 const globalNavigation = [
   { name: 'Overview', href: '/', icon: Home },
   { name: 'Capacity', href: '/capacity', icon: Server },
+  { name: 'Cost', href: '/cost', icon: DollarSign },
+  { name: 'Events', href: '/events', icon: Activity },
   { name: 'Clusters', href: '/clusters', icon: Boxes },
 ]
 
@@ -0,0 +1,295 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { useTheme } from 'next-themes'
+import { Activity, AlertTriangle, BarChart3, Clock, Zap } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AdvancedDateRangePicker } from '@/components/ui/advanced-date-range-picker'
+import { Sparkline } from '@/components/ui/sparkline'
+import { useOrganization } from '@/components/organization-provider'
+import { useModelAnalytics } from '@/hooks/use-models'
+import type { LanguageModel } from '@/types/model'
+
+interface ModelAnalyticsProps {
+  model: LanguageModel
+  clusterName: string
+}
+
+function formatLatency(ms: number | undefined): string {
+  if (ms === undefined) return '—'
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${Math.round(ms)}ms`
+}
+
+function formatInterval(timestamp: string, granularity: string): string {
+  const date = new Date(timestamp)
+  return granularity === 'hour'
+    ? date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric' })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+function MetricCard({ title, value, description, icon: Icon, trend }: {
+  title: string
+  value: string
+  description: string
+  icon: React.ComponentType<{ className?: string }>
+  trend: number[]
+}) {
+  return (
+    <Card className="relative overflow-hidden">
+      <div className="absolute inset-0 opacity-25">
+        <Sparkline data={trend} color="#3b82f6" className="w-full h-full" />
+      </div>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2 relative z-10">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent className="relative z-10">
+        <div className="text-2xl font-bold">{value}</div>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </CardContent>
+    </Card>
+  )
+}
+
+export function ModelAnalytics({ model, clusterName }: ModelAnalyticsProps) {
+  const { getOrgUrl } = useOrganization()
+  const { theme } = useTheme()
+  const [dateRange, setDateRange] = useState<{ from: Date; to: Date }>(() => ({
+    from: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+    to: new Date(),
+  }))
+
+  const { data: analytics, isLoading, error } = useModelAnalytics(model.metadata.name!, clusterName, dateRange)
+
+  const granularity = analytics?.period.granularity || 'hour'
+  const axisColor = theme === 'dark' ? '#9ca3af' : '#6b7280'
+  const chartData = useMemo(
+    () => (analytics?.timeSeries || []).map(point => ({ ...point, displayDate: formatInterval(point.timestamp, granularity) })),
+    [analytics, granularity]
+  )
+
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {[...Array(4)].map((_, i) => (
+          <Card key={i}>
+            <CardContent className="p-6">
+              <div className="space-y-2">
+                <div className="h-4 bg-muted animate-pulse rounded" />
+                <div className="h-8 bg-muted animate-pulse rounded" />
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    )
+  }
+
+  if (error || !analytics) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="text-center space-y-2">
+            <AlertTriangle className="h-8 w-8 text-destructive mx-auto" />
+            <h3 className="font-medium">Failed to load model analytics</h3>
+            <p className="text-sm text-muted-foreground">
+              {error instanceof Error ? error.message : 'Unknown error occurred'}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { totals, timeSeries, errorTypes, agents, modelNames } = analytics
+  const totalTokens = totals.inputTokens + totals.outputTokens
+
+  return (
+    <div className="space-y-6">
+      {/* Date Range Picker */}
+      <Card>
+        <CardContent>
+          <AdvancedDateRangePicker date={dateRange} onDateChange={setDateRange} />
+        </CardContent>
+      </Card>
+
+      {/* Key Metrics Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <MetricCard
+          title="Requests"
+          value={totals.requests.toLocaleString()}
+          description="Selected period"
+          icon={Activity}
+          trend={timeSeries.map(point => point.requests)}
+        />
+        <MetricCard
+          title="Tokens / Minute"
+          value={Math.round(totals.tokensPerMinute).toLocaleString()}
+          description={`${totalTokens.toLocaleString()} tokens in total`}
+          icon={Zap}
+          trend={timeSeries.map(point => point.inputTokens + point.outputTokens)}
+        />
+        <MetricCard
+          title="P95 Latency"
+          value={formatLatency(totals.latency?.p95Ms)}
+          description={`p50 ${formatLatency(totals.latency?.p50Ms)} · p99 ${formatLatency(totals.latency?.p99Ms)}`}
+          icon={Clock}
+          trend={timeSeries.map(point => point.p95LatencyMs)}
+        />
+        <MetricCard
+          title="Error Rate"
+          value={`${totals.errorRate.toFixed(1)}%`}
+          description={`${totals.errors.toLocaleString()} failed requests`}
+          icon={AlertTriangle}
+          trend={timeSeries.map(point => point.errors)}
+        />
+      </div>
+
+      {/* Latency Percentiles Chart */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Latency
+          </CardTitle>
+          <CardDescription>
+            Request latency percentiles for {modelNames.join(', ')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-72 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? '#374151' : '#e5e7eb'} />
+                <XAxis dataKey="displayDate" stroke={axisColor} fontSize={12} tick={{ fill: axisColor }} />
+                <YAxis stroke={axisColor} fontSize={12} tick={{ fill: axisColor }} tickFormatter={value => formatLatency(value)} />
+                <Tooltip formatter={(value) => formatLatency(Number(value))} />
+                <Legend />
+                <Line type="monotone" dataKey="p50LatencyMs" name="p50" stroke="#22c55e" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="p95LatencyMs" name="p95" stroke="#f59e0b" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="p99LatencyMs" name="p99" stroke="#ef4444" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Token Throughput Chart */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Token Throughput
+          </CardTitle>
+          <CardDescription>
+            Input and output tokens per {granularity}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-72 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? '#374151' : '#e5e7eb'} />
+                <XAxis dataKey="displayDate" stroke={axisColor} fontSize={12} tick={{ fill: axisColor }} />
+                <YAxis stroke={axisColor} fontSize={12} tick={{ fill: axisColor }} />
+                <Tooltip formatter={(value) => Number(value).toLocaleString()} />
+                <Legend />
+                <Bar dataKey="inputTokens" name="Input" stackId="tokens" fill="#3b82f6" />
+                <Bar dataKey="outputTokens" name="Output" stackId="tokens" fill="#8b5cf6" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Heaviest Consumers */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Top Agents</CardTitle>
+            <CardDescription>Agents using this model, by tokens consumed</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {agents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No requests in this period</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Agent</TableHead>
+                    <TableHead className="text-right">Requests</TableHead>
+                    <TableHead className="text-right">Tokens</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                    <TableHead className="text-right">Avg Latency</TableHead>
+                    <TableHead className="text-right">Errors</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {agents.map(agent => {
+                    const tokens = agent.inputTokens + agent.outputTokens
+                    return (
+                      <TableRow key={agent.agentName || '(none)'}>
+                        <TableCell>
+                          {agent.agentName ? (
+                            <Link
+                              href={getOrgUrl(`/clusters/${clusterName}/agents/${agent.agentName}`)}
+                              className="hover:underline"
+                            >
+                              {agent.agentName}
+                            </Link>
+                          ) : (
+                            <span className="text-muted-foreground">No agent</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{agent.requests.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{tokens.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">
+                          {totalTokens > 0 ? `${(tokens / totalTokens * 100).toFixed(1)}%` : '—'}
+                        </TableCell>
+                        <TableCell className="text-right">{formatLatency(agent.avgDurationMs)}</TableCell>
+                        <TableCell className="text-right">{agent.errorCount.toLocaleString()}</TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Errors by Type */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Errors by Type</CardTitle>
+            <CardDescription>Failed requests grouped by error type</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {errorTypes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No failed requests in this period</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Error Type</TableHead>
+                    <TableHead className="text-right">Count</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {errorTypes.map(errorType => (
+                    <TableRow key={errorType.errorType}>
+                      <TableCell className="font-mono text-xs">{errorType.errorType}</TableCell>
+                      <TableCell className="text-right">{errorType.count.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
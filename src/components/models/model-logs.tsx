@@ -91,25 +91,6 @@ export function ModelLogs({ model, clusterName }: ModelLogsProps) {
 
   return (
     <div className="space-y-6">
-      {/* Pod Selection */}
-      <PodSelector
-        pods={pods.map(pod => ({
-          ...pod,
-          isRunning: pod.status === 'Running'
-        }))}
-        selectedPod={selectedPod}
-        selectedContainer={null}
-        podType="model"
-        onPodChange={(value) => {
-          setSelectedPod(value)
-          logs.clearLogs()
-        }}
-        onContainerChange={() => {}} // Model logs don't use container selection
-        onRefresh={fetchPods}
-        loading={podsLoading}
-        layout="horizontal"
-      />
-
       {/* Log Viewer */}
       <PodLogViewer
         logs={logs}
@@ -119,6 +100,26 @@ export function ModelLogs({ model, clusterName }: ModelLogsProps) {
         onStartStreaming={startStreaming}
         onStopStreaming={stopStreaming}
         streamingDisabled={!selectedPod}
+        archiveUrl={`/api/clusters/${clusterName}/models/${model.metadata.name}/logs/search`}
+        podSelector={
+          <PodSelector
+            pods={pods.map(pod => ({
+              ...pod,
+              isRunning: pod.status === 'Running'
+            }))}
+            selectedPod={selectedPod}
+            selectedContainer={null}
+            podType="model"
+            onPodChange={(value) => {
+              setSelectedPod(value)
+              logs.clearLogs()
+            }}
+            onContainerChange={() => {}} // Model logs don't use container selection
+            onRefresh={fetchPods}
+            loading={podsLoading}
+            layout="horizontal"
+          />
+        }
       />
     </div>
   )
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { fetchWithOrganization } from '@/lib/api-client'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -8,7 +8,7 @@ import { Box } from 'lucide-react'
 import { LanguageTool } from '@/types/tool'
 import { useLogViewer } from '@/hooks/useLogViewer'
 import { PodLogViewer } from '@/components/ui/pod-log-viewer'
-import { PodSelector, type PodInfo } from '@/components/ui/pod-selector'
+import { PodSelector, ALL_PODS, type PodInfo } from '@/components/ui/pod-selector'
 
 interface ToolLogsProps {
   tool: LanguageTool
@@ -26,17 +26,8 @@ interface PodsResponse {
 export function ToolLogs({ tool, clusterName }: ToolLogsProps) {
   const logs = useLogViewer()
   const [pods, setPods] = useState<PodInfo[]>([])
-  
-  // Placeholder streaming functions for UI consistency
-  const startStreaming = () => {
-    // TODO: Implement streaming for tool logs
-    console.log('Tool streaming not yet implemented')
-  }
-  
-  const stopStreaming = () => {
-    // TODO: Implement streaming for tool logs
-    console.log('Tool streaming not yet implemented') 
-  }
+  const [isStreaming, setIsStreaming] = useState(false)
+  const eventSourceRef = useRef<EventSource | null>(null)
   const [selectedPod, setSelectedPod] = useState<string | null>(null)
   const [deploymentMode, setDeploymentMode] = useState<string>('service')
   const [podType, setPodType] = useState<string>('tool')
@@ -75,7 +66,9 @@ export function ToolLogs({ tool, clusterName }: ToolLogsProps) {
       logs.setLoading(true)
       logs.setError(null)
 
-      const url = `/api/clusters/${clusterName}/tools/${tool.metadata.name}/logs?podName=${selectedPod}`
+      const url = selectedPod === ALL_PODS
+        ? `/api/clusters/${clusterName}/tools/${tool.metadata.name}/logs?allPods=true`
+        : `/api/clusters/${clusterName}/tools/${tool.metadata.name}/logs?podName=${selectedPod}`
 
       const response = await fetchWithOrganization(url)
       if (!response.ok) {
@@ -83,8 +76,13 @@ export function ToolLogs({ tool, clusterName }: ToolLogsProps) {
       }
 
       const data = await response.json()
-      const logLines = data.logs ? data.logs.split('\n').filter((line: string) => line.trim()) : []
-      logs.setLogs(logLines)
+      if (data.lines) {
+        // Merged output of every pod, tagged with the pod
+        logs.setLogs(data.lines)
+      } else {
+        const logLines = data.logs ? data.logs.split('\n').filter((line: string) => line.trim()) : []
+        logs.setLogs(logLines)
+      }
     } catch (err) {
       console.error('Error fetching tool logs:', err)
       logs.setError(err instanceof Error ? err.message : 'Failed to load logs')
@@ -93,10 +91,51 @@ export function ToolLogs({ tool, clusterName }: ToolLogsProps) {
     }
   }, [tool.metadata.name, clusterName, selectedPod])
 
+  const stopStreaming = useCallback(() => {
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close()
+      eventSourceRef.current = null
+    }
+    setIsStreaming(false)
+  }, [])
+
+  const startStreaming = () => {
+    if (!selectedPod) return
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close()
+    }
+
+    setIsStreaming(true)
+    logs.setError(null)
+
+    const url = selectedPod === ALL_PODS
+      ? `/api/clusters/${clusterName}/tools/${tool.metadata.name}/logs/stream?allPods=true`
+      : `/api/clusters/${clusterName}/tools/${tool.metadata.name}/logs/stream?podName=${selectedPod}`
+
+    const eventSource = new EventSource(url)
+    eventSourceRef.current = eventSource
+
+    // Each event is a JSON line tagged with its pod
+    eventSource.onmessage = (event) => {
+      if (event.data && event.data.trim()) {
+        logs.setLogs(prev => [...prev, JSON.parse(event.data)])
+      }
+    }
+
+    eventSource.onerror = (error) => {
+      console.error('EventSource error:', error)
+      logs.setError('Connection lost. Click "Start Streaming" to reconnect.')
+      stopStreaming()
+    }
+  }
+
   useEffect(() => {
     fetchPods()
   }, [fetchPods])
 
+  // Close the stream on unmount
+  useEffect(() => stopStreaming, [stopStreaming])
+
   useEffect(() => {
     if (selectedPod) {
       fetchLogs()
@@ -170,31 +209,38 @@ export function ToolLogs({ tool, clusterName }: ToolLogsProps) {
 
   return (
     <div className="space-y-6">
-      {/* Pod Selection */}
-      <PodSelector
-        pods={pods}
-        selectedPod={selectedPod}
-        selectedContainer={null}
-        deploymentMode={deploymentMode}
-        podType={podType}
-        onPodChange={setSelectedPod}
-        onContainerChange={() => {}} // No container selection needed for tool logs
-        onRefresh={fetchPods}
-        loading={podsLoading}
-        showModeIndicator={true}
-        layout="horizontal"
-        hideContainerSelection={true}
-      />
-
       {/* Log Viewer */}
       <PodLogViewer
         logs={logs}
         onRefresh={selectedPod ? fetchLogs : undefined}
         refreshDisabled={!selectedPod}
-        isStreaming={false}
+        isStreaming={isStreaming}
         onStartStreaming={startStreaming}
         onStopStreaming={stopStreaming}
         streamingDisabled={!selectedPod}
+        archiveUrl={`/api/clusters/${clusterName}/tools/${tool.metadata.name}/logs/search`}
+        downloadName={tool.metadata.name}
+        podSelector={
+          <PodSelector
+            pods={pods}
+            selectedPod={selectedPod}
+            selectedContainer={null}
+            deploymentMode={deploymentMode}
+            podType={podType}
+            allowAllPods
+            onPodChange={(value) => {
+              setSelectedPod(value)
+              // Stop streaming when switching pods
+              stopStreaming()
+            }}
+            onContainerChange={() => {}} // No container selection needed for tool logs
+            onRefresh={fetchPods}
+            loading={podsLoading}
+            showModeIndicator={true}
+            layout="horizontal"
+            hideContainerSelection={true}
+          />
+        }
       />
     </div>
   )
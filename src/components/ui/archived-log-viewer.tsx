@@ -0,0 +1,210 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { AlertCircle, Search, Waypoints } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AdvancedDateRangePicker } from '@/components/ui/advanced-date-range-picker'
+import { useArchivedLogs } from '@/hooks/use-archived-logs'
+import { extractTraceContext } from '@/lib/structured-logs'
+import { LOG_LEVELS, type LogLevel, type LogTraceContext } from '@/types/logs'
+import { convertAnsiToHtml } from '../agents/utils'
+
+export interface ArchivedLogViewerFilters {
+  from: Date
+  to: Date
+  podName?: string
+}
+
+interface ArchivedLogViewerProps {
+  // The resource's `logs/search` route
+  searchUrl: string
+  // Page of a trace, for linking lines that carry a trace id
+  traceUrl?: (traceId: string) => string
+  // Filters to open with instead of all pods over the last day
+  initialFilters?: ArchivedLogViewerFilters
+}
+
+export const LOG_LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: 'text-gray-500',
+  info: 'text-blue-400',
+  warn: 'text-yellow-400',
+  error: 'text-red-400',
+}
+
+const levelOptions = [
+  { value: 'all', label: 'All levels' },
+  { value: 'info', label: 'Info and above' },
+  { value: 'warn', label: 'Warnings and errors' },
+  { value: 'error', label: 'Errors only' },
+]
+
+/**
+ * Link from a log line to the trace it was logged in
+ */
+export function TraceLink({ trace, traceUrl }: { trace: LogTraceContext; traceUrl: (traceId: string) => string }) {
+  return (
+    <Link
+      href={traceUrl(trace.traceId)}
+      className="ml-2 inline-flex items-center gap-1 text-xs text-purple-400 hover:underline"
+      title={trace.spanId ? `Trace ${trace.traceId}, span ${trace.spanId}` : `Trace ${trace.traceId}`}
+    >
+      <Waypoints className="h-3 w-3" />
+      {trace.traceId.substring(0, 8)}
+    </Link>
+  )
+}
+
+export function ArchivedLogViewer({ searchUrl, traceUrl, initialFilters }: ArchivedLogViewerProps) {
+  const [dateRange, setDateRange] = useState<{ from: Date; to: Date }>(() => initialFilters ? {
+    from: initialFilters.from,
+    to: initialFilters.to,
+  } : {
+    from: new Date(Date.now() - 24 * 60 * 60 * 1000),
+    to: new Date(),
+  })
+  const [minLevel, setMinLevel] = useState<LogLevel | 'all'>('all')
+  const [textInput, setTextInput] = useState('')
+  const [text, setText] = useState('')
+  const [podName, setPodName] = useState<string | undefined>(initialFilters?.podName)
+
+  const { data, isLoading, error } = useArchivedLogs(searchUrl, {
+    ...dateRange,
+    levels: minLevel === 'all' ? undefined : LOG_LEVELS.slice(LOG_LEVELS.indexOf(minLevel)),
+    text: text || undefined,
+    podName,
+  })
+
+  const runs = data?.runs || []
+  const entries = data?.entries || []
+
+  return (
+    <div className="space-y-6">
+      {/* Search Controls */}
+      <Card className="flex-shrink-0">
+        <CardContent className="px-4 space-y-4">
+          <AdvancedDateRangePicker date={dateRange} onDateChange={setDateRange} />
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(event) => {
+              event.preventDefault()
+              setText(textInput.trim())
+            }}
+          >
+            <Input
+              value={textInput}
+              onChange={(event) => setTextInput(event.target.value)}
+              placeholder="Search log messages"
+              aria-label="Search log messages"
+              className="max-w-sm"
+            />
+            <Button type="submit" variant="outline" size="sm">
+              <Search className="h-4 w-4 mr-1" />
+              Search
+            </Button>
+            <Select value={minLevel} onValueChange={(value) => setMinLevel(value as LogLevel | 'all')}>
+              <SelectTrigger className="w-[180px]" aria-label="Log level">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {levelOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Error Display */}
+      {error && (
+        <Card className="flex-shrink-0">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 text-red-600">
+              <AlertCircle className="h-4 w-4" />
+              <span className="text-sm">{error instanceof Error ? error.message : 'Failed to search logs'}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Past Runs */}
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="text-sm">Past runs</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 px-2">
+            <Button
+              variant={podName ? 'ghost' : 'secondary'}
+              size="sm"
+              className="w-full justify-start"
+              onClick={() => setPodName(undefined)}
+            >
+              All pods
+            </Button>
+            {runs.length === 0 && !isLoading && (
+              <p className="text-sm text-muted-foreground px-2">No archived pods in this period</p>
+            )}
+            {runs.map((run) => (
+              <Button
+                key={run.podName}
+                variant={podName === run.podName ? 'secondary' : 'ghost'}
+                size="sm"
+                className="w-full h-auto justify-start py-2"
+                onClick={() => setPodName(run.podName)}
+              >
+                <div className="text-left min-w-0">
+                  <div className="font-mono text-xs truncate">{run.executionId || run.podName}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {format(new Date(run.firstTimestamp), 'MMM d, HH:mm')} · {run.lineCount.toLocaleString()} lines
+                  </div>
+                </div>
+              </Button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Log Output */}
+        <Card className="lg:col-span-3">
+          <CardContent className="p-0">
+            <div className="bg-black text-white font-mono text-sm max-h-[60vh] overflow-y-auto p-4">
+              {isLoading ? (
+                <div className="flex items-center justify-center h-32 text-gray-500">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-500 mr-2"></div>
+                  Searching logs...
+                </div>
+              ) : entries.length === 0 ? (
+                <div className="flex items-center justify-center h-32 text-gray-500">
+                  No archived logs match
+                </div>
+              ) : (
+                <div>
+                  {data?.truncated && (
+                    <div className="text-gray-500 mb-2">Showing the latest {entries.length.toLocaleString()} matching lines</div>
+                  )}
+                  {entries.map((entry) => {
+                    const trace = traceUrl ? extractTraceContext(entry.message) : null
+                    return (
+                      <div key={entry.id} className="whitespace-pre-wrap break-words">
+                        <span className="text-gray-500">{format(new Date(entry.timestamp), 'MMM d HH:mm:ss')} </span>
+                        <span className={LOG_LEVEL_COLORS[entry.level]}>{entry.level.toUpperCase().padEnd(5)} </span>
+                        {!podName && <span className="text-gray-500">[{entry.podName}] </span>}
+                        <span dangerouslySetInnerHTML={{ __html: convertAnsiToHtml(entry.message) }} />
+                        {trace && traceUrl && <TraceLink trace={trace} traceUrl={traceUrl} />}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,17 @@
 'use client'
 
+import { useMemo, useState } from 'react'
 import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { AlertCircle, ChevronDown } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { AlertCircle, ChevronDown, Download } from 'lucide-react'
 import { convertAnsiToHtml } from '../agents/utils'
-import type { UseLogViewerReturn } from '@/hooks/useLogViewer'
+import { ArchivedLogViewer, LOG_LEVEL_COLORS, TraceLink, type ArchivedLogViewerFilters } from './archived-log-viewer'
+import { parseLogLine, stripAnsi } from '@/lib/log-archive'
+import { extractTraceContext, parseStructuredLogMessage } from '@/lib/structured-logs'
+import { LOG_LEVELS, type LogLevel, type LogTraceContext, type PodLogLine, type StructuredLogMessage } from '@/types/logs'
+import type { LogViewerEntry, UseLogViewerReturn } from '@/hooks/useLogViewer'
 
 interface PodLogViewerProps {
   logs: UseLogViewerReturn
@@ -17,6 +24,107 @@ interface PodLogViewerProps {
   onStartStreaming?: () => void
   onStopStreaming?: () => void
   streamingDisabled?: boolean
+  // Pod selection for live logs, hidden while viewing past runs
+  podSelector?: React.ReactNode
+  // The resource's `logs/search` route; adds a "Past runs" mode for pods that no longer exist
+  archiveUrl?: string
+  // File name of downloaded logs, without extension
+  downloadName?: string
+  // Page of a trace, for linking lines that carry a trace id
+  traceUrl?: (traceId: string) => string
+  // Open in "Past runs" mode with these filters, e.g. when coming from a trace span
+  initialArchiveFilters?: ArchivedLogViewerFilters
+}
+
+// Colours telling merged pods apart, assigned in order of appearance
+const POD_COLORS = ['text-cyan-400', 'text-fuchsia-400', 'text-lime-400', 'text-orange-400', 'text-sky-400', 'text-pink-400']
+
+interface ViewerLine {
+  podName?: string
+  timestamp: string | null
+  message: string
+  structured: StructuredLogMessage
+  trace: LogTraceContext | null
+  // Text the search is matched against
+  searchText: string
+}
+
+function toPodLogLine(entry: LogViewerEntry): Omit<PodLogLine, 'podName'> & { podName?: string } {
+  if (typeof entry !== 'string') {
+    return entry
+  }
+  const parsed = parseLogLine(entry)
+  return parsed ? { timestamp: parsed.timestamp.toISOString(), message: parsed.message } : { timestamp: null, message: entry }
+}
+
+function toViewerLine(entry: LogViewerEntry): ViewerLine {
+  const line = toPodLogLine(entry)
+  return {
+    ...line,
+    structured: parseStructuredLogMessage(line.message),
+    trace: extractTraceContext(line.message),
+    searchText: stripAnsi(line.podName ? `${line.podName} ${line.message}` : line.message),
+  }
+}
+
+function formatDownloadLine(line: ViewerLine): string {
+  return [line.timestamp, line.podName && `[${line.podName}]`, stripAnsi(line.message)].filter(Boolean).join(' ')
+}
+
+/**
+ * Wrap each match of the search in a highlight
+ */
+function highlight(text: string, search: RegExp | null): React.ReactNode {
+  if (!search) {
+    return text
+  }
+
+  const parts: React.ReactNode[] = []
+  let lastIndex = 0
+  for (const match of text.matchAll(search)) {
+    // Empty matches (e.g. `a*`) have nothing to highlight
+    if (match[0].length === 0) {
+      continue
+    }
+    const index = match.index ?? 0
+    parts.push(text.substring(lastIndex, index))
+    parts.push(<mark key={index} className="bg-yellow-300 text-black">{match[0]}</mark>)
+    lastIndex = index + match[0].length
+  }
+  parts.push(text.substring(lastIndex))
+  return parts
+}
+
+function LogLine({ line, podColor, search, traceUrl }: {
+  line: ViewerLine
+  podColor?: string
+  search: RegExp | null
+  traceUrl?: (traceId: string) => string
+}) {
+  const fields = Object.entries(line.structured.fields)
+  // JSON lines are shown as level, message and fields
+  const isStructured = fields.length > 0 || line.structured.message !== line.message
+
+  return (
+    <div className="whitespace-pre-wrap break-words">
+      {line.timestamp && <span className="text-gray-500">{line.timestamp} </span>}
+      {line.podName && <span className={podColor}>[{highlight(line.podName, search)}] </span>}
+      {isStructured ? (
+        <>
+          <span className={LOG_LEVEL_COLORS[line.structured.level]}>{line.structured.level.toUpperCase().padEnd(5)} </span>
+          {highlight(line.structured.message, search)}
+          {fields.map(([key, value]) => (
+            <span key={key} className="text-gray-400"> {key}=<span className="text-gray-300">{highlight(value, search)}</span></span>
+          ))}
+        </>
+      ) : search ? (
+        highlight(stripAnsi(line.message), search)
+      ) : (
+        <span dangerouslySetInnerHTML={{ __html: convertAnsiToHtml(line.message) }} />
+      )}
+      {line.trace && traceUrl && <TraceLink trace={line.trace} traceUrl={traceUrl} />}
+    </div>
+  )
 }
 
 export function PodLogViewer({ 
@@ -28,10 +136,91 @@ export function PodLogViewer({
   isStreaming = false,
   onStartStreaming,
   onStopStreaming,
-  streamingDisabled = false
+  streamingDisabled = false,
+  podSelector,
+  archiveUrl,
+  downloadName = 'logs',
+  traceUrl,
+  initialArchiveFilters
 }: PodLogViewerProps) {
+  const [mode, setMode] = useState<'live' | 'archive'>(archiveUrl && initialArchiveFilters ? 'archive' : 'live')
+  const [levels, setLevels] = useState<Set<LogLevel>>(() => new Set(LOG_LEVELS))
+  const [searchInput, setSearchInput] = useState('')
+
+  const lines = useMemo(() => logs.logs.map(toViewerLine), [logs.logs])
+
+  // Lines are filtered with `matcher`; `search` finds every match to highlight
+  const { matcher, search, searchError } = useMemo(() => {
+    if (!searchInput) {
+      return { matcher: null, search: null, searchError: null }
+    }
+    try {
+      return { matcher: new RegExp(searchInput, 'i'), search: new RegExp(searchInput, 'gi'), searchError: null }
+    } catch (error) {
+      return { matcher: null, search: null, searchError: error instanceof Error ? error.message : 'Invalid regular expression' }
+    }
+  }, [searchInput])
+
+  const visibleLines = useMemo(
+    () => lines.filter(line => levels.has(line.structured.level) && (!matcher || matcher.test(line.searchText))),
+    [lines, levels, matcher]
+  )
+
+  const podColors = useMemo(() => {
+    const colors = new Map<string, string>()
+    for (const line of lines) {
+      if (line.podName && !colors.has(line.podName)) {
+        colors.set(line.podName, POD_COLORS[colors.size % POD_COLORS.length])
+      }
+    }
+    return colors
+  }, [lines])
+
+  const toggleLevel = (level: LogLevel) => {
+    setLevels(previous => {
+      const next = new Set(previous)
+      if (next.has(level)) {
+        next.delete(level)
+      } else {
+        next.add(level)
+      }
+      return next
+    })
+  }
+
+  const downloadLogs = () => {
+    const blob = new Blob([visibleLines.map(formatDownloadLine).join('\n') + '\n'], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${downloadName}-${new Date().toISOString().replace(/[:.]/g, '-')}.log`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const modeTabs = archiveUrl && (
+    <Tabs value={mode} onValueChange={(value) => setMode(value as 'live' | 'archive')}>
+      <TabsList>
+        <TabsTrigger value="live">Live</TabsTrigger>
+        <TabsTrigger value="archive">Past runs</TabsTrigger>
+      </TabsList>
+    </Tabs>
+  )
+
+  if (archiveUrl && mode === 'archive') {
+    return (
+      <div className={`space-y-6 ${className}`}>
+        {modeTabs}
+        <ArchivedLogViewer searchUrl={archiveUrl} traceUrl={traceUrl} initialFilters={initialArchiveFilters} />
+      </div>
+    )
+  }
+
   return (
     <div className={`space-y-6 ${className}`}>
+      {modeTabs}
+      {podSelector}
+
       {/* Log Controls */}
       <Card className="flex-shrink-0">
         <CardContent className="px-4">
@@ -89,8 +278,44 @@ export function PodLogViewer({
                 )}
               </>
             )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={downloadLogs}
+              disabled={visibleLines.length === 0}
+            >
+              <Download className="h-4 w-4 mr-1" />
+              Download
+            </Button>
             {children}
           </div>
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            {LOG_LEVELS.map(level => (
+              <Button
+                key={level}
+                variant={levels.has(level) ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => toggleLevel(level)}
+                aria-pressed={levels.has(level)}
+              >
+                {level}
+              </Button>
+            ))}
+            <Input
+              value={searchInput}
+              onChange={(event) => setSearchInput(event.target.value)}
+              placeholder="Search (regex)"
+              aria-label="Search logs"
+              className="max-w-xs font-mono"
+            />
+            {searchError && <span className="text-xs text-red-600">{searchError}</span>}
+            {visibleLines.length !== lines.length && (
+              <span className="text-xs text-muted-foreground">
+                {visibleLines.length.toLocaleString()} of {lines.length.toLocaleString()} lines
+              </span>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -125,13 +350,16 @@ export function PodLogViewer({
               </div>
             ) : (
               <div>
-                {logs.logs.map((log, index) => (
-                  <div
+                {visibleLines.length === 0 && (
+                  <div className="text-gray-500">No lines match the filters</div>
+                )}
+                {visibleLines.map((line, index) => (
+                  <LogLine
                     key={index}
-                    className="whitespace-pre-wrap break-words"
-                    dangerouslySetInnerHTML={{
-                      __html: convertAnsiToHtml(log)
-                    }}
+                    line={line}
+                    podColor={line.podName ? podColors.get(line.podName) : undefined}
+                    search={search}
+                    traceUrl={traceUrl}
                   />
                 ))}
                 <div ref={logs.logsEndRef} />
@@ -6,6 +6,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge'
 import { Layers, Box, RotateCcw } from 'lucide-react'
 
+// Selection value merging the output of every pod
+export const ALL_PODS = '__all__'
+
 export interface PodInfo {
   name: string
   status: string
@@ -37,6 +40,8 @@ interface PodSelectorProps {
   className?: string
   layout?: 'vertical' | 'horizontal'
   hideContainerSelection?: boolean
+  // Offer merging every pod's output when there is more than one
+  allowAllPods?: boolean
 }
 
 export function PodSelector({
@@ -54,7 +59,8 @@ export function PodSelector({
   showModeIndicator = false,
   className = "",
   layout = 'vertical',
-  hideContainerSelection = false
+  hideContainerSelection = false,
+  allowAllPods = false
 }: PodSelectorProps) {
   const getContainersForPod = (podName: string) => {
     const pod = pods.find(p => p.name === podName)
@@ -101,6 +107,11 @@ export function PodSelector({
                   <SelectValue placeholder={loading ? "Loading pods..." : `Select ${podType} pod`} />
                 </SelectTrigger>
                 <SelectContent className="min-w-96">
+                  {allowAllPods && pods.length > 1 && (
+                    <SelectItem value={ALL_PODS}>
+                      <span className="text-sm">All pods ({pods.length}, merged)</span>
+                    </SelectItem>
+                  )}
                   {pods.map(pod => (
                     <SelectItem key={pod.name} value={pod.name}>
                       <div className="flex items-center justify-between w-full">
@@ -225,6 +236,11 @@ export function PodSelector({
                 <SelectValue placeholder={loading ? "Loading pods..." : `Select ${podType} pod`} />
               </SelectTrigger>
               <SelectContent className="min-w-96">
+                {allowAllPods && pods.length > 1 && (
+                  <SelectItem value={ALL_PODS}>
+                    <span className="text-sm">All pods ({pods.length}, merged)</span>
+                  </SelectItem>
+                )}
                 {pods.map(pod => (
                   <SelectItem key={pod.name} value={pod.name}>
                     <div className="flex items-center justify-between w-full">
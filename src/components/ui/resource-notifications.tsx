@@ -2,8 +2,11 @@
 
 import { useEffect, useRef } from 'react'
 import { toast } from 'sonner'
-import { CheckCircle, AlertCircle, XCircle, Plus, Trash2, Edit } from 'lucide-react'
+import { CheckCircle, AlertCircle, XCircle, Plus, Trash2, Edit, DollarSign } from 'lucide-react'
 import { WatchEvent } from '@/hooks/use-watch'
+import { useSpendBudgets } from '@/hooks/use-spend-budgets'
+import { formatCurrencyAutoPrecision } from '@/lib/currency'
+import { describeBudgetTarget } from '@/lib/spend-budgets'
 
 export interface ResourceNotificationProps {
   onEvent: (event: WatchEvent) => void
@@ -146,6 +149,49 @@ export function useResourceNotifications({
   return handleEvent
 }
 
+// Budget alerts already shown in this browser, by budget ID
+const SEEN_BUDGET_ALERTS_KEY = 'langop-seen-budget-alerts'
+
+function readSeenBudgetAlerts(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(SEEN_BUDGET_ALERTS_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+export function useBudgetNotifications({ enabled = true }: { enabled?: boolean } = {}) {
+  // The server checks budgets in the background; polling picks up the alerts it raises
+  const { data: budgets } = useSpendBudgets({ refetchInterval: enabled ? 5 * 60 * 1000 : undefined })
+
+  useEffect(() => {
+    if (!enabled || !budgets) return
+
+    const seen = readSeenBudgetAlerts()
+    budgets
+      .filter(budget => budget.threshold !== null && budget.alertedAt && seen[budget.id] !== budget.alertedAt)
+      .forEach((budget) => {
+        const exceeded = budget.threshold! >= 100
+        const spent = formatCurrencyAutoPrecision(budget.spent, budget.currency)
+        const amount = formatCurrencyAutoPrecision(budget.amount, budget.currency)
+
+        toast(`${describeBudgetTarget(budget)} ${exceeded ? 'over' : 'at ' + budget.threshold + '% of'} ${budget.period} budget`, {
+          description: `${spent} of ${amount} spent${budget.pausedAgents.length > 0 ? `; paused ${budget.pausedAgents.join(', ')}` : ''}`,
+          duration: exceeded ? 10000 : 6000,
+          icon: <DollarSign className="h-4 w-4" />,
+          className: exceeded ? 'border-red-200 bg-red-50' : 'border-yellow-200 bg-yellow-50',
+        })
+        seen[budget.id] = budget.alertedAt!
+      })
+
+    // Forget deleted budgets
+    const budgetIds = new Set(budgets.map(budget => budget.id))
+    localStorage.setItem(SEEN_BUDGET_ALERTS_KEY, JSON.stringify(
+      Object.fromEntries(Object.entries(seen).filter(([id]) => budgetIds.has(id)))
+    ))
+  }, [budgets, enabled])
+}
+
 function isImportantStatusChange(event: WatchEvent): boolean {
   const currentPhase = event.data?.status?.phase
   const previousPhase = event.data?.metadata?.annotations?.['langop.io/previous-phase']
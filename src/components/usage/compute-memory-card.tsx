@@ -2,11 +2,17 @@
 
 import { cn } from '@/lib/utils'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { USAGE_STATUS_COLORS, type ComputeMemoryCardData } from '@/types/usage'
+import { USAGE_STATUS_COLORS, type ComputeMemoryCardData, type UsageHistorySeries } from '@/types/usage'
 import { ComputeIcon, MemoryIcon } from '@/components/ui/icons'
+import { UsageTrend } from './usage-trend'
 
 interface ComputeMemoryCardProps {
   data: ComputeMemoryCardData
+  // Usage over the selected range; undefined while it loads
+  history?: {
+    requests: UsageHistorySeries | null
+    limits: UsageHistorySeries | null
+  }
   className?: string
 }
 
@@ -15,13 +21,15 @@ function UsageBar({
   current, 
   limit, 
   percentage, 
-  status 
+  status,
+  history
 }: {
   label: string
   current: string | number
   limit: string | number
   percentage: number
   status: 'healthy' | 'warning' | 'critical' | 'limit' | 'exceeded'
+  history?: UsageHistorySeries | null
 }) {
   const statusColor = USAGE_STATUS_COLORS[status]
 
@@ -59,11 +67,14 @@ function UsageBar({
           {percentage.toFixed(1)}%
         </span>
       </div>
+
+      {/* Usage trend */}
+      {history !== undefined && <UsageTrend series={history} />}
     </div>
   )
 }
 
-export function ComputeMemoryCard({ data, className }: ComputeMemoryCardProps) {
+export function ComputeMemoryCard({ data, history, className }: ComputeMemoryCardProps) {
   const { resource, requests, limits } = data
 
   const getResourceIcon = () => {
@@ -97,6 +108,7 @@ export function ComputeMemoryCard({ data, className }: ComputeMemoryCardProps) {
             limit={requests.limit}
             percentage={requests.percentage}
             status={requests.status}
+            history={history?.requests}
           />
           
           {/* Limits bar */}
@@ -106,6 +118,7 @@ export function ComputeMemoryCard({ data, className }: ComputeMemoryCardProps) {
             limit={limits.limit}
             percentage={limits.percentage}
             status={limits.status}
+            history={history?.limits}
           />
         </div>
       </CardContent>
@@ -0,0 +1,300 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { AlertTriangle, BarChart3, DollarSign, Trophy, Zap, Activity } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AdvancedDateRangePicker } from '@/components/ui/advanced-date-range-picker'
+import { UsageCostChart } from '@/components/agents/usage-cost-chart'
+import { CostExportActions } from '@/components/usage/cost-reports'
+import { useOrganization } from '@/components/organization-provider'
+import { useOrganizationCost } from '@/hooks/use-organization-cost'
+import { formatCurrencyAutoPrecision } from '@/lib/currency'
+import { UNASSIGNED_CLUSTER, type AgentCostEntry, type CostBreakdownEntry, type TaskCostEntry } from '@/lib/organization-cost'
+
+interface BreakdownTableProps {
+  label: string
+  entries: CostBreakdownEntry[]
+  currency: string
+  // Extra column after the name, such as an agent's cluster
+  detail?: { label: string; render: (entry: CostBreakdownEntry) => React.ReactNode }
+  renderName?: (entry: CostBreakdownEntry) => React.ReactNode
+}
+
+function BreakdownTable({ label, entries, currency, detail, renderName }: BreakdownTableProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">No usage in this period</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          {detail && <TableHead>{detail.label}</TableHead>}
+          <TableHead className="text-right">Cost</TableHead>
+          <TableHead className="text-right">Tokens (in / out)</TableHead>
+          <TableHead className="text-right">Requests</TableHead>
+          <TableHead className="w-[160px]">Share</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry, index) => (
+          // Task names repeat across agents
+          <TableRow key={`${index}-${entry.name}`}>
+            <TableCell className="font-medium">{renderName ? renderName(entry) : entry.name}</TableCell>
+            {detail && <TableCell>{detail.render(entry)}</TableCell>}
+            <TableCell className="text-right">{formatCurrencyAutoPrecision(entry.cost, currency)}</TableCell>
+            <TableCell className="text-right">
+              {entry.inputTokens.toLocaleString()} / {entry.outputTokens.toLocaleString()}
+            </TableCell>
+            <TableCell className="text-right">{entry.requests.toLocaleString()}</TableCell>
+            <TableCell>
+              <div className="flex items-center gap-2">
+                <Progress value={entry.share * 100} className="h-2" />
+                <span className="text-xs text-muted-foreground w-10 text-right">
+                  {(entry.share * 100).toFixed(0)}%
+                </span>
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+export function CostDashboard() {
+  const { getOrgUrl } = useOrganization()
+  const [dateRange, setDateRange] = useState<{ from: Date; to: Date }>(() => ({
+    from: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
+    to: new Date()
+  }))
+
+  const { data: cost, isLoading, error } = useOrganizationCost(dateRange.from, dateRange.to)
+  const currency = cost?.currency || 'USD'
+
+  const chartData = useMemo(() => (cost?.timeSeries || []).map(point => ({
+    date: point.timestamp,
+    cost: point.cost,
+    tokens: point.inputTokens + point.outputTokens,
+    tasks: point.requests,
+    avgResponseTime: 0,
+    errors: point.errors
+  })), [cost])
+
+  const agentLink = (entry: CostBreakdownEntry) => {
+    const { clusterName } = entry as AgentCostEntry
+    if (clusterName === UNASSIGNED_CLUSTER) {
+      return entry.name
+    }
+    return (
+      <Link href={getOrgUrl(`/clusters/${clusterName}/agents/${entry.name}/cost`)} className="hover:underline">
+        {entry.name}
+      </Link>
+    )
+  }
+
+  const days = Math.max((dateRange.to.getTime() - dateRange.from.getTime()) / (24 * 60 * 60 * 1000), 1)
+
+  return (
+    <div className="space-y-6">
+      {/* Date Range Picker */}
+      <Card>
+        <CardContent className="flex flex-wrap items-center justify-between gap-4">
+          <AdvancedDateRangePicker
+            date={dateRange}
+            onDateChange={setDateRange}
+          />
+          <CostExportActions from={dateRange.from} to={dateRange.to} />
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <Card>
+          <CardContent className="p-6">
+            <div className="text-center space-y-2">
+              <AlertTriangle className="h-8 w-8 text-destructive mx-auto" />
+              <h3 className="font-medium">Failed to load cost data</h3>
+              <p className="text-sm text-muted-foreground">{error.message}</p>
+              <Button variant="outline" onClick={() => window.location.reload()}>
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : isLoading || !cost ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {[...Array(4)].map((_, i) => (
+            <Card key={i}>
+              <CardContent className="p-6">
+                <div className="space-y-2">
+                  <div className="h-4 bg-muted animate-pulse rounded" />
+                  <div className="h-8 bg-muted animate-pulse rounded" />
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <>
+          {cost.missingExchangeRates.length > 0 ? (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                No exchange rate from {cost.missingExchangeRates.join(', ')} to {currency}, so usage priced in {cost.missingExchangeRates.length === 1 ? 'it' : 'them'} is left out of spend.{' '}
+                <Link href={getOrgUrl('/settings/currency')} className="underline">Add exchange rates</Link>
+              </AlertDescription>
+            </Alert>
+          ) : cost.unpricedModels.length > 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                No pricing for {cost.unpricedModels.join(', ')}. Enable cost tracking on these models to include their tokens in spend.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Key Metrics Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Total Spend</CardTitle>
+                <DollarSign className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrencyAutoPrecision(cost.totals.cost, currency)}</div>
+                <p className="text-xs text-muted-foreground">Selected period</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Avg Daily Spend</CardTitle>
+                <DollarSign className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrencyAutoPrecision(cost.totals.cost / days, currency)}</div>
+                <p className="text-xs text-muted-foreground">Per day</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Tokens</CardTitle>
+                <Zap className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{(cost.totals.inputTokens + cost.totals.outputTokens).toLocaleString()}</div>
+                <p className="text-xs text-muted-foreground">
+                  {cost.totals.inputTokens.toLocaleString()} in / {cost.totals.outputTokens.toLocaleString()} out
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">LLM Requests</CardTitle>
+                <Activity className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{cost.totals.requests.toLocaleString()}</div>
+                <p className="text-xs text-muted-foreground">{cost.totals.errors.toLocaleString()} failed</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Spend Over Time Chart */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="h-5 w-5" />
+                Spend Over Time
+              </CardTitle>
+              <CardDescription>
+                LLM spend across all clusters and agents, in {currency}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <UsageCostChart data={chartData} granularity={cost.period.granularity} currency={currency} />
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Top Spenders */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Trophy className="h-5 w-5" />
+                  Top Spenders
+                </CardTitle>
+                <CardDescription>Agents with the highest spend</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {cost.topAgents.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No usage in this period</p>
+                ) : cost.topAgents.map((agent, index) => (
+                  <div key={agent.name} className="space-y-1">
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="text-muted-foreground w-4">{index + 1}</span>
+                        <span className="font-medium truncate">{agentLink(agent)}</span>
+                        <Badge variant="outline" className="text-xs">{agent.clusterName}</Badge>
+                      </div>
+                      <span className="shrink-0">{formatCurrencyAutoPrecision(agent.cost, currency)}</span>
+                    </div>
+                    <Progress value={agent.share * 100} className="h-1.5" />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Breakdowns */}
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Breakdown</CardTitle>
+                <CardDescription>Spend by cluster, agent, model and task</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="cluster">
+                  <TabsList>
+                    <TabsTrigger value="cluster">Clusters</TabsTrigger>
+                    <TabsTrigger value="agent">Agents</TabsTrigger>
+                    <TabsTrigger value="model">Models</TabsTrigger>
+                    <TabsTrigger value="task">Tasks</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="cluster">
+                    <BreakdownTable label="Cluster" entries={cost.byCluster} currency={currency} />
+                  </TabsContent>
+                  <TabsContent value="agent">
+                    <BreakdownTable
+                      label="Agent"
+                      entries={cost.byAgent}
+                      currency={currency}
+                      renderName={agentLink}
+                      detail={{ label: 'Cluster', render: (entry) => (entry as AgentCostEntry).clusterName }}
+                    />
+                  </TabsContent>
+                  <TabsContent value="model">
+                    <BreakdownTable label="Model" entries={cost.byModel} currency={currency} />
+                  </TabsContent>
+                  <TabsContent value="task">
+                    <BreakdownTable
+                      label="Task"
+                      entries={cost.byTask}
+                      currency={currency}
+                      detail={{ label: 'Agent', render: (entry) => (entry as TaskCostEntry).agentName }}
+                    />
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,258 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { CalendarClock, Download, FileSpreadsheet, Loader2, Plus, Save, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  downloadCostExport,
+  useCostReports,
+  useCreateCostReport,
+  useCreateCostReportSchedule,
+  useDeleteCostReport,
+  useDeleteCostReportSchedule,
+} from '@/hooks/use-cost-reports'
+import type { CostExportFormat, CostReportFrequency } from '@/lib/cost-export'
+
+const formatOptions: Array<{ value: CostExportFormat; label: string }> = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'jsonl', label: 'JSON Lines' },
+]
+
+const frequencyOptions: Array<{ value: CostReportFrequency; label: string }> = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+]
+
+function FormatSelect({ value, onChange }: { value: CostExportFormat; onChange: (value: CostExportFormat) => void }) {
+  return (
+    <Select value={value} onValueChange={(format) => onChange(format as CostExportFormat)}>
+      <SelectTrigger className="w-[140px]" aria-label="Export format">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {formatOptions.map((option) => (
+          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+function formatPeriod(start: string, end: string) {
+  return `${new Date(start).toLocaleDateString()} – ${new Date(end).toLocaleDateString()}`
+}
+
+/**
+ * Download the per-execution cost records of a date range, or keep them as a report
+ */
+export function CostExportActions({ from, to }: { from: Date; to: Date }) {
+  const [format, setFormat] = useState<CostExportFormat>('csv')
+  const [isDownloading, setIsDownloading] = useState(false)
+  const createReport = useCreateCostReport()
+
+  const handleDownload = async () => {
+    setIsDownloading(true)
+    try {
+      const searchParams = new URLSearchParams({ from: from.toISOString(), to: to.toISOString(), format })
+      await downloadCostExport(`/api/cost/export?${searchParams}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export costs')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    try {
+      await createReport.mutateAsync({ from, to, format })
+      toast.success('Report saved')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save report')
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <FormatSelect value={format} onChange={setFormat} />
+      <Button variant="outline" size="sm" onClick={handleDownload} disabled={isDownloading}>
+        {isDownloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+        Export
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleSave} disabled={createReport.isPending}>
+        {createReport.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+        Save Report
+      </Button>
+    </div>
+  )
+}
+
+export function CostReports() {
+  const [frequency, setFrequency] = useState<CostReportFrequency>('monthly')
+  const [format, setFormat] = useState<CostExportFormat>('csv')
+  const { data, isLoading, error } = useCostReports()
+  const deleteReport = useDeleteCostReport()
+  const createSchedule = useCreateCostReportSchedule()
+  const deleteSchedule = useDeleteCostReportSchedule()
+
+  const handleDownload = async (reportId: string) => {
+    try {
+      await downloadCostExport(`/api/cost/reports/${reportId}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download report')
+    }
+  }
+
+  const handleDelete = async (reportId: string) => {
+    try {
+      await deleteReport.mutateAsync(reportId)
+      toast.success('Report deleted')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete report')
+    }
+  }
+
+  const handleAddSchedule = async () => {
+    try {
+      await createSchedule.mutateAsync({ frequency, format })
+      toast.success('Report scheduled')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to schedule report')
+    }
+  }
+
+  const handleDeleteSchedule = async (scheduleId: string) => {
+    try {
+      await deleteSchedule.mutateAsync(scheduleId)
+      toast.success('Schedule removed')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove schedule')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5" />
+          Cost Reports
+        </CardTitle>
+        <CardDescription>
+          Per-execution cost records for chargeback: time, cluster, agent, task, model, tokens and cost
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <CalendarClock className="h-4 w-4 text-muted-foreground" />
+            <span className="text-sm font-medium">Schedules</span>
+            <div className="ml-auto flex items-center gap-2">
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as CostReportFrequency)}>
+                <SelectTrigger className="w-[130px]" aria-label="Report frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {frequencyOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormatSelect value={format} onChange={setFormat} />
+              <Button size="sm" onClick={handleAddSchedule} disabled={createSchedule.isPending}>
+                {createSchedule.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                Add Schedule
+              </Button>
+            </div>
+          </div>
+          {data?.schedules.length ? (
+            <div className="flex flex-wrap gap-2">
+              {data.schedules.map((schedule) => (
+                <Badge key={schedule.id} variant="secondary" className="gap-1 pr-1">
+                  <span className="capitalize">{schedule.frequency}</span> {schedule.format.toUpperCase()}
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteSchedule(schedule.id)}
+                    disabled={deleteSchedule.isPending}
+                    className="ml-1 rounded-sm p-0.5 hover:bg-stone-200 dark:hover:bg-stone-700"
+                    aria-label={`Remove ${schedule.frequency} schedule`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No schedules. Scheduled reports cover each completed day, week or month.
+            </p>
+          )}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Period</TableHead>
+              <TableHead>Format</TableHead>
+              <TableHead className="text-right">Records</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead className="w-[100px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />
+                </TableCell>
+              </TableRow>
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-destructive">{error.message}</TableCell>
+              </TableRow>
+            ) : !data?.reports.length ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  No reports yet. Save one from the date range above, or add a schedule.
+                </TableCell>
+              </TableRow>
+            ) : data.reports.map((report) => (
+              <TableRow key={report.id}>
+                <TableCell className="text-sm">{formatPeriod(report.periodStart, report.periodEnd)}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className="text-xs">{report.format.toUpperCase()}</Badge>
+                </TableCell>
+                <TableCell className="text-right text-sm">{report.recordCount.toLocaleString()}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {new Date(report.createdAt).toLocaleString()}
+                  {' · '}
+                  {report.createdBy || 'Scheduled'}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end">
+                    <Button variant="ghost" size="sm" onClick={() => handleDownload(report.id)} aria-label="Download report">
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(report.id)}
+                      disabled={deleteReport.isPending}
+                      aria-label="Delete report"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
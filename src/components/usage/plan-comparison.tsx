@@ -3,82 +3,47 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { useState } from 'react'
 import { usePlanInfo } from '@/hooks/useOrganizationUsage'
-import { Check, Star } from 'lucide-react'
+import { usePlans, useQuotaRequests } from '@/hooks/use-plans'
+import { useOrganization } from '@/components/organization-provider'
+import { Star } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { QuotaRequestDialog } from './quota-request-dialog'
+import type { PlanDefinition } from '@/lib/plans'
 
-// Plan definition with quota information
-const PLAN_DEFINITIONS = {
-  free: {
-    name: 'Pioneer',
-    displayName: 'Pioneer',
-    description: 'Perfect for exploration and learning',
-    price: '$0/mo',
-    compute: {
-      'CPU Cores': '2 vCPU',
-      'Memory': '4 GB'
-    },
-    limits: {
-      'Clusters': '1',
-      'Agents': '3',
-      'Personas': '3',
-      'Models': '2',
-      'Tools': '5'
-    },
-    ctaText: 'Current Plan',
-    ctaVariant: 'outline' as const,
-    popular: false
-  },
-  pro: {
-    name: 'Homesteader',
-    displayName: 'Homesteader', 
-    description: 'Scaled operations with advanced capabilities',
-    price: '$49/month',
-    compute: {
-      'CPU Cores': '8 vCPU',
-      'Memory': '16 GB'
-    },
-    limits: {
-      'Clusters': '5',
-      'Agents': '25',
-      'Personas': '25',
-      'Models': '10',
-      'Tools': '50'
-    },
-    ctaText: 'Expand Your Horizon',
-    ctaVariant: 'default' as const,
-    popular: true
-  },
-  enterprise: {
-    name: 'Landowner',
-    displayName: 'Landowner',
-    description: 'Unlimited scale for large operations', 
-    price: 'Custom',
-    compute: {
-      'CPU Cores': 'Unlimited',
-      'Memory': 'Unlimited'
-    },
-    limits: {
-      'Clusters': 'Unlimited',
-      'Agents': 'Unlimited',
-      'Personas': 'Unlimited',
-      'Models': 'Unlimited',
-      'Tools': 'Unlimited'
-    },
-    ctaText: 'Claim The Territory',
-    ctaVariant: 'outline' as const,
-    popular: false
+// Compute resources shown for each plan, from its quota limits
+function getPlanCompute(plan: PlanDefinition): Record<string, string> {
+  const cpu = plan.quota['limits.cpu'] || '0'
+  const memory = plan.quota['limits.memory'] || '0'
+  const cores = cpu.endsWith('m') ? parseInt(cpu) / 1000 : parseFloat(cpu)
+  const gigabytes = memory.endsWith('Mi') ? Math.round(parseInt(memory) / 1024) : parseInt(memory)
+
+  return {
+    'CPU Cores': `${cores} vCPU`,
+    'Memory': `${gigabytes} GB`
+  }
+}
+
+function getPlanLimits(plan: PlanDefinition): Record<string, string> {
+  return {
+    'Clusters': plan.quota['count/languageclusters'],
+    'Agents': plan.quota['count/languageagents'],
+    'Personas': plan.quota['count/languagepersonas'],
+    'Models': plan.quota['count/languagemodels'],
+    'Tools': plan.quota['count/languagetools']
   }
 }
 
 interface PlanCardProps {
-  planKey: keyof typeof PLAN_DEFINITIONS
+  plan: PlanDefinition
   isCurrentPlan: boolean
+  // Owners can request plans above their current one
+  onRequest?: () => void
+  requestNote?: string
 }
 
-function PlanCard({ planKey, isCurrentPlan }: PlanCardProps) {
-  const plan = PLAN_DEFINITIONS[planKey]
-  
+function PlanCard({ plan, isCurrentPlan, onRequest, requestNote }: PlanCardProps) {
   return (
     <Card className={cn(
       "relative h-full",
@@ -128,7 +93,7 @@ function PlanCard({ planKey, isCurrentPlan }: PlanCardProps) {
             Compute
           </h4>
           <div className="space-y-2">
-            {Object.entries(plan.compute).map(([resource, limit]) => (
+            {Object.entries(getPlanCompute(plan)).map(([resource, limit]) => (
               <div key={resource} className="flex justify-between items-center">
                 <span className="text-xs font-light text-stone-700 dark:text-stone-300">
                   {resource}
@@ -147,7 +112,7 @@ function PlanCard({ planKey, isCurrentPlan }: PlanCardProps) {
             Limits
           </h4>
           <div className="space-y-2">
-            {Object.entries(plan.limits).map(([resource, limit]) => (
+            {Object.entries(getPlanLimits(plan)).map(([resource, limit]) => (
               <div key={resource} className="flex justify-between items-center">
                 <span className="text-xs font-light text-stone-700 dark:text-stone-300">
                   {resource}
@@ -168,16 +133,19 @@ function PlanCard({ planKey, isCurrentPlan }: PlanCardProps) {
               "w-full font-light tracking-wide transition-colors",
               isCurrentPlan ? "opacity-75" : "opacity-75 bg-amber-600 hover:bg-amber-700 text-white"
             )}
-            disabled={true}
+            disabled={!onRequest}
+            onClick={onRequest}
           >
             <span className="text-sm">
-              {isCurrentPlan ? 'Current Plan' : plan.ctaText}
+              {isCurrentPlan ? 'Current Plan' : plan.callToAction}
             </span>
           </Button>
           
-          <p className="text-[10px] font-light text-stone-500 dark:text-stone-500 text-center mt-2">
-            Plan upgrades available soon
-          </p>
+          {requestNote && (
+            <p className="text-[10px] font-light text-stone-500 dark:text-stone-500 text-center mt-2">
+              {requestNote}
+            </p>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -186,6 +154,20 @@ function PlanCard({ planKey, isCurrentPlan }: PlanCardProps) {
 
 export function PlanComparison() {
   const { currentPlan } = usePlanInfo()
+  const { canManageBilling } = useOrganization()
+  const { data: plans } = usePlans()
+  const { data: requests } = useQuotaRequests()
+  const [requestedPlan, setRequestedPlan] = useState<PlanDefinition | null>(null)
+
+  const pendingRequest = requests?.find(request => request.status === 'pending')
+  const currentIndex = plans?.findIndex(plan => plan.id === currentPlan) ?? -1
+
+  const getRequestNote = (index: number) => {
+    if (index <= currentIndex) return undefined
+    if (!canManageBilling) return 'Only organization owners can request upgrades'
+    if (pendingRequest) return 'A request is pending review'
+    return 'Upgrades are reviewed by a platform administrator'
+  }
 
   return (
     <div className="space-y-8">
@@ -201,11 +183,13 @@ export function PlanComparison() {
 
       {/* Plan Grid */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        {(Object.keys(PLAN_DEFINITIONS) as Array<keyof typeof PLAN_DEFINITIONS>).map((planKey) => (
+        {plans?.map((plan, index) => (
           <PlanCard 
-            key={planKey} 
-            planKey={planKey} 
-            isCurrentPlan={currentPlan === planKey}
+            key={plan.id} 
+            plan={plan} 
+            isCurrentPlan={currentPlan === plan.id}
+            onRequest={index > currentIndex && canManageBilling && !pendingRequest ? () => setRequestedPlan(plan) : undefined}
+            requestNote={getRequestNote(index)}
           />
         ))}
       </div>
@@ -213,9 +197,17 @@ export function PlanComparison() {
       {/* Footer Note */}
       <div className="text-center">
         <p className="text-xs font-light text-stone-500 dark:text-stone-500">
-          Need something different? Contact us for custom enterprise solutions designed for your specific requirements.
+          Need something different? Owners can request a custom quota from the current plan panel.
         </p>
       </div>
+
+      {requestedPlan && (
+        <QuotaRequestDialog
+          open
+          onOpenChange={(open) => !open && setRequestedPlan(null)}
+          plan={requestedPlan}
+        />
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -2,26 +2,15 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { usePlanInfo } from '@/hooks/useOrganizationUsage'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { usePlanInfo, useOrganizationUsage } from '@/hooks/useOrganizationUsage'
+import { useCancelQuotaRequest, useQuotaRequests } from '@/hooks/use-plans'
+import { useOrganization } from '@/components/organization-provider'
 import { PlanFeatureIcon } from '@/components/ui/icons'
-import { ArrowRight } from 'lucide-react'
-
-
-const UPGRADE_PATHS = {
-  free: {
-    nextPlan: 'pro',
-    nextTitle: 'Professional',
-    callToAction: 'Expand Your Horizon',
-    description: 'Scale your AI operations with expanded resources and advanced capabilities.'
-  },
-  pro: {
-    nextPlan: 'enterprise',
-    nextTitle: 'Enterprise',
-    callToAction: 'Claim The Territory',
-    description: 'Unlock unlimited potential with enterprise-grade resources and priority support.'
-  }
-}
-
+import { ArrowRight, Clock } from 'lucide-react'
+import { QuotaRequestDialog } from './quota-request-dialog'
+import type { QuotaRequestSummary } from '@/lib/plans'
 
 function CurrentPlanDisplay() {
   const { displayName, description, features } = usePlanInfo()
@@ -60,59 +49,127 @@ function CurrentPlanDisplay() {
   )
 }
 
-function UpgradePrompt() {
-  const { currentPlan, isUpgradeable } = usePlanInfo()
-  
-  if (!isUpgradeable) {
-    return (
-      <div className="text-center space-y-4">
-        <div className="space-y-2">
+function PendingRequest({ request }: { request: QuotaRequestSummary }) {
+  const { canManageBilling } = useOrganization()
+  const cancelRequest = useCancelQuotaRequest()
+
+  const handleCancel = async () => {
+    try {
+      await cancelRequest.mutateAsync(request.id)
+      toast.success('Request withdrawn')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to withdraw request')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-3">
+        <Clock className="h-4 w-4 mt-0.5 text-amber-600 dark:text-amber-400" />
+        <div className="space-y-1">
           <h4 className="text-sm font-light text-stone-900 dark:text-stone-300">
-            You're on the highest tier
+            {request.plan ? 'Plan upgrade' : 'Custom quota'} pending review
           </h4>
           <p className="text-xs font-light text-stone-600 dark:text-stone-400">
-            Contact support for custom enterprise solutions
+            Requested {new Date(request.createdAt).toLocaleDateString()}
+            {request.requestedBy && ` by ${request.requestedBy}`}. Your quota changes once a platform administrator approves it.
           </p>
         </div>
       </div>
-    )
-  }
+      {canManageBilling && (
+        <Button
+          variant="outline"
+          className="w-full font-light tracking-wide"
+          onClick={handleCancel}
+          disabled={cancelRequest.isPending}
+        >
+          <span className="text-sm">Withdraw Request</span>
+        </Button>
+      )}
+    </div>
+  )
+}
+
+function UpgradePrompt() {
+  const { isUpgradeable, nextPlan } = usePlanInfo()
+  const { canManageBilling } = useOrganization()
+  const { data: usage } = useOrganizationUsage()
+  const { data: requests } = useQuotaRequests()
+  const [dialog, setDialog] = useState<'plan' | 'custom' | null>(null)
 
-  const upgradeInfo = UPGRADE_PATHS[currentPlan as keyof typeof UPGRADE_PATHS]
-  
-  if (!upgradeInfo) {
-    return null
+  const pendingRequest = requests?.find(request => request.status === 'pending')
+  if (pendingRequest) {
+    return <PendingRequest request={pendingRequest} />
   }
 
+  const lastDecision = requests?.find(request => request.status === 'rejected' || request.status === 'approved')
+
   return (
     <div className="space-y-6">
-      {/* Upgrade Header */}
-      <div className="space-y-2">
-        <h3 className="text-[13px] tracking-widest uppercase font-light text-amber-600 dark:text-amber-400">
-          {upgradeInfo.callToAction}
-        </h3>
-        <div className="space-y-1">
-          <h4 className="text-lg font-light text-stone-900 dark:text-stone-300">
-            Upgrade to {upgradeInfo.nextTitle}
+      {isUpgradeable && nextPlan ? (
+        <div className="space-y-2">
+          <h3 className="text-[13px] tracking-widest uppercase font-light text-amber-600 dark:text-amber-400">
+            {nextPlan.callToAction}
+          </h3>
+          <div className="space-y-1">
+            <h4 className="text-lg font-light text-stone-900 dark:text-stone-300">
+              Upgrade to {nextPlan.name}
+            </h4>
+            <p className="text-sm font-light text-stone-600 dark:text-stone-400 leading-relaxed">
+              {nextPlan.description}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <h4 className="text-sm font-light text-stone-900 dark:text-stone-300">
+            You&apos;re on the highest tier
           </h4>
-          <p className="text-sm font-light text-stone-600 dark:text-stone-400 leading-relaxed">
-            {upgradeInfo.description}
+          <p className="text-xs font-light text-stone-600 dark:text-stone-400">
+            Request a custom quota when your operation needs more
           </p>
         </div>
-      </div>
+      )}
 
-      {/* Upgrade Action */}
-      <Button 
-        className="w-full bg-amber-600 hover:bg-amber-700 text-white font-light tracking-wide transition-colors"
-        disabled
-      >
-        <span className="text-sm">Contact Sales</span>
-        <ArrowRight className="ml-2 h-4 w-4" />
-      </Button>
-      
-      <p className="text-[10px] font-light text-stone-500 dark:text-stone-500 text-center">
-        Plan upgrades will be available in a future release
-      </p>
+      {lastDecision?.status === 'rejected' && (
+        <p className="text-xs font-light text-stone-600 dark:text-stone-400">
+          Your last request was declined{lastDecision.reviewNote ? `: ${lastDecision.reviewNote}` : '.'}
+        </p>
+      )}
+
+      {canManageBilling ? (
+        <div className="space-y-2">
+          {isUpgradeable && nextPlan && (
+            <Button
+              className="w-full bg-amber-600 hover:bg-amber-700 text-white font-light tracking-wide transition-colors"
+              onClick={() => setDialog('plan')}
+            >
+              <span className="text-sm">Request Upgrade</span>
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            className="w-full font-light tracking-wide"
+            onClick={() => setDialog('custom')}
+          >
+            <span className="text-sm">Request Custom Quota</span>
+          </Button>
+        </div>
+      ) : (
+        <p className="text-[10px] font-light text-stone-500 dark:text-stone-500 text-center">
+          Only organization owners can request plan changes
+        </p>
+      )}
+
+      {dialog && (
+        <QuotaRequestDialog
+          open
+          onOpenChange={(open) => !open && setDialog(null)}
+          plan={dialog === 'plan' ? nextPlan : null}
+          currentQuota={usage?.quota}
+        />
+      )}
     </div>
   )
 }
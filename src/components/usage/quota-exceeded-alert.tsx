@@ -0,0 +1,33 @@
+'use client'
+
+import Link from 'next/link'
+import { AlertCircle } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { useOrganization } from '@/components/organization-provider'
+import { QuotaExceededResponseError } from '@/lib/api-client'
+
+/**
+ * Explains a create the organization's quota refused, with the way to a larger plan.
+ * Renders nothing for other errors.
+ */
+export function QuotaExceededAlert({ error, className }: { error: unknown; className?: string }) {
+  const { getOrgUrl } = useOrganization()
+
+  if (!(error instanceof QuotaExceededResponseError)) {
+    return null
+  }
+
+  return (
+    <Alert variant="destructive" className={className}>
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>
+        <span>
+          {error.message}{' '}
+          <Link href={getOrgUrl('/capacity')} className="font-medium underline underline-offset-4">
+            View plans
+          </Link>
+        </span>
+      </AlertDescription>
+    </Alert>
+  )
+}
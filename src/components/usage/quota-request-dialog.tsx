@@ -0,0 +1,127 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useCreateQuotaRequest } from '@/hooks/use-plans'
+import { QUOTA_LABELS, type OrganizationQuota } from '@/types/quota'
+import type { PlanDefinition } from '@/lib/plans'
+
+interface QuotaRequestDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The plan to request; without one, a custom quota is requested
+  plan: PlanDefinition | null
+  // Starting values for a custom quota
+  currentQuota?: Partial<OrganizationQuota>
+}
+
+// The limits a custom quota sets, in the order they're shown
+const CUSTOM_QUOTA_FIELDS: Array<keyof OrganizationQuota> = [
+  'count/languageclusters',
+  'count/languageagents',
+  'count/languagemodels',
+  'count/languagetools',
+  'count/languagepersonas',
+  'requests.cpu',
+  'requests.memory',
+  'limits.cpu',
+  'limits.memory',
+]
+
+export function QuotaRequestDialog({ open, onOpenChange, plan, currentQuota = {} }: QuotaRequestDialogProps) {
+  const [message, setMessage] = useState('')
+  const [quotas, setQuotas] = useState<Record<string, string>>(() =>
+    Object.fromEntries(CUSTOM_QUOTA_FIELDS.map(field => [field, currentQuota[field] || '']))
+  )
+  const createRequest = useCreateQuotaRequest()
+
+  const isValid = plan
+    ? true
+    : message.trim().length > 0 && CUSTOM_QUOTA_FIELDS.every(field => quotas[field]?.trim())
+
+  const handleSubmit = async () => {
+    try {
+      await createRequest.mutateAsync(
+        plan
+          ? { plan: plan.id, message: message.trim() || undefined }
+          : { quotas, message: message.trim() }
+      )
+      toast.success('Request sent for review')
+      setMessage('')
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send request')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{plan ? `Upgrade to ${plan.name}` : 'Request a Custom Quota'}</DialogTitle>
+          <DialogDescription>
+            A platform administrator reviews the request. Your quota changes once it&apos;s approved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!plan && (
+            <div className="grid grid-cols-2 gap-4">
+              {CUSTOM_QUOTA_FIELDS.map(field => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={field}>{QUOTA_LABELS[field]}</Label>
+                  <Input
+                    id={field}
+                    value={quotas[field]}
+                    onChange={(e) => setQuotas({ ...quotas, [field]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="quota-request-message">{plan ? 'Message (optional)' : 'What is the quota for?'}</Label>
+            <Textarea
+              id="quota-request-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={2000}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={createRequest.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!isValid || createRequest.isPending}
+          >
+            {createRequest.isPending ? 'Sending...' : 'Send Request'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,11 +2,14 @@
 
 import { cn } from '@/lib/utils'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { USAGE_STATUS_COLORS, type UsageCardData } from '@/types/usage'
+import { USAGE_STATUS_COLORS, type UsageCardData, type UsageHistorySeries } from '@/types/usage'
 import { getResourceIcon } from '@/components/ui/icons'
+import { UsageTrend } from './usage-trend'
 
 interface ResourceUsageCardProps {
   data: UsageCardData
+  // Usage over the selected range; undefined while it loads
+  history?: UsageHistorySeries | null
   className?: string
 }
 
@@ -45,7 +48,7 @@ function UsageStatusBadge({ status }: { status: 'healthy' | 'warning' | 'critica
   }
 }
 
-export function ResourceUsageCard({ data, className }: ResourceUsageCardProps) {
+export function ResourceUsageCard({ data, history, className }: ResourceUsageCardProps) {
   const { resource, current, limit, percentage, status, description } = data
   const statusColor = USAGE_STATUS_COLORS[status]
 
@@ -98,6 +101,9 @@ export function ResourceUsageCard({ data, className }: ResourceUsageCardProps) {
             </span>
             <UsageStatusBadge status={status} />
           </div>
+
+          {/* Usage trend */}
+          {history !== undefined && <UsageTrend series={history} />}
           
           {/* Description */}
           {description && (
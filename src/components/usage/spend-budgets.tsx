@@ -0,0 +1,325 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Loader2, PauseCircle, Plus, Target, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { useClusters } from '@/hooks/use-clusters'
+import { useAgents } from '@/hooks/use-agents'
+import {
+  useCreateSpendBudget,
+  useDeleteSpendBudget,
+  useSpendBudgets,
+  useUpdateSpendBudget,
+} from '@/hooks/use-spend-budgets'
+import { formatCurrencyAutoPrecision } from '@/lib/currency'
+import { describeBudgetTarget, type BudgetPeriod, type BudgetScope, type SpendBudgetStatus } from '@/lib/spend-budgets'
+import type { LanguageCluster } from '@/types/cluster'
+import type { LanguageAgent } from '@/types/agent'
+import { cn } from '@/lib/utils'
+
+const scopeOptions: Array<{ value: BudgetScope; label: string }> = [
+  { value: 'organization', label: 'Organization' },
+  { value: 'cluster', label: 'Cluster' },
+  { value: 'agent', label: 'Agent' },
+]
+
+const periodOptions: Array<{ value: BudgetPeriod; label: string }> = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'weekly', label: 'Weekly' },
+]
+
+function progressColor(budget: SpendBudgetStatus) {
+  if (budget.percent >= 100) return '[&>div]:bg-red-600'
+  if (budget.percent >= 80) return '[&>div]:bg-orange-500'
+  if (budget.percent >= 50) return '[&>div]:bg-yellow-500'
+  return ''
+}
+
+// Rendered once a cluster is picked, since agents are listed per cluster
+function AgentSelect({ clusterName, value, onChange }: { clusterName: string; value: string; onChange: (value: string) => void }) {
+  const { data: agentsResponse } = useAgents({ clusterName })
+  const agents: LanguageAgent[] = agentsResponse?.data || []
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder="Select an agent" />
+      </SelectTrigger>
+      <SelectContent>
+        {agents.map((agent) => (
+          <SelectItem key={agent.metadata.name} value={agent.metadata.name!}>
+            {agent.metadata.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+interface AddBudgetDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function AddBudgetDialog({ open, onOpenChange }: AddBudgetDialogProps) {
+  const [scope, setScope] = useState<BudgetScope>('organization')
+  const [clusterName, setClusterName] = useState('')
+  const [agentName, setAgentName] = useState('')
+  const [period, setPeriod] = useState<BudgetPeriod>('monthly')
+  const [amount, setAmount] = useState('')
+  const [pauseScheduledAgents, setPauseScheduledAgents] = useState(false)
+
+  const { data: clustersResponse } = useClusters()
+  const createBudget = useCreateSpendBudget()
+
+  const clusters: LanguageCluster[] = clustersResponse?.data || []
+
+  const parsedAmount = parseFloat(amount)
+  const isValid = parsedAmount > 0
+    && (scope === 'organization' || clusterName)
+    && (scope !== 'agent' || agentName)
+
+  const handleSave = async () => {
+    try {
+      await createBudget.mutateAsync({
+        scope,
+        clusterName: scope === 'organization' ? undefined : clusterName,
+        agentName: scope === 'agent' ? agentName : undefined,
+        period,
+        amount: parsedAmount,
+        pauseScheduledAgents,
+      })
+      toast.success('Budget created')
+      onOpenChange(false)
+      setAmount('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create budget')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Add Budget</DialogTitle>
+          <DialogDescription>
+            Alerts are raised at 50%, 80% and 100% of the budget
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Applies to</Label>
+            <Select value={scope} onValueChange={(value) => setScope(value as BudgetScope)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {scopeOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {scope !== 'organization' && (
+            <div className="space-y-2">
+              <Label>Cluster</Label>
+              <Select value={clusterName} onValueChange={(value) => { setClusterName(value); setAgentName('') }}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select a cluster" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clusters.map((cluster) => (
+                    <SelectItem key={cluster.metadata.name} value={cluster.metadata.name!}>
+                      {cluster.metadata.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {scope === 'agent' && (
+            <div className="space-y-2">
+              <Label>Agent</Label>
+              {clusterName ? (
+                <AgentSelect clusterName={clusterName} value={agentName} onChange={setAgentName} />
+              ) : (
+                <p className="text-sm text-muted-foreground">Select a cluster first</p>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={period} onValueChange={(value) => setPeriod(value as BudgetPeriod)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {periodOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-amount">Amount</Label>
+              <Input
+                id="budget-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="100.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <Label htmlFor="budget-pause">Pause scheduled agents</Label>
+              <p className="text-sm text-muted-foreground">
+                Suspend the CronJobs of scheduled agents once the budget is spent. They resume next period.
+              </p>
+            </div>
+            <Switch id="budget-pause" checked={pauseScheduledAgents} onCheckedChange={setPauseScheduledAgents} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!isValid || createBudget.isPending}>
+            {createBudget.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Add Budget
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function SpendBudgets() {
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const { data: budgets, isLoading, error } = useSpendBudgets()
+  const deleteBudget = useDeleteSpendBudget()
+  const updateBudget = useUpdateSpendBudget()
+
+  const handleDelete = async (budget: SpendBudgetStatus) => {
+    try {
+      await deleteBudget.mutateAsync(budget.id)
+      toast.success('Budget deleted')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete budget')
+    }
+  }
+
+  const handleTogglePause = async (budget: SpendBudgetStatus, pauseScheduledAgents: boolean) => {
+    try {
+      await updateBudget.mutateAsync({ id: budget.id, pauseScheduledAgents })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update budget')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Budgets
+          </CardTitle>
+          <CardDescription>Spend so far this week or month against each budget</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Budget
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : !budgets?.length ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            No budgets yet. Add one to be alerted before spend runs away.
+          </p>
+        ) : budgets.map((budget) => (
+          <div key={budget.id} className="space-y-2 border-b pb-4 last:border-0 last:pb-0">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="font-medium truncate">{describeBudgetTarget(budget)}</span>
+                <Badge variant="outline" className="text-xs capitalize">{budget.period}</Badge>
+                {budget.threshold !== null && (
+                  <Badge variant={budget.threshold >= 100 ? 'destructive' : 'secondary'} className="text-xs">
+                    {budget.threshold}% reached
+                  </Badge>
+                )}
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <span className="text-sm">
+                  {formatCurrencyAutoPrecision(budget.spent, budget.currency)}
+                  <span className="text-muted-foreground"> / {formatCurrencyAutoPrecision(budget.amount, budget.currency)}</span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(budget)}
+                  disabled={deleteBudget.isPending}
+                  aria-label="Delete budget"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <Progress value={Math.min(budget.percent, 100)} className={cn('h-2', progressColor(budget))} />
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Resets {new Date(budget.periodEnd).toLocaleDateString()}</span>
+              <label className="flex items-center gap-2">
+                Pause scheduled agents
+                <Switch
+                  checked={budget.pauseScheduledAgents}
+                  onCheckedChange={(checked) => handleTogglePause(budget, checked)}
+                  disabled={updateBudget.isPending}
+                />
+              </label>
+            </div>
+            {budget.pausedAgents.length > 0 && (
+              <p className="flex items-center gap-1 text-xs text-red-600">
+                <PauseCircle className="h-3 w-3" />
+                Paused until next period: {budget.pausedAgents.join(', ')}
+              </p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+
+      <AddBudgetDialog open={dialogOpen} onOpenChange={setDialogOpen} />
+    </Card>
+  )
+}
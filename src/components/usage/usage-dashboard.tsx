@@ -1,12 +1,15 @@
 'use client'
 
+import { useState } from 'react'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { AlertTriangle, Loader2 } from 'lucide-react'
 import { ResourceUsageCard } from './resource-usage-card'
 import { ComputeMemoryCard } from './compute-memory-card'
 import { PlanComparison } from './plan-comparison'
-import { useResourceMetrics, useUsageWarnings } from '@/hooks/useOrganizationUsage'
+import { useQuotaUsageHistory, useResourceMetrics, useUsageWarnings } from '@/hooks/useOrganizationUsage'
+import { USAGE_HISTORY_RANGES, isUsageHistoryRange, type UsageHistoryRange } from '@/types/usage'
 
 function LoadingSkeleton() {
   return (
@@ -70,6 +73,11 @@ function UsageWarnings() {
 
 export function UsageDashboard() {
   const { metrics, isLoading, error } = useResourceMetrics()
+  const [historyRange, setHistoryRange] = useState<UsageHistoryRange>(30)
+  const { data: history } = useQuotaUsageHistory(historyRange)
+
+  // Null when the quota has no snapshots in the range yet
+  const seriesFor = (resource: string) => history?.series[resource] ?? null
 
   if (isLoading) {
     return (
@@ -101,19 +109,45 @@ export function UsageDashboard() {
 
   return (
     <div className="space-y-12">
+      {/* Trend range */}
+      <div className="flex items-center justify-end gap-4">
+        <span className="text-xs font-light text-stone-600 dark:text-stone-400 uppercase tracking-wider">
+          Trend
+        </span>
+        <Tabs
+          value={String(historyRange)}
+          onValueChange={value => {
+            const days = Number(value)
+            if (isUsageHistoryRange(days)) setHistoryRange(days)
+          }}
+        >
+          <TabsList>
+            {USAGE_HISTORY_RANGES.map(days => (
+              <TabsTrigger key={days} value={String(days)}>{days}d</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+
       {/* Top Row: Compute and Memory Cards */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-        <ComputeMemoryCard data={metrics.compute} />
-        <ComputeMemoryCard data={metrics.memory} />
+        <ComputeMemoryCard
+          data={metrics.compute}
+          history={history && { requests: seriesFor('requests.cpu'), limits: seriesFor('limits.cpu') }}
+        />
+        <ComputeMemoryCard
+          data={metrics.memory}
+          history={history && { requests: seriesFor('requests.memory'), limits: seriesFor('limits.memory') }}
+        />
       </div>
 
       {/* Bottom Row: Resource Count Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6">
-        <ResourceUsageCard data={metrics.clusters} />
-        <ResourceUsageCard data={metrics.agents} />
-        <ResourceUsageCard data={metrics.models} />
-        <ResourceUsageCard data={metrics.tools} />
-        <ResourceUsageCard data={metrics.personas} />
+        <ResourceUsageCard data={metrics.clusters} history={history && seriesFor('count/languageclusters')} />
+        <ResourceUsageCard data={metrics.agents} history={history && seriesFor('count/languageagents')} />
+        <ResourceUsageCard data={metrics.models} history={history && seriesFor('count/languagemodels')} />
+        <ResourceUsageCard data={metrics.tools} history={history && seriesFor('count/languagetools')} />
+        <ResourceUsageCard data={metrics.personas} history={history && seriesFor('count/languagepersonas')} />
       </div>
 
       {/* Plan Comparison Section */}
@@ -0,0 +1,48 @@
+'use client'
+
+import { cn } from '@/lib/utils'
+import { Sparkline } from '@/components/ui/sparkline'
+import type { UsageHistorySeries } from '@/types/usage'
+
+// Forecasts this close to the limit are highlighted
+const FORECAST_WARNING_DAYS = 14
+
+function describeForecast(daysUntilLimit: number | null): string {
+  if (daysUntilLimit === null) {
+    return 'Not growing'
+  }
+  if (daysUntilLimit === 0) {
+    return 'At limit'
+  }
+  return `Limit in ~${daysUntilLimit} day${daysUntilLimit === 1 ? '' : 's'}`
+}
+
+/**
+ * Daily usage over the selected range with a "days until limit" forecast.
+ * Null series means no snapshots were recorded in the range yet.
+ */
+export function UsageTrend({ series, className }: { series: UsageHistorySeries | null; className?: string }) {
+  if (!series || series.values.length < 2) {
+    return (
+      <p className={cn("text-xs font-light text-stone-500 dark:text-stone-500", className)}>
+        Collecting usage history
+      </p>
+    )
+  }
+
+  const nearLimit = series.daysUntilLimit !== null && series.daysUntilLimit <= FORECAST_WARNING_DAYS
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <Sparkline data={series.values} className="h-10 w-full" />
+      <p
+        className={cn(
+          "text-xs font-light text-right",
+          nearLimit ? "text-amber-600 dark:text-amber-400" : "text-stone-500 dark:text-stone-500"
+        )}
+      >
+        {describeForecast(series.daysUntilLimit)}
+      </p>
+    </div>
+  )
+}
@@ -38,6 +38,10 @@ interface ConsoleContextType {
   refreshConversationList: () => void
   conversationListRefreshTrigger: number
 
+  // Message to scroll to and highlight, e.g. a search result
+  highlightedMessageId: string | null
+  setHighlightedMessageId: (messageId: string | null) => void
+
   // Workspace visibility
   isWorkspaceVisible: boolean
   toggleWorkspace: () => void
@@ -84,6 +88,7 @@ export function ConsoleProvider({
   })
   const [conversationDbId, setConversationDbId] = useState<string | null>(null)
   const [conversationListRefreshTrigger, setConversationListRefreshTrigger] = useState(0)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
   const [isWorkspaceVisible, setWorkspaceVisible] = useState(true)
   const [isConversationSidebarVisible, setConversationSidebarVisible] = useState(true)
 
@@ -405,6 +410,8 @@ export function ConsoleProvider({
     deleteConversation,
     refreshConversationList,
     conversationListRefreshTrigger,
+    highlightedMessageId,
+    setHighlightedMessageId,
     isWorkspaceVisible,
     toggleWorkspace,
     setWorkspaceVisible,
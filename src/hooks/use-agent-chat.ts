@@ -3,11 +3,12 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
 import { useMutation, useQuery } from '@tanstack/react-query'
 import { fetchWithOrganization } from '@/lib/api-client'
+import { readChatStream } from '@/lib/chat-stream'
+import { parsePartialAgentMessage } from '@/lib/message-parser'
 import { 
   ChatMessage, 
   ChatConversation, 
   AgentChatStatus, 
-  ChatResponse, 
   UseChatReturn,
   UseAgentChatStatusReturn 
 } from '@/types/chat'
@@ -87,7 +88,8 @@ export function useAgentChat(
             },
             body: JSON.stringify({
               message: messageContent,
-              conversation: conversationRef.current.filter(msg => msg.role !== 'system')
+              conversation: conversationRef.current.filter(msg => msg.role !== 'system'),
+              stream: true
             }),
           }
         )
@@ -97,8 +99,6 @@ export function useAgentChat(
           throw new Error(errorData.message || 'Failed to send message')
         }
 
-        const data: ChatResponse = await response.json()
-
         // Update user message status
         setMessages(prev => 
           prev.map(msg => 
@@ -108,17 +108,60 @@ export function useAgentChat(
           )
         )
 
-        // Add agent response
-        const agentMessage: ChatMessage = {
-          id: generateMessageId(),
+        // Add a placeholder agent response that fills in as the stream arrives
+        const agentMessageId = generateMessageId()
+        let streamedContent = ''
+        setMessages(prev => [...prev, {
+          id: agentMessageId,
           role: 'assistant',
-          content: data.message.content,
-          timestamp: data.message.timestamp,
-          agentName: data.agentName,
-          status: 'delivered'
+          content: '',
+          timestamp: new Date().toISOString(),
+          agentName,
+          isStreaming: true
+        }])
+
+        let data
+        try {
+          data = await readChatStream(response, (event) => {
+            if (event.type !== 'delta') return
+            streamedContent += event.content
+            const parsed = parsePartialAgentMessage(streamedContent)
+            setMessages(prev =>
+              prev.map(msg =>
+                msg.id === agentMessageId
+                  ? { ...msg, content: streamedContent, ...parsed }
+                  : msg
+              )
+            )
+          })
+        } catch (streamError) {
+          // Drop the partial response if the agent never produced any content
+          setMessages(prev =>
+            streamedContent
+              ? prev.map(msg => msg.id === agentMessageId ? { ...msg, isStreaming: false } : msg)
+              : prev.filter(msg => msg.id !== agentMessageId)
+          )
+          throw streamError
         }
 
-        setMessages(prev => [...prev, agentMessage])
+        // Replace the streamed placeholder with the final agent response
+        setMessages(prev =>
+          prev.map(msg =>
+            msg.id === agentMessageId
+              ? {
+                  ...msg,
+                  content: data.message.content,
+                  timestamp: data.message.timestamp,
+                  agentName: data.agentName,
+                  thinkingContent: data.message.thinkingContent,
+                  responseContent: data.message.responseContent,
+                  hasThinking: data.message.hasThinking,
+                  status: 'delivered' as const,
+                  isStreaming: false
+                }
+              : msg
+          )
+        )
 
         // Refresh agent status if needed
         if (data.agentStatus !== agentStatus?.status) {
@@ -0,0 +1,33 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query'
+import { fetchWithOrganization } from '@/lib/api-client'
+import type { AgentCostEstimate } from '@/lib/agent-cost-estimate'
+
+interface AgentCostEstimateResponse {
+  success: boolean
+  data: AgentCostEstimate
+}
+
+// Cost per execution of an agent using the models, from recent token usage
+export function useAgentCostEstimate(clusterName: string, models: string[], agentName?: string) {
+  return useQuery({
+    queryKey: ['agent-cost-estimate', clusterName, models, agentName],
+    queryFn: async (): Promise<AgentCostEstimate> => {
+      const searchParams = new URLSearchParams()
+      models.forEach(model => searchParams.append('models', model))
+      if (agentName) searchParams.append('agent', agentName)
+
+      const response = await fetchWithOrganization(`/api/clusters/${clusterName}/agents/cost-estimate?${searchParams}`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `Failed to estimate agent cost: ${response.status}`)
+      }
+
+      const result: AgentCostEstimateResponse = await response.json()
+      return result.data
+    },
+    enabled: !!clusterName && models.length > 0,
+    // Keep showing the last estimate while model selections change
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60 * 1000,
+  })
+}
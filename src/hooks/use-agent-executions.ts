@@ -1,4 +1,4 @@
-import { useQuery } from '@tanstack/react-query'
+import { useInfiniteQuery } from '@tanstack/react-query'
 import { fetchWithOrganization } from '@/lib/api-client'
 // Local type definitions
 interface AgentExecution {
@@ -10,27 +10,65 @@ interface AgentExecution {
   status: 'success' | 'error' | 'running'
   rootSpanName: string
   spanCount: number
+  errorSpanCount: number
+  models: string[]
+}
+
+interface FacetCount {
+  value: string
+  count: number
+}
+
+export interface ExecutionFacets {
+  status: FacetCount[]
+  rootSpanName: FacetCount[]
+  model: FacetCount[]
 }
 
 interface AgentExecutionsResponse {
   success: boolean
   data: AgentExecution[]
+  nextCursor: string | null
+  facets?: ExecutionFacets
 }
 
-export function useAgentExecutions(agentName: string, clusterName: string, options?: {
+export interface ExecutionFilterValues {
+  from: Date
+  to: Date
+  status?: 'success' | 'error'
+  minDuration?: number // ms
+  rootSpanName?: string
+  model?: string
+}
+
+export function useAgentExecutions(agentName: string, clusterName: string, filters: ExecutionFilterValues, options?: {
   limit?: number
-  timeRange?: number
   enabled?: boolean
 }) {
-  const { limit = 50, timeRange = 24 * 60 * 60 * 1000, enabled = true } = options || {}
-  
-  return useQuery<AgentExecutionsResponse>({
-    queryKey: ['agent-executions', clusterName, agentName, { limit, timeRange }],
-    queryFn: async () => {
+  const { limit = 50, enabled = true } = options || {}
+  const { from, to, status, minDuration, rootSpanName, model } = filters
+
+  return useInfiniteQuery({
+    queryKey: ['agent-executions', clusterName, agentName, {
+      limit,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      status,
+      minDuration,
+      rootSpanName,
+      model,
+    }],
+    queryFn: async ({ pageParam }): Promise<AgentExecutionsResponse> => {
       const searchParams = new URLSearchParams({
         limit: limit.toString(),
-        timeRange: timeRange.toString(),
+        from: from.toISOString(),
+        to: to.toISOString(),
       })
+      if (status) searchParams.set('status', status)
+      if (minDuration !== undefined) searchParams.set('minDuration', minDuration.toString())
+      if (rootSpanName) searchParams.set('rootSpanName', rootSpanName)
+      if (model) searchParams.set('model', model)
+      if (pageParam) searchParams.set('cursor', pageParam)
 
       const response = await fetchWithOrganization(
         `/api/clusters/${clusterName}/agents/${agentName}/executions?${searchParams}`
@@ -43,9 +81,10 @@ export function useAgentExecutions(agentName: string, clusterName: string, optio
 
       return response.json()
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: enabled && !!agentName && !!clusterName,
     staleTime: 30 * 1000, // 30 seconds
-    refetchInterval: 60 * 1000, // 1 minute
     retry: 2,
   })
-}
\ No newline at end of file
+}
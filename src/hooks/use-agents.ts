@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { fetchWithOrganization } from '@/lib/api-client'
+import { fetchWithOrganization, toResponseError } from '@/lib/api-client'
 import { useOrganizationStore } from '@/store/organization-store'
 import { LanguageAgent, LanguageAgentListParams, LanguageAgentFormData } from '@/types/agent'
 
@@ -101,7 +101,7 @@ export function useCreateAgent(clusterName: string) {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
-        throw new Error(errorData.error || 'Failed to create agent')
+        throw toResponseError(errorData, 'Failed to create agent')
       }
 
       return response.json()
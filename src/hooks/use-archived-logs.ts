@@ -0,0 +1,46 @@
+import { useQuery } from '@tanstack/react-query'
+import { fetchWithOrganization } from '@/lib/api-client'
+import type { LogLevel, LogSearchResult } from '@/types/logs'
+
+export interface ArchivedLogFilters {
+  from: Date
+  to: Date
+  levels?: LogLevel[]
+  text?: string
+  podName?: string
+}
+
+/**
+ * Search a resource's archived logs
+ * @param searchUrl The resource's `logs/search` route
+ */
+export function useArchivedLogs(searchUrl: string, filters: ArchivedLogFilters, options?: { enabled?: boolean }) {
+  const { from, to, levels, text, podName } = filters
+
+  return useQuery({
+    queryKey: ['archived-logs', searchUrl, {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      levels,
+      text,
+      podName,
+    }],
+    queryFn: async (): Promise<LogSearchResult> => {
+      const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() })
+      if (levels?.length) params.set('level', levels.join(','))
+      if (text) params.set('q', text)
+      if (podName) params.set('podName', podName)
+
+      const response = await fetchWithOrganization(`${searchUrl}?${params}`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to search archived logs')
+      }
+      const result = await response.json()
+      return result.data
+    },
+    enabled: options?.enabled ?? true,
+    staleTime: 30 * 1000,
+    refetchOnWindowFocus: false,
+  })
+}
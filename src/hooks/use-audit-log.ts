@@ -0,0 +1,91 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query'
+import { fetchWithOrganization } from '@/lib/api-client'
+import type { AuditAction, AuditLogEntry, AuditResourceType } from '@/types/audit'
+
+export interface AuditLogFilters {
+  // Entries from the last this many days
+  days: number
+  resourceType?: AuditResourceType
+  action?: AuditAction
+  // Part of the actor's email
+  actor?: string
+  // Part of the resource's name
+  resourceName?: string
+  page: number
+  limit: number
+  // The log is only readable by admins
+  enabled?: boolean
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[]
+  total: number
+  page: number
+  limit: number
+}
+
+/**
+ * The audit log's query string for a set of filters, shared by the page and its export
+ */
+export function buildAuditLogSearchParams(filters: Omit<AuditLogFilters, 'page' | 'limit' | 'enabled'>, now: Date = new Date()): URLSearchParams {
+  const searchParams = new URLSearchParams({
+    from: new Date(now.getTime() - filters.days * 24 * 60 * 60 * 1000).toISOString(),
+    to: now.toISOString(),
+  })
+  if (filters.resourceType) searchParams.set('resourceType', filters.resourceType)
+  if (filters.action) searchParams.set('action', filters.action)
+  if (filters.actor) searchParams.set('actor', filters.actor)
+  if (filters.resourceName) searchParams.set('resourceName', filters.resourceName)
+  return searchParams
+}
+
+/**
+ * Download the entries matching the filters as JSON Lines, named by the server's Content-Disposition
+ */
+export async function downloadAuditLogExport(filters: Omit<AuditLogFilters, 'page' | 'limit' | 'enabled'>): Promise<void> {
+  const response = await fetchWithOrganization(`/api/audit-log/export?${buildAuditLogSearchParams(filters)}`)
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || `Failed to export audit log: ${response.status}`)
+  }
+
+  const disposition = response.headers.get('Content-Disposition')
+  const filename = disposition?.match(/filename="([^"]+)"/)?.[1] || 'audit-log.jsonl'
+
+  const blob = await response.blob()
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+// One page of the organization's audit log, newest first
+export function useAuditLog(filters: AuditLogFilters) {
+  const { days, resourceType, action, actor, resourceName, page, limit, enabled = true } = filters
+
+  return useQuery({
+    queryKey: ['audit-log', { days, resourceType, action, actor, resourceName, page, limit }],
+    queryFn: async (): Promise<AuditLogPage> => {
+      const searchParams = buildAuditLogSearchParams({ days, resourceType, action, actor, resourceName })
+      searchParams.set('page', page.toString())
+      searchParams.set('limit', limit.toString())
+
+      const response = await fetchWithOrganization(`/api/audit-log?${searchParams}`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `Failed to fetch audit log: ${response.status}`)
+      }
+
+      const result = await response.json()
+      return { entries: result.data, total: result.total, page: result.page, limit: result.limit }
+    },
+    enabled,
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+    refetchOnWindowFocus: false,
+  })
+}
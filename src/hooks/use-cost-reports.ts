@@ -0,0 +1,145 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { fetchWithOrganization } from '@/lib/api-client'
+import type {
+  CostExportFormat,
+  CostReportFrequency,
+  CostReportScheduleSummary,
+  CostReportSummary,
+} from '@/lib/cost-export'
+
+export interface CostReports {
+  reports: CostReportSummary[]
+  schedules: CostReportScheduleSummary[]
+}
+
+interface CostReportsResponse {
+  success: boolean
+  data: CostReports
+}
+
+async function throwResponseError(response: Response, fallback: string): Promise<never> {
+  const errorData = await response.json().catch(() => ({}))
+  throw new Error(errorData.error || `${fallback}: ${response.status}`)
+}
+
+/**
+ * Download a cost export, named by the server's Content-Disposition
+ * @param path - `/api/cost/export?...` or `/api/cost/reports/<id>`
+ */
+export async function downloadCostExport(path: string): Promise<void> {
+  const response = await fetchWithOrganization(path)
+  if (!response.ok) {
+    await throwResponseError(response, 'Failed to download cost export')
+  }
+
+  const disposition = response.headers.get('Content-Disposition')
+  const filename = disposition?.match(/filename="([^"]+)"/)?.[1] || 'cost-export'
+
+  const blob = await response.blob()
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+// Stored reports and schedules; listing them also generates any scheduled reports that are due
+export function useCostReports() {
+  return useQuery({
+    queryKey: ['cost-reports'],
+    queryFn: async (): Promise<CostReports> => {
+      const response = await fetchWithOrganization('/api/cost/reports')
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to fetch cost reports')
+      }
+
+      const result: CostReportsResponse = await response.json()
+      return result.data
+    },
+    staleTime: 60 * 1000, // Cache for 1 minute
+    refetchOnWindowFocus: false,
+  })
+}
+
+export function useCreateCostReport() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ from, to, format }: { from: Date; to: Date; format: CostExportFormat }) => {
+      const response = await fetchWithOrganization('/api/cost/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from: from.toISOString(), to: to.toISOString(), format }),
+      })
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to create cost report')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cost-reports'] })
+    },
+  })
+}
+
+export function useDeleteCostReport() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (reportId: string) => {
+      const response = await fetchWithOrganization(`/api/cost/reports/${reportId}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to delete cost report')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cost-reports'] })
+    },
+  })
+}
+
+export function useCreateCostReportSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (schedule: { frequency: CostReportFrequency; format: CostExportFormat }) => {
+      const response = await fetchWithOrganization('/api/cost/reports/schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(schedule),
+      })
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to create report schedule')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cost-reports'] })
+    },
+  })
+}
+
+export function useDeleteCostReportSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (scheduleId: string) => {
+      const response = await fetchWithOrganization(`/api/cost/reports/schedules/${scheduleId}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to delete report schedule')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cost-reports'] })
+    },
+  })
+}
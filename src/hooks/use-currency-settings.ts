@@ -0,0 +1,92 @@
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query'
+import { fetchWithOrganization } from '@/lib/api-client'
+import type { CurrencySettings, ExchangeRate } from '@/lib/currency'
+
+interface CurrencySettingsResponse {
+  success: boolean
+  data: CurrencySettings
+}
+
+async function throwResponseError(response: Response, fallback: string): Promise<never> {
+  const errorData = await response.json().catch(() => ({}))
+  throw new Error(errorData.error || `${fallback}: ${response.status}`)
+}
+
+// Costs are converted with these settings, so cached reports are stale once they change
+function invalidateCostQueries(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: ['currency-settings'] })
+  queryClient.invalidateQueries({ queryKey: ['organization-cost'] })
+  queryClient.invalidateQueries({ queryKey: ['spend-budgets'] })
+  queryClient.invalidateQueries({ queryKey: ['execution-comparison'] })
+}
+
+export function useCurrencySettings() {
+  return useQuery({
+    queryKey: ['currency-settings'],
+    queryFn: async (): Promise<CurrencySettings> => {
+      const response = await fetchWithOrganization('/api/currency')
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to fetch currency settings')
+      }
+
+      const result: CurrencySettingsResponse = await response.json()
+      return result.data
+    },
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+  })
+}
+
+export function useUpdateReportingCurrency() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (reportingCurrency: string) => {
+      const response = await fetchWithOrganization('/api/currency', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reportingCurrency }),
+      })
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to update reporting currency')
+      }
+      return response.json()
+    },
+    onSuccess: () => invalidateCostQueries(queryClient),
+  })
+}
+
+export function useSaveExchangeRate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (rate: ExchangeRate) => {
+      const response = await fetchWithOrganization('/api/currency/rates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(rate),
+      })
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to save exchange rate')
+      }
+      return response.json()
+    },
+    onSuccess: () => invalidateCostQueries(queryClient),
+  })
+}
+
+export function useDeleteExchangeRate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (rateId: string) => {
+      const response = await fetchWithOrganization(`/api/currency/rates/${rateId}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to delete exchange rate')
+      }
+      return response.json()
+    },
+    onSuccess: () => invalidateCostQueries(queryClient),
+  })
+}
@@ -0,0 +1,47 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query'
+import { fetchWithOrganization } from '@/lib/api-client'
+import type { EventFeedEntry } from '@/types/events'
+
+export interface EventFeedFilters {
+  clusterName?: string
+  warningsOnly?: boolean
+  // Fold repeated events with the same reason on the same object
+  group?: boolean
+  page: number
+  limit: number
+}
+
+export interface EventFeed {
+  entries: EventFeedEntry[]
+  total: number
+  page: number
+  limit: number
+}
+
+// One page of the organization's Kubernetes events, newest first
+export function useEventFeed(filters: EventFeedFilters) {
+  const { clusterName, warningsOnly, group, page, limit } = filters
+
+  return useQuery({
+    queryKey: ['event-feed', { clusterName, warningsOnly, group, page, limit }],
+    queryFn: async (): Promise<EventFeed> => {
+      const searchParams = new URLSearchParams({ page: page.toString(), limit: limit.toString() })
+      if (clusterName) searchParams.set('clusterName', clusterName)
+      if (warningsOnly) searchParams.set('warningsOnly', 'true')
+      if (group) searchParams.set('group', 'true')
+
+      const response = await fetchWithOrganization(`/api/events/feed?${searchParams}`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `Failed to fetch events: ${response.status}`)
+      }
+
+      const result = await response.json()
+      return { entries: result.data, total: result.total, page: result.page, limit: result.limit }
+    },
+    placeholderData: keepPreviousData,
+    staleTime: 15 * 1000,
+    refetchInterval: 30 * 1000,
+    refetchOnWindowFocus: false,
+  })
+}
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query'
+import { fetchWithOrganization } from '@/lib/api-client'
+import type { ExecutionComparison } from '@/lib/execution-comparison'
+
+interface ExecutionComparisonResponse {
+  success: boolean
+  data: ExecutionComparison
+}
+
+// Compare a base execution with a target execution, by trace or execution ID
+export function useExecutionComparison(agentName: string, clusterName: string, base?: string, target?: string) {
+  return useQuery({
+    queryKey: ['execution-comparison', clusterName, agentName, base, target],
+    queryFn: async (): Promise<ExecutionComparison> => {
+      const searchParams = new URLSearchParams({ base: base!, target: target! })
+      const response = await fetchWithOrganization(
+        `/api/clusters/${clusterName}/agents/${agentName}/executions/compare?${searchParams}`
+      )
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `Failed to compare executions: ${response.status}`)
+      }
+
+      const result: ExecutionComparisonResponse = await response.json()
+      return result.data
+    },
+    enabled: !!(agentName && clusterName && base && target),
+    staleTime: 60 * 1000,
+  })
+}
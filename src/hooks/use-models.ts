@@ -2,6 +2,8 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { fetchWithOrganization } from '@/lib/api-client'
 import { useOrganizationStore } from '@/store/organization-store'
 import { LanguageModel, LanguageModelListParams, LanguageModelFormData } from '@/types/model'
+import type { ModelPriceTimelineEntry } from '@/lib/model-pricing'
+import type { ModelAnalytics } from '@/lib/model-analytics'
 
 export function useModels(params: LanguageModelListParams & { clusterName: string }) {
   const { activeOrganizationId } = useOrganizationStore()
@@ -56,6 +58,43 @@ export function useModel(name: string, clusterName: string) {
   })
 }
 
+// Price changes recorded for a model, newest first. Keyed under the model so
+// updating the model refetches it.
+export function useModelPriceHistory(name: string, clusterName: string) {
+  return useQuery({
+    queryKey: ['models', clusterName, name, 'prices'],
+    queryFn: async (): Promise<ModelPriceTimelineEntry[]> => {
+      const response = await fetchWithOrganization(`/api/clusters/${clusterName}/models/${name}/prices`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch model price history')
+      }
+      const result = await response.json()
+      return result.data
+    },
+    enabled: !!name && !!clusterName,
+  })
+}
+
+// Requests, tokens, latency and errors of the model from telemetry, across every agent
+export function useModelAnalytics(name: string, clusterName: string, range: { from: Date; to: Date }) {
+  return useQuery({
+    queryKey: ['models', clusterName, name, 'analytics', range.from.toISOString(), range.to.toISOString()],
+    queryFn: async (): Promise<ModelAnalytics> => {
+      const params = new URLSearchParams({ from: range.from.toISOString(), to: range.to.toISOString() })
+      const response = await fetchWithOrganization(`/api/clusters/${clusterName}/models/${name}/analytics?${params}`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to fetch model analytics')
+      }
+      const result = await response.json()
+      return result.data
+    },
+    enabled: !!name && !!clusterName,
+    staleTime: 60 * 1000, // Cache for 1 minute
+    refetchOnWindowFocus: false,
+  })
+}
+
 export function useUpdateModel(clusterName: string) {
   const queryClient = useQueryClient()
   const { activeOrganizationId } = useOrganizationStore()
@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query'
+import { fetchWithOrganization } from '@/lib/api-client'
+import type { OrganizationCostReport } from '@/lib/organization-cost'
+
+export interface OrganizationCost extends OrganizationCostReport {
+  period: {
+    from: string
+    to: string
+    granularity: 'hour' | 'day'
+  }
+}
+
+interface OrganizationCostResponse {
+  success: boolean
+  data: OrganizationCost
+}
+
+// LLM spend across all of the organization's agents; granularity follows the range
+export function useOrganizationCost(from: Date, to: Date, options?: { top?: number }) {
+  const { top = 10 } = options || {}
+
+  return useQuery({
+    queryKey: ['organization-cost', from.toISOString(), to.toISOString(), top],
+    queryFn: async (): Promise<OrganizationCost> => {
+      const searchParams = new URLSearchParams({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        top: top.toString(),
+      })
+      const response = await fetchWithOrganization(`/api/cost?${searchParams}`)
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `Failed to fetch organization cost: ${response.status}`)
+      }
+
+      const result: OrganizationCostResponse = await response.json()
+      return result.data
+    },
+    staleTime: 60 * 1000, // Cache for 1 minute
+    refetchOnWindowFocus: false,
+  })
+}
@@ -0,0 +1,124 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { fetchWithOrganization } from '@/lib/api-client'
+import type { PlanDefinition, PlanId, QuotaRequestSummary } from '@/lib/plans'
+
+async function throwResponseError(response: Response, fallback: string): Promise<never> {
+  const errorData = await response.json().catch(() => ({}))
+  throw new Error(errorData.error || `${fallback}: ${response.status}`)
+}
+
+export type QuotaRequestInput =
+  | { plan: PlanId; message?: string }
+  | { quotas: Record<string, string>; message: string }
+
+// Plans served by the API, the same definitions ResourceQuotas are created from
+export function usePlans() {
+  return useQuery({
+    queryKey: ['plans'],
+    queryFn: async (): Promise<PlanDefinition[]> => {
+      const response = await fetch('/api/plans')
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to fetch plans')
+      }
+
+      const result: { success: boolean; data: PlanDefinition[] } = await response.json()
+      return result.data
+    },
+    staleTime: 60 * 60 * 1000, // Plans only change with a deployment
+    refetchOnWindowFocus: false,
+  })
+}
+
+export function useQuotaRequests() {
+  return useQuery({
+    queryKey: ['quota-requests'],
+    queryFn: async (): Promise<QuotaRequestSummary[]> => {
+      const response = await fetchWithOrganization('/api/quota-requests')
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to fetch quota requests')
+      }
+
+      const result: { success: boolean; data: QuotaRequestSummary[] } = await response.json()
+      return result.data
+    },
+    staleTime: 60 * 1000, // Cache for 1 minute
+  })
+}
+
+export function useCreateQuotaRequest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (quotaRequest: QuotaRequestInput) => {
+      const response = await fetchWithOrganization('/api/quota-requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(quotaRequest),
+      })
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to request quota change')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quota-requests'] })
+    },
+  })
+}
+
+export function useCancelQuotaRequest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (requestId: string) => {
+      const response = await fetchWithOrganization(`/api/quota-requests/${requestId}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to cancel quota request')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quota-requests'] })
+    },
+  })
+}
+
+// Requests from every organization, for platform admins
+export function useAdminQuotaRequests(status?: string) {
+  return useQuery({
+    queryKey: ['admin-quota-requests', status],
+    queryFn: async (): Promise<QuotaRequestSummary[]> => {
+      const response = await fetch(`/api/admin/quota-requests${status ? `?status=${status}` : ''}`)
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to fetch quota requests')
+      }
+
+      const result: { success: boolean; data: QuotaRequestSummary[] } = await response.json()
+      return result.data
+    },
+    staleTime: 30 * 1000,
+  })
+}
+
+export function useReviewQuotaRequest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ requestId, decision, note }: { requestId: string; decision: 'approve' | 'reject'; note?: string }) => {
+      const response = await fetch(`/api/admin/quota-requests/${requestId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, note }),
+      })
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to review quota request')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-quota-requests'] })
+    },
+  })
+}
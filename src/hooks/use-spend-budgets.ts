@@ -0,0 +1,102 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { fetchWithOrganization } from '@/lib/api-client'
+import type { BudgetPeriod, BudgetScope, SpendBudgetStatus } from '@/lib/spend-budgets'
+
+export interface SpendBudgetFormData {
+  scope: BudgetScope
+  clusterName?: string
+  agentName?: string
+  period: BudgetPeriod
+  amount: number
+  pauseScheduledAgents: boolean
+}
+
+interface SpendBudgetsResponse {
+  success: boolean
+  data: SpendBudgetStatus[]
+}
+
+async function throwResponseError(response: Response, fallback: string): Promise<never> {
+  const errorData = await response.json().catch(() => ({}))
+  throw new Error(errorData.error || `${fallback}: ${response.status}`)
+}
+
+// Budgets with spend so far this period and the alerts the server's checks last raised
+export function useSpendBudgets(options?: { refetchInterval?: number }) {
+  return useQuery({
+    queryKey: ['spend-budgets'],
+    queryFn: async (): Promise<SpendBudgetStatus[]> => {
+      const response = await fetchWithOrganization('/api/budgets')
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to fetch budgets')
+      }
+
+      const result: SpendBudgetsResponse = await response.json()
+      return result.data
+    },
+    staleTime: 60 * 1000, // Cache for 1 minute
+    refetchInterval: options?.refetchInterval,
+    refetchOnWindowFocus: false,
+  })
+}
+
+export function useCreateSpendBudget() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (budget: SpendBudgetFormData) => {
+      const response = await fetchWithOrganization('/api/budgets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(budget),
+      })
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to create budget')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['spend-budgets'] })
+    },
+  })
+}
+
+export function useDeleteSpendBudget() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (budgetId: string) => {
+      const response = await fetchWithOrganization(`/api/budgets/${budgetId}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to delete budget')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['spend-budgets'] })
+    },
+  })
+}
+
+export function useUpdateSpendBudget() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string } & Partial<Pick<SpendBudgetFormData, 'period' | 'amount' | 'pauseScheduledAgents'>>) => {
+      const response = await fetchWithOrganization(`/api/budgets/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+      if (!response.ok) {
+        await throwResponseError(response, 'Failed to update budget')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['spend-budgets'] })
+    },
+  })
+}
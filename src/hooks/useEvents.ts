@@ -1,28 +1,9 @@
 import { useQuery } from '@tanstack/react-query'
 import { useWatchEvents } from './use-watch'
 import { useState, useEffect, useMemo } from 'react'
+import type { K8sEvent } from '@/types/events'
 
-export interface K8sEvent {
-  id: string
-  type: 'agent' | 'model' | 'tool' | 'persona' | 'cluster' | 'pod' | 'service' | 'deployment'
-  action: 'created' | 'updated' | 'scaled' | 'failed' | 'ready' | 'warning' | 'normal' | string
-  resourceName: string
-  namespace: string
-  message: string
-  timestamp: string
-  reason: string
-  source: string
-  eventType: 'Normal' | 'Warning'
-  count?: number
-  firstTimestamp?: string
-  lastTimestamp?: string
-  involvedObject: {
-    kind: string
-    name: string
-    namespace: string
-    uid?: string
-  }
-}
+export type { K8sEvent }
 
 export interface EventsResponse {
   success: boolean
@@ -1,4 +1,8 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
+import type { PodLogLine } from '@/types/logs'
+
+// A raw line from one pod, or a line tagged with its pod when several are merged
+export type LogViewerEntry = string | PodLogLine
 
 export interface UseLogViewerOptions {
   autoScroll?: boolean
@@ -7,7 +11,7 @@ export interface UseLogViewerOptions {
 
 export interface UseLogViewerReturn {
   // State
-  logs: string[]
+  logs: LogViewerEntry[]
   loading: boolean
   error: string | null
   isAtBottom: boolean
@@ -18,7 +22,7 @@ export interface UseLogViewerReturn {
   logsContainerRef: React.RefObject<HTMLDivElement | null>
   
   // Actions
-  setLogs: React.Dispatch<React.SetStateAction<string[]>>
+  setLogs: React.Dispatch<React.SetStateAction<LogViewerEntry[]>>
   setLoading: React.Dispatch<React.SetStateAction<boolean>>
   setError: React.Dispatch<React.SetStateAction<string | null>>
   scrollToBottom: () => void
@@ -30,7 +34,7 @@ export function useLogViewer(options: UseLogViewerOptions = {}): UseLogViewerRet
   const { autoScroll = true } = options
   
   // State
-  const [logs, setLogs] = useState<string[]>([])
+  const [logs, setLogs] = useState<LogViewerEntry[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isAtBottom, setIsAtBottom] = useState(true)
@@ -1,9 +1,10 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useSession } from 'next-auth/react'
 import { useOrganization } from '@/components/organization-provider'
-import type { OrganizationUsage, UsageApiResponse, ResourceMetrics, ComputeMemoryCardData } from '@/types/usage'
+import type { OrganizationUsage, UsageApiResponse, ResourceMetrics, ComputeMemoryCardData, QuotaUsageHistory, UsageHistoryRange } from '@/types/usage'
 import { getUsageStatus, formatResourceValue, calculateUsagePercentage } from '@/types/usage'
 import { QUOTA_LABELS } from '@/types/quota'
+import { usePlans } from './use-plans'
 
 export function useOrganizationUsage() {
   const { data: session } = useSession()
@@ -32,6 +33,32 @@ export function useOrganizationUsage() {
   })
 }
 
+// Daily usage of each quota over the range, from the snapshots the server records
+export function useQuotaUsageHistory(days: UsageHistoryRange) {
+  const { data: session } = useSession()
+  const { organization } = useOrganization()
+
+  return useQuery<QuotaUsageHistory>({
+    queryKey: ['organization-usage-history', organization?.id, days],
+    queryFn: async () => {
+      if (!organization?.id) {
+        throw new Error('No active organization')
+      }
+
+      const response = await fetch(`/api/${organization.id}/quota/history?days=${days}`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch usage history')
+      }
+
+      const result: { success: boolean; data: QuotaUsageHistory } = await response.json()
+      return result.data
+    },
+    enabled: !!session?.user && !!organization?.id,
+    staleTime: 10 * 60 * 1000, // Snapshots are recorded hourly by default
+  })
+}
+
 export function useResourceMetrics() {
   const { data: usage, isLoading, error } = useOrganizationUsage()
 
@@ -165,19 +192,12 @@ export function usePlanInfo() {
   const { organization } = useOrganization()
   const { data: usage } = useOrganizationUsage()
   
-  const planDisplayNames = {
-    free: 'Free',
-    pro: 'Professional', 
-    enterprise: 'Enterprise',
-    custom: 'Custom'
-  }
-  
-  const planDescriptions = {
-    free: 'Perfect for exploring the frontier',
-    pro: 'Advanced features for growing teams',
-    enterprise: 'Full-scale deployment capabilities',
-    custom: 'Tailored resources for your organization'
-  }
+  const { data: plans } = usePlans()
+
+  const currentPlan = organization?.plan || 'free'
+  const plan = plans?.find(definition => definition.id === currentPlan)
+  // Plans are ordered; custom quotas sit outside the upgrade path
+  const nextPlan = plan ? plans?.[plans.indexOf(plan) + 1] || null : null
 
   // Derive plan features from actual quota data
   const getPlanFeatures = () => {
@@ -244,10 +264,11 @@ export function usePlanInfo() {
   }
   
   return {
-    currentPlan: organization?.plan || 'free',
-    displayName: planDisplayNames[organization?.plan as keyof typeof planDisplayNames] || 'Free',
-    description: planDescriptions[organization?.plan as keyof typeof planDescriptions] || planDescriptions.free,
-    isUpgradeable: organization?.plan === 'free' || organization?.plan === 'pro',
+    currentPlan,
+    displayName: currentPlan === 'custom' ? 'Custom' : plan?.name || currentPlan,
+    description: currentPlan === 'custom' ? 'Tailored resources for your organization' : plan?.description || '',
+    isUpgradeable: !!nextPlan,
+    nextPlan,
     features: getPlanFeatures()
   }
 }
\ No newline at end of file
@@ -0,0 +1,17 @@
+// Runs once when the server starts
+export async function register() {
+  // Background work needs Node APIs and the database, so skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startQuotaUsageSnapshots } = await import('./lib/quota-usage-snapshot-service')
+    startQuotaUsageSnapshots()
+
+    const { startLogArchive } = await import('./lib/log-archive-service')
+    startLogArchive()
+
+    const { startSpendBudgetChecks } = await import('./lib/spend-budget-service')
+    startSpendBudgetChecks()
+
+    const { startCostReportSchedules } = await import('./lib/cost-report-service')
+    startCostReportSchedules()
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Test suite for agent cost estimates
+ *
+ * Tests which agents token averages are taken from, and pricing an average
+ * execution on each selected model.
+ */
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    modelPriceVersion: { findMany: jest.fn().mockResolvedValue([]) },
+    organization: { findUnique: jest.fn().mockResolvedValue({ reportingCurrency: 'USD' }) },
+    exchangeRate: { findMany: jest.fn().mockResolvedValue([]) },
+  },
+}))
+
+jest.mock('@/lib/k8s-client', () => ({
+  k8sClient: { getLanguageModel: jest.fn() },
+}))
+
+import { k8sClient } from '@/lib/k8s-client'
+import { setTelemetryRepository } from '../telemetry-repository'
+import { createInMemoryTelemetryRepository, type TelemetrySpanRecord } from '../in-memory-telemetry-repository'
+import { estimateAgentCost, getExecutionTokenProfile } from '../agent-cost-estimate'
+
+const mockGetLanguageModel = k8sClient.getLanguageModel as jest.Mock
+
+const usage = [
+  { agentName: 'writer', executions: 10, inputTokens: 20000, outputTokens: 5000, models: ['qwen3-coder:30b'] },
+  { agentName: 'reviewer', executions: 30, inputTokens: 20000, outputTokens: 3000, models: ['gpt-4o', 'qwen3-coder:30b'] },
+  { agentName: 'idle', executions: 0, inputTokens: 0, outputTokens: 0, models: [] },
+]
+
+describe('Agent Cost Estimate', () => {
+  describe('getExecutionTokenProfile', () => {
+    it('should prefer the agent\'s own history', () => {
+      const profile = getExecutionTokenProfile(usage, ['gpt-4o'], 'writer', 10)
+
+      expect(profile).toEqual({
+        basis: 'agent',
+        sampleAgents: ['writer'],
+        sampleExecutions: 10,
+        avgInputTokens: 2000,
+        avgOutputTokens: 500,
+        executionsPerDay: 1,
+      })
+    })
+
+    it('should average agents that used any of the models', () => {
+      const profile = getExecutionTokenProfile(usage, ['qwen3-coder-30b'], undefined, 10)
+
+      expect(profile.basis).toBe('similar')
+      expect(profile.sampleAgents).toEqual(['writer', 'reviewer'])
+      expect(profile.avgInputTokens).toBe(1000)
+      expect(profile.avgOutputTokens).toBe(200)
+      expect(profile.executionsPerDay).toBe(2)
+    })
+
+    it('should have no basis when nothing ran on the models', () => {
+      const profile = getExecutionTokenProfile(usage, ['claude'], 'idle')
+
+      expect(profile).toEqual(expect.objectContaining({ basis: 'none', sampleAgents: [], avgInputTokens: 0, executionsPerDay: 0 }))
+    })
+  })
+
+  describe('estimateAgentCost', () => {
+    const now = new Date('2026-01-31T00:00:00Z')
+
+    function llmSpan(traceId: string, agentName: string, model: string): TelemetrySpanRecord {
+      return {
+        traceId,
+        spanId: `${traceId}-llm`,
+        spanName: 'llm.call',
+        timestamp: new Date('2026-01-20T10:00:00Z'),
+        durationNs: 1000000,
+        resourceAttributes: { 'k8s.namespace.name': 'org-ns' },
+        spanAttributes: {
+          'agent.name': agentName,
+          'gen_ai.request.model': model,
+          'gen_ai.usage.input_tokens': '1000',
+          'gen_ai.usage.output_tokens': '100',
+        },
+      }
+    }
+
+    afterEach(() => {
+      setTelemetryRepository(null)
+    })
+
+    it('should price an average execution on each model', async () => {
+      setTelemetryRepository(createInMemoryTelemetryRepository([
+        llmSpan('trace-1', 'writer', 'gpt-4o'),
+        llmSpan('trace-2', 'writer', 'gpt-4o'),
+      ]))
+      mockGetLanguageModel.mockImplementation(async (_namespace: string, name: string) => (
+        name === 'gpt-4o' ? { spec: { costTracking: { enabled: true, inputTokenCost: 0.01, outputTokenCost: 0.03, currency: 'USD' } } } : null
+      ))
+
+      const estimate = await estimateAgentCost({ id: 'org-1', namespace: 'org-ns' }, { models: ['gpt-4o', 'local'], now })
+
+      expect(estimate.basis).toBe('similar')
+      expect(estimate.currency).toBe('USD')
+      expect(estimate.models).toEqual([
+        { name: 'gpt-4o', costPerExecution: expect.closeTo(0.013) },
+        { name: 'local', costPerExecution: null },
+      ])
+    })
+  })
+})
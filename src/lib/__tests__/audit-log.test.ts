@@ -0,0 +1,109 @@
+/**
+ * Test suite for the audit log
+ *
+ * Tests the spec diff stored with each entry, redaction of credentials,
+ * the JSON Lines export and its file name.
+ */
+
+import { diffSpecs, formatAuditLogJsonl, getAuditLogExportFilename } from '../audit-log'
+import type { AuditLogEntry } from '@/types/audit'
+
+describe('diffSpecs', () => {
+  it('should list changed, added and removed fields by dotted path', () => {
+    const before = { replicas: 1, modelRefs: [{ name: 'gpt-4o' }], workspace: { enabled: true, size: '10Gi' } }
+    const after = { replicas: 2, modelRefs: [{ name: 'gpt-4o' }], workspace: { enabled: true }, timeout: '5m' }
+
+    expect(diffSpecs(before, after)).toEqual([
+      { path: 'replicas', before: 1, after: 2 },
+      { path: 'timeout', after: '5m' },
+      { path: 'workspace.size', before: '10Gi' },
+    ])
+  })
+
+  it('should compare arrays whole', () => {
+    expect(diffSpecs({ toolRefs: [{ name: 'web' }, { name: 'fs' }] }, { toolRefs: [{ name: 'fs' }, { name: 'web' }] })).toEqual([
+      { path: 'toolRefs', before: [{ name: 'web' }, { name: 'fs' }], after: [{ name: 'fs' }, { name: 'web' }] },
+    ])
+  })
+
+  it('should list every field of a created or deleted resource', () => {
+    expect(diffSpecs(undefined, { image: 'tool:1', port: 8080 })).toEqual([
+      { path: 'image', after: 'tool:1' },
+      { path: 'port', after: 8080 },
+    ])
+    expect(diffSpecs({ role: 'editor' }, undefined)).toEqual([{ path: 'role', before: 'editor' }])
+  })
+
+  it('should find nothing when the specs match', () => {
+    expect(diffSpecs({ a: { b: [1, 2] } }, { a: { b: [1, 2] } })).toEqual([])
+  })
+
+  it('should record a credential as changed without its values', () => {
+    expect(diffSpecs({ provider: 'openai', apiKey: 'sk-old' }, { provider: 'openai', apiKey: 'sk-new' })).toEqual([
+      { path: 'apiKey', before: '[redacted]', after: '[redacted]' },
+    ])
+    expect(diffSpecs({ auth: { clientSecret: 'old' } }, { auth: { clientSecret: 'new' } })).toEqual([
+      { path: 'auth.clientSecret', before: '[redacted]', after: '[redacted]' },
+    ])
+  })
+
+  it('should keep the values of token limits and prices', () => {
+    const before = { parameters: { maxTokens: 1000 }, costTracking: { inputTokenCost: 2.5, outputTokenCost: 10 } }
+    const after = { parameters: { maxTokens: 2000 }, costTracking: { inputTokenCost: 3, outputTokenCost: 10 } }
+
+    expect(diffSpecs(before, after)).toEqual([
+      { path: 'costTracking.inputTokenCost', before: 2.5, after: 3 },
+      { path: 'parameters.maxTokens', before: 1000, after: 2000 },
+    ])
+    expect(diffSpecs({ accessToken: 'old' }, { accessToken: 'new' })).toEqual([
+      { path: 'accessToken', before: '[redacted]', after: '[redacted]' },
+    ])
+  })
+
+  it('should redact environment variable values inside arrays', () => {
+    const before = { env: [{ name: 'LOG_LEVEL', value: 'info' }] }
+    const after = { env: [{ name: 'LOG_LEVEL', value: 'info' }, { name: 'OPENAI_API_KEY', value: 'sk-new' }] }
+
+    expect(diffSpecs(before, after)).toEqual([
+      {
+        path: 'env',
+        before: [{ name: 'LOG_LEVEL', value: '[redacted]' }],
+        after: [{ name: 'LOG_LEVEL', value: '[redacted]' }, { name: 'OPENAI_API_KEY', value: '[redacted]' }],
+      },
+    ])
+  })
+})
+
+describe('formatAuditLogJsonl', () => {
+  const entry: AuditLogEntry = {
+    id: 'log-1',
+    actor: { id: 'user-1', email: 'ana@example.com' },
+    action: 'update',
+    resourceType: 'agent',
+    resourceName: 'writer',
+    clusterName: 'prod',
+    changes: [{ path: 'replicas', before: 1, after: 2 }],
+    metadata: null,
+    createdAt: '2026-01-10T12:00:00.000Z',
+  }
+
+  it('should write one entry per line', () => {
+    const output = formatAuditLogJsonl([entry, { ...entry, id: 'log-2', action: 'delete', changes: [] }])
+    const lines = output.trimEnd().split('\n')
+
+    expect(output.endsWith('\n')).toBe(true)
+    expect(lines.map(line => JSON.parse(line).id)).toEqual(['log-1', 'log-2'])
+    expect(JSON.parse(lines[0])).toEqual(entry)
+  })
+
+  it('should write nothing for no entries', () => {
+    expect(formatAuditLogJsonl([])).toBe('')
+  })
+})
+
+describe('getAuditLogExportFilename', () => {
+  it('should name the export by organization and days covered', () => {
+    expect(getAuditLogExportFilename('acme', new Date('2026-01-01T00:00:00Z'), new Date('2026-01-31T23:59:59Z')))
+      .toBe('acme-audit-2026-01-01-to-2026-01-31.jsonl')
+  })
+})
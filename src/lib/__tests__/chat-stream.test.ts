@@ -0,0 +1,88 @@
+/**
+ * Test suite for agent chat streaming helpers
+ *
+ * Tests incremental SSE parsing, OpenAI chunk extraction and the
+ * partial thinking parser used while a response is still streaming.
+ */
+
+import { createSSEParser, extractCompletionMetadata, parseCompletionChunk } from '../chat-stream'
+import { parsePartialAgentMessage } from '../message-parser'
+
+describe('Chat Stream', () => {
+  describe('createSSEParser', () => {
+    it('should emit events split across chunk boundaries', () => {
+      const onData = jest.fn()
+      const parser = createSSEParser(onData)
+
+      parser.push('data: {"a":')
+      parser.push('1}\n')
+      expect(onData).not.toHaveBeenCalled()
+
+      parser.push('\ndata: [DONE]\n\n')
+      expect(onData).toHaveBeenNthCalledWith(1, '{"a":1}')
+      expect(onData).toHaveBeenNthCalledWith(2, '[DONE]')
+    })
+
+    it('should ignore comments and other fields', () => {
+      const onData = jest.fn()
+      const parser = createSSEParser(onData)
+
+      parser.push(': keep-alive\r\nevent: message\r\ndata: hello\r\n\r\n')
+      expect(onData).toHaveBeenCalledTimes(1)
+      expect(onData).toHaveBeenCalledWith('hello')
+    })
+
+    it('should dispatch a trailing event on flush', () => {
+      const onData = jest.fn()
+      const parser = createSSEParser(onData)
+
+      parser.push('data: last')
+      parser.flush()
+      expect(onData).toHaveBeenCalledWith('last')
+    })
+  })
+
+  describe('parseCompletionChunk', () => {
+    it('should return the content delta', () => {
+      expect(parseCompletionChunk('{"choices":[{"delta":{"content":"Hi"}}]}')?.content).toBe('Hi')
+    })
+
+    it('should return no content for role-only chunks and null for invalid ones', () => {
+      expect(parseCompletionChunk('{"choices":[{"delta":{"role":"assistant"}}]}')?.content).toBeNull()
+      expect(parseCompletionChunk('not json')).toBeNull()
+    })
+  })
+
+  describe('extractCompletionMetadata', () => {
+    it('should normalize model, usage and finish reason', () => {
+      expect(extractCompletionMetadata({
+        model: 'gpt-4o',
+        choices: [{ finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 30 }
+      })).toEqual({
+        model: 'gpt-4o',
+        finishReason: 'stop',
+        usage: { inputTokens: 12, outputTokens: 30, totalTokens: 42 }
+      })
+    })
+
+    it('should omit fields missing from a chunk', () => {
+      expect(extractCompletionMetadata({ choices: [{ delta: { content: 'Hi' } }] })).toEqual({})
+    })
+  })
+
+  describe('parsePartialAgentMessage', () => {
+    it('should treat an unclosed [THINK] section as thinking', () => {
+      const parsed = parsePartialAgentMessage('[THINK]Looking at the')
+      expect(parsed.thinkingContent).toEqual(['Looking at the'])
+      expect(parsed.responseContent).toBe('')
+      expect(parsed.hasThinking).toBe(true)
+    })
+
+    it('should separate closed thinking from the response so far', () => {
+      const parsed = parsePartialAgentMessage('[THINK]plan[/THINK]The answer is [TH')
+      expect(parsed.thinkingContent).toEqual(['plan'])
+      expect(parsed.responseContent).toBe('The answer is')
+    })
+  })
+})
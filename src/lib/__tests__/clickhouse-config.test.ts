@@ -0,0 +1,65 @@
+/**
+ * Test suite for ClickHouse query helpers
+ *
+ * Tests that kubectl-proxy queries bind parameters server-side instead of
+ * splicing them into SQL and decode JSONEachRow results.
+ */
+
+import { queryClickHouseProxy } from '../clickhouse-config'
+
+// Mock fetch globally
+global.fetch = jest.fn()
+
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>
+
+describe('ClickHouse Config', () => {
+  describe('queryClickHouseProxy', () => {
+    const originalEnv = process.env
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      process.env = { ...originalEnv, KUBERNETES_SERVER_URL: 'http://kubectl-proxy:8001' }
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => '{"traceId":"abc","spanCount":"2"}\n{"traceId":"def","spanCount":"1"}\n'
+      } as Response)
+    })
+
+    afterAll(() => {
+      process.env = originalEnv
+    })
+
+    it('should send parameters as param_ URL parameters', async () => {
+      const sql = "SELECT 1 WHERE SpanAttributes['agent.name'] = {agentName:String}"
+      const agentName = "x' OR 1=1 --"
+
+      await queryClickHouseProxy(sql, { agentName, limit: 10 })
+
+      const url = new URL(mockFetch.mock.calls[0][0] as string)
+      expect(url.searchParams.get('query')).toBe(sql)
+      expect(url.searchParams.get('default_format')).toBe('JSONEachRow')
+      expect(url.searchParams.get('param_agentName')).toBe(agentName)
+      expect(url.searchParams.get('param_limit')).toBe('10')
+    })
+
+    it('should decode one row per line', async () => {
+      await expect(queryClickHouseProxy('SELECT 1', {})).resolves.toEqual([
+        { traceId: 'abc', spanCount: '2' },
+        { traceId: 'def', spanCount: '1' },
+      ])
+    })
+
+    it('should return no rows for an empty result', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200, text: async () => '' } as Response)
+
+      await expect(queryClickHouseProxy('SELECT 1', {})).resolves.toEqual([])
+    })
+
+    it('should throw when ClickHouse rejects the query', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 400, statusText: 'Bad Request' } as Response)
+
+      await expect(queryClickHouseProxy('SELECT 1', {})).rejects.toThrow('ClickHouse query failed: 400 Bad Request')
+    })
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Test suite for conversation export and search helpers
+ *
+ * Tests transcript export with thinking content and tool calls, and
+ * the snippets and match highlighting shown for search results.
+ */
+
+import {
+  buildConversationExport,
+  formatConversationMarkdown,
+  getConversationExportFilename
+} from '../conversation-export'
+import { buildSearchSnippet, splitSearchMatches } from '../conversation-search'
+
+describe('Conversation Export', () => {
+  const conversation = {
+    id: 'conv1',
+    agentName: 'support-agent',
+    clusterName: 'prod',
+    title: 'Broken deploy',
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2026-01-01T00:05:00.000Z')
+  }
+
+  const messages = [
+    {
+      id: 'm1',
+      role: 'user',
+      content: 'Why did the deploy fail?',
+      toolCalls: null,
+      metadata: null,
+      timestamp: new Date('2026-01-01T00:00:00.000Z')
+    },
+    {
+      id: 'm2',
+      role: 'assistant',
+      content: '[THINK]Check the logs first[/THINK]The image tag was missing.',
+      toolCalls: [{
+        id: 'call_1',
+        name: 'kubectl__logs',
+        arguments: '{"pod":"web-1"}',
+        result: 'ImagePullBackOff',
+        status: 'completed' as const
+      }],
+      metadata: { model: 'gpt-4o', usage: { inputTokens: 12, outputTokens: 8, totalTokens: 20 } },
+      timestamp: new Date('2026-01-01T00:00:05.000Z')
+    }
+  ]
+
+  describe('buildConversationExport', () => {
+    it('should separate thinking content from assistant responses', () => {
+      const data = buildConversationExport(conversation, messages)
+
+      expect(data.conversation).toMatchObject({ id: 'conv1', agentName: 'support-agent', createdAt: '2026-01-01T00:00:00.000Z' })
+      expect(data.messages[0]).toMatchObject({ responseContent: 'Why did the deploy fail?', thinkingContent: [], toolCalls: [] })
+      expect(data.messages[1].thinkingContent).toEqual(['Check the logs first'])
+      expect(data.messages[1].responseContent).toBe('The image tag was missing.')
+      expect(data.messages[1].toolCalls[0].name).toBe('kubectl__logs')
+    })
+  })
+
+  describe('formatConversationMarkdown', () => {
+    it('should render thinking, tool calls and usage', () => {
+      const markdown = formatConversationMarkdown(buildConversationExport(conversation, messages))
+
+      expect(markdown).toContain('# Broken deploy')
+      expect(markdown).toContain('## User — 2026-01-01T00:00:00.000Z')
+      expect(markdown).toContain('> Check the logs first')
+      expect(markdown).toContain('**Tool call:** `kubectl__logs` — completed')
+      expect(markdown).toContain('"pod": "web-1"')
+      expect(markdown).toContain('ImagePullBackOff')
+      expect(markdown).toContain('_model gpt-4o, 12 input / 8 output tokens_')
+    })
+  })
+
+  describe('getConversationExportFilename', () => {
+    it('should use the extension for the format', () => {
+      expect(getConversationExportFilename(conversation, 'markdown')).toBe('support-agent-conversation-conv1.md')
+      expect(getConversationExportFilename(conversation, 'json')).toBe('support-agent-conversation-conv1.json')
+    })
+  })
+
+  describe('buildSearchSnippet', () => {
+    it('should trim content around the match', () => {
+      const content = `${'a '.repeat(100)}needle${' b'.repeat(100)}`
+      const snippet = buildSearchSnippet(content, 'NEEDLE', 10)
+
+      expect(snippet).toBe('…a a a a a needle b b b b b…')
+    })
+
+    it('should return short content without ellipses', () => {
+      expect(buildSearchSnippet('Find the\nneedle here', 'needle')).toBe('Find the needle here')
+    })
+  })
+
+  describe('splitSearchMatches', () => {
+    it('should mark every case-insensitive match', () => {
+      expect(splitSearchMatches('Pod pod POD', 'pod')).toEqual([
+        { text: 'Pod', match: true },
+        { text: ' ', match: false },
+        { text: 'pod', match: true },
+        { text: ' ', match: false },
+        { text: 'POD', match: true }
+      ])
+    })
+  })
+})
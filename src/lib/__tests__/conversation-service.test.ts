@@ -0,0 +1,92 @@
+/**
+ * Test suite for the conversation service
+ *
+ * Tests who can open a conversation, and that a tool call decision is only
+ * recorded once when two requests decide the same call.
+ */
+
+jest.mock('@/lib/db', () => {
+  const tx = {
+    conversationMessage: { updateMany: jest.fn() },
+    toolCallApproval: { create: jest.fn() },
+  }
+  return {
+    db: {
+      tx,
+      $transaction: jest.fn(async (run: (client: typeof tx) => unknown) => run(tx)),
+    },
+  }
+})
+
+import { canAccessConversation, ownedConversationFilter, recordToolCallDecision } from '../conversation-service'
+import { db } from '../db'
+import type { ChatToolCall } from '@/types/chat'
+
+const mockUpdateMany = db.tx.conversationMessage.updateMany as jest.Mock
+const mockCreateApproval = db.tx.toolCallApproval.create as jest.Mock
+
+const pending: ChatToolCall = { id: 'call-1', name: 'send_email', arguments: '{}', status: 'pending_approval', requiresApproval: true }
+const other: ChatToolCall = { id: 'call-2', name: 'search', arguments: '{}', status: 'completed' }
+
+const decision = {
+  organizationId: 'org-1',
+  conversationId: 'conv-1',
+  messageId: 'msg-1',
+  toolCalls: [pending, other],
+  toolCall: pending,
+  approval: {
+    decision: 'approved' as const,
+    decidedBy: { id: 'user-1', email: 'ana@example.com' },
+    decidedAt: '2026-01-01T00:00:00.000Z',
+  },
+}
+
+describe('canAccessConversation', () => {
+  it('should only let the creator open an owned conversation', () => {
+    expect(canAccessConversation({ createdById: 'user-1' }, 'user-1', 'viewer')).toBe(true)
+    expect(canAccessConversation({ createdById: 'user-1' }, 'user-2', 'owner')).toBe(false)
+  })
+
+  it('should leave conversations without a creator to admins', () => {
+    expect(canAccessConversation({ createdById: null }, 'user-2', 'admin')).toBe(true)
+    expect(canAccessConversation({ createdById: null }, 'user-2', 'owner')).toBe(true)
+    expect(canAccessConversation({ createdById: null }, 'user-2', 'editor')).toBe(false)
+  })
+})
+
+describe('ownedConversationFilter', () => {
+  it('should include conversations without a creator for admins only', () => {
+    expect(ownedConversationFilter('user-1', 'editor')).toEqual({ createdById: 'user-1' })
+    expect(ownedConversationFilter('user-1', 'admin')).toEqual({
+      OR: [{ createdById: 'user-1' }, { createdById: null }],
+    })
+  })
+})
+
+describe('recordToolCallDecision', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should claim the call only if the message is unchanged since it was read', async () => {
+    mockUpdateMany.mockResolvedValue({ count: 1 })
+
+    const decided = await recordToolCallDecision(decision)
+
+    expect(decided).toMatchObject({ id: 'call-1', status: 'approved' })
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'msg-1', toolCalls: { equals: [pending, other] } },
+      data: { toolCalls: [decided, other] },
+    })
+    expect(mockCreateApproval).toHaveBeenCalledWith({
+      data: expect.objectContaining({ toolCallId: 'call-1', decision: 'approved', userId: 'user-1' }),
+    })
+  })
+
+  it('should record nothing when another request decided the call first', async () => {
+    mockUpdateMany.mockResolvedValue({ count: 0 })
+
+    await expect(recordToolCallDecision(decision)).resolves.toBeNull()
+    expect(mockCreateApproval).not.toHaveBeenCalled()
+  })
+})
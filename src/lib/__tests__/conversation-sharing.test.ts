@@ -0,0 +1,53 @@
+/**
+ * Test suite for conversation share link helpers
+ *
+ * Tests expiry calculation and whether a published link is still usable.
+ */
+
+import { getShareExpiry, isShareActive, serializeShareState } from '../conversation-sharing'
+
+describe('Conversation Sharing', () => {
+  const now = new Date('2026-01-01T00:00:00.000Z')
+
+  describe('getShareExpiry', () => {
+    it('should add the number of days to now', () => {
+      expect(getShareExpiry(7, now)?.toISOString()).toBe('2026-01-08T00:00:00.000Z')
+    })
+
+    it('should return null for links that never expire', () => {
+      expect(getShareExpiry(null, now)).toBeNull()
+      expect(getShareExpiry(undefined, now)).toBeNull()
+    })
+  })
+
+  describe('isShareActive', () => {
+    it('should require a share token', () => {
+      expect(isShareActive({ shareToken: null, sharedAt: null, shareExpiresAt: null }, now)).toBe(false)
+    })
+
+    it('should honour the expiry date', () => {
+      const share = { shareToken: 'abc', sharedAt: now, shareExpiresAt: new Date('2026-01-02T00:00:00.000Z') }
+
+      expect(isShareActive(share, now)).toBe(true)
+      expect(isShareActive(share, new Date('2026-01-03T00:00:00.000Z'))).toBe(false)
+      expect(isShareActive({ ...share, shareExpiresAt: null }, new Date('2030-01-01T00:00:00.000Z'))).toBe(true)
+    })
+  })
+
+  describe('serializeShareState', () => {
+    it('should report expired links as not shared', () => {
+      const state = serializeShareState({
+        shareToken: 'abc',
+        sharedAt: new Date('2020-01-01T00:00:00.000Z'),
+        shareExpiresAt: new Date('2020-01-02T00:00:00.000Z')
+      })
+
+      expect(state).toEqual({
+        isShared: false,
+        shareToken: 'abc',
+        sharedAt: '2020-01-01T00:00:00.000Z',
+        expiresAt: '2020-01-02T00:00:00.000Z'
+      })
+    })
+  })
+})
@@ -0,0 +1,152 @@
+/**
+ * Test suite for cost exports
+ *
+ * Tests pricing per-execution usage, CSV and JSON Lines output, and the
+ * periods scheduled reports cover.
+ */
+
+// Pricing lookups aren't exercised; records are priced from the history given
+jest.mock('@/lib/k8s-client', () => ({ k8sClient: {} }))
+jest.mock('@/lib/db', () => ({ db: {} }))
+
+import {
+  buildCostExportRecords,
+  formatCostExport,
+  getCostExportFilename,
+  getDueReportPeriods,
+  MAX_CATCH_UP_PERIODS,
+  type CostExportRecord,
+} from '../cost-export'
+import type { ExecutionModelUsage } from '../telemetry-repository'
+
+const usage: ExecutionModelUsage[] = [
+  {
+    traceId: 'abc123',
+    timestamp: new Date('2026-01-10T12:00:00Z'),
+    agentName: 'writer',
+    taskName: 'summarize',
+    modelName: 'gpt-4o',
+    inputTokens: 2000,
+    outputTokens: 1000,
+  },
+  {
+    traceId: 'def456',
+    timestamp: new Date('2026-01-10T13:00:00Z'),
+    agentName: 'retired',
+    taskName: '',
+    modelName: 'local-llama',
+    inputTokens: 500,
+    outputTokens: 0,
+  },
+]
+
+const options = {
+  organization: 'acme',
+  agentClusters: { writer: 'prod' },
+  pricing: {
+    'gpt-4o': [{ effectiveFrom: new Date(0), pricing: { inputTokenCost: 0.01, outputTokenCost: 0.03, currency: 'EUR' } }],
+  },
+  currency: 'EUR',
+}
+
+describe('Cost Export', () => {
+  describe('buildCostExportRecords', () => {
+    it('should price each execution and attribute it to its cluster', () => {
+      const records = buildCostExportRecords(usage, options)
+
+      expect(records).toEqual([
+        {
+          timestamp: '2026-01-10T12:00:00.000Z',
+          organization: 'acme',
+          cluster: 'prod',
+          agent: 'writer',
+          task: 'summarize',
+          executionId: 'exec_abc123',
+          model: 'gpt-4o',
+          inputTokens: 2000,
+          outputTokens: 1000,
+          cost: 0.05,
+          currency: 'EUR',
+        },
+        expect.objectContaining({ cluster: '(unassigned)', agent: 'retired', cost: null }),
+      ])
+    })
+  })
+
+  describe('formatCostExport', () => {
+    const record: CostExportRecord = {
+      timestamp: '2026-01-10T12:00:00.000Z',
+      organization: 'acme',
+      cluster: 'prod',
+      agent: 'writer',
+      task: 'summarize, then "review"',
+      executionId: 'exec_abc123',
+      model: 'gpt-4o',
+      inputTokens: 2000,
+      outputTokens: 1000,
+      cost: null,
+      currency: 'EUR',
+    }
+
+    it('should write CSV with a header row and quoted fields', () => {
+      const csv = formatCostExport([record], 'csv')
+
+      expect(csv.split('\r\n')).toEqual([
+        'timestamp,organization,cluster,agent,task,executionId,model,inputTokens,outputTokens,cost,currency',
+        '2026-01-10T12:00:00.000Z,acme,prod,writer,"summarize, then ""review""",exec_abc123,gpt-4o,2000,1000,,EUR',
+        '',
+      ])
+    })
+
+    it('should keep names from being read as spreadsheet formulas', () => {
+      const csv = formatCostExport([{ ...record, task: '=SUM(A1)' }], 'csv')
+
+      expect(csv).toContain(",'=SUM(A1),")
+    })
+
+    it('should write one JSON object per line', () => {
+      const jsonl = formatCostExport([record, { ...record, cost: 0.5 }], 'jsonl')
+      const lines = jsonl.trimEnd().split('\n').map(line => JSON.parse(line))
+
+      expect(lines).toEqual([record, { ...record, cost: 0.5 }])
+    })
+  })
+
+  it('should name exports after the organization and range', () => {
+    expect(getCostExportFilename('acme', new Date('2026-01-01T00:00:00Z'), new Date('2026-01-31T12:00:00Z'), 'jsonl'))
+      .toBe('acme-cost-2026-01-01-to-2026-01-31.jsonl')
+  })
+
+  describe('getDueReportPeriods', () => {
+    const now = new Date('2026-03-04T09:00:00Z') // A Wednesday
+
+    it('should start a new schedule with the latest completed period', () => {
+      expect(getDueReportPeriods('monthly', null, now)).toEqual([
+        { start: new Date('2026-02-01T00:00:00Z'), end: new Date('2026-03-01T00:00:00Z') },
+      ])
+      expect(getDueReportPeriods('weekly', null, now)).toEqual([
+        { start: new Date('2026-02-23T00:00:00Z'), end: new Date('2026-03-02T00:00:00Z') },
+      ])
+    })
+
+    it('should catch up on every period since the last report, oldest first', () => {
+      const periods = getDueReportPeriods('daily', new Date('2026-03-02T00:00:00Z'), now)
+
+      expect(periods).toEqual([
+        { start: new Date('2026-03-02T00:00:00Z'), end: new Date('2026-03-03T00:00:00Z') },
+        { start: new Date('2026-03-03T00:00:00Z'), end: new Date('2026-03-04T00:00:00Z') },
+      ])
+    })
+
+    it('should have nothing due until the current period completes', () => {
+      expect(getDueReportPeriods('monthly', new Date('2026-03-01T00:00:00Z'), now)).toEqual([])
+    })
+
+    it('should limit how far back it catches up', () => {
+      const periods = getDueReportPeriods('daily', new Date('2025-01-01T00:00:00Z'), now)
+
+      expect(periods).toHaveLength(MAX_CATCH_UP_PERIODS)
+      expect(periods[periods.length - 1].end).toEqual(new Date('2026-03-04T00:00:00Z'))
+    })
+  })
+})
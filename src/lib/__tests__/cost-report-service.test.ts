@@ -0,0 +1,91 @@
+/**
+ * Test suite for the cost report service
+ *
+ * Tests that scheduled reports advance one period at a time, only once each
+ * period's report is stored, so a failed period is retried on the next run.
+ */
+
+jest.mock('@/lib/db', () => {
+  const tx = {
+    costReportSchedule: { updateMany: jest.fn() },
+    costReport: { create: jest.fn() },
+  }
+  return {
+    db: {
+      tx,
+      $transaction: jest.fn(async (run: (client: typeof tx) => unknown) => run(tx)),
+    },
+  }
+})
+
+jest.mock('@/lib/k8s-client', () => ({
+  k8sClient: {},
+}))
+
+jest.mock('@/lib/organization-cost-service', () => ({
+  getOrganizationCostRecords: jest.fn(),
+}))
+
+import { db } from '../db'
+import { getOrganizationCostRecords } from '../organization-cost-service'
+import { runCostReportSchedule } from '../cost-report-service'
+
+const mockUpdateMany = db.tx.costReportSchedule.updateMany as jest.Mock
+const mockCreateReport = db.tx.costReport.create as jest.Mock
+const mockGetOrganizationCostRecords = getOrganizationCostRecords as jest.Mock
+
+const organization = { id: 'org-1', namespace: 'org-ns', slug: 'acme' }
+const now = new Date('2026-03-04T09:00:00Z')
+
+const schedule = {
+  id: 'schedule-1',
+  frequency: 'monthly',
+  format: 'csv',
+  lastPeriodEnd: new Date('2026-01-01T00:00:00Z'),
+  createdAt: new Date('2025-12-01T00:00:00Z'),
+}
+
+describe('runCostReportSchedule', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetOrganizationCostRecords.mockResolvedValue({ records: [], currency: 'USD' })
+    mockUpdateMany.mockResolvedValue({ count: 1 })
+    mockCreateReport.mockResolvedValue({})
+  })
+
+  it('should report on each due period and advance past it in turn', async () => {
+    await expect(runCostReportSchedule(organization, schedule, now)).resolves.toBe(2)
+
+    expect(mockUpdateMany.mock.calls.map(([call]) => call)).toEqual([
+      { where: { id: 'schedule-1', lastPeriodEnd: new Date('2026-01-01T00:00:00Z') }, data: { lastPeriodEnd: new Date('2026-02-01T00:00:00Z') } },
+      { where: { id: 'schedule-1', lastPeriodEnd: new Date('2026-02-01T00:00:00Z') }, data: { lastPeriodEnd: new Date('2026-03-01T00:00:00Z') } },
+    ])
+    expect(mockCreateReport).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        scheduleId: 'schedule-1',
+        periodStart: new Date('2026-01-01T00:00:00Z'),
+        periodEnd: new Date('2026-01-31T23:59:59.999Z'),
+      }),
+    })
+  })
+
+  it('should leave a period that failed to be retried', async () => {
+    mockGetOrganizationCostRecords
+      .mockResolvedValueOnce({ records: [], currency: 'USD' })
+      .mockRejectedValueOnce(new Error('telemetry unavailable'))
+
+    await expect(runCostReportSchedule(organization, schedule, now)).rejects.toThrow('telemetry unavailable')
+
+    expect(mockUpdateMany).toHaveBeenCalledTimes(1)
+    expect(mockUpdateMany.mock.calls[0][0].data).toEqual({ lastPeriodEnd: new Date('2026-02-01T00:00:00Z') })
+  })
+
+  it('should stop when another run already reported on the period', async () => {
+    mockUpdateMany.mockResolvedValue({ count: 0 })
+
+    await expect(runCostReportSchedule(organization, schedule, now)).resolves.toBe(0)
+
+    expect(mockUpdateMany).toHaveBeenCalledTimes(1)
+    expect(mockCreateReport).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * Test suite for execution comparison
+ *
+ * Tests task alignment by name, top-level duration totals, token costs at
+ * the price in effect, unpriced models and tool call counts.
+ */
+
+import { compareExecutions, getToolName } from '../execution-comparison'
+import type { TelemetrySpan } from '../telemetry-repository'
+
+// Pricing lookups aren't exercised; only token cost arithmetic is
+jest.mock('@/lib/k8s-client', () => ({ k8sClient: {} }))
+jest.mock('@/lib/db', () => ({ db: {} }))
+
+const pricing = {
+  'gpt-4o': [{ effectiveFrom: new Date(0), pricing: { inputTokenCost: 0.01, outputTokenCost: 0.03, currency: 'USD' } }],
+}
+
+function span(overrides: Partial<TelemetrySpan> & { startMs?: number; durationMs?: number }): TelemetrySpan {
+  const { startMs = 0, durationMs = 100, ...rest } = overrides
+  const startTime = new Date(Date.UTC(2026, 0, 1) + startMs)
+  return {
+    traceId: 'aaaa1111',
+    spanId: 'span-1',
+    parentSpanId: null,
+    spanName: 'agent.run',
+    spanKind: 'Internal',
+    startTime,
+    startTimeUnixNano: String(startTime.getTime() * 1000000),
+    endTime: new Date(startTime.getTime() + durationMs),
+    endTimeUnixNano: String((startTime.getTime() + durationMs) * 1000000),
+    durationNs: durationMs * 1000000,
+    statusCode: 'STATUS_CODE_OK',
+    statusMessage: '',
+    attributes: {},
+    events: [],
+    podName: null,
+    ...rest,
+  }
+}
+
+describe('Execution Comparison', () => {
+  const base = [
+    span({ spanId: 'root', durationMs: 1000 }),
+    span({ spanId: 'plan', parentSpanId: 'root', startMs: 10, durationMs: 400, attributes: { 'task.name': 'plan' } }),
+    span({
+      spanId: 'plan-llm',
+      parentSpanId: 'plan',
+      startMs: 20,
+      durationMs: 300,
+      attributes: { 'task.name': 'plan', 'gen_ai.request.model': 'gpt-4o', 'gen_ai.usage.input_tokens': '1000', 'gen_ai.usage.output_tokens': '100' },
+    }),
+    span({ spanId: 'search-1', parentSpanId: 'root', startMs: 500, durationMs: 200, attributes: { 'task.name': 'research', 'tool.name': 'search' } }),
+    span({ spanId: 'search-2', parentSpanId: 'root', startMs: 700, durationMs: 200, attributes: { 'task.name': 'research', 'tool.name': 'search' }, statusCode: 'STATUS_CODE_ERROR' }),
+  ]
+  const target = [
+    span({ traceId: 'bbbb2222', spanId: 'root', durationMs: 600, attributes: { 'agent.version': 'v2' } }),
+    span({
+      traceId: 'bbbb2222',
+      spanId: 'plan',
+      parentSpanId: 'root',
+      startMs: 10,
+      durationMs: 250,
+      attributes: { 'task.name': 'plan', 'gen_ai.request.model': 'claude', 'gen_ai.usage.input_tokens': '500', 'gen_ai.usage.output_tokens': '50' },
+    }),
+    span({ traceId: 'bbbb2222', spanId: 'summarize', parentSpanId: 'root', startMs: 300, durationMs: 200, attributes: { 'task.name': 'summarize', 'tool.input': '{}' } }),
+  ]
+
+  it('should align tasks by name', () => {
+    const comparison = compareExecutions(base, target, pricing, 'USD')
+
+    expect(comparison.tasks.map(task => task.name)).toEqual(['plan', 'research', 'summarize'])
+    expect(comparison.tasks[1].target).toBeNull()
+    expect(comparison.tasks[2].base).toBeNull()
+  })
+
+  it('should only count top-level spans towards task duration', () => {
+    const [plan] = compareExecutions(base, target, pricing, 'USD').tasks
+
+    expect(plan.base).toEqual({
+      durationMs: 400,
+      spanCount: 2,
+      errorCount: 0,
+      inputTokens: 1000,
+      outputTokens: 100,
+      cost: expect.closeTo(0.013),
+      toolCalls: 0,
+    })
+    expect(plan.target?.durationMs).toBe(250)
+  })
+
+  it('should summarize each execution', () => {
+    const comparison = compareExecutions(base, target, pricing, 'USD')
+
+    expect(comparison.base).toEqual(expect.objectContaining({
+      traceId: 'aaaa1111',
+      durationMs: 1000,
+      errorCount: 1,
+      toolCalls: 2,
+      cost: expect.closeTo(0.013),
+      agentVersion: null,
+      models: ['gpt-4o'],
+    }))
+    expect(comparison.target).toEqual(expect.objectContaining({
+      traceId: 'bbbb2222',
+      durationMs: 600,
+      inputTokens: 500,
+      cost: 0,
+      agentVersion: 'v2',
+    }))
+  })
+
+  it('should report unpriced models', () => {
+    const comparison = compareExecutions(base, target, pricing, 'USD')
+
+    expect(comparison.currency).toBe('USD')
+    expect(comparison.unpricedModels).toEqual(['claude'])
+  })
+
+  it('should price spans at the rate in effect when they ran', () => {
+    const repriced = {
+      'gpt-4o': [
+        ...pricing['gpt-4o'],
+        { effectiveFrom: new Date(Date.UTC(2026, 0, 1) + 15), pricing: { inputTokenCost: 0.02, outputTokenCost: 0.06, currency: 'USD' } },
+      ],
+    }
+
+    expect(compareExecutions(base, target, repriced, 'USD').base.cost).toBeCloseTo(0.026)
+  })
+
+  it('should count tool calls by tool name', () => {
+    const comparison = compareExecutions(base, target, pricing, 'USD')
+
+    expect(getToolName(target[2])).toBe('agent.run')
+    expect(comparison.tools).toEqual([
+      { name: 'agent.run', base: 0, target: 1 },
+      { name: 'search', base: 2, target: 0 },
+    ])
+  })
+})
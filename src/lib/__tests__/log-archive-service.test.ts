@@ -0,0 +1,140 @@
+/**
+ * Test suite for the log archive service
+ *
+ * Tests that pods are read from the last archived line, that lines are
+ * archived with their resource, execution and level, and that search
+ * parameters are validated.
+ */
+
+jest.mock('next/server', () => ({ NextResponse: { json: jest.fn() } }))
+jest.mock('@/lib/k8s-client', () => ({
+  k8sClient: { getPodLogs: jest.fn() },
+}))
+jest.mock('@/lib/db', () => ({
+  db: {
+    logArchiveEntry: { findFirst: jest.fn(), findMany: jest.fn(), createMany: jest.fn(), groupBy: jest.fn() },
+  },
+}))
+
+import { archivePodLogs, parseLogSearchParams, searchArchivedLogs } from '../log-archive-service'
+import { ValidationError } from '../api-error-handler'
+import { k8sClient } from '../k8s-client'
+import { db } from '../db'
+
+const mockGetPodLogs = k8sClient.getPodLogs as jest.Mock
+const mockFindLast = db.logArchiveEntry.findFirst as jest.Mock
+const mockFindMessages = db.logArchiveEntry.findMany as jest.Mock
+const mockCreateMany = db.logArchiveEntry.createMany as jest.Mock
+const mockGroupBy = db.logArchiveEntry.groupBy as jest.Mock
+
+const now = new Date('2026-03-10T12:01:00Z')
+
+const pod = {
+  metadata: {
+    name: 'report-29012345-abcde',
+    labels: {
+      'langop.io/kind': 'LanguageAgent',
+      'app.kubernetes.io/name': 'report',
+      'batch.kubernetes.io/job-name': 'report-29012345',
+    },
+  },
+  spec: { containers: [{ name: 'agent' }] },
+  status: { phase: 'Succeeded' },
+}
+
+describe('archivePodLogs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockFindMessages.mockResolvedValue([])
+    mockGetPodLogs.mockResolvedValue([
+      '2026-03-10T12:00:00Z INFO starting',
+      '2026-03-10T12:00:30Z ERROR model unavailable',
+      '',
+    ].join('\n'))
+  })
+
+  it('archives every line of a pod seen for the first time', async () => {
+    mockFindLast.mockResolvedValue(null)
+
+    await expect(archivePodLogs('org-1', 'ns-1', pod, now)).resolves.toBe(2)
+
+    expect(mockGetPodLogs).toHaveBeenCalledWith('ns-1', 'report-29012345-abcde', expect.objectContaining({
+      container: 'agent',
+      timestamps: true,
+      sinceSeconds: undefined,
+    }))
+    expect(mockCreateMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ resourceKind: 'agent', resourceName: 'report', executionId: 'report-29012345', level: 'info', message: 'INFO starting' }),
+        expect.objectContaining({ level: 'error', timestamp: new Date('2026-03-10T12:00:30Z') }),
+      ],
+    })
+  })
+
+  it('reads from the last archived line', async () => {
+    mockFindLast.mockResolvedValue({ timestamp: new Date('2026-03-10T12:00:30Z') })
+    mockFindMessages.mockResolvedValue([{ message: 'ERROR model unavailable' }])
+
+    await expect(archivePodLogs('org-1', 'ns-1', pod, now)).resolves.toBe(0)
+
+    expect(mockGetPodLogs).toHaveBeenCalledWith('ns-1', 'report-29012345-abcde', expect.objectContaining({ sinceSeconds: 31 }))
+    expect(mockCreateMany).not.toHaveBeenCalled()
+  })
+
+  it('skips pods that are not agents, models or tools', async () => {
+    await expect(archivePodLogs('org-1', 'ns-1', { ...pod, metadata: { name: 'other', labels: {} } }, now)).resolves.toBe(0)
+    expect(mockGetPodLogs).not.toHaveBeenCalled()
+  })
+})
+
+describe('parseLogSearchParams', () => {
+  it('defaults to the last 24 hours', () => {
+    expect(parseLogSearchParams(new URLSearchParams(), now)).toEqual({
+      from: new Date('2026-03-09T12:01:00Z'),
+      to: now,
+      levels: undefined,
+      text: undefined,
+      podName: undefined,
+      executionId: undefined,
+      limit: 1000,
+    })
+  })
+
+  it('parses levels and text', () => {
+    const query = parseLogSearchParams(new URLSearchParams({ level: 'warn,error', q: 'timeout' }), now)
+    expect(query.levels).toEqual(['warn', 'error'])
+    expect(query.text).toBe('timeout')
+  })
+
+  it('rejects unknown levels and inverted ranges', () => {
+    expect(() => parseLogSearchParams(new URLSearchParams({ level: 'loud' }), now)).toThrow(ValidationError)
+    expect(() => parseLogSearchParams(new URLSearchParams({
+      from: '2026-03-10T00:00:00Z',
+      to: '2026-03-09T00:00:00Z',
+    }), now)).toThrow(ValidationError)
+  })
+})
+
+describe('searchArchivedLogs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockFindMessages.mockResolvedValue([])
+    mockGroupBy.mockResolvedValue([])
+  })
+
+  it('matches a sidecar tool by its exact container name', async () => {
+    await searchArchivedLogs({
+      organizationId: 'org-1',
+      kind: 'tool',
+      resourceName: 'web',
+      from: new Date('2026-03-10T00:00:00Z'),
+      to: now,
+      limit: 100,
+    })
+
+    expect(mockFindMessages.mock.calls[0][0].where.OR).toEqual([
+      { resourceKind: 'tool', resourceName: 'web' },
+      { resourceKind: 'agent', container: { in: ['web', 'tool-web'] } },
+    ])
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * Test suite for log archive parsing
+ *
+ * Tests splitting timestamped lines, detecting levels, identifying a pod's
+ * execution and dropping lines that were already archived.
+ */
+
+import { detectLogLevel, getPodExecutionId, parseLogLine, selectUnarchivedLines } from '../log-archive'
+
+describe('parseLogLine', () => {
+  it('splits the timestamp Kubernetes prefixes from the message', () => {
+    expect(parseLogLine('2026-03-10T12:00:00.123456789Z Starting agent')).toEqual({
+      timestamp: new Date('2026-03-10T12:00:00.123Z'),
+      message: 'Starting agent',
+    })
+  })
+
+  it('rejects lines without a timestamp', () => {
+    expect(parseLogLine('Starting agent')).toBeNull()
+    expect(parseLogLine('')).toBeNull()
+  })
+})
+
+describe('detectLogLevel', () => {
+  it('reads level fields', () => {
+    expect(detectLogLevel('{"level":"warning","msg":"slow"}')).toBe('warn')
+    expect(detectLogLevel('time=now level=error msg="failed"')).toBe('error')
+    expect(detectLogLevel('severity: DEBUG cache miss')).toBe('debug')
+  })
+
+  it('reads upper-case level words, ignoring ANSI colours', () => {
+    expect(detectLogLevel('\x1b[31mERROR\x1b[0m connection refused')).toBe('error')
+    expect(detectLogLevel('[WARN] retrying')).toBe('warn')
+  })
+
+  it('counts lines without a level as info', () => {
+    expect(detectLogLevel('no error here')).toBe('info')
+  })
+})
+
+describe('getPodExecutionId', () => {
+  it('uses the Job that ran the pod', () => {
+    expect(getPodExecutionId({ metadata: { labels: { 'batch.kubernetes.io/job-name': 'report-29012345' } } })).toBe('report-29012345')
+    expect(getPodExecutionId({ metadata: { labels: { 'job-name': 'report-manual' } } })).toBe('report-manual')
+    expect(getPodExecutionId({ metadata: { labels: {} } })).toBeNull()
+  })
+})
+
+describe('selectUnarchivedLines', () => {
+  const line = (time: string, message: string) => ({ timestamp: new Date(time), message })
+  const lines = [
+    line('2026-03-10T12:00:00Z', 'a'),
+    line('2026-03-10T12:00:01Z', 'b'),
+    line('2026-03-10T12:00:01Z', 'c'),
+    line('2026-03-10T12:00:02Z', 'd'),
+  ]
+
+  it('keeps every line without an archive', () => {
+    expect(selectUnarchivedLines(lines, null)).toEqual(lines)
+  })
+
+  it('keeps lines after the last archived one and unarchived lines at it', () => {
+    expect(selectUnarchivedLines(lines, { timestamp: new Date('2026-03-10T12:00:01Z'), messages: ['b'] }))
+      .toEqual([lines[2], lines[3]])
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Test suite for model analytics
+ *
+ * Tests the names a model's requests are matched on, the choice of bucket
+ * size, and that totals and the padded time series are assembled from the
+ * telemetry results.
+ */
+
+import { buildModelAnalytics, getAnalyticsGranularity, getModelTelemetryNames } from '../model-analytics'
+import type { LanguageModel } from '@/types/model'
+
+const model = (name: string, modelName: string) =>
+  ({ metadata: { name }, spec: { modelName } }) as Pick<LanguageModel, 'metadata' | 'spec'>
+
+describe('getModelTelemetryNames', () => {
+  it('matches both the resource name and the provider model', () => {
+    expect(getModelTelemetryNames(model('qwen3-coder-30b', 'qwen3-coder:30b'))).toEqual(['qwen3-coder-30b', 'qwen3-coder:30b'])
+  })
+
+  it('lists a name once when they are the same', () => {
+    expect(getModelTelemetryNames(model('gpt-4o', 'gpt-4o'))).toEqual(['gpt-4o'])
+  })
+})
+
+describe('getAnalyticsGranularity', () => {
+  it('buckets by hour up to a week and by day beyond', () => {
+    const from = new Date('2026-01-01T00:00:00Z')
+    expect(getAnalyticsGranularity(from, new Date('2026-01-08T00:00:00Z'))).toBe('hour')
+    expect(getAnalyticsGranularity(from, new Date('2026-01-09T00:00:00Z'))).toBe('day')
+  })
+})
+
+describe('buildModelAnalytics', () => {
+  const from = new Date('2026-01-01T10:30:00Z')
+  const to = new Date('2026-01-01T13:30:00Z')
+
+  const analytics = buildModelAnalytics({
+    requests: [
+      { interval: new Date('2026-01-01T11:00:00Z'), requests: 8, errorCount: 2, inputTokens: 900, outputTokens: 180, p50DurationMs: 200, p95DurationMs: 400, p99DurationMs: 500 },
+      { interval: new Date('2026-01-01T13:00:00Z'), requests: 2, errorCount: 0, inputTokens: 100, outputTokens: 20, p50DurationMs: 100, p95DurationMs: 150, p99DurationMs: 160 },
+    ],
+    latency: { p50Ms: 180, p95Ms: 390, p99Ms: 480 },
+    errorTypes: [{ errorType: 'RateLimitError', count: 2 }],
+    agents: [],
+    modelNames: ['gpt-4o'],
+    from,
+    to,
+    granularity: 'hour',
+  })
+
+  it('totals requests, errors and tokens', () => {
+    expect(analytics.totals).toEqual({
+      requests: 10,
+      errors: 2,
+      errorRate: 20,
+      inputTokens: 1000,
+      outputTokens: 200,
+      // 1,200 tokens over 180 minutes
+      tokensPerMinute: 1200 / 180,
+      latency: { p50Ms: 180, p95Ms: 390, p99Ms: 480 },
+    })
+  })
+
+  it('pads every interval of the range', () => {
+    expect(analytics.timeSeries.map(point => [point.timestamp, point.requests])).toEqual([
+      ['2026-01-01T10:00:00.000Z', 0],
+      ['2026-01-01T11:00:00.000Z', 8],
+      ['2026-01-01T12:00:00.000Z', 0],
+      ['2026-01-01T13:00:00.000Z', 2],
+    ])
+    expect(analytics.timeSeries[1]).toEqual(expect.objectContaining({ errors: 2, p95LatencyMs: 400 }))
+  })
+})
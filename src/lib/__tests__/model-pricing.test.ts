@@ -0,0 +1,178 @@
+/**
+ * Test suite for model pricing
+ *
+ * Tests price lookups at a point in time, recording price changes made to a
+ * model's cost tracking, and falling back to current pricing for models
+ * without recorded versions.
+ */
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    modelPriceVersion: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/k8s-client', () => ({
+  k8sClient: { getLanguageModel: jest.fn() },
+}))
+
+import { db } from '@/lib/db'
+import { k8sClient } from '@/lib/k8s-client'
+import { convertPriceHistory, getModelPriceHistory, getPriceChangeTimes, getPricingAt, recordModelPriceChange } from '../model-pricing'
+
+const mockPriceVersions = (db as unknown as {
+  modelPriceVersion: { findFirst: jest.Mock; findMany: jest.Mock; createMany: jest.Mock }
+}).modelPriceVersion
+const mockGetLanguageModel = k8sClient.getLanguageModel as jest.Mock
+
+const cheap = { inputTokenCost: 0.01, outputTokenCost: 0.03, currency: 'USD' }
+const pricey = { inputTokenCost: 0.02, outputTokenCost: 0.06, currency: 'USD' }
+
+describe('Model Pricing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('getPricingAt', () => {
+    const history = {
+      'gpt-4o': [
+        { effectiveFrom: new Date('2026-01-01T00:00:00.000Z'), pricing: cheap },
+        { effectiveFrom: new Date('2026-02-01T00:00:00.000Z'), pricing: null },
+        { effectiveFrom: new Date('2026-03-01T00:00:00.000Z'), pricing: pricey },
+      ],
+    }
+
+    it('should use the version in effect at the time', () => {
+      expect(getPricingAt(history, 'gpt-4o', new Date('2026-01-15T00:00:00.000Z'))).toEqual(cheap)
+      expect(getPricingAt(history, 'gpt-4o', new Date('2026-03-01T00:00:00.000Z'))).toEqual(pricey)
+    })
+
+    it('should leave usage unpriced while cost tracking was off', () => {
+      expect(getPricingAt(history, 'gpt-4o', new Date('2026-02-15T00:00:00.000Z'))).toBeUndefined()
+      expect(getPricingAt(history, 'claude', new Date('2026-01-15T00:00:00.000Z'))).toBeUndefined()
+    })
+
+    it('should use the earliest price for usage before the first version', () => {
+      expect(getPricingAt(history, 'gpt-4o', new Date('2025-06-01T00:00:00.000Z'))).toEqual(cheap)
+    })
+  })
+
+  describe('recordModelPriceChange', () => {
+    const now = new Date('2026-10-01T00:00:00.000Z')
+    const change = {
+      organizationId: 'org-1',
+      modelName: 'gpt-4o',
+      modelCreatedAt: new Date('2026-01-01T00:00:00.000Z'),
+      userId: 'user-1',
+      now,
+    }
+
+    it('should ignore edits that leave the price unchanged', async () => {
+      mockPriceVersions.findFirst.mockResolvedValue(null)
+
+      await recordModelPriceChange({
+        ...change,
+        previous: { enabled: true, ...cheap },
+        current: { enabled: true, ...cheap },
+      })
+
+      expect(mockPriceVersions.createMany).not.toHaveBeenCalled()
+    })
+
+    it('should record the replaced price on the first change', async () => {
+      mockPriceVersions.findFirst.mockResolvedValue(null)
+
+      await recordModelPriceChange({
+        ...change,
+        previous: { enabled: true, ...cheap },
+        current: { enabled: true, ...pricey },
+      })
+
+      expect(mockPriceVersions.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ enabled: true, ...cheap, effectiveFrom: change.modelCreatedAt, createdById: null }),
+          expect.objectContaining({ enabled: true, ...pricey, effectiveFrom: now, createdById: 'user-1' }),
+        ],
+      })
+    })
+
+    it('should compare against the latest recorded version', async () => {
+      mockPriceVersions.findFirst.mockResolvedValue({
+        modelName: 'gpt-4o', enabled: true, ...pricey, effectiveFrom: new Date('2026-05-01T00:00:00.000Z'),
+      })
+
+      await recordModelPriceChange({
+        ...change,
+        previous: { enabled: true, ...pricey },
+        current: { enabled: false, ...pricey },
+      })
+
+      expect(mockPriceVersions.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ enabled: false, effectiveFrom: now })],
+      })
+    })
+  })
+
+  describe('convertPriceHistory', () => {
+    const since = new Date(0)
+
+    it('should convert prices with a rate or its inverse', () => {
+      const { pricing, missingRates } = convertPriceHistory({
+        'gpt-4o': [{ effectiveFrom: since, pricing: cheap }],
+        'mistral': [{ effectiveFrom: since, pricing: { inputTokenCost: 0.04, outputTokenCost: 0.08, currency: 'GBP' } }],
+      }, 'EUR', [
+        { fromCurrency: 'USD', toCurrency: 'EUR', rate: 0.5 },
+        { fromCurrency: 'EUR', toCurrency: 'GBP', rate: 0.8 },
+      ])
+
+      expect(pricing['gpt-4o']).toEqual([{ effectiveFrom: since, pricing: { inputTokenCost: 0.005, outputTokenCost: 0.015, currency: 'EUR' } }])
+      expect(pricing.mistral?.[0].pricing).toEqual({ inputTokenCost: expect.closeTo(0.05), outputTokenCost: expect.closeTo(0.1), currency: 'EUR' })
+      expect(missingRates).toEqual([])
+    })
+
+    it('should leave prices without an exchange rate unpriced', () => {
+      const { pricing, missingRates } = convertPriceHistory({
+        'gpt-4o': [{ effectiveFrom: since, pricing: cheap }, { effectiveFrom: new Date('2026-01-01T00:00:00.000Z'), pricing: null }],
+      }, 'JPY', [])
+
+      expect(pricing['gpt-4o']?.map(version => version.pricing)).toEqual([null, null])
+      expect(missingRates).toEqual(['USD'])
+    })
+  })
+
+  describe('getModelPriceHistory', () => {
+    it('should fall back to current pricing for models without versions', async () => {
+      mockPriceVersions.findMany.mockResolvedValue([
+        { modelName: 'qwen3-coder-30b', enabled: true, ...cheap, effectiveFrom: new Date('2026-01-01T00:00:00.000Z') },
+      ])
+      mockGetLanguageModel.mockImplementation(async (_namespace: string, name: string) => (
+        name === 'gpt-4o' ? { spec: { costTracking: { enabled: true, ...pricey } } } : null
+      ))
+
+      const history = await getModelPriceHistory(['qwen3-coder:30b', 'gpt-4o', 'missing'], { id: 'org-1', namespace: 'org-ns' })
+
+      expect(history['qwen3-coder:30b']).toEqual([{ effectiveFrom: new Date('2026-01-01T00:00:00.000Z'), pricing: cheap }])
+      expect(history['gpt-4o']).toEqual([{ effectiveFrom: new Date(0), pricing: pricey }])
+      expect(history.missing).toBeUndefined()
+      expect(mockGetLanguageModel).not.toHaveBeenCalledWith('org-ns', 'qwen3-coder-30b')
+    })
+  })
+
+  describe('getPriceChangeTimes', () => {
+    it('should list each change in the range once', async () => {
+      const change = new Date('2026-01-15T12:00:00.000Z')
+      mockPriceVersions.findMany.mockResolvedValue([{ effectiveFrom: change }, { effectiveFrom: new Date(change) }])
+      const from = new Date('2026-01-01T00:00:00.000Z')
+      const to = new Date('2026-02-01T00:00:00.000Z')
+
+      await expect(getPriceChangeTimes('org-1', from, to)).resolves.toEqual([change])
+      expect(mockPriceVersions.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { organizationId: 'org-1', effectiveFrom: { gt: from, lte: to } },
+      }))
+    })
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Test suite for OTLP/JSON traces
+ *
+ * Tests building documents from telemetry spans, reading them back, and
+ * accepting the variations other OTLP exporters write.
+ */
+
+import { buildOtlpDocument, fromOtlpAttributes, getOtlpSpanPods, getOtlpSpans, parseOtlpFile } from '../otlp'
+import type { TelemetrySpan } from '../telemetry-repository'
+
+const span: TelemetrySpan = {
+  traceId: '0af7651916cd43dd8448eb211c80319c',
+  spanId: 'b7ad6b7169203331',
+  parentSpanId: null,
+  spanName: 'agent.run',
+  spanKind: 'SPAN_KIND_CLIENT',
+  startTime: new Date('2026-01-01T00:00:00Z'),
+  startTimeUnixNano: '1767225600000000001',
+  endTime: new Date('2026-01-01T00:00:01Z'),
+  endTimeUnixNano: '1767225601000000001',
+  durationNs: 1000000000,
+  statusCode: 'STATUS_CODE_ERROR',
+  statusMessage: 'tool failed',
+  attributes: { 'agent.name': 'agent' },
+  events: [{
+    timestamp: new Date('2026-01-01T00:00:00.5Z'),
+    timeUnixNano: '1767225600500000000',
+    name: 'tool.start',
+    attributes: { tool: 'search' },
+  }],
+  podName: null,
+}
+
+describe('OTLP', () => {
+  it('should build a document with the agent as the resource', () => {
+    const document = buildOtlpDocument([span], { agentName: 'agent', clusterName: 'cluster-1' })
+
+    expect(document.resourceSpans[0].resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'agent' } },
+      { key: 'service.namespace', value: { stringValue: 'cluster-1' } },
+    ])
+    expect(getOtlpSpans(document)).toEqual([expect.objectContaining({
+      parentSpanId: undefined,
+      kind: 3,
+      startTimeUnixNano: '1767225600000000001',
+      status: { code: 'STATUS_CODE_ERROR', message: 'tool failed' },
+    })])
+    expect(buildOtlpDocument([], { agentName: 'agent', clusterName: 'cluster-1' })).toEqual({ resourceSpans: [] })
+  })
+
+  it('should give each pod that recorded spans its own resource', () => {
+    const document = buildOtlpDocument([
+      { ...span, spanId: 'one', podName: 'agent-0' },
+      { ...span, spanId: 'two', podName: 'agent-1' },
+      { ...span, spanId: 'three', podName: 'agent-0' },
+    ], { agentName: 'agent', clusterName: 'cluster-1' })
+
+    expect(document.resourceSpans).toHaveLength(2)
+    expect(document.resourceSpans[0].resource.attributes).toContainEqual({ key: 'k8s.pod.name', value: { stringValue: 'agent-0' } })
+    expect(getOtlpSpanPods(document)).toEqual(new Map([['one', 'agent-0'], ['three', 'agent-0'], ['two', 'agent-1']]))
+    expect(getOtlpSpanPods(buildOtlpDocument([span], { agentName: 'agent', clusterName: 'cluster-1' })).size).toBe(0)
+  })
+
+  it('should read back a downloaded document', () => {
+    const document = buildOtlpDocument([span], { agentName: 'agent', clusterName: 'cluster-1' })
+
+    expect(parseOtlpFile(JSON.stringify(document, null, 2))).toEqual(JSON.parse(JSON.stringify(document)))
+  })
+
+  it('should accept numeric timestamps and enum numbers from other exporters', () => {
+    const [imported] = getOtlpSpans(parseOtlpFile(JSON.stringify({
+      resourceSpans: [{
+        scopeSpans: [{
+          spans: [{
+            traceId: 'abc',
+            spanId: 'def',
+            parentSpanId: '',
+            name: 'llm.call',
+            kind: 'SPAN_KIND_SERVER',
+            startTimeUnixNano: 1767225600000000,
+            endTimeUnixNano: '1767225601000000',
+            status: { code: 1 },
+          }],
+        }],
+      }],
+    })))
+
+    expect(imported).toEqual({
+      traceId: 'abc',
+      spanId: 'def',
+      parentSpanId: undefined,
+      name: 'llm.call',
+      kind: 2,
+      startTimeUnixNano: '1767225600000000',
+      endTimeUnixNano: '1767225601000000',
+      attributes: [],
+      events: [],
+      status: { code: 'STATUS_CODE_OK' },
+    })
+  })
+
+  it('should merge JSON Lines files', () => {
+    const line = (spanId: string) => JSON.stringify({
+      resourceSpans: [{ scopeSpans: [{ spans: [{ traceId: 'abc', spanId, name: 'span', startTimeUnixNano: '1', endTimeUnixNano: '2' }] }] }],
+    })
+
+    const document = parseOtlpFile(`${line('one')}\n${line('two')}\n`)
+
+    expect(getOtlpSpans(document).map(imported => imported.spanId)).toEqual(['one', 'two'])
+  })
+
+  it('should reject files that are not OTLP traces', () => {
+    expect(() => parseOtlpFile('not json')).toThrow('File is not valid JSON')
+    expect(() => parseOtlpFile('{"resourceLogs": []}')).toThrow('Not an OTLP/JSON trace')
+    expect(() => parseOtlpFile('{"resourceSpans": []}')).toThrow('File contains no spans')
+  })
+
+  it('should flatten attribute values', () => {
+    expect(fromOtlpAttributes([
+      { key: 'count', value: { intValue: '3' } },
+      { key: 'ratio', value: { doubleValue: 0.5 } },
+      { key: 'ok', value: { boolValue: false } },
+      { key: 'tags', value: { arrayValue: { values: [{ stringValue: 'a' }, { stringValue: 'b' }] } } },
+    ])).toEqual({ count: '3', ratio: 0.5, ok: false, tags: '["a","b"]' })
+  })
+})
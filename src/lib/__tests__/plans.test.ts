@@ -0,0 +1,45 @@
+/**
+ * Test suite for plan definitions
+ *
+ * Tests plan lookup, the upgrade path and the quota specs ResourceQuotas are
+ * created from.
+ */
+
+import { PLANS, PLAN_IDS, getNextPlan, getPlan, getPlanQuotaSpec, isPlanId } from '../plans'
+import { QuotaSchema } from '../validation'
+
+describe('plans', () => {
+  it('defines every plan once, in upgrade order', () => {
+    expect(PLANS.map(plan => plan.id)).toEqual([...PLAN_IDS])
+  })
+
+  it('gives every plan a complete, valid quota', () => {
+    for (const plan of PLANS) {
+      expect(QuotaSchema.safeParse(plan.quota).success).toBe(true)
+    }
+  })
+
+  it('recognizes plan IDs', () => {
+    expect(isPlanId('pro')).toBe(true)
+    expect(isPlanId('custom')).toBe(false)
+  })
+
+  it('falls back to the free plan for unknown plans', () => {
+    expect(getPlan('PRO').id).toBe('pro')
+    expect(getPlan('custom').id).toBe('free')
+  })
+
+  it('upgrades to the next plan until the highest', () => {
+    expect(getNextPlan('free')?.id).toBe('pro')
+    expect(getNextPlan('pro')?.id).toBe('enterprise')
+    expect(getNextPlan('enterprise')).toBeNull()
+    expect(getNextPlan('custom')).toBeNull()
+  })
+
+  it('returns a copy of the plan quota', () => {
+    const spec = getPlanQuotaSpec('free')
+    spec['count/languageagents'] = '999'
+
+    expect(getPlanQuotaSpec('free')['count/languageagents']).toBe('2')
+  })
+})
@@ -0,0 +1,52 @@
+/**
+ * Test suite for merging pod logs
+ *
+ * Tests that the output of several pods is interleaved by timestamp and
+ * tagged with its pod, and which container a tool's output is read from.
+ */
+
+jest.mock('@/lib/k8s-client', () => ({ k8sClient: {} }))
+
+import { mergePodLogs, selectToolContainer } from '../pod-logs'
+
+describe('mergePodLogs', () => {
+  it('interleaves lines by timestamp and tags them with their pod', () => {
+    const lines = mergePodLogs([
+      { podName: 'agent-a', output: '2026-03-10T12:00:00Z first\n2026-03-10T12:00:02Z third\n' },
+      { podName: 'agent-b', output: '2026-03-10T12:00:01Z second\n2026-03-10T12:00:03Z fourth' },
+    ])
+
+    expect(lines).toEqual([
+      { podName: 'agent-a', timestamp: '2026-03-10T12:00:00.000Z', message: 'first' },
+      { podName: 'agent-b', timestamp: '2026-03-10T12:00:01.000Z', message: 'second' },
+      { podName: 'agent-a', timestamp: '2026-03-10T12:00:02.000Z', message: 'third' },
+      { podName: 'agent-b', timestamp: '2026-03-10T12:00:03.000Z', message: 'fourth' },
+    ])
+  })
+
+  it('keeps a line without a timestamp after the line before it', () => {
+    const lines = mergePodLogs([
+      { podName: 'agent-a', output: '2026-03-10T12:00:02Z Traceback:\n  File "main.py"' },
+      { podName: 'agent-b', output: '2026-03-10T12:00:01Z ready\n2026-03-10T12:00:03Z done' },
+    ])
+
+    expect(lines.map(line => line.message)).toEqual(['ready', 'Traceback:', '  File "main.py"', 'done'])
+    expect(lines[2]).toEqual({ podName: 'agent-a', timestamp: null, message: '  File "main.py"' })
+  })
+})
+
+describe('selectToolContainer', () => {
+  const pod = {
+    spec: {
+      containers: [{ name: 'agent' }, { name: 'tool-search' }],
+    },
+  }
+
+  it('reads a sidecar tool from its container', () => {
+    expect(selectToolContainer(pod, 'search', 'sidecar')).toBe('tool-search')
+  })
+
+  it('reads a service tool from the main container', () => {
+    expect(selectToolContainer(pod, 'search', 'service')).toBe('agent')
+  })
+})
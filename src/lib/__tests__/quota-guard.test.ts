@@ -0,0 +1,117 @@
+/**
+ * Test suite for the quota guard
+ *
+ * Tests parsing Kubernetes quantities, finding the quota a new resource
+ * would exceed, and the error create routes return for it.
+ */
+
+// The error classes live beside the response helpers, which need next/server
+jest.mock('next/server', () => ({ NextResponse: { json: jest.fn() } }))
+jest.mock('@/lib/k8s-client', () => ({
+  k8sClient: { getResourceQuotaUsage: jest.fn() },
+}))
+
+import {
+  assertQuotaAvailable,
+  describeExhaustedQuota,
+  findExhaustedQuota,
+  parseQuotaQuantity,
+} from '../quota-guard'
+import { k8sClient } from '../k8s-client'
+import { QuotaExceededError } from '../api-error-handler'
+
+const mockGetResourceQuotaUsage = k8sClient.getResourceQuotaUsage as jest.Mock
+
+const usage = {
+  quota: {
+    'count/languageagents': '3',
+    'count/languagetools': '5',
+    'requests.cpu': '1000m',
+    'requests.memory': '2Gi',
+    'limits.cpu': '2',
+  },
+  used: {
+    'count/languageagents': '3',
+    'count/languagetools': '1',
+    'requests.cpu': '600m',
+    'requests.memory': '1073741824',
+  },
+}
+
+describe('parseQuotaQuantity', () => {
+  it('parses CPU into millicores', () => {
+    expect(parseQuotaQuantity('requests.cpu', '250m')).toBe(250)
+    expect(parseQuotaQuantity('limits.cpu', '1.5')).toBe(1500)
+  })
+
+  it('parses memory into bytes', () => {
+    expect(parseQuotaQuantity('requests.memory', '512Mi')).toBe(512 * 2 ** 20)
+    expect(parseQuotaQuantity('requests.memory', '1G')).toBe(1e9)
+    expect(parseQuotaQuantity('requests.memory', '1024')).toBe(1024)
+  })
+})
+
+describe('findExhaustedQuota', () => {
+  it('reports a count that is used up', () => {
+    expect(findExhaustedQuota(usage, { count: 'count/languageagents' })).toEqual({
+      resource: 'count/languageagents',
+      used: '3',
+      limit: '3',
+      requested: '1',
+    })
+  })
+
+  it('allows a resource that fits', () => {
+    expect(findExhaustedQuota(usage, {
+      count: 'count/languagetools',
+      resources: { requests: { cpu: '400m', memory: '1Gi' } },
+    })).toBeNull()
+  })
+
+  it('counts resource requests for every replica', () => {
+    expect(findExhaustedQuota(usage, {
+      count: 'count/languagetools',
+      resources: { requests: { cpu: '300m' } },
+      replicas: 2,
+    })).toMatchObject({ resource: 'requests.cpu', used: '600m', requested: '2 × 300m' })
+  })
+
+  it('ignores resources the quota does not limit', () => {
+    expect(findExhaustedQuota({ quota: {}, used: {} }, {
+      count: 'count/languageagents',
+      resources: { requests: { cpu: '64' } },
+    })).toBeNull()
+  })
+})
+
+describe('describeExhaustedQuota', () => {
+  it('names the count and what to do about it', () => {
+    expect(describeExhaustedQuota({ resource: 'count/languageagents', used: '3', limit: '3', requested: '1' }))
+      .toBe('You have 3/3 agents. Upgrade your plan or delete one to create another.')
+  })
+})
+
+describe('assertQuotaAvailable', () => {
+  it('throws a quota error naming the exhausted quota', async () => {
+    mockGetResourceQuotaUsage.mockResolvedValue(usage)
+
+    const error = await assertQuotaAvailable('org-ns', { count: 'count/languageagents' }).catch(e => e)
+
+    expect(error).toBeInstanceOf(QuotaExceededError)
+    expect(error.statusCode).toBe(403)
+    expect(error.code).toBe('QUOTA_EXCEEDED')
+    expect(error.context).toMatchObject({ resource: 'count/languageagents', used: '3', limit: '3' })
+  })
+
+  it('lets the create through when the quota is empty', async () => {
+    mockGetResourceQuotaUsage.mockResolvedValue({ quota: {}, used: {}, available: {}, percentUsed: {} })
+
+    await expect(assertQuotaAvailable('org-ns', { count: 'count/languageagents' })).resolves.toBeUndefined()
+  })
+
+  it('lets the create through when the quota cannot be read', async () => {
+    mockGetResourceQuotaUsage.mockRejectedValue(new Error('Kubernetes API not available'))
+
+    await expect(assertQuotaAvailable('org-ns', { count: 'count/languageagents' })).resolves.toBeUndefined()
+  })
+})
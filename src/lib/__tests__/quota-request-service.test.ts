@@ -0,0 +1,85 @@
+/**
+ * Test suite for quota request reviews
+ *
+ * Tests that approving a request applies its plan, that a failed Kubernetes
+ * update restores the plan and leaves the request pending, and that a request
+ * is only reviewed once.
+ */
+
+jest.mock('@/lib/k8s-client', () => ({
+  k8sClient: { updateResourceQuota: jest.fn(), updateResourceQuotaWithCustomSpec: jest.fn() },
+}))
+jest.mock('@/lib/db', () => ({
+  db: {
+    organization: { update: jest.fn() },
+    quotaRequest: { updateMany: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+  },
+}))
+
+import { reviewQuotaRequest } from '../quota-request-service'
+import { k8sClient } from '../k8s-client'
+import { db } from '../db'
+
+const mockUpdateResourceQuota = k8sClient.updateResourceQuota as jest.Mock
+const mockOrganizationUpdate = db.organization.update as jest.Mock
+const mockClaim = db.quotaRequest.updateMany as jest.Mock
+const mockFindRequest = db.quotaRequest.findUnique as jest.Mock
+const mockRequestUpdate = db.quotaRequest.update as jest.Mock
+
+const storedRequest = {
+  id: 'request-1',
+  plan: 'pro',
+  quotas: null,
+  message: null,
+  status: 'approved',
+  reviewNote: null,
+  reviewedAt: new Date('2026-01-02T00:00:00Z'),
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  organization: { id: 'org-1', name: 'Acme', namespace: 'org-ns-1', plan: 'free' },
+  requestedBy: { name: 'Ada', email: 'ada@example.com' },
+  reviewedBy: { name: null, email: 'admin@example.com' },
+}
+
+describe('reviewQuotaRequest', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockClaim.mockResolvedValue({ count: 1 })
+    mockFindRequest.mockResolvedValue(storedRequest)
+  })
+
+  it('applies the requested plan when approved', async () => {
+    const reviewed = await reviewQuotaRequest('request-1', 'admin-1', 'approve')
+
+    expect(mockOrganizationUpdate).toHaveBeenCalledWith({ where: { id: 'org-1' }, data: { plan: 'pro' } })
+    expect(mockUpdateResourceQuota).toHaveBeenCalledWith('org-ns-1', 'pro', 'org-1')
+    expect(reviewed).toMatchObject({ status: 'approved', reviewedBy: 'admin@example.com' })
+  })
+
+  it('leaves the quota alone when rejected', async () => {
+    await reviewQuotaRequest('request-1', 'admin-1', 'reject', 'Not this quarter')
+
+    expect(mockClaim).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: 'rejected', reviewNote: 'Not this quarter' }),
+    }))
+    expect(mockOrganizationUpdate).not.toHaveBeenCalled()
+    expect(mockUpdateResourceQuota).not.toHaveBeenCalled()
+  })
+
+  it('restores the plan and reopens the request when Kubernetes rejects the quota', async () => {
+    mockUpdateResourceQuota.mockRejectedValue(new Error('quota exceeded'))
+
+    await expect(reviewQuotaRequest('request-1', 'admin-1', 'approve')).rejects.toThrow('quota exceeded')
+
+    expect(mockOrganizationUpdate).toHaveBeenLastCalledWith({ where: { id: 'org-1' }, data: { plan: 'free' } })
+    expect(mockRequestUpdate).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: 'pending' }),
+    }))
+  })
+
+  it('returns null for requests that are no longer pending', async () => {
+    mockClaim.mockResolvedValue({ count: 0 })
+
+    expect(await reviewQuotaRequest('request-1', 'admin-1', 'approve')).toBeNull()
+    expect(mockUpdateResourceQuota).not.toHaveBeenCalled()
+  })
+})
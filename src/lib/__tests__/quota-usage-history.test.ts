@@ -0,0 +1,85 @@
+/**
+ * Test suite for quota usage history
+ *
+ * Tests that snapshots become one value per day, that days without a snapshot
+ * repeat the day before, and that the forecast only counts down while usage
+ * grows.
+ */
+
+jest.mock('next/server', () => ({ NextResponse: { json: jest.fn() } }))
+jest.mock('@/lib/k8s-client', () => ({ k8sClient: {} }))
+
+import { buildQuotaUsageHistory, forecastDaysUntilLimit } from '../quota-usage-history'
+
+const now = new Date('2026-03-10T12:00:00Z')
+
+function snapshot(takenAt: string, used: Record<string, string>, quota: Record<string, string> = {
+  'count/languageagents': '10',
+  'requests.memory': '4Gi',
+}) {
+  return { takenAt: new Date(takenAt), quota, used }
+}
+
+describe('forecastDaysUntilLimit', () => {
+  it('projects the daily growth to the limit', () => {
+    expect(forecastDaysUntilLimit([1, 2, 3, 4], 10)).toBe(6)
+    expect(forecastDaysUntilLimit([1, 1, 2, 2], 10)).toBe(20)
+  })
+
+  it('returns 0 once usage reaches the limit', () => {
+    expect(forecastDaysUntilLimit([8, 10], 10)).toBe(0)
+  })
+
+  it('returns null when usage is flat or falling, or there is no limit', () => {
+    expect(forecastDaysUntilLimit([3, 3, 3], 10)).toBeNull()
+    expect(forecastDaysUntilLimit([5, 4, 3], 10)).toBeNull()
+    expect(forecastDaysUntilLimit([3], 10)).toBeNull()
+    expect(forecastDaysUntilLimit([1, 2], null)).toBeNull()
+  })
+})
+
+describe('buildQuotaUsageHistory', () => {
+  it('keeps the last snapshot of each day and repeats it on days without one', () => {
+    const history = buildQuotaUsageHistory([
+      snapshot('2026-03-06T09:00:00Z', { 'count/languageagents': '1' }),
+      snapshot('2026-03-06T18:00:00Z', { 'count/languageagents': '2' }),
+      snapshot('2026-03-08T09:00:00Z', { 'count/languageagents': '4' }),
+      snapshot('2026-03-10T09:00:00Z', { 'count/languageagents': '6' }),
+    ], 7, now)
+
+    expect(history.since).toBe('2026-03-06T09:00:00.000Z')
+    expect(history.series['count/languageagents']).toEqual({
+      values: [2, 2, 4, 4, 6],
+      limit: 10,
+      daysUntilLimit: 4,
+    })
+  })
+
+  it('parses memory into bytes', () => {
+    const history = buildQuotaUsageHistory([
+      snapshot('2026-03-09T09:00:00Z', { 'requests.memory': '512Mi' }),
+      snapshot('2026-03-10T09:00:00Z', { 'requests.memory': '1Gi' }),
+    ], 7, now)
+
+    expect(history.series['requests.memory'].values).toEqual([512 * 2 ** 20, 2 ** 30])
+    expect(history.series['requests.memory'].limit).toBe(4 * 2 ** 30)
+  })
+
+  it('ignores snapshots before the range', () => {
+    const history = buildQuotaUsageHistory([
+      snapshot('2026-01-01T09:00:00Z', { 'count/languageagents': '9' }),
+    ], 30, now)
+
+    expect(history).toEqual({ days: 30, since: null, series: {} })
+  })
+
+  it('takes the limit from the latest snapshot', () => {
+    const history = buildQuotaUsageHistory([
+      snapshot('2026-03-09T09:00:00Z', { 'count/languageagents': '3' }, { 'count/languageagents': '3' }),
+      snapshot('2026-03-10T09:00:00Z', { 'count/languageagents': '3' }, { 'count/languageagents': '20' }),
+    ], 7, now)
+
+    expect(history.series['count/languageagents'].limit).toBe(20)
+    expect(history.series['count/languageagents'].daysUntilLimit).toBeNull()
+  })
+})
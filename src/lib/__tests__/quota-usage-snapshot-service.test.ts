@@ -0,0 +1,86 @@
+/**
+ * Test suite for recording quota usage snapshots
+ *
+ * Tests that organizations snapshotted within the interval are skipped, that
+ * an unreadable quota records nothing, and that old snapshots are deleted.
+ */
+
+jest.mock('next/server', () => ({ NextResponse: { json: jest.fn() } }))
+jest.mock('@/lib/k8s-client', () => ({
+  k8sClient: { getResourceQuotaUsage: jest.fn() },
+}))
+jest.mock('@/lib/db', () => ({
+  db: {
+    organization: { findMany: jest.fn() },
+    quotaUsageSnapshot: { findMany: jest.fn(), create: jest.fn(), deleteMany: jest.fn() },
+  },
+}))
+
+import { recordQuotaUsageSnapshots } from '../quota-usage-snapshot-service'
+import { k8sClient } from '../k8s-client'
+import { db } from '../db'
+
+const mockGetUsage = k8sClient.getResourceQuotaUsage as jest.Mock
+const mockFindOrganizations = db.organization.findMany as jest.Mock
+const mockFindSnapshots = db.quotaUsageSnapshot.findMany as jest.Mock
+const mockCreateSnapshot = db.quotaUsageSnapshot.create as jest.Mock
+const mockDeleteSnapshots = db.quotaUsageSnapshot.deleteMany as jest.Mock
+
+const now = new Date('2026-03-10T12:00:00Z')
+
+describe('recordQuotaUsageSnapshots', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockFindOrganizations.mockResolvedValue([
+      { id: 'org-1', namespace: 'ns-1' },
+      { id: 'org-2', namespace: 'ns-2' },
+    ])
+    mockFindSnapshots.mockResolvedValue([])
+    mockGetUsage.mockResolvedValue({
+      quota: { 'count/languageagents': '10' },
+      used: { 'count/languageagents': '3' },
+      available: {},
+      percentUsed: {},
+    })
+  })
+
+  it('records each organization and deletes snapshots past retention', async () => {
+    await expect(recordQuotaUsageSnapshots(60, now)).resolves.toBe(2)
+
+    expect(mockCreateSnapshot).toHaveBeenCalledWith({
+      data: {
+        organizationId: 'org-1',
+        quota: { 'count/languageagents': '10' },
+        used: { 'count/languageagents': '3' },
+        takenAt: now,
+      },
+    })
+    expect(mockDeleteSnapshots).toHaveBeenCalledWith({
+      where: { takenAt: { lt: new Date('2025-12-10T12:00:00Z') } },
+    })
+  })
+
+  it('skips organizations snapshotted within the interval', async () => {
+    mockFindSnapshots.mockResolvedValue([{ organizationId: 'org-1' }])
+
+    await expect(recordQuotaUsageSnapshots(60, now)).resolves.toBe(1)
+
+    expect(mockFindSnapshots.mock.calls[0][0].where).toEqual({
+      takenAt: { gte: new Date('2026-03-10T11:30:00Z') },
+    })
+    expect(mockGetUsage).toHaveBeenCalledTimes(1)
+    expect(mockGetUsage).toHaveBeenCalledWith('ns-2')
+  })
+
+  it('records nothing for an unreadable quota and carries on after a failure', async () => {
+    mockGetUsage
+      .mockResolvedValueOnce({ quota: {}, used: {}, available: {}, percentUsed: {} })
+      .mockRejectedValueOnce(new Error('boom'))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(recordQuotaUsageSnapshots(60, now)).resolves.toBe(0)
+
+    expect(mockCreateSnapshot).not.toHaveBeenCalled()
+    expect(mockDeleteSnapshots).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,278 @@
+/**
+ * Test suite for spend budgets
+ *
+ * Tests budget periods, threshold detection, that checking budgets alerts
+ * once per threshold and pauses scheduled agents when the budget is spent,
+ * and that reading budgets changes nothing.
+ */
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    spendBudget: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/k8s-client', () => ({
+  k8sClient: {
+    setCronJobSuspended: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/organization-cost-service', () => ({
+  getOrganizationCostReport: jest.fn(),
+  listOrganizationAgents: jest.fn(),
+}))
+
+import { db } from '@/lib/db'
+import { k8sClient } from '@/lib/k8s-client'
+import { getOrganizationCostReport, listOrganizationAgents } from '@/lib/organization-cost-service'
+import type { OrganizationCostReport } from '../organization-cost'
+import type { LanguageAgent } from '@/types/agent'
+import {
+  getBudgetPeriodRange,
+  getBudgetSpend,
+  getCrossedThreshold,
+  getScheduledAgentsInScope,
+  type SpendBudgetRecord,
+} from '../spend-budgets'
+import { evaluateSpendBudgets, getSpendBudgetStatuses } from '../spend-budget-service'
+
+const mockDb = db as unknown as {
+  spendBudget: { findMany: jest.Mock; update: jest.Mock; updateMany: jest.Mock }
+}
+const mockSetCronJobSuspended = k8sClient.setCronJobSuspended as jest.Mock
+const mockGetOrganizationCostReport = getOrganizationCostReport as jest.Mock
+const mockListOrganizationAgents = listOrganizationAgents as jest.Mock
+
+function agent(name: string, clusterRef: string, executionMode: 'scheduled' | 'interactive'): LanguageAgent {
+  return {
+    apiVersion: 'langop.io/v1alpha1',
+    kind: 'LanguageAgent',
+    metadata: { name },
+    spec: { clusterRef, executionMode },
+  }
+}
+
+function costReport(totalCost: number): OrganizationCostReport {
+  const entry = (name: string, cost: number) => ({
+    name, cost, inputTokens: 0, outputTokens: 0, requests: 0, errors: 0, share: 0,
+  })
+  return {
+    currency: 'USD',
+    totals: { cost: totalCost, inputTokens: 0, outputTokens: 0, requests: 0, errors: 0 },
+    timeSeries: [],
+    byCluster: [entry('prod', totalCost * 0.75), entry('dev', totalCost * 0.25)],
+    byAgent: [{ ...entry('reporter', totalCost * 0.75), clusterName: 'prod' }],
+    byModel: [],
+    byTask: [],
+    topAgents: [],
+    unpricedModels: [],
+    missingExchangeRates: [],
+  }
+}
+
+function budget(overrides: Partial<SpendBudgetRecord> = {}): SpendBudgetRecord {
+  return {
+    id: 'budget-1',
+    scope: 'organization',
+    clusterName: null,
+    agentName: null,
+    period: 'monthly',
+    amount: 100,
+    pauseScheduledAgents: false,
+    alertedThreshold: null,
+    alertedPeriodStart: null,
+    alertedAt: null,
+    pausedAgents: [],
+    ...overrides,
+  }
+}
+
+describe('Spend Budgets', () => {
+  // A Wednesday
+  const now = new Date('2026-10-14T15:30:00.000Z')
+
+  describe('getBudgetPeriodRange', () => {
+    it('should start months on the 1st', () => {
+      const { start, end } = getBudgetPeriodRange('monthly', now)
+
+      expect(start.toISOString()).toBe('2026-10-01T00:00:00.000Z')
+      expect(end.toISOString()).toBe('2026-11-01T00:00:00.000Z')
+    })
+
+    it('should start weeks on Monday', () => {
+      const { start, end } = getBudgetPeriodRange('weekly', now)
+
+      expect(start.toISOString()).toBe('2026-10-12T00:00:00.000Z')
+      expect(end.toISOString()).toBe('2026-10-19T00:00:00.000Z')
+      expect(getBudgetPeriodRange('weekly', new Date('2026-10-18T23:59:00.000Z')).start).toEqual(start)
+    })
+  })
+
+  describe('getBudgetSpend', () => {
+    it('should read spend for the budget scope', () => {
+      const report = costReport(40)
+
+      expect(getBudgetSpend(budget(), report)).toBe(40)
+      expect(getBudgetSpend(budget({ scope: 'cluster', clusterName: 'dev' }), report)).toBe(10)
+      expect(getBudgetSpend(budget({ scope: 'agent', clusterName: 'prod', agentName: 'reporter' }), report)).toBe(30)
+      expect(getBudgetSpend(budget({ scope: 'agent', clusterName: 'prod', agentName: 'idle' }), report)).toBe(0)
+    })
+  })
+
+  describe('getCrossedThreshold', () => {
+    it('should return the highest threshold reached', () => {
+      expect(getCrossedThreshold(49.99, 100)).toBeNull()
+      expect(getCrossedThreshold(50, 100)).toBe(50)
+      expect(getCrossedThreshold(85, 100)).toBe(80)
+      expect(getCrossedThreshold(250, 100)).toBe(100)
+    })
+  })
+
+  describe('getScheduledAgentsInScope', () => {
+    const agents = [
+      agent('reporter', 'prod', 'scheduled'),
+      agent('digest', 'dev', 'scheduled'),
+      agent('chat', 'prod', 'interactive'),
+    ]
+
+    it('should only include scheduled agents covered by the budget', () => {
+      expect(getScheduledAgentsInScope(budget(), agents)).toEqual(['reporter', 'digest'])
+      expect(getScheduledAgentsInScope(budget({ scope: 'cluster', clusterName: 'prod' }), agents)).toEqual(['reporter'])
+      expect(getScheduledAgentsInScope(budget({ scope: 'agent', agentName: 'chat' }), agents)).toEqual([])
+    })
+  })
+
+  describe('evaluateSpendBudgets', () => {
+    const organization = { id: 'org-1', namespace: 'org-ns' }
+    const periodStart = new Date('2026-10-01T00:00:00.000Z')
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      mockListOrganizationAgents.mockResolvedValue([
+        agent('reporter', 'prod', 'scheduled'),
+        agent('chat', 'prod', 'interactive'),
+      ])
+      mockDb.spendBudget.updateMany.mockResolvedValue({ count: 1 })
+      mockDb.spendBudget.update.mockResolvedValue({})
+      mockSetCronJobSuspended.mockResolvedValue({})
+    })
+
+    it('should alert when spend crosses a new threshold', async () => {
+      mockDb.spendBudget.findMany.mockResolvedValue([budget()])
+      mockGetOrganizationCostReport.mockResolvedValue(costReport(85))
+
+      const [status] = await evaluateSpendBudgets(organization, now)
+
+      expect(status).toMatchObject({ spent: 85, percent: 85, threshold: 80, alertedAt: now.toISOString() })
+      expect(mockDb.spendBudget.updateMany).toHaveBeenCalledWith({
+        where: { id: 'budget-1', alertedAt: null },
+        data: expect.objectContaining({ alertedThreshold: 80, alertedPeriodStart: periodStart, alertedAt: now }),
+      })
+      expect(mockGetOrganizationCostReport).toHaveBeenCalledWith(organization, expect.objectContaining({ from: periodStart, to: now }))
+    })
+
+    it('should not alert twice for the same threshold in a period', async () => {
+      const alertedAt = new Date('2026-10-10T00:00:00.000Z')
+      mockDb.spendBudget.findMany.mockResolvedValue([
+        budget({ alertedThreshold: 80, alertedPeriodStart: periodStart, alertedAt }),
+      ])
+      mockGetOrganizationCostReport.mockResolvedValue(costReport(90))
+
+      const [status] = await evaluateSpendBudgets(organization, now)
+
+      expect(status.alertedAt).toBe(alertedAt.toISOString())
+      expect(mockDb.spendBudget.updateMany).not.toHaveBeenCalled()
+      expect(mockDb.spendBudget.update).not.toHaveBeenCalled()
+    })
+
+    it('should pause scheduled agents once the budget is spent', async () => {
+      mockDb.spendBudget.findMany.mockResolvedValue([
+        budget({ scope: 'cluster', clusterName: 'prod', pauseScheduledAgents: true }),
+      ])
+      mockGetOrganizationCostReport.mockResolvedValue(costReport(200))
+
+      const [status] = await evaluateSpendBudgets(organization, now)
+
+      expect(status.threshold).toBe(100)
+      expect(status.pausedAgents).toEqual(['reporter'])
+      expect(mockSetCronJobSuspended).toHaveBeenCalledTimes(1)
+      expect(mockSetCronJobSuspended).toHaveBeenCalledWith('org-ns', 'reporter', true)
+      expect(mockDb.spendBudget.update).toHaveBeenCalledWith({ where: { id: 'budget-1' }, data: { pausedAgents: ['reporter'] } })
+    })
+
+    it('should resume paused agents when a new period starts', async () => {
+      mockDb.spendBudget.findMany.mockResolvedValue([
+        budget({
+          pauseScheduledAgents: true,
+          alertedThreshold: 100,
+          alertedPeriodStart: new Date('2026-09-01T00:00:00.000Z'),
+          alertedAt: new Date('2026-09-20T00:00:00.000Z'),
+          pausedAgents: ['reporter'],
+        }),
+      ])
+      mockGetOrganizationCostReport.mockResolvedValue(costReport(10))
+
+      const [status] = await evaluateSpendBudgets(organization, now)
+
+      expect(status.threshold).toBeNull()
+      expect(status.pausedAgents).toEqual([])
+      expect(mockSetCronJobSuspended).toHaveBeenCalledWith('org-ns', 'reporter', false)
+      expect(mockDb.spendBudget.update).toHaveBeenCalledWith({
+        where: { id: 'budget-1' },
+        data: { alertedThreshold: null, alertedPeriodStart: periodStart, pausedAgents: [] },
+      })
+    })
+
+    it('should skip alerts already claimed by a concurrent check', async () => {
+      mockDb.spendBudget.findMany.mockResolvedValue([budget({ pauseScheduledAgents: true })])
+      mockDb.spendBudget.updateMany.mockResolvedValue({ count: 0 })
+      mockGetOrganizationCostReport.mockResolvedValue(costReport(150))
+
+      const [status] = await evaluateSpendBudgets(organization, now)
+
+      expect(status.alertedAt).toBeNull()
+      expect(mockSetCronJobSuspended).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getSpendBudgetStatuses', () => {
+    const organization = { id: 'org-1', namespace: 'org-ns' }
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      mockListOrganizationAgents.mockResolvedValue([agent('reporter', 'prod', 'scheduled')])
+    })
+
+    it('should report spend and the stored alert without raising one', async () => {
+      mockDb.spendBudget.findMany.mockResolvedValue([
+        budget({ pauseScheduledAgents: true, pausedAgents: ['reporter'] }),
+      ])
+      mockGetOrganizationCostReport.mockResolvedValue(costReport(150))
+
+      const [status] = await getSpendBudgetStatuses(organization, now)
+
+      expect(status).toMatchObject({ spent: 150, threshold: 100, alertedAt: null, pausedAgents: ['reporter'] })
+      expect(mockDb.spendBudget.updateMany).not.toHaveBeenCalled()
+      expect(mockDb.spendBudget.update).not.toHaveBeenCalled()
+      expect(mockSetCronJobSuspended).not.toHaveBeenCalled()
+    })
+
+    it('should only show alerts raised this period', async () => {
+      const alertedAt = new Date('2026-10-10T00:00:00.000Z')
+      mockDb.spendBudget.findMany.mockResolvedValue([
+        budget({ id: 'current', alertedThreshold: 80, alertedPeriodStart: new Date('2026-10-01T00:00:00.000Z'), alertedAt }),
+        budget({ id: 'stale', alertedThreshold: 80, alertedPeriodStart: new Date('2026-09-01T00:00:00.000Z'), alertedAt }),
+      ])
+      mockGetOrganizationCostReport.mockResolvedValue(costReport(10))
+
+      const statuses = await getSpendBudgetStatuses(organization, now)
+
+      expect(statuses.map(status => status.alertedAt)).toEqual([alertedAt.toISOString(), null])
+    })
+  })
+})
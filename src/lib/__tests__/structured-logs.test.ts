@@ -0,0 +1,49 @@
+/**
+ * Test suite for structured log parsing
+ *
+ * Tests that JSON lines are split into level, message and fields, that
+ * plain lines are kept as they are, and that trace correlation ids are found.
+ */
+
+import { extractTraceContext, parseStructuredLogMessage } from '../structured-logs'
+
+describe('parseStructuredLogMessage', () => {
+  it('splits JSON lines into level, message and fields', () => {
+    expect(parseStructuredLogMessage('{"level":"warning","time":"2026-03-10T12:00:00Z","msg":"slow response","model":"gpt-4o","latency":{"ms":950}}')).toEqual({
+      level: 'warn',
+      message: 'slow response',
+      fields: { model: 'gpt-4o', latency: '{"ms":950}' },
+    })
+  })
+
+  it('reads numeric pino levels', () => {
+    expect(parseStructuredLogMessage('{"level":50,"msg":"failed"}').level).toBe('error')
+    expect(parseStructuredLogMessage('{"level":20,"msg":"cache miss"}').level).toBe('debug')
+  })
+
+  it('keeps plain lines, detecting the level from the text', () => {
+    expect(parseStructuredLogMessage('ERROR connection refused')).toEqual({
+      level: 'error',
+      message: 'ERROR connection refused',
+      fields: {},
+    })
+    expect(parseStructuredLogMessage('{not json}')).toEqual({ level: 'info', message: '{not json}', fields: {} })
+  })
+})
+
+describe('extractTraceContext', () => {
+  const traceId = '0af7651916cd43dd8448eb211c80319c'
+  const spanId = 'b7ad6b7169203331'
+
+  it('reads trace and span ids from JSON and key=value lines', () => {
+    expect(extractTraceContext(`{"msg":"calling tool","trace_id":"${traceId}","span_id":"${spanId}"}`)).toEqual({ traceId, spanId })
+    expect(extractTraceContext(`INFO calling tool otelTraceID=${traceId.toUpperCase()} otelSpanID=${spanId}`)).toEqual({ traceId, spanId })
+    expect(extractTraceContext(`{"traceId":"${traceId}"}`)).toEqual({ traceId, spanId: null })
+  })
+
+  it('ignores lines without a valid trace id', () => {
+    expect(extractTraceContext('INFO ready')).toBeNull()
+    expect(extractTraceContext(`trace_id=${'0'.repeat(32)} span_id=${'0'.repeat(16)}`)).toBeNull()
+    expect(extractTraceContext('trace_id=abc123')).toBeNull()
+  })
+})
@@ -0,0 +1,523 @@
+/**
+ * Test suite for the telemetry repositories
+ *
+ * Tests that the ClickHouse repository binds every value as a query parameter
+ * and parses rows into typed results, that the in-memory repository applies
+ * the same scoping, paging and facet rules, and execution ID and cursor parsing.
+ */
+
+import {
+  decodeExecutionCursor,
+  encodeExecutionCursor,
+  nanosToDate,
+  parseExecutionTraceId,
+} from '../telemetry-repository'
+import { createClickHouseTelemetryRepository, type ClickHouseTransport } from '../clickhouse-telemetry-repository'
+import { createInMemoryTelemetryRepository, type TelemetrySpanRecord } from '../in-memory-telemetry-repository'
+
+const scope = { organizationId: 'org-1', namespace: 'org-ns-1' }
+
+function createTransport(rows: unknown[]) {
+  const query = jest.fn().mockResolvedValue(rows)
+  return { transport: { query } as ClickHouseTransport, query }
+}
+
+describe('Telemetry Repository', () => {
+  describe('parseExecutionTraceId', () => {
+    it('should extract the trace ID prefix', () => {
+      expect(parseExecutionTraceId('exec_ABCDEF12')).toBe('abcdef12')
+      expect(parseExecutionTraceId('0af7651916cd43dd8448eb211c80319c')).toBe('0af7651916cd43dd8448eb211c80319c')
+    })
+
+    it('should reject IDs that are not hex', () => {
+      expect(parseExecutionTraceId("exec_1234' OR '1'='1")).toBeNull()
+      expect(parseExecutionTraceId('exec_%')).toBeNull()
+      expect(parseExecutionTraceId('exec_')).toBeNull()
+    })
+  })
+
+  describe('execution cursors', () => {
+    it('should round-trip a cursor', () => {
+      const cursor = { startTimeUnixNano: '1767225600000000001', traceId: 'abc123' }
+      expect(decodeExecutionCursor(encodeExecutionCursor(cursor))).toEqual(cursor)
+    })
+
+    it('should reject malformed cursors', () => {
+      expect(decodeExecutionCursor('not-a-cursor')).toBeNull()
+      expect(decodeExecutionCursor(Buffer.from("1:abc' OR 1=1").toString('base64url'))).toBeNull()
+    })
+  })
+
+  describe('nanosToDate', () => {
+    it('should convert nanosecond strings beyond float precision', () => {
+      expect(nanosToDate('1760000000123456789').toISOString()).toBe('2025-10-09T08:53:20.123Z')
+    })
+  })
+
+  describe('ClickHouse repository', () => {
+    it('should bind execution query values as parameters', async () => {
+      const { transport, query } = createTransport([])
+      const repository = createClickHouseTelemetryRepository(transport)
+      const agentName = "x' OR 1=1 --"
+
+      await repository.listExecutions({
+        scope,
+        agentName,
+        from: new Date('2026-01-01T00:00:00Z'),
+        to: new Date('2026-01-02T00:00:00Z'),
+        limit: 10,
+      })
+
+      const [sql, params] = query.mock.calls[0]
+      expect(sql).not.toContain(agentName)
+      expect(sql).toContain('{agentName:String}')
+      expect(params).toEqual(expect.objectContaining({
+        agentName,
+        limit: 10,
+        from: new Date('2026-01-01T00:00:00Z').getTime() * 1000000,
+        scopeNamespace: 'org-ns-1',
+        scopeOrganizationId: 'org-1',
+      }))
+    })
+
+    it('should parse execution rows with quoted 64-bit numbers', async () => {
+      const { transport } = createTransport([{
+        traceId: 'abc123',
+        startTimeNs: '1767225600000000000',
+        endTimeNs: '1767225601500000000',
+        durationMs: 1500,
+        spanCount: '3',
+        errorSpanCount: '1',
+        rootSpanName: 'agent.run',
+        status: 'error',
+        models: ['gpt-4o'],
+      }])
+      const repository = createClickHouseTelemetryRepository(transport)
+
+      const [execution] = await repository.listExecutions({
+        scope,
+        agentName: 'agent',
+        from: new Date(0),
+        to: new Date(),
+        limit: 10,
+      })
+
+      expect(execution).toEqual({
+        traceId: 'abc123',
+        startTime: new Date('2026-01-01T00:00:00Z'),
+        startTimeUnixNano: '1767225600000000000',
+        endTime: new Date('2026-01-01T00:00:01.500Z'),
+        durationMs: 1500,
+        spanCount: 3,
+        errorSpanCount: 1,
+        rootSpanName: 'agent.run',
+        status: 'error',
+        models: ['gpt-4o'],
+      })
+    })
+
+    it('should bind execution filters and the cursor', async () => {
+      const { transport, query } = createTransport([])
+      const repository = createClickHouseTelemetryRepository(transport)
+
+      await repository.listExecutions({
+        scope,
+        agentName: 'agent',
+        from: new Date(0),
+        to: new Date(),
+        limit: 10,
+        filters: { status: 'error', minDurationMs: 500, model: "gpt-4o' --" },
+        cursor: { startTimeUnixNano: '1767225600000000000', traceId: 'abc123' },
+      })
+
+      const [sql, params] = query.mock.calls[0]
+      expect(sql).toContain('status = {status:String}')
+      expect(sql).toContain('has(models, {model:String})')
+      expect(sql).not.toContain('{rootSpanName:String}')
+      expect(params).toEqual(expect.objectContaining({
+        status: 'error',
+        minDurationMs: 500,
+        model: "gpt-4o' --",
+        cursorStartTime: '1767225600000000000',
+        cursorTraceId: 'abc123',
+      }))
+    })
+
+    it('should group facet rows by facet', async () => {
+      const { transport, query } = createTransport([
+        { facet: 'model', value: 'gpt-4o', count: '2' },
+        { facet: 'status', value: 'success', count: '3' },
+        { facet: 'status', value: 'error', count: '1' },
+      ])
+      const repository = createClickHouseTelemetryRepository(transport)
+
+      const facets = await repository.getExecutionFacets({
+        scope,
+        agentName: 'agent',
+        from: new Date(0),
+        to: new Date(),
+        filters: { status: 'error' },
+      })
+
+      expect(facets).toEqual({
+        status: [{ value: 'success', count: 3 }, { value: 'error', count: 1 }],
+        rootSpanName: [],
+        model: [{ value: 'gpt-4o', count: 2 }],
+      })
+      // The status facet ignores the status filter; the others apply it
+      expect(query.mock.calls[0][0].match(/status = \{status:String\}/g)).toHaveLength(2)
+    })
+
+    it('should compute span end times in nanoseconds', async () => {
+      const { transport, query } = createTransport([{
+        traceId: 'abc123',
+        spanId: 'span-1',
+        parentSpanId: '',
+        spanName: 'llm.call',
+        spanKind: 'Client',
+        startTimeNs: '1767225600000000001',
+        durationNs: '2000000',
+        statusCode: 'STATUS_CODE_OK',
+        statusMessage: '',
+        attributes: { 'agent.name': 'agent' },
+        eventTimesNs: ['1767225600001000000'],
+        eventNames: ['tool.start'],
+        eventAttributes: [{ tool: 'search' }],
+        podName: '',
+      }])
+      const repository = createClickHouseTelemetryRepository(transport)
+
+      const [span] = await repository.getTraceSpans({ scope, agentName: 'agent', traceIdPrefix: 'abc', excludeReconcile: true })
+
+      expect(query.mock.calls[0][1]).toEqual(expect.objectContaining({ traceIdPattern: 'abc%' }))
+      expect(span.parentSpanId).toBeNull()
+      expect(span.podName).toBeNull()
+      expect(span.endTimeUnixNano).toBe('1767225600002000001')
+      expect(span.events).toEqual([{
+        timestamp: new Date('2026-01-01T00:00:00.001Z'),
+        timeUnixNano: '1767225600001000000',
+        name: 'tool.start',
+        attributes: { tool: 'search' },
+      }])
+    })
+
+    it('should group organization usage by agent, task and model', async () => {
+      const { transport, query } = createTransport([{
+        interval: 1767225600,
+        pricedAt: '1767225600000',
+        agentName: 'writer',
+        taskName: '',
+        modelName: 'gpt-4o',
+        spanCount: '2',
+        errorCount: '0',
+        inputTokens: '300',
+        outputTokens: '40',
+      }])
+      const repository = createClickHouseTelemetryRepository(transport)
+
+      const [bucket] = await repository.getOrganizationUsage({
+        scope,
+        from: new Date(0),
+        to: new Date(),
+        granularity: 'day',
+      })
+
+      const [sql, params] = query.mock.calls[0]
+      expect(sql).toContain('toStartOfDay(Timestamp)')
+      expect(sql).toContain('GROUP BY interval, pricedAt, agentName, taskName, modelName')
+      expect(params).toEqual(expect.objectContaining({ scopeNamespace: 'org-ns-1' }))
+      expect(bucket).toEqual({
+        interval: new Date('2026-01-01T00:00:00Z'),
+        pricedAt: new Date('2026-01-01T00:00:00Z'),
+        agentName: 'writer',
+        taskName: '',
+        modelName: 'gpt-4o',
+        spanCount: 2,
+        errorCount: 0,
+        inputTokens: 300,
+        outputTokens: 40,
+      })
+    })
+
+    it('should split usage buckets at each price change', async () => {
+      const { transport, query } = createTransport([])
+      const repository = createClickHouseTelemetryRepository(transport)
+
+      await repository.getModelUsage({
+        scope,
+        agentName: 'agent',
+        from: new Date(0),
+        to: new Date(),
+        granularity: 'hour',
+        priceChanges: [new Date('2026-01-01T10:30:00Z')],
+      })
+
+      const [sql, params] = query.mock.calls[0]
+      expect(sql).toContain('{priceChange0:Int64}')
+      expect(sql).toContain('GROUP BY interval, pricedAt, modelName')
+      expect(params).toEqual(expect.objectContaining({ priceChange0: new Date('2026-01-01T10:30:00Z').getTime() }))
+    })
+
+    it('should bind each model name as its own parameter', async () => {
+      const { transport, query } = createTransport([])
+      const repository = createClickHouseTelemetryRepository(transport)
+      const modelName = "gpt-4o') OR 1=1 --"
+
+      await repository.getModelErrors({
+        scope,
+        modelNames: ['gpt-4o', modelName],
+        from: new Date(0),
+        to: new Date(),
+      })
+
+      const [sql, params] = query.mock.calls[0]
+      expect(sql).not.toContain(modelName)
+      expect(sql).toContain("SpanAttributes['gen_ai.request.model'] IN ({modelName0:String}, {modelName1:String})")
+      expect(params).toEqual(expect.objectContaining({ modelName0: 'gpt-4o', modelName1: modelName, scopeOrganizationId: 'org-1' }))
+    })
+
+    it('should return no model latency without requests', async () => {
+      const { transport } = createTransport([{ requests: '0', p50Ms: null, p95Ms: null, p99Ms: null }])
+      const repository = createClickHouseTelemetryRepository(transport)
+
+      await expect(repository.getModelLatency({
+        scope,
+        modelNames: ['gpt-4o'],
+        from: new Date(0),
+        to: new Date(),
+      })).resolves.toBeNull()
+    })
+
+    it('should reject malformed rows', async () => {
+      const { transport } = createTransport([{ traceId: 'abc123' }])
+      const repository = createClickHouseTelemetryRepository(transport)
+
+      await expect(repository.listExecutions({
+        scope,
+        agentName: 'agent',
+        from: new Date(0),
+        to: new Date(),
+        limit: 10,
+      })).rejects.toThrow('Unexpected ClickHouse result')
+    })
+  })
+
+  describe('in-memory repository', () => {
+    const span = (overrides: Partial<TelemetrySpanRecord>): TelemetrySpanRecord => ({
+      traceId: 'aaaa1111',
+      spanId: 'span-1',
+      spanName: 'agent.run',
+      timestamp: new Date('2026-01-01T10:15:00Z'),
+      durationNs: 1000000,
+      resourceAttributes: { 'k8s.namespace.name': 'org-ns-1' },
+      spanAttributes: { 'agent.name': 'agent' },
+      ...overrides,
+    })
+
+    it('should only return executions in the organization scope', async () => {
+      const repository = createInMemoryTelemetryRepository([
+        span({}),
+        span({ traceId: 'bbbb2222', resourceAttributes: { 'k8s.namespace.name': 'other-ns' } }),
+        span({ traceId: 'cccc3333', spanName: 'agent.reconcile' }),
+      ])
+
+      const executions = await repository.listExecutions({
+        scope,
+        agentName: 'agent',
+        from: new Date('2026-01-01T00:00:00Z'),
+        to: new Date('2026-01-02T00:00:00Z'),
+        limit: 10,
+      })
+
+      expect(executions.map(execution => execution.traceId)).toEqual(['aaaa1111'])
+    })
+
+    it('should page through executions with a cursor', async () => {
+      const repository = createInMemoryTelemetryRepository([
+        span({ traceId: 'aaaa1111', timestamp: new Date('2026-01-01T10:00:00Z') }),
+        span({ traceId: 'bbbb2222', timestamp: new Date('2026-01-01T11:00:00Z') }),
+        span({ traceId: 'cccc3333', timestamp: new Date('2026-01-01T12:00:00Z') }),
+      ])
+      const query = {
+        scope,
+        agentName: 'agent',
+        from: new Date('2026-01-01T00:00:00Z'),
+        to: new Date('2026-01-02T00:00:00Z'),
+        limit: 2,
+      }
+
+      const first = await repository.listExecutions(query)
+      const last = first[first.length - 1]
+      const second = await repository.listExecutions({
+        ...query,
+        cursor: { startTimeUnixNano: last.startTimeUnixNano, traceId: last.traceId },
+      })
+
+      expect(first.map(execution => execution.traceId)).toEqual(['cccc3333', 'bbbb2222'])
+      expect(second.map(execution => execution.traceId)).toEqual(['aaaa1111'])
+    })
+
+    it('should count facets without their own filter', async () => {
+      const repository = createInMemoryTelemetryRepository([
+        span({ traceId: 'aaaa1111', spanAttributes: { 'agent.name': 'agent', 'gen_ai.request.model': 'gpt-4o' } }),
+        span({ traceId: 'bbbb2222', statusCode: 'STATUS_CODE_ERROR', spanAttributes: { 'agent.name': 'agent', 'gen_ai.request.model': 'gpt-4o' } }),
+        span({ traceId: 'cccc3333', spanAttributes: { 'agent.name': 'agent', 'gen_ai.request.model': 'claude' } }),
+      ])
+
+      const facets = await repository.getExecutionFacets({
+        scope,
+        agentName: 'agent',
+        from: new Date('2026-01-01T00:00:00Z'),
+        to: new Date('2026-01-02T00:00:00Z'),
+        filters: { status: 'error' },
+      })
+
+      expect(facets.status).toEqual([{ value: 'success', count: 2 }, { value: 'error', count: 1 }])
+      expect(facets.model).toEqual([{ value: 'gpt-4o', count: 1 }])
+    })
+
+    it('should count executions and tokens per agent', async () => {
+      const usage = { 'agent.name': 'agent', 'gen_ai.request.model': 'gpt-4o', 'gen_ai.usage.input_tokens': '100', 'gen_ai.usage.output_tokens': '50' }
+      const repository = createInMemoryTelemetryRepository([
+        span({ spanId: 'span-1', spanAttributes: usage }),
+        span({ spanId: 'span-2', spanAttributes: usage }),
+        span({ traceId: 'bbbb2222', spanId: 'span-3' }),
+        span({ traceId: 'cccc3333', spanId: 'span-4', spanName: 'agent.reconcile' }),
+      ])
+
+      const agents = await repository.getAgentExecutionUsage({
+        scope,
+        from: new Date('2026-01-01T00:00:00Z'),
+        to: new Date('2026-01-02T00:00:00Z'),
+      })
+
+      expect(agents).toEqual([{ agentName: 'agent', executions: 2, inputTokens: 200, outputTokens: 100, models: ['gpt-4o'] }])
+    })
+
+    it('should total token usage per execution, task and model', async () => {
+      const usage = { 'agent.name': 'agent', 'task.name': 'plan', 'gen_ai.request.model': 'gpt-4o', 'gen_ai.usage.input_tokens': '100', 'gen_ai.usage.output_tokens': '50' }
+      const repository = createInMemoryTelemetryRepository([
+        span({ spanId: 'span-1', timestamp: new Date('2026-01-01T10:00:01Z'), spanAttributes: usage }),
+        span({ spanId: 'span-2', spanAttributes: usage }),
+        span({ spanId: 'span-3', spanAttributes: { ...usage, 'gen_ai.request.model': 'llama' } }),
+        span({ traceId: 'bbbb2222', spanId: 'span-4' }),
+      ])
+
+      const rows = await repository.getExecutionModelUsage({
+        scope,
+        from: new Date('2026-01-01T00:00:00Z'),
+        to: new Date('2026-01-02T00:00:00Z'),
+      })
+
+      expect(rows).toEqual([
+        expect.objectContaining({ traceId: 'aaaa1111', modelName: 'gpt-4o', taskName: 'plan', inputTokens: 200, outputTokens: 100 }),
+        expect.objectContaining({ traceId: 'aaaa1111', modelName: 'llama', inputTokens: 100 }),
+      ])
+    })
+
+    it('should bucket token usage by interval and model', async () => {
+      const usage = { 'agent.name': 'agent', 'gen_ai.request.model': 'gpt-4o', 'gen_ai.usage.input_tokens': '100', 'gen_ai.usage.output_tokens': '50' }
+      const repository = createInMemoryTelemetryRepository([
+        span({ spanId: 'span-1', spanAttributes: usage }),
+        span({ spanId: 'span-2', timestamp: new Date('2026-01-01T10:45:00Z'), spanAttributes: usage, statusCode: 'STATUS_CODE_ERROR' }),
+        span({ spanId: 'span-3' }),
+      ])
+
+      const buckets = await repository.getModelUsage({
+        scope,
+        agentName: 'agent',
+        from: new Date('2026-01-01T00:00:00Z'),
+        to: new Date('2026-01-02T00:00:00Z'),
+        granularity: 'hour',
+      })
+
+      expect(buckets).toEqual([{
+        interval: new Date('2026-01-01T10:00:00Z'),
+        pricedAt: new Date('2026-01-01T10:00:00Z'),
+        modelName: 'gpt-4o',
+        spanCount: 2,
+        errorCount: 1,
+        avgDurationMs: 1,
+        inputTokens: 200,
+        outputTokens: 100,
+      }])
+    })
+
+    it('should split a bucket where a price changed within it', async () => {
+      const usage = { 'agent.name': 'agent', 'gen_ai.request.model': 'gpt-4o', 'gen_ai.usage.input_tokens': '100', 'gen_ai.usage.output_tokens': '50' }
+      const repository = createInMemoryTelemetryRepository([
+        span({ spanId: 'span-1', spanAttributes: usage }),
+        span({ spanId: 'span-2', timestamp: new Date('2026-01-01T10:45:00Z'), spanAttributes: usage }),
+      ])
+
+      const buckets = await repository.getModelUsage({
+        scope,
+        agentName: 'agent',
+        from: new Date('2026-01-01T00:00:00Z'),
+        to: new Date('2026-01-02T00:00:00Z'),
+        granularity: 'day',
+        priceChanges: [new Date('2026-01-01T10:30:00Z')],
+      })
+
+      expect(buckets.map(bucket => [bucket.interval, bucket.pricedAt, bucket.inputTokens])).toEqual([
+        [new Date('2026-01-01T00:00:00Z'), new Date('2026-01-01T00:00:00Z'), 100],
+        [new Date('2026-01-01T00:00:00Z'), new Date('2026-01-01T10:30:00Z'), 100],
+      ])
+    })
+
+    describe('model analytics', () => {
+      const request = (overrides: Partial<TelemetrySpanRecord>) => span({
+        spanName: 'chat gpt-4o',
+        spanAttributes: { 'agent.name': 'writer', 'gen_ai.request.model': 'gpt-4o', 'gen_ai.usage.input_tokens': '100', 'gen_ai.usage.output_tokens': '20' },
+        ...overrides,
+      })
+      const query = {
+        scope,
+        modelNames: ['gpt-4o', 'gpt-4o-prod'],
+        from: new Date('2026-01-01T00:00:00Z'),
+        to: new Date('2026-01-02T00:00:00Z'),
+      }
+      const repository = createInMemoryTelemetryRepository([
+        request({ spanId: 'span-1', durationNs: 100000000 }),
+        request({ spanId: 'span-2', durationNs: 300000000, statusCode: 'STATUS_CODE_ERROR', spanAttributes: { 'agent.name': 'writer', 'gen_ai.request.model': 'gpt-4o', 'error.type': 'RateLimitError' } }),
+        request({ spanId: 'span-3', durationNs: 200000000, spanAttributes: { 'agent.name': 'reviewer', 'gen_ai.request.model': 'gpt-4o-prod', 'gen_ai.usage.input_tokens': '500' } }),
+        request({ spanId: 'span-4', spanAttributes: { 'agent.name': 'writer', 'gen_ai.request.model': 'llama' } }),
+        request({ spanId: 'span-5', resourceAttributes: { 'k8s.namespace.name': 'other-ns' } }),
+      ])
+
+      it('should bucket requests of every model name with latency percentiles', async () => {
+        const buckets = await repository.getModelRequests({ ...query, granularity: 'hour' })
+
+        expect(buckets).toEqual([{
+          interval: new Date('2026-01-01T10:00:00Z'),
+          requests: 3,
+          errorCount: 1,
+          inputTokens: 600,
+          outputTokens: 20,
+          p50DurationMs: 200,
+          p95DurationMs: 290,
+          p99DurationMs: 298,
+        }])
+        await expect(repository.getModelLatency(query)).resolves.toEqual({ p50Ms: 200, p95Ms: 290, p99Ms: 298 })
+      })
+
+      it('should count errors by type', async () => {
+        await expect(repository.getModelErrors(query)).resolves.toEqual([{ errorType: 'RateLimitError', count: 1 }])
+      })
+
+      it('should rank agents by tokens consumed', async () => {
+        const agents = await repository.getModelAgentUsage(query)
+
+        expect(agents.map(agent => agent.agentName)).toEqual(['reviewer', 'writer'])
+        expect(agents[1]).toEqual({
+          agentName: 'writer',
+          requests: 2,
+          errorCount: 1,
+          inputTokens: 100,
+          outputTokens: 20,
+          avgDurationMs: 200,
+        })
+      })
+    })
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * Test suite for agent tool call helpers
+ *
+ * Tests assembling streamed tool calls, approval detection from the
+ * agent's tool references, and rebuilding chat-completions history.
+ */
+
+import {
+  accumulateToolCallDeltas,
+  findToolReference,
+  normalizeToolCalls,
+  toCompletionToolMessages
+} from '../tool-calls'
+import { CompletionToolCall } from '../chat-stream'
+
+describe('Tool Calls', () => {
+  const toolRefs = [
+    { name: 'github', requireApproval: true },
+    { name: 'web-search' }
+  ]
+
+  describe('accumulateToolCallDeltas', () => {
+    it('should join argument fragments by index', () => {
+      const calls: CompletionToolCall[] = []
+      accumulateToolCallDeltas(calls, [{ index: 0, id: 'call_1', function: { name: 'github__create_issue', arguments: '{"ti' } }])
+      accumulateToolCallDeltas(calls, [{ index: 0, function: { arguments: 'tle":"Bug"}' } }])
+
+      expect(calls).toHaveLength(1)
+      expect(calls[0].id).toBe('call_1')
+      expect(calls[0].function).toEqual({ name: 'github__create_issue', arguments: '{"title":"Bug"}' })
+    })
+  })
+
+  describe('findToolReference', () => {
+    it('should match tool names and prefixed function names', () => {
+      expect(findToolReference('github', toolRefs)?.name).toBe('github')
+      expect(findToolReference('github__create_issue', toolRefs)?.name).toBe('github')
+      expect(findToolReference('githubber', toolRefs)).toBeUndefined()
+    })
+  })
+
+  describe('normalizeToolCalls', () => {
+    const calls: CompletionToolCall[] = [
+      { id: 'a', function: { name: 'github__create_issue', arguments: '{}' } },
+      { id: 'b', function: { name: 'web-search', arguments: '{"q":"x"}' }, result: 'found' }
+    ]
+
+    it('should mark approval-gated calls pending when the agent awaits a decision', () => {
+      const normalized = normalizeToolCalls(calls, toolRefs, true)
+      expect(normalized[0]).toMatchObject({ id: 'a', status: 'pending_approval', requiresApproval: true })
+      expect(normalized[1]).toMatchObject({ id: 'b', status: 'completed', result: 'found', requiresApproval: false })
+    })
+
+    it('should treat calls as completed when the turn did not stop for them', () => {
+      expect(normalizeToolCalls(calls, toolRefs, false)[0].status).toBe('completed')
+    })
+  })
+
+  describe('toCompletionToolMessages', () => {
+    it('should emit the assistant tool calls and a decision message', () => {
+      const messages = toCompletionToolMessages('', [{
+        id: 'a',
+        name: 'github__create_issue',
+        arguments: '{}',
+        status: 'rejected',
+        approval: {
+          decision: 'rejected',
+          decidedBy: { id: 'u1', email: 'owner@example.com' },
+          decidedAt: '2026-01-01T00:00:00.000Z',
+          reason: 'Not now'
+        }
+      }])
+
+      expect(messages).toHaveLength(2)
+      expect(messages[0]).toMatchObject({ role: 'assistant', tool_calls: [{ id: 'a', type: 'function' }] })
+      expect(messages[1]).toEqual({
+        role: 'tool',
+        tool_call_id: 'a',
+        content: JSON.stringify({ approved: false, reason: 'Not now' })
+      })
+    })
+
+    it('should leave out calls with nothing to reply with', () => {
+      const messages = toCompletionToolMessages('Done', [
+        { id: 'a', name: 'search', arguments: '{}', status: 'completed', result: '[]' },
+        { id: 'b', name: 'fetch', arguments: '{}', status: 'completed' }
+      ])
+
+      expect(messages).toEqual([
+        {
+          role: 'assistant',
+          content: 'Done',
+          tool_calls: [{ id: 'a', type: 'function', function: { name: 'search', arguments: '{}' } }]
+        },
+        { role: 'tool', tool_call_id: 'a', content: '[]' }
+      ])
+      expect(toCompletionToolMessages('Done', [{ id: 'b', name: 'fetch', arguments: '{}', status: 'completed' }]))
+        .toEqual([{ role: 'assistant', content: 'Done' }])
+    })
+  })
+})
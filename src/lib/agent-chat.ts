@@ -0,0 +1,83 @@
+// Shared helpers for talking to an agent's chat-completions endpoint
+
+import { ChatMessage, ChatMessageMetadata, ChatToolCall } from '@/types/chat'
+import { LanguageAgent } from '@/types/agent'
+import { parseAgentMessage } from './message-parser'
+import { serviceResolver } from './service-resolver'
+import { appendConversationMessage } from './conversation-service'
+
+// Sampling options sent with every chat completion request
+export const CHAT_COMPLETION_OPTIONS = {
+  max_tokens: 1000,
+  temperature: 0.7
+}
+
+// Blocking requests must finish within this window
+export const CHAT_TIMEOUT_MS = 60000
+
+export const FALLBACK_ASSISTANT_MESSAGE = 'I apologize, but I was unable to generate a response.'
+
+/**
+ * Normalize the k8s client's agent response, which may be wrapped in `body` or `data`
+ */
+export function unwrapLanguageAgent(agent: unknown): LanguageAgent | null {
+  const wrapped = agent as { body?: LanguageAgent; data?: LanguageAgent } | null
+  return wrapped?.body ?? wrapped?.data ?? (agent as LanguageAgent | null) ?? null
+}
+
+/**
+ * Build the system prompt that introduces the agent
+ */
+export function buildAgentSystemMessage(agentName: string, instructions?: string): string {
+  return instructions
+    ? `You are ${agentName}. ${instructions}`
+    : `You are ${agentName}, a helpful AI assistant.`
+}
+
+/**
+ * Resolve the agent's chat completion URL for the current environment (K8s vs Docker Compose)
+ */
+export function resolveAgentChatEndpoint(
+  agentName: string,
+  namespace: string,
+  networking?: { port?: number }
+): string {
+  const port = networking?.port || 8080 // Service port for agent communication
+  const serviceName = `${agentName}` // Service name matches agent name
+  return serviceResolver.resolveAgentChatUrl(serviceName, namespace, port)
+}
+
+/**
+ * Build the assistant ChatMessage, separating thinking content from the response.
+ * When a conversation is given the reply is persisted and takes the stored ID.
+ */
+export async function completeAssistantMessage(
+  assistantMessage: string,
+  metadata: ChatMessageMetadata,
+  options: { conversationId?: string; toolCalls?: ChatToolCall[] } = {}
+): Promise<ChatMessage> {
+  const { conversationId, toolCalls = [] } = options
+  const parsed = parseAgentMessage(assistantMessage)
+
+  const stored = conversationId
+    ? await appendConversationMessage(conversationId, {
+        role: 'assistant',
+        content: assistantMessage,
+        metadata,
+        toolCalls
+      })
+    : null
+
+  return {
+    id: stored?.id ?? (Date.now() + 1).toString(), // Generate unique ID
+    role: 'assistant',
+    content: assistantMessage, // Keep original content for backward compatibility
+    timestamp: stored?.timestamp.toISOString() ?? new Date().toISOString(),
+    // Add parsed content for UI separation
+    thinkingContent: parsed.thinkingContent,
+    responseContent: parsed.responseContent,
+    hasThinking: parsed.hasThinking,
+    metadata,
+    ...(toolCalls.length > 0 && { toolCalls })
+  }
+}
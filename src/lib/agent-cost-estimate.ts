@@ -0,0 +1,103 @@
+/**
+ * Agent Cost Estimate
+ *
+ * Projects what an agent will cost before it is saved: tokens per execution
+ * come from the agent's own recent executions, or from agents in the
+ * organization that used the same models, priced with the selected models'
+ * cost tracking in the reporting currency.
+ */
+
+import { getTelemetryRepository, type AgentExecutionUsage } from './telemetry-repository'
+import { calculateTokenCost, getPricingAt, getReportingPriceHistory, normalizeModelName } from './model-pricing'
+
+// Days of history the token averages are taken over
+export const ESTIMATE_HISTORY_DAYS = 30
+
+// Where the token averages came from
+export type EstimateBasis = 'agent' | 'similar' | 'none'
+
+export interface ExecutionTokenProfile {
+  basis: EstimateBasis
+  // Agents the averages were taken from
+  sampleAgents: string[]
+  sampleExecutions: number
+  // Per execution
+  avgInputTokens: number
+  avgOutputTokens: number
+  // Per agent in the sample
+  executionsPerDay: number
+}
+
+export interface AgentCostEstimate extends ExecutionTokenProfile {
+  currency: string
+  // Cost of an average execution on each model, in the order selected; null if the model is unpriced
+  models: Array<{ name: string; costPerExecution: number | null }>
+}
+
+/**
+ * Average token usage per execution for an agent using the given models.
+ * An existing agent's own history wins; otherwise agents that requested any
+ * of the models are averaged together.
+ * @param models - LanguageModel resource names
+ * @param agentName - The agent being edited, if it already exists
+ */
+export function getExecutionTokenProfile(
+  usage: AgentExecutionUsage[],
+  models: string[],
+  agentName?: string,
+  days: number = ESTIMATE_HISTORY_DAYS
+): ExecutionTokenProfile {
+  const ran = usage.filter(agent => agent.executions > 0)
+  const own = ran.filter(agent => agent.agentName === agentName)
+  const similar = ran.filter(agent =>
+    agent.agentName !== agentName
+    && agent.models.some(model => models.includes(normalizeModelName(model)))
+  )
+  const [basis, sample]: [EstimateBasis, AgentExecutionUsage[]] = own.length > 0
+    ? ['agent', own]
+    : similar.length > 0 ? ['similar', similar] : ['none', []]
+
+  const executions = sample.reduce((sum, agent) => sum + agent.executions, 0)
+  const perExecution = (total: number) => executions > 0 ? total / executions : 0
+
+  return {
+    basis,
+    sampleAgents: sample.map(agent => agent.agentName),
+    sampleExecutions: executions,
+    avgInputTokens: perExecution(sample.reduce((sum, agent) => sum + agent.inputTokens, 0)),
+    avgOutputTokens: perExecution(sample.reduce((sum, agent) => sum + agent.outputTokens, 0)),
+    executionsPerDay: sample.length > 0 ? executions / sample.length / days : 0,
+  }
+}
+
+/**
+ * Estimate the cost of an execution of an agent using the given models
+ */
+export async function estimateAgentCost(
+  organization: { id: string; namespace: string },
+  { models, agentName, now = new Date() }: { models: string[]; agentName?: string; now?: Date }
+): Promise<AgentCostEstimate> {
+  const from = new Date(now.getTime() - ESTIMATE_HISTORY_DAYS * 24 * 60 * 60 * 1000)
+  const [usage, prices] = await Promise.all([
+    getTelemetryRepository().getAgentExecutionUsage({
+      scope: { organizationId: organization.id, namespace: organization.namespace },
+      from,
+      to: now,
+    }),
+    getReportingPriceHistory(models, organization),
+  ])
+
+  const profile = getExecutionTokenProfile(usage, models, agentName)
+
+  return {
+    ...profile,
+    currency: prices.currency,
+    models: models.map((name) => {
+      const pricing = getPricingAt(prices.pricing, name, now)
+      return {
+        name,
+        costPerExecution: pricing ? calculateTokenCost(pricing, profile.avgInputTokens, profile.avgOutputTokens) : null,
+      }
+    }),
+  }
+}
@@ -78,6 +78,33 @@ export function fetchWithOrgUrl(
   })
 }
 
+/**
+ * A create refused because the organization's ResourceQuota has no room left
+ */
+export class QuotaExceededResponseError extends Error {
+  // The exhausted quota, e.g. "count/languageagents"
+  readonly resource: string
+
+  constructor(message: string, resource: string) {
+    super(message)
+    this.name = 'QuotaExceededResponseError'
+    this.resource = resource
+  }
+}
+
+/**
+ * The error to throw for a failed API response's body
+ */
+export function toResponseError(
+  errorData: { error?: string; code?: string; context?: { resource?: string } },
+  fallback: string
+): Error {
+  if (errorData.code === 'QUOTA_EXCEEDED') {
+    return new QuotaExceededResponseError(errorData.error || fallback, errorData.context?.resource || '')
+  }
+  return new Error(errorData.error || fallback)
+}
+
 /**
  * API client class for more complex scenarios
  * Now supports both URL-based and header-based organization context
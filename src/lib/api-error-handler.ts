@@ -15,6 +15,7 @@ export type ApiErrorCode =
   | 'INTERNAL_ERROR'
   | 'TIMEOUT_ERROR'
   | 'ORPHANED_RESOURCE'
+  | 'QUOTA_EXCEEDED'
   // Organization-specific error codes
   | 'ORGANIZATION_NOT_FOUND'
   | 'ORGANIZATION_MISMATCH'
@@ -140,6 +141,7 @@ export class KubernetesError extends ApiError {
     const isNotFound = error?.response?.statusCode === 404 || error?.statusCode === 404
     const isForbidden = error?.response?.statusCode === 403 || error?.statusCode === 403
     const isTimeout = error?.code === 'ETIMEDOUT' || error?.code === 'ECONNRESET'
+    const isQuotaExceeded = isForbidden && /exceeded quota/i.test(error?.message || error?.response?.body?.message || '')
     
     let message = `Kubernetes ${operation} failed`
     let code: ApiErrorCode = 'KUBERNETES_ERROR'
@@ -149,6 +151,10 @@ export class KubernetesError extends ApiError {
       message = `Resource not found during ${operation}`
       code = 'RESOURCE_NOT_FOUND'
       statusCode = 404
+    } else if (isQuotaExceeded) {
+      message = `Resource quota exceeded during ${operation}`
+      code = 'QUOTA_EXCEEDED'
+      statusCode = 403
     } else if (isForbidden) {
       message = `Permission denied for ${operation}`
       code = 'PERMISSION_DENIED'  
@@ -186,6 +192,18 @@ export class OrphanedResourceError extends ApiError {
   }
 }
 
+export class QuotaExceededError extends ApiError {
+  constructor(message: string, context: { resource: string; used: string; limit: string; requested: string }) {
+    super(
+      message,
+      'QUOTA_EXCEEDED',
+      403,
+      `Creating this resource would exceed the organization's '${context.resource}' quota of ${context.limit}`,
+      context
+    )
+  }
+}
+
 export function createErrorResponse(
   error: unknown,
   defaultMessage: string = 'An unexpected error occurred'
@@ -0,0 +1,222 @@
+/**
+ * Audit Log Service
+ *
+ * Records who changed what through the dashboard, and reads the record back
+ * for the audit page and its export. Kubernetes events only say what the
+ * operator did and expire after about an hour; audit log entries name the
+ * dashboard user and are kept even after the organization is deleted.
+ */
+
+import { z } from 'zod'
+import { db } from './db'
+import { diffSpecs } from './audit-log'
+import { ValidationError } from './api-error-handler'
+import {
+  AUDIT_ACTIONS,
+  AUDIT_RESOURCE_TYPES,
+  type AuditAction,
+  type AuditChange,
+  type AuditLogEntry,
+  type AuditResourceType,
+} from '@/types/audit'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Longest range that can be searched or exported at once
+const MAX_RANGE_DAYS = 366
+
+// Most entries in one export
+const MAX_EXPORT_ENTRIES = 50000
+
+const auditLogFiltersSchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  resourceType: z.enum(AUDIT_RESOURCE_TYPES).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actor: z.string().max(200).optional(),
+  resourceName: z.string().max(253).optional(),
+  clusterName: z.string().max(253).optional(),
+})
+
+const auditLogPageSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+})
+
+export interface AuditEvent {
+  organizationId: string
+  actor: { id: string; email?: string | null }
+  action: AuditAction
+  resourceType: AuditResourceType
+  resourceName: string
+  clusterName?: string | null
+  // Spec before and after the change; omitted for actions that don't change one
+  before?: unknown
+  after?: unknown
+  metadata?: Record<string, unknown>
+}
+
+export interface AuditLogQuery {
+  organizationId: string
+  from: Date
+  to: Date
+  resourceType?: AuditResourceType
+  action?: AuditAction
+  // Case-insensitive substring of the actor's email
+  actor?: string
+  // Case-insensitive substring of the resource name
+  resourceName?: string
+  clusterName?: string
+  page: number
+  limit: number
+}
+
+/**
+ * Parse the audit log's filters from its query string. The range defaults to
+ * the last 30 days.
+ * @throws {ValidationError} If a parameter is invalid or the range is too long
+ */
+export function parseAuditLogFilters(
+  searchParams: URLSearchParams,
+  now: Date = new Date()
+): Omit<AuditLogQuery, 'organizationId' | 'page' | 'limit'> {
+  const result = auditLogFiltersSchema.safeParse({
+    from: searchParams.get('from') ?? undefined,
+    to: searchParams.get('to') ?? undefined,
+    resourceType: searchParams.get('resourceType') ?? undefined,
+    action: searchParams.get('action') ?? undefined,
+    actor: searchParams.get('actor') || undefined,
+    resourceName: searchParams.get('resourceName') || undefined,
+    clusterName: searchParams.get('clusterName') || undefined,
+  })
+  if (!result.success) {
+    throw new ValidationError('Invalid audit log parameters', result.error)
+  }
+
+  const { from: fromParam, to: toParam, ...filters } = result.data
+  const to = toParam ? new Date(toParam) : now
+  const from = fromParam ? new Date(fromParam) : new Date(to.getTime() - 30 * DAY_MS)
+  if (from >= to) {
+    throw new ValidationError('Invalid date range: from must be before to')
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new ValidationError(`Date range too large. Maximum ${MAX_RANGE_DAYS} days allowed.`)
+  }
+
+  return { from, to, ...filters }
+}
+
+/**
+ * Parse the audit log's filters and page from its query string
+ * @throws {ValidationError} If a parameter is invalid or the range is too long
+ */
+export function parseAuditLogParams(
+  searchParams: URLSearchParams,
+  now: Date = new Date()
+): Omit<AuditLogQuery, 'organizationId'> {
+  const filters = parseAuditLogFilters(searchParams, now)
+  const result = auditLogPageSchema.safeParse({
+    page: searchParams.get('page') ?? undefined,
+    limit: searchParams.get('limit') ?? undefined,
+  })
+  if (!result.success) {
+    throw new ValidationError('Invalid audit log parameters', result.error)
+  }
+
+  return { ...filters, ...result.data }
+}
+
+/**
+ * Record a change made through the dashboard. The change has already been
+ * made by the time it's recorded, so a failure to record it is logged rather
+ * than failing the request.
+ */
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  const hasSpec = event.before !== undefined || event.after !== undefined
+  const changes = hasSpec ? diffSpecs(event.before, event.after) : []
+
+  try {
+    await db.auditLog.create({
+      data: {
+        organizationId: event.organizationId,
+        actorId: event.actor.id,
+        actorEmail: event.actor.email || '',
+        action: event.action,
+        resourceType: event.resourceType,
+        resourceName: event.resourceName,
+        clusterName: event.clusterName || null,
+        changes: changes.length > 0 ? changes : undefined,
+        metadata: event.metadata,
+      },
+    })
+  } catch (error) {
+    console.error(`Failed to record audit log entry for ${event.action} ${event.resourceType} ${event.resourceName}:`, error)
+  }
+}
+
+function buildWhere(query: Omit<AuditLogQuery, 'page' | 'limit'>) {
+  return {
+    organizationId: query.organizationId,
+    createdAt: { gte: query.from, lte: query.to },
+    ...(query.resourceType && { resourceType: query.resourceType }),
+    ...(query.action && { action: query.action }),
+    ...(query.actor && { actorEmail: { contains: query.actor, mode: 'insensitive' as const } }),
+    ...(query.resourceName && { resourceName: { contains: query.resourceName, mode: 'insensitive' as const } }),
+    ...(query.clusterName && { clusterName: query.clusterName }),
+  }
+}
+
+function toAuditLogEntry(row: {
+  id: string
+  actorId: string | null
+  actorEmail: string
+  action: string
+  resourceType: string
+  resourceName: string
+  clusterName: string | null
+  changes: unknown
+  metadata: unknown
+  createdAt: Date
+}): AuditLogEntry {
+  return {
+    id: row.id,
+    actor: { id: row.actorId, email: row.actorEmail },
+    action: row.action as AuditAction,
+    resourceType: row.resourceType as AuditResourceType,
+    resourceName: row.resourceName,
+    clusterName: row.clusterName,
+    changes: Array.isArray(row.changes) ? row.changes as AuditChange[] : [],
+    metadata: (row.metadata as Record<string, unknown> | null) ?? null,
+    createdAt: row.createdAt.toISOString(),
+  }
+}
+
+/**
+ * A page of the organization's audit log, newest first
+ */
+export async function searchAuditLog(query: AuditLogQuery): Promise<{ entries: AuditLogEntry[]; total: number }> {
+  const where = buildWhere(query)
+  const [rows, total] = await Promise.all([
+    db.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    }),
+    db.auditLog.count({ where }),
+  ])
+
+  return { entries: rows.map(toAuditLogEntry), total }
+}
+
+/**
+ * Every matching entry, oldest first, for export
+ */
+export async function exportAuditLog(query: Omit<AuditLogQuery, 'page' | 'limit'>): Promise<AuditLogEntry[]> {
+  const rows = await db.auditLog.findMany({
+    where: buildWhere(query),
+    orderBy: { createdAt: 'asc' },
+    take: MAX_EXPORT_ENTRIES,
+  })
+  return rows.map(toAuditLogEntry)
+}
@@ -0,0 +1,103 @@
+/**
+ * Audit Log
+ *
+ * The spec diff stored with each audit log entry, and the JSON Lines export
+ * of entries.
+ */
+
+import type { AuditChange, AuditLogEntry } from '@/types/audit'
+
+// Deepest spec nesting compared field by field; anything deeper is compared whole
+const MAX_DIFF_DEPTH = 8
+
+// Fields named like a credential, e.g. apiKey, clientSecret or accessToken, but
+// not maxTokens or inputTokenCost; a change to one is recorded without its values
+const REDACTED_FIELDS = /^(api)?key$|apikey|secret|password|credential|(^|[a-z])token$/i
+const REDACTED = '[redacted]'
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// A name/value pair such as an environment variable, whose value may be a credential
+function isNamedValue(value: Record<string, unknown>): boolean {
+  return typeof value.name === 'string' && 'value' in value
+}
+
+/**
+ * A value as it's stored in a change, with credentials inside it replaced
+ */
+function redact(value: unknown, field: string): unknown {
+  if (REDACTED_FIELDS.test(field)) {
+    return REDACTED
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, ''))
+  }
+  if (isPlainObject(value)) {
+    const namedValue = isNamedValue(value)
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, namedValue && key === 'value' ? REDACTED : redact(item, key)]
+    ))
+  }
+  return value
+}
+
+function collectChanges(before: unknown, after: unknown, path: string, depth: number, changes: AuditChange[]) {
+  if (isPlainObject(before) && isPlainObject(after) && depth < MAX_DIFF_DEPTH) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+    for (const key of Array.from(keys).sort()) {
+      collectChanges(before[key], after[key], path ? `${path}.${key}` : key, depth + 1, changes)
+    }
+    return
+  }
+
+  if (isEqual(before, after)) {
+    return
+  }
+  const field = path.split('.').pop() || ''
+  changes.push({
+    path,
+    ...(before !== undefined && { before: redact(before, field) }),
+    ...(after !== undefined && { after: redact(after, field) }),
+  })
+}
+
+/**
+ * The fields that differ between two specs, by dotted path. Arrays are
+ * compared whole, so a reordered list shows as one change. Credentials, i.e.
+ * fields named like `apiKey` or `clientSecret` and the values of name/value
+ * pairs such as `env` entries, are recorded as changed without their values,
+ * including inside arrays. A created resource's fields all appear with only
+ * `after`, a deleted one's with only `before`.
+ */
+export function diffSpecs(before: unknown, after: unknown): AuditChange[] {
+  const changes: AuditChange[] = []
+  if (before === undefined && isPlainObject(after)) {
+    collectChanges({}, after, '', 0, changes)
+  } else if (after === undefined && isPlainObject(before)) {
+    collectChanges(before, {}, '', 0, changes)
+  } else {
+    collectChanges(before, after, '', 0, changes)
+  }
+  return changes
+}
+
+/**
+ * Write audit log entries as one JSON object per line
+ */
+export function formatAuditLogJsonl(entries: AuditLogEntry[]): string {
+  return entries.map(entry => `${JSON.stringify(entry)}\n`).join('')
+}
+
+/**
+ * File name for an audit log export, e.g. "acme-audit-2026-01-01-to-2026-01-31.jsonl"
+ */
+export function getAuditLogExportFilename(organization: string, from: Date, to: Date): string {
+  const day = (date: Date) => date.toISOString().slice(0, 10)
+  return `${organization}-audit-${day(from)}-to-${day(to)}.jsonl`
+}
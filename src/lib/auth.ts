@@ -5,6 +5,7 @@ import GitHubProvider from 'next-auth/providers/github'
 import CredentialsProvider from 'next-auth/providers/credentials'
 import { compare } from 'bcryptjs'
 import { db } from './db'
+import { isPlatformAdmin } from './permissions'
 
 export const authOptions: NextAuthOptions = {
   adapter: PrismaAdapter(db),
@@ -90,6 +91,7 @@ export const authOptions: NextAuthOptions = {
       
       if (session.user && userId) {
         session.user.id = userId
+        session.user.isPlatformAdmin = isPlatformAdmin(session.user.email)
 
         try {
           console.log('👥 [SESSION] Fetching organizations for user:', userId)
@@ -0,0 +1,198 @@
+// Helpers for streaming agent chat completions as Server-Sent Events
+
+import { ChatMessageMetadata, ChatStreamEvent } from '@/types/chat'
+
+// A tool call as it appears in a completion message, or a fragment of one in a chunk
+export interface CompletionToolCall {
+  index?: number
+  id?: string
+  type?: string
+  function?: {
+    name?: string
+    arguments?: string
+  }
+  // Non-standard: agents that run tools themselves may report the output
+  result?: string
+}
+
+// The subset of an OpenAI-compatible completion (or streamed chunk) we read
+export interface CompletionPayload {
+  model?: string
+  choices?: Array<{
+    delta?: { content?: string | null; tool_calls?: CompletionToolCall[] }
+    message?: { content?: string | null; tool_calls?: CompletionToolCall[] }
+    finish_reason?: string | null
+  }>
+  usage?: {
+    prompt_tokens?: number
+    completion_tokens?: number
+    total_tokens?: number
+  } | null
+}
+
+export interface CompletionChunk {
+  content: string | null
+  toolCalls: CompletionToolCall[]
+  metadata: ChatMessageMetadata
+}
+
+export interface SSEParser {
+  push: (chunk: string) => void
+  flush: () => void
+}
+
+/**
+ * Incremental SSE parser. Chunks may split lines or events at arbitrary
+ * boundaries, so partial lines are buffered until their newline arrives.
+ * @param onData - Called with the joined `data:` payload of each complete event
+ */
+export function createSSEParser(onData: (data: string) => void): SSEParser {
+  let buffer = ''
+  let dataLines: string[] = []
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onData(dataLines.join('\n'))
+      dataLines = []
+    }
+  }
+
+  const processLine = (line: string) => {
+    const trimmed = line.replace(/\r$/, '')
+    if (trimmed === '') {
+      dispatch()
+    } else if (trimmed.startsWith('data:')) {
+      dataLines.push(trimmed.slice(5).replace(/^ /, ''))
+    }
+    // Comments (":") and other fields (event, id, retry) are ignored
+  }
+
+  return {
+    push(chunk: string) {
+      buffer += chunk
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+      lines.forEach(processLine)
+    },
+    flush() {
+      if (buffer) {
+        processLine(buffer)
+        buffer = ''
+      }
+      dispatch()
+    }
+  }
+}
+
+/**
+ * Extracts model, token usage and finish reason from a completion or chunk.
+ * Only fields present in the payload are returned so chunk metadata can be merged.
+ */
+export function extractCompletionMetadata(payload: CompletionPayload): ChatMessageMetadata {
+  const metadata: ChatMessageMetadata = {}
+
+  if (payload.model) {
+    metadata.model = payload.model
+  }
+
+  const finishReason = payload.choices?.[0]?.finish_reason
+  if (finishReason) {
+    metadata.finishReason = finishReason
+  }
+
+  if (payload.usage) {
+    const inputTokens = payload.usage.prompt_tokens ?? 0
+    const outputTokens = payload.usage.completion_tokens ?? 0
+    metadata.usage = {
+      inputTokens,
+      outputTokens,
+      totalTokens: payload.usage.total_tokens ?? inputTokens + outputTokens
+    }
+  }
+
+  return metadata
+}
+
+/**
+ * Parses one OpenAI-compatible chat completion chunk
+ * @param data - JSON payload of a single SSE event
+ * @returns The content delta and metadata, or null when the payload is not JSON
+ */
+export function parseCompletionChunk(data: string): CompletionChunk | null {
+  let payload: CompletionPayload
+  try {
+    payload = JSON.parse(data)
+  } catch {
+    return null
+  }
+
+  const choice = payload.choices?.[0]
+  const content = choice?.delta?.content ?? choice?.message?.content
+  return {
+    content: typeof content === 'string' && content.length > 0 ? content : null,
+    toolCalls: choice?.delta?.tool_calls ?? choice?.message?.tool_calls ?? [],
+    metadata: extractCompletionMetadata(payload)
+  }
+}
+
+/**
+ * Serializes a chat stream event into an SSE frame
+ */
+export function encodeChatStreamEvent(event: ChatStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`
+}
+
+/**
+ * Reads a streaming chat response produced by the chat route
+ * @param response - Fetch response with a text/event-stream body
+ * @param onEvent - Called for every event in arrival order
+ * @returns The final `done` event
+ * @throws Error when the stream reports an error or ends without completing
+ */
+export async function readChatStream(
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<Extract<ChatStreamEvent, { type: 'done' }>> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream')
+  }
+
+  // Assigned from the parser callback, so declared without narrowing to null
+  let doneEvent = null as Extract<ChatStreamEvent, { type: 'done' }> | null
+  let streamError = null as string | null
+
+  const parser = createSSEParser((data) => {
+    let event: ChatStreamEvent
+    try {
+      event = JSON.parse(data)
+    } catch {
+      return
+    }
+
+    if (event.type === 'done') {
+      doneEvent = event
+    } else if (event.type === 'error') {
+      streamError = event.message || event.error
+    }
+    onEvent(event)
+  })
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    parser.push(decoder.decode(value, { stream: true }))
+  }
+  parser.push(decoder.decode())
+  parser.flush()
+
+  if (streamError) {
+    throw new Error(streamError)
+  }
+  if (!doneEvent) {
+    throw new Error('Agent response stream ended unexpectedly')
+  }
+  return doneEvent
+}
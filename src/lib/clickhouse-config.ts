@@ -41,4 +41,47 @@ export function getClickHouseConfig() {
  */
 export function createClickHouseClient() {
   return createClient(getClickHouseConfig())
-}
\ No newline at end of file
+}
+/**
+ * Whether ClickHouse is reached through kubectl-proxy, where queries go over plain HTTP
+ * because the client library doesn't work well with the proxy format
+ */
+export function isClickHouseProxyMode(): boolean {
+  return !!process.env.KUBERNETES_SERVER_URL?.includes('kubectl-proxy') && process.env.CLICKHOUSE_DIRECT_ACCESS !== 'true'
+}
+
+/**
+ * Run a parameterized query through kubectl-proxy.
+ * Parameters are sent as ClickHouse `param_<name>` URL parameters and bound
+ * server-side to the `{name:Type}` placeholders, never spliced into the SQL.
+ * @returns The result rows, decoded from JSONEachRow
+ */
+export async function queryClickHouseProxy(
+  sql: string,
+  params: Record<string, string | number>
+): Promise<unknown[]> {
+  const { url } = getClickHouseConfig()
+  const searchParams = new URLSearchParams({
+    database: process.env.CLICKHOUSE_DATABASE || 'langop',
+    default_format: 'JSONEachRow',
+    query: sql,
+  })
+  Object.entries(params).forEach(([name, value]) => {
+    searchParams.set(`param_${name}`, String(value))
+  })
+
+  const response = await fetch(`${url}?${searchParams}`, {
+    headers: {
+      'Authorization': `Basic ${Buffer.from(`${process.env.CLICKHOUSE_USERNAME || 'langop'}:${process.env.CLICKHOUSE_PASSWORD || 'langop'}`).toString('base64')}`
+    }
+  })
+  if (!response.ok) {
+    throw new Error(`ClickHouse query failed: ${response.status} ${response.statusText}`)
+  }
+
+  const text = await response.text()
+  return text
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line))
+}
@@ -0,0 +1,719 @@
+/**
+ * ClickHouse Telemetry Repository
+ *
+ * Reads agent spans from the OpenTelemetry exporter's `otel_traces` table.
+ * Every value is bound as a query parameter, over both the ClickHouse client
+ * and the kubectl-proxy HTTP transport, and every row is parsed with a schema.
+ */
+
+import { z } from 'zod'
+import {
+  createClickHouseClient,
+  isClickHouseProxyMode,
+  queryClickHouseProxy,
+} from './clickhouse-config'
+import {
+  RECONCILE_SPAN_NAME,
+  nanosToDate,
+  type AgentExecutionUsage,
+  type AgentUsageBucket,
+  type ExecutionFacetName,
+  type ExecutionFacetQuery,
+  type ExecutionFacets,
+  type ExecutionFilters,
+  type ExecutionListQuery,
+  type ExecutionModelUsage,
+  type ExecutionSummary,
+  type ExecutionUsageQuery,
+  type LatencyPercentiles,
+  type ModelAgentUsage,
+  type ModelAnalyticsQuery,
+  type ModelErrorCount,
+  type ModelRequestBucket,
+  type ModelRequestQuery,
+  type ModelUsageBucket,
+  type OrganizationUsageQuery,
+  type TaskUsageBucket,
+  type TelemetryGranularity,
+  type TelemetryRepository,
+  type TelemetryScope,
+  type TelemetrySpan,
+  type TraceQuery,
+  type UsageQuery,
+} from './telemetry-repository'
+
+type QueryParams = Record<string, string | number>
+
+/**
+ * Runs SQL against ClickHouse and returns JSON rows
+ */
+export interface ClickHouseTransport {
+  query(sql: string, params: QueryParams): Promise<unknown[]>
+}
+
+// Spans belonging to one organization
+const SCOPE_CONDITION = `(
+        ResourceAttributes['k8s.namespace.name'] = {scopeNamespace:String}
+        OR ResourceAttributes['langop.io/organization-id'] = {scopeOrganizationId:String}
+      )`
+
+// Per-execution aggregates of an agent's spans in a time range, to filter and page on
+const EXECUTIONS_CTE = `executions AS (
+        SELECT
+          TraceId AS traceId,
+          min(Timestamp) AS startTimestamp,
+          toString(toUnixTimestamp64Nano(min(Timestamp))) AS startTimeNs,
+          toString(toUnixTimestamp64Nano(max(addNanoseconds(Timestamp, Duration)))) AS endTimeNs,
+          max(Duration) / 1000000 AS durationMs,
+          count() AS spanCount,
+          countIf(StatusCode = 'STATUS_CODE_ERROR') AS errorSpanCount,
+          argMin(SpanName, Timestamp) AS rootSpanName,
+          if(argMin(StatusCode, Timestamp) = 'STATUS_CODE_ERROR', 'error', 'success') AS status,
+          arraySort(arrayFilter(m -> m != '', groupUniqArray(SpanAttributes['gen_ai.request.model']))) AS models
+        FROM langop.otel_traces
+        WHERE Timestamp >= fromUnixTimestamp64Nano({from:Int64})
+          AND Timestamp <= fromUnixTimestamp64Nano({to:Int64})
+          AND SpanAttributes['agent.name'] = {agentName:String}
+          AND SpanName != {reconcileSpanName:String}
+          AND ${SCOPE_CONDITION}
+        GROUP BY TraceId
+      )`
+
+// Bucketing functions by granularity; never built from user input
+const INTERVAL_FUNCTIONS: Record<TelemetryGranularity, string> = {
+  hour: 'toStartOfHour',
+  day: 'toStartOfDay',
+}
+
+// Spans that carry LLM token usage
+const TOKEN_USAGE_CONDITION = `(length(SpanAttributes['gen_ai.usage.input_tokens']) > 0 OR length(SpanAttributes['gen_ai.usage.output_tokens']) > 0)`
+
+// Error type of a failed model request, per the OpenTelemetry `error.type` convention
+const ERROR_TYPE_EXPRESSION = `if(length(SpanAttributes['error.type']) > 0, SpanAttributes['error.type'], 'unknown')`
+
+// ClickHouse quotes 64-bit integers in JSON, so numbers may arrive as strings
+const count = z.coerce.number()
+const nanos = z.union([z.string(), z.number()]).transform(String)
+const stringMap = z.record(z.string(), z.string())
+
+const executionRowSchema = z.object({
+  traceId: z.string(),
+  startTimeNs: nanos,
+  endTimeNs: nanos,
+  durationMs: count,
+  spanCount: count,
+  errorSpanCount: count,
+  rootSpanName: z.string(),
+  status: z.enum(['success', 'error']),
+  models: z.array(z.string()),
+})
+
+const facetRowSchema = z.object({
+  facet: z.enum(['status', 'rootSpanName', 'model']),
+  value: z.string(),
+  count,
+})
+
+const spanRowSchema = z.object({
+  traceId: z.string(),
+  spanId: z.string(),
+  parentSpanId: z.string(),
+  spanName: z.string(),
+  spanKind: z.string(),
+  startTimeNs: nanos,
+  durationNs: nanos,
+  statusCode: z.string(),
+  statusMessage: z.string(),
+  attributes: stringMap,
+  eventTimesNs: z.array(nanos),
+  eventNames: z.array(z.string()),
+  eventAttributes: z.array(stringMap),
+  podName: z.string(),
+})
+
+const modelUsageRowSchema = z.object({
+  interval: count,
+  pricedAt: count,
+  modelName: z.string(),
+  spanCount: count,
+  errorCount: count,
+  avgDurationMs: count,
+  inputTokens: count,
+  outputTokens: count,
+})
+
+const taskUsageRowSchema = z.object({
+  interval: count,
+  pricedAt: count,
+  taskName: z.string(),
+  modelName: z.string(),
+  spanCount: count,
+  inputTokens: count,
+  outputTokens: count,
+})
+
+const agentUsageRowSchema = z.object({
+  interval: count,
+  pricedAt: count,
+  agentName: z.string(),
+  taskName: z.string(),
+  modelName: z.string(),
+  spanCount: count,
+  errorCount: count,
+  inputTokens: count,
+  outputTokens: count,
+})
+
+const agentExecutionUsageRowSchema = z.object({
+  agentName: z.string(),
+  executions: count,
+  inputTokens: count,
+  outputTokens: count,
+  models: z.array(z.string()),
+})
+
+const executionModelUsageRowSchema = z.object({
+  traceId: z.string(),
+  timestampNs: nanos,
+  agentName: z.string(),
+  taskName: z.string(),
+  modelName: z.string(),
+  inputTokens: count,
+  outputTokens: count,
+})
+
+const modelRequestRowSchema = z.object({
+  interval: count,
+  requests: count,
+  errorCount: count,
+  inputTokens: count,
+  outputTokens: count,
+  p50DurationMs: count,
+  p95DurationMs: count,
+  p99DurationMs: count,
+})
+
+const modelLatencyRowSchema = z.object({
+  requests: count,
+  p50Ms: count,
+  p95Ms: count,
+  p99Ms: count,
+})
+
+const modelErrorRowSchema = z.object({
+  errorType: z.string(),
+  count,
+})
+
+const modelAgentUsageRowSchema = z.object({
+  agentName: z.string(),
+  requests: count,
+  errorCount: count,
+  inputTokens: count,
+  outputTokens: count,
+  avgDurationMs: count,
+})
+
+/**
+ * Validate result rows. Throws a plain Error so that callers don't mistake a
+ * malformed result for invalid request input.
+ */
+function parseRows<T extends z.ZodType>(schema: T, rows: unknown[]): z.infer<T>[] {
+  const result = z.array(schema).safeParse(rows)
+  if (!result.success) {
+    throw new Error(`Unexpected ClickHouse result: ${result.error.message}`)
+  }
+  return result.data
+}
+
+function scopeParams(scope: TelemetryScope): QueryParams {
+  return {
+    scopeNamespace: scope.namespace,
+    scopeOrganizationId: scope.organizationId,
+  }
+}
+
+/**
+ * Conditions on `executions` columns for the filters, leaving out one facet's own filter
+ */
+function executionFilterConditions(filters: ExecutionFilters, exclude?: ExecutionFacetName): string[] {
+  const conditions: string[] = []
+  if (filters.status && exclude !== 'status') {
+    conditions.push('status = {status:String}')
+  }
+  if (filters.minDurationMs !== undefined) {
+    conditions.push('durationMs >= {minDurationMs:Float64}')
+  }
+  if (filters.rootSpanName && exclude !== 'rootSpanName') {
+    conditions.push('rootSpanName = {rootSpanName:String}')
+  }
+  if (filters.model && exclude !== 'model') {
+    conditions.push('has(models, {model:String})')
+  }
+  return conditions
+}
+
+function executionParams(query: ExecutionFacetQuery): QueryParams {
+  const { filters = {} } = query
+  return {
+    from: query.from.getTime() * 1000000,
+    to: query.to.getTime() * 1000000,
+    agentName: query.agentName,
+    reconcileSpanName: RECONCILE_SPAN_NAME,
+    ...scopeParams(query.scope),
+    ...(filters.status && { status: filters.status }),
+    ...(filters.minDurationMs !== undefined && { minDurationMs: filters.minDurationMs }),
+    ...(filters.rootSpanName && { rootSpanName: filters.rootSpanName }),
+    ...(filters.model && { model: filters.model }),
+  }
+}
+
+/**
+ * Conditions and parameters for a model's spans in the organization. Each
+ * model name is bound as its own parameter, which the proxy transport supports.
+ */
+function modelAnalyticsFilter({ scope, modelNames, from, to }: ModelAnalyticsQuery): { conditions: string; params: QueryParams } {
+  const modelParams = Object.fromEntries(modelNames.map((modelName, i) => [`modelName${i}`, modelName]))
+  const modelList = Object.keys(modelParams).map(name => `{${name}:String}`).join(', ')
+  // No names match no spans, rather than spans without a model
+  const modelCondition = modelList ? `SpanAttributes['gen_ai.request.model'] IN (${modelList})` : '0'
+
+  return {
+    conditions: `Timestamp >= fromUnixTimestamp64Nano({from:Int64})
+          AND Timestamp <= fromUnixTimestamp64Nano({to:Int64})
+          AND ${modelCondition}
+          AND SpanName != {reconcileSpanName:String}
+          AND ${SCOPE_CONDITION}`,
+    params: {
+      from: from.getTime() * 1000000,
+      to: to.getTime() * 1000000,
+      reconcileSpanName: RECONCILE_SPAN_NAME,
+      ...modelParams,
+      ...scopeParams(scope),
+    },
+  }
+}
+
+/**
+ * Bucket columns of a usage query: the interval's start and, in milliseconds,
+ * when its usage is priced. Grouping by both splits an interval at each price
+ * change, each of which is bound as its own parameter.
+ */
+function usageBucket(granularity: TelemetryGranularity, priceChanges: Date[] = []): { columns: string; params: QueryParams } {
+  const intervalStart = `${INTERVAL_FUNCTIONS[granularity]}(Timestamp)`
+  const params = Object.fromEntries(priceChanges.map((change, i) => [`priceChange${i}`, change.getTime()]))
+  const changes = Object.keys(params)
+    .map(name => `if(toUnixTimestamp64Milli(Timestamp) >= {${name}:Int64}, {${name}:Int64}, 0)`)
+  const intervalStartMs = `toInt64(toUnixTimestamp(${intervalStart})) * 1000`
+  const pricedAt = changes.length > 0 ? `greatest(${[intervalStartMs, ...changes].join(', ')})` : intervalStartMs
+
+  return {
+    columns: `toUnixTimestamp(${intervalStart}) AS interval,
+          ${pricedAt} AS pricedAt`,
+    params,
+  }
+}
+
+function whereClause(conditions: string[]): string {
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+}
+
+function createDefaultTransport(): ClickHouseTransport {
+  // The client library doesn't work well with the kubectl-proxy format
+  if (isClickHouseProxyMode()) {
+    return { query: queryClickHouseProxy }
+  }
+
+  const client = createClickHouseClient()
+  return {
+    async query(sql, params) {
+      const resultSet = await client.query({
+        query: sql,
+        query_params: params,
+        format: 'JSONEachRow',
+      })
+      return resultSet.json()
+    },
+  }
+}
+
+/**
+ * Create a repository backed by ClickHouse
+ * @param transport - Defaults to the client library, or kubectl-proxy HTTP when configured
+ */
+export function createClickHouseTelemetryRepository(
+  transport: ClickHouseTransport = createDefaultTransport()
+): TelemetryRepository {
+  return {
+    async listExecutions(query: ExecutionListQuery): Promise<ExecutionSummary[]> {
+      const { filters = {}, cursor, limit } = query
+      const conditions = executionFilterConditions(filters)
+      if (cursor) {
+        conditions.push('(toUnixTimestamp64Nano(startTimestamp), traceId) < ({cursorStartTime:Int64}, {cursorTraceId:String})')
+      }
+
+      const sql = `
+        WITH ${EXECUTIONS_CTE}
+        SELECT traceId, startTimeNs, endTimeNs, durationMs, spanCount, errorSpanCount, rootSpanName, status, models
+        FROM executions
+        ${whereClause(conditions)}
+        ORDER BY startTimestamp DESC, traceId DESC
+        LIMIT {limit:UInt32}
+      `
+
+      const rows = parseRows(executionRowSchema, await transport.query(sql, {
+        ...executionParams(query),
+        ...(cursor && { cursorStartTime: cursor.startTimeUnixNano, cursorTraceId: cursor.traceId }),
+        limit,
+      }))
+
+      return rows.map((row) => ({
+        traceId: row.traceId,
+        startTime: nanosToDate(row.startTimeNs),
+        startTimeUnixNano: row.startTimeNs,
+        endTime: nanosToDate(row.endTimeNs),
+        durationMs: row.durationMs,
+        spanCount: row.spanCount,
+        errorSpanCount: row.errorSpanCount,
+        rootSpanName: row.rootSpanName,
+        status: row.status,
+        models: row.models,
+      }))
+    },
+
+    async getExecutionFacets(query: ExecutionFacetQuery): Promise<ExecutionFacets> {
+      const { filters = {} } = query
+      const sql = `
+        WITH ${EXECUTIONS_CTE}
+        SELECT facet, value, count
+        FROM (
+          SELECT 'status' AS facet, status AS value, count() AS count
+          FROM executions
+          ${whereClause(executionFilterConditions(filters, 'status'))}
+          GROUP BY value
+          UNION ALL
+          SELECT 'rootSpanName' AS facet, rootSpanName AS value, count() AS count
+          FROM executions
+          ${whereClause(executionFilterConditions(filters, 'rootSpanName'))}
+          GROUP BY value
+          UNION ALL
+          SELECT 'model' AS facet, arrayJoin(models) AS value, count() AS count
+          FROM executions
+          ${whereClause(executionFilterConditions(filters, 'model'))}
+          GROUP BY value
+        )
+        ORDER BY facet ASC, count DESC, value ASC
+      `
+
+      const rows = parseRows(facetRowSchema, await transport.query(sql, executionParams(query)))
+
+      const facets: ExecutionFacets = { status: [], rootSpanName: [], model: [] }
+      rows.forEach((row) => {
+        facets[row.facet].push({ value: row.value, count: row.count })
+      })
+      return facets
+    },
+
+    async getTraceSpans({ scope, agentName, traceIdPrefix, excludeReconcile = false }: TraceQuery): Promise<TelemetrySpan[]> {
+      const sql = `
+        SELECT
+          TraceId AS traceId,
+          SpanId AS spanId,
+          ParentSpanId AS parentSpanId,
+          SpanName AS spanName,
+          SpanKind AS spanKind,
+          toString(toUnixTimestamp64Nano(Timestamp)) AS startTimeNs,
+          toString(Duration) AS durationNs,
+          StatusCode AS statusCode,
+          StatusMessage AS statusMessage,
+          SpanAttributes AS attributes,
+          arrayMap(t -> toString(toUnixTimestamp64Nano(t)), Events.Timestamp) AS eventTimesNs,
+          Events.Name AS eventNames,
+          Events.Attributes AS eventAttributes,
+          ResourceAttributes['k8s.pod.name'] AS podName
+        FROM langop.otel_traces
+        WHERE TraceId LIKE {traceIdPattern:String}
+          AND ${SCOPE_CONDITION}
+          -- Only traces in which this agent took part
+          AND TraceId IN (
+            SELECT TraceId
+            FROM langop.otel_traces
+            WHERE TraceId LIKE {traceIdPattern:String}
+              AND SpanAttributes['agent.name'] = {agentName:String}
+          )
+          ${excludeReconcile ? 'AND SpanName != {reconcileSpanName:String}' : ''}
+        ORDER BY Timestamp ASC
+      `
+
+      const rows = parseRows(spanRowSchema, await transport.query(sql, {
+        traceIdPattern: `${traceIdPrefix}%`,
+        agentName,
+        reconcileSpanName: RECONCILE_SPAN_NAME,
+        ...scopeParams(scope),
+      }))
+
+      return rows.map((row) => {
+        const endTimeUnixNano = (BigInt(row.startTimeNs) + BigInt(row.durationNs)).toString()
+
+        return {
+          traceId: row.traceId,
+          spanId: row.spanId,
+          parentSpanId: row.parentSpanId || null,
+          spanName: row.spanName,
+          spanKind: row.spanKind,
+          startTime: nanosToDate(row.startTimeNs),
+          startTimeUnixNano: row.startTimeNs,
+          endTime: nanosToDate(endTimeUnixNano),
+          endTimeUnixNano,
+          durationNs: Number(row.durationNs),
+          statusCode: row.statusCode,
+          statusMessage: row.statusMessage,
+          attributes: row.attributes,
+          events: row.eventTimesNs.map((timeUnixNano, i) => ({
+            timestamp: nanosToDate(timeUnixNano),
+            timeUnixNano,
+            name: row.eventNames[i] || '',
+            attributes: row.eventAttributes[i] || {},
+          })),
+          podName: row.podName || null,
+        }
+      })
+    },
+
+    async getModelUsage({ scope, agentName, from, to, granularity, priceChanges }: UsageQuery): Promise<ModelUsageBucket[]> {
+      const bucket = usageBucket(granularity, priceChanges)
+      const sql = `
+        SELECT
+          ${bucket.columns},
+          SpanAttributes['gen_ai.request.model'] AS modelName,
+          count() AS spanCount,
+          countIf(StatusCode = 'STATUS_CODE_ERROR') AS errorCount,
+          avg(Duration) / 1000000 AS avgDurationMs,
+          sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.input_tokens'])) AS inputTokens,
+          sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.output_tokens'])) AS outputTokens
+        FROM langop.otel_traces
+        WHERE Timestamp >= fromUnixTimestamp64Nano({from:Int64})
+          AND Timestamp <= fromUnixTimestamp64Nano({to:Int64})
+          AND SpanAttributes['agent.name'] = {agentName:String}
+          AND SpanName != {reconcileSpanName:String}
+          AND ${TOKEN_USAGE_CONDITION}
+          AND ${SCOPE_CONDITION}
+        GROUP BY interval, pricedAt, modelName
+        ORDER BY interval ASC, pricedAt ASC, modelName ASC
+      `
+
+      const rows = parseRows(modelUsageRowSchema, await transport.query(sql, {
+        from: from.getTime() * 1000000,
+        to: to.getTime() * 1000000,
+        agentName,
+        reconcileSpanName: RECONCILE_SPAN_NAME,
+        ...bucket.params,
+        ...scopeParams(scope),
+      }))
+
+      return rows.map((row) => ({ ...row, interval: new Date(row.interval * 1000), pricedAt: new Date(row.pricedAt) }))
+    },
+
+    async getTaskUsage({ scope, agentName, from, to, granularity, priceChanges }: UsageQuery): Promise<TaskUsageBucket[]> {
+      const bucket = usageBucket(granularity, priceChanges)
+      const sql = `
+        SELECT
+          ${bucket.columns},
+          SpanAttributes['task.name'] AS taskName,
+          SpanAttributes['gen_ai.request.model'] AS modelName,
+          count() AS spanCount,
+          sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.input_tokens'])) AS inputTokens,
+          sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.output_tokens'])) AS outputTokens
+        FROM langop.otel_traces
+        WHERE Timestamp >= fromUnixTimestamp64Nano({from:Int64})
+          AND Timestamp <= fromUnixTimestamp64Nano({to:Int64})
+          AND SpanAttributes['agent.name'] = {agentName:String}
+          AND SpanName != {reconcileSpanName:String}
+          AND ${TOKEN_USAGE_CONDITION}
+          AND length(SpanAttributes['task.name']) > 0
+          AND ${SCOPE_CONDITION}
+        GROUP BY interval, pricedAt, taskName, modelName
+        ORDER BY interval ASC, pricedAt ASC, taskName ASC, modelName ASC
+      `
+
+      const rows = parseRows(taskUsageRowSchema, await transport.query(sql, {
+        from: from.getTime() * 1000000,
+        to: to.getTime() * 1000000,
+        agentName,
+        reconcileSpanName: RECONCILE_SPAN_NAME,
+        ...bucket.params,
+        ...scopeParams(scope),
+      }))
+
+      return rows.map((row) => ({ ...row, interval: new Date(row.interval * 1000), pricedAt: new Date(row.pricedAt) }))
+    },
+
+    async getOrganizationUsage({ scope, from, to, granularity, priceChanges }: OrganizationUsageQuery): Promise<AgentUsageBucket[]> {
+      const bucket = usageBucket(granularity, priceChanges)
+      const sql = `
+        SELECT
+          ${bucket.columns},
+          SpanAttributes['agent.name'] AS agentName,
+          SpanAttributes['task.name'] AS taskName,
+          SpanAttributes['gen_ai.request.model'] AS modelName,
+          count() AS spanCount,
+          countIf(StatusCode = 'STATUS_CODE_ERROR') AS errorCount,
+          sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.input_tokens'])) AS inputTokens,
+          sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.output_tokens'])) AS outputTokens
+        FROM langop.otel_traces
+        WHERE Timestamp >= fromUnixTimestamp64Nano({from:Int64})
+          AND Timestamp <= fromUnixTimestamp64Nano({to:Int64})
+          AND length(SpanAttributes['agent.name']) > 0
+          AND SpanName != {reconcileSpanName:String}
+          AND ${TOKEN_USAGE_CONDITION}
+          AND ${SCOPE_CONDITION}
+        GROUP BY interval, pricedAt, agentName, taskName, modelName
+        ORDER BY interval ASC, pricedAt ASC, agentName ASC, taskName ASC, modelName ASC
+      `
+
+      const rows = parseRows(agentUsageRowSchema, await transport.query(sql, {
+        from: from.getTime() * 1000000,
+        to: to.getTime() * 1000000,
+        reconcileSpanName: RECONCILE_SPAN_NAME,
+        ...bucket.params,
+        ...scopeParams(scope),
+      }))
+
+      return rows.map((row) => ({ ...row, interval: new Date(row.interval * 1000), pricedAt: new Date(row.pricedAt) }))
+    },
+
+    async getAgentExecutionUsage({ scope, from, to }: ExecutionUsageQuery): Promise<AgentExecutionUsage[]> {
+      const sql = `
+        SELECT
+          SpanAttributes['agent.name'] AS agentName,
+          uniqExact(TraceId) AS executions,
+          sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.input_tokens'])) AS inputTokens,
+          sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.output_tokens'])) AS outputTokens,
+          arraySort(arrayFilter(m -> m != '', groupUniqArray(SpanAttributes['gen_ai.request.model']))) AS models
+        FROM langop.otel_traces
+        WHERE Timestamp >= fromUnixTimestamp64Nano({from:Int64})
+          AND Timestamp <= fromUnixTimestamp64Nano({to:Int64})
+          AND length(SpanAttributes['agent.name']) > 0
+          AND SpanName != {reconcileSpanName:String}
+          AND ${SCOPE_CONDITION}
+        GROUP BY agentName
+        ORDER BY agentName ASC
+      `
+
+      return parseRows(agentExecutionUsageRowSchema, await transport.query(sql, {
+        from: from.getTime() * 1000000,
+        to: to.getTime() * 1000000,
+        reconcileSpanName: RECONCILE_SPAN_NAME,
+        ...scopeParams(scope),
+      }))
+    },
+
+    async getExecutionModelUsage({ scope, from, to }: ExecutionUsageQuery): Promise<ExecutionModelUsage[]> {
+      const sql = `
+        SELECT
+          TraceId AS traceId,
+          toString(toUnixTimestamp64Nano(min(Timestamp))) AS timestampNs,
+          SpanAttributes['agent.name'] AS agentName,
+          SpanAttributes['task.name'] AS taskName,
+          SpanAttributes['gen_ai.request.model'] AS modelName,
+          sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.input_tokens'])) AS inputTokens,
+          sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.output_tokens'])) AS outputTokens
+        FROM langop.otel_traces
+        WHERE Timestamp >= fromUnixTimestamp64Nano({from:Int64})
+          AND Timestamp <= fromUnixTimestamp64Nano({to:Int64})
+          AND length(SpanAttributes['agent.name']) > 0
+          AND SpanName != {reconcileSpanName:String}
+          AND ${TOKEN_USAGE_CONDITION}
+          AND ${SCOPE_CONDITION}
+        GROUP BY traceId, agentName, taskName, modelName
+        ORDER BY timestampNs ASC, traceId ASC, taskName ASC, modelName ASC
+      `
+
+      const rows = parseRows(executionModelUsageRowSchema, await transport.query(sql, {
+        from: from.getTime() * 1000000,
+        to: to.getTime() * 1000000,
+        reconcileSpanName: RECONCILE_SPAN_NAME,
+        ...scopeParams(scope),
+      }))
+
+      return rows.map(({ timestampNs, ...row }) => ({ ...row, timestamp: nanosToDate(timestampNs) }))
+    },
+
+    async getModelRequests(query: ModelRequestQuery): Promise<ModelRequestBucket[]> {
+      const { conditions, params } = modelAnalyticsFilter(query)
+      const sql = `
+        SELECT
+          toUnixTimestamp(${INTERVAL_FUNCTIONS[query.granularity]}(Timestamp)) AS interval,
+          count() AS requests,
+          countIf(StatusCode = 'STATUS_CODE_ERROR') AS errorCount,
+          sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.input_tokens'])) AS inputTokens,
+          sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.output_tokens'])) AS outputTokens,
+          quantile(0.5)(Duration) / 1000000 AS p50DurationMs,
+          quantile(0.95)(Duration) / 1000000 AS p95DurationMs,
+          quantile(0.99)(Duration) / 1000000 AS p99DurationMs
+        FROM langop.otel_traces
+        WHERE ${conditions}
+        GROUP BY interval
+        ORDER BY interval ASC
+      `
+
+      const rows = parseRows(modelRequestRowSchema, await transport.query(sql, params))
+
+      return rows.map((row) => ({ ...row, interval: new Date(row.interval * 1000) }))
+    },
+
+    async getModelLatency(query: ModelAnalyticsQuery): Promise<LatencyPercentiles | null> {
+      const { conditions, params } = modelAnalyticsFilter(query)
+      const sql = `
+        SELECT
+          count() AS requests,
+          quantile(0.5)(Duration) / 1000000 AS p50Ms,
+          quantile(0.95)(Duration) / 1000000 AS p95Ms,
+          quantile(0.99)(Duration) / 1000000 AS p99Ms
+        FROM langop.otel_traces
+        WHERE ${conditions}
+      `
+
+      const [row] = parseRows(modelLatencyRowSchema, await transport.query(sql, params))
+      if (!row || row.requests === 0) {
+        return null
+      }
+      return { p50Ms: row.p50Ms, p95Ms: row.p95Ms, p99Ms: row.p99Ms }
+    },
+
+    async getModelErrors(query: ModelAnalyticsQuery): Promise<ModelErrorCount[]> {
+      const { conditions, params } = modelAnalyticsFilter(query)
+      const sql = `
+        SELECT
+          ${ERROR_TYPE_EXPRESSION} AS errorType,
+          count() AS count
+        FROM langop.otel_traces
+        WHERE ${conditions}
+          AND StatusCode = 'STATUS_CODE_ERROR'
+        GROUP BY errorType
+        ORDER BY count DESC, errorType ASC
+      `
+
+      return parseRows(modelErrorRowSchema, await transport.query(sql, params))
+    },
+
+    async getModelAgentUsage(query: ModelAnalyticsQuery): Promise<ModelAgentUsage[]> {
+      const { conditions, params } = modelAnalyticsFilter(query)
+      const sql = `
+        SELECT
+          SpanAttributes['agent.name'] AS agentName,
+          count() AS requests,
+          countIf(StatusCode = 'STATUS_CODE_ERROR') AS errorCount,
+          sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.input_tokens'])) AS inputTokens,
+          sum(toUInt64OrZero(SpanAttributes['gen_ai.usage.output_tokens'])) AS outputTokens,
+          avg(Duration) / 1000000 AS avgDurationMs
+        FROM langop.otel_traces
+        WHERE ${conditions}
+        GROUP BY agentName
+        ORDER BY inputTokens + outputTokens DESC, requests DESC, agentName ASC
+      `
+
+      return parseRows(modelAgentUsageRowSchema, await transport.query(sql, params))
+    },
+  }
+}
@@ -0,0 +1,164 @@
+// Conversation transcript export to Markdown and JSON
+
+import { ChatMessageMetadata, ChatToolCall } from '@/types/chat'
+import { parseAgentMessage } from './message-parser'
+
+export type ConversationExportFormat = 'markdown' | 'json'
+
+export interface ExportableConversation {
+  id: string
+  agentName: string
+  clusterName: string
+  title: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ExportableMessage {
+  id: string
+  role: string
+  content: string
+  toolCalls: ChatToolCall[] | null
+  metadata: ChatMessageMetadata | null
+  timestamp: Date
+}
+
+export interface ConversationExport {
+  conversation: {
+    id: string
+    title: string | null
+    agentName: string
+    clusterName: string
+    createdAt: string
+    updatedAt: string
+  }
+  exportedAt: string
+  messages: Array<{
+    id: string
+    role: string
+    timestamp: string
+    content: string
+    responseContent: string
+    thinkingContent: string[]
+    toolCalls: ChatToolCall[]
+    metadata: ChatMessageMetadata | null
+  }>
+}
+
+/**
+ * Build the JSON export of a conversation, with thinking separated from responses
+ */
+export function buildConversationExport(
+  conversation: ExportableConversation,
+  messages: ExportableMessage[]
+): ConversationExport {
+  return {
+    conversation: {
+      id: conversation.id,
+      title: conversation.title,
+      agentName: conversation.agentName,
+      clusterName: conversation.clusterName,
+      createdAt: conversation.createdAt.toISOString(),
+      updatedAt: conversation.updatedAt.toISOString(),
+    },
+    exportedAt: new Date().toISOString(),
+    messages: messages.map((msg) => {
+      const parsed = msg.role === 'assistant'
+        ? parseAgentMessage(msg.content)
+        : { thinkingContent: [], responseContent: msg.content }
+
+      return {
+        id: msg.id,
+        role: msg.role,
+        timestamp: msg.timestamp.toISOString(),
+        content: msg.content,
+        responseContent: parsed.responseContent,
+        thinkingContent: parsed.thinkingContent,
+        toolCalls: msg.toolCalls || [],
+        metadata: msg.metadata,
+      }
+    }),
+  }
+}
+
+function formatToolCallMarkdown(toolCall: ChatToolCall): string {
+  const lines = [`**Tool call:** \`${toolCall.name}\` — ${toolCall.status.replace('_', ' ')}`, '']
+
+  let args = toolCall.arguments
+  try {
+    args = JSON.stringify(JSON.parse(toolCall.arguments), null, 2)
+  } catch {
+    // Keep arguments as produced by the model
+  }
+  lines.push('```json', args, '```')
+
+  if (toolCall.result !== undefined) {
+    lines.push('', 'Result:', '', '```', toolCall.result, '```')
+  }
+
+  if (toolCall.approval) {
+    const { decision, decidedBy, decidedAt, reason } = toolCall.approval
+    lines.push(
+      '',
+      `_${decision === 'approved' ? 'Approved' : 'Rejected'} by ${decidedBy.name || decidedBy.email} at ${decidedAt}${reason ? `: ${reason}` : ''}_`
+    )
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Render a conversation export as a Markdown transcript
+ */
+export function formatConversationMarkdown(data: ConversationExport): string {
+  const { conversation } = data
+  const sections = [
+    `# ${conversation.title || `Conversation with ${conversation.agentName}`}`,
+    [
+      `- **Agent:** ${conversation.agentName}`,
+      `- **Cluster:** ${conversation.clusterName}`,
+      `- **Started:** ${conversation.createdAt}`,
+      `- **Exported:** ${data.exportedAt}`,
+    ].join('\n'),
+  ]
+
+  data.messages.forEach((msg) => {
+    const heading = msg.role === 'assistant' ? conversation.agentName : msg.role
+    const parts = [`## ${heading.charAt(0).toUpperCase()}${heading.slice(1)} — ${msg.timestamp}`]
+
+    if (msg.thinkingContent.length > 0) {
+      parts.push(
+        ['<details>', '<summary>Thinking</summary>', '', ...msg.thinkingContent.map((section) => `> ${section.replace(/\n/g, '\n> ')}`), '', '</details>'].join('\n')
+      )
+    }
+
+    if (msg.responseContent) {
+      parts.push(msg.responseContent)
+    }
+
+    msg.toolCalls.forEach((toolCall) => parts.push(formatToolCallMarkdown(toolCall)))
+
+    const usage = msg.metadata?.usage
+    if (msg.metadata?.model || usage) {
+      const details = [
+        msg.metadata?.model && `model ${msg.metadata.model}`,
+        usage && `${usage.inputTokens} input / ${usage.outputTokens} output tokens`,
+      ].filter(Boolean)
+      parts.push(`_${details.join(', ')}_`)
+    }
+
+    sections.push(parts.join('\n\n'))
+  })
+
+  return `${sections.join('\n\n')}\n`
+}
+
+/**
+ * File name for a conversation export, e.g. "my-agent-conversation-ck123.md"
+ */
+export function getConversationExportFilename(
+  conversation: Pick<ExportableConversation, 'id' | 'agentName'>,
+  format: ConversationExportFormat
+): string {
+  return `${conversation.agentName}-conversation-${conversation.id}.${format === 'markdown' ? 'md' : 'json'}`
+}
@@ -0,0 +1,60 @@
+// Helpers for full-text search over console conversation messages
+
+// Characters of context kept on each side of a match
+const SNIPPET_CONTEXT_LENGTH = 80
+
+export const MESSAGE_SEARCH_ROLES = ['user', 'assistant', 'system'] as const
+
+export interface ConversationSearchResult {
+  messageId: string
+  conversationId: string
+  conversationTitle: string | null
+  agentName: string
+  clusterName: string
+  role: string
+  snippet: string
+  timestamp: string
+}
+
+/**
+ * Cut a single-line snippet around the first case-insensitive match of the query
+ * @returns The snippet, with ellipses where content was trimmed
+ */
+export function buildSearchSnippet(content: string, query: string, contextLength = SNIPPET_CONTEXT_LENGTH): string {
+  const text = content.replace(/\s+/g, ' ').trim()
+  const matchIndex = text.toLowerCase().indexOf(query.trim().toLowerCase())
+
+  if (matchIndex === -1) {
+    return text.length > contextLength * 2
+      ? `${text.slice(0, contextLength * 2).trimEnd()}…`
+      : text
+  }
+
+  const start = Math.max(0, matchIndex - contextLength)
+  const end = Math.min(text.length, matchIndex + query.trim().length + contextLength)
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`
+}
+
+/**
+ * Split a snippet into plain and matching parts for highlighting
+ */
+export function splitSearchMatches(text: string, query: string): Array<{ text: string; match: boolean }> {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return [{ text, match: false }]
+
+  const parts: Array<{ text: string; match: boolean }> = []
+  const haystack = text.toLowerCase()
+  let cursor = 0
+  let index = haystack.indexOf(needle)
+
+  while (index !== -1) {
+    if (index > cursor) parts.push({ text: text.slice(cursor, index), match: false })
+    parts.push({ text: text.slice(index, index + needle.length), match: true })
+    cursor = index + needle.length
+    index = haystack.indexOf(needle, cursor)
+  }
+
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), match: false })
+  return parts
+}
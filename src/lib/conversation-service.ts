@@ -0,0 +1,204 @@
+import crypto from 'crypto'
+import { db } from './db'
+import { ChatMessageMetadata, ChatToolCall, ToolCallApprovalInfo } from '@/types/chat'
+import { toCompletionToolMessages } from './tool-calls'
+
+// Longest title derived from a conversation's first message
+const MAX_GENERATED_TITLE_LENGTH = 60
+
+export interface ConversationHistoryMessage {
+  role: string
+  content: string
+  tool_calls?: unknown[]
+  tool_call_id?: string
+}
+
+// Roles that can open conversations created before ownership was tracked
+const UNOWNED_CONVERSATION_ROLES = ['owner', 'admin']
+
+/**
+ * Whether a user can open and change a conversation: its creator can, and
+ * conversations created before ownership was tracked are left to admins
+ */
+export function canAccessConversation(conversation: { createdById: string | null }, userId: string, userRole: string): boolean {
+  if (conversation.createdById) {
+    return conversation.createdById === userId
+  }
+  return UNOWNED_CONVERSATION_ROLES.includes(userRole)
+}
+
+/**
+ * Prisma filter for the conversations a user can open; see `canAccessConversation`
+ */
+export function ownedConversationFilter(userId: string, userRole: string) {
+  if (!UNOWNED_CONVERSATION_ROLES.includes(userRole)) {
+    return { createdById: userId }
+  }
+  return {
+    OR: [{ createdById: userId }, { createdById: null }],
+  }
+}
+
+/**
+ * Find a conversation by ID, scoped to an organization and its owner
+ * @returns The conversation, or null if the user can't access it
+ */
+export async function getUserConversation(conversationId: string, organizationId: string, userId: string, userRole: string) {
+  return db.conversation.findFirst({
+    where: {
+      id: conversationId,
+      organizationId,
+      ...ownedConversationFilter(userId, userRole),
+    },
+  })
+}
+
+/**
+ * Generate an unguessable, URL-safe token for a conversation's share link
+ */
+export function generateShareToken(): string {
+  return crypto.randomBytes(24).toString('base64url')
+}
+
+/**
+ * Load the stored messages of a conversation in the shape expected by
+ * chat-completions endpoints, oldest first. Assistant tool calls are expanded
+ * into `tool_calls` plus `tool` messages carrying results or approval decisions.
+ */
+export async function getConversationHistory(conversationId: string): Promise<ConversationHistoryMessage[]> {
+  const messages: Array<{ role: string; content: string; toolCalls: ChatToolCall[] | null }> =
+    await db.conversationMessage.findMany({
+      where: { conversationId },
+      orderBy: { timestamp: 'asc' },
+      select: { role: true, content: true, toolCalls: true },
+    })
+
+  return messages
+    .filter(msg => msg.role !== 'system')
+    .flatMap((msg): ConversationHistoryMessage[] =>
+      msg.role === 'assistant' && msg.toolCalls?.length
+        ? toCompletionToolMessages(msg.content, msg.toolCalls)
+        : [{ role: msg.role, content: msg.content }]
+    )
+}
+
+/**
+ * Find the stored assistant message that requested a tool call
+ * @returns The message and the tool call, or null if no message in the conversation has it
+ */
+export async function findConversationToolCall(conversationId: string, toolCallId: string) {
+  const messages: Array<{ id: string; toolCalls: ChatToolCall[] | null }> =
+    await db.conversationMessage.findMany({
+      where: { conversationId, role: 'assistant' },
+      select: { id: true, toolCalls: true },
+    })
+
+  for (const message of messages) {
+    const toolCall = message.toolCalls?.find(call => call.id === toolCallId)
+    if (toolCall) {
+      return { messageId: message.id, toolCalls: message.toolCalls!, toolCall }
+    }
+  }
+  return null
+}
+
+/**
+ * Record an approval decision on a pending tool call: updates the call stored on
+ * its message and writes a ToolCallApproval audit record in one transaction.
+ * The message is only updated if its tool calls are still as they were read,
+ * so of two concurrent decisions only the first is recorded.
+ * @returns The decided call, or null if the message changed since it was read
+ */
+export async function recordToolCallDecision(params: {
+  organizationId: string
+  conversationId: string
+  messageId: string
+  toolCalls: ChatToolCall[]
+  toolCall: ChatToolCall
+  approval: ToolCallApprovalInfo
+}): Promise<ChatToolCall | null> {
+  const { organizationId, conversationId, messageId, toolCalls, toolCall, approval } = params
+  const decidedCall: ChatToolCall = { ...toolCall, status: approval.decision, approval }
+
+  return db.$transaction(async (tx: typeof db) => {
+    const { count } = await tx.conversationMessage.updateMany({
+      where: { id: messageId, toolCalls: { equals: toolCalls } },
+      data: {
+        toolCalls: toolCalls.map(call => (call.id === toolCall.id ? decidedCall : call)),
+      },
+    })
+    if (count === 0) {
+      return null
+    }
+
+    await tx.toolCallApproval.create({
+      data: {
+        organizationId,
+        conversationId,
+        messageId,
+        toolCallId: toolCall.id,
+        toolName: toolCall.name,
+        arguments: toolCall.arguments,
+        decision: approval.decision,
+        reason: approval.reason,
+        userId: approval.decidedBy.id,
+        userEmail: approval.decidedBy.email,
+      },
+    })
+
+    return decidedCall
+  })
+}
+
+/**
+ * Append a message to a conversation and bump its updatedAt timestamp.
+ * The first user message also becomes the title of an untitled conversation.
+ */
+export async function appendConversationMessage(
+  conversationId: string,
+  message: {
+    role: string
+    content: string
+    metadata?: ChatMessageMetadata
+    toolCalls?: ChatToolCall[]
+  }
+) {
+  const conversation = await db.conversation.findUnique({
+    where: { id: conversationId },
+    select: { title: true },
+  })
+
+  const [created] = await db.$transaction([
+    db.conversationMessage.create({
+      data: {
+        conversationId,
+        role: message.role,
+        content: message.content,
+        toolCalls: message.toolCalls?.length ? message.toolCalls : null,
+        metadata: message.metadata ? { ...message.metadata } : null,
+      },
+    }),
+    db.conversation.update({
+      where: { id: conversationId },
+      data: {
+        updatedAt: new Date(),
+        ...(!conversation?.title && message.role === 'user' && {
+          title: generateConversationTitle(message.content),
+        }),
+      },
+    }),
+  ])
+
+  return created
+}
+
+/**
+ * Derive a short conversation title from the first user message
+ */
+export function generateConversationTitle(content: string): string {
+  const singleLine = content.replace(/\s+/g, ' ').trim()
+  if (singleLine.length <= MAX_GENERATED_TITLE_LENGTH) {
+    return singleLine
+  }
+  return `${singleLine.slice(0, MAX_GENERATED_TITLE_LENGTH - 1).trimEnd()}…`
+}
@@ -0,0 +1,44 @@
+// Read-only share links for console conversations
+
+// Expiry choices offered when publishing a link, in days (null = never expires)
+export const SHARE_EXPIRY_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: 'Never', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+]
+
+export interface ConversationShareState {
+  shareToken: string | null
+  sharedAt: Date | null
+  shareExpiresAt: Date | null
+}
+
+/**
+ * Compute when a share link expires
+ * @returns The expiry date, or null for links that never expire
+ */
+export function getShareExpiry(days: number | null | undefined, now = new Date()): Date | null {
+  if (!days) return null
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Whether a conversation currently has a usable share link
+ */
+export function isShareActive(share: ConversationShareState, now = new Date()): boolean {
+  if (!share.shareToken) return false
+  return !share.shareExpiresAt || share.shareExpiresAt > now
+}
+
+/**
+ * Serialize a conversation's share state for API responses
+ */
+export function serializeShareState(share: ConversationShareState) {
+  return {
+    isShared: isShareActive(share),
+    shareToken: share.shareToken,
+    sharedAt: share.sharedAt?.toISOString() ?? null,
+    expiresAt: share.shareExpiresAt?.toISOString() ?? null,
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Cost Export
+ *
+ * Per-execution cost records for chargeback, written as CSV or JSON Lines,
+ * and the periods covered by scheduled cost reports.
+ */
+
+import type { ExecutionModelUsage } from './telemetry-repository'
+import { calculateTokenCost, getPricingAt, type ModelPriceHistory } from './model-pricing'
+import { UNASSIGNED_CLUSTER } from './organization-cost'
+import { getBudgetPeriodRange } from './spend-budgets'
+
+export const COST_EXPORT_FORMATS = ['csv', 'jsonl'] as const
+export const COST_REPORT_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const
+
+// Completed periods a schedule catches up on at once, after going unchecked
+export const MAX_CATCH_UP_PERIODS = 12
+
+export type CostExportFormat = typeof COST_EXPORT_FORMATS[number]
+export type CostReportFrequency = typeof COST_REPORT_FREQUENCIES[number]
+
+/**
+ * Tokens one execution sent to one model within one task, and what they cost
+ */
+export interface CostExportRecord {
+  timestamp: string
+  organization: string
+  cluster: string
+  agent: string
+  // Empty for usage outside a task
+  task: string
+  executionId: string
+  model: string
+  inputTokens: number
+  outputTokens: number
+  // Null when the model had no price, or no exchange rate, at the time
+  cost: number | null
+  currency: string
+}
+
+export interface CostExportOptions {
+  // Organization slug
+  organization: string
+  // Cluster of each agent, by agent name
+  agentClusters: Record<string, string>
+  // Already converted into the reporting currency
+  pricing: ModelPriceHistory
+  currency: string
+}
+
+export interface CostReportSummary {
+  id: string
+  // Null for reports generated on request
+  scheduleId: string | null
+  format: CostExportFormat
+  periodStart: string
+  periodEnd: string
+  currency: string
+  recordCount: number
+  createdAt: string
+  createdBy: string | null
+}
+
+export interface CostReportScheduleSummary {
+  id: string
+  frequency: CostReportFrequency
+  format: CostExportFormat
+  // End of the latest period reported on
+  lastPeriodEnd: string | null
+  createdAt: string
+}
+
+const CSV_COLUMNS: Array<keyof CostExportRecord> = [
+  'timestamp',
+  'organization',
+  'cluster',
+  'agent',
+  'task',
+  'executionId',
+  'model',
+  'inputTokens',
+  'outputTokens',
+  'cost',
+  'currency',
+]
+
+/**
+ * Price each execution's token usage at the rate in effect when it ran
+ */
+export function buildCostExportRecords(usage: ExecutionModelUsage[], options: CostExportOptions): CostExportRecord[] {
+  return usage.map((row) => {
+    const pricing = getPricingAt(options.pricing, row.modelName, row.timestamp)
+    return {
+      timestamp: row.timestamp.toISOString(),
+      organization: options.organization,
+      cluster: options.agentClusters[row.agentName] || UNASSIGNED_CLUSTER,
+      agent: row.agentName,
+      task: row.taskName,
+      executionId: `exec_${row.traceId}`,
+      model: row.modelName,
+      inputTokens: row.inputTokens,
+      outputTokens: row.outputTokens,
+      // Rounded to drop floating point noise from summing per-token prices
+      cost: pricing ? Math.round(calculateTokenCost(pricing, row.inputTokens, row.outputTokens) * 1e8) / 1e8 : null,
+      currency: options.currency,
+    }
+  })
+}
+
+function csvField(value: string | number | null): string {
+  if (value === null) {
+    return ''
+  }
+  if (typeof value === 'number') {
+    return String(value)
+  }
+  // Keep spreadsheets from evaluating names that look like formulas
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Write cost records as CSV with a header row, or as one JSON object per line
+ */
+export function formatCostExport(records: CostExportRecord[], format: CostExportFormat): string {
+  if (format === 'jsonl') {
+    return records.map(record => `${JSON.stringify(record)}\n`).join('')
+  }
+
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...records.map(record => CSV_COLUMNS.map(column => csvField(record[column])).join(',')),
+  ]
+  return `${lines.join('\r\n')}\r\n`
+}
+
+export function getCostExportContentType(format: CostExportFormat): string {
+  return format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson'
+}
+
+/**
+ * File name for a cost export, e.g. "acme-cost-2026-01-01-to-2026-01-31.csv"
+ */
+export function getCostExportFilename(organization: string, from: Date, to: Date, format: CostExportFormat): string {
+  const day = (date: Date) => date.toISOString().slice(0, 10)
+  return `${organization}-cost-${day(from)}-to-${day(to)}.${format}`
+}
+
+/**
+ * The report period containing `now`: days, Monday-based weeks and calendar
+ * months, all in UTC
+ */
+export function getReportPeriodRange(frequency: CostReportFrequency, now = new Date()): { start: Date; end: Date } {
+  if (frequency === 'daily') {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) }
+  }
+  return getBudgetPeriodRange(frequency, now)
+}
+
+/**
+ * Completed periods a schedule hasn't reported on yet, oldest first. A new
+ * schedule starts with the latest completed period.
+ */
+export function getDueReportPeriods(
+  frequency: CostReportFrequency,
+  lastPeriodEnd: Date | null,
+  now = new Date()
+): Array<{ start: Date; end: Date }> {
+  const periods: Array<{ start: Date; end: Date }> = []
+  let period = getReportPeriodRange(frequency, new Date(getReportPeriodRange(frequency, now).start.getTime() - 1))
+
+  while (periods.length < MAX_CATCH_UP_PERIODS && (!lastPeriodEnd || period.end > lastPeriodEnd)) {
+    periods.unshift(period)
+    if (!lastPeriodEnd) {
+      break
+    }
+    period = getReportPeriodRange(frequency, new Date(period.start.getTime() - 1))
+  }
+
+  return periods
+}
@@ -0,0 +1,255 @@
+/**
+ * Cost Report Service
+ *
+ * Stores per-execution cost exports in the database for later download, and
+ * generates scheduled reports for every period that completed since their
+ * schedule last ran. The server runs the schedules on an interval from
+ * instrumentation; a period counts as reported only once its report is
+ * stored, so a failed period is retried on the next run.
+ */
+
+import { db } from './db'
+import { getCostReportIntervalMinutes, hasDatabaseUrl } from './env'
+import { getOrganizationCostRecords } from './organization-cost-service'
+import {
+  formatCostExport,
+  getDueReportPeriods,
+  type CostExportFormat,
+  type CostReportFrequency,
+  type CostReportScheduleSummary,
+  type CostReportSummary,
+} from './cost-export'
+
+type ReportOrganization = { id: string; namespace: string; slug: string }
+
+let scheduleTimer: ReturnType<typeof setInterval> | null = null
+let generating = false
+
+/**
+ * A schedule as stored in Prisma
+ */
+interface CostReportScheduleRecord {
+  id: string
+  frequency: string
+  format: string
+  lastPeriodEnd: Date | null
+  createdAt: Date
+}
+
+/**
+ * A report as stored in Prisma, without its content
+ */
+interface CostReportRecord {
+  id: string
+  scheduleId: string | null
+  format: string
+  periodStart: Date
+  periodEnd: Date
+  currency: string
+  recordCount: number
+  createdAt: Date
+  createdBy: { name: string | null; email: string } | null
+}
+
+// Everything but the content, which is only loaded for download
+const reportSummarySelect = {
+  id: true,
+  scheduleId: true,
+  format: true,
+  periodStart: true,
+  periodEnd: true,
+  currency: true,
+  recordCount: true,
+  createdAt: true,
+  createdBy: { select: { name: true, email: true } },
+}
+
+function toReportSummary(report: CostReportRecord): CostReportSummary {
+  return {
+    id: report.id,
+    scheduleId: report.scheduleId,
+    format: report.format as CostExportFormat,
+    periodStart: report.periodStart.toISOString(),
+    periodEnd: report.periodEnd.toISOString(),
+    currency: report.currency,
+    recordCount: report.recordCount,
+    createdAt: report.createdAt.toISOString(),
+    createdBy: report.createdBy ? report.createdBy.name || report.createdBy.email : null,
+  }
+}
+
+function toScheduleSummary(schedule: CostReportScheduleRecord): CostReportScheduleSummary {
+  return {
+    id: schedule.id,
+    frequency: schedule.frequency as CostReportFrequency,
+    format: schedule.format as CostExportFormat,
+    lastPeriodEnd: schedule.lastPeriodEnd?.toISOString() ?? null,
+    createdAt: schedule.createdAt.toISOString(),
+  }
+}
+
+// A report's stored fields, exporting the organization's cost records for the range
+async function buildCostReport(
+  organization: ReportOrganization,
+  { from, to, format, scheduleId, userId }: {
+    from: Date
+    to: Date
+    format: CostExportFormat
+    scheduleId: string | null
+    userId: string | null
+  }
+) {
+  const { records, currency } = await getOrganizationCostRecords(organization, { from, to })
+
+  return {
+    organizationId: organization.id,
+    scheduleId,
+    format,
+    periodStart: from,
+    periodEnd: to,
+    currency,
+    recordCount: records.length,
+    content: formatCostExport(records, format),
+    createdById: userId,
+  }
+}
+
+/**
+ * Export the organization's cost records for a time range and store them
+ */
+export async function createCostReport(
+  organization: ReportOrganization,
+  { from, to, format, userId = null }: {
+    from: Date
+    to: Date
+    format: CostExportFormat
+    userId?: string | null
+  }
+): Promise<CostReportSummary> {
+  const report: CostReportRecord = await db.costReport.create({
+    data: await buildCostReport(organization, { from, to, format, scheduleId: null, userId }),
+    select: reportSummarySelect,
+  })
+  return toReportSummary(report)
+}
+
+/**
+ * Generate a schedule's reports for its completed periods, oldest first. Each
+ * period's report is stored together with advancing the schedule past it, so
+ * a period that fails stops the run and is retried next time.
+ * @returns The number of reports generated
+ */
+export async function runCostReportSchedule(
+  organization: ReportOrganization,
+  schedule: CostReportScheduleRecord,
+  now = new Date()
+): Promise<number> {
+  const periods = getDueReportPeriods(schedule.frequency as CostReportFrequency, schedule.lastPeriodEnd, now)
+
+  let lastPeriodEnd = schedule.lastPeriodEnd
+  let generated = 0
+  for (const period of periods) {
+    const data = await buildCostReport(organization, {
+      from: period.start,
+      // Usage ranges include their end, which is the next period's start
+      to: new Date(period.end.getTime() - 1),
+      format: schedule.format as CostExportFormat,
+      scheduleId: schedule.id,
+      userId: null,
+    })
+
+    const stored = await db.$transaction(async (tx: typeof db) => {
+      // Only if no concurrent run has reported on the period already
+      const claimed = await tx.costReportSchedule.updateMany({
+        where: { id: schedule.id, lastPeriodEnd },
+        data: { lastPeriodEnd: period.end },
+      })
+      if (claimed.count === 0) {
+        return false
+      }
+
+      await tx.costReport.create({ data })
+      return true
+    })
+    if (!stored) {
+      break
+    }
+
+    lastPeriodEnd = period.end
+    generated++
+  }
+  return generated
+}
+
+/**
+ * Generate the due reports of every organization's schedules
+ * @returns The number of reports generated
+ */
+export async function generateScheduledCostReports(now = new Date()): Promise<number> {
+  const schedules: Array<CostReportScheduleRecord & { organization: ReportOrganization }> = await db.costReportSchedule.findMany({
+    include: { organization: { select: { id: true, namespace: true, slug: true } } },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  let generated = 0
+  for (const { organization, ...schedule } of schedules) {
+    try {
+      generated += await runCostReportSchedule(organization, schedule, now)
+    } catch (error) {
+      console.error(`Failed to generate scheduled cost reports for schedule ${schedule.id}:`, error)
+    }
+  }
+  return generated
+}
+
+/**
+ * Start generating scheduled reports on the configured interval, once per process
+ */
+export function startCostReportSchedules(): void {
+  const intervalMinutes = getCostReportIntervalMinutes()
+  if (scheduleTimer || !hasDatabaseUrl || !(intervalMinutes > 0)) {
+    return
+  }
+
+  const tick = async () => {
+    // A slow run isn't overlapped by the next one
+    if (generating) {
+      return
+    }
+
+    generating = true
+    try {
+      await generateScheduledCostReports()
+    } catch (error) {
+      console.error('Failed to generate scheduled cost reports:', error)
+    } finally {
+      generating = false
+    }
+  }
+
+  scheduleTimer = setInterval(tick, intervalMinutes * 60 * 1000)
+  // Don't keep the process alive just for scheduled reports
+  scheduleTimer.unref?.()
+  void tick()
+}
+
+/**
+ * The organization's stored reports, newest first, and its schedules
+ */
+export async function listCostReports(
+  organization: ReportOrganization
+): Promise<{ reports: CostReportSummary[]; schedules: CostReportScheduleSummary[] }> {
+  const [schedules, reports]: [CostReportScheduleRecord[], CostReportRecord[]] = await Promise.all([
+    db.costReportSchedule.findMany({
+      where: { organizationId: organization.id },
+      orderBy: { createdAt: 'asc' },
+    }),
+    db.costReport.findMany({
+      where: { organizationId: organization.id },
+      orderBy: { createdAt: 'desc' },
+      select: reportSummarySelect,
+    }),
+  ])
+
+  return { reports: reports.map(toReportSummary), schedules: schedules.map(toScheduleSummary) }
+}
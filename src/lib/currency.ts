@@ -106,4 +106,52 @@ export function formatCurrencyLocalized(
   const fallbackCurrency = currency || LOCALE_CURRENCY_MAP[locale] || 'USD'
   
   return formatCurrencyAutoPrecision(amount, fallbackCurrency, locale)
-}
\ No newline at end of file
+}
+
+/**
+ * Currencies offered when pricing models and choosing a reporting currency
+ */
+export const SUPPORTED_CURRENCIES = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'JPY', name: 'Japanese Yen' },
+  { code: 'CAD', name: 'Canadian Dollar' },
+  { code: 'AUD', name: 'Australian Dollar' },
+]
+
+export interface ExchangeRate {
+  fromCurrency: string
+  toCurrency: string
+  // 1 fromCurrency = rate toCurrency
+  rate: number
+}
+
+// An organization's reporting currency and the exchange rates into it
+export interface CurrencySettings {
+  reportingCurrency: string
+  rates: Array<ExchangeRate & { id: string; updatedAt: string }>
+}
+
+/**
+ * Find the rate for converting between two currencies
+ * Uses the inverse of the opposite rate when only that one is listed,
+ * and returns null when neither is
+ */
+export function getExchangeRate(from: string, to: string, rates: ExchangeRate[]): number | null {
+  if (from === to) return 1
+
+  const direct = rates.find(rate => rate.fromCurrency === from && rate.toCurrency === to)
+  if (direct) return direct.rate
+
+  const inverse = rates.find(rate => rate.fromCurrency === to && rate.toCurrency === from)
+  return inverse && inverse.rate > 0 ? 1 / inverse.rate : null
+}
+
+/**
+ * Convert an amount between currencies, or null when there is no rate
+ */
+export function convertCurrency(amount: number, from: string, to: string, rates: ExchangeRate[]): number | null {
+  const rate = getExchangeRate(from, to, rates)
+  return rate === null ? null : amount * rate
+}
@@ -27,6 +27,24 @@ const envSchema = z.object({
   
   // Organization namespace prefix
   LANGOP_ORGANIZATION_NAMESPACE_PREFIX: z.string().optional(),
+
+  // Comma-separated emails of platform admins, who review plan and quota requests
+  LANGOP_PLATFORM_ADMIN_EMAILS: z.string().optional(),
+
+  // Minutes between quota usage snapshots; 0 disables them
+  LANGOP_QUOTA_SNAPSHOT_INTERVAL_MINUTES: z.string().regex(/^\d+$/).optional(),
+
+  // Minutes between captures of pod output into the log archive; 0 disables it
+  LANGOP_LOG_ARCHIVE_INTERVAL_MINUTES: z.string().regex(/^\d+$/).optional(),
+
+  // Days archived log lines are kept
+  LANGOP_LOG_ARCHIVE_RETENTION_DAYS: z.string().regex(/^\d+$/).optional(),
+
+  // Minutes between spend budget checks, which raise alerts and pause agents; 0 disables them
+  LANGOP_BUDGET_CHECK_INTERVAL_MINUTES: z.string().regex(/^\d+$/).optional(),
+
+  // Minutes between runs of the scheduled cost reports; 0 disables them
+  LANGOP_COST_REPORT_INTERVAL_MINUTES: z.string().regex(/^\d+$/).optional(),
 })
 
 // Validate environment variables
@@ -57,4 +75,31 @@ export const isSignupsDisabled = env.LANGOP_SIGNUPS_DISABLED === 'true'
 export const getOrganizationNamespacePrefix = () => 
   env.LANGOP_ORGANIZATION_NAMESPACE_PREFIX || 'language-operator-'
 
+// Get platform admin emails, lowercased
+export const getPlatformAdminEmails = () =>
+  (env.LANGOP_PLATFORM_ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean)
+
+// Get minutes between quota usage snapshots (defaults to hourly)
+export const getQuotaSnapshotIntervalMinutes = () =>
+  env.LANGOP_QUOTA_SNAPSHOT_INTERVAL_MINUTES ? parseInt(env.LANGOP_QUOTA_SNAPSHOT_INTERVAL_MINUTES, 10) : 60
+
+// Get minutes between log archive captures (defaults to every minute)
+export const getLogArchiveIntervalMinutes = () =>
+  env.LANGOP_LOG_ARCHIVE_INTERVAL_MINUTES ? parseInt(env.LANGOP_LOG_ARCHIVE_INTERVAL_MINUTES, 10) : 1
+
+// Get days archived log lines are kept (defaults to 30)
+export const getLogArchiveRetentionDays = () =>
+  env.LANGOP_LOG_ARCHIVE_RETENTION_DAYS ? parseInt(env.LANGOP_LOG_ARCHIVE_RETENTION_DAYS, 10) : 30
+
+// Get minutes between spend budget checks (defaults to every 15 minutes)
+export const getBudgetCheckIntervalMinutes = () =>
+  env.LANGOP_BUDGET_CHECK_INTERVAL_MINUTES ? parseInt(env.LANGOP_BUDGET_CHECK_INTERVAL_MINUTES, 10) : 15
+
+// Get minutes between scheduled cost report runs (defaults to hourly)
+export const getCostReportIntervalMinutes = () =>
+  env.LANGOP_COST_REPORT_INTERVAL_MINUTES ? parseInt(env.LANGOP_COST_REPORT_INTERVAL_MINUTES, 10) : 60
+
 export default env
\ No newline at end of file
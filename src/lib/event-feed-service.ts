@@ -0,0 +1,231 @@
+/**
+ * Event Feed Service
+ *
+ * Lists Kubernetes events for an organization. Events are only read from the
+ * organization's namespace or the namespaces of clusters it owns; a request
+ * naming any other namespace is refused rather than served with the
+ * dashboard's own credentials.
+ */
+
+import { z } from 'zod'
+import { k8sClient } from './k8s-client'
+import { validateClusterExists } from './cluster-validation'
+import { ValidationError, createPermissionDeniedError } from './api-error-handler'
+import { kubernetesNameValidation } from './validation'
+import { getEventTime, groupEvents, isOperatorEvent, mapResourceTypeToK8sKind, toK8sEvent } from './event-feed'
+import type { EventFeedEntry, K8sEvent } from '@/types/events'
+
+// Events read from Kubernetes per page. Kubernetes lists events in no
+// particular order, so every page is read before sorting; events expire after
+// about an hour, which keeps that to a namespace's recent history.
+const EVENT_PAGE_SIZE = 500
+
+// Both go into a field selector, so they must be plain names that can't add terms to it
+const eventResourceFilterSchema = z.object({
+  resourceType: kubernetesNameValidation.optional(),
+  resourceName: kubernetesNameValidation.optional(),
+})
+
+const eventFeedParamsSchema = eventResourceFilterSchema.extend({
+  namespace: z.string().min(1).optional(),
+  clusterName: z.string().min(1).optional(),
+  warningsOnly: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+  group: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+})
+
+export type EventFeedParams = z.infer<typeof eventFeedParamsSchema>
+
+export interface EventScope {
+  namespace?: string | null
+  clusterName?: string | null
+}
+
+export interface EventFeedPage {
+  entries: EventFeedEntry[]
+  // Entries across all pages
+  total: number
+  namespace: string
+}
+
+/**
+ * Parse the resource type and name events are filtered by
+ * @throws {ValidationError} If either isn't a Kubernetes name
+ */
+export function parseEventResourceFilter(searchParams: URLSearchParams): z.infer<typeof eventResourceFilterSchema> {
+  const result = eventResourceFilterSchema.safeParse({
+    resourceType: searchParams.get('resourceType') ?? undefined,
+    resourceName: searchParams.get('resourceName') ?? undefined,
+  })
+  if (!result.success) {
+    throw new ValidationError('Invalid event parameters', result.error)
+  }
+  return result.data
+}
+
+/**
+ * Parse the event feed's query string
+ * @throws {ValidationError} If a parameter is invalid
+ */
+export function parseEventFeedParams(searchParams: URLSearchParams): EventFeedParams {
+  const result = eventFeedParamsSchema.safeParse({
+    namespace: searchParams.get('namespace') ?? undefined,
+    clusterName: searchParams.get('clusterName') ?? undefined,
+    resourceType: searchParams.get('resourceType') ?? undefined,
+    resourceName: searchParams.get('resourceName') ?? undefined,
+    warningsOnly: searchParams.get('warningsOnly') ?? undefined,
+    group: searchParams.get('group') ?? undefined,
+    page: searchParams.get('page') ?? undefined,
+    limit: searchParams.get('limit') ?? undefined,
+  })
+  if (!result.success) {
+    throw new ValidationError('Invalid event feed parameters', result.error)
+  }
+  return result.data
+}
+
+/**
+ * The namespaces an organization may read events from: its own, and those of
+ * the clusters in it
+ */
+export async function getOrganizationNamespaces(organization: { namespace: string }): Promise<string[]> {
+  const namespaces = new Set([organization.namespace])
+  try {
+    const response = await k8sClient.listLanguageClusters(organization.namespace)
+    for (const cluster of response?.items || []) {
+      if (cluster.metadata?.namespace) {
+        namespaces.add(cluster.metadata.namespace)
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to list clusters in namespace ${organization.namespace}:`, error)
+  }
+  return Array.from(namespaces)
+}
+
+/**
+ * The namespace to read events from: a cluster's, the requested one if the
+ * organization owns it, or else the organization's own
+ * @throws If the cluster doesn't exist or the namespace isn't the organization's
+ */
+export async function resolveEventNamespace(
+  organization: { namespace: string },
+  scope: EventScope,
+  userRole?: string
+): Promise<string> {
+  let namespace = scope.namespace || null
+
+  if (scope.clusterName) {
+    const { cluster } = await validateClusterExists(organization.namespace, scope.clusterName)
+    const clusterNamespace = cluster?.metadata?.namespace || organization.namespace
+    if (namespace && namespace !== clusterNamespace) {
+      throw createPermissionDeniedError('view events in', `namespace '${namespace}'`, userRole)
+    }
+    namespace = clusterNamespace
+  }
+
+  if (!namespace) {
+    return organization.namespace
+  }
+
+  const allowed = await getOrganizationNamespaces(organization)
+  if (!allowed.includes(namespace)) {
+    throw createPermissionDeniedError('view events in', `namespace '${namespace}'`, userRole)
+  }
+  return namespace
+}
+
+/**
+ * Names of the cluster and the resources that reference it. Events of core
+ * objects such as pods can't be attributed this way and are kept.
+ */
+export async function getClusterResourceNames(namespace: string, clusterName: string): Promise<Set<string>> {
+  const names = new Set<string>([clusterName])
+
+  const responses = await Promise.all([
+    k8sClient.listLanguageAgents(namespace).catch(() => ({ items: [] })),
+    k8sClient.listLanguageModels(namespace).catch(() => ({ items: [] })),
+    k8sClient.listLanguageTools(namespace).catch(() => ({ items: [] })),
+    k8sClient.listLanguagePersonas(namespace).catch(() => ({ items: [] })),
+  ])
+  for (const response of responses) {
+    for (const resource of response?.items || []) {
+      if (resource.spec?.clusterRef === clusterName && resource.metadata?.name) {
+        names.add(resource.metadata.name)
+      }
+    }
+  }
+
+  return names
+}
+
+/**
+ * Every event in a namespace, following the continue token across pages
+ */
+async function listAllEvents(namespace: string, fieldSelector?: string) {
+  const events = []
+  let continueToken: string | undefined
+  do {
+    const response = await k8sClient.listEvents(namespace, {
+      limit: EVENT_PAGE_SIZE,
+      fieldSelector,
+      continueToken,
+    })
+    events.push(...(response?.items || []))
+    continueToken = response?.metadata?._continue || undefined
+  } while (continueToken)
+  return events
+}
+
+/**
+ * Events of the operator's resources in a namespace, newest first
+ */
+export async function listOperatorEvents(
+  namespace: string,
+  options: { clusterName?: string | null; resourceType?: string | null; resourceName?: string | null }
+): Promise<K8sEvent[]> {
+  const fieldSelectors: string[] = []
+  if (options.resourceType) {
+    fieldSelectors.push(`involvedObject.kind=${mapResourceTypeToK8sKind(options.resourceType)}`)
+    if (options.resourceName) {
+      fieldSelectors.push(`involvedObject.name=${options.resourceName}`)
+    }
+  }
+
+  // Events don't inherit labels from the objects they're about, so they can't be label-selected
+  let events = (await listAllEvents(namespace, fieldSelectors.join(',') || undefined))
+    .filter(isOperatorEvent)
+    .sort((a, b) => getEventTime(b).getTime() - getEventTime(a).getTime())
+
+  if (options.clusterName) {
+    const names = await getClusterResourceNames(namespace, options.clusterName)
+    events = events.filter(event =>
+      event.involvedObject.apiVersion !== 'langop.io/v1alpha1' || names.has(event.involvedObject.name || '')
+    )
+  }
+
+  return events.map(event => toK8sEvent(event, namespace))
+}
+
+/**
+ * A page of the organization's event feed
+ */
+export async function getEventFeed(
+  organization: { namespace: string },
+  params: EventFeedParams,
+  userRole?: string
+): Promise<EventFeedPage> {
+  const namespace = await resolveEventNamespace(organization, params, userRole)
+  const events = await listOperatorEvents(namespace, params)
+
+  const matching = params.warningsOnly ? events.filter(event => event.eventType === 'Warning') : events
+  const entries = params.group ? groupEvents(matching) : matching.map(event => ({ ...event, groupSize: 1 }))
+
+  const start = (params.page - 1) * params.limit
+  return {
+    entries: entries.slice(start, start + params.limit),
+    total: entries.length,
+    namespace,
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Event Feed
+ *
+ * Turns Kubernetes events about the organization's resources into feed
+ * entries: which events belong in the feed, how they read, and grouping of
+ * events repeated with the same reason on the same object.
+ */
+
+import type { CoreV1Event } from '@kubernetes/client-node'
+import type { EventFeedEntry, K8sEvent } from '@/types/events'
+
+// Core kinds the operator creates for its resources
+const CORE_RESOURCE_KINDS = ['Pod', 'Service', 'Deployment', 'ReplicaSet', 'Job', 'CronJob']
+
+const RESOURCE_KINDS: Record<string, string> = {
+  agent: 'LanguageAgent',
+  model: 'LanguageModel',
+  tool: 'LanguageTool',
+  persona: 'LanguagePersona',
+  cluster: 'LanguageCluster',
+  pod: 'Pod',
+  service: 'Service',
+  deployment: 'Deployment',
+}
+
+const KIND_RESOURCE_TYPES: Record<string, string> = {
+  LanguageAgent: 'agent',
+  LanguageModel: 'model',
+  LanguageTool: 'tool',
+  LanguagePersona: 'persona',
+  LanguageCluster: 'cluster',
+  Pod: 'pod',
+  Service: 'service',
+  Deployment: 'deployment',
+  ReplicaSet: 'deployment',
+  Job: 'deployment',
+  CronJob: 'deployment',
+}
+
+/**
+ * The Kubernetes kind of a resource type such as `agent`
+ */
+export function mapResourceTypeToK8sKind(resourceType: string): string {
+  return RESOURCE_KINDS[resourceType.toLowerCase()] || resourceType
+}
+
+export function mapK8sKindToResourceType(kind: string): string {
+  return KIND_RESOURCE_TYPES[kind] || kind.toLowerCase()
+}
+
+/**
+ * When an event last happened
+ */
+export function getEventTime(event: CoreV1Event): Date {
+  return new Date(event.lastTimestamp || event.firstTimestamp || event.metadata.creationTimestamp || 0)
+}
+
+/**
+ * Whether an event is about a Language Operator resource, or a core resource
+ * labelled as one of the operator's
+ */
+export function isOperatorEvent(event: CoreV1Event): boolean {
+  const involvedObject = event.involvedObject
+  if (!involvedObject) {
+    return false
+  }
+
+  if (involvedObject.apiVersion === 'langop.io/v1alpha1') {
+    return true
+  }
+
+  if (involvedObject.apiVersion?.startsWith('v1') || involvedObject.apiVersion?.startsWith('apps/')) {
+    if (CORE_RESOURCE_KINDS.includes(involvedObject.kind || '')) {
+      // Not part of the typed object reference, but set on some events
+      const labels: Record<string, string> = (involvedObject as { labels?: Record<string, string> }).labels || {}
+      return !!(labels['langop.io/managed-by'] || labels['langop.io/organization-id'])
+    }
+  }
+
+  return false
+}
+
+/**
+ * A user-facing action for an event, from its reason and type
+ */
+export function getActionFromEvent(event: CoreV1Event): string {
+  const reason = event.reason?.toLowerCase() || ''
+  const type = event.type?.toLowerCase() || ''
+
+  // Map common K8s event reasons to user-friendly actions
+  if (reason.includes('created') || reason.includes('successfulcreate')) return 'created'
+  if (reason.includes('updated') || reason.includes('update')) return 'updated'
+  if (reason.includes('scaled') || reason.includes('scaling')) return 'scaled'
+  if (reason.includes('failed') || reason.includes('error') || type === 'warning') return 'failed'
+  if (reason.includes('ready') || reason.includes('reconciled')) return 'ready'
+  if (reason.includes('started')) return 'started'
+  if (reason.includes('stopped') || reason.includes('killed')) return 'stopped'
+  if (reason.includes('pulling')) return 'pulling'
+  if (reason.includes('pulled')) return 'pulled'
+
+  // Default mapping based on event type
+  if (type === 'normal') return 'normal'
+  if (type === 'warning') return 'warning'
+
+  return reason || 'updated'
+}
+
+function formatEventMessage(resourceType: string, resourceName: string, action: string, event: CoreV1Event): string {
+  const capitalizedType = resourceType.charAt(0).toUpperCase() + resourceType.slice(1)
+
+  // Short event messages say more than the generic ones below
+  if (event.message && event.message.length < 100) {
+    return event.message
+  }
+
+  switch (action) {
+    case 'created':
+      return `${capitalizedType} "${resourceName}" was created`
+    case 'updated':
+      return `${capitalizedType} "${resourceName}" was updated`
+    case 'scaled':
+      return `${capitalizedType} "${resourceName}" was scaled`
+    case 'failed':
+      return `${capitalizedType} "${resourceName}" failed`
+    case 'ready':
+      return `${capitalizedType} "${resourceName}" is ready`
+    case 'started':
+      return `${capitalizedType} "${resourceName}" started`
+    case 'stopped':
+      return `${capitalizedType} "${resourceName}" stopped`
+    case 'warning':
+      return `${capitalizedType} "${resourceName}" warning: ${event.reason}`
+    default:
+      return `${capitalizedType} "${resourceName}" ${action}`
+  }
+}
+
+/**
+ * The dashboard's form of a Kubernetes event
+ * @param namespace Namespace the event was listed in, for objects without one
+ */
+export function toK8sEvent(event: CoreV1Event, namespace: string): K8sEvent {
+  const involvedObject = event.involvedObject
+  const timestamp = getEventTime(event)
+  const resourceType = mapK8sKindToResourceType(involvedObject.kind || '')
+  const resourceName = involvedObject.name || ''
+  const action = getActionFromEvent(event)
+
+  return {
+    id: event.metadata.uid || `${event.metadata.name}-${timestamp.toISOString()}`,
+    type: resourceType as K8sEvent['type'],
+    action,
+    resourceName,
+    namespace: involvedObject.namespace || namespace,
+    message: formatEventMessage(resourceType, resourceName, action, event),
+    timestamp: timestamp.toISOString(),
+    reason: event.reason || '',
+    source: event.source?.component || 'kubernetes',
+    eventType: event.type === 'Warning' ? 'Warning' : 'Normal',
+    count: event.count || 1,
+    firstTimestamp: event.firstTimestamp ? new Date(event.firstTimestamp).toISOString() : undefined,
+    lastTimestamp: event.lastTimestamp ? new Date(event.lastTimestamp).toISOString() : undefined,
+    involvedObject: {
+      kind: involvedObject.kind || '',
+      name: resourceName,
+      namespace: involvedObject.namespace || namespace,
+      uid: involvedObject.uid,
+    },
+  }
+}
+
+/**
+ * Fold events with the same type and reason on the same object into their
+ * latest event, adding up how often they happened
+ * @param events Newest first, as the feed lists them
+ */
+export function groupEvents(events: K8sEvent[]): EventFeedEntry[] {
+  const groups = new Map<string, EventFeedEntry>()
+
+  for (const event of events) {
+    const { kind, name } = event.involvedObject
+    const key = [event.eventType, event.reason, kind, name].join('/')
+    const group = groups.get(key)
+    if (!group) {
+      groups.set(key, { ...event, groupSize: 1 })
+      continue
+    }
+
+    group.groupSize += 1
+    group.count = (group.count || 1) + (event.count || 1)
+    const firstTimestamp = event.firstTimestamp || event.timestamp
+    if (!group.firstTimestamp || firstTimestamp < group.firstTimestamp) {
+      group.firstTimestamp = firstTimestamp
+    }
+  }
+
+  return Array.from(groups.values())
+}
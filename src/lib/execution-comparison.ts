@@ -0,0 +1,185 @@
+/**
+ * Execution Comparison
+ *
+ * Summarizes two agent executions from their spans and aligns their tasks by
+ * name, so a run before an optimization can be compared with one after it.
+ */
+
+import type { TelemetrySpan } from './telemetry-repository'
+import { calculateTokenCost, getPricingAt, type ModelPriceHistory } from './model-pricing'
+
+export interface ExecutionStats {
+  durationMs: number
+  spanCount: number
+  errorCount: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+  toolCalls: number
+}
+
+export interface ExecutionSide extends ExecutionStats {
+  traceId: string
+  startTime: string
+  rootSpanName: string
+  // Agent version recorded on the spans, if any
+  agentVersion: string | null
+  models: string[]
+}
+
+export interface TaskComparison {
+  name: string
+  // Null when the task didn't run in that execution
+  base: ExecutionStats | null
+  target: ExecutionStats | null
+}
+
+export interface ToolCallComparison {
+  name: string
+  base: number
+  target: number
+}
+
+export interface ExecutionComparison {
+  base: ExecutionSide
+  target: ExecutionSide
+  tasks: TaskComparison[]
+  tools: ToolCallComparison[]
+  currency: string
+  // Models without pricing for some of their usage, whose tokens there count as zero cost
+  unpricedModels: string[]
+}
+
+export function getSpanModel(span: TelemetrySpan): string | undefined {
+  return span.attributes['gen_ai.request.model'] || undefined
+}
+
+/**
+ * Tool name of a span that executes a tool call, or null for other spans
+ */
+export function getToolName(span: TelemetrySpan): string | null {
+  const name = span.attributes['tool.name'] || span.attributes['gen_ai.tool.name']
+  if (name) return name
+  return span.attributes['tool.input'] !== undefined ? span.spanName : null
+}
+
+function spanTokens(span: TelemetrySpan, kind: 'input' | 'output'): number {
+  return parseInt(span.attributes[`gen_ai.usage.${kind}_tokens`]) || 0
+}
+
+// Priced at the rate in effect when the span started
+function spanPricing(span: TelemetrySpan, pricing: ModelPriceHistory) {
+  const model = getSpanModel(span)
+  return model ? getPricingAt(pricing, model, span.startTime) : undefined
+}
+
+function spanCost(span: TelemetrySpan, pricing: ModelPriceHistory): number {
+  const modelPricing = spanPricing(span, pricing)
+  return modelPricing ? calculateTokenCost(modelPricing, spanTokens(span, 'input'), spanTokens(span, 'output')) : 0
+}
+
+/**
+ * Totals for a set of spans. Duration adds up the top-level spans of the set,
+ * so nested spans aren't counted twice.
+ */
+export function summarizeSpans(spans: TelemetrySpan[], pricing: ModelPriceHistory): ExecutionStats {
+  const spanIds = new Set(spans.map(span => span.spanId))
+  const topLevel = spans.filter(span => !span.parentSpanId || !spanIds.has(span.parentSpanId))
+
+  return {
+    durationMs: topLevel.reduce((sum, span) => sum + span.durationNs / 1000000, 0),
+    spanCount: spans.length,
+    errorCount: spans.filter(span => span.statusCode === 'STATUS_CODE_ERROR').length,
+    inputTokens: spans.reduce((sum, span) => sum + spanTokens(span, 'input'), 0),
+    outputTokens: spans.reduce((sum, span) => sum + spanTokens(span, 'output'), 0),
+    cost: spans.reduce((sum, span) => sum + spanCost(span, pricing), 0),
+    toolCalls: spans.filter(span => getToolName(span) !== null).length,
+  }
+}
+
+function describeExecution(spans: TelemetrySpan[], pricing: ModelPriceHistory): ExecutionSide {
+  const ordered = [...spans].sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+  const root = ordered[0]
+  const start = Math.min(...ordered.map(span => span.startTime.getTime()))
+  const end = Math.max(...ordered.map(span => span.endTime.getTime()))
+
+  return {
+    ...summarizeSpans(spans, pricing),
+    // Wall-clock time of the whole trace
+    durationMs: end - start,
+    traceId: root.traceId,
+    startTime: root.startTime.toISOString(),
+    rootSpanName: root.spanName,
+    agentVersion: ordered.map(span => span.attributes['agent.version']).find(Boolean) || null,
+    models: [...new Set(ordered.map(getSpanModel).filter((model): model is string => !!model))].sort(),
+  }
+}
+
+function groupByName(spans: TelemetrySpan[], name: (span: TelemetrySpan) => string | null | undefined): Map<string, TelemetrySpan[]> {
+  const groups = new Map<string, TelemetrySpan[]>()
+  spans.forEach(span => {
+    const key = name(span)
+    if (key) {
+      groups.set(key, [...(groups.get(key) || []), span])
+    }
+  })
+  return groups
+}
+
+/**
+ * Compare two executions, aligning spans tagged with the same `task.name`
+ * @param base - Spans of the earlier (reference) execution
+ * @param target - Spans of the execution being judged
+ * @param pricing - Model prices, already converted into `currency`
+ */
+export function compareExecutions(
+  base: TelemetrySpan[],
+  target: TelemetrySpan[],
+  pricing: ModelPriceHistory,
+  currency: string
+): ExecutionComparison {
+  const baseTasks = groupByName(base, span => span.attributes['task.name'])
+  const targetTasks = groupByName(target, span => span.attributes['task.name'])
+  const taskNames = [...new Set([...baseTasks.keys(), ...targetTasks.keys()])]
+
+  // Tasks in the order they first ran, base execution first
+  const firstRun = (name: string) => Math.min(
+    ...[...(baseTasks.get(name) || []), ...(targetTasks.get(name) || [])].map(span => span.startTime.getTime())
+  )
+  const tasks = taskNames
+    .sort((a, b) => (baseTasks.has(b) ? 1 : 0) - (baseTasks.has(a) ? 1 : 0) || firstRun(a) - firstRun(b))
+    .map((name) => {
+      const baseSpans = baseTasks.get(name)
+      const targetSpans = targetTasks.get(name)
+      return {
+        name,
+        base: baseSpans ? summarizeSpans(baseSpans, pricing) : null,
+        target: targetSpans ? summarizeSpans(targetSpans, pricing) : null,
+      }
+    })
+
+  const baseTools = groupByName(base, getToolName)
+  const targetTools = groupByName(target, getToolName)
+  const tools = [...new Set([...baseTools.keys(), ...targetTools.keys()])]
+    .sort()
+    .map((name) => ({
+      name,
+      base: baseTools.get(name)?.length || 0,
+      target: targetTools.get(name)?.length || 0,
+    }))
+
+  const spans = [...base, ...target]
+  const unpricedModels = new Set(spans
+    .filter(span => !spanPricing(span, pricing))
+    .map(getSpanModel)
+    .filter((model): model is string => !!model))
+
+  return {
+    base: describeExecution(base, pricing),
+    target: describeExecution(target, pricing),
+    tasks,
+    tools,
+    currency,
+    unpricedModels: [...unpricedModels].sort(),
+  }
+}
@@ -0,0 +1,440 @@
+/**
+ * In-Memory Telemetry Repository
+ *
+ * Serves telemetry from a fixed list of spans with the same filtering and
+ * grouping as the ClickHouse repository, so routes can be tested without a
+ * database.
+ */
+
+import {
+  RECONCILE_SPAN_NAME,
+  type AgentExecutionUsage,
+  type AgentUsageBucket,
+  type ExecutionFacetName,
+  type ExecutionFacets,
+  type ExecutionFilters,
+  type ExecutionModelUsage,
+  type ExecutionSummary,
+  type FacetCount,
+  type LatencyPercentiles,
+  type ModelAgentUsage,
+  type ModelAnalyticsQuery,
+  type ModelErrorCount,
+  type ModelRequestBucket,
+  type ModelUsageBucket,
+  type TaskUsageBucket,
+  type TelemetryGranularity,
+  type TelemetryRepository,
+  type TelemetryScope,
+  type TelemetrySpan,
+} from './telemetry-repository'
+
+/**
+ * A span as stored in `otel_traces`
+ */
+export interface TelemetrySpanRecord {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  spanName: string
+  spanKind?: string
+  timestamp: Date
+  durationNs: number
+  statusCode?: string
+  statusMessage?: string
+  resourceAttributes: Record<string, string>
+  spanAttributes: Record<string, string>
+  events?: { timestamp: Date; name: string; attributes?: Record<string, string> }[]
+}
+
+function inScope(span: TelemetrySpanRecord, scope: TelemetryScope): boolean {
+  return span.resourceAttributes['k8s.namespace.name'] === scope.namespace
+    || span.resourceAttributes['langop.io/organization-id'] === scope.organizationId
+}
+
+function inRange(span: TelemetrySpanRecord, from: Date, to: Date): boolean {
+  return span.timestamp >= from && span.timestamp <= to
+}
+
+function hasTokenUsage(span: TelemetrySpanRecord): boolean {
+  return !!span.spanAttributes['gen_ai.usage.input_tokens'] || !!span.spanAttributes['gen_ai.usage.output_tokens']
+}
+
+function tokens(span: TelemetrySpanRecord, kind: 'input' | 'output'): number {
+  return parseInt(span.spanAttributes[`gen_ai.usage.${kind}_tokens`]) || 0
+}
+
+function isError(span: TelemetrySpanRecord): boolean {
+  return span.statusCode === 'STATUS_CODE_ERROR'
+}
+
+// Start of the UTC hour or day, like ClickHouse's toStartOfHour/toStartOfDay on a UTC server
+function startOfInterval(timestamp: Date, granularity: TelemetryGranularity): Date {
+  const interval = new Date(timestamp)
+  if (granularity === 'hour') {
+    interval.setUTCMinutes(0, 0, 0)
+  } else {
+    interval.setUTCHours(0, 0, 0, 0)
+  }
+  return interval
+}
+
+// Start of the interval, or the last price change within it, like the ClickHouse usage buckets
+function pricedAt(timestamp: Date, granularity: TelemetryGranularity, priceChanges: Date[] = []): Date {
+  return [startOfInterval(timestamp, granularity), ...priceChanges.filter(change => change <= timestamp)]
+    .reduce((latest, time) => time > latest ? time : latest)
+}
+
+function toNanos(date: Date): bigint {
+  return BigInt(date.getTime()) * BigInt(1000000)
+}
+
+// Linearly interpolated quantile of span durations, in milliseconds
+function durationQuantile(spans: TelemetrySpanRecord[], level: number): number {
+  const durations = spans.map(span => span.durationNs).sort((a, b) => a - b)
+  const position = (durations.length - 1) * level
+  const lower = durations[Math.floor(position)]
+  const upper = durations[Math.ceil(position)]
+  return (lower + (upper - lower) * (position - Math.floor(position))) / 1000000
+}
+
+function latencyPercentiles(spans: TelemetrySpanRecord[]): LatencyPercentiles {
+  return {
+    p50Ms: durationQuantile(spans, 0.5),
+    p95Ms: durationQuantile(spans, 0.95),
+    p99Ms: durationQuantile(spans, 0.99),
+  }
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  items.forEach(item => {
+    const k = key(item)
+    groups.set(k, [...(groups.get(k) || []), item])
+  })
+  return groups
+}
+
+function matchesFilters(execution: ExecutionSummary, filters: ExecutionFilters, exclude?: ExecutionFacetName): boolean {
+  return (!filters.status || exclude === 'status' || execution.status === filters.status)
+    && (filters.minDurationMs === undefined || execution.durationMs >= filters.minDurationMs)
+    && (!filters.rootSpanName || exclude === 'rootSpanName' || execution.rootSpanName === filters.rootSpanName)
+    && (!filters.model || exclude === 'model' || execution.models.includes(filters.model))
+}
+
+// Newest first, then by descending trace ID, like the ClickHouse ordering
+function compareExecutions(a: ExecutionSummary, b: ExecutionSummary): number {
+  const byStart = BigInt(b.startTimeUnixNano) - BigInt(a.startTimeUnixNano)
+  if (byStart !== BigInt(0)) {
+    return byStart > BigInt(0) ? 1 : -1
+  }
+  return b.traceId.localeCompare(a.traceId)
+}
+
+function countValues(values: string[]): FacetCount[] {
+  const counts = new Map<string, number>()
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1))
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
+
+/**
+ * Create a repository over the given spans
+ */
+export function createInMemoryTelemetryRepository(spans: TelemetrySpanRecord[]): TelemetryRepository {
+  const agentSpans = (scope: TelemetryScope, agentName: string, from: Date, to: Date) =>
+    spans.filter(span =>
+      inScope(span, scope)
+      && inRange(span, from, to)
+      && span.spanAttributes['agent.name'] === agentName
+      && span.spanName !== RECONCILE_SPAN_NAME
+    )
+
+  const modelSpans = ({ scope, modelNames, from, to }: ModelAnalyticsQuery) =>
+    spans.filter(span =>
+      inScope(span, scope)
+      && inRange(span, from, to)
+      && modelNames.includes(span.spanAttributes['gen_ai.request.model'])
+      && span.spanName !== RECONCILE_SPAN_NAME
+    )
+
+  // One summary per trace, matching the ClickHouse `executions` aggregates
+  const executions = (scope: TelemetryScope, agentName: string, from: Date, to: Date): ExecutionSummary[] => {
+    const traces = groupBy(agentSpans(scope, agentName, from, to), span => span.traceId)
+
+    return Array.from(traces.entries()).map(([traceId, traceSpans]) => {
+      const ordered = [...traceSpans].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      const ends = ordered.map(span => span.timestamp.getTime() + span.durationNs / 1000000)
+      const models = ordered.map(span => span.spanAttributes['gen_ai.request.model']).filter(Boolean)
+
+      return {
+        traceId,
+        startTime: ordered[0].timestamp,
+        startTimeUnixNano: toNanos(ordered[0].timestamp).toString(),
+        endTime: new Date(Math.max(...ends)),
+        durationMs: Math.max(...ordered.map(span => span.durationNs)) / 1000000,
+        spanCount: ordered.length,
+        errorSpanCount: ordered.filter(isError).length,
+        rootSpanName: ordered[0].spanName,
+        status: isError(ordered[0]) ? 'error' : 'success',
+        models: [...new Set(models)].sort(),
+      }
+    })
+  }
+
+  return {
+    async listExecutions({ scope, agentName, from, to, limit, filters = {}, cursor }) {
+      return executions(scope, agentName, from, to)
+        .filter(execution => matchesFilters(execution, filters))
+        .filter(execution => !cursor || compareExecutions(execution, {
+          ...execution,
+          startTimeUnixNano: cursor.startTimeUnixNano,
+          traceId: cursor.traceId,
+        }) > 0)
+        .sort(compareExecutions)
+        .slice(0, limit)
+    },
+
+    async getExecutionFacets({ scope, agentName, from, to, filters = {} }) {
+      const all = executions(scope, agentName, from, to)
+      const matching = (exclude: ExecutionFacetName) => all.filter(execution => matchesFilters(execution, filters, exclude))
+
+      const facets: ExecutionFacets = {
+        status: countValues(matching('status').map(execution => execution.status)),
+        rootSpanName: countValues(matching('rootSpanName').map(execution => execution.rootSpanName)),
+        model: countValues(matching('model').flatMap(execution => execution.models)),
+      }
+      return facets
+    },
+
+    async getTraceSpans({ scope, agentName, traceIdPrefix, excludeReconcile = false }) {
+      const matching = spans.filter(span => span.traceId.startsWith(traceIdPrefix))
+      const agentTraceIds = new Set(
+        matching.filter(span => span.spanAttributes['agent.name'] === agentName).map(span => span.traceId)
+      )
+
+      return matching
+        .filter(span =>
+          inScope(span, scope)
+          && agentTraceIds.has(span.traceId)
+          && !(excludeReconcile && span.spanName === RECONCILE_SPAN_NAME)
+        )
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+        .map((span): TelemetrySpan => {
+          const startNanos = toNanos(span.timestamp)
+          const endNanos = startNanos + BigInt(span.durationNs)
+
+          return {
+            traceId: span.traceId,
+            spanId: span.spanId,
+            parentSpanId: span.parentSpanId || null,
+            spanName: span.spanName,
+            spanKind: span.spanKind || 'SPAN_KIND_INTERNAL',
+            startTime: span.timestamp,
+            startTimeUnixNano: startNanos.toString(),
+            endTime: new Date(Number(endNanos / BigInt(1000000))),
+            endTimeUnixNano: endNanos.toString(),
+            durationNs: span.durationNs,
+            statusCode: span.statusCode || 'STATUS_CODE_UNSET',
+            statusMessage: span.statusMessage || '',
+            attributes: span.spanAttributes,
+            events: (span.events || []).map(event => ({
+              timestamp: event.timestamp,
+              timeUnixNano: toNanos(event.timestamp).toString(),
+              name: event.name,
+              attributes: event.attributes || {},
+            })),
+            podName: span.resourceAttributes['k8s.pod.name'] || null,
+          }
+        })
+    },
+
+    async getModelUsage({ scope, agentName, from, to, granularity, priceChanges }) {
+      const usageSpans = agentSpans(scope, agentName, from, to).filter(hasTokenUsage)
+      const buckets = groupBy(usageSpans, span =>
+        `${pricedAt(span.timestamp, granularity, priceChanges).toISOString()}|${span.spanAttributes['gen_ai.request.model'] || ''}`
+      )
+
+      return Array.from(buckets.values())
+        .map((bucket): ModelUsageBucket => ({
+          interval: startOfInterval(bucket[0].timestamp, granularity),
+          pricedAt: pricedAt(bucket[0].timestamp, granularity, priceChanges),
+          modelName: bucket[0].spanAttributes['gen_ai.request.model'] || '',
+          spanCount: bucket.length,
+          errorCount: bucket.filter(isError).length,
+          avgDurationMs: bucket.reduce((sum, span) => sum + span.durationNs, 0) / bucket.length / 1000000,
+          inputTokens: bucket.reduce((sum, span) => sum + tokens(span, 'input'), 0),
+          outputTokens: bucket.reduce((sum, span) => sum + tokens(span, 'output'), 0),
+        }))
+        .sort((a, b) =>
+          a.interval.getTime() - b.interval.getTime()
+          || a.pricedAt.getTime() - b.pricedAt.getTime()
+          || a.modelName.localeCompare(b.modelName)
+        )
+    },
+
+    async getTaskUsage({ scope, agentName, from, to, granularity, priceChanges }) {
+      const usageSpans = agentSpans(scope, agentName, from, to)
+        .filter(span => hasTokenUsage(span) && !!span.spanAttributes['task.name'])
+      const buckets = groupBy(usageSpans, span =>
+        `${pricedAt(span.timestamp, granularity, priceChanges).toISOString()}|${span.spanAttributes['task.name']}|${span.spanAttributes['gen_ai.request.model'] || ''}`
+      )
+
+      return Array.from(buckets.values())
+        .map((bucket): TaskUsageBucket => ({
+          interval: startOfInterval(bucket[0].timestamp, granularity),
+          pricedAt: pricedAt(bucket[0].timestamp, granularity, priceChanges),
+          taskName: bucket[0].spanAttributes['task.name'],
+          modelName: bucket[0].spanAttributes['gen_ai.request.model'] || '',
+          spanCount: bucket.length,
+          inputTokens: bucket.reduce((sum, span) => sum + tokens(span, 'input'), 0),
+          outputTokens: bucket.reduce((sum, span) => sum + tokens(span, 'output'), 0),
+        }))
+        .sort((a, b) =>
+          a.interval.getTime() - b.interval.getTime()
+          || a.pricedAt.getTime() - b.pricedAt.getTime()
+          || a.taskName.localeCompare(b.taskName)
+          || a.modelName.localeCompare(b.modelName)
+        )
+    },
+
+    async getOrganizationUsage({ scope, from, to, granularity, priceChanges }) {
+      const usageSpans = spans.filter(span =>
+        inScope(span, scope)
+        && inRange(span, from, to)
+        && !!span.spanAttributes['agent.name']
+        && span.spanName !== RECONCILE_SPAN_NAME
+        && hasTokenUsage(span)
+      )
+      const attribute = (span: TelemetrySpanRecord, key: string) => span.spanAttributes[key] || ''
+      const buckets = groupBy(usageSpans, span => [
+        pricedAt(span.timestamp, granularity, priceChanges).toISOString(),
+        attribute(span, 'agent.name'),
+        attribute(span, 'task.name'),
+        attribute(span, 'gen_ai.request.model'),
+      ].join('|'))
+
+      return Array.from(buckets.values())
+        .map((bucket): AgentUsageBucket => ({
+          interval: startOfInterval(bucket[0].timestamp, granularity),
+          pricedAt: pricedAt(bucket[0].timestamp, granularity, priceChanges),
+          agentName: attribute(bucket[0], 'agent.name'),
+          taskName: attribute(bucket[0], 'task.name'),
+          modelName: attribute(bucket[0], 'gen_ai.request.model'),
+          spanCount: bucket.length,
+          errorCount: bucket.filter(isError).length,
+          inputTokens: bucket.reduce((sum, span) => sum + tokens(span, 'input'), 0),
+          outputTokens: bucket.reduce((sum, span) => sum + tokens(span, 'output'), 0),
+        }))
+        .sort((a, b) =>
+          a.interval.getTime() - b.interval.getTime()
+          || a.pricedAt.getTime() - b.pricedAt.getTime()
+          || a.agentName.localeCompare(b.agentName)
+          || a.taskName.localeCompare(b.taskName)
+          || a.modelName.localeCompare(b.modelName)
+        )
+    },
+
+    async getAgentExecutionUsage({ scope, from, to }) {
+      const agentSpans = spans.filter(span =>
+        inScope(span, scope)
+        && inRange(span, from, to)
+        && !!span.spanAttributes['agent.name']
+        && span.spanName !== RECONCILE_SPAN_NAME
+      )
+
+      return Array.from(groupBy(agentSpans, span => span.spanAttributes['agent.name']).entries())
+        .map(([agentName, agentSpanList]): AgentExecutionUsage => ({
+          agentName,
+          executions: new Set(agentSpanList.map(span => span.traceId)).size,
+          inputTokens: agentSpanList.reduce((sum, span) => sum + tokens(span, 'input'), 0),
+          outputTokens: agentSpanList.reduce((sum, span) => sum + tokens(span, 'output'), 0),
+          models: [...new Set(agentSpanList.map(span => span.spanAttributes['gen_ai.request.model']).filter(Boolean))].sort(),
+        }))
+        .sort((a, b) => a.agentName.localeCompare(b.agentName))
+    },
+
+    async getExecutionModelUsage({ scope, from, to }) {
+      const usageSpans = spans.filter(span =>
+        inScope(span, scope)
+        && inRange(span, from, to)
+        && !!span.spanAttributes['agent.name']
+        && span.spanName !== RECONCILE_SPAN_NAME
+        && hasTokenUsage(span)
+      )
+      const attribute = (span: TelemetrySpanRecord, key: string) => span.spanAttributes[key] || ''
+      const groups = groupBy(usageSpans, span => [
+        span.traceId,
+        attribute(span, 'agent.name'),
+        attribute(span, 'task.name'),
+        attribute(span, 'gen_ai.request.model'),
+      ].join('|'))
+
+      return Array.from(groups.values())
+        .map((group): ExecutionModelUsage => ({
+          traceId: group[0].traceId,
+          timestamp: new Date(Math.min(...group.map(span => span.timestamp.getTime()))),
+          agentName: attribute(group[0], 'agent.name'),
+          taskName: attribute(group[0], 'task.name'),
+          modelName: attribute(group[0], 'gen_ai.request.model'),
+          inputTokens: group.reduce((sum, span) => sum + tokens(span, 'input'), 0),
+          outputTokens: group.reduce((sum, span) => sum + tokens(span, 'output'), 0),
+        }))
+        .sort((a, b) =>
+          a.timestamp.getTime() - b.timestamp.getTime()
+          || a.traceId.localeCompare(b.traceId)
+          || a.taskName.localeCompare(b.taskName)
+          || a.modelName.localeCompare(b.modelName)
+        )
+    },
+
+    async getModelRequests(query) {
+      const buckets = groupBy(modelSpans(query), span => startOfInterval(span.timestamp, query.granularity).toISOString())
+
+      return Array.from(buckets.values())
+        .map((bucket): ModelRequestBucket => {
+          const { p50Ms, p95Ms, p99Ms } = latencyPercentiles(bucket)
+          return {
+            interval: startOfInterval(bucket[0].timestamp, query.granularity),
+            requests: bucket.length,
+            errorCount: bucket.filter(isError).length,
+            inputTokens: bucket.reduce((sum, span) => sum + tokens(span, 'input'), 0),
+            outputTokens: bucket.reduce((sum, span) => sum + tokens(span, 'output'), 0),
+            p50DurationMs: p50Ms,
+            p95DurationMs: p95Ms,
+            p99DurationMs: p99Ms,
+          }
+        })
+        .sort((a, b) => a.interval.getTime() - b.interval.getTime())
+    },
+
+    async getModelLatency(query) {
+      const requests = modelSpans(query)
+      return requests.length > 0 ? latencyPercentiles(requests) : null
+    },
+
+    async getModelErrors(query) {
+      const errorTypes = modelSpans(query)
+        .filter(isError)
+        .map(span => span.spanAttributes['error.type'] || 'unknown')
+
+      return countValues(errorTypes).map(({ value, count }): ModelErrorCount => ({ errorType: value, count }))
+    },
+
+    async getModelAgentUsage(query) {
+      const total = (usage: ModelAgentUsage) => usage.inputTokens + usage.outputTokens
+
+      return Array.from(groupBy(modelSpans(query), span => span.spanAttributes['agent.name'] || '').entries())
+        .map(([agentName, agentSpanList]): ModelAgentUsage => ({
+          agentName,
+          requests: agentSpanList.length,
+          errorCount: agentSpanList.filter(isError).length,
+          inputTokens: agentSpanList.reduce((sum, span) => sum + tokens(span, 'input'), 0),
+          outputTokens: agentSpanList.reduce((sum, span) => sum + tokens(span, 'output'), 0),
+          avgDurationMs: agentSpanList.reduce((sum, span) => sum + span.durationNs, 0) / agentSpanList.length / 1000000,
+        }))
+        .sort((a, b) => total(b) - total(a) || b.requests - a.requests || a.agentName.localeCompare(b.agentName))
+    },
+  }
+}
@@ -1,4 +1,5 @@
 import * as k8s from '@kubernetes/client-node'
+import { getPlanQuotaSpec } from './plans'
 
 interface RequestOptions {
   timeout?: number
@@ -271,52 +272,9 @@ class KubernetesClient {
 
   // ResourceQuota methods for multi-tenant resource management
 
-  private getPlanBasedQuotaSpec(plan: string): Record<string, string> {
-    switch (plan.toLowerCase()) {
-      case 'free':
-        return {
-          'count/languageagents': '2',
-          'count/languagemodels': '2',
-          'count/languagetools': '5',
-          'count/languagepersonas': '3',
-          'count/languageclusters': '1',
-          'requests.cpu': '1000m',
-          'requests.memory': '2Gi',
-          'limits.cpu': '2000m',
-          'limits.memory': '4Gi'
-        }
-      case 'pro':
-        return {
-          'count/languageagents': '20',
-          'count/languagemodels': '10',
-          'count/languagetools': '50',
-          'count/languagepersonas': '20',
-          'count/languageclusters': '5',
-          'requests.cpu': '10000m',
-          'requests.memory': '20Gi',
-          'limits.cpu': '20000m',
-          'limits.memory': '40Gi'
-        }
-      case 'enterprise':
-        return {
-          'count/languageagents': '100',
-          'count/languagemodels': '50',
-          'count/languagetools': '200',
-          'count/languagepersonas': '100',
-          'count/languageclusters': '20',
-          'requests.cpu': '50000m',
-          'requests.memory': '100Gi',
-          'limits.cpu': '100000m',
-          'limits.memory': '200Gi'
-        }
-      default:
-        return this.getPlanBasedQuotaSpec('free')
-    }
-  }
-
   async createResourceQuota(namespace: string, organizationId: string, plan: string) {
     const quotaName = `${namespace}-quota`
-    const quotaSpec = this.getPlanBasedQuotaSpec(plan)
+    const quotaSpec = getPlanQuotaSpec(plan)
 
     const resourceQuota: k8s.V1ResourceQuota = {
       metadata: {
@@ -355,7 +313,7 @@ class KubernetesClient {
 
   async updateResourceQuota(namespace: string, plan: string, organizationId: string, name?: string) {
     const quotaName = name || `${namespace}-quota`
-    const quotaSpec = this.getPlanBasedQuotaSpec(plan)
+    const quotaSpec = getPlanQuotaSpec(plan)
 
     const resourceQuota: k8s.V1ResourceQuota = {
       metadata: {
@@ -1144,6 +1102,8 @@ class KubernetesClient {
     labelSelector?: string
     fieldSelector?: string
     limit?: number
+    // From the previous page's metadata, to read the next page
+    continueToken?: string
   } = {}) {
     if (!this.coreV1Api) {
       throw new Error('Kubernetes API not available')
@@ -1154,6 +1114,7 @@ class KubernetesClient {
       labelSelector: options.labelSelector,
       fieldSelector: options.fieldSelector,
       limit: options.limit || 50, // Default to last 50 events
+      _continue: options.continueToken,
     })
   }
 
@@ -1456,6 +1417,26 @@ class KubernetesClient {
     }
   }
 
+  async setCronJobSuspended(namespace: string, name: string, suspended: boolean) {
+    if (!this.batchV1Api) {
+      throw new Error('Kubernetes client not initialized')
+    }
+
+    try {
+      // JSON patch, the client's default patch content type; "add" also replaces an existing value
+      const response = await this.batchV1Api.patchNamespacedCronJob({
+        name,
+        namespace,
+        body: [{ op: 'add', path: '/spec/suspend', value: suspended }],
+      })
+      console.log(`✅ CronJob ${name} ${suspended ? 'suspended' : 'resumed'}`)
+      return response
+    } catch (error) {
+      console.error(`❌ Failed to ${suspended ? 'suspend' : 'resume'} CronJob ${name}:`, error)
+      throw error
+    }
+  }
+
   async createJobFromCronJob(namespace: string, cronJobName: string, jobName: string) {
     if (!this.batchV1Api) {
       throw new Error('Kubernetes client not initialized')
@@ -0,0 +1,317 @@
+/**
+ * Log Archive Service
+ *
+ * Copies the output of agent, model and tool pods into the database on an
+ * interval, so the logs of a scheduled run can still be read after its Job pod
+ * is garbage-collected. The server starts the capture from instrumentation;
+ * each pod's container is read from the last line archived for it.
+ */
+
+import type { V1Pod } from '@kubernetes/client-node'
+import { z } from 'zod'
+import { db } from './db'
+import { k8sClient } from './k8s-client'
+import { getLogArchiveIntervalMinutes, getLogArchiveRetentionDays, hasDatabaseUrl } from './env'
+import {
+  POD_RESOURCE_KINDS,
+  detectLogLevel,
+  getPodExecutionId,
+  parseLogLine,
+  selectUnarchivedLines,
+} from './log-archive'
+import { ValidationError } from './api-error-handler'
+import { LOG_LEVELS, type ArchivedLogEntry, type ArchivedLogRun, type LogLevel, type LogResourceKind, type LogSearchResult } from '@/types/logs'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Most lines read from one container per capture
+const MAX_LINES_PER_CAPTURE = 5000
+
+// Most runs listed by a search
+const MAX_RUNS = 100
+
+const ARCHIVED_POD_SELECTOR = `langop.io/kind in (${Object.keys(POD_RESOURCE_KINDS).join(',')})`
+
+// Longest range that can be searched at once
+const MAX_SEARCH_RANGE_DAYS = 90
+
+const logSearchParamsSchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  level: z.string().optional()
+    .transform(value => value ? value.split(',').map(level => level.trim()).filter(Boolean) : undefined)
+    .pipe(z.array(z.enum(LOG_LEVELS)).optional()),
+  q: z.string().max(200).optional(),
+  podName: z.string().optional(),
+  executionId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(5000).default(1000),
+})
+
+let captureTimer: ReturnType<typeof setInterval> | null = null
+let capturing = false
+
+export interface LogSearchQuery {
+  organizationId: string
+  kind: LogResourceKind
+  resourceName: string
+  from: Date
+  to: Date
+  levels?: LogLevel[]
+  // Case-insensitive substring of the message
+  text?: string
+  podName?: string
+  executionId?: string
+  limit: number
+}
+
+/**
+ * Parse the search route's query parameters, defaulting to the last 24 hours
+ */
+export function parseLogSearchParams(
+  searchParams: URLSearchParams,
+  now = new Date()
+): Omit<LogSearchQuery, 'organizationId' | 'kind' | 'resourceName'> {
+  const params = logSearchParamsSchema.safeParse({
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+    level: searchParams.get('level') || undefined,
+    q: searchParams.get('q') || undefined,
+    podName: searchParams.get('podName') || undefined,
+    executionId: searchParams.get('executionId') || undefined,
+    limit: searchParams.get('limit') || undefined,
+  })
+  if (!params.success) {
+    throw new ValidationError('Invalid query parameters', params.error)
+  }
+
+  const to = params.data.to ? new Date(params.data.to) : now
+  const from = params.data.from ? new Date(params.data.from) : new Date(to.getTime() - DAY_MS)
+  if (from >= to) {
+    throw new ValidationError('from must be before to')
+  }
+  if (to.getTime() - from.getTime() > MAX_SEARCH_RANGE_DAYS * DAY_MS) {
+    throw new ValidationError(`Date range too large. Maximum ${MAX_SEARCH_RANGE_DAYS} days allowed.`)
+  }
+
+  return {
+    from,
+    to,
+    levels: params.data.level,
+    text: params.data.q,
+    podName: params.data.podName,
+    executionId: params.data.executionId,
+    limit: params.data.limit,
+  }
+}
+
+/**
+ * Archive the lines each container of the pod wrote since the last capture
+ * @returns The number of lines archived
+ */
+export async function archivePodLogs(organizationId: string, namespace: string, pod: V1Pod, now = new Date()): Promise<number> {
+  const podName = pod.metadata?.name
+  const kind = POD_RESOURCE_KINDS[pod.metadata?.labels?.['langop.io/kind'] || '']
+  const resourceName = pod.metadata?.labels?.['app.kubernetes.io/name']
+  // Pods that haven't started have no output yet
+  if (!podName || !kind || !resourceName || pod.status?.phase === 'Pending') {
+    return 0
+  }
+
+  let archived = 0
+  for (const container of pod.spec?.containers || []) {
+    try {
+      const last = await db.logArchiveEntry.findFirst({
+        where: { organizationId, podName, container: container.name },
+        orderBy: { timestamp: 'desc' },
+        select: { timestamp: true },
+      })
+      const lastMessages: Array<{ message: string }> = last
+        ? await db.logArchiveEntry.findMany({
+          where: { organizationId, podName, container: container.name, timestamp: last.timestamp },
+          select: { message: true },
+        })
+        : []
+
+      const output = await k8sClient.getPodLogs(namespace, podName, {
+        container: container.name,
+        timestamps: true,
+        tailLines: MAX_LINES_PER_CAPTURE,
+        // sinceSeconds is whole seconds, so lines from the last second are read again
+        sinceSeconds: last ? Math.ceil((now.getTime() - last.timestamp.getTime()) / 1000) + 1 : undefined,
+      })
+
+      const lines = selectUnarchivedLines(
+        output.split('\n').map(parseLogLine).filter((line): line is NonNullable<typeof line> => line !== null),
+        last ? { timestamp: last.timestamp, messages: lastMessages.map(entry => entry.message) } : null
+      )
+      if (lines.length === 0) {
+        continue
+      }
+
+      await db.logArchiveEntry.createMany({
+        data: lines.map(line => ({
+          organizationId,
+          resourceKind: kind,
+          resourceName,
+          podName,
+          container: container.name,
+          executionId: getPodExecutionId(pod),
+          timestamp: line.timestamp,
+          level: detectLogLevel(line.message),
+          message: line.message,
+        })),
+      })
+      archived += lines.length
+    } catch (error) {
+      console.error(`Failed to archive logs of ${podName}/${container.name}:`, error)
+    }
+  }
+
+  return archived
+}
+
+/**
+ * Archive the output of every organization's agent, model and tool pods, then
+ * delete lines past retention
+ * @returns The number of lines archived
+ */
+export async function captureLogs(retentionDays: number, now = new Date()): Promise<number> {
+  const organizations: Array<{ id: string; namespace: string }> = await db.organization.findMany({
+    select: { id: true, namespace: true },
+  })
+
+  let archived = 0
+  for (const organization of organizations) {
+    try {
+      const pods = await k8sClient.listPods(organization.namespace, { labelSelector: ARCHIVED_POD_SELECTOR })
+      for (const pod of pods.items) {
+        archived += await archivePodLogs(organization.id, organization.namespace, pod, now)
+      }
+    } catch (error) {
+      console.error(`Failed to archive logs for organization ${organization.id}:`, error)
+    }
+  }
+
+  await db.logArchiveEntry.deleteMany({
+    where: { timestamp: { lt: new Date(now.getTime() - retentionDays * DAY_MS) } },
+  })
+
+  return archived
+}
+
+/**
+ * Start capturing logs on the configured interval, once per process
+ */
+export function startLogArchive(): void {
+  const intervalMinutes = getLogArchiveIntervalMinutes()
+  if (captureTimer || !hasDatabaseUrl || !(intervalMinutes > 0)) {
+    return
+  }
+
+  const tick = async () => {
+    // A slow run isn't overlapped by the next one
+    if (capturing) {
+      return
+    }
+
+    capturing = true
+    try {
+      await captureLogs(getLogArchiveRetentionDays())
+    } catch (error) {
+      console.error('Failed to capture logs:', error)
+    } finally {
+      capturing = false
+    }
+  }
+
+  captureTimer = setInterval(tick, intervalMinutes * 60 * 1000)
+  // Don't keep the process alive just for the archive
+  captureTimer.unref?.()
+  void tick()
+}
+
+/**
+ * Names a sidecar tool's container may have in an agent's pod. Matched
+ * exactly, so a tool's search doesn't take in tools whose names contain its own.
+ */
+export function getSidecarContainerNames(toolName: string): string[] {
+  return [toolName, `tool-${toolName}`]
+}
+
+/**
+ * Archived lines of the resource's pods. Sidecar tools write from a container
+ * of the agent's pod named after the tool.
+ */
+function resourceFilter(organizationId: string, kind: LogResourceKind, resourceName: string) {
+  if (kind === 'tool') {
+    return {
+      organizationId,
+      OR: [
+        { resourceKind: 'tool', resourceName },
+        { resourceKind: 'agent', container: { in: getSidecarContainerNames(resourceName) } },
+      ],
+    }
+  }
+  return { organizationId, resourceKind: kind, resourceName }
+}
+
+/**
+ * Search the resource's archived lines, returning the latest matches in order
+ * along with the runs archived in the time range
+ */
+export async function searchArchivedLogs(query: LogSearchQuery): Promise<LogSearchResult> {
+  const resource = resourceFilter(query.organizationId, query.kind, query.resourceName)
+  const inRange = { ...resource, timestamp: { gte: query.from, lte: query.to } }
+
+  const [rows, groups] = await Promise.all([
+    db.logArchiveEntry.findMany({
+      where: {
+        ...inRange,
+        ...(query.levels?.length ? { level: { in: query.levels } } : {}),
+        ...(query.text ? { message: { contains: query.text, mode: 'insensitive' } } : {}),
+        ...(query.podName ? { podName: query.podName } : {}),
+        ...(query.executionId ? { executionId: query.executionId } : {}),
+      },
+      // Latest first so the limit keeps the newest lines; reversed below
+      orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+      take: query.limit + 1,
+      select: { id: true, podName: true, container: true, executionId: true, timestamp: true, level: true, message: true },
+    }),
+    db.logArchiveEntry.groupBy({
+      by: ['podName', 'executionId'],
+      where: inRange,
+      _min: { timestamp: true },
+      _max: { timestamp: true },
+      _count: { _all: true },
+    }),
+  ])
+
+  const entries: ArchivedLogEntry[] = rows.slice(0, query.limit).reverse().map((row: {
+    id: string
+    podName: string
+    container: string
+    executionId: string | null
+    timestamp: Date
+    level: LogLevel
+    message: string
+  }) => ({ ...row, timestamp: row.timestamp.toISOString() }))
+
+  const runs: ArchivedLogRun[] = groups
+    .map((group: {
+      podName: string
+      executionId: string | null
+      _min: { timestamp: Date }
+      _max: { timestamp: Date }
+      _count: { _all: number }
+    }) => ({
+      podName: group.podName,
+      executionId: group.executionId,
+      firstTimestamp: group._min.timestamp.toISOString(),
+      lastTimestamp: group._max.timestamp.toISOString(),
+      lineCount: group._count._all,
+    }))
+    .sort((a: ArchivedLogRun, b: ArchivedLogRun) => b.lastTimestamp.localeCompare(a.lastTimestamp))
+    .slice(0, MAX_RUNS)
+
+  return { entries, truncated: rows.length > query.limit, runs }
+}
@@ -0,0 +1,107 @@
+/**
+ * Log Archive
+ *
+ * Parsing for the container output the log archive keeps: the timestamp
+ * Kubernetes prefixes each line with, the level the line was logged at, and
+ * which resource and execution a pod belongs to.
+ */
+
+import type { V1Pod } from '@kubernetes/client-node'
+import type { LogLevel, LogResourceKind } from '@/types/logs'
+
+export interface ParsedLogLine {
+  timestamp: Date
+  message: string
+}
+
+// Resource kind of the pods the operator labels with `langop.io/kind`
+export const POD_RESOURCE_KINDS: Record<string, LogResourceKind> = {
+  LanguageAgent: 'agent',
+  LanguageModel: 'model',
+  LanguageTool: 'tool',
+}
+
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+  trace: 'debug',
+  debug: 'debug',
+  info: 'info',
+  notice: 'info',
+  warn: 'warn',
+  warning: 'warn',
+  err: 'error',
+  error: 'error',
+  critical: 'error',
+  fatal: 'error',
+  panic: 'error',
+}
+
+// `level=warn`, `"level":"warn"`, `severity: WARNING`
+const LEVEL_FIELD_PATTERN = /\b(?:level|lvl|severity)["']?\s*[:=]\s*["']?([a-z]+)/i
+// `[ERROR]`, `WARNING:`; upper case only so prose like "no error" doesn't match
+const LEVEL_WORD_PATTERN = /\b(TRACE|DEBUG|INFO|NOTICE|WARN|WARNING|ERR|ERROR|CRITICAL|FATAL|PANIC)\b/
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g
+
+// RFC 3339 timestamp Kubernetes prefixes lines with
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\S+$/
+
+/**
+ * Remove ANSI colour codes
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '')
+}
+
+/**
+ * Split a line read with `timestamps: true` into its timestamp and message
+ * @returns null for a line without a valid timestamp
+ */
+export function parseLogLine(line: string): ParsedLogLine | null {
+  const separator = line.indexOf(' ')
+  const prefix = separator === -1 ? line : line.substring(0, separator)
+  const timestamp = new Date(prefix)
+  if (!TIMESTAMP_PATTERN.test(prefix) || Number.isNaN(timestamp.getTime())) {
+    return null
+  }
+  return { timestamp, message: separator === -1 ? '' : line.substring(separator + 1) }
+}
+
+/**
+ * The level a line was logged at, from a level field or an upper-case level
+ * word. Lines without one count as info.
+ */
+export function detectLogLevel(message: string): LogLevel {
+  const plain = stripAnsi(message)
+  const level = plain.match(LEVEL_FIELD_PATTERN)?.[1] ?? plain.match(LEVEL_WORD_PATTERN)?.[1]
+  return (level && LEVEL_ALIASES[level.toLowerCase()]) || 'info'
+}
+
+/**
+ * The Job that ran the pod, which identifies one run of a scheduled or
+ * manually executed agent
+ */
+export function getPodExecutionId(pod: V1Pod): string | null {
+  const labels = pod.metadata?.labels || {}
+  return labels['batch.kubernetes.io/job-name'] || labels['job-name'] || null
+}
+
+/**
+ * The lines not archived yet. Logs are re-read from the last archived second,
+ * so lines before the last archived timestamp are dropped, as are lines at it
+ * whose message was already archived.
+ */
+export function selectUnarchivedLines(
+  lines: ParsedLogLine[],
+  lastArchived: { timestamp: Date; messages: string[] } | null
+): ParsedLogLine[] {
+  if (!lastArchived) {
+    return lines
+  }
+
+  const last = lastArchived.timestamp.getTime()
+  const archived = new Set(lastArchived.messages)
+  return lines.filter(line => {
+    const time = line.timestamp.getTime()
+    return time > last || (time === last && !archived.has(line.message))
+  })
+}
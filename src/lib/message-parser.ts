@@ -73,6 +73,48 @@ export function parseAgentMessage(content: string): ParsedMessage {
   }
 }
 
+// A [THINK] or [/THINK] tag that has only partially arrived, e.g. a trailing "[THI"
+const PARTIAL_TAG_REGEX = /\[\/?T?H?I?N?K?$/
+
+/**
+ * Parses agent content that is still being streamed. Unlike parseAgentMessage, an
+ * unclosed [THINK] section is treated as in-progress thinking rather than response
+ * text, and no fallback text is substituted while the response is still empty.
+ * @param content - Agent response content received so far
+ * @returns Parsed message with thinking and response content separated
+ */
+export function parsePartialAgentMessage(content: string): ParsedMessage {
+  const openIndex = content.lastIndexOf('[THINK]')
+  const isThinkOpen = openIndex !== -1 && openIndex > content.lastIndexOf('[/THINK]')
+  const closedContent = isThinkOpen ? content.slice(0, openIndex) : content
+
+  const thinkingContent = Array.from(
+    closedContent.matchAll(/\[THINK\]([\s\S]*?)\[\/THINK\]/g),
+    (match) => match[1].trim()
+  ).filter(Boolean)
+
+  if (isThinkOpen) {
+    const pendingThought = content
+      .slice(openIndex + '[THINK]'.length)
+      .replace(PARTIAL_TAG_REGEX, '')
+      .trim()
+    if (pendingThought) {
+      thinkingContent.push(pendingThought)
+    }
+  }
+
+  const responseContent = closedContent
+    .replace(/\[THINK\][\s\S]*?\[\/THINK\]/g, '')
+    .replace(PARTIAL_TAG_REGEX, '')
+    .trim()
+
+  return {
+    thinkingContent,
+    responseContent,
+    hasThinking: thinkingContent.length > 0
+  }
+}
+
 /**
  * Formats thinking content for display
  * @param thinkingContent - Array of thinking sections
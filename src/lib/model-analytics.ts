@@ -0,0 +1,166 @@
+/**
+ * Model Analytics
+ *
+ * Request volume, token throughput, latency and errors of one LanguageModel
+ * across every agent in the organization, from the `gen_ai.*` attributes of
+ * telemetry spans rather than the metrics the operator writes to status.
+ */
+
+import type { LanguageModel } from '@/types/model'
+import {
+  getTelemetryRepository,
+  type LatencyPercentiles,
+  type ModelAgentUsage,
+  type ModelErrorCount,
+  type ModelRequestBucket,
+  type TelemetryGranularity,
+  type TelemetryScope,
+} from './telemetry-repository'
+
+const INTERVAL_MS: Record<TelemetryGranularity, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+}
+
+export interface ModelAnalyticsPoint {
+  timestamp: string
+  requests: number
+  errors: number
+  inputTokens: number
+  outputTokens: number
+  p50LatencyMs: number
+  p95LatencyMs: number
+  p99LatencyMs: number
+}
+
+export interface ModelAnalytics {
+  totals: {
+    requests: number
+    errors: number
+    // Percentage of requests that failed
+    errorRate: number
+    inputTokens: number
+    outputTokens: number
+    tokensPerMinute: number
+    // Null without requests in the range
+    latency: LatencyPercentiles | null
+  }
+  // One point per interval of the range, zero where there were no requests
+  timeSeries: ModelAnalyticsPoint[]
+  errorTypes: ModelErrorCount[]
+  // Heaviest consumers first
+  agents: ModelAgentUsage[]
+  // Names the model's requests were matched on
+  modelNames: string[]
+  period: {
+    from: string
+    to: string
+    granularity: TelemetryGranularity
+  }
+}
+
+/**
+ * Names a model's requests may be recorded under: the LanguageModel's name and
+ * the provider model it serves
+ */
+export function getModelTelemetryNames(model: Pick<LanguageModel, 'metadata' | 'spec'>): string[] {
+  return [...new Set([model.metadata.name, model.spec?.modelName].filter((name): name is string => !!name))]
+}
+
+/**
+ * Hourly buckets for ranges up to a week, daily beyond
+ */
+export function getAnalyticsGranularity(from: Date, to: Date): TelemetryGranularity {
+  return to.getTime() - from.getTime() <= 7 * INTERVAL_MS.day ? 'hour' : 'day'
+}
+
+/**
+ * Assemble the analytics from the repository results, padding the time series
+ * to every interval of the range
+ */
+export function buildModelAnalytics({
+  requests,
+  latency,
+  errorTypes,
+  agents,
+  modelNames,
+  from,
+  to,
+  granularity,
+}: {
+  requests: ModelRequestBucket[]
+  latency: LatencyPercentiles | null
+  errorTypes: ModelErrorCount[]
+  agents: ModelAgentUsage[]
+  modelNames: string[]
+  from: Date
+  to: Date
+  granularity: TelemetryGranularity
+}): ModelAnalytics {
+  const byInterval = new Map(requests.map(bucket => [bucket.interval.getTime(), bucket]))
+  const step = INTERVAL_MS[granularity]
+
+  const timeSeries: ModelAnalyticsPoint[] = []
+  for (let interval = from.getTime() - (from.getTime() % step); interval <= to.getTime(); interval += step) {
+    const bucket = byInterval.get(interval)
+    timeSeries.push({
+      timestamp: new Date(interval).toISOString(),
+      requests: bucket?.requests ?? 0,
+      errors: bucket?.errorCount ?? 0,
+      inputTokens: bucket?.inputTokens ?? 0,
+      outputTokens: bucket?.outputTokens ?? 0,
+      p50LatencyMs: bucket?.p50DurationMs ?? 0,
+      p95LatencyMs: bucket?.p95DurationMs ?? 0,
+      p99LatencyMs: bucket?.p99DurationMs ?? 0,
+    })
+  }
+
+  const sum = (field: 'requests' | 'errorCount' | 'inputTokens' | 'outputTokens') =>
+    requests.reduce((total, bucket) => total + bucket[field], 0)
+  const totalRequests = sum('requests')
+  const errors = sum('errorCount')
+  const inputTokens = sum('inputTokens')
+  const outputTokens = sum('outputTokens')
+  const minutes = Math.max((to.getTime() - from.getTime()) / 60000, 1)
+
+  return {
+    totals: {
+      requests: totalRequests,
+      errors,
+      errorRate: totalRequests > 0 ? errors / totalRequests * 100 : 0,
+      inputTokens,
+      outputTokens,
+      tokensPerMinute: (inputTokens + outputTokens) / minutes,
+      latency,
+    },
+    timeSeries,
+    errorTypes,
+    agents,
+    modelNames,
+    period: { from: from.toISOString(), to: to.toISOString(), granularity },
+  }
+}
+
+/**
+ * Query the model's analytics for the range
+ */
+export async function getModelAnalytics(
+  scope: TelemetryScope,
+  model: Pick<LanguageModel, 'metadata' | 'spec'>,
+  from: Date,
+  to: Date
+): Promise<ModelAnalytics> {
+  const repository = getTelemetryRepository()
+  const modelNames = getModelTelemetryNames(model)
+  const granularity = getAnalyticsGranularity(from, to)
+  const query = { scope, modelNames, from, to }
+
+  const [requests, latency, errorTypes, agents] = await Promise.all([
+    repository.getModelRequests({ ...query, granularity }),
+    repository.getModelLatency(query),
+    repository.getModelErrors(query),
+    repository.getModelAgentUsage(query),
+  ])
+
+  return buildModelAnalytics({ requests, latency, errorTypes, agents, modelNames, from, to, granularity })
+}
@@ -0,0 +1,322 @@
+/**
+ * Model Pricing
+ *
+ * Token prices come from the `costTracking` spec of the LanguageModel resource
+ * matching the model name recorded on telemetry spans. Changes made through
+ * the dashboard are kept as price versions, so usage is priced at the rates in
+ * effect when it happened. For reporting, prices are converted into the
+ * organization's reporting currency with its exchange rates.
+ */
+
+import { db } from '@/lib/db'
+import { k8sClient } from '@/lib/k8s-client'
+import { convertCurrency, type ExchangeRate } from '@/lib/currency'
+import type { CostTracking } from '@/types/model'
+
+export interface ModelPricing {
+  // Per 1,000 tokens
+  inputTokenCost: number
+  outputTokenCost: number
+  currency: string
+}
+
+export interface ModelPriceVersion {
+  effectiveFrom: Date
+  // Null while cost tracking was off
+  pricing: ModelPricing | null
+}
+
+// Price versions by telemetry model name, oldest first; missing models are unpriced
+export type ModelPriceHistory = Record<string, ModelPriceVersion[] | undefined>
+
+export interface ReportingPriceHistory {
+  // Currency every price has been converted into
+  currency: string
+  pricing: ModelPriceHistory
+  // Model price currencies with no exchange rate, whose prices were dropped
+  missingRates: string[]
+}
+
+// Price version row as stored in Prisma
+interface ModelPriceVersionRecord {
+  modelName: string
+  enabled: boolean
+  inputTokenCost: number
+  outputTokenCost: number
+  currency: string
+  effectiveFrom: Date
+}
+
+// Cache for model pricing data
+const modelPricingCache = new Map<string, ModelPricing & { timestamp: number }>()
+
+// Cache for 5 minutes
+const PRICING_CACHE_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Normalize a telemetry model name for Kubernetes resource lookup
+ * e.g., "qwen3-coder:30b" -> "qwen3-coder-30b"
+ */
+export function normalizeModelName(telemetryModelName: string): string {
+  return telemetryModelName.replace(/:/g, '-')
+}
+
+/**
+ * Get token pricing for a model
+ * @throws If the LanguageModel doesn't exist or doesn't track costs
+ */
+export async function getModelPricing(telemetryModelName: string, namespace: string): Promise<ModelPricing> {
+  const k8sModelName = normalizeModelName(telemetryModelName)
+  const cacheKey = `${namespace}:${k8sModelName}`
+  const cached = modelPricingCache.get(cacheKey)
+
+  if (cached && Date.now() - cached.timestamp < PRICING_CACHE_TTL_MS) {
+    return { inputTokenCost: cached.inputTokenCost, outputTokenCost: cached.outputTokenCost, currency: cached.currency }
+  }
+
+  const model = await k8sClient.getLanguageModel(namespace, k8sModelName)
+
+  if (!model) {
+    throw new Error(`LanguageModel '${k8sModelName}' (telemetry: '${telemetryModelName}') not found in namespace '${namespace}'`)
+  }
+
+  if (!model.spec.costTracking?.enabled) {
+    throw new Error(`Cost tracking not enabled for model '${k8sModelName}'`)
+  }
+
+  const pricing = {
+    inputTokenCost: model.spec.costTracking.inputTokenCost,
+    outputTokenCost: model.spec.costTracking.outputTokenCost,
+    currency: model.spec.costTracking.currency || 'USD'
+  }
+
+  modelPricingCache.set(cacheKey, {
+    ...pricing,
+    timestamp: Date.now()
+  })
+
+  return pricing
+}
+
+/**
+ * Cost of a number of input and output tokens
+ */
+export function calculateTokenCost(pricing: ModelPricing, inputTokens: number, outputTokens: number): number {
+  return (inputTokens * pricing.inputTokenCost / 1000) + (outputTokens * pricing.outputTokenCost / 1000)
+}
+
+/**
+ * Pricing described by a LanguageModel's cost tracking spec
+ * @returns The pricing, or null if cost tracking is off
+ */
+export function toModelPricing(costTracking?: CostTracking): ModelPricing | null {
+  if (!costTracking?.enabled) {
+    return null
+  }
+  return {
+    inputTokenCost: costTracking.inputTokenCost || 0,
+    outputTokenCost: costTracking.outputTokenCost || 0,
+    currency: costTracking.currency || 'USD',
+  }
+}
+
+function samePricing(a: ModelPricing | null, b: ModelPricing | null): boolean {
+  return a === b || (!!a && !!b
+    && a.inputTokenCost === b.inputTokenCost
+    && a.outputTokenCost === b.outputTokenCost
+    && a.currency === b.currency)
+}
+
+function toPriceVersion(record: ModelPriceVersionRecord): ModelPriceVersion {
+  return {
+    effectiveFrom: record.effectiveFrom,
+    pricing: record.enabled
+      ? { inputTokenCost: record.inputTokenCost, outputTokenCost: record.outputTokenCost, currency: record.currency }
+      : null,
+  }
+}
+
+/**
+ * Record a model's new price if an edit changed its cost tracking. The first
+ * recorded change also records the price it replaced, effective from when the
+ * model was created.
+ */
+export async function recordModelPriceChange({ organizationId, modelName, previous, current, modelCreatedAt, userId, now = new Date() }: {
+  organizationId: string
+  // LanguageModel resource name
+  modelName: string
+  previous?: CostTracking
+  current?: CostTracking
+  modelCreatedAt?: Date
+  userId: string
+  now?: Date
+}): Promise<void> {
+  const latest: ModelPriceVersionRecord | null = await db.modelPriceVersion.findFirst({
+    where: { organizationId, modelName },
+    orderBy: { effectiveFrom: 'desc' },
+  })
+  const latestPricing = latest ? toPriceVersion(latest).pricing : toModelPricing(previous)
+  const pricing = toModelPricing(current)
+  if (samePricing(latestPricing, pricing)) {
+    return
+  }
+
+  const version = (effectiveFrom: Date, versionPricing: ModelPricing | null, createdById: string | null) => ({
+    organizationId,
+    modelName,
+    enabled: !!versionPricing,
+    inputTokenCost: versionPricing?.inputTokenCost ?? 0,
+    outputTokenCost: versionPricing?.outputTokenCost ?? 0,
+    currency: versionPricing?.currency ?? previous?.currency ?? 'USD',
+    effectiveFrom,
+    createdById,
+  })
+
+  await db.modelPriceVersion.createMany({
+    data: [
+      ...(latest ? [] : [version(modelCreatedAt || new Date(0), latestPricing, null)]),
+      version(now, pricing, userId),
+    ],
+  })
+
+  // Cost queries should see the new price straight away
+  Array.from(modelPricingCache.keys())
+    .filter(key => key.endsWith(`:${modelName}`))
+    .forEach(key => modelPricingCache.delete(key))
+}
+
+/**
+ * Price versions for each of the models. Models without recorded versions use
+ * their current pricing for all time, and models that can't be priced are
+ * left out rather than failing the whole lookup.
+ */
+export async function getModelPriceHistory(
+  telemetryModelNames: string[],
+  organization: { id: string; namespace: string }
+): Promise<ModelPriceHistory> {
+  const models = [...new Set(telemetryModelNames)].filter(Boolean)
+  if (models.length === 0) {
+    return {}
+  }
+
+  const records: ModelPriceVersionRecord[] = await db.modelPriceVersion.findMany({
+    where: { organizationId: organization.id, modelName: { in: models.map(normalizeModelName) } },
+    orderBy: { effectiveFrom: 'asc' },
+  })
+
+  const history: ModelPriceHistory = {}
+  await Promise.all(models.map(async (model) => {
+    const versions = records.filter(record => record.modelName === normalizeModelName(model))
+    if (versions.length > 0) {
+      history[model] = versions.map(toPriceVersion)
+      return
+    }
+
+    try {
+      history[model] = [{ effectiveFrom: new Date(0), pricing: await getModelPricing(model, organization.namespace) }]
+    } catch (error) {
+      console.warn(`No pricing for model ${model}:`, error instanceof Error ? error.message : String(error))
+    }
+  }))
+  return history
+}
+
+/**
+ * Convert a price history into one currency, so costs of models priced in
+ * different currencies can be summed. Prices with no exchange rate are
+ * dropped, leaving that usage unpriced.
+ */
+export function convertPriceHistory(history: ModelPriceHistory, currency: string, rates: ExchangeRate[]): ReportingPriceHistory {
+  const missingRates = new Set<string>()
+  const convert = (pricing: ModelPricing | null): ModelPricing | null => {
+    if (!pricing) {
+      return null
+    }
+    const inputTokenCost = convertCurrency(pricing.inputTokenCost, pricing.currency, currency, rates)
+    const outputTokenCost = convertCurrency(pricing.outputTokenCost, pricing.currency, currency, rates)
+    if (inputTokenCost === null || outputTokenCost === null) {
+      missingRates.add(pricing.currency)
+      return null
+    }
+    return { inputTokenCost, outputTokenCost, currency }
+  }
+
+  const pricing: ModelPriceHistory = Object.fromEntries(
+    Object.entries(history).map(([model, versions]) => [
+      model,
+      versions?.map(version => ({ effectiveFrom: version.effectiveFrom, pricing: convert(version.pricing) })),
+    ])
+  )
+  return { currency, pricing, missingRates: [...missingRates].sort() }
+}
+
+/**
+ * Price history of models in the organization's reporting currency
+ */
+export async function getReportingPriceHistory(
+  telemetryModelNames: string[],
+  organization: { id: string; namespace: string }
+): Promise<ReportingPriceHistory> {
+  const [history, settings, rates] = await Promise.all([
+    getModelPriceHistory(telemetryModelNames, organization),
+    db.organization.findUnique({ where: { id: organization.id }, select: { reportingCurrency: true } }),
+    db.exchangeRate.findMany({ where: { organizationId: organization.id } }) as Promise<ExchangeRate[]>,
+  ])
+
+  const converted = convertPriceHistory(history, settings?.reportingCurrency || 'USD', rates)
+  if (converted.missingRates.length > 0) {
+    console.warn(`No exchange rate to ${converted.currency} for ${converted.missingRates.join(', ')}; that usage is unpriced`)
+  }
+  return converted
+}
+
+/**
+ * Pricing in effect for a model at a point in time; usage from before the
+ * first version uses the earliest known price
+ */
+export function getPricingAt(history: ModelPriceHistory, model: string, at: Date): ModelPricing | undefined {
+  const versions = history[model]
+  if (!versions?.length) {
+    return undefined
+  }
+  const version = versions.filter(candidate => candidate.effectiveFrom <= at).pop() || versions[0]
+  return version.pricing ?? undefined
+}
+
+/**
+ * Times any of the organization's model prices changed within a range, oldest
+ * first, for splitting usage buckets so each has a single price
+ */
+export async function getPriceChangeTimes(organizationId: string, from: Date, to: Date): Promise<Date[]> {
+  const records: Array<{ effectiveFrom: Date }> = await db.modelPriceVersion.findMany({
+    where: { organizationId, effectiveFrom: { gt: from, lte: to } },
+    select: { effectiveFrom: true },
+    orderBy: { effectiveFrom: 'asc' },
+  })
+  return [...new Set(records.map(record => record.effectiveFrom.getTime()))].map(time => new Date(time))
+}
+
+export interface ModelPriceTimelineEntry {
+  effectiveFrom: string
+  pricing: ModelPricing | null
+  // Name or email of who made the change; null for the model's original price
+  changedBy: string | null
+}
+
+/**
+ * Recorded price versions of a LanguageModel, newest first
+ */
+export async function getModelPriceTimeline(organizationId: string, modelName: string): Promise<ModelPriceTimelineEntry[]> {
+  const records: Array<ModelPriceVersionRecord & { createdBy: { name: string | null; email: string } | null }> =
+    await db.modelPriceVersion.findMany({
+      where: { organizationId, modelName },
+      orderBy: { effectiveFrom: 'desc' },
+      include: { createdBy: { select: { name: true, email: true } } },
+    })
+
+  return records.map(record => ({
+    effectiveFrom: record.effectiveFrom.toISOString(),
+    pricing: toPriceVersion(record).pricing,
+    changedBy: record.createdBy ? record.createdBy.name || record.createdBy.email : null,
+  }))
+}
@@ -0,0 +1,115 @@
+/**
+ * Organization Cost Service
+ *
+ * Loads token usage from the telemetry repository, model pricing and agent
+ * placement for an organization, and rolls them up into a cost report or
+ * per-execution cost records.
+ */
+
+import { k8sClient } from './k8s-client'
+import type { LanguageAgent } from '@/types/agent'
+import { getTelemetryRepository, type TelemetryGranularity } from './telemetry-repository'
+import { getPriceChangeTimes, getReportingPriceHistory } from './model-pricing'
+import { buildOrganizationCostReport, type OrganizationCostReport } from './organization-cost'
+import { buildCostExportRecords, type CostExportRecord } from './cost-export'
+
+export interface OrganizationCostRequest {
+  from: Date
+  to: Date
+  granularity: TelemetryGranularity
+  top: number
+  // Agents already listed by the caller, to save a second Kubernetes call
+  agents?: LanguageAgent[]
+}
+
+/**
+ * List the LanguageAgents in an organization's namespace
+ * @throws If the agents can't be listed
+ */
+export async function listOrganizationAgents(namespace: string): Promise<LanguageAgent[]> {
+  const response = await k8sClient.listLanguageAgents(namespace) as { items?: LanguageAgent[] }
+  return response?.items || []
+}
+
+// Cluster of each agent, by agent name
+function getAgentClusters(agents: LanguageAgent[]): Record<string, string> {
+  return Object.fromEntries(
+    agents
+      .filter(agent => agent.metadata?.name && agent.spec?.clusterRef)
+      .map(agent => [agent.metadata.name, agent.spec.clusterRef])
+  )
+}
+
+async function listAgentsForAttribution(namespace: string): Promise<LanguageAgent[]> {
+  try {
+    return await listOrganizationAgents(namespace)
+  } catch (error) {
+    // Costs are still reported, just without cluster attribution
+    console.warn('Failed to list agents for cost attribution:', error instanceof Error ? error.message : String(error))
+    return []
+  }
+}
+
+/**
+ * Build the organization's cost report for a time range
+ */
+export async function getOrganizationCostReport(
+  organization: { id: string; namespace: string },
+  { from, to, granularity, top, agents }: OrganizationCostRequest
+): Promise<OrganizationCostReport> {
+  // Buckets are split where a price changed, so usage is priced at the rate in effect when it happened
+  const priceChanges = await getPriceChangeTimes(organization.id, from, to)
+  const [buckets, agentList] = await Promise.all([
+    getTelemetryRepository().getOrganizationUsage({
+      scope: { organizationId: organization.id, namespace: organization.namespace },
+      from,
+      to,
+      granularity,
+      priceChanges,
+    }),
+    agents ? Promise.resolve(agents) : listAgentsForAttribution(organization.namespace),
+  ])
+
+  // Model pricing lives in the organization's namespace
+  const prices = await getReportingPriceHistory(buckets.map(bucket => bucket.modelName), organization)
+
+  return buildOrganizationCostReport(buckets, {
+    from,
+    to,
+    granularity,
+    pricing: prices.pricing,
+    currency: prices.currency,
+    missingExchangeRates: prices.missingRates,
+    agentClusters: getAgentClusters(agentList),
+    top,
+  })
+}
+
+/**
+ * Per-execution cost records of the organization for a time range
+ */
+export async function getOrganizationCostRecords(
+  organization: { id: string; namespace: string; slug: string },
+  { from, to }: { from: Date; to: Date }
+): Promise<{ records: CostExportRecord[]; currency: string }> {
+  const [usage, agentList] = await Promise.all([
+    getTelemetryRepository().getExecutionModelUsage({
+      scope: { organizationId: organization.id, namespace: organization.namespace },
+      from,
+      to,
+    }),
+    listAgentsForAttribution(organization.namespace),
+  ])
+
+  const prices = await getReportingPriceHistory(usage.map(row => row.modelName), organization)
+
+  return {
+    records: buildCostExportRecords(usage, {
+      organization: organization.slug,
+      agentClusters: getAgentClusters(agentList),
+      pricing: prices.pricing,
+      currency: prices.currency,
+    }),
+    currency: prices.currency,
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Organization Cost
+ *
+ * Rolls up LLM token spend across all of an organization's agents, priced
+ * with the same LanguageModel costs as the per-agent cost view, and breaks it
+ * down by cluster, agent, model and task.
+ */
+
+import type { AgentUsageBucket, TelemetryGranularity } from './telemetry-repository'
+import { calculateTokenCost, getPricingAt, type ModelPriceHistory } from './model-pricing'
+
+// Cluster of usage from agents that no longer exist or have no clusterRef
+export const UNASSIGNED_CLUSTER = '(unassigned)'
+
+export interface CostTotals {
+  cost: number
+  inputTokens: number
+  outputTokens: number
+  requests: number
+  errors: number
+}
+
+export interface CostBreakdownEntry extends CostTotals {
+  name: string
+  // Fraction of the organization's total cost, 0 to 1
+  share: number
+}
+
+export interface AgentCostEntry extends CostBreakdownEntry {
+  clusterName: string
+}
+
+export interface TaskCostEntry extends CostBreakdownEntry {
+  agentName: string
+}
+
+export interface CostTimePoint extends CostTotals {
+  timestamp: string
+}
+
+export interface OrganizationCostReport {
+  // Reporting currency every cost is converted into
+  currency: string
+  totals: CostTotals
+  timeSeries: CostTimePoint[]
+  byCluster: CostBreakdownEntry[]
+  byAgent: AgentCostEntry[]
+  byModel: CostBreakdownEntry[]
+  byTask: TaskCostEntry[]
+  // Highest-spending agents, at most `top` of them
+  topAgents: AgentCostEntry[]
+  // Models without pricing for some of their usage, whose tokens there count as zero cost
+  unpricedModels: string[]
+  // Model price currencies with no exchange rate to the reporting currency
+  missingExchangeRates: string[]
+}
+
+export interface OrganizationCostOptions {
+  from: Date
+  to: Date
+  granularity: TelemetryGranularity
+  // Each bucket is priced at the rate in effect at its `pricedAt`, already
+  // converted into the reporting currency
+  pricing: ModelPriceHistory
+  currency: string
+  missingExchangeRates: string[]
+  // Cluster of each agent, by agent name
+  agentClusters: Record<string, string>
+  top: number
+}
+
+interface PricedBucket extends CostTotals {
+  bucket: AgentUsageBucket
+  priced: boolean
+}
+
+function emptyTotals(): CostTotals {
+  return { cost: 0, inputTokens: 0, outputTokens: 0, requests: 0, errors: 0 }
+}
+
+function addTotals(totals: CostTotals, priced: PricedBucket): CostTotals {
+  return {
+    cost: totals.cost + priced.cost,
+    inputTokens: totals.inputTokens + priced.inputTokens,
+    outputTokens: totals.outputTokens + priced.outputTokens,
+    requests: totals.requests + priced.requests,
+    errors: totals.errors + priced.errors,
+  }
+}
+
+function sumBy(priced: PricedBucket[], key: (priced: PricedBucket) => string): Map<string, CostTotals> {
+  const sums = new Map<string, CostTotals>()
+  priced.forEach(item => {
+    const k = key(item)
+    sums.set(k, addTotals(sums.get(k) || emptyTotals(), item))
+  })
+  return sums
+}
+
+// Start of every UTC hour or day bucket in the range, as ClickHouse buckets them
+function intervalsBetween(from: Date, to: Date, granularity: TelemetryGranularity): string[] {
+  const step = granularity === 'hour' ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000
+  const intervals: string[] = []
+  for (let time = Math.floor(from.getTime() / step) * step; time <= to.getTime(); time += step) {
+    intervals.push(new Date(time).toISOString())
+  }
+  return intervals
+}
+
+// Highest cost first, then most tokens, then by name
+function byCost(a: CostBreakdownEntry, b: CostBreakdownEntry): number {
+  return b.cost - a.cost
+    || (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens)
+    || a.name.localeCompare(b.name)
+}
+
+/**
+ * Build the cost report from usage buckets
+ */
+export function buildOrganizationCostReport(
+  buckets: AgentUsageBucket[],
+  { from, to, granularity, pricing, currency, missingExchangeRates, agentClusters, top }: OrganizationCostOptions
+): OrganizationCostReport {
+  const priced: PricedBucket[] = buckets.map((bucket) => {
+    const modelPricing = getPricingAt(pricing, bucket.modelName, bucket.pricedAt)
+    return {
+      bucket,
+      priced: !!modelPricing,
+      cost: modelPricing ? calculateTokenCost(modelPricing, bucket.inputTokens, bucket.outputTokens) : 0,
+      inputTokens: bucket.inputTokens,
+      outputTokens: bucket.outputTokens,
+      requests: bucket.spanCount,
+      errors: bucket.errorCount,
+    }
+  })
+
+  const totals = priced.reduce(addTotals, emptyTotals())
+  const entry = (name: string, sums: CostTotals): CostBreakdownEntry => ({
+    name,
+    ...sums,
+    share: totals.cost > 0 ? sums.cost / totals.cost : 0,
+  })
+  const clusterOf = (agentName: string) => agentClusters[agentName] || UNASSIGNED_CLUSTER
+
+  const byAgent = Array.from(sumBy(priced, item => item.bucket.agentName).entries())
+    .map(([agentName, sums]): AgentCostEntry => ({ ...entry(agentName, sums), clusterName: clusterOf(agentName) }))
+    .sort(byCost)
+
+  // Task names are only unique within an agent
+  const byTask = Array.from(sumBy(priced.filter(item => item.bucket.taskName), item => JSON.stringify([item.bucket.agentName, item.bucket.taskName])).entries())
+    .map(([key, sums]): TaskCostEntry => {
+      const [agentName, taskName] = JSON.parse(key) as [string, string]
+      return { ...entry(taskName, sums), agentName }
+    })
+    .sort(byCost)
+
+  const unpricedModels = new Set(priced
+    .filter(item => item.bucket.modelName && !item.priced)
+    .map(item => item.bucket.modelName))
+  const costByInterval = sumBy(priced, item => item.bucket.interval.toISOString())
+
+  return {
+    currency,
+    totals,
+    // Zero-filled so charts get every interval in the range
+    timeSeries: intervalsBetween(from, to, granularity)
+      .map(timestamp => ({ timestamp, ...(costByInterval.get(timestamp) || emptyTotals()) })),
+    byCluster: Array.from(sumBy(priced, item => clusterOf(item.bucket.agentName)).entries())
+      .map(([clusterName, sums]) => entry(clusterName, sums))
+      .sort(byCost),
+    byAgent,
+    byModel: Array.from(sumBy(priced.filter(item => item.bucket.modelName), item => item.bucket.modelName).entries())
+      .map(([modelName, sums]) => entry(modelName, sums))
+      .sort(byCost),
+    byTask,
+    topAgents: byAgent.slice(0, top),
+    unpricedModels: [...unpricedModels].sort(),
+    missingExchangeRates,
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * OTLP/JSON Traces
+ *
+ * Builds OpenTelemetry OTLP/JSON documents from telemetry spans for the trace
+ * viewer and for download, and reads OTLP/JSON files back so exported traces
+ * can be viewed without ClickHouse.
+ */
+
+import { z } from 'zod'
+import type { TelemetrySpan } from './telemetry-repository'
+
+export interface OtlpAttributeValue {
+  stringValue?: string
+  intValue?: string
+  doubleValue?: number
+  boolValue?: boolean
+  arrayValue?: { values: OtlpAttributeValue[] }
+  kvlistValue?: { values: OtlpAttribute[] }
+}
+
+export interface OtlpAttribute {
+  key: string
+  value: OtlpAttributeValue
+}
+
+export interface OtlpEvent {
+  timeUnixNano: string
+  name: string
+  attributes: OtlpAttribute[]
+}
+
+export interface OtlpSpan {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  kind: number
+  startTimeUnixNano: string
+  endTimeUnixNano: string
+  attributes: OtlpAttribute[]
+  events: OtlpEvent[]
+  status: {
+    code: string
+    message?: string
+  }
+}
+
+export interface OtlpDocument {
+  resourceSpans: {
+    resource: {
+      attributes: OtlpAttribute[]
+    }
+    scopeSpans: {
+      scope: {
+        name: string
+        version?: string
+      }
+      spans: OtlpSpan[]
+    }[]
+  }[]
+}
+
+// OTLP span kind numbers, keyed by ClickHouse SpanKind names ("Server" or "SPAN_KIND_SERVER")
+const SPAN_KINDS: Record<string, number> = {
+  INTERNAL: 1,
+  SERVER: 2,
+  CLIENT: 3,
+  PRODUCER: 4,
+  CONSUMER: 5,
+}
+
+// Status codes by their OTLP enum number
+const STATUS_CODES = ['STATUS_CODE_UNSET', 'STATUS_CODE_OK', 'STATUS_CODE_ERROR']
+
+// Resource attribute naming the pod that recorded a resource's spans
+const POD_NAME_ATTRIBUTE = 'k8s.pod.name'
+
+export function toOtlpAttributes(attributes: Record<string, unknown>): OtlpAttribute[] {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: typeof value === 'string' ? { stringValue: value } :
+           typeof value === 'number' ? { intValue: value.toString() } :
+           typeof value === 'boolean' ? { boolValue: value } :
+           { stringValue: String(value) }
+  }))
+}
+
+function fromOtlpValue(value: OtlpAttributeValue): string | number | boolean {
+  if (value.stringValue !== undefined) return value.stringValue
+  // Kept as a string, since 64-bit integers don't fit in a number
+  if (value.intValue !== undefined) return value.intValue
+  if (value.doubleValue !== undefined) return value.doubleValue
+  if (value.boolValue !== undefined) return value.boolValue
+  if (value.arrayValue) return JSON.stringify(value.arrayValue.values.map(fromOtlpValue))
+  if (value.kvlistValue) return JSON.stringify(fromOtlpAttributes(value.kvlistValue.values))
+  return ''
+}
+
+/**
+ * Flatten OTLP attributes into a plain record; arrays and maps become JSON strings
+ */
+export function fromOtlpAttributes(attributes: OtlpAttribute[]): Record<string, string | number | boolean> {
+  return Object.fromEntries(attributes.map(attribute => [attribute.key, fromOtlpValue(attribute.value)]))
+}
+
+function getSpanKind(spanKind: string): number {
+  return SPAN_KINDS[spanKind.toUpperCase().replace(/^SPAN_KIND_/, '')] || SPAN_KINDS.INTERNAL
+}
+
+function getStatusCode(statusCode: string): string {
+  // AgentPrism expects string status codes, not numeric
+  return STATUS_CODES.includes(statusCode) ? statusCode : 'STATUS_CODE_UNSET'
+}
+
+function toOtlpSpan(span: TelemetrySpan): OtlpSpan {
+  return {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    parentSpanId: span.parentSpanId || undefined,
+    name: span.spanName,
+    kind: getSpanKind(span.spanKind),
+    startTimeUnixNano: span.startTimeUnixNano,
+    endTimeUnixNano: span.endTimeUnixNano,
+    attributes: toOtlpAttributes(span.attributes),
+    events: span.events.map((event) => ({
+      timeUnixNano: event.timeUnixNano,
+      name: event.name,
+      attributes: toOtlpAttributes(event.attributes)
+    })),
+    status: {
+      code: getStatusCode(span.statusCode),
+      message: span.statusMessage || undefined
+    }
+  }
+}
+
+/**
+ * Build an OTLP document holding the spans of one agent trace, with a
+ * resource for each pod that recorded spans
+ */
+export function buildOtlpDocument(
+  spans: TelemetrySpan[],
+  resource: { agentName: string; clusterName: string }
+): OtlpDocument {
+  const spansByPod = new Map<string | null, TelemetrySpan[]>()
+  for (const span of spans) {
+    spansByPod.set(span.podName, [...(spansByPod.get(span.podName) || []), span])
+  }
+
+  return {
+    resourceSpans: Array.from(spansByPod, ([podName, podSpans]) => ({
+      resource: {
+        attributes: toOtlpAttributes({
+          'service.name': resource.agentName,
+          'service.namespace': resource.clusterName,
+          ...(podName ? { [POD_NAME_ATTRIBUTE]: podName } : {})
+        })
+      },
+      scopeSpans: [
+        {
+          scope: {
+            name: 'language-operator',
+            version: '1.0.0'
+          },
+          spans: podSpans.map(toOtlpSpan)
+        }
+      ]
+    }))
+  }
+}
+
+// Exporters write 64-bit integers as strings or numbers
+const unixNanoSchema = z.union([z.string().regex(/^\d+$/), z.number().int().nonnegative()]).transform(String)
+
+const attributeValueSchema: z.ZodType<OtlpAttributeValue> = z.lazy(() => z.object({
+  stringValue: z.string().optional(),
+  intValue: z.union([z.string(), z.number()]).transform(String).optional(),
+  doubleValue: z.number().optional(),
+  boolValue: z.boolean().optional(),
+  arrayValue: z.object({ values: z.array(attributeValueSchema).default([]) }).optional(),
+  kvlistValue: z.object({ values: z.array(attributeSchema).default([]) }).optional(),
+}))
+
+const attributeSchema: z.ZodType<OtlpAttribute> = z.lazy(() => z.object({
+  key: z.string(),
+  value: attributeValueSchema.default({}),
+}))
+
+const attributesSchema = z.array(attributeSchema).default([])
+
+const spanSchema = z.object({
+  traceId: z.string().min(1),
+  spanId: z.string().min(1),
+  parentSpanId: z.string().optional().transform(id => id || undefined),
+  name: z.string(),
+  kind: z.union([z.number(), z.string()]).optional()
+    .transform(kind => typeof kind === 'string' ? getSpanKind(kind) : kind ?? SPAN_KINDS.INTERNAL),
+  startTimeUnixNano: unixNanoSchema,
+  endTimeUnixNano: unixNanoSchema,
+  attributes: attributesSchema,
+  events: z.array(z.object({
+    timeUnixNano: unixNanoSchema,
+    name: z.string(),
+    attributes: attributesSchema,
+  })).default([]),
+  status: z.object({
+    code: z.union([z.number(), z.string()]).optional()
+      .transform(code => getStatusCode(typeof code === 'number' ? STATUS_CODES[code] : code ?? '')),
+    message: z.string().optional(),
+  }).default({ code: 'STATUS_CODE_UNSET' }),
+})
+
+const documentSchema = z.object({
+  resourceSpans: z.array(z.object({
+    resource: z.object({ attributes: attributesSchema }).default({ attributes: [] }),
+    scopeSpans: z.array(z.object({
+      scope: z.object({ name: z.string().default(''), version: z.string().optional() }).default({ name: '' }),
+      spans: z.array(spanSchema).default([]),
+    })).default([]),
+  })),
+})
+
+/**
+ * Read an OTLP/JSON trace file, either a single document or JSON Lines as
+ * written by the collector's file exporter
+ * @throws If the file isn't OTLP/JSON or holds no spans
+ */
+export function parseOtlpFile(contents: string): OtlpDocument {
+  let documents: unknown[]
+  try {
+    documents = [JSON.parse(contents)]
+  } catch {
+    try {
+      documents = contents.split('\n').filter(line => line.trim()).map(line => JSON.parse(line))
+    } catch {
+      throw new Error('File is not valid JSON')
+    }
+  }
+
+  const resourceSpans = documents.flatMap((document) => {
+    const result = documentSchema.safeParse(document)
+    if (!result.success) {
+      const issue = result.error.issues[0]
+      throw new Error(`Not an OTLP/JSON trace: ${issue.path.join('.') || 'document'} ${issue.message}`)
+    }
+    return result.data.resourceSpans
+  })
+
+  const document = { resourceSpans }
+  if (getOtlpSpans(document).length === 0) {
+    throw new Error('File contains no spans')
+  }
+  return document
+}
+
+/**
+ * All spans in a document, across resources and scopes
+ */
+export function getOtlpSpans(document: OtlpDocument): OtlpSpan[] {
+  return document.resourceSpans.flatMap(resourceSpan =>
+    resourceSpan.scopeSpans.flatMap(scopeSpan => scopeSpan.spans)
+  )
+}
+
+/**
+ * The pod each span was recorded in, keyed by span id. Spans whose resource
+ * doesn't name a pod are left out.
+ */
+export function getOtlpSpanPods(document: OtlpDocument): Map<string, string> {
+  const pods = new Map<string, string>()
+  for (const resourceSpan of document.resourceSpans) {
+    const podName = fromOtlpAttributes(resourceSpan.resource.attributes)[POD_NAME_ATTRIBUTE]
+    if (typeof podName !== 'string' || !podName) {
+      continue
+    }
+    for (const scopeSpan of resourceSpan.scopeSpans) {
+      for (const span of scopeSpan.spans) {
+        pods.set(span.spanId, podName)
+      }
+    }
+  }
+  return pods
+}
@@ -1,11 +1,12 @@
 import { db } from './db'
+import { getPlatformAdminEmails } from './env'
 
-export type Permission = 'view' | 'create' | 'edit' | 'delete' | 'manage_members' | 'delete_org' | 'manage_billing'
+export type Permission = 'view' | 'create' | 'edit' | 'delete' | 'manage_members' | 'manage_settings' | 'delete_org' | 'manage_billing'
 export type Role = 'owner' | 'admin' | 'editor' | 'viewer'
 
 const rolePermissions: Record<Role, Permission[]> = {
-  owner: ['view', 'create', 'edit', 'delete', 'manage_members', 'delete_org', 'manage_billing'],
-  admin: ['view', 'create', 'edit', 'delete', 'manage_members'],
+  owner: ['view', 'create', 'edit', 'delete', 'manage_members', 'manage_settings', 'delete_org', 'manage_billing'],
+  admin: ['view', 'create', 'edit', 'delete', 'manage_members', 'manage_settings'],
   editor: ['view', 'create', 'edit', 'delete'],
   viewer: ['view'],
 }
@@ -28,6 +29,13 @@ export async function requirePermission(
   return permissions?.includes(permission) ?? false
 }
 
+/**
+ * Check if a user administers the platform itself, across organizations
+ */
+export function isPlatformAdmin(email: string | null | undefined): boolean {
+  return !!email && getPlatformAdminEmails().includes(email.toLowerCase())
+}
+
 /**
  * Get all organizations a user is a member of
  */
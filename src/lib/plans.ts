@@ -0,0 +1,132 @@
+/**
+ * Plans
+ *
+ * The one definition of each plan: what it is called and costs, and the
+ * ResourceQuota its organizations get. The Kubernetes client creates quotas
+ * from it and the UI reads it from `/api/plans`.
+ */
+
+export const PLAN_IDS = ['free', 'pro', 'enterprise'] as const
+
+export type PlanId = typeof PLAN_IDS[number]
+
+export interface PlanDefinition {
+  id: PlanId
+  name: string
+  description: string
+  price: string
+  // Highlighted as the standard choice
+  popular: boolean
+  callToAction: string
+  // ResourceQuota `hard` limits
+  quota: Record<string, string>
+}
+
+export const PLANS: PlanDefinition[] = [
+  {
+    id: 'free',
+    name: 'Pioneer',
+    description: 'Perfect for exploration and learning',
+    price: '$0/mo',
+    popular: false,
+    callToAction: 'Current Plan',
+    quota: {
+      'count/languageagents': '2',
+      'count/languagemodels': '2',
+      'count/languagetools': '5',
+      'count/languagepersonas': '3',
+      'count/languageclusters': '1',
+      'requests.cpu': '1000m',
+      'requests.memory': '2Gi',
+      'limits.cpu': '2000m',
+      'limits.memory': '4Gi',
+    },
+  },
+  {
+    id: 'pro',
+    name: 'Homesteader',
+    description: 'Scaled operations with advanced capabilities',
+    price: '$49/month',
+    popular: true,
+    callToAction: 'Expand Your Horizon',
+    quota: {
+      'count/languageagents': '20',
+      'count/languagemodels': '10',
+      'count/languagetools': '50',
+      'count/languagepersonas': '20',
+      'count/languageclusters': '5',
+      'requests.cpu': '10000m',
+      'requests.memory': '20Gi',
+      'limits.cpu': '20000m',
+      'limits.memory': '40Gi',
+    },
+  },
+  {
+    id: 'enterprise',
+    name: 'Landowner',
+    description: 'Large-scale operations with priority support',
+    price: 'Custom',
+    popular: false,
+    callToAction: 'Claim The Territory',
+    quota: {
+      'count/languageagents': '100',
+      'count/languagemodels': '50',
+      'count/languagetools': '200',
+      'count/languagepersonas': '100',
+      'count/languageclusters': '20',
+      'requests.cpu': '50000m',
+      'requests.memory': '100Gi',
+      'limits.cpu': '100000m',
+      'limits.memory': '200Gi',
+    },
+  },
+]
+
+export function isPlanId(plan: string): plan is PlanId {
+  return (PLAN_IDS as readonly string[]).includes(plan)
+}
+
+/**
+ * A plan by ID; unknown plans get the free plan
+ */
+export function getPlan(plan: string): PlanDefinition {
+  return PLANS.find(definition => definition.id === plan.toLowerCase()) || PLANS[0]
+}
+
+/**
+ * The plan after this one, or null on the highest plan and custom quotas
+ */
+export function getNextPlan(plan: string): PlanDefinition | null {
+  const index = PLANS.findIndex(definition => definition.id === plan)
+  return index >= 0 ? PLANS[index + 1] || null : null
+}
+
+/**
+ * ResourceQuota `hard` limits of a plan
+ */
+export function getPlanQuotaSpec(plan: string): Record<string, string> {
+  return { ...getPlan(plan).quota }
+}
+
+export const QUOTA_REQUEST_STATUSES = ['pending', 'approved', 'rejected', 'cancelled'] as const
+
+export type QuotaRequestStatus = typeof QUOTA_REQUEST_STATUSES[number]
+
+/**
+ * An owner's request for another plan or a custom quota, for platform admins to review
+ */
+export interface QuotaRequestSummary {
+  id: string
+  organization: { id: string; name: string; plan: string }
+  // Null for a custom quota
+  plan: PlanId | null
+  // Requested ResourceQuota limits of a custom quota
+  quotas: Record<string, string> | null
+  message: string | null
+  status: QuotaRequestStatus
+  requestedBy: string | null
+  reviewedBy: string | null
+  reviewNote: string | null
+  reviewedAt: string | null
+  createdAt: string
+}
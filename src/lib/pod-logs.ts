@@ -0,0 +1,195 @@
+/**
+ * Pod Logs
+ *
+ * Reads the output of several pods at once and interleaves it by timestamp,
+ * for resources scaled to more than one replica. Each line is tagged with the
+ * pod it came from.
+ */
+
+import type { V1Pod } from '@kubernetes/client-node'
+import { k8sClient } from './k8s-client'
+import { parseLogLine, selectUnarchivedLines, type ParsedLogLine } from './log-archive'
+import type { PodLogLine } from '@/types/logs'
+
+// How often a merged stream reads new output
+const STREAM_POLL_INTERVAL_MS = 2000
+
+export interface PodLogSource {
+  podName: string
+  // Omitted for single-container pods
+  container?: string
+}
+
+export interface PodLogOutput {
+  podName: string
+  output: string
+}
+
+/**
+ * The container a tool writes from: the pod's main container for a service
+ * tool, or the tool's sidecar container in an agent pod
+ */
+export function selectToolContainer(pod: V1Pod, toolName: string, deploymentMode: string): string | undefined {
+  const containers = pod.spec?.containers || []
+  if (deploymentMode !== 'sidecar') {
+    return containers[0]?.name
+  }
+
+  // Check both regular and init containers
+  const allContainers = [...containers, ...(pod.spec?.initContainers || [])]
+  const toolContainer = allContainers.find(c => c.name?.includes(toolName) || c.image?.includes(toolName))
+    // Common sidecar container naming patterns
+    || allContainers.find(c => c.name?.startsWith('tool-') || c.name?.endsWith(`-${toolName}`))
+  return toolContainer?.name || containers[0]?.name
+}
+
+/**
+ * Interleave the output of several pods by timestamp. A line without a
+ * timestamp stays after the line before it from the same pod.
+ */
+export function mergePodLogs(outputs: PodLogOutput[]): PodLogLine[] {
+  const lines: Array<PodLogLine & { time: number }> = []
+
+  for (const { podName, output } of outputs) {
+    let time = 0
+    for (const raw of output.split('\n')) {
+      if (!raw.trim()) {
+        continue
+      }
+      const parsed = parseLogLine(raw)
+      if (parsed) {
+        time = parsed.timestamp.getTime()
+      }
+      lines.push({
+        podName,
+        timestamp: parsed ? parsed.timestamp.toISOString() : null,
+        message: parsed ? parsed.message : raw,
+        time,
+      })
+    }
+  }
+
+  // Array sort is stable, so each pod's lines keep their order within a timestamp
+  return lines
+    .sort((a, b) => a.time - b.time)
+    .map(({ podName, timestamp, message }) => ({ podName, timestamp, message }))
+}
+
+/**
+ * Read each pod's output. Pods that can't be read (e.g. not started yet) are
+ * left out rather than failing the rest.
+ */
+export async function readPodLogs(
+  namespace: string,
+  sources: PodLogSource[],
+  options: { tailLines: number; sinceSeconds?: number }
+): Promise<PodLogOutput[]> {
+  const results = await Promise.allSettled(sources.map(async source => ({
+    podName: source.podName,
+    output: await k8sClient.getPodLogs(namespace, source.podName, {
+      container: source.container,
+      timestamps: true,
+      tailLines: options.tailLines,
+      sinceSeconds: options.sinceSeconds,
+    }),
+  })))
+
+  return results.flatMap((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Failed to read logs of pod ${sources[index].podName}:`, result.reason)
+      return []
+    }
+    return [result.value]
+  })
+}
+
+/**
+ * Server-Sent Events of the pods' merged output: the last lines of each pod,
+ * then new lines as they are written. Each event is a JSON `PodLogLine`.
+ */
+export function createMergedLogStream(
+  namespace: string,
+  sources: PodLogSource[],
+  signal: AbortSignal,
+  options: { tailLines: number } = { tailLines: 10 }
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  // Last line sent per pod, so re-read output isn't sent twice
+  const lastSent = new Map<string, { timestamp: Date; messages: string[] }>()
+  let interval: ReturnType<typeof setInterval> | null = null
+  let lastReadAt = Date.now()
+  let closed = false
+
+  const send = (controller: ReadableStreamDefaultController<Uint8Array>, outputs: PodLogOutput[]) => {
+    const unsent = outputs.map(({ podName, output }) => {
+      const lines = output.split('\n').map(parseLogLine).filter((line): line is ParsedLogLine => line !== null)
+      const fresh = selectUnarchivedLines(lines, lastSent.get(podName) || null)
+      if (fresh.length > 0) {
+        const timestamp = fresh[fresh.length - 1].timestamp
+        const previous = lastSent.get(podName)
+        const carried = previous && previous.timestamp.getTime() === timestamp.getTime() ? previous.messages : []
+        lastSent.set(podName, {
+          timestamp,
+          messages: [...carried, ...fresh.filter(line => line.timestamp.getTime() === timestamp.getTime()).map(line => line.message)],
+        })
+      }
+      return { podName, output: fresh.map(line => `${line.timestamp.toISOString()} ${line.message}`).join('\n') }
+    })
+
+    for (const line of mergePodLogs(unsent)) {
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify(line)}\n\n`))
+    }
+  }
+
+  const close = (controller: ReadableStreamDefaultController<Uint8Array>) => {
+    if (closed) {
+      return
+    }
+    closed = true
+    if (interval) {
+      clearInterval(interval)
+    }
+    controller.close()
+  }
+
+  return new ReadableStream({
+    async start(controller) {
+      signal.addEventListener('abort', () => close(controller))
+
+      lastReadAt = Date.now()
+      const initial = await readPodLogs(namespace, sources, { tailLines: options.tailLines })
+      // The client may have gone while the pods were read
+      if (closed) {
+        return
+      }
+      send(controller, initial)
+
+      let polling = false
+      interval = setInterval(async () => {
+        // A slow read isn't overlapped by the next one
+        if (polling || closed) {
+          return
+        }
+        polling = true
+        try {
+          const readAt = Date.now()
+          // sinceSeconds is whole seconds, so output from just before the last read is read again
+          const sinceSeconds = Math.ceil((readAt - lastReadAt) / 1000) + 1
+          const outputs = await readPodLogs(namespace, sources, { tailLines: 1000, sinceSeconds })
+          lastReadAt = readAt
+          if (!closed) {
+            send(controller, outputs)
+          }
+        } finally {
+          polling = false
+        }
+      }, STREAM_POLL_INTERVAL_MS)
+    },
+    cancel() {
+      closed = true
+      if (interval) {
+        clearInterval(interval)
+      }
+    },
+  })
+}
@@ -0,0 +1,135 @@
+/**
+ * Quota Guard
+ *
+ * Checks an organization's ResourceQuota before a resource is created, so a
+ * create that would exceed it fails with an error naming the exhausted quota
+ * instead of a raw Kubernetes 403. When the quota can't be read the create goes
+ * ahead and Kubernetes still enforces it.
+ */
+
+import type { V1ResourceRequirements } from '@kubernetes/client-node'
+import { k8sClient } from './k8s-client'
+import { QuotaExceededError } from './api-error-handler'
+import { QUOTA_LABELS } from '@/types/quota'
+
+export type QuotaCountResource =
+  | 'count/languageagents'
+  | 'count/languagemodels'
+  | 'count/languagetools'
+  | 'count/languagepersonas'
+  | 'count/languageclusters'
+
+/**
+ * What creating one resource adds to the quota
+ */
+export interface QuotaDemand {
+  // The count the resource adds one to
+  count: QuotaCountResource
+  // Resources of each of the workload's pods
+  resources?: V1ResourceRequirements
+  replicas?: number
+}
+
+export interface ExhaustedQuota {
+  resource: string
+  used: string
+  limit: string
+  requested: string
+}
+
+type QuotaUsage = { quota: Record<string, string>; used: Record<string, string> }
+
+const POD_RESOURCES = [
+  { resource: 'requests.cpu', field: 'requests', name: 'cpu' },
+  { resource: 'requests.memory', field: 'requests', name: 'memory' },
+  { resource: 'limits.cpu', field: 'limits', name: 'cpu' },
+  { resource: 'limits.memory', field: 'limits', name: 'memory' },
+] as const
+
+const BINARY_SUFFIXES: Record<string, number> = { Ki: 2 ** 10, Mi: 2 ** 20, Gi: 2 ** 30, Ti: 2 ** 40, Pi: 2 ** 50 }
+const DECIMAL_SUFFIXES: Record<string, number> = { k: 1e3, M: 1e6, G: 1e9, T: 1e12, P: 1e15 }
+
+/**
+ * A Kubernetes quantity as a number: CPU in millicores, everything else in
+ * its base unit
+ */
+export function parseQuotaQuantity(resource: string, value: string): number {
+  const match = value.trim().match(/^([\d.]+)([a-zA-Z]*)$/)
+  if (!match) {
+    return 0
+  }
+
+  const amount = parseFloat(match[1])
+  const suffix = match[2]
+  if (resource.endsWith('cpu')) {
+    return suffix === 'm' ? amount : amount * 1000
+  }
+  return amount * (BINARY_SUFFIXES[suffix] ?? DECIMAL_SUFFIXES[suffix] ?? 1)
+}
+
+/**
+ * The first quota creating the resource would exceed, or null if it fits
+ */
+export function findExhaustedQuota(usage: QuotaUsage, demand: QuotaDemand): ExhaustedQuota | null {
+  const demands: Array<{ resource: string; amount: number; requested: string }> = [
+    { resource: demand.count, amount: 1, requested: '1' },
+  ]
+
+  const replicas = demand.replicas ?? 1
+  for (const { resource, field, name } of POD_RESOURCES) {
+    const value = demand.resources?.[field]?.[name]
+    if (value !== undefined && replicas > 0) {
+      demands.push({
+        resource,
+        amount: parseQuotaQuantity(resource, String(value)) * replicas,
+        requested: replicas > 1 ? `${replicas} × ${value}` : String(value),
+      })
+    }
+  }
+
+  for (const { resource, amount, requested } of demands) {
+    const limit = usage.quota[resource]
+    if (limit === undefined) {
+      continue
+    }
+
+    const used = usage.used[resource] || '0'
+    if (parseQuotaQuantity(resource, used) + amount > parseQuotaQuantity(resource, limit)) {
+      return { resource, used, limit, requested }
+    }
+  }
+
+  return null
+}
+
+/**
+ * What to tell the user, e.g. "You have 3/3 agents. Upgrade your plan or delete
+ * one to create another."
+ */
+export function describeExhaustedQuota(exhausted: ExhaustedQuota): string {
+  const label = QUOTA_LABELS[exhausted.resource] || exhausted.resource
+
+  if (exhausted.resource.startsWith('count/')) {
+    return `You have ${exhausted.used}/${exhausted.limit} ${label.toLowerCase()}. Upgrade your plan or delete one to create another.`
+  }
+  return `${label} of ${exhausted.requested} would exceed your quota: ${exhausted.used} of ${exhausted.limit} is in use. Upgrade your plan or lower the resources requested.`
+}
+
+/**
+ * Check the namespace's ResourceQuota has room for the resource
+ * @throws QuotaExceededError naming the exhausted quota
+ */
+export async function assertQuotaAvailable(namespace: string, demand: QuotaDemand): Promise<void> {
+  let usage: QuotaUsage
+  try {
+    usage = await k8sClient.getResourceQuotaUsage(namespace)
+  } catch (error) {
+    console.warn(`Failed to read the quota of ${namespace}; leaving it to Kubernetes:`, error instanceof Error ? error.message : String(error))
+    return
+  }
+
+  const exhausted = findExhaustedQuota(usage, demand)
+  if (exhausted) {
+    throw new QuotaExceededError(describeExhaustedQuota(exhausted), exhausted)
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Quota Request Service
+ *
+ * Organization owners request another plan or a custom quota; platform admins
+ * approve or reject the request. Approving applies the change the same way the
+ * quota API does: the organization's plan first, then its ResourceQuota,
+ * restoring the plan when Kubernetes rejects the update.
+ */
+
+import { db } from './db'
+import { k8sClient } from './k8s-client'
+import type { PlanId, QuotaRequestStatus, QuotaRequestSummary } from './plans'
+
+/**
+ * A request as stored in Prisma
+ */
+interface QuotaRequestRecord {
+  id: string
+  plan: string | null
+  quotas: unknown
+  message: string | null
+  status: string
+  reviewNote: string | null
+  reviewedAt: Date | null
+  createdAt: Date
+  organization: { id: string; name: string; plan: string }
+  requestedBy: { name: string | null; email: string } | null
+  reviewedBy: { name: string | null; email: string } | null
+}
+
+export type QuotaChange = { plan: PlanId } | { quotas: Record<string, string> }
+
+const quotaRequestInclude = {
+  organization: { select: { id: true, name: true, plan: true } },
+  requestedBy: { select: { name: true, email: true } },
+  reviewedBy: { select: { name: true, email: true } },
+}
+
+function toQuotaRequestSummary(request: QuotaRequestRecord): QuotaRequestSummary {
+  return {
+    id: request.id,
+    organization: request.organization,
+    plan: request.plan as PlanId | null,
+    quotas: (request.quotas as Record<string, string> | null) ?? null,
+    message: request.message,
+    status: request.status as QuotaRequestStatus,
+    requestedBy: request.requestedBy ? request.requestedBy.name || request.requestedBy.email : null,
+    reviewedBy: request.reviewedBy ? request.reviewedBy.name || request.reviewedBy.email : null,
+    reviewNote: request.reviewNote,
+    reviewedAt: request.reviewedAt?.toISOString() ?? null,
+    createdAt: request.createdAt.toISOString(),
+  }
+}
+
+/**
+ * Switch an organization to a plan, or to a custom quota
+ * @throws When Kubernetes rejects the ResourceQuota; the plan is restored
+ */
+export async function applyQuotaChange(
+  organization: { id: string; namespace: string; plan: string },
+  change: QuotaChange
+): Promise<void> {
+  await db.organization.update({
+    where: { id: organization.id },
+    data: { plan: 'plan' in change ? change.plan : 'custom' },
+  })
+
+  try {
+    if ('plan' in change) {
+      await k8sClient.updateResourceQuota(organization.namespace, change.plan, organization.id)
+    } else {
+      await k8sClient.updateResourceQuotaWithCustomSpec(organization.namespace, change.quotas, organization.id)
+    }
+  } catch (error) {
+    await db.organization.update({
+      where: { id: organization.id },
+      data: { plan: organization.plan },
+    })
+    throw error
+  }
+}
+
+/**
+ * The organization's requests, newest first
+ */
+export async function listOrganizationQuotaRequests(organizationId: string): Promise<QuotaRequestSummary[]> {
+  const requests: QuotaRequestRecord[] = await db.quotaRequest.findMany({
+    where: { organizationId },
+    orderBy: { createdAt: 'desc' },
+    include: quotaRequestInclude,
+  })
+  return requests.map(toQuotaRequestSummary)
+}
+
+/**
+ * Requests across all organizations, oldest first so they're reviewed in order
+ */
+export async function listQuotaRequests(status?: QuotaRequestStatus): Promise<QuotaRequestSummary[]> {
+  const requests: QuotaRequestRecord[] = await db.quotaRequest.findMany({
+    where: status ? { status } : {},
+    orderBy: { createdAt: 'asc' },
+    include: quotaRequestInclude,
+  })
+  return requests.map(toQuotaRequestSummary)
+}
+
+/**
+ * Record an owner's request
+ * @returns Null when the organization already has a pending request
+ */
+export async function createQuotaRequest(
+  organizationId: string,
+  userId: string,
+  change: QuotaChange,
+  message?: string
+): Promise<QuotaRequestSummary | null> {
+  const pending = await db.quotaRequest.count({
+    where: { organizationId, status: 'pending' },
+  })
+  if (pending > 0) {
+    return null
+  }
+
+  const request: QuotaRequestRecord = await db.quotaRequest.create({
+    data: {
+      organizationId,
+      plan: 'plan' in change ? change.plan : null,
+      quotas: 'quotas' in change ? change.quotas : undefined,
+      message: message || null,
+      requestedById: userId,
+    },
+    include: quotaRequestInclude,
+  })
+  return toQuotaRequestSummary(request)
+}
+
+/**
+ * Withdraw a pending request
+ * @returns False when the organization has no such pending request
+ */
+export async function cancelQuotaRequest(organizationId: string, requestId: string): Promise<boolean> {
+  const result = await db.quotaRequest.updateMany({
+    where: { id: requestId, organizationId, status: 'pending' },
+    data: { status: 'cancelled' },
+  })
+  return result.count > 0
+}
+
+/**
+ * Approve or reject a pending request; approving applies its plan or quota
+ * @returns The reviewed request, or null when it isn't pending
+ * @throws When applying the change fails; the request stays pending
+ */
+export async function reviewQuotaRequest(
+  requestId: string,
+  reviewerId: string,
+  decision: 'approve' | 'reject',
+  note?: string
+): Promise<QuotaRequestSummary | null> {
+  // Claim the request so concurrent reviews don't apply it twice
+  const claimed = await db.quotaRequest.updateMany({
+    where: { id: requestId, status: 'pending' },
+    data: {
+      status: decision === 'approve' ? 'approved' : 'rejected',
+      reviewedById: reviewerId,
+      reviewNote: note || null,
+      reviewedAt: new Date(),
+    },
+  })
+  if (claimed.count === 0) {
+    return null
+  }
+
+  const request = await db.quotaRequest.findUnique({
+    where: { id: requestId },
+    include: {
+      ...quotaRequestInclude,
+      organization: { select: { id: true, name: true, namespace: true, plan: true } },
+    },
+  })
+
+  if (decision === 'approve') {
+    try {
+      await applyQuotaChange(
+        request.organization,
+        request.plan ? { plan: request.plan as PlanId } : { quotas: request.quotas as Record<string, string> }
+      )
+    } catch (error) {
+      await db.quotaRequest.update({
+        where: { id: requestId },
+        data: { status: 'pending', reviewedById: null, reviewNote: null, reviewedAt: null },
+      })
+      throw error
+    }
+  }
+
+  const reviewed: QuotaRequestRecord = await db.quotaRequest.findUnique({
+    where: { id: requestId },
+    include: quotaRequestInclude,
+  })
+  return toQuotaRequestSummary(reviewed)
+}
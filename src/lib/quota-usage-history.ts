@@ -0,0 +1,112 @@
+/**
+ * Quota Usage History
+ *
+ * Turns the ResourceQuota usage snapshots the server records into one value
+ * per day for each quota, and forecasts when growing usage reaches its limit.
+ */
+
+import { parseQuotaQuantity } from './quota-guard'
+import type { QuotaUsageHistory, UsageHistoryRange, UsageHistorySeries } from '@/types/usage'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * A snapshot as stored in Prisma
+ */
+export interface QuotaUsageSnapshotRecord {
+  quota: unknown
+  used: unknown
+  takenAt: Date
+}
+
+/**
+ * Days until usage reaches the limit, from the least-squares trend of the
+ * daily values
+ * @returns 0 once the limit is reached, null when usage is flat or falling
+ */
+export function forecastDaysUntilLimit(values: number[], limit: number | null): number | null {
+  if (limit === null || values.length === 0) {
+    return null
+  }
+
+  const current = values[values.length - 1]
+  if (current >= limit) {
+    return 0
+  }
+  if (values.length < 2) {
+    return null
+  }
+
+  const meanX = (values.length - 1) / 2
+  const meanY = values.reduce((sum, value) => sum + value, 0) / values.length
+  let covariance = 0
+  let variance = 0
+  values.forEach((value, x) => {
+    covariance += (x - meanX) * (value - meanY)
+    variance += (x - meanX) ** 2
+  })
+
+  const perDay = covariance / variance
+  if (perDay <= 0) {
+    return null
+  }
+  return Math.ceil((limit - current) / perDay)
+}
+
+/**
+ * Daily usage series for the days up to now, starting with the first day that
+ * has a snapshot. Days without one repeat the day before.
+ */
+export function buildQuotaUsageHistory(
+  snapshots: QuotaUsageSnapshotRecord[],
+  days: UsageHistoryRange,
+  now = new Date()
+): QuotaUsageHistory {
+  const sorted = [...snapshots].sort((a, b) => a.takenAt.getTime() - b.takenAt.getTime())
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  const firstDay = today - (days - 1) * DAY_MS
+
+  // The last snapshot of each day in the range
+  const byDay = new Map<number, QuotaUsageSnapshotRecord>()
+  for (const snapshot of sorted) {
+    const time = snapshot.takenAt.getTime()
+    const day = time - (time % DAY_MS)
+    if (day >= firstDay && day <= today) {
+      byDay.set(day, snapshot)
+    }
+  }
+
+  const inRange = sorted.filter(snapshot => snapshot.takenAt.getTime() >= firstDay)
+  if (inRange.length === 0) {
+    return { days, since: null, series: {} }
+  }
+
+  const latest = inRange[inRange.length - 1]
+  const latestQuota = (latest.quota || {}) as Record<string, string>
+  const resources = new Set<string>()
+  for (const snapshot of inRange) {
+    Object.keys((snapshot.quota || {}) as Record<string, string>).forEach(resource => resources.add(resource))
+  }
+
+  const series: Record<string, UsageHistorySeries> = {}
+  for (const resource of resources) {
+    const values: number[] = []
+    let previous: number | null = null
+
+    for (let day = firstDay; day <= today; day += DAY_MS) {
+      const snapshot = byDay.get(day)
+      if (snapshot) {
+        const used = ((snapshot.used || {}) as Record<string, string>)[resource] || '0'
+        previous = parseQuotaQuantity(resource, used)
+      }
+      if (previous !== null) {
+        values.push(previous)
+      }
+    }
+
+    const limit = latestQuota[resource] !== undefined ? parseQuotaQuantity(resource, latestQuota[resource]) : null
+    series[resource] = { values, limit, daysUntilLimit: forecastDaysUntilLimit(values, limit) }
+  }
+
+  return { days, since: inRange[0].takenAt.toISOString(), series }
+}
@@ -0,0 +1,122 @@
+/**
+ * Quota Usage Snapshot Service
+ *
+ * Records every organization's ResourceQuota usage on an interval so the
+ * Capacity page can show how usage grew. The server starts the recorder from
+ * instrumentation; with several replicas running, an organization snapshotted
+ * by another replica during the interval is skipped.
+ */
+
+import { db } from './db'
+import { k8sClient } from './k8s-client'
+import { getQuotaSnapshotIntervalMinutes, hasDatabaseUrl } from './env'
+import { buildQuotaUsageHistory, type QuotaUsageSnapshotRecord } from './quota-usage-history'
+import { USAGE_HISTORY_RANGES, type QuotaUsageHistory, type UsageHistoryRange } from '@/types/usage'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Snapshots older than the longest range are deleted
+const RETENTION_DAYS = Math.max(...USAGE_HISTORY_RANGES)
+
+let snapshotTimer: ReturnType<typeof setInterval> | null = null
+let recording = false
+
+/**
+ * Snapshot the quota usage of every organization not snapshotted within the
+ * interval, then delete snapshots past retention
+ * @returns The number of snapshots recorded
+ */
+export async function recordQuotaUsageSnapshots(intervalMinutes: number, now = new Date()): Promise<number> {
+  // Half the interval, so a late tick isn't skipped because of the previous one
+  const recentSince = new Date(now.getTime() - intervalMinutes * 60 * 1000 / 2)
+
+  const [organizations, recent] = await Promise.all([
+    db.organization.findMany({ select: { id: true, namespace: true } }),
+    db.quotaUsageSnapshot.findMany({
+      where: { takenAt: { gte: recentSince } },
+      select: { organizationId: true },
+      distinct: ['organizationId'],
+    }),
+  ])
+  const snapshotted = new Set(recent.map((snapshot: { organizationId: string }) => snapshot.organizationId))
+
+  let recorded = 0
+  for (const organization of organizations as Array<{ id: string; namespace: string }>) {
+    if (snapshotted.has(organization.id)) {
+      continue
+    }
+
+    try {
+      const usage = await k8sClient.getResourceQuotaUsage(organization.namespace)
+      // An unreadable quota comes back empty; there's nothing to record
+      if (Object.keys(usage.quota).length === 0) {
+        continue
+      }
+
+      await db.quotaUsageSnapshot.create({
+        data: {
+          organizationId: organization.id,
+          quota: usage.quota,
+          used: usage.used,
+          takenAt: now,
+        },
+      })
+      recorded++
+    } catch (error) {
+      console.error(`Failed to snapshot quota usage for organization ${organization.id}:`, error)
+    }
+  }
+
+  await db.quotaUsageSnapshot.deleteMany({
+    where: { takenAt: { lt: new Date(now.getTime() - RETENTION_DAYS * DAY_MS) } },
+  })
+
+  return recorded
+}
+
+/**
+ * Start recording snapshots on the configured interval, once per process
+ */
+export function startQuotaUsageSnapshots(): void {
+  const intervalMinutes = getQuotaSnapshotIntervalMinutes()
+  if (snapshotTimer || !hasDatabaseUrl || !(intervalMinutes > 0)) {
+    return
+  }
+
+  const tick = async () => {
+    // A slow run isn't overlapped by the next one
+    if (recording) {
+      return
+    }
+
+    recording = true
+    try {
+      await recordQuotaUsageSnapshots(intervalMinutes)
+    } catch (error) {
+      console.error('Failed to record quota usage snapshots:', error)
+    } finally {
+      recording = false
+    }
+  }
+
+  snapshotTimer = setInterval(tick, intervalMinutes * 60 * 1000)
+  // Don't keep the process alive just for snapshots
+  snapshotTimer.unref?.()
+  void tick()
+}
+
+/**
+ * The organization's daily usage over the range
+ */
+export async function getQuotaUsageHistory(
+  organizationId: string,
+  days: UsageHistoryRange,
+  now = new Date()
+): Promise<QuotaUsageHistory> {
+  const snapshots: QuotaUsageSnapshotRecord[] = await db.quotaUsageSnapshot.findMany({
+    where: { organizationId, takenAt: { gte: new Date(now.getTime() - days * DAY_MS) } },
+    orderBy: { takenAt: 'asc' },
+    select: { quota: true, used: true, takenAt: true },
+  })
+  return buildQuotaUsageHistory(snapshots, days, now)
+}
@@ -0,0 +1,263 @@
+/**
+ * Spend Budget Service
+ *
+ * Checks an organization's budgets against current spend, records threshold
+ * alerts once per period, and pauses or resumes scheduled agents for budgets
+ * that ask for it. The server runs the checks on an interval from
+ * instrumentation; reading budgets only reports spend and the stored alerts.
+ */
+
+import { db } from './db'
+import { k8sClient } from './k8s-client'
+import { getBudgetCheckIntervalMinutes, hasDatabaseUrl } from './env'
+import type { LanguageAgent } from '@/types/agent'
+import { getOrganizationCostReport, listOrganizationAgents } from './organization-cost-service'
+import type { OrganizationCostReport } from './organization-cost'
+import {
+  getBudgetPeriodRange,
+  getBudgetSpend,
+  getCrossedThreshold,
+  getScheduledAgentsInScope,
+  type BudgetPeriod,
+  type BudgetScope,
+  type SpendBudgetRecord,
+  type SpendBudgetStatus,
+} from './spend-budgets'
+
+let checkTimer: ReturnType<typeof setInterval> | null = null
+let checking = false
+
+// Suspend or resume agent CronJobs, returning the ones that changed
+async function setAgentsSuspended(namespace: string, agentNames: string[], suspended: boolean): Promise<string[]> {
+  const results = await Promise.all(agentNames.map(async (agentName) => {
+    try {
+      await k8sClient.setCronJobSuspended(namespace, agentName, suspended)
+      return agentName
+    } catch (error) {
+      console.warn(`Failed to ${suspended ? 'pause' : 'resume'} agent ${agentName}:`, error instanceof Error ? error.message : String(error))
+      return null
+    }
+  }))
+  return results.filter((name): name is string => name !== null)
+}
+
+async function listAgentsForBudgets(namespace: string): Promise<LanguageAgent[]> {
+  try {
+    return await listOrganizationAgents(namespace)
+  } catch (error) {
+    // Organization budgets still work; cluster budgets see no spend and nothing is paused
+    console.warn('Failed to list agents for budgets:', error instanceof Error ? error.message : String(error))
+    return []
+  }
+}
+
+/**
+ * A budget's spend this period, with its alert state
+ */
+function toBudgetStatus(
+  budget: SpendBudgetRecord,
+  report: OrganizationCostReport,
+  now: Date,
+  { alertedAt, pausedAgents }: { alertedAt: Date | null; pausedAgents: string[] }
+): SpendBudgetStatus {
+  const period = budget.period as BudgetPeriod
+  const { start, end } = getBudgetPeriodRange(period, now)
+  const spent = getBudgetSpend(budget, report)
+
+  return {
+    id: budget.id,
+    scope: budget.scope as BudgetScope,
+    clusterName: budget.clusterName,
+    agentName: budget.agentName,
+    period,
+    amount: budget.amount,
+    pauseScheduledAgents: budget.pauseScheduledAgents,
+    currency: report.currency,
+    spent,
+    percent: budget.amount > 0 ? spent / budget.amount * 100 : 0,
+    threshold: getCrossedThreshold(spent, budget.amount),
+    periodStart: start.toISOString(),
+    periodEnd: end.toISOString(),
+    alertedAt: alertedAt?.toISOString() ?? null,
+    pausedAgents,
+  }
+}
+
+/**
+ * Check one budget against its period's report, raising the alert and pausing
+ * agents when a new threshold is crossed
+ */
+async function evaluateBudget(
+  budget: SpendBudgetRecord,
+  report: OrganizationCostReport,
+  { namespace, agents, now }: { namespace: string; agents: LanguageAgent[]; now: Date }
+): Promise<SpendBudgetStatus> {
+  const { start } = getBudgetPeriodRange(budget.period as BudgetPeriod, now)
+  const threshold = getCrossedThreshold(getBudgetSpend(budget, report), budget.amount)
+  const isNewPeriod = budget.alertedPeriodStart?.getTime() !== start.getTime()
+
+  let { alertedThreshold, alertedAt, pausedAgents } = budget
+  if (isNewPeriod) {
+    // Agents paused for last period's overspend get this period's budget
+    if (pausedAgents.length > 0) {
+      const resumed = await setAgentsSuspended(namespace, pausedAgents, false)
+      pausedAgents = pausedAgents.filter(agentName => !resumed.includes(agentName))
+    }
+    alertedThreshold = null
+  }
+
+  if (threshold !== null && (alertedThreshold === null || threshold > alertedThreshold)) {
+    // Claim the alert so concurrent checks don't raise or pause twice
+    const claimed = await db.spendBudget.updateMany({
+      where: { id: budget.id, alertedAt: budget.alertedAt },
+      data: { alertedThreshold: threshold, alertedPeriodStart: start, alertedAt: now, pausedAgents },
+    })
+    if (claimed.count > 0) {
+      alertedThreshold = threshold
+      alertedAt = now
+      if (threshold >= 100 && budget.pauseScheduledAgents) {
+        const paused = await setAgentsSuspended(namespace, getScheduledAgentsInScope(budget, agents), true)
+        pausedAgents = [...new Set([...pausedAgents, ...paused])]
+        await db.spendBudget.update({ where: { id: budget.id }, data: { pausedAgents } })
+      }
+    }
+  } else if (isNewPeriod) {
+    await db.spendBudget.update({
+      where: { id: budget.id },
+      data: { alertedThreshold: null, alertedPeriodStart: start, pausedAgents },
+    })
+  }
+
+  return toBudgetStatus(budget, report, now, { alertedAt, pausedAgents })
+}
+
+// An organization's budgets, with the agents and period reports they're checked against
+async function loadBudgets(organization: { id: string; namespace: string }, now: Date) {
+  const budgets: SpendBudgetRecord[] = await db.spendBudget.findMany({
+    where: { organizationId: organization.id },
+    orderBy: { createdAt: 'asc' },
+  })
+  if (budgets.length === 0) {
+    return { budgets, agents: [] as LanguageAgent[], reports: new Map<string, OrganizationCostReport>() }
+  }
+
+  const agents = await listAgentsForBudgets(organization.namespace)
+
+  // One report per period length, shared by every budget with that period
+  const periods = [...new Set(budgets.map(budget => budget.period as BudgetPeriod))]
+  const reports = new Map(await Promise.all(periods.map(async (period): Promise<[string, OrganizationCostReport]> => {
+    const { start } = getBudgetPeriodRange(period, now)
+    const report = await getOrganizationCostReport(organization, { from: start, to: now, granularity: 'day', top: 0, agents })
+    return [period, report]
+  })))
+
+  return { budgets, agents, reports }
+}
+
+/**
+ * An organization's budgets with spend so far this period and the alerts
+ * last recorded for them. Changes nothing; the alerts are raised by the checks.
+ */
+export async function getSpendBudgetStatuses(
+  organization: { id: string; namespace: string },
+  now = new Date()
+): Promise<SpendBudgetStatus[]> {
+  const { budgets, reports } = await loadBudgets(organization, now)
+
+  return budgets.map(budget => {
+    const { start } = getBudgetPeriodRange(budget.period as BudgetPeriod, now)
+    // An alert from an earlier period no longer applies; paused agents stay paused until the next check resumes them
+    const alertedAt = budget.alertedPeriodStart?.getTime() === start.getTime() ? budget.alertedAt : null
+    return toBudgetStatus(budget, reports.get(budget.period)!, now, { alertedAt, pausedAgents: budget.pausedAgents })
+  })
+}
+
+/**
+ * Check all of an organization's budgets against spend so far this period
+ */
+export async function evaluateSpendBudgets(
+  organization: { id: string; namespace: string },
+  now = new Date()
+): Promise<SpendBudgetStatus[]> {
+  const { budgets, agents, reports } = await loadBudgets(organization, now)
+
+  const statuses: SpendBudgetStatus[] = []
+  for (const budget of budgets) {
+    statuses.push(await evaluateBudget(budget, reports.get(budget.period)!, {
+      namespace: organization.namespace,
+      agents,
+      now,
+    }))
+  }
+  return statuses
+}
+
+/**
+ * Check the budgets of every organization that has any
+ * @returns The number of organizations checked
+ */
+export async function checkAllSpendBudgets(now = new Date()): Promise<number> {
+  const organizations: Array<{ id: string; namespace: string }> = await db.organization.findMany({
+    where: { spendBudgets: { some: {} } },
+    select: { id: true, namespace: true },
+  })
+
+  let checked = 0
+  for (const organization of organizations) {
+    try {
+      await evaluateSpendBudgets(organization, now)
+      checked++
+    } catch (error) {
+      console.error(`Failed to check spend budgets for organization ${organization.id}:`, error)
+    }
+  }
+  return checked
+}
+
+/**
+ * Start checking budgets on the configured interval, once per process
+ */
+export function startSpendBudgetChecks(): void {
+  const intervalMinutes = getBudgetCheckIntervalMinutes()
+  if (checkTimer || !hasDatabaseUrl || !(intervalMinutes > 0)) {
+    return
+  }
+
+  const tick = async () => {
+    // A slow run isn't overlapped by the next one
+    if (checking) {
+      return
+    }
+
+    checking = true
+    try {
+      await checkAllSpendBudgets()
+    } catch (error) {
+      console.error('Failed to check spend budgets:', error)
+    } finally {
+      checking = false
+    }
+  }
+
+  checkTimer = setInterval(tick, intervalMinutes * 60 * 1000)
+  // Don't keep the process alive just for budget checks
+  checkTimer.unref?.()
+  void tick()
+}
+
+/**
+ * Delete a budget, resuming any agents it paused
+ * @returns False if the organization has no such budget
+ */
+export async function deleteSpendBudget(organization: { id: string; namespace: string }, budgetId: string): Promise<boolean> {
+  const budget: SpendBudgetRecord | null = await db.spendBudget.findFirst({
+    where: { id: budgetId, organizationId: organization.id },
+  })
+  if (!budget) {
+    return false
+  }
+
+  await db.spendBudget.delete({ where: { id: budget.id } })
+  await setAgentsSuspended(organization.namespace, budget.pausedAgents, false)
+  return true
+}
@@ -0,0 +1,128 @@
+/**
+ * Spend Budgets
+ *
+ * Weekly or monthly LLM spend limits for an organization, a cluster or a
+ * single agent. Budgets are checked against the organization cost report and
+ * alert as spend crosses each threshold.
+ */
+
+import type { LanguageAgent } from '@/types/agent'
+import type { OrganizationCostReport } from './organization-cost'
+
+export const BUDGET_SCOPES = ['organization', 'cluster', 'agent'] as const
+export const BUDGET_PERIODS = ['weekly', 'monthly'] as const
+
+// Percentages of the budget that raise an alert
+export const BUDGET_THRESHOLDS = [50, 80, 100]
+
+export type BudgetScope = typeof BUDGET_SCOPES[number]
+export type BudgetPeriod = typeof BUDGET_PERIODS[number]
+
+/**
+ * A budget as stored in Prisma
+ */
+export interface SpendBudgetRecord {
+  id: string
+  scope: string
+  clusterName: string | null
+  agentName: string | null
+  period: string
+  amount: number
+  pauseScheduledAgents: boolean
+  alertedThreshold: number | null
+  alertedPeriodStart: Date | null
+  alertedAt: Date | null
+  pausedAgents: string[]
+}
+
+export interface SpendBudgetStatus {
+  id: string
+  scope: BudgetScope
+  clusterName: string | null
+  agentName: string | null
+  period: BudgetPeriod
+  amount: number
+  pauseScheduledAgents: boolean
+  currency: string
+  spent: number
+  // Spend as a percentage of the amount; above 100 once exceeded
+  percent: number
+  // Highest threshold crossed in the current period
+  threshold: number | null
+  periodStart: string
+  periodEnd: string
+  // When the latest threshold alert was raised
+  alertedAt: string | null
+  pausedAgents: string[]
+}
+
+/**
+ * The current budget period: weeks start on Monday and months on the 1st, both in UTC
+ */
+export function getBudgetPeriodRange(period: BudgetPeriod, now = new Date()): { start: Date; end: Date } {
+  if (period === 'monthly') {
+    return {
+      start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    }
+  }
+
+  const daysSinceMonday = (now.getUTCDay() + 6) % 7
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - daysSinceMonday))
+  return { start, end: new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000) }
+}
+
+/**
+ * Cost attributed to a budget's organization, cluster or agent
+ */
+export function getBudgetSpend(budget: Pick<SpendBudgetRecord, 'scope' | 'clusterName' | 'agentName'>, report: OrganizationCostReport): number {
+  switch (budget.scope) {
+    case 'cluster':
+      return report.byCluster.find(entry => entry.name === budget.clusterName)?.cost || 0
+    case 'agent':
+      return report.byAgent.find(entry => entry.name === budget.agentName)?.cost || 0
+    default:
+      return report.totals.cost
+  }
+}
+
+/**
+ * Highest alert threshold reached by the spend
+ * @returns The threshold percentage, or null below the lowest one
+ */
+export function getCrossedThreshold(spent: number, amount: number): number | null {
+  const percent = amount > 0 ? spent / amount * 100 : 0
+  return BUDGET_THRESHOLDS.filter(threshold => percent >= threshold).pop() ?? null
+}
+
+/**
+ * Scheduled agents covered by a budget, whose CronJobs share the agent's name
+ */
+export function getScheduledAgentsInScope(
+  budget: Pick<SpendBudgetRecord, 'scope' | 'clusterName' | 'agentName'>,
+  agents: LanguageAgent[]
+): string[] {
+  return agents
+    .filter(agent => agent.spec?.executionMode === 'scheduled')
+    .filter(agent =>
+      budget.scope === 'organization'
+      || (budget.scope === 'cluster' && agent.spec.clusterRef === budget.clusterName)
+      || (budget.scope === 'agent' && agent.metadata?.name === budget.agentName)
+    )
+    .map(agent => agent.metadata.name)
+    .filter((name): name is string => !!name)
+}
+
+/**
+ * Display name of what a budget covers
+ */
+export function describeBudgetTarget(budget: Pick<SpendBudgetStatus, 'scope' | 'clusterName' | 'agentName'>): string {
+  switch (budget.scope) {
+    case 'cluster':
+      return `Cluster ${budget.clusterName}`
+    case 'agent':
+      return `Agent ${budget.agentName}`
+    default:
+      return 'Organization'
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Structured Logs
+ *
+ * Splits JSON log lines into their level, message and remaining fields for the
+ * log viewer. Plain lines keep their text, with the level detected from it.
+ */
+
+import { detectLogLevel, stripAnsi } from './log-archive'
+import type { LogLevel, LogTraceContext, StructuredLogMessage } from '@/types/logs'
+
+const MESSAGE_KEYS = ['msg', 'message', 'event']
+const LEVEL_KEYS = ['level', 'lvl', 'severity', 'levelname']
+// Already shown from the line's Kubernetes timestamp
+const TIME_KEYS = ['time', 'timestamp', 'ts', '@timestamp', 'asctime']
+
+// `trace_id=…`, `"traceId":"…"`, `otelTraceID=…` as written by the OpenTelemetry
+// logging instrumentations; the id is 32 hex digits and a span id 16
+const TRACE_ID_PATTERN = /\b(?:trace_id|traceid|otelTraceID)["']?\s*[:=]\s*["']?([0-9a-f]{32})\b/i
+const SPAN_ID_PATTERN = /\b(?:span_id|spanid|otelSpanID)["']?\s*[:=]\s*["']?([0-9a-f]{16})\b/i
+// Tracers write an all-zero id when there's no active span
+const INVALID_TRACE_ID = /^0+$/
+
+/**
+ * A level field's value, as a name or as a pino/bunyan number (30 info, 40 warn, 50 error)
+ */
+function parseLevelField(value: unknown): LogLevel {
+  if (typeof value === 'number') {
+    return value >= 50 ? 'error' : value >= 40 ? 'warn' : value >= 30 ? 'info' : 'debug'
+  }
+  return detectLogLevel(`level=${stringifyField(value)}`)
+}
+
+function stringifyField(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+/**
+ * Parse a log message, reading JSON objects as structured lines
+ */
+export function parseStructuredLogMessage(message: string): StructuredLogMessage {
+  const trimmed = message.trim()
+  if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed)
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        const record = parsed as Record<string, unknown>
+        const messageKey = MESSAGE_KEYS.find(key => key in record)
+        const levelKey = LEVEL_KEYS.find(key => key in record)
+
+        const fields: Record<string, string> = {}
+        for (const [key, value] of Object.entries(record)) {
+          if (key !== messageKey && key !== levelKey && !TIME_KEYS.includes(key)) {
+            fields[key] = stringifyField(value)
+          }
+        }
+
+        return {
+          level: levelKey ? parseLevelField(record[levelKey]) : detectLogLevel(trimmed),
+          message: messageKey ? stringifyField(record[messageKey]) : '',
+          fields,
+        }
+      }
+    } catch {
+      // Not JSON after all; treat it as plain text
+    }
+  }
+
+  return { level: detectLogLevel(message), message, fields: {} }
+}
+
+/**
+ * The trace and span a line was logged in, for lines carrying OpenTelemetry
+ * log correlation fields
+ * @returns null for a line without a valid trace id
+ */
+export function extractTraceContext(message: string): LogTraceContext | null {
+  const plain = stripAnsi(message)
+  const traceId = plain.match(TRACE_ID_PATTERN)?.[1]
+  if (!traceId || INVALID_TRACE_ID.test(traceId)) {
+    return null
+  }
+  const spanId = plain.match(SPAN_ID_PATTERN)?.[1]
+  return {
+    traceId: traceId.toLowerCase(),
+    spanId: spanId && !INVALID_TRACE_ID.test(spanId) ? spanId.toLowerCase() : null,
+  }
+}
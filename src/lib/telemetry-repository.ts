@@ -0,0 +1,329 @@
+/**
+ * Telemetry Repository
+ *
+ * Typed access to agent telemetry (OpenTelemetry spans) for the executions,
+ * traces, OTLP and cost routes. The default implementation queries ClickHouse;
+ * tests swap in an in-memory repository with `setTelemetryRepository`.
+ */
+
+import { createClickHouseTelemetryRepository } from './clickhouse-telemetry-repository'
+
+/**
+ * Organization whose telemetry may be read, matched on the resource
+ * attributes the operator stamps on agent spans
+ */
+export interface TelemetryScope {
+  organizationId: string
+  namespace: string
+}
+
+export type TelemetryGranularity = 'hour' | 'day'
+
+export interface SpanEvent {
+  timestamp: Date
+  timeUnixNano: string
+  name: string
+  attributes: Record<string, string>
+}
+
+export interface TelemetrySpan {
+  traceId: string
+  spanId: string
+  parentSpanId: string | null
+  spanName: string
+  spanKind: string
+  startTime: Date
+  startTimeUnixNano: string
+  endTime: Date
+  endTimeUnixNano: string
+  durationNs: number
+  statusCode: string
+  statusMessage: string
+  attributes: Record<string, string>
+  events: SpanEvent[]
+  // Pod that recorded the span, from its `k8s.pod.name` resource attribute
+  podName: string | null
+}
+
+export type ExecutionStatus = 'success' | 'error'
+
+export interface ExecutionSummary {
+  traceId: string
+  startTime: Date
+  startTimeUnixNano: string
+  endTime: Date
+  durationMs: number
+  spanCount: number
+  // Spans that errored, whatever the execution's outcome
+  errorSpanCount: number
+  rootSpanName: string
+  // Outcome of the root (earliest) span
+  status: ExecutionStatus
+  // Models called during the execution
+  models: string[]
+}
+
+export interface ExecutionFilters {
+  status?: ExecutionStatus
+  minDurationMs?: number
+  rootSpanName?: string
+  model?: string
+}
+
+export type ExecutionFacetName = 'status' | 'rootSpanName' | 'model'
+
+export interface FacetCount {
+  value: string
+  count: number
+}
+
+/**
+ * Execution counts per value. Each facet applies every filter except its own,
+ * so picking a value doesn't hide the alternatives.
+ */
+export type ExecutionFacets = Record<ExecutionFacetName, FacetCount[]>
+
+/**
+ * Position after the last execution of a page, in newest-first order
+ */
+export interface ExecutionCursor {
+  startTimeUnixNano: string
+  traceId: string
+}
+
+export interface ModelUsageBucket {
+  interval: Date
+  // When the usage is priced: the interval's start, or the last price change within it
+  pricedAt: Date
+  modelName: string
+  spanCount: number
+  errorCount: number
+  avgDurationMs: number
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface TaskUsageBucket {
+  interval: Date
+  // When the usage is priced: the interval's start, or the last price change within it
+  pricedAt: Date
+  taskName: string
+  modelName: string
+  spanCount: number
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface AgentUsageBucket {
+  interval: Date
+  // When the usage is priced: the interval's start, or the last price change within it
+  pricedAt: Date
+  agentName: string
+  // Empty for spans outside a task
+  taskName: string
+  modelName: string
+  spanCount: number
+  errorCount: number
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface AgentExecutionUsage {
+  agentName: string
+  // Executions (traces) in the range
+  executions: number
+  inputTokens: number
+  outputTokens: number
+  // Models the agent's spans requested, sorted
+  models: string[]
+}
+
+export interface ExecutionModelUsage {
+  traceId: string
+  // Earliest span of the execution that used the model
+  timestamp: Date
+  agentName: string
+  // Empty for spans outside a task
+  taskName: string
+  modelName: string
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface ModelRequestBucket {
+  interval: Date
+  requests: number
+  errorCount: number
+  inputTokens: number
+  outputTokens: number
+  p50DurationMs: number
+  p95DurationMs: number
+  p99DurationMs: number
+}
+
+export interface LatencyPercentiles {
+  p50Ms: number
+  p95Ms: number
+  p99Ms: number
+}
+
+export interface ModelErrorCount {
+  // The span's `error.type`, or "unknown" when it has none
+  errorType: string
+  count: number
+}
+
+export interface ModelAgentUsage {
+  // Empty for requests made outside an agent
+  agentName: string
+  requests: number
+  errorCount: number
+  inputTokens: number
+  outputTokens: number
+  avgDurationMs: number
+}
+
+export interface ExecutionListQuery {
+  scope: TelemetryScope
+  agentName: string
+  from: Date
+  to: Date
+  limit: number
+  filters?: ExecutionFilters
+  cursor?: ExecutionCursor
+}
+
+export interface ExecutionFacetQuery {
+  scope: TelemetryScope
+  agentName: string
+  from: Date
+  to: Date
+  filters?: ExecutionFilters
+}
+
+export interface TraceQuery {
+  scope: TelemetryScope
+  agentName: string
+  traceIdPrefix: string
+  // Drop operator reconcile spans, which aren't part of the agent's work
+  excludeReconcile?: boolean
+}
+
+export interface UsageQuery {
+  scope: TelemetryScope
+  agentName: string
+  from: Date
+  to: Date
+  granularity: TelemetryGranularity
+  // Times prices changed; buckets are split at each, so all of a bucket's usage has one price
+  priceChanges?: Date[]
+}
+
+export interface OrganizationUsageQuery {
+  scope: TelemetryScope
+  from: Date
+  to: Date
+  granularity: TelemetryGranularity
+  // Times prices changed; buckets are split at each, so all of a bucket's usage has one price
+  priceChanges?: Date[]
+}
+
+export interface ExecutionUsageQuery {
+  scope: TelemetryScope
+  from: Date
+  to: Date
+}
+
+export interface ModelAnalyticsQuery {
+  scope: TelemetryScope
+  // Names the model's requests are recorded under in `gen_ai.request.model`
+  modelNames: string[]
+  from: Date
+  to: Date
+}
+
+export interface ModelRequestQuery extends ModelAnalyticsQuery {
+  granularity: TelemetryGranularity
+}
+
+export interface TelemetryRepository {
+  /** Agent executions (one per trace), newest first, starting after the cursor */
+  listExecutions(query: ExecutionListQuery): Promise<ExecutionSummary[]>
+  /** Execution counts by status, root span name and model */
+  getExecutionFacets(query: ExecutionFacetQuery): Promise<ExecutionFacets>
+  /** All spans of the trace matching the prefix, oldest first. Empty unless the agent took part in it. */
+  getTraceSpans(query: TraceQuery): Promise<TelemetrySpan[]>
+  /** Token usage per model and time bucket */
+  getModelUsage(query: UsageQuery): Promise<ModelUsageBucket[]>
+  /** Token usage per task, model and time bucket */
+  getTaskUsage(query: UsageQuery): Promise<TaskUsageBucket[]>
+  /** Token usage per agent, task, model and time bucket across the organization */
+  getOrganizationUsage(query: OrganizationUsageQuery): Promise<AgentUsageBucket[]>
+  /** Executions and token usage per agent across the organization */
+  getAgentExecutionUsage(query: ExecutionUsageQuery): Promise<AgentExecutionUsage[]>
+  /** Token usage per execution, task and model across the organization, oldest first */
+  getExecutionModelUsage(query: ExecutionUsageQuery): Promise<ExecutionModelUsage[]>
+  /** Requests, errors, token usage and latency of a model per time bucket across the organization */
+  getModelRequests(query: ModelRequestQuery): Promise<ModelRequestBucket[]>
+  /** Latency percentiles of a model's requests over the whole range. Null without requests. */
+  getModelLatency(query: ModelAnalyticsQuery): Promise<LatencyPercentiles | null>
+  /** Failed requests of a model by error type, most frequent first */
+  getModelErrors(query: ModelAnalyticsQuery): Promise<ModelErrorCount[]>
+  /** Requests and token usage of a model per agent, heaviest consumers first */
+  getModelAgentUsage(query: ModelAnalyticsQuery): Promise<ModelAgentUsage[]>
+}
+
+// Span name of operator reconcile loops, excluded from agent telemetry
+export const RECONCILE_SPAN_NAME = 'agent.reconcile'
+
+let repository: TelemetryRepository | null = null
+
+/**
+ * Get the telemetry repository, creating the ClickHouse one on first use
+ */
+export function getTelemetryRepository(): TelemetryRepository {
+  if (!repository) {
+    repository = createClickHouseTelemetryRepository()
+  }
+  return repository
+}
+
+/**
+ * Replace the telemetry repository (e.g. with an in-memory one in tests).
+ * Pass null to go back to the ClickHouse repository.
+ */
+export function setTelemetryRepository(next: TelemetryRepository | null): void {
+  repository = next
+}
+
+/**
+ * Validate an execution ID (`exec_<trace id prefix>` or a bare trace ID)
+ * @returns The lowercase trace ID prefix, or null if the ID isn't hex
+ */
+export function parseExecutionTraceId(executionId: string): string | null {
+  const traceIdPrefix = executionId.startsWith('exec_') ? executionId.substring(5) : executionId
+  return /^[0-9a-f]{1,32}$/i.test(traceIdPrefix) ? traceIdPrefix.toLowerCase() : null
+}
+
+/**
+ * Encode an execution cursor as an opaque URL-safe string
+ */
+export function encodeExecutionCursor(cursor: ExecutionCursor): string {
+  return Buffer.from(`${cursor.startTimeUnixNano}:${cursor.traceId}`).toString('base64url')
+}
+
+/**
+ * Decode a cursor from `encodeExecutionCursor`
+ * @returns The cursor, or null if it's malformed
+ */
+export function decodeExecutionCursor(value: string): ExecutionCursor | null {
+  const match = Buffer.from(value, 'base64url').toString().match(/^(\d{1,20}):([0-9a-f]{1,32})$/i)
+  return match ? { startTimeUnixNano: match[1], traceId: match[2] } : null
+}
+
+/**
+ * Convert Unix nanoseconds (as returned by ClickHouse) to a Date
+ */
+export function nanosToDate(nanos: string | number | bigint): Date {
+  return new Date(Number(BigInt(nanos) / BigInt(1000000)))
+}
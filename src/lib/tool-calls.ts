@@ -0,0 +1,123 @@
+// Utilities for tool calls requested by agents in chat completions
+
+import { ToolReference } from '@/types/agent'
+import { ChatToolCall, ToolCallDecision } from '@/types/chat'
+import { CompletionToolCall } from './chat-stream'
+
+// Separators agents use between a tool server name and one of its functions,
+// e.g. "github__create_issue" or "github.create_issue" for the "github" tool
+const TOOL_FUNCTION_SEPARATORS = ['__', '.', '/']
+
+/**
+ * Merge streamed tool call fragments into complete calls. Fragments are keyed by
+ * `index`; the name and ID arrive once while arguments arrive in pieces.
+ * @param accumulated - Calls assembled so far, mutated in place
+ * @param fragments - Tool call fragments from one streamed chunk
+ */
+export function accumulateToolCallDeltas(
+  accumulated: CompletionToolCall[],
+  fragments: CompletionToolCall[]
+): void {
+  fragments.forEach((fragment, position) => {
+    const index = fragment.index ?? position
+    const existing = accumulated[index]
+
+    if (!existing) {
+      accumulated[index] = {
+        ...fragment,
+        function: { name: fragment.function?.name, arguments: fragment.function?.arguments ?? '' }
+      }
+      return
+    }
+
+    existing.id = existing.id || fragment.id
+    existing.result = existing.result ?? fragment.result
+    existing.function = {
+      name: existing.function?.name || fragment.function?.name,
+      arguments: (existing.function?.arguments ?? '') + (fragment.function?.arguments ?? '')
+    }
+  })
+}
+
+/**
+ * Find the agent tool reference a tool function belongs to
+ */
+export function findToolReference(
+  toolName: string,
+  toolRefs: ToolReference[] = []
+): ToolReference | undefined {
+  return toolRefs.find(ref =>
+    ref.name === toolName ||
+    TOOL_FUNCTION_SEPARATORS.some(separator => toolName.startsWith(`${ref.name}${separator}`))
+  )
+}
+
+/**
+ * Convert completion tool calls into ChatToolCalls for storage and display
+ * @param calls - Complete tool calls from a completion message
+ * @param toolRefs - The agent's tool references, used to flag calls needing approval
+ * @param awaitingDecision - The agent ended its turn on these calls (finish_reason "tool_calls")
+ */
+export function normalizeToolCalls(
+  calls: CompletionToolCall[],
+  toolRefs: ToolReference[] = [],
+  awaitingDecision = false
+): ChatToolCall[] {
+  return calls
+    .filter(call => call?.function?.name)
+    .map((call, index): ChatToolCall => {
+      const name = call.function!.name!
+      const requiresApproval = !!findToolReference(name, toolRefs)?.requireApproval
+
+      return {
+        id: call.id || `call_${index}`,
+        name,
+        arguments: call.function?.arguments || '{}',
+        ...(call.result !== undefined && { result: call.result }),
+        // Calls the agent didn't stop for were already run by the agent itself
+        status: requiresApproval && awaitingDecision ? 'pending_approval' : 'completed',
+        requiresApproval
+      }
+    })
+}
+
+/**
+ * Convert stored tool calls back into chat-completions history: the assistant's
+ * `tool_calls` plus one `tool` message per call. Calls with no result or
+ * decision to reply with, such as ones the agent ran itself, are left out, as
+ * endpoints reject a `tool_call_id` that has no reply.
+ */
+export function toCompletionToolMessages(content: string, toolCalls: ChatToolCall[]) {
+  const answered = toolCalls.filter(call => call.result !== undefined || call.approval)
+  if (answered.length === 0) {
+    return [{ role: 'assistant', content }]
+  }
+
+  const assistantMessage = {
+    role: 'assistant',
+    content,
+    tool_calls: answered.map(call => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: call.arguments }
+    }))
+  }
+
+  const toolMessages = answered.map(call => ({
+    role: 'tool',
+    tool_call_id: call.id,
+    content: call.result ?? formatToolDecision(call.approval!.decision, call.approval!.reason)
+  }))
+
+  return [assistantMessage, ...toolMessages]
+}
+
+/**
+ * The tool message content that tells the agent about an approval decision
+ */
+export function formatToolDecision(decision: ToolCallDecision, reason?: string): string {
+  return JSON.stringify({
+    approved: decision === 'approved',
+    ...(reason && { reason })
+  })
+}
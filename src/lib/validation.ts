@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { PLAN_IDS } from './plans'
 
 // Common Kubernetes metadata schema
 const KubernetesMetadataSchema = z.object({
@@ -674,7 +675,7 @@ export const QuotaSchema = z.object({
 })
 
 export const QuotaUpdateSchema = z.object({
-  plan: z.enum(['free', 'pro', 'enterprise']).optional(),
+  plan: z.enum(PLAN_IDS).optional(),
   quotas: QuotaSchema.optional()
 }).refine(data => data.plan || data.quotas, {
   message: 'Either plan or quotas must be provided'
@@ -0,0 +1,54 @@
+export const AUDIT_RESOURCE_TYPES = [
+  'agent',
+  // An agent's version; the agent is in the entry's metadata
+  'version',
+  // A file in an agent's workspace, by path; the agent is in the entry's metadata
+  'file',
+  'model',
+  'tool',
+  'persona',
+  'cluster',
+  'member',
+  'invite',
+  'registry',
+  'organization',
+] as const
+
+export type AuditResourceType = typeof AUDIT_RESOURCE_TYPES[number]
+
+export const AUDIT_ACTIONS = [
+  'create',
+  'update',
+  'delete',
+  'rollback',
+  'lock',
+  'unlock',
+  'optimize',
+  'execute',
+  'accept',
+] as const
+
+export type AuditAction = typeof AUDIT_ACTIONS[number]
+
+// One spec field that changed; a field added has no `before`, one removed no `after`
+export interface AuditChange {
+  path: string
+  before?: unknown
+  after?: unknown
+}
+
+export interface AuditLogEntry {
+  id: string
+  actor: {
+    // Null once the user is deleted
+    id: string | null
+    email: string
+  }
+  action: AuditAction
+  resourceType: AuditResourceType
+  resourceName: string
+  clusterName: string | null
+  changes: AuditChange[]
+  metadata: Record<string, unknown> | null
+  createdAt: string
+}
@@ -11,6 +11,54 @@ export interface ChatMessage {
   thinkingContent?: string[]
   responseContent?: string
   hasThinking?: boolean
+  // True while an assistant message is still being streamed from the agent
+  isStreaming?: boolean
+  metadata?: ChatMessageMetadata
+  toolCalls?: ChatToolCall[]
+}
+
+export type ToolCallStatus = 'pending_approval' | 'approved' | 'rejected' | 'completed' | 'failed'
+
+export type ToolCallDecision = 'approved' | 'rejected'
+
+// Who decided on a tool call that required approval
+export interface ToolCallApprovalInfo {
+  decision: ToolCallDecision
+  decidedBy: {
+    id: string
+    name?: string | null
+    email: string
+  }
+  decidedAt: string
+  reason?: string
+}
+
+// A tool invocation requested by the agent, stored in ConversationMessage.toolCalls
+export interface ChatToolCall {
+  id: string
+  name: string
+  // Raw JSON arguments as produced by the model
+  arguments: string
+  result?: string
+  status: ToolCallStatus
+  requiresApproval?: boolean
+  approval?: ToolCallApprovalInfo
+}
+
+// Token usage reported by an agent's chat-completions endpoint
+export interface ChatTokenUsage {
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+}
+
+// Stored in ConversationMessage.metadata for persisted chat turns
+export interface ChatMessageMetadata {
+  model?: string
+  usage?: ChatTokenUsage
+  finishReason?: string
+  durationMs?: number
+  streamed?: boolean
 }
 
 export interface ChatConversation {
@@ -44,16 +92,29 @@ export interface AgentChatStatus {
 export interface ChatRequest {
   message: string
   conversation?: ChatMessage[]
+  // Proxy the agent's chat-completions stream as Server-Sent Events
+  stream?: boolean
+  // Persisted conversation to rebuild history from and append this turn to
+  conversationId?: string
 }
 
 export interface ChatResponse {
   success: boolean
   message: ChatMessage
+  // Present when the turn was persisted to a conversation
+  conversationId?: string
+  userMessageId?: string
   agentName: string
   agentStatus: string
   agentInfo: AgentChatInfo
 }
 
+// Events emitted by the chat route when streaming is requested
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | ({ type: 'done' } & Omit<ChatResponse, 'success'>)
+  | { type: 'error'; error: string; message: string }
+
 export interface ChatError {
   error: string
   message: string
@@ -0,0 +1,28 @@
+// A Kubernetes event about one of the organization's resources
+export interface K8sEvent {
+  id: string
+  type: 'agent' | 'model' | 'tool' | 'persona' | 'cluster' | 'pod' | 'service' | 'deployment'
+  action: 'created' | 'updated' | 'scaled' | 'failed' | 'ready' | 'warning' | 'normal' | string
+  resourceName: string
+  namespace: string
+  message: string
+  timestamp: string
+  reason: string
+  source: string
+  eventType: 'Normal' | 'Warning'
+  count?: number
+  firstTimestamp?: string
+  lastTimestamp?: string
+  involvedObject: {
+    kind: string
+    name: string
+    namespace: string
+    uid?: string
+  }
+}
+
+// An event in the feed, or the latest of several with the same reason on the same object
+export interface EventFeedEntry extends K8sEvent {
+  // Events folded into this entry; 1 when not grouped
+  groupSize: number
+}
@@ -0,0 +1,60 @@
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const
+
+export type LogLevel = typeof LOG_LEVELS[number]
+
+export const LOG_RESOURCE_KINDS = ['agent', 'model', 'tool'] as const
+
+export type LogResourceKind = typeof LOG_RESOURCE_KINDS[number]
+
+export interface ArchivedLogEntry {
+  id: string
+  podName: string
+  container: string
+  executionId: string | null
+  timestamp: string
+  level: LogLevel
+  message: string
+}
+
+// One archived pod, whether or not it still exists
+export interface ArchivedLogRun {
+  podName: string
+  executionId: string | null
+  firstTimestamp: string
+  lastTimestamp: string
+  lineCount: number
+}
+
+export interface LogSearchResult {
+  // Oldest first; the latest lines when more matched than the limit
+  entries: ArchivedLogEntry[]
+  // More lines matched than were returned
+  truncated: boolean
+  // Archived pods in the time range, newest first, whatever the other filters
+  runs: ArchivedLogRun[]
+}
+
+// A line of live output, tagged with the pod it came from when several are merged
+export interface PodLogLine {
+  podName: string
+  // Null for a line Kubernetes gave no timestamp
+  timestamp: string | null
+  message: string
+}
+
+// A log message split into its level, text and any other fields of a JSON line
+export interface StructuredLogMessage {
+  level: LogLevel
+  message: string
+  fields: Record<string, string>
+}
+
+// The trace a line was logged in, from OpenTelemetry log correlation fields
+export interface LogTraceContext {
+  traceId: string
+  spanId: string | null
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value)
+}
@@ -7,6 +7,8 @@ declare module 'next-auth' {
       email: string
       name?: string | null
       image?: string | null
+      // Reviews plan and quota requests from every organization
+      isPlatformAdmin?: boolean
     }
     organizations: Array<{
       id: string
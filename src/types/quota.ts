@@ -1,3 +1,5 @@
+import type { PlanId } from '@/lib/plans'
+
 export interface OrganizationQuota {
   'count/languageagents': string
   'count/languagemodels': string
@@ -19,7 +21,7 @@ export interface QuotaUsage {
 }
 
 export interface QuotaUpdateRequest {
-  plan?: 'free' | 'pro' | 'enterprise'
+  plan?: PlanId
   quotas?: OrganizationQuota
 }
 
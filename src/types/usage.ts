@@ -53,6 +53,31 @@ export interface ResourceMetrics {
   personas: UsageCardData
 }
 
+// Days of usage history the Capacity page can show
+export const USAGE_HISTORY_RANGES = [7, 30, 90] as const
+
+export type UsageHistoryRange = typeof USAGE_HISTORY_RANGES[number]
+
+export interface UsageHistorySeries {
+  // Usage at the end of each day, oldest first; CPU in millicores, memory in bytes
+  values: number[]
+  // The latest limit, in the same unit
+  limit: number | null
+  // Days until the limit is reached at the current rate; null when usage isn't growing
+  daysUntilLimit: number | null
+}
+
+export interface QuotaUsageHistory {
+  days: UsageHistoryRange
+  // When the oldest snapshot in the range was taken, null before the first one
+  since: string | null
+  series: Record<string, UsageHistorySeries>
+}
+
+export function isUsageHistoryRange(days: number): days is UsageHistoryRange {
+  return (USAGE_HISTORY_RANGES as readonly number[]).includes(days)
+}
+
 export const USAGE_STATUS_COLORS = {
   healthy: 'bg-stone-600',
   warning: 'bg-amber-600',